@@ -0,0 +1,18 @@
+// Rules for appointments patients book and cancel themselves through the portal
+const portalRules = {
+  // Minimum notice, in hours
+  bookingLeadHours: parseInt(process.env.PORTAL_BOOKING_LEAD_HOURS) || 24,
+  cancellationLeadHours: parseInt(process.env.PORTAL_CANCELLATION_LEAD_HOURS) || 24,
+  // How far ahead patients may book, in days
+  maxAdvanceDays: parseInt(process.env.PORTAL_MAX_ADVANCE_DAYS) || 90,
+  maxUpcomingAppointments: parseInt(process.env.PORTAL_MAX_UPCOMING_APPOINTMENTS) || 3,
+  // Treatment types patients may book without calling, with their slot length in minutes
+  treatmentTypes: [
+    { type: 'Check-up', duration: 30 },
+    { type: 'Cleaning', duration: 45 },
+    { type: 'Consultation', duration: 30 },
+    { type: 'Follow-up', duration: 20 },
+  ],
+};
+
+module.exports = portalRules;
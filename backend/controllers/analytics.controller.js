@@ -2,6 +2,8 @@ const Patient = require('../models/Patient');
 const Appointment = require('../models/Appointment');
 const Treatment = require('../models/Treatment');
 const Invoice = require('../models/Invoice');
+const { ACTIVE_STATUSES } = require('../services/schedulingService');
+const { getAgingReport } = require('../services/receivablesService');
 
 /**
  * Get dashboard metrics
@@ -39,7 +41,7 @@ exports.getDashboardMetrics = async (req, res, next) => {
     const upcomingAppointments = await Appointment.countDocuments({
       ...filter,
       startTime: { $gte: now, $lte: nextWeek },
-      status: 'scheduled',
+      status: { $in: ACTIVE_STATUSES },
     });
 
     res.json({
@@ -118,6 +120,8 @@ exports.getPatientGrowth = async (req, res, next) => {
 
 /**
  * Get revenue by treatment type
+ * Treatments from the procedure catalog are grouped by procedure, the rest by their
+ * type ignoring case and surrounding spaces
  * GET /api/analytics/revenue-by-treatment
  */
 exports.getRevenueByTreatment = async (req, res, next) => {
@@ -135,15 +139,25 @@ exports.getRevenueByTreatment = async (req, res, next) => {
       ...(Object.keys(matchStage).length > 0 ? [{ $match: matchStage }] : []),
       {
         $group: {
-          _id: '$treatmentType',
+          _id: { $ifNull: ['$procedureId', { $toLower: { $trim: { input: '$treatmentType' } } }] },
+          treatmentType: { $first: '$treatmentType' },
           totalRevenue: { $sum: '$cost' },
           count: { $sum: 1 },
         },
       },
+      {
+        $lookup: {
+          from: 'procedures',
+          localField: '_id',
+          foreignField: '_id',
+          as: 'procedure',
+        },
+      },
       { $sort: { totalRevenue: -1 } },
       {
         $project: {
-          treatmentType: '$_id',
+          treatmentType: { $ifNull: [{ $arrayElemAt: ['$procedure.name', 0] }, '$treatmentType'] },
+          procedureCode: { $arrayElemAt: ['$procedure.code', 0] },
           totalRevenue: 1,
           count: 1,
           _id: 0,
@@ -254,3 +268,20 @@ exports.getDiseases = async (req, res, next) => {
     next(error);
   }
 };
+
+/**
+ * Get accounts receivable aging by patient
+ * GET /api/analytics/ar-aging
+ */
+exports.getArAging = async (req, res, next) => {
+  try {
+    const report = await getAgingReport();
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
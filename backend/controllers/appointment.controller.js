@@ -1,40 +1,93 @@
 const Appointment = require('../models/Appointment');
 const Patient = require('../models/Patient');
 const User = require('../models/User');
+const Room = require('../models/Room');
+const mongoose = require('mongoose');
+const {
+  ACTIVE_STATUSES,
+  checkConflict,
+  describeConflict,
+  checkAvailability,
+  findConflicts,
+  getAvailableSlots,
+} = require('../services/schedulingService');
+const { validateRecurrence, expandRecurrence } = require('../services/recurrenceService');
+const { offerFreedSlot } = require('../services/waitlistService');
+const { checkFittingCase } = require('../services/labCaseService');
+const { sendAppointmentConfirmation, sendAppointmentReminder } = require('../services/emailService');
+
+const SERIES_SCOPES = ['this', 'following', 'all'];
 
 /**
- * Check for appointment conflicts
+ * Verify the requested room and equipment exist and are in service
+ * Returns an error message, or null when they can be booked
  */
-const checkConflict = async (doctorId, startTime, endTime, excludeAppointmentId = null) => {
-  const query = {
-    doctorId,
-    status: 'scheduled',
-    $or: [
-      // New appointment starts during existing appointment
-      {
-        startTime: { $lte: new Date(startTime) },
-        endTime: { $gt: new Date(startTime) },
-      },
-      // New appointment ends during existing appointment
-      {
-        startTime: { $lt: new Date(endTime) },
-        endTime: { $gte: new Date(endTime) },
-      },
-      // New appointment encompasses existing appointment
-      {
-        startTime: { $gte: new Date(startTime) },
-        endTime: { $lte: new Date(endTime) },
-      },
-    ],
+const validateResources = async ({ roomId, equipmentIds = [] }) => {
+  if (roomId) {
+    const room = await Room.findById(roomId);
+    if (!room || room.kind !== 'room' || !room.isActive) {
+      return 'Room not found';
+    }
+  }
+
+  if (equipmentIds.length > 0) {
+    const count = await Room.countDocuments({
+      _id: { $in: equipmentIds },
+      kind: 'equipment',
+      isActive: true,
+    });
+    if (count !== equipmentIds.length) {
+      return 'Equipment not found';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Resolve which appointments an edit or cancel applies to
+ * Scope is 'this' (default), 'following' (this and later occurrences) or 'all'
+ */
+const getScopedAppointments = async (appointment, scope = 'this') => {
+  if (scope === 'this' || !appointment.seriesId) {
+    return [appointment];
+  }
+
+  const filter = {
+    seriesId: appointment.seriesId,
+    status: { $nin: ['cancelled', 'completed'] },
   };
 
-  // Exclude current appointment when updating
-  if (excludeAppointmentId) {
-    query._id = { $ne: excludeAppointmentId };
+  if (scope === 'following') {
+    filter.startTime = { $gte: appointment.startTime };
   }
 
-  const conflict = await Appointment.findOne(query);
-  return conflict;
+  return Appointment.find(filter).sort({ startTime: 1 });
+};
+
+/**
+ * Email patients about new bookings in the background, with links to confirm, cancel or ask to reschedule
+ * Appointments must have the patient populated with email and language
+ */
+const sendConfirmations = (appointments) => {
+  appointments
+    .filter((appointment) => appointment.patientId.email)
+    .forEach((appointment) => {
+      sendAppointmentConfirmation(appointment)
+        .catch((error) => console.error('Appointment confirmation error:', error));
+    });
+};
+
+/**
+ * Offer the slots of cancelled appointments to waitlisted patients in the background
+ * Only appointments that were still holding their slot free one up, so pass them in before cancelling
+ */
+const offerFreedSlots = (appointments) => {
+  appointments
+    .filter((appointment) => ACTIVE_STATUSES.includes(appointment.status))
+    .forEach((appointment) => {
+      offerFreedSlot(appointment).catch((error) => console.error('Waitlist offer error:', error));
+    });
 };
 
 /**
@@ -78,6 +131,7 @@ exports.getAppointments = async (req, res, next) => {
     const appointments = await Appointment.find(filter)
       .populate('patientId', 'name contact email')
       .populate('doctorId', 'name')
+      .populate('roomId', 'name')
       .sort({ startTime: 1 })
       .skip(skip)
       .limit(parseInt(limit));
@@ -96,6 +150,51 @@ exports.getAppointments = async (req, res, next) => {
   }
 };
 
+/**
+ * Get free slots for a doctor on a given day
+ * GET /api/appointments/availability?doctorId&date&duration
+ */
+exports.getAvailability = async (req, res, next) => {
+  try {
+    const { date, duration = 30, step = 15 } = req.query;
+    const doctorId = req.user.role === 'dentist' ? req.user._id : req.query.doctorId;
+
+    if (!doctorId || !date) {
+      return res.status(400).json({
+        success: false,
+        error: 'Doctor and date are required',
+      });
+    }
+
+    if (isNaN(new Date(date).getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date',
+      });
+    }
+
+    const minutes = parseInt(duration);
+    const stepMinutes = parseInt(step);
+    if (!(minutes > 0) || !(stepMinutes > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Duration and step must be positive numbers of minutes',
+      });
+    }
+
+    const { slots, reason } = await getAvailableSlots(doctorId, date, minutes, stepMinutes, {
+      roomId: req.query.roomId,
+    });
+
+    res.json({
+      success: true,
+      data: { slots, reason },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get appointment by ID
  * GET /api/appointments/:id
@@ -104,7 +203,8 @@ exports.getAppointmentById = async (req, res, next) => {
   try {
     const appointment = await Appointment.findById(req.params.id)
       .populate('patientId')
-      .populate('doctorId', 'name');
+      .populate('doctorId', 'name')
+      .populate('roomId', 'name');
 
     if (!appointment) {
       return res.status(404).json({
@@ -136,7 +236,11 @@ exports.getAppointmentById = async (req, res, next) => {
  */
 exports.createAppointment = async (req, res, next) => {
   try {
-    const { patientId, doctorId, startTime, endTime, notes } = req.body;
+    const { patientId, doctorId, startTime, endTime, notes, labCaseId, recurrence, skipConflicts } = req.body;
+    const resources = {
+      roomId: req.body.roomId || undefined,
+      equipmentIds: req.body.equipmentIds || [],
+    };
 
     // Validate required fields
     if (!patientId || !doctorId || !startTime || !endTime) {
@@ -164,12 +268,100 @@ exports.createAppointment = async (req, res, next) => {
       });
     }
 
+    const resourceError = await validateResources(resources);
+    if (resourceError) {
+      return res.status(404).json({
+        success: false,
+        error: resourceError,
+      });
+    }
+
+    const labCaseError = await checkFittingCase(labCaseId, patientId);
+    if (labCaseError) {
+      return res.status(400).json({
+        success: false,
+        error: labCaseError,
+      });
+    }
+
+    // Recurring series - check every occurrence and report the ones that collide
+    if (recurrence) {
+      const recurrenceError = validateRecurrence(recurrence);
+      if (recurrenceError) {
+        return res.status(400).json({
+          success: false,
+          error: recurrenceError,
+        });
+      }
+
+      const occurrences = expandRecurrence(startTime, endTime, recurrence);
+      if (occurrences.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Recurrence rule does not produce any occurrences',
+        });
+      }
+
+      const conflicts = await findConflicts(doctorId, occurrences, null, resources);
+
+      // Skipping is only possible while at least one occurrence is free
+      if (conflicts.length > 0 && (!skipConflicts || conflicts.length === occurrences.length)) {
+        return res.status(409).json({
+          success: false,
+          error: `${conflicts.length} of ${occurrences.length} occurrences conflict with existing appointments`,
+          conflicts,
+          occurrenceCount: occurrences.length,
+        });
+      }
+
+      const conflictTimes = new Set(conflicts.map((c) => c.startTime.getTime()));
+      const seriesId = new mongoose.Types.ObjectId();
+
+      const created = await Appointment.insertMany(
+        occurrences
+          .filter((occurrence) => !conflictTimes.has(occurrence.startTime.getTime()))
+          .map((occurrence) => ({
+            patientId,
+            doctorId,
+            startTime: occurrence.startTime,
+            endTime: occurrence.endTime,
+            ...resources,
+            notes,
+            labCaseId: labCaseId || undefined,
+            seriesId,
+            recurrence,
+          }))
+      );
+
+      const appointments = await Appointment.find({ _id: { $in: created.map((a) => a._id) } })
+        .populate('patientId', 'name contact email language')
+        .populate('doctorId', 'name')
+        .populate('roomId', 'name')
+        .sort({ startTime: 1 });
+
+      sendConfirmations(appointments);
+
+      return res.status(201).json({
+        success: true,
+        data: { appointment: appointments[0], appointments, conflicts },
+      });
+    }
+
+    // Check the doctor's schedule, leave and clinic closures
+    const unavailable = await checkAvailability(doctorId, startTime, endTime);
+    if (unavailable) {
+      return res.status(409).json({
+        success: false,
+        error: unavailable,
+      });
+    }
+
     // Check for conflicts
-    const conflict = await checkConflict(doctorId, startTime, endTime);
+    const conflict = await checkConflict(doctorId, startTime, endTime, null, resources);
     if (conflict) {
       return res.status(409).json({
         success: false,
-        error: 'Doctor has conflicting appointment at this time',
+        error: describeConflict(conflict, doctorId, resources),
       });
     }
 
@@ -179,12 +371,17 @@ exports.createAppointment = async (req, res, next) => {
       doctorId,
       startTime,
       endTime,
+      ...resources,
       notes,
+      labCaseId: labCaseId || undefined,
     });
 
     const populatedAppointment = await Appointment.findById(appointment._id)
-      .populate('patientId', 'name contact email')
-      .populate('doctorId', 'name');
+      .populate('patientId', 'name contact email language')
+      .populate('doctorId', 'name')
+      .populate('roomId', 'name');
+
+    sendConfirmations([populatedAppointment]);
 
     res.status(201).json({
       success: true,
@@ -201,7 +398,14 @@ exports.createAppointment = async (req, res, next) => {
  */
 exports.updateAppointment = async (req, res, next) => {
   try {
-    const { startTime, endTime, status, notes } = req.body;
+    const { startTime, endTime, status, notes, scope = 'this' } = req.body;
+
+    if (!SERIES_SCOPES.includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: `Scope must be one of: ${SERIES_SCOPES.join(', ')}`,
+      });
+    }
 
     const appointment = await Appointment.findById(req.params.id);
 
@@ -220,42 +424,161 @@ exports.updateAppointment = async (req, res, next) => {
       });
     }
 
-    // If time is being changed, check for conflicts
-    if (startTime || endTime) {
+    // Room/equipment changes - an empty roomId clears the room
+    const resourcesChanged = req.body.roomId !== undefined || req.body.equipmentIds !== undefined;
+    const resources = {
+      roomId: req.body.roomId !== undefined ? req.body.roomId || undefined : appointment.roomId,
+      equipmentIds: req.body.equipmentIds !== undefined ? req.body.equipmentIds : appointment.equipmentIds,
+    };
+
+    if (resourcesChanged) {
+      const resourceError = await validateResources(resources);
+      if (resourceError) {
+        return res.status(404).json({
+          success: false,
+          error: resourceError,
+        });
+      }
+    }
+
+    // Series edit - shift every targeted occurrence by the same offset and duration
+    if (scope !== 'this' && appointment.seriesId) {
+      const targets = await getScopedAppointments(appointment, scope);
+      // Taken before any change, as the slots that are freed are the ones booked now
+      const cancelled = status === 'cancelled' ? targets.map((target) => target.toObject()) : [];
+      const timeChanged = startTime || endTime;
+
+      if (timeChanged || resourcesChanged) {
+        const newStart = new Date(startTime || appointment.startTime);
+        const newEnd = new Date(endTime || appointment.endTime);
+        const offset = newStart.getTime() - appointment.startTime.getTime();
+        const duration = newEnd.getTime() - newStart.getTime();
+
+        const shifted = targets.map((target) => {
+          const shiftedStart = new Date(target.startTime.getTime() + offset);
+          return { startTime: shiftedStart, endTime: new Date(shiftedStart.getTime() + duration) };
+        });
+
+        const conflicts = await findConflicts(
+          appointment.doctorId,
+          shifted,
+          targets.map((target) => target._id),
+          resources
+        );
+
+        if (conflicts.length > 0) {
+          return res.status(409).json({
+            success: false,
+            error: `${conflicts.length} of ${targets.length} occurrences conflict with existing appointments`,
+            conflicts,
+            occurrenceCount: targets.length,
+          });
+        }
+
+        targets.forEach((target, i) => {
+          if (resourcesChanged) {
+            target.roomId = resources.roomId;
+            target.equipmentIds = resources.equipmentIds;
+          }
+          if (timeChanged) {
+            target.startTime = shifted[i].startTime;
+            target.endTime = shifted[i].endTime;
+            target.rescheduleRequested = false;
+            // A confirmation was for the old time
+            if (['scheduled', 'confirmed'].includes(target.status)) {
+              target.status = 'rescheduled';
+            }
+          }
+        });
+      }
+
+      targets.forEach((target) => {
+        if (status) target.status = status;
+        if (notes !== undefined) target.notes = notes;
+      });
+
+      await Promise.all(targets.map((target) => target.save()));
+      offerFreedSlots(cancelled);
+
+      const updatedAppointment = await Appointment.findById(appointment._id)
+        .populate('patientId', 'name contact email')
+        .populate('doctorId', 'name')
+        .populate('roomId', 'name');
+
+      return res.json({
+        success: true,
+        data: { appointment: updatedAppointment, updatedCount: targets.length },
+      });
+    }
+
+    const cancelled = status === 'cancelled' ? [appointment.toObject()] : [];
+
+    // If time or resources are being changed, check for conflicts
+    if (startTime || endTime || resourcesChanged) {
       const newStartTime = startTime || appointment.startTime;
       const newEndTime = endTime || appointment.endTime;
 
+      const unavailable = await checkAvailability(appointment.doctorId, newStartTime, newEndTime);
+      if (unavailable) {
+        return res.status(409).json({
+          success: false,
+          error: unavailable,
+        });
+      }
+
       const conflict = await checkConflict(
         appointment.doctorId,
         newStartTime,
         newEndTime,
-        appointment._id
+        appointment._id,
+        resources
       );
 
       if (conflict) {
         return res.status(409).json({
           success: false,
-          error: 'Doctor has conflicting appointment at this time',
+          error: describeConflict(conflict, appointment.doctorId, resources),
         });
       }
 
-      appointment.startTime = newStartTime;
-      appointment.endTime = newEndTime;
+      appointment.roomId = resources.roomId;
+      appointment.equipmentIds = resources.equipmentIds;
+    }
+
+    if (startTime || endTime) {
+      appointment.startTime = startTime || appointment.startTime;
+      appointment.endTime = endTime || appointment.endTime;
+
+      appointment.rescheduleRequested = false;
 
-      // Update status to rescheduled if time changed
-      if (appointment.status === 'scheduled') {
+      // Update status to rescheduled if time changed; a confirmation was for the old time
+      if (['scheduled', 'confirmed'].includes(appointment.status)) {
         appointment.status = 'rescheduled';
       }
     }
 
+    // An empty labCaseId means the appointment is no longer a fitting
+    if (req.body.labCaseId !== undefined) {
+      const labCaseError = await checkFittingCase(req.body.labCaseId, appointment.patientId);
+      if (labCaseError) {
+        return res.status(400).json({
+          success: false,
+          error: labCaseError,
+        });
+      }
+      appointment.labCaseId = req.body.labCaseId || undefined;
+    }
+
     if (status) appointment.status = status;
     if (notes !== undefined) appointment.notes = notes;
 
     await appointment.save();
+    offerFreedSlots(cancelled);
 
     const updatedAppointment = await Appointment.findById(appointment._id)
       .populate('patientId', 'name contact email')
-      .populate('doctorId', 'name');
+      .populate('doctorId', 'name')
+      .populate('roomId', 'name');
 
     res.json({
       success: true,
@@ -268,10 +591,19 @@ exports.updateAppointment = async (req, res, next) => {
 
 /**
  * Cancel appointment (soft delete)
- * DELETE /api/appointments/:id
+ * DELETE /api/appointments/:id?scope=this|following|all
  */
 exports.cancelAppointment = async (req, res, next) => {
   try {
+    const { scope = 'this' } = req.query;
+
+    if (!SERIES_SCOPES.includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: `Scope must be one of: ${SERIES_SCOPES.join(', ')}`,
+      });
+    }
+
     const appointment = await Appointment.findById(req.params.id);
 
     if (!appointment) {
@@ -281,12 +613,20 @@ exports.cancelAppointment = async (req, res, next) => {
       });
     }
 
-    appointment.status = 'cancelled';
-    await appointment.save();
+    const targets = await getScopedAppointments(appointment, scope);
+
+    await Appointment.updateMany(
+      { _id: { $in: targets.map((target) => target._id) } },
+      { status: 'cancelled' }
+    );
+
+    offerFreedSlots(targets);
 
     res.json({
       success: true,
-      message: 'Appointment cancelled successfully',
+      message: targets.length > 1
+        ? `${targets.length} appointments cancelled successfully`
+        : 'Appointment cancelled successfully',
     });
   } catch (error) {
     next(error);
@@ -320,7 +660,8 @@ exports.getCalendarAppointments = async (req, res, next) => {
 
     const appointments = await Appointment.find(filter)
       .populate('patientId', 'name')
-      .populate('doctorId', 'name');
+      .populate('doctorId', 'name')
+      .populate('roomId', 'name');
 
     // Format for FullCalendar
     const events = appointments.map(appt => ({
@@ -335,6 +676,12 @@ exports.getCalendarAppointments = async (req, res, next) => {
         doctorName: appt.doctorId.name,
         status: appt.status,
         notes: appt.notes,
+        seriesId: appt.seriesId,
+        rescheduleRequested: appt.rescheduleRequested,
+        roomId: appt.roomId?._id,
+        roomName: appt.roomId?.name,
+        equipmentIds: appt.equipmentIds,
+        labCaseId: appt.labCaseId,
       },
     }));
 
@@ -371,14 +718,15 @@ exports.sendReminder = async (req, res, next) => {
       });
     }
 
-    // TODO: Send email via email service
-    // For now, just mark as sent
+    // Queued for the notification worker
+    await sendAppointmentReminder(appointment);
+
     appointment.reminderSent = true;
     await appointment.save();
 
     res.json({
       success: true,
-      message: 'Reminder sent successfully',
+      message: 'Reminder queued for sending',
     });
   } catch (error) {
     next(error);
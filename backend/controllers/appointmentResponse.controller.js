@@ -0,0 +1,127 @@
+const Appointment = require('../models/Appointment');
+const Notification = require('../models/Notification');
+const { ACTIVE_STATUSES } = require('../services/schedulingService');
+const { RESPONSE_ACTIONS, verifyResponseToken } = require('../services/appointmentLinkService');
+const { offerFreedSlot } = require('../services/waitlistService');
+
+/**
+ * Resolve a response token to its appointment and notification
+ * Returns null when the link is invalid, expired or the appointment is gone
+ */
+const loadFromToken = async (token) => {
+  const payload = verifyResponseToken(token);
+  if (!payload) {
+    return null;
+  }
+
+  const appointment = await Appointment.findById(payload.appointmentId)
+    .populate('patientId', 'name')
+    .populate('doctorId', 'name');
+  if (!appointment) {
+    return null;
+  }
+
+  const notification = await Notification.findById(payload.notificationId);
+  return { appointment, notification };
+};
+
+/**
+ * Only expose what the patient needs to see on the response page
+ */
+const toPublicAppointment = (appointment, notification) => ({
+  patientName: appointment.patientId.name,
+  doctorName: appointment.doctorId.name,
+  startTime: appointment.startTime,
+  endTime: appointment.endTime,
+  status: appointment.status,
+  rescheduleRequested: appointment.rescheduleRequested,
+  response: notification?.response,
+  respondedAt: notification?.respondedAt,
+});
+
+/**
+ * View the appointment behind an email link (public)
+ * GET /api/appointment-responses/:token
+ */
+exports.getAppointmentForResponse = async (req, res, next) => {
+  try {
+    const found = await loadFromToken(req.params.token);
+
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        error: 'This link is invalid or has expired',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { appointment: toPublicAppointment(found.appointment, found.notification) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm, cancel or ask to reschedule from an email link (public)
+ * POST /api/appointment-responses/:token
+ */
+exports.respondToAppointment = async (req, res, next) => {
+  try {
+    const { action } = req.body;
+
+    if (!RESPONSE_ACTIONS.includes(action)) {
+      return res.status(400).json({
+        success: false,
+        error: `Action must be one of: ${RESPONSE_ACTIONS.join(', ')}`,
+      });
+    }
+
+    const found = await loadFromToken(req.params.token);
+
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        error: 'This link is invalid or has expired',
+      });
+    }
+
+    const { appointment, notification } = found;
+
+    if (!ACTIVE_STATUSES.includes(appointment.status) || appointment.startTime <= new Date()) {
+      return res.status(409).json({
+        success: false,
+        error: 'This appointment can no longer be changed online; please contact the clinic',
+      });
+    }
+
+    if (action === 'confirm') {
+      appointment.status = 'confirmed';
+      appointment.rescheduleRequested = false;
+    } else if (action === 'cancel') {
+      appointment.status = 'cancelled';
+    } else {
+      appointment.rescheduleRequested = true;
+    }
+
+    await appointment.save();
+
+    if (notification) {
+      notification.response = action;
+      notification.respondedAt = new Date();
+      await notification.save();
+    }
+
+    if (action === 'cancel') {
+      offerFreedSlot(appointment).catch((error) => console.error('Waitlist offer error:', error));
+    }
+
+    res.json({
+      success: true,
+      data: { appointment: toPublicAppointment(appointment, notification) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -18,7 +18,7 @@ const generateToken = (userId, email, role, name) => {
  */
 exports.register = async (req, res, next) => {
   try {
-    const { email, password, name, role, phone } = req.body;
+    const { email, password, name, role, phone, registrationNumber } = req.body;
 
     // Validate required fields
     if (!email || !password || !name || !role) {
@@ -52,6 +52,7 @@ exports.register = async (req, res, next) => {
       name,
       role,
       phone,
+      registrationNumber,
     });
 
     res.status(201).json({
@@ -63,6 +64,7 @@ exports.register = async (req, res, next) => {
           name: user.name,
           role: user.role,
           phone: user.phone,
+          registrationNumber: user.registrationNumber,
         },
         message: 'User created successfully',
       },
@@ -121,6 +123,8 @@ exports.login = async (req, res, next) => {
           name: user.name,
           role: user.role,
           phone: user.phone,
+          registrationNumber: user.registrationNumber,
+          patientId: user.patientId,
         },
       },
     });
@@ -0,0 +1,186 @@
+const ToothCondition = require('../models/ToothCondition');
+const Treatment = require('../models/Treatment');
+const { normalizeToothNumber } = require('../utils/toothNumbering');
+const { checkPatientAccess } = require('../utils/patientAccess');
+
+/**
+ * Get patient's dental chart
+ * GET /api/patients/:id/chart
+ */
+exports.getChart = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const conditions = await ToothCondition.find({ patientId: req.params.id })
+      .populate('recordedBy', 'name')
+      .sort({ recordedAt: -1 });
+
+    // Tooth-level treatment history
+    const treatments = await Treatment.find({
+      patientId: req.params.id,
+      toothNumber: { $exists: true, $ne: null },
+    })
+      .populate('doctorId', 'name')
+      .sort({ treatmentDate: -1 });
+
+    res.json({
+      success: true,
+      data: { conditions, treatments },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record a tooth condition
+ * POST /api/patients/:id/chart
+ */
+exports.addCondition = async (req, res, next) => {
+  try {
+    const { surfaces, condition, status, treatmentId, notes, numberingSystem } = req.body;
+
+    if (!req.body.toothNumber || !condition) {
+      return res.status(400).json({
+        success: false,
+        error: 'Tooth number and condition are required',
+      });
+    }
+
+    const toothNumber = normalizeToothNumber(req.body.toothNumber, numberingSystem);
+    if (!toothNumber) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid tooth number',
+      });
+    }
+
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const toothCondition = await ToothCondition.create({
+      patientId: req.params.id,
+      toothNumber,
+      surfaces,
+      condition,
+      status,
+      treatmentId,
+      notes,
+      recordedBy: req.user._id,
+    });
+
+    const populatedCondition = await ToothCondition.findById(toothCondition._id)
+      .populate('recordedBy', 'name');
+
+    res.status(201).json({
+      success: true,
+      data: { condition: populatedCondition },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a tooth condition
+ * PUT /api/patients/:id/chart/:conditionId
+ */
+exports.updateCondition = async (req, res, next) => {
+  try {
+    const toothCondition = await ToothCondition.findOne({
+      _id: req.params.conditionId,
+      patientId: req.params.id,
+    });
+
+    if (!toothCondition) {
+      return res.status(404).json({
+        success: false,
+        error: 'Condition not found',
+      });
+    }
+
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    if (req.body.toothNumber !== undefined) {
+      const toothNumber = normalizeToothNumber(req.body.toothNumber, req.body.numberingSystem);
+      if (!toothNumber) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid tooth number',
+        });
+      }
+      toothCondition.toothNumber = toothNumber;
+    }
+
+    const allowedUpdates = ['surfaces', 'condition', 'status', 'treatmentId', 'notes'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        toothCondition[field] = req.body[field];
+      }
+    });
+
+    await toothCondition.save();
+
+    const updatedCondition = await ToothCondition.findById(toothCondition._id)
+      .populate('recordedBy', 'name');
+
+    res.json({
+      success: true,
+      data: { condition: updatedCondition },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a tooth condition
+ * DELETE /api/patients/:id/chart/:conditionId
+ */
+exports.deleteCondition = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const toothCondition = await ToothCondition.findOneAndDelete({
+      _id: req.params.conditionId,
+      patientId: req.params.id,
+    });
+
+    if (!toothCondition) {
+      return res.status(404).json({
+        success: false,
+        error: 'Condition not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Condition deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,545 @@
+const InsuranceClaim = require('../models/InsuranceClaim');
+const InsurancePolicy = require('../models/InsurancePolicy');
+const Invoice = require('../models/Invoice');
+const Payment = require('../models/Payment');
+const Treatment = require('../models/Treatment');
+const { roundCents, getBalance, recalculateInvoice, recalculateClaim } = require('../services/paymentService');
+const { pauseDunning } = require('../services/receivablesService');
+const { generateClaimPDF } = require('../services/pdfService');
+const { nextNumber } = require('../services/sequenceService');
+
+/**
+ * Turn the requested lines into claim lines for the invoice's treatment line items
+ * The claimed amount defaults to the policy's coverage of the line
+ * Returns { lines } or { error, status }
+ */
+const buildClaimLines = async (invoice, policy, lines = []) => {
+  if (lines.length === 0) {
+    return { error: 'A claim needs at least one line', status: 400 };
+  }
+
+  const items = [];
+  for (const line of lines) {
+    const item = invoice.lineItems.id(line.lineItemId);
+    if (!item || !item.treatmentId) {
+      return { error: 'Claim lines must be treatments on this invoice', status: 400 };
+    }
+    if (!line.procedureCode) {
+      return { error: `A procedure code is required for ${item.description}`, status: 400 };
+    }
+    items.push({ line, item });
+  }
+
+  const treatments = await Treatment.find({ _id: { $in: items.map(({ item }) => item.treatmentId) } });
+  const byId = new Map(treatments.map((treatment) => [treatment._id.toString(), treatment]));
+
+  const claimLines = [];
+  for (const { line, item } of items) {
+    const claimedAmount = line.claimedAmount !== undefined && line.claimedAmount !== ''
+      ? roundCents(Number(line.claimedAmount))
+      : roundCents((item.total * policy.coveragePercent) / 100);
+
+    if (!(claimedAmount >= 0) || claimedAmount > item.total) {
+      return {
+        error: `The amount claimed for ${item.description} must be between 0 and ${item.total.toFixed(2)}`,
+        status: 400,
+      };
+    }
+
+    const treatment = byId.get(item.treatmentId.toString());
+    claimLines.push({
+      lineItemId: item._id,
+      treatmentId: item.treatmentId,
+      procedureCode: line.procedureCode,
+      description: item.description,
+      toothNumber: treatment?.toothNumber,
+      serviceDate: treatment?.treatmentDate,
+      fee: item.total,
+      claimedAmount,
+    });
+  }
+
+  return { lines: claimLines };
+};
+
+/**
+ * What is left of a policy's annual maximum for the year of the given date
+ * Returns Infinity for policies without a maximum
+ */
+const getRemainingAnnualMaximum = async (policy, date, excludeClaimId) => {
+  if (!policy.annualMaximum) {
+    return Infinity;
+  }
+
+  const year = new Date(date).getFullYear();
+  const claims = await InsuranceClaim.find({
+    policyId: policy._id,
+    _id: { $ne: excludeClaimId },
+    status: { $ne: 'rejected' },
+    createdAt: { $gte: new Date(year, 0, 1), $lt: new Date(year + 1, 0, 1) },
+  });
+
+  const used = claims.reduce(
+    (sum, claim) => sum + (['draft', 'submitted'].includes(claim.status) ? claim.claimedAmount : claim.approvedAmount),
+    0
+  );
+
+  return roundCents(policy.annualMaximum - used);
+};
+
+/**
+ * Get claims for the claims worklist
+ * GET /api/claims
+ */
+exports.getClaims = async (req, res, next) => {
+  try {
+    const { status, providerId, patientId, invoiceId, page = 1, limit = 20 } = req.query;
+
+    const filter = {};
+    if (status) filter.status = status;
+    if (providerId) filter.providerId = providerId;
+    if (patientId) filter.patientId = patientId;
+    if (invoiceId) filter.invoiceId = invoiceId;
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const claims = await InsuranceClaim.find(filter)
+      .populate('patientId', 'name contact')
+      .populate('providerId', 'name')
+      .populate('invoiceId', 'invoiceNumber totalAmount')
+      .sort({ updatedAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await InsuranceClaim.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: claims,
+      total,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get claim counts and amounts by status for the worklist
+ * GET /api/claims/summary
+ */
+exports.getClaimSummary = async (req, res, next) => {
+  try {
+    const summary = await InsuranceClaim.aggregate([
+      {
+        $group: {
+          _id: '$status',
+          count: { $sum: 1 },
+          claimedAmount: { $sum: '$claimedAmount' },
+          approvedAmount: { $sum: '$approvedAmount' },
+          paidAmount: { $sum: '$paidAmount' },
+        },
+      },
+    ]);
+
+    res.json({
+      success: true,
+      data: summary.map(({ _id, ...totals }) => ({ status: _id, ...totals })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get claim by ID
+ * GET /api/claims/:id
+ */
+exports.getClaimById = async (req, res, next) => {
+  try {
+    const claim = await InsuranceClaim.findById(req.params.id)
+      .populate('patientId', 'name contact email')
+      .populate('providerId')
+      .populate('policyId')
+      .populate('invoiceId', 'invoiceNumber issueDate totalAmount')
+      .populate('createdBy', 'name');
+
+    if (!claim) {
+      return res.status(404).json({ success: false, error: 'Claim not found' });
+    }
+
+    const payments = await Payment.find({ claimId: claim._id })
+      .populate('receivedBy', 'name')
+      .sort({ paidAt: 1 });
+
+    res.json({
+      success: true,
+      data: { claim, payments },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a draft claim from an invoice's treatments
+ * POST /api/claims
+ */
+exports.createClaim = async (req, res, next) => {
+  try {
+    const { invoiceId, policyId, lines, notes } = req.body;
+
+    const invoice = await Invoice.findById(invoiceId);
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    if (invoice.status === 'cancelled') {
+      return res.status(400).json({
+        success: false,
+        error: 'Claims cannot be made for a cancelled invoice',
+      });
+    }
+
+    const policy = await InsurancePolicy.findOne({ _id: policyId, patientId: invoice.patientId, isActive: true });
+    if (!policy) {
+      return res.status(404).json({ success: false, error: 'Insurance policy not found for this patient' });
+    }
+
+    if (
+      (policy.validFrom && invoice.issueDate < policy.validFrom) ||
+      (policy.validTo && invoice.issueDate > policy.validTo)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'The invoice date is outside the policy period',
+      });
+    }
+
+    // A rejected claim can be made again, anything else is still in play
+    if (await InsuranceClaim.exists({ invoiceId: invoice._id, status: { $ne: 'rejected' } })) {
+      return res.status(400).json({
+        success: false,
+        error: 'This invoice already has an insurance claim',
+      });
+    }
+
+    const built = await buildClaimLines(invoice, policy, lines);
+    if (built.error) {
+      return res.status(built.status).json({ success: false, error: built.error });
+    }
+
+    const claimed = roundCents(built.lines.reduce((sum, line) => sum + line.claimedAmount, 0));
+    const amountDue = roundCents(invoice.totalAmount - invoice.creditedAmount);
+    if (claimed > amountDue) {
+      return res.status(400).json({
+        success: false,
+        error: `The claim exceeds the ${amountDue.toFixed(2)} due on this invoice after credit notes`,
+      });
+    }
+
+    const remaining = await getRemainingAnnualMaximum(policy, new Date());
+    if (claimed > remaining) {
+      return res.status(400).json({
+        success: false,
+        error: `The claim exceeds the ${remaining.toFixed(2)} left of the policy's annual maximum`,
+      });
+    }
+
+    const claim = await InsuranceClaim.create({
+      claimNumber: await nextNumber('claim'),
+      invoiceId: invoice._id,
+      patientId: invoice.patientId,
+      policyId: policy._id,
+      providerId: policy.providerId,
+      lines: built.lines,
+      notes,
+      createdBy: req.user._id,
+    });
+
+    await recalculateInvoice(invoice);
+
+    res.status(201).json({
+      success: true,
+      data: { claim, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a draft claim
+ * PUT /api/claims/:id
+ */
+exports.updateClaim = async (req, res, next) => {
+  try {
+    const { lines, notes } = req.body;
+
+    const claim = await InsuranceClaim.findById(req.params.id);
+    if (!claim) {
+      return res.status(404).json({ success: false, error: 'Claim not found' });
+    }
+
+    if (claim.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only draft claims can be changed',
+      });
+    }
+
+    const invoice = await Invoice.findById(claim.invoiceId);
+
+    if (lines !== undefined) {
+      const policy = await InsurancePolicy.findById(claim.policyId);
+      const built = await buildClaimLines(invoice, policy, lines);
+      if (built.error) {
+        return res.status(built.status).json({ success: false, error: built.error });
+      }
+
+      const claimed = roundCents(built.lines.reduce((sum, line) => sum + line.claimedAmount, 0));
+      const amountDue = roundCents(invoice.totalAmount - invoice.creditedAmount);
+      if (claimed > amountDue) {
+        return res.status(400).json({
+          success: false,
+          error: `The claim exceeds the ${amountDue.toFixed(2)} due on this invoice after credit notes`,
+        });
+      }
+
+      const remaining = await getRemainingAnnualMaximum(policy, claim.createdAt, claim._id);
+      if (claimed > remaining) {
+        return res.status(400).json({
+          success: false,
+          error: `The claim exceeds the ${remaining.toFixed(2)} left of the policy's annual maximum`,
+        });
+      }
+
+      claim.lines = built.lines;
+    }
+
+    if (notes !== undefined) claim.notes = notes;
+
+    await claim.save();
+    await recalculateInvoice(invoice);
+
+    res.json({
+      success: true,
+      data: { claim, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Submit a draft claim to the insurer
+ * POST /api/claims/:id/submit
+ */
+exports.submitClaim = async (req, res, next) => {
+  try {
+    const { insurerReference } = req.body;
+
+    const claim = await InsuranceClaim.findById(req.params.id);
+    if (!claim) {
+      return res.status(404).json({ success: false, error: 'Claim not found' });
+    }
+
+    if (claim.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot submit a claim that is ${claim.status}`,
+      });
+    }
+
+    claim.status = 'submitted';
+    claim.submittedAt = new Date();
+    if (insurerReference) claim.insurerReference = insurerReference;
+    await claim.save();
+
+    res.json({
+      success: true,
+      data: { claim },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record the insurer's decision on a submitted claim
+ * Approved amounts are given per line; nothing approved rejects the claim
+ * POST /api/claims/:id/decision
+ */
+exports.recordDecision = async (req, res, next) => {
+  try {
+    const { lines = [], rejectionReason, insurerReference } = req.body;
+
+    const claim = await InsuranceClaim.findById(req.params.id);
+    if (!claim) {
+      return res.status(404).json({ success: false, error: 'Claim not found' });
+    }
+
+    if (claim.status !== 'submitted') {
+      return res.status(400).json({
+        success: false,
+        error: 'Decisions can only be recorded for submitted claims',
+      });
+    }
+
+    for (const line of claim.lines) {
+      const decided = lines.find((entry) => String(entry.lineId) === line._id.toString());
+      const approvedAmount = decided ? roundCents(Number(decided.approvedAmount) || 0) : 0;
+
+      if (approvedAmount < 0 || approvedAmount > line.claimedAmount) {
+        return res.status(400).json({
+          success: false,
+          error: `The amount approved for ${line.description} must be between 0 and ${line.claimedAmount.toFixed(2)}`,
+        });
+      }
+      line.approvedAmount = approvedAmount;
+    }
+
+    const approved = roundCents(claim.lines.reduce((sum, line) => sum + line.approvedAmount, 0));
+
+    if (approved === 0) {
+      if (!rejectionReason) {
+        return res.status(400).json({
+          success: false,
+          error: 'A reason is required when a claim is rejected',
+        });
+      }
+      claim.status = 'rejected';
+      claim.rejectionReason = rejectionReason;
+    } else {
+      claim.status = approved >= claim.claimedAmount ? 'approved' : 'partially_approved';
+    }
+
+    claim.decidedAt = new Date();
+    if (insurerReference) claim.insurerReference = insurerReference;
+    await claim.save();
+
+    const invoice = await recalculateInvoice(await Invoice.findById(claim.invoiceId));
+
+    res.json({
+      success: true,
+      data: { claim, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record the insurer's payment for an approved claim against its invoice
+ * POST /api/claims/:id/payment
+ */
+exports.recordClaimPayment = async (req, res, next) => {
+  try {
+    const { amount, reference, paidAt, notes } = req.body;
+
+    const claim = await InsuranceClaim.findById(req.params.id);
+    if (!claim) {
+      return res.status(404).json({ success: false, error: 'Claim not found' });
+    }
+
+    if (!['approved', 'partially_approved'].includes(claim.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Payments can only be recorded for approved claims',
+      });
+    }
+
+    const invoice = await Invoice.findById(claim.invoiceId);
+    const outstanding = Math.min(roundCents(claim.approvedAmount - claim.paidAmount), getBalance(invoice));
+
+    if (!(Number(amount) > 0) || Number(amount) > outstanding) {
+      return res.status(400).json({
+        success: false,
+        error: `Payment must be between 0 and the ${outstanding.toFixed(2)} outstanding on this claim`,
+      });
+    }
+
+    const payment = new Payment({
+      invoiceId: invoice._id,
+      patientId: invoice.patientId,
+      claimId: claim._id,
+      amount,
+      method: 'insurance',
+      reference: reference || claim.insurerReference || claim.claimNumber,
+      paidAt,
+      notes,
+      receivedBy: req.user._id,
+    });
+
+    // Receipt numbers are only taken for payments that will be saved
+    await payment.validate();
+    payment.receiptNumber = await nextNumber('receipt');
+    await payment.save();
+
+    await recalculateClaim(claim);
+    pauseDunning(invoice);
+    await recalculateInvoice(invoice);
+
+    res.status(201).json({
+      success: true,
+      data: { claim, payment, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a draft claim
+ * DELETE /api/claims/:id
+ */
+exports.deleteClaim = async (req, res, next) => {
+  try {
+    const claim = await InsuranceClaim.findById(req.params.id);
+    if (!claim) {
+      return res.status(404).json({ success: false, error: 'Claim not found' });
+    }
+
+    if (claim.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only draft claims can be deleted',
+      });
+    }
+
+    await claim.deleteOne();
+
+    const invoice = await Invoice.findById(claim.invoiceId);
+    if (invoice) await recalculateInvoice(invoice);
+
+    res.json({
+      success: true,
+      message: 'Claim deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Generate and download the printable claim form
+ * GET /api/claims/:id/pdf
+ */
+exports.downloadClaimPDF = async (req, res, next) => {
+  try {
+    const claim = await InsuranceClaim.findById(req.params.id)
+      .populate('patientId')
+      .populate('providerId')
+      .populate('policyId')
+      .populate('invoiceId', 'invoiceNumber issueDate');
+
+    if (!claim) {
+      return res.status(404).json({ success: false, error: 'Claim not found' });
+    }
+
+    return generateClaimPDF(claim, res);
+  } catch (error) {
+    next(error);
+  }
+};
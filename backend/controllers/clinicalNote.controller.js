@@ -0,0 +1,326 @@
+const ClinicalNote = require('../models/ClinicalNote');
+const { SOAP_FIELDS } = require('../models/ClinicalNote');
+const Appointment = require('../models/Appointment');
+const Treatment = require('../models/Treatment');
+const { checkPatientAccess } = require('../utils/patientAccess');
+
+const populateNote = (query) =>
+  query
+    .populate('authorId', 'name')
+    .populate('appointmentId', 'startTime status')
+    .populate('treatmentId', 'treatmentType treatmentDate toothNumber')
+    .populate('versions.editedBy', 'name')
+    .populate('addenda.authorId', 'name');
+
+const isAuthor = (note, user) => note.authorId.toString() === user._id.toString();
+
+/**
+ * Check that the visit a note is linked to belongs to the patient
+ * A note for a treatment is linked to the treatment's appointment as well
+ * Returns { appointmentId, treatmentId } or { error, status }
+ */
+const resolveVisit = async (patientId, { appointmentId, treatmentId }) => {
+  let treatment = null;
+  if (treatmentId) {
+    treatment = await Treatment.findOne({ _id: treatmentId, patientId });
+    if (!treatment) {
+      return { error: 'Treatment not found for this patient', status: 400 };
+    }
+  }
+
+  const visitAppointmentId = appointmentId || treatment?.appointmentId;
+  if (visitAppointmentId && !(await Appointment.exists({ _id: visitAppointmentId, patientId }))) {
+    return { error: 'Appointment not found for this patient', status: 400 };
+  }
+
+  return { appointmentId: visitAppointmentId || undefined, treatmentId: treatment?._id };
+};
+
+/**
+ * Add the note's current content to its version history
+ */
+const recordVersion = (note, userId) => {
+  note.versions.push({
+    version: note.versions.length + 1,
+    ...Object.fromEntries(SOAP_FIELDS.map((field) => [field, note[field]])),
+    editedBy: userId,
+    editedAt: new Date(),
+  });
+};
+
+/**
+ * Get a patient's clinical notes, latest visit first
+ * GET /api/patients/:id/notes
+ */
+exports.getNotes = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const filter = { patientId: req.params.id };
+    if (req.query.appointmentId) filter.appointmentId = req.query.appointmentId;
+    if (req.query.treatmentId) filter.treatmentId = req.query.treatmentId;
+
+    const notes = await populateNote(ClinicalNote.find(filter)).sort({ visitDate: -1, createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: notes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start a draft note for a visit
+ * POST /api/patients/:id/notes
+ */
+exports.createNote = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    if (!SOAP_FIELDS.some((field) => req.body[field]?.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one of subjective, objective, assessment or plan is required',
+      });
+    }
+
+    const visit = await resolveVisit(req.params.id, req.body);
+    if (visit.error) {
+      return res.status(visit.status).json({ success: false, error: visit.error });
+    }
+
+    const note = new ClinicalNote({
+      patientId: req.params.id,
+      appointmentId: visit.appointmentId,
+      treatmentId: visit.treatmentId,
+      authorId: req.user._id,
+      visitDate: req.body.visitDate || undefined,
+      ...Object.fromEntries(SOAP_FIELDS.map((field) => [field, req.body[field]])),
+    });
+    recordVersion(note, req.user._id);
+    await note.save();
+
+    res.status(201).json({
+      success: true,
+      data: { note: await populateNote(ClinicalNote.findById(note._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Edit a draft note; every save is kept in the version history
+ * PUT /api/patients/:id/notes/:noteId
+ */
+exports.updateNote = async (req, res, next) => {
+  try {
+    const note = await ClinicalNote.findOne({ _id: req.params.noteId, patientId: req.params.id });
+
+    if (!note) {
+      return res.status(404).json({
+        success: false,
+        error: 'Note not found',
+      });
+    }
+
+    if (note.status === 'signed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Signed notes cannot be edited; add an addendum instead',
+      });
+    }
+
+    if (!isAuthor(note, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the author can edit a draft note',
+      });
+    }
+
+    if (req.body.appointmentId !== undefined || req.body.treatmentId !== undefined) {
+      const visit = await resolveVisit(req.params.id, {
+        appointmentId: req.body.appointmentId ?? note.appointmentId,
+        treatmentId: req.body.treatmentId ?? note.treatmentId,
+      });
+      if (visit.error) {
+        return res.status(visit.status).json({ success: false, error: visit.error });
+      }
+      note.appointmentId = visit.appointmentId;
+      note.treatmentId = visit.treatmentId;
+    }
+
+    const allowedUpdates = [...SOAP_FIELDS, 'visitDate'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        note[field] = req.body[field];
+      }
+    });
+
+    if (!SOAP_FIELDS.some((field) => note[field]?.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one of subjective, objective, assessment or plan is required',
+      });
+    }
+
+    if (SOAP_FIELDS.some((field) => note.isModified(field))) {
+      recordVersion(note, req.user._id);
+    }
+    await note.save();
+
+    res.json({
+      success: true,
+      data: { note: await populateNote(ClinicalNote.findById(note._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign a note, locking it to its author; later changes can only be addenda
+ * POST /api/patients/:id/notes/:noteId/sign
+ */
+exports.signNote = async (req, res, next) => {
+  try {
+    const note = await ClinicalNote.findOne({ _id: req.params.noteId, patientId: req.params.id });
+
+    if (!note) {
+      return res.status(404).json({
+        success: false,
+        error: 'Note not found',
+      });
+    }
+
+    if (note.status === 'signed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Note is already signed',
+      });
+    }
+
+    if (!isAuthor(note, req.user) || req.user.role !== 'dentist') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the dentist who wrote the note can sign it',
+      });
+    }
+
+    note.status = 'signed';
+    note.signedAt = new Date();
+    await note.save();
+
+    res.json({
+      success: true,
+      data: { note: await populateNote(ClinicalNote.findById(note._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add an addendum to a signed note
+ * POST /api/patients/:id/notes/:noteId/addenda
+ */
+exports.addAddendum = async (req, res, next) => {
+  try {
+    const { text } = req.body;
+
+    if (!text?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Addendum text is required',
+      });
+    }
+
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const note = await ClinicalNote.findOne({ _id: req.params.noteId, patientId: req.params.id });
+
+    if (!note) {
+      return res.status(404).json({
+        success: false,
+        error: 'Note not found',
+      });
+    }
+
+    if (note.status !== 'signed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Draft notes are edited directly; addenda are for signed notes',
+      });
+    }
+
+    note.addenda.push({ text, authorId: req.user._id });
+    await note.save();
+
+    res.status(201).json({
+      success: true,
+      data: { note: await populateNote(ClinicalNote.findById(note._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a draft note
+ * DELETE /api/patients/:id/notes/:noteId
+ */
+exports.deleteNote = async (req, res, next) => {
+  try {
+    const note = await ClinicalNote.findOne({ _id: req.params.noteId, patientId: req.params.id });
+
+    if (!note) {
+      return res.status(404).json({
+        success: false,
+        error: 'Note not found',
+      });
+    }
+
+    if (note.status === 'signed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Signed notes are part of the clinical record and cannot be deleted',
+      });
+    }
+
+    if (!isAuthor(note, req.user) && req.user.role !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the author can delete a draft note',
+      });
+    }
+
+    await note.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Note deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,222 @@
+const Consent = require('../models/Consent');
+const ConsentTemplate = require('../models/ConsentTemplate');
+const Patient = require('../models/Patient');
+const Procedure = require('../models/Procedure');
+const Treatment = require('../models/Treatment');
+const { checkPatientAccess } = require('../utils/patientAccess');
+const { renderConsent, storeConsentPDF } = require('../services/consentService');
+const { generateConsentPDF } = require('../services/pdfService');
+
+// What a drawn signature must look like; canvas.toDataURL() gives this
+const SIGNATURE_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+
+const populateConsent = (query) =>
+  query
+    .populate('patientId', 'name contact')
+    .populate('templateId', 'name isMandatory')
+    .populate('treatmentId', 'treatmentType treatmentDate toothNumber status')
+    .populate('witnessedBy', 'name');
+
+/**
+ * Look up what a consent is being signed for and fill in its text
+ * Returns { template, patient, treatment, procedure, title, body } or { error, status }
+ */
+const prepareConsent = async (patientId, { templateId, treatmentId, procedureId }) => {
+  const patient = await Patient.findById(patientId);
+  if (!patient) {
+    return { error: 'Patient not found', status: 404 };
+  }
+
+  const template = templateId ? await ConsentTemplate.findById(templateId) : null;
+  if (!template || !template.isActive) {
+    return { error: 'Consent template not found', status: 404 };
+  }
+
+  let treatment = null;
+  if (treatmentId) {
+    treatment = await Treatment.findOne({ _id: treatmentId, patientId }).populate('doctorId', 'name');
+    if (!treatment) {
+      return { error: 'Treatment not found for this patient', status: 400 };
+    }
+  }
+
+  // A treatment's own procedure wins; otherwise one of the template's
+  const resolvedProcedureId = treatment?.procedureId || procedureId || template.procedureIds[0];
+  const procedure = resolvedProcedureId ? await Procedure.findById(resolvedProcedureId) : null;
+
+  return {
+    template,
+    patient,
+    treatment,
+    procedure,
+    title: template.name,
+    body: renderConsent(template, { patient, procedure, treatment, doctor: treatment?.doctorId }),
+  };
+};
+
+/**
+ * Get a patient's signed consents, latest first
+ * GET /api/patients/:id/consents
+ */
+exports.getConsents = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const filter = { patientId: req.params.id };
+    if (req.query.treatmentId) filter.treatmentId = req.query.treatmentId;
+
+    const consents = await populateConsent(Consent.find(filter).select('-signature')).sort({ signedAt: -1 });
+
+    res.json({
+      success: true,
+      data: consents,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Fill in a consent form for the patient to read before signing
+ * POST /api/patients/:id/consents/preview
+ */
+exports.previewConsent = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const prepared = await prepareConsent(req.params.id, req.body);
+    if (prepared.error) {
+      return res.status(prepared.status).json({ success: false, error: prepared.error });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        title: prepared.title,
+        body: prepared.body,
+        templateVersion: prepared.template.version,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record a signed consent, witnessed by the staff member signing it in
+ * The signed PDF is added to the patient's files
+ * POST /api/patients/:id/consents
+ */
+exports.createConsent = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const { signerName, signerRelationship, signature } = req.body;
+
+    if (!signerName?.trim() || !signature) {
+      return res.status(400).json({
+        success: false,
+        error: 'Signer name and signature are required',
+      });
+    }
+
+    if (!SIGNATURE_PATTERN.test(signature)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Signature must be a PNG image',
+      });
+    }
+
+    const prepared = await prepareConsent(req.params.id, req.body);
+    if (prepared.error) {
+      return res.status(prepared.status).json({ success: false, error: prepared.error });
+    }
+
+    const consent = await Consent.create({
+      patientId: req.params.id,
+      templateId: prepared.template._id,
+      templateVersion: prepared.template.version,
+      procedureId: prepared.procedure?._id,
+      treatmentId: prepared.treatment?._id,
+      title: prepared.title,
+      body: prepared.body,
+      signerName,
+      signerRelationship,
+      signature,
+      witnessedBy: req.user._id,
+    });
+
+    const file = await storeConsentPDF(await populateConsent(Consent.findById(consent._id)), req.user._id);
+    if (file) {
+      consent.fileId = file._id;
+      await consent.save();
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { consent: await populateConsent(Consent.findById(consent._id).select('-signature')) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download a signed consent as PDF
+ * GET /api/patients/:id/consents/:consentId/pdf
+ */
+exports.downloadConsentPDF = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const consent = await populateConsent(Consent.findOne({ _id: req.params.consentId, patientId: req.params.id }));
+
+    if (!consent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Consent not found',
+      });
+    }
+
+    // The signed PDF didn't reach the patient's files when it was signed - try again
+    if (!consent.fileId) {
+      const file = await storeConsentPDF(consent, req.user._id);
+      if (file) {
+        consent.fileId = file._id;
+        await consent.save();
+      }
+    }
+
+    const pdf = await generateConsentPDF(consent);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=consent-${consent._id}.pdf`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
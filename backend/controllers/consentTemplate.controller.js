@@ -0,0 +1,175 @@
+const ConsentTemplate = require('../models/ConsentTemplate');
+const Consent = require('../models/Consent');
+const Procedure = require('../models/Procedure');
+const { CONSENT_VARIABLES, findUnknownConsentVariables } = require('../services/consentService');
+
+/**
+ * Check the text only uses known variables and the procedures are in the catalog
+ * Returns an error message or null
+ */
+const validateTemplate = async ({ body, procedureIds }) => {
+  const unknown = findUnknownConsentVariables(body);
+  if (unknown.length > 0) {
+    return `Unknown variable(s): ${unknown.map((name) => `{{${name}}}`).join(', ')}`;
+  }
+
+  if (procedureIds?.length) {
+    const found = await Procedure.countDocuments({ _id: { $in: procedureIds } });
+    if (found !== new Set(procedureIds.map(String)).size) {
+      return 'One or more procedures were not found';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get the variables consent text can use
+ * GET /api/consent-templates/variables
+ */
+exports.getVariables = async (req, res, next) => {
+  try {
+    res.json({
+      success: true,
+      data: CONSENT_VARIABLES,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get consent templates
+ * GET /api/consent-templates
+ */
+exports.getTemplates = async (req, res, next) => {
+  try {
+    const { includeInactive, procedureId } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+    if (procedureId) filter.procedureIds = procedureId;
+
+    const templates = await ConsentTemplate.find(filter).populate('procedureIds', 'code name').sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: templates,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create consent template (Admin only)
+ * POST /api/consent-templates
+ */
+exports.createTemplate = async (req, res, next) => {
+  try {
+    const { name, procedureIds, body, isMandatory } = req.body;
+
+    if (!name || !body) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name and consent text are required',
+      });
+    }
+
+    const invalid = await validateTemplate({ body, procedureIds });
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid });
+    }
+
+    const template = await ConsentTemplate.create({ name, procedureIds, body, isMandatory });
+
+    res.status(201).json({
+      success: true,
+      data: { template: await ConsentTemplate.findById(template._id).populate('procedureIds', 'code name') },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update consent template (Admin only)
+ * Changing the text starts a new version; consents already signed keep the text they were shown
+ * PUT /api/consent-templates/:id
+ */
+exports.updateTemplate = async (req, res, next) => {
+  try {
+    const template = await ConsentTemplate.findById(req.params.id);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Consent template not found',
+      });
+    }
+
+    const invalid = await validateTemplate({
+      body: req.body.body ?? template.body,
+      procedureIds: req.body.procedureIds,
+    });
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid });
+    }
+
+    if (req.body.body !== undefined && req.body.body !== template.body) {
+      template.version += 1;
+    }
+
+    const allowedUpdates = ['name', 'procedureIds', 'body', 'isMandatory', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        template[field] = req.body[field];
+      }
+    });
+
+    await template.save();
+
+    res.json({
+      success: true,
+      data: { template: await ConsentTemplate.findById(template._id).populate('procedureIds', 'code name') },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete consent template (Admin only)
+ * DELETE /api/consent-templates/:id
+ */
+exports.deleteTemplate = async (req, res, next) => {
+  try {
+    const template = await ConsentTemplate.findById(req.params.id);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Consent template not found',
+      });
+    }
+
+    // Signed consents point back at their template - deactivate instead
+    const consents = await Consent.countDocuments({ templateId: template._id });
+
+    if (consents > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${template.name} has been signed ${consents} time(s); deactivate it instead`,
+      });
+    }
+
+    await template.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Consent template deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,179 @@
+const Invoice = require('../models/Invoice');
+const CreditNote = require('../models/CreditNote');
+const { roundCents, recalculateInvoice } = require('../services/paymentService');
+const { generateCreditNotePDF } = require('../services/pdfService');
+const { nextNumber } = require('../services/sequenceService');
+
+/**
+ * How much of each line item on the invoice can still be credited
+ */
+const getCreditableAmounts = async (invoice) => {
+  const creditNotes = await CreditNote.find({ invoiceId: invoice._id });
+
+  const creditable = new Map();
+  invoice.lineItems.forEach((item) => {
+    creditable.set(item._id.toString(), item.total);
+  });
+
+  creditNotes.forEach((creditNote) => {
+    creditNote.lines.forEach((line) => {
+      const key = line.lineItemId.toString();
+      if (creditable.has(key)) {
+        creditable.set(key, roundCents(creditable.get(key) - line.amount));
+      }
+    });
+  });
+
+  return creditable;
+};
+
+/**
+ * Get the credit notes issued against an invoice
+ * GET /api/invoices/:id/credit-notes
+ */
+exports.getInvoiceCreditNotes = async (req, res, next) => {
+  try {
+    const invoice = await Invoice.findById(req.params.id);
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    const creditNotes = await CreditNote.find({ invoiceId: invoice._id })
+      .populate('issuedBy', 'name')
+      .sort({ issueDate: 1 });
+
+    res.json({
+      success: true,
+      data: creditNotes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Issue a credit note against an invoice
+ * Without lines the whole remaining amount of every line item is credited
+ * POST /api/invoices/:id/credit-notes
+ */
+exports.createCreditNote = async (req, res, next) => {
+  try {
+    const { lines, reason } = req.body;
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required for a credit note',
+      });
+    }
+
+    const invoice = await Invoice.findById(req.params.id);
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    if (invoice.status === 'cancelled') {
+      return res.status(400).json({
+        success: false,
+        error: 'Credit notes cannot be issued against a cancelled invoice',
+      });
+    }
+
+    const creditable = await getCreditableAmounts(invoice);
+    const requested = lines?.length
+      ? lines
+      : [...creditable.entries()]
+        .filter(([, amount]) => amount > 0)
+        .map(([lineItemId, amount]) => ({ lineItemId, amount }));
+
+    if (requested.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'This invoice has already been fully credited',
+      });
+    }
+
+    // Lines for the same line item are added up before checking what's left to credit on it
+    const requestedByLine = new Map();
+    for (const line of requested) {
+      const lineItemId = String(line.lineItemId);
+      if (!creditable.has(lineItemId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Credit note lines must be line items on this invoice',
+        });
+      }
+      if (!(Number(line.amount) >= 0.01)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Credit note amounts must be greater than zero',
+        });
+      }
+      requestedByLine.set(lineItemId, roundCents((requestedByLine.get(lineItemId) || 0) + Number(line.amount)));
+    }
+
+    for (const [lineItemId, amount] of requestedByLine) {
+      if (amount > creditable.get(lineItemId)) {
+        return res.status(400).json({
+          success: false,
+          error: `Only ${creditable.get(lineItemId).toFixed(2)} of ${invoice.lineItems.id(lineItemId).description} can still be credited`,
+        });
+      }
+    }
+
+    // The insurer's share of the invoice can't be credited away from under its claim
+    const total = roundCents(requested.reduce((sum, line) => sum + Number(line.amount), 0));
+    const uncovered = roundCents(invoice.totalAmount - invoice.creditedAmount - invoice.insuranceAmount);
+    if (total > uncovered) {
+      return res.status(400).json({
+        success: false,
+        error: `Only ${uncovered.toFixed(2)} of this invoice is not claimed from insurance and can be credited`,
+      });
+    }
+
+    // Credit note numbers are tax documents, so one is only taken once the note is valid
+    const creditNote = await CreditNote.create({
+      creditNoteNumber: await nextNumber('creditNote'),
+      invoiceId: invoice._id,
+      patientId: invoice.patientId,
+      lines: requested.map((line) => ({
+        lineItemId: line.lineItemId,
+        description: invoice.lineItems.id(line.lineItemId).description,
+        amount: Number(line.amount),
+      })),
+      reason,
+      issuedBy: req.user._id,
+    });
+
+    await recalculateInvoice(invoice);
+
+    res.status(201).json({
+      success: true,
+      data: { creditNote, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Generate and download credit note PDF
+ * GET /api/invoices/:id/credit-notes/:creditNoteId/pdf
+ */
+exports.downloadCreditNotePDF = async (req, res, next) => {
+  try {
+    const creditNote = await CreditNote.findOne({ _id: req.params.creditNoteId, invoiceId: req.params.id })
+      .populate('patientId')
+      .populate('invoiceId', 'invoiceNumber issueDate totalAmount');
+
+    if (!creditNote) {
+      return res.status(404).json({ success: false, error: 'Credit note not found' });
+    }
+
+    return generateCreditNotePDF(creditNote, res);
+  } catch (error) {
+    next(error);
+  }
+};
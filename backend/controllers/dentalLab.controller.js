@@ -0,0 +1,119 @@
+const DentalLab = require('../models/DentalLab');
+const LabCase = require('../models/LabCase');
+
+/**
+ * Get dental labs
+ * GET /api/labs
+ */
+exports.getLabs = async (req, res, next) => {
+  try {
+    const { includeInactive } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+
+    const labs = await DentalLab.find(filter).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: labs,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create dental lab
+ * POST /api/labs
+ */
+exports.createLab = async (req, res, next) => {
+  try {
+    const { name, contactName, phone, email, address, turnaroundDays, notes } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    const lab = await DentalLab.create({ name, contactName, phone, email, address, turnaroundDays, notes });
+
+    res.status(201).json({
+      success: true,
+      data: { lab },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update dental lab
+ * PUT /api/labs/:id
+ */
+exports.updateLab = async (req, res, next) => {
+  try {
+    const lab = await DentalLab.findById(req.params.id);
+
+    if (!lab) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lab not found',
+      });
+    }
+
+    const allowedUpdates = ['name', 'contactName', 'phone', 'email', 'address', 'turnaroundDays', 'notes', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        lab[field] = req.body[field];
+      }
+    });
+
+    await lab.save();
+
+    res.json({
+      success: true,
+      data: { lab },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete dental lab (Admin only)
+ * DELETE /api/labs/:id
+ */
+exports.deleteLab = async (req, res, next) => {
+  try {
+    const lab = await DentalLab.findById(req.params.id);
+
+    if (!lab) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lab not found',
+      });
+    }
+
+    // Cases point back at the lab - deactivate instead
+    const cases = await LabCase.countDocuments({ labId: lab._id });
+
+    if (cases > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${lab.name} has ${cases} lab case(s); deactivate it instead`,
+      });
+    }
+
+    await lab.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Lab deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
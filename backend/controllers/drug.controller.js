@@ -0,0 +1,164 @@
+const Drug = require('../models/Drug');
+const Prescription = require('../models/Prescription');
+
+/**
+ * Get drugs
+ * GET /api/drugs
+ */
+exports.getDrugs = async (req, res, next) => {
+  try {
+    const { includeInactive, search } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+    if (search) {
+      filter.$or = [
+        { name: { $regex: search, $options: 'i' } },
+        { genericName: { $regex: search, $options: 'i' } },
+      ];
+    }
+
+    const drugs = await Drug.find(filter).sort({ name: 1, strength: 1 });
+
+    res.json({
+      success: true,
+      data: drugs,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add a drug to the list (Admin only)
+ * POST /api/drugs
+ */
+exports.createDrug = async (req, res, next) => {
+  try {
+    const {
+      name,
+      genericName,
+      drugClass,
+      strength,
+      form,
+      defaultDosage,
+      defaultFrequency,
+      defaultDuration,
+      defaultInstructions,
+    } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    const existing = await Drug.findOne({ name, strength, form });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: `${name}${strength ? ` ${strength}` : ''} is already in the drug list`,
+      });
+    }
+
+    const drug = await Drug.create({
+      name,
+      genericName,
+      drugClass,
+      strength,
+      form,
+      defaultDosage,
+      defaultFrequency,
+      defaultDuration,
+      defaultInstructions,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { drug },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update drug (Admin only)
+ * PUT /api/drugs/:id
+ */
+exports.updateDrug = async (req, res, next) => {
+  try {
+    const drug = await Drug.findById(req.params.id);
+
+    if (!drug) {
+      return res.status(404).json({
+        success: false,
+        error: 'Drug not found',
+      });
+    }
+
+    const allowedUpdates = [
+      'name',
+      'genericName',
+      'drugClass',
+      'strength',
+      'form',
+      'defaultDosage',
+      'defaultFrequency',
+      'defaultDuration',
+      'defaultInstructions',
+      'isActive',
+    ];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        drug[field] = req.body[field];
+      }
+    });
+
+    await drug.save();
+
+    res.json({
+      success: true,
+      data: { drug },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete drug (Admin only)
+ * DELETE /api/drugs/:id
+ */
+exports.deleteDrug = async (req, res, next) => {
+  try {
+    const drug = await Drug.findById(req.params.id);
+
+    if (!drug) {
+      return res.status(404).json({
+        success: false,
+        error: 'Drug not found',
+      });
+    }
+
+    // Prescriptions point back at the drug - deactivate instead
+    const prescriptions = await Prescription.countDocuments({ 'items.drugId': drug._id });
+
+    if (prescriptions > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${drug.name} has been prescribed ${prescriptions} time(s); deactivate it instead`,
+      });
+    }
+
+    await drug.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Drug deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,151 @@
+const FeeSchedule = require('../models/FeeSchedule');
+
+/**
+ * Make a schedule the only default one
+ */
+const clearOtherDefaults = (schedule) =>
+  FeeSchedule.updateMany({ _id: { $ne: schedule._id }, isDefault: true }, { isDefault: false });
+
+/**
+ * Get fee schedules
+ * GET /api/fee-schedules
+ */
+exports.getFeeSchedules = async (req, res, next) => {
+  try {
+    const { includeInactive } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+
+    const schedules = await FeeSchedule.find(filter)
+      .populate('providerId', 'name')
+      .sort({ isDefault: -1, name: 1 });
+
+    res.json({
+      success: true,
+      data: schedules,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create fee schedule (Admin only)
+ * POST /api/fee-schedules
+ */
+exports.createFeeSchedule = async (req, res, next) => {
+  try {
+    const { name, type, providerId, discountPercent, fees, isDefault } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    // The first schedule is the default one until another is picked
+    const schedule = await FeeSchedule.create({
+      name,
+      type,
+      providerId: type === 'insurance' ? providerId : undefined,
+      discountPercent,
+      fees,
+      isDefault: isDefault || !(await FeeSchedule.exists({})),
+    });
+
+    if (schedule.isDefault) {
+      await clearOtherDefaults(schedule);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { schedule },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update fee schedule (Admin only)
+ * Sending fees replaces the schedule's fees
+ * PUT /api/fee-schedules/:id
+ */
+exports.updateFeeSchedule = async (req, res, next) => {
+  try {
+    const schedule = await FeeSchedule.findById(req.params.id);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Fee schedule not found',
+      });
+    }
+
+    const allowedUpdates = ['name', 'type', 'providerId', 'discountPercent', 'fees', 'isDefault', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        schedule[field] = req.body[field];
+      }
+    });
+
+    if (schedule.type !== 'insurance') {
+      schedule.providerId = undefined;
+    }
+
+    if (schedule.isDefault && !schedule.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'Pick another default fee schedule before deactivating this one',
+      });
+    }
+
+    await schedule.save();
+
+    if (schedule.isDefault) {
+      await clearOtherDefaults(schedule);
+    }
+
+    res.json({
+      success: true,
+      data: { schedule },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete fee schedule (Admin only)
+ * DELETE /api/fee-schedules/:id
+ */
+exports.deleteFeeSchedule = async (req, res, next) => {
+  try {
+    const schedule = await FeeSchedule.findById(req.params.id);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Fee schedule not found',
+      });
+    }
+
+    if (schedule.isDefault) {
+      return res.status(400).json({
+        success: false,
+        error: 'Pick another default fee schedule before deleting this one',
+      });
+    }
+
+    await schedule.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Fee schedule deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,160 @@
+const InsurancePolicy = require('../models/InsurancePolicy');
+const InsuranceProvider = require('../models/InsuranceProvider');
+const InsuranceClaim = require('../models/InsuranceClaim');
+const Patient = require('../models/Patient');
+
+/**
+ * Get insurance policies, usually for one patient
+ * GET /api/insurance-policies
+ */
+exports.getPolicies = async (req, res, next) => {
+  try {
+    const { patientId, includeInactive } = req.query;
+
+    const filter = {};
+    if (patientId) filter.patientId = patientId;
+    if (includeInactive !== 'true') filter.isActive = true;
+
+    const policies = await InsurancePolicy.find(filter)
+      .populate('providerId', 'name payerId')
+      .sort({ isActive: -1, createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: policies,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add an insurance policy to a patient
+ * POST /api/insurance-policies
+ */
+exports.createPolicy = async (req, res, next) => {
+  try {
+    const {
+      patientId,
+      providerId,
+      policyNumber,
+      groupNumber,
+      subscriberName,
+      relationship,
+      coveragePercent,
+      annualMaximum,
+      validFrom,
+      validTo,
+    } = req.body;
+
+    const patient = await Patient.findById(patientId);
+    if (!patient) {
+      return res.status(404).json({ success: false, error: 'Patient not found' });
+    }
+
+    const provider = await InsuranceProvider.findOne({ _id: providerId, isActive: true });
+    if (!provider) {
+      return res.status(404).json({ success: false, error: 'Insurance provider not found' });
+    }
+
+    const policy = await InsurancePolicy.create({
+      patientId,
+      providerId,
+      policyNumber,
+      groupNumber,
+      subscriberName,
+      relationship,
+      coveragePercent,
+      annualMaximum,
+      validFrom,
+      validTo,
+    });
+
+    await policy.populate('providerId', 'name payerId');
+
+    res.status(201).json({
+      success: true,
+      data: { policy },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update an insurance policy
+ * PUT /api/insurance-policies/:id
+ */
+exports.updatePolicy = async (req, res, next) => {
+  try {
+    const policy = await InsurancePolicy.findById(req.params.id);
+
+    if (!policy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Insurance policy not found',
+      });
+    }
+
+    const allowedUpdates = [
+      'policyNumber',
+      'groupNumber',
+      'subscriberName',
+      'relationship',
+      'coveragePercent',
+      'annualMaximum',
+      'validFrom',
+      'validTo',
+      'isActive',
+    ];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        policy[field] = req.body[field];
+      }
+    });
+
+    await policy.save();
+    await policy.populate('providerId', 'name payerId');
+
+    res.json({
+      success: true,
+      data: { policy },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete an insurance policy
+ * DELETE /api/insurance-policies/:id
+ */
+exports.deletePolicy = async (req, res, next) => {
+  try {
+    const policy = await InsurancePolicy.findById(req.params.id);
+
+    if (!policy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Insurance policy not found',
+      });
+    }
+
+    // Claims keep the policy they were made under - deactivate instead
+    if (await InsuranceClaim.exists({ policyId: policy._id })) {
+      return res.status(400).json({
+        success: false,
+        error: 'This policy has claims; deactivate it instead',
+      });
+    }
+
+    await policy.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Insurance policy deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
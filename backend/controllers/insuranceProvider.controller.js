@@ -0,0 +1,119 @@
+const InsuranceProvider = require('../models/InsuranceProvider');
+const InsurancePolicy = require('../models/InsurancePolicy');
+
+/**
+ * Get insurance providers
+ * GET /api/insurance-providers
+ */
+exports.getProviders = async (req, res, next) => {
+  try {
+    const { includeInactive } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+
+    const providers = await InsuranceProvider.find(filter).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: providers,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create insurance provider (Admin only)
+ * POST /api/insurance-providers
+ */
+exports.createProvider = async (req, res, next) => {
+  try {
+    const { name, payerId, phone, email, claimsAddress } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    const provider = await InsuranceProvider.create({ name, payerId, phone, email, claimsAddress });
+
+    res.status(201).json({
+      success: true,
+      data: { provider },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update insurance provider (Admin only)
+ * PUT /api/insurance-providers/:id
+ */
+exports.updateProvider = async (req, res, next) => {
+  try {
+    const provider = await InsuranceProvider.findById(req.params.id);
+
+    if (!provider) {
+      return res.status(404).json({
+        success: false,
+        error: 'Insurance provider not found',
+      });
+    }
+
+    const allowedUpdates = ['name', 'payerId', 'phone', 'email', 'claimsAddress', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        provider[field] = req.body[field];
+      }
+    });
+
+    await provider.save();
+
+    res.json({
+      success: true,
+      data: { provider },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete insurance provider (Admin only)
+ * DELETE /api/insurance-providers/:id
+ */
+exports.deleteProvider = async (req, res, next) => {
+  try {
+    const provider = await InsuranceProvider.findById(req.params.id);
+
+    if (!provider) {
+      return res.status(404).json({
+        success: false,
+        error: 'Insurance provider not found',
+      });
+    }
+
+    // Policies and their claims point at the provider - deactivate instead
+    const policies = await InsurancePolicy.countDocuments({ providerId: provider._id });
+
+    if (policies > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${provider.name} has ${policies} patient policy(ies); deactivate it instead`,
+      });
+    }
+
+    await provider.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Insurance provider deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,286 @@
+const InventoryItem = require('../models/InventoryItem');
+const InventoryBatch = require('../models/InventoryBatch');
+const StockMovement = require('../models/StockMovement');
+const Procedure = require('../models/Procedure');
+const { receiveStock, adjustBatch, getInventoryAlerts } = require('../services/inventoryService');
+
+/**
+ * Get inventory items
+ * GET /api/inventory/items
+ */
+exports.getItems = async (req, res, next) => {
+  try {
+    const { search, category, lowStock, includeInactive } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+    if (category) filter.category = category;
+    if (lowStock === 'true') filter.$expr = { $lte: ['$quantityOnHand', '$reorderLevel'] };
+    if (search) {
+      filter.$or = [
+        { name: { $regex: search, $options: 'i' } },
+        { sku: { $regex: search, $options: 'i' } },
+      ];
+    }
+
+    const items = await InventoryItem.find(filter).populate('supplierId', 'name').sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: items,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get an inventory item with its batches in stock and recent stock movements
+ * GET /api/inventory/items/:id
+ */
+exports.getItemById = async (req, res, next) => {
+  try {
+    const item = await InventoryItem.findById(req.params.id).populate('supplierId', 'name');
+
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Inventory item not found',
+      });
+    }
+
+    const batches = await InventoryBatch.find({ itemId: item._id, quantityRemaining: { $gt: 0 } })
+      .populate('supplierId', 'name')
+      .sort({ expiryDate: 1, receivedAt: 1 });
+
+    const movements = await StockMovement.find({ itemId: item._id })
+      .populate('createdBy', 'name')
+      .populate('batchId', 'batchNumber')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.json({
+      success: true,
+      data: { item, batches, movements },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create inventory item
+ * POST /api/inventory/items
+ */
+exports.createItem = async (req, res, next) => {
+  try {
+    const { name, sku, category, unit, reorderLevel, reorderQuantity, unitCost, supplierId, notes } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    // Stock comes in through deliveries, not here
+    const item = await InventoryItem.create({
+      name,
+      sku: sku || undefined,
+      category,
+      unit,
+      reorderLevel,
+      reorderQuantity,
+      unitCost,
+      supplierId: supplierId || undefined,
+      notes,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { item },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update inventory item
+ * PUT /api/inventory/items/:id
+ */
+exports.updateItem = async (req, res, next) => {
+  try {
+    const item = await InventoryItem.findById(req.params.id);
+
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Inventory item not found',
+      });
+    }
+
+    // The quantity on hand only changes through stock movements
+    const allowedUpdates = ['name', 'sku', 'category', 'unit', 'reorderLevel', 'reorderQuantity', 'unitCost', 'supplierId', 'notes', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        item[field] = req.body[field] === '' && ['sku', 'supplierId'].includes(field) ? undefined : req.body[field];
+      }
+    });
+
+    await item.save();
+
+    res.json({
+      success: true,
+      data: { item },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete inventory item (Admin only)
+ * DELETE /api/inventory/items/:id
+ */
+exports.deleteItem = async (req, res, next) => {
+  try {
+    const item = await InventoryItem.findById(req.params.id);
+
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Inventory item not found',
+      });
+    }
+
+    // Stock history points at the item - deactivate instead
+    if (await StockMovement.exists({ itemId: item._id })) {
+      return res.status(400).json({
+        success: false,
+        error: `${item.name} has stock history; deactivate it instead`,
+      });
+    }
+
+    const procedures = await Procedure.countDocuments({ 'materials.itemId': item._id });
+    if (procedures > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${item.name} is a material of ${procedures} procedure(s); remove it from them first`,
+      });
+    }
+
+    await item.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Inventory item deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Receive stock of an item outside a purchase order
+ * POST /api/inventory/items/:id/receive
+ */
+exports.receiveItemStock = async (req, res, next) => {
+  try {
+    const { quantity, batchNumber, expiryDate, unitCost, supplierId } = req.body;
+
+    const item = await InventoryItem.findById(req.params.id);
+
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Inventory item not found',
+      });
+    }
+
+    if (!(Number(quantity) > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Quantity must be greater than zero',
+      });
+    }
+
+    const batch = await receiveStock(
+      item,
+      { quantity: Number(quantity), batchNumber, expiryDate, unitCost, supplierId: supplierId || undefined },
+      req.user._id
+    );
+
+    const updatedItem = await InventoryItem.findById(item._id);
+
+    res.status(201).json({
+      success: true,
+      data: { batch, item: updatedItem },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Correct the count of a batch, or dispose of what is left of it
+ * POST /api/inventory/batches/:batchId/adjust
+ */
+exports.adjustBatchStock = async (req, res, next) => {
+  try {
+    const { quantity, dispose, reason } = req.body;
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required for a stock adjustment',
+      });
+    }
+
+    const batch = await InventoryBatch.findById(req.params.batchId);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+    }
+
+    const delta = dispose ? -batch.quantityRemaining : Number(quantity);
+
+    if (!delta || batch.quantityRemaining + delta < 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Adjustment must be non-zero and leave no less than zero of the ${batch.quantityRemaining} in the batch`,
+      });
+    }
+
+    await adjustBatch(batch, delta, { type: dispose ? 'disposal' : 'adjustment', reason, userId: req.user._id });
+
+    const item = await InventoryItem.findById(batch.itemId);
+
+    res.json({
+      success: true,
+      data: { batch, item },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get low-stock items and batches that have expired or expire soon
+ * GET /api/inventory/alerts
+ */
+exports.getAlerts = async (req, res, next) => {
+  try {
+    const alerts = await getInventoryAlerts();
+
+    res.json({
+      success: true,
+      data: alerts,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,29 +1,53 @@
 const Invoice = require('../models/Invoice');
 const Treatment = require('../models/Treatment');
 const Patient = require('../models/Patient');
+const InsuranceClaim = require('../models/InsuranceClaim');
 const { generateInvoicePDF } = require('../services/pdfService');
+const { getOverdueFilter } = require('../services/receivablesService');
+const { nextNumber } = require('../services/sequenceService');
+const { getTaxRate } = require('../services/procedureService');
+const { findLedgerRecords } = require('../services/paymentService');
 
 /**
- * Generate unique invoice number
- * Format: INV-YYYYMMDD-XXXX
+ * Turn the requested line items into invoice lines
+ * Treatment lines default to the treatment's name, cost and procedure tax rate; plain treatment IDs
+ * (as sent before line items) are billed as one line each
+ * Returns { lineItems } or { error, status }
  */
-const generateInvoiceNumber = async () => {
-  const today = new Date();
-  const dateStr = today.toISOString().split('T')[0].replace(/-/g, '');
-
-  // Find the last invoice created today
-  const lastInvoice = await Invoice.findOne({
-    invoiceNumber: { $regex: `^INV-${dateStr}` },
-  }).sort({ invoiceNumber: -1 });
-
-  let sequence = 1;
-  if (lastInvoice) {
-    const lastSequence = parseInt(lastInvoice.invoiceNumber.split('-')[2]);
-    sequence = lastSequence + 1;
+const buildLineItems = async (patientId, lineItems = [], treatmentIds = []) => {
+  const requested = [
+    ...lineItems,
+    ...treatmentIds
+      .filter((id) => !lineItems.some((item) => String(item.treatmentId) === String(id)))
+      .map((treatmentId) => ({ treatmentId })),
+  ];
+
+  if (requested.length === 0) {
+    return { error: 'At least one line item is required', status: 400 };
   }
 
-  const sequenceStr = sequence.toString().padStart(4, '0');
-  return `INV-${dateStr}-${sequenceStr}`;
+  const linkedIds = requested.filter((item) => item.treatmentId).map((item) => item.treatmentId);
+  const treatments = await Treatment.find({ _id: { $in: linkedIds }, patientId }).populate('procedureId', 'taxClass');
+  if (treatments.length !== new Set(linkedIds.map(String)).size) {
+    return { error: 'Some treatments not found', status: 404 };
+  }
+
+  const byId = new Map(treatments.map((treatment) => [treatment._id.toString(), treatment]));
+
+  return {
+    lineItems: requested.map((item) => {
+      const treatment = item.treatmentId && byId.get(String(item.treatmentId));
+      return {
+        _id: item._id,
+        treatmentId: item.treatmentId || undefined,
+        description: item.description || treatment?.treatmentType,
+        quantity: item.quantity ?? 1,
+        unitPrice: item.unitPrice ?? treatment?.cost,
+        discountPercent: item.discountPercent ?? 0,
+        taxRate: item.taxRate ?? (treatment?.procedureId ? getTaxRate(treatment.procedureId) : 0),
+      };
+    }),
+  };
 };
 
 /**
@@ -34,9 +58,10 @@ exports.getInvoices = async (req, res, next) => {
   try {
     const { patientId, status, page = 1, limit = 20 } = req.query;
 
-    const filter = {};
+    // Overdue isn't stored, it's worked out from the due date
+    const filter = status === 'overdue' ? getOverdueFilter() : {};
     if (patientId) filter.patientId = patientId;
-    if (status) filter.status = status;
+    if (status && status !== 'overdue') filter.status = status;
 
     // Role-based filtering for dentist
     if (req.user.role === 'dentist') {
@@ -104,12 +129,12 @@ exports.getInvoiceById = async (req, res, next) => {
  */
 exports.createInvoice = async (req, res, next) => {
   try {
-    const { patientId, treatmentIds, notes, dueDate } = req.body;
+    const { patientId, lineItems, treatmentIds, notes, dueDate } = req.body;
 
-    if (!patientId || !treatmentIds || treatmentIds.length === 0) {
+    if (!patientId) {
       return res.status(400).json({
         success: false,
-        error: 'Patient and treatments are required',
+        error: 'Patient is required',
       });
     }
 
@@ -118,18 +143,18 @@ exports.createInvoice = async (req, res, next) => {
       return res.status(404).json({ success: false, error: 'Patient not found' });
     }
 
-    const treatments = await Treatment.find({ _id: { $in: treatmentIds } });
-    if (treatments.length !== treatmentIds.length) {
-      return res.status(404).json({ success: false, error: 'Some treatments not found' });
+    const lines = await buildLineItems(patientId, lineItems, treatmentIds);
+    if (lines.error) {
+      return res.status(lines.status).json({ success: false, error: lines.error });
     }
 
-    const totalAmount = treatments.reduce((sum, t) => sum + t.cost, 0);
-    const invoiceNumber = await generateInvoiceNumber();
+    const invoiceNumber = await nextNumber('invoice');
 
+    // Totals are computed from the line items when the invoice is validated
     const invoice = await Invoice.create({
       patientId,
-      treatmentIds,
-      totalAmount,
+      lineItems: lines.lineItems,
+      totalAmount: 0,
       invoiceNumber,
       notes,
       dueDate,
@@ -151,23 +176,64 @@ exports.createInvoice = async (req, res, next) => {
  */
 exports.updateInvoice = async (req, res, next) => {
   try {
-    const { paidAmount, status, notes } = req.body;
+    const { paidAmount, status, notes, dueDate, lineItems } = req.body;
 
     const invoice = await Invoice.findById(req.params.id);
     if (!invoice) return res.status(404).json({ success: false, error: 'Invoice not found' });
 
+    // The paid amount comes from the payments ledger
     if (paidAmount !== undefined) {
-      if (paidAmount > invoice.totalAmount) {
+      return res.status(400).json({
+        success: false,
+        error: 'Record a payment instead of setting the paid amount',
+      });
+    }
+
+    if (status === 'cancelled') {
+      if (invoice.paidAmount > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Void the payments on this invoice before cancelling it',
+        });
+      }
+      if (invoice.insuranceAmount > 0) {
         return res.status(400).json({
           success: false,
-          error: 'Paid amount cannot exceed total amount',
+          error: 'Settle or delete the insurance claim on this invoice before cancelling it',
         });
       }
-      invoice.paidAmount = paidAmount;
+      invoice.status = 'cancelled';
+    } else if (status && invoice.status === 'cancelled') {
+      // Reopening - the save hook derives the status from the payments again
+      invoice.status = 'pending';
     }
 
-    if (status) invoice.status = status;
     if (notes !== undefined) invoice.notes = notes;
+    if (dueDate !== undefined) invoice.dueDate = dueDate;
+
+    if (lineItems !== undefined) {
+      // Credit notes point at the existing lines
+      if (invoice.creditedAmount > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Line items cannot be changed once a credit note has been issued',
+        });
+      }
+
+      // So do insurance claims that are still in play
+      if (await InsuranceClaim.exists({ invoiceId: invoice._id, status: { $ne: 'rejected' } })) {
+        return res.status(400).json({
+          success: false,
+          error: 'Line items cannot be changed once an insurance claim has been made',
+        });
+      }
+
+      const lines = await buildLineItems(invoice.patientId, lineItems);
+      if (lines.error) {
+        return res.status(lines.status).json({ success: false, error: lines.error });
+      }
+      invoice.lineItems = lines.lineItems;
+    }
 
     await invoice.save();
 
@@ -187,9 +253,22 @@ exports.updateInvoice = async (req, res, next) => {
  */
 exports.deleteInvoice = async (req, res, next) => {
   try {
-    const invoice = await Invoice.findByIdAndDelete(req.params.id);
+    const invoice = await Invoice.findById(req.params.id);
     if (!invoice) return res.status(404).json({ success: false, error: 'Invoice not found' });
 
+    // Payments, credit notes and claims are part of the ledger and the patient's credit balance
+    const records = await findLedgerRecords({ invoiceId: invoice._id });
+    if (records.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `This invoice has ${records.join(', ')} and cannot be deleted; void payments recorded by mistake, or issue a credit note to write off the balance`,
+      });
+    }
+
+    // Voided payments stay in the ledger history; only draft claims are left to remove
+    await invoice.deleteOne();
+    await InsuranceClaim.deleteMany({ invoiceId: invoice._id });
+
     res.json({ success: true, message: 'Invoice deleted successfully' });
   } catch (error) {
     next(error);
@@ -0,0 +1,343 @@
+const LabCase = require('../models/LabCase');
+const { LAB_CASE_TRANSITIONS } = require('../models/LabCase');
+const DentalLab = require('../models/DentalLab');
+const Treatment = require('../models/Treatment');
+const Appointment = require('../models/Appointment');
+const File = require('../models/File');
+const { normalizeToothNumber } = require('../utils/toothNumbering');
+const { nextNumber } = require('../services/sequenceService');
+const { getExpectedReturnDate, attachFittings } = require('../services/labCaseService');
+
+// Statuses while the work is still at the lab
+const AT_LAB = ['sent', 'in_progress', 'remake'];
+
+const populateLabCase = (query) =>
+  query
+    .populate('patientId', 'name contact')
+    .populate('treatmentId', 'treatmentType treatmentDate toothNumber')
+    .populate('doctorId', 'name')
+    .populate('labId', 'name phone email turnaroundDays')
+    .populate('attachments', 'fileName fileType mimeType')
+    .populate('statusHistory.changedBy', 'name');
+
+/**
+ * Check tooth numbers and attachments for a patient's case
+ * Returns { values } or { error, status }
+ */
+const buildCaseDetails = async (patientId, { toothNumbers, attachments, numberingSystem }) => {
+  const values = {};
+
+  if (toothNumbers !== undefined) {
+    const normalized = [];
+    for (const tooth of toothNumbers) {
+      const fdi = normalizeToothNumber(tooth, numberingSystem);
+      if (!fdi) {
+        return { error: `Invalid tooth number: ${tooth}`, status: 400 };
+      }
+      normalized.push(fdi);
+    }
+    values.toothNumbers = [...new Set(normalized)];
+  }
+
+  if (attachments !== undefined) {
+    const found = attachments.length ? await File.countDocuments({ _id: { $in: attachments }, patientId }) : 0;
+    if (found !== new Set(attachments.map(String)).size) {
+      return { error: "Attachments must be files from the patient's record", status: 400 };
+    }
+    values.attachments = attachments;
+  }
+
+  return { values };
+};
+
+/**
+ * Get lab cases
+ * Pass overdue=true for work past its expected return date, or open=true for anything not yet fitted
+ * GET /api/lab-cases
+ */
+exports.getLabCases = async (req, res, next) => {
+  try {
+    const { status, labId, patientId, treatmentId, overdue, open, page = 1, limit = 20 } = req.query;
+
+    const filter = {};
+    if (status) filter.status = status;
+    if (labId) filter.labId = labId;
+    if (patientId) filter.patientId = patientId;
+    if (treatmentId) filter.treatmentId = treatmentId;
+    if (open === 'true') filter.status = { $ne: 'fitted' };
+    if (overdue === 'true') {
+      filter.status = { $in: AT_LAB };
+      filter.expectedReturnDate = { $lt: new Date() };
+    }
+
+    // Dentists see the cases for their own patients' work
+    if (req.user.role === 'dentist') {
+      filter.doctorId = req.user._id;
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const labCases = await populateLabCase(LabCase.find(filter))
+      .sort({ expectedReturnDate: 1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await LabCase.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: await attachFittings(labCases),
+      total,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get lab case by ID
+ * GET /api/lab-cases/:id
+ */
+exports.getLabCaseById = async (req, res, next) => {
+  try {
+    const labCase = await populateLabCase(LabCase.findById(req.params.id));
+
+    if (!labCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lab case not found',
+      });
+    }
+
+    const [withFitting] = await attachFittings([labCase]);
+
+    res.json({
+      success: true,
+      data: { labCase: withFitting },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Send work for a treatment to a lab
+ * POST /api/lab-cases
+ */
+exports.createLabCase = async (req, res, next) => {
+  try {
+    const { treatmentId, labId, caseType, shade, material, instructions, labFee, sentDate, expectedReturnDate } = req.body;
+
+    if (!treatmentId || !labId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Treatment and lab are required',
+      });
+    }
+
+    const treatment = await Treatment.findById(treatmentId);
+    if (!treatment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Treatment not found',
+      });
+    }
+
+    // Role check - dentist can only send their own work
+    if (req.user.role === 'dentist' && treatment.doctorId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    const lab = await DentalLab.findById(labId);
+    if (!lab || !lab.isActive) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lab not found',
+      });
+    }
+
+    const details = await buildCaseDetails(treatment.patientId, {
+      ...req.body,
+      // The treated tooth unless the case covers others, e.g. a bridge
+      toothNumbers: req.body.toothNumbers?.length ? req.body.toothNumbers : [treatment.toothNumber].filter(Boolean),
+      attachments: req.body.attachments || [],
+    });
+    if (details.error) {
+      return res.status(details.status).json({ success: false, error: details.error });
+    }
+
+    const sent = sentDate ? new Date(sentDate) : new Date();
+
+    const labCase = await LabCase.create({
+      caseNumber: await nextNumber('labCase'),
+      patientId: treatment.patientId,
+      treatmentId: treatment._id,
+      doctorId: treatment.doctorId,
+      labId: lab._id,
+      caseType,
+      ...details.values,
+      shade,
+      material,
+      instructions,
+      labFee,
+      sentDate: sent,
+      expectedReturnDate: expectedReturnDate || getExpectedReturnDate(sent, lab.turnaroundDays),
+      statusHistory: [{ status: 'sent', changedBy: req.user._id, changedAt: sent }],
+    });
+
+    const [created] = await attachFittings([await populateLabCase(LabCase.findById(labCase._id))]);
+
+    res.status(201).json({
+      success: true,
+      data: { labCase: created },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a lab case's details
+ * PUT /api/lab-cases/:id
+ */
+exports.updateLabCase = async (req, res, next) => {
+  try {
+    const labCase = await LabCase.findById(req.params.id);
+
+    if (!labCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lab case not found',
+      });
+    }
+
+    if (req.body.labId !== undefined && String(req.body.labId) !== String(labCase.labId)) {
+      const lab = await DentalLab.findById(req.body.labId);
+      if (!lab || !lab.isActive) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lab not found',
+        });
+      }
+      labCase.labId = lab._id;
+    }
+
+    const details = await buildCaseDetails(labCase.patientId, req.body);
+    if (details.error) {
+      return res.status(details.status).json({ success: false, error: details.error });
+    }
+    Object.assign(labCase, details.values);
+
+    const allowedUpdates = ['caseType', 'shade', 'material', 'instructions', 'labFee', 'expectedReturnDate'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        labCase[field] = req.body[field];
+      }
+    });
+
+    await labCase.save();
+
+    const [updated] = await attachFittings([await populateLabCase(LabCase.findById(labCase._id))]);
+
+    res.json({
+      success: true,
+      data: { labCase: updated },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Move a lab case on, e.g. received back from the lab or fitted
+ * A remake needs a reason and goes back to the lab with a new expected return date
+ * POST /api/lab-cases/:id/status
+ */
+exports.updateLabCaseStatus = async (req, res, next) => {
+  try {
+    const { status, note, expectedReturnDate } = req.body;
+
+    const labCase = await LabCase.findById(req.params.id).populate('labId', 'turnaroundDays');
+
+    if (!labCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lab case not found',
+      });
+    }
+
+    if (!LAB_CASE_TRANSITIONS[labCase.status].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `A ${labCase.status.replace('_', ' ')} case cannot be marked ${String(status).replace('_', ' ')}`,
+      });
+    }
+
+    if (status === 'remake' && !note?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required for a remake',
+      });
+    }
+
+    const now = new Date();
+    if (status === 'received') {
+      labCase.receivedDate = now;
+    } else if (status === 'fitted') {
+      labCase.fittedDate = now;
+    } else if (status === 'remake') {
+      labCase.remakeCount += 1;
+      labCase.sentDate = now;
+      labCase.receivedDate = undefined;
+      labCase.fittedDate = undefined;
+      labCase.expectedReturnDate = expectedReturnDate || getExpectedReturnDate(now, labCase.labId.turnaroundDays);
+    }
+
+    labCase.status = status;
+    labCase.statusHistory.push({ status, changedBy: req.user._id, changedAt: now, note });
+
+    await labCase.save();
+
+    const [updated] = await attachFittings([await populateLabCase(LabCase.findById(labCase._id))]);
+
+    res.json({
+      success: true,
+      data: { labCase: updated },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete lab case (Admin only)
+ * DELETE /api/lab-cases/:id
+ */
+exports.deleteLabCase = async (req, res, next) => {
+  try {
+    const labCase = await LabCase.findById(req.params.id);
+
+    if (!labCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lab case not found',
+      });
+    }
+
+    // Fittings booked for the case stay as ordinary appointments
+    await Appointment.updateMany({ labCaseId: labCase._id }, { $unset: { labCaseId: 1 } });
+    await labCase.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Lab case deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,120 @@
+const Notification = require('../models/Notification');
+const { MAX_ATTEMPTS, requeueNotification } = require('../services/notificationService');
+
+/**
+ * Get notifications in the outbox, newest first
+ * GET /api/notifications
+ */
+exports.getNotifications = async (req, res, next) => {
+  try {
+    const { status, type, channel, page = 1, limit = 20 } = req.query;
+
+    const filter = {};
+    if (status) filter.status = status;
+    if (type) filter.type = type;
+    if (channel) filter.channel = channel;
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const notifications = await Notification.find(filter)
+      .select('-body')
+      .populate('patientId', 'name')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await Notification.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: notifications,
+      total,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get how many notifications are in each delivery status
+ * GET /api/notifications/summary
+ */
+exports.getSummary = async (req, res, next) => {
+  try {
+    const groups = await Notification.aggregate([
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+
+    const counts = { pending: 0, sending: 0, sent: 0, failed: 0 };
+    groups.forEach((group) => {
+      counts[group._id] = group.count;
+    });
+
+    res.json({
+      success: true,
+      data: { counts, maxAttempts: MAX_ATTEMPTS },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get notification by ID, including the message body
+ * GET /api/notifications/:id
+ */
+exports.getNotificationById = async (req, res, next) => {
+  try {
+    const notification = await Notification.findById(req.params.id).populate('patientId', 'name');
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { notification },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resend a failed notification
+ * POST /api/notifications/:id/resend
+ */
+exports.resendNotification = async (req, res, next) => {
+  try {
+    const notification = await Notification.findById(req.params.id);
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+
+    if (notification.status !== 'failed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only failed notifications can be resent',
+      });
+    }
+
+    await requeueNotification(notification);
+    await notification.populate('patientId', 'name');
+
+    res.json({
+      success: true,
+      data: { notification },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,180 @@
+const NotificationTemplate = require('../models/NotificationTemplate');
+const {
+  TEMPLATE_VARIABLES,
+  TEMPLATE_CHANNELS,
+  SAMPLE_VARIABLES,
+  findUnknownVariables,
+  getTemplate,
+  render,
+} = require('../services/templateService');
+
+/**
+ * Whether a type and channel combination has templates
+ */
+const isValidTarget = (type, channel) => !!TEMPLATE_CHANNELS[type] && TEMPLATE_CHANNELS[type].includes(channel);
+
+/**
+ * Get the notification types, their channels and the variables each can use
+ * GET /api/notification-templates/variables
+ */
+exports.getVariables = async (req, res, next) => {
+  try {
+    res.json({
+      success: true,
+      data: Object.keys(TEMPLATE_VARIABLES).map((type) => ({
+        type,
+        channels: TEMPLATE_CHANNELS[type],
+        variables: TEMPLATE_VARIABLES[type],
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the templates the clinic has customised
+ * GET /api/notification-templates
+ */
+exports.getTemplates = async (req, res, next) => {
+  try {
+    const templates = await NotificationTemplate.find()
+      .populate('updatedBy', 'name')
+      .sort({ type: 1, channel: 1, language: 1 });
+
+    res.json({
+      success: true,
+      data: templates,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the template in use for a type, channel and language
+ * Returns the built-in template (isDefault) when the clinic hasn't saved one
+ * GET /api/notification-templates/:type/:channel/:language
+ */
+exports.getTemplate = async (req, res, next) => {
+  try {
+    const { type, channel, language } = req.params;
+
+    if (!isValidTarget(type, channel)) {
+      return res.status(404).json({
+        success: false,
+        error: 'No templates for this notification type and channel',
+      });
+    }
+
+    // May come back in the default language when there is no template for this one yet
+    const template = await getTemplate(type, channel, language.toLowerCase());
+
+    res.json({
+      success: true,
+      data: { template },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Save the clinic's template for a type, channel and language
+ * PUT /api/notification-templates/:type/:channel/:language
+ */
+exports.saveTemplate = async (req, res, next) => {
+  try {
+    const { type, channel, language } = req.params;
+    const { subject, textBody, htmlBody } = req.body;
+
+    if (!isValidTarget(type, channel)) {
+      return res.status(404).json({
+        success: false,
+        error: 'No templates for this notification type and channel',
+      });
+    }
+
+    const unknown = findUnknownVariables(type, subject, textBody, htmlBody);
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown variables: ${unknown.join(', ')}`,
+      });
+    }
+
+    const template = await NotificationTemplate.findOne({ type, channel, language: language.toLowerCase() })
+      || new NotificationTemplate({ type, channel, language });
+
+    template.subject = channel === 'sms' ? undefined : subject;
+    template.textBody = textBody;
+    template.htmlBody = channel === 'sms' ? undefined : htmlBody;
+    template.updatedBy = req.user._id;
+
+    await template.save();
+
+    res.json({
+      success: true,
+      data: { template },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete the clinic's template so the built-in one is used again
+ * DELETE /api/notification-templates/:type/:channel/:language
+ */
+exports.resetTemplate = async (req, res, next) => {
+  try {
+    const { type, channel, language } = req.params;
+
+    const template = await NotificationTemplate.findOneAndDelete({
+      type,
+      channel,
+      language: language.toLowerCase(),
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Template reset to default',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Render a template with sample data, without saving it
+ * POST /api/notification-templates/preview
+ */
+exports.previewTemplate = async (req, res, next) => {
+  try {
+    const { type, channel = 'email', subject, textBody = '', htmlBody } = req.body;
+
+    if (!isValidTarget(type, channel)) {
+      return res.status(400).json({
+        success: false,
+        error: 'No templates for this notification type and channel',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        preview: render({ channel, subject, textBody, htmlBody }, SAMPLE_VARIABLES),
+        unknownVariables: findUnknownVariables(type, subject, textBody, htmlBody),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,9 +1,26 @@
 const Patient = require('../models/Patient');
 const Appointment = require('../models/Appointment');
 const Treatment = require('../models/Treatment');
+const TreatmentPlan = require('../models/TreatmentPlan');
 const Invoice = require('../models/Invoice');
+const Payment = require('../models/Payment');
+const InsurancePolicy = require('../models/InsurancePolicy');
+const InsuranceClaim = require('../models/InsuranceClaim');
 const File = require('../models/File');
+const ToothCondition = require('../models/ToothCondition');
+const User = require('../models/User');
+const VitalsRecord = require('../models/VitalsRecord');
+const ClinicalNote = require('../models/ClinicalNote');
+const Consent = require('../models/Consent');
+const Prescription = require('../models/Prescription');
+const LabCase = require('../models/LabCase');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const WaitlistOffer = require('../models/WaitlistOffer');
 const XLSX = require('xlsx');
+const { getCreditBalance, findLedgerRecords } = require('../services/paymentService');
+const { getTaxRate } = require('../services/procedureService');
+const { checkPatientAccess } = require('../utils/patientAccess');
+const { snapshotToVitals, syncLatestVitals } = require('../services/vitalsService');
 
 /**
  * Get all patients with search and filter
@@ -100,11 +117,22 @@ exports.getPatientById = async (req, res, next) => {
  */
 exports.createPatient = async (req, res, next) => {
   try {
+    const vitals = snapshotToVitals(req.body);
+    if (vitals.error) {
+      return res.status(vitals.status).json({ success: false, error: vitals.error });
+    }
+
     const patient = await Patient.create(req.body);
 
+    // Vitals given with the patient start their vitals history
+    if (Object.keys(vitals.values).length > 0) {
+      await VitalsRecord.create({ patientId: patient._id, recordedBy: req.user._id, ...vitals.values });
+      await syncLatestVitals(patient._id);
+    }
+
     res.status(201).json({
       success: true,
-      data: { patient },
+      data: { patient: await Patient.findById(patient._id) },
     });
   } catch (error) {
     next(error);
@@ -117,19 +145,68 @@ exports.createPatient = async (req, res, next) => {
  */
 exports.updatePatient = async (req, res, next) => {
   try {
-    const patient = await Patient.findByIdAndUpdate(
+    const existing = await Patient.findById(req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found',
+      });
+    }
+
+    const vitals = snapshotToVitals(req.body, existing);
+    if (vitals.error) {
+      return res.status(vitals.status).json({ success: false, error: vitals.error });
+    }
+
+    let patient = await Patient.findByIdAndUpdate(
       req.params.id,
       req.body,
       { new: true, runValidators: true }
     );
 
-    if (!patient) {
-      return res.status(404).json({
+    // Changed vitals are added to the history instead of only overwriting the last value
+    if (Object.keys(vitals.values).length > 0) {
+      await VitalsRecord.create({ patientId: patient._id, recordedBy: req.user._id, ...vitals.values });
+      await syncLatestVitals(patient._id);
+      patient = await Patient.findById(patient._id);
+    }
+
+    res.json({
+      success: true,
+      data: { patient },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a patient's allergies, medications and conditions
+ * Open to dentists as well, who record most of it chairside
+ * PUT /api/patients/:id/medical-history
+ */
+exports.updateMedicalHistory = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
         success: false,
-        error: 'Patient not found',
+        error: accessError.error,
       });
     }
 
+    const patient = await Patient.findById(req.params.id);
+
+    const allowedUpdates = ['allergies', 'medications', 'conditions', 'medicalHistory'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        patient[field] = req.body[field];
+      }
+    });
+
+    await patient.save();
+
     res.json({
       success: true,
       data: { patient },
@@ -145,7 +222,7 @@ exports.updatePatient = async (req, res, next) => {
  */
 exports.deletePatient = async (req, res, next) => {
   try {
-    const patient = await Patient.findByIdAndDelete(req.params.id);
+    const patient = await Patient.findById(req.params.id);
 
     if (!patient) {
       return res.status(404).json({
@@ -154,10 +231,43 @@ exports.deletePatient = async (req, res, next) => {
       });
     }
 
-    // Cascade delete: appointments, treatments, invoices, files
+    // Signed clinical records must be kept, so a patient who has them can't be deleted
+    const signedRecords = [];
+    if (await ClinicalNote.exists({ patientId: patient._id, status: 'signed' })) signedRecords.push('clinical notes');
+    if (await Consent.exists({ patientId: patient._id })) signedRecords.push('consent forms');
+    if (await Prescription.exists({ patientId: patient._id })) signedRecords.push('prescriptions');
+    if (signedRecords.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `This patient has signed ${signedRecords.join(', ')} and cannot be deleted`,
+      });
+    }
+
+    // The same ledger records that keep an invoice keep its patient
+    const ledgerRecords = await findLedgerRecords({ patientId: patient._id });
+    if (ledgerRecords.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `This patient has ${ledgerRecords.join(', ')} and cannot be deleted`,
+      });
+    }
+
+    await patient.deleteOne();
+
+    // Cascade delete: appointments, treatments and treatment plans with their lab cases, waitlist entries and offers, invoices with their draft claims, insurance policies, unsigned notes, chart, portal login, files
     await Appointment.deleteMany({ patientId: req.params.id });
     await Treatment.deleteMany({ patientId: req.params.id });
+    await TreatmentPlan.deleteMany({ patientId: req.params.id });
+    await LabCase.deleteMany({ patientId: req.params.id });
+    await WaitlistEntry.deleteMany({ patientId: req.params.id });
+    await WaitlistOffer.deleteMany({ patientId: req.params.id });
     await Invoice.deleteMany({ patientId: req.params.id });
+    await InsurancePolicy.deleteMany({ patientId: req.params.id });
+    await InsuranceClaim.deleteMany({ patientId: req.params.id });
+    await ToothCondition.deleteMany({ patientId: req.params.id });
+    await VitalsRecord.deleteMany({ patientId: req.params.id });
+    await ClinicalNote.deleteMany({ patientId: req.params.id });
+    await User.deleteMany({ patientId: req.params.id, role: 'patient' });
 
     // Delete files (would need S3 service to delete from S3 as well)
     await File.deleteMany({ patientId: req.params.id });
@@ -198,11 +308,16 @@ exports.getPatientTreatments = async (req, res, next) => {
   try {
     const treatments = await Treatment.find({ patientId: req.params.id })
       .populate('doctorId', 'name')
+      .populate('procedureId', 'code name taxClass')
       .sort({ treatmentDate: -1 });
 
+    // Invoices bill each treatment at its procedure's tax rate
     res.json({
       success: true,
-      data: treatments,
+      data: treatments.map((treatment) => ({
+        ...treatment.toObject(),
+        taxRate: treatment.procedureId ? getTaxRate(treatment.procedureId) : 0,
+      })),
     });
   } catch (error) {
     next(error);
@@ -227,6 +342,102 @@ exports.getPatientInvoices = async (req, res, next) => {
   }
 };
 
+/**
+ * Get patient's credit balance and the payments that moved it
+ * GET /api/patients/:id/credit
+ */
+exports.getPatientCredit = async (req, res, next) => {
+  try {
+    const entries = await Payment.find({ patientId: req.params.id, method: 'credit', voided: false })
+      .populate('invoiceId', 'invoiceNumber')
+      .sort({ paidAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        balance: await getCreditBalance(req.params.id),
+        entries,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a portal login for a patient
+ * POST /api/patients/:id/portal-account
+ */
+exports.createPortalAccount = async (req, res, next) => {
+  try {
+    const patient = await Patient.findById(req.params.id);
+
+    if (!patient) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found',
+      });
+    }
+
+    const email = req.body.email || patient.email;
+    const { password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email and password are required',
+      });
+    }
+
+    if (password.length < 8) {
+      return res.status(400).json({
+        success: false,
+        error: 'Password must be at least 8 characters',
+      });
+    }
+
+    const existingAccount = await User.findOne({ patientId: patient._id });
+    if (existingAccount) {
+      return res.status(409).json({
+        success: false,
+        error: 'Patient already has a portal account',
+      });
+    }
+
+    const existingUser = await User.findOne({ email: email.toLowerCase() });
+    if (existingUser) {
+      return res.status(409).json({
+        success: false,
+        error: 'Email already exists',
+      });
+    }
+
+    const user = await User.create({
+      email,
+      password,
+      name: patient.name,
+      role: 'patient',
+      phone: patient.contact,
+      patientId: patient._id,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        user: {
+          id: user._id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+        },
+        message: 'Portal account created successfully',
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get patient's files
  * GET /api/patients/:id/files
@@ -0,0 +1,239 @@
+const Invoice = require('../models/Invoice');
+const Payment = require('../models/Payment');
+const InsuranceClaim = require('../models/InsuranceClaim');
+const {
+  getPaidTotal,
+  getCreditBalance,
+  recalculateInvoice,
+  recalculateClaim,
+} = require('../services/paymentService');
+const { pauseDunning, getPatientBalance } = require('../services/receivablesService');
+const { nextNumber } = require('../services/sequenceService');
+
+/**
+ * Get the payments and refunds recorded against an invoice, voided ones included
+ * GET /api/invoices/:id/payments
+ */
+exports.getInvoicePayments = async (req, res, next) => {
+  try {
+    const invoice = await Invoice.findById(req.params.id);
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    const payments = await Payment.find({ invoiceId: invoice._id })
+      .populate('receivedBy', 'name')
+      .populate('voidedBy', 'name')
+      .sort({ paidAt: 1, createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: payments,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record a payment against an invoice
+ * POST /api/invoices/:id/payments
+ */
+exports.recordPayment = async (req, res, next) => {
+  try {
+    const { amount, method, reference, paidAt, notes } = req.body;
+
+    const invoice = await Invoice.findById(req.params.id);
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    if (invoice.status === 'cancelled') {
+      return res.status(400).json({
+        success: false,
+        error: 'Payments cannot be recorded against a cancelled invoice',
+      });
+    }
+
+    if (!(Number(amount) > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Payment amount must be greater than zero',
+      });
+    }
+
+    // The insurer's share is left for the claim payment
+    const balance = await getPatientBalance(invoice);
+    if (Number(amount) > balance) {
+      return res.status(400).json({
+        success: false,
+        error: `Payment exceeds the patient's outstanding balance of ${balance.toFixed(2)}`,
+      });
+    }
+
+    if (method === 'credit') {
+      const credit = await getCreditBalance(invoice.patientId);
+      if (Number(amount) > credit) {
+        return res.status(400).json({
+          success: false,
+          error: `Payment exceeds the patient's credit balance of ${credit.toFixed(2)}`,
+        });
+      }
+    }
+
+    const payment = new Payment({
+      invoiceId: invoice._id,
+      patientId: invoice.patientId,
+      amount,
+      method,
+      reference,
+      paidAt,
+      notes,
+      receivedBy: req.user._id,
+    });
+
+    // Receipt numbers are only taken for payments that will be saved
+    await payment.validate();
+    payment.receiptNumber = await nextNumber('receipt');
+    await payment.save();
+
+    pauseDunning(invoice);
+    await recalculateInvoice(invoice);
+    await payment.populate('receivedBy', 'name');
+
+    res.status(201).json({
+      success: true,
+      data: { payment, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Refund money paid on an invoice, stored as a negative payment
+ * Refunding with the 'credit' method keeps the money as patient credit instead
+ * POST /api/invoices/:id/refunds
+ */
+exports.recordRefund = async (req, res, next) => {
+  try {
+    const { amount, method, reference, paidAt, reason, notes } = req.body;
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required for a refund',
+      });
+    }
+
+    const invoice = await Invoice.findById(req.params.id);
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    const paid = await getPaidTotal(invoice._id);
+    if (!(Number(amount) > 0) || Number(amount) > paid) {
+      return res.status(400).json({
+        success: false,
+        error: `Refund must be between 0 and the ${paid.toFixed(2)} paid on this invoice`,
+      });
+    }
+
+    const payment = await Payment.create({
+      invoiceId: invoice._id,
+      patientId: invoice.patientId,
+      type: 'refund',
+      amount: -Number(amount),
+      method,
+      reference,
+      paidAt,
+      reason,
+      notes,
+      receivedBy: req.user._id,
+    });
+
+    await recalculateInvoice(invoice);
+    await payment.populate('receivedBy', 'name');
+
+    res.status(201).json({
+      success: true,
+      data: { payment, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Void a payment or refund recorded by mistake
+ * POST /api/invoices/:id/payments/:paymentId/void
+ */
+exports.voidPayment = async (req, res, next) => {
+  try {
+    const { reason } = req.body;
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required to void a payment',
+      });
+    }
+
+    const payment = await Payment.findOne({ _id: req.params.paymentId, invoiceId: req.params.id });
+
+    if (!payment) {
+      return res.status(404).json({ success: false, error: 'Payment not found' });
+    }
+
+    if (payment.voided) {
+      return res.status(400).json({ success: false, error: 'Payment is already voided' });
+    }
+
+    // Voiding a payment must not leave more refunded than paid
+    if (payment.type === 'payment' && (await getPaidTotal(payment.invoiceId)) < payment.amount) {
+      return res.status(400).json({
+        success: false,
+        error: 'Void the refunds on this invoice before voiding this payment',
+      });
+    }
+
+    // Credit that came from this refund may already have been spent
+    if (payment.type === 'refund' && payment.method === 'credit') {
+      const credit = await getCreditBalance(payment.patientId);
+      if (credit < -payment.amount) {
+        return res.status(400).json({
+          success: false,
+          error: 'The credit from this refund has already been used',
+        });
+      }
+    }
+
+    payment.voided = true;
+    payment.voidedAt = new Date();
+    payment.voidedBy = req.user._id;
+    payment.voidReason = reason;
+    await payment.save();
+
+    // An insurer's payment settles its claim
+    if (payment.claimId) {
+      const claim = await InsuranceClaim.findById(payment.claimId);
+      if (claim) await recalculateClaim(claim);
+    }
+
+    const invoice = await recalculateInvoice(await Invoice.findById(req.params.id));
+    await payment.populate([
+      { path: 'receivedBy', select: 'name' },
+      { path: 'voidedBy', select: 'name' },
+    ]);
+
+    res.json({
+      success: true,
+      data: { payment, invoice },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
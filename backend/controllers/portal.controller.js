@@ -0,0 +1,367 @@
+const Patient = require('../models/Patient');
+const Appointment = require('../models/Appointment');
+const Invoice = require('../models/Invoice');
+const User = require('../models/User');
+const portalRules = require('../config/portal');
+const {
+  ACTIVE_STATUSES,
+  checkConflict,
+  describeConflict,
+  checkAvailability,
+  getAvailableSlots,
+} = require('../services/schedulingService');
+const { offerFreedSlot } = require('../services/waitlistService');
+const { generateInvoicePDF } = require('../services/pdfService');
+const { sendAppointmentConfirmation } = require('../services/emailService');
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Earliest and latest start times a patient may book right now
+ */
+const getBookingWindow = () => {
+  const now = Date.now();
+  return {
+    earliest: new Date(now + portalRules.bookingLeadHours * HOUR_MS),
+    latest: new Date(now + portalRules.maxAdvanceDays * DAY_MS),
+  };
+};
+
+const findTreatmentType = (type) =>
+  portalRules.treatmentTypes.find((treatmentType) => treatmentType.type === type);
+
+/**
+ * Get the signed-in patient's record
+ * GET /api/portal/me
+ */
+exports.getProfile = async (req, res, next) => {
+  try {
+    const patient = await Patient.findById(req.user.patientId).select('name contact email address reminderPreferences');
+
+    if (!patient) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { patient },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update the patient's reminder channels and opt-out
+ * PUT /api/portal/reminder-preferences
+ */
+exports.updateReminderPreferences = async (req, res, next) => {
+  try {
+    const patient = await Patient.findById(req.user.patientId);
+
+    if (!patient) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found',
+      });
+    }
+
+    ['email', 'sms', 'optOut'].forEach((field) => {
+      if (typeof req.body[field] === 'boolean') {
+        patient.reminderPreferences[field] = req.body[field];
+      }
+    });
+
+    await patient.save();
+
+    res.json({
+      success: true,
+      data: { reminderPreferences: patient.reminderPreferences },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the patient's appointments (upcoming only unless ?all=true)
+ * GET /api/portal/appointments
+ */
+exports.getAppointments = async (req, res, next) => {
+  try {
+    const filter = { patientId: req.user.patientId };
+
+    if (req.query.all !== 'true') {
+      filter.startTime = { $gte: new Date() };
+      filter.status = { $in: ACTIVE_STATUSES };
+    }
+
+    const appointments = await Appointment.find(filter)
+      .select('-reminderSent -recurrence')
+      .populate('doctorId', 'name')
+      .populate('roomId', 'name')
+      .sort({ startTime: req.query.all === 'true' ? -1 : 1 });
+
+    res.json({
+      success: true,
+      data: appointments,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the patient's invoices
+ * GET /api/portal/invoices
+ */
+exports.getInvoices = async (req, res, next) => {
+  try {
+    const invoices = await Invoice.find({ patientId: req.user.patientId })
+      .sort({ issueDate: -1 });
+
+    res.json({
+      success: true,
+      data: invoices,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download one of the patient's invoices as PDF
+ * GET /api/portal/invoices/:id/pdf
+ */
+exports.downloadInvoicePDF = async (req, res, next) => {
+  try {
+    const invoice = await Invoice.findOne({ _id: req.params.id, patientId: req.user.patientId })
+      .populate('patientId')
+      .populate({
+        path: 'treatmentIds',
+        populate: { path: 'doctorId', select: 'name' },
+      });
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    return generateInvoicePDF(invoice, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get what a patient can book: dentists, treatment types and the booking rules
+ * GET /api/portal/booking-options
+ */
+exports.getBookingOptions = async (req, res, next) => {
+  try {
+    const dentists = await User.find({ role: 'dentist' }).select('name').sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        dentists,
+        treatmentTypes: portalRules.treatmentTypes,
+        rules: {
+          bookingLeadHours: portalRules.bookingLeadHours,
+          cancellationLeadHours: portalRules.cancellationLeadHours,
+          maxAdvanceDays: portalRules.maxAdvanceDays,
+          maxUpcomingAppointments: portalRules.maxUpcomingAppointments,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get bookable slots for a dentist, day and treatment type
+ * GET /api/portal/availability
+ */
+exports.getAvailability = async (req, res, next) => {
+  try {
+    const { doctorId, date, treatmentType } = req.query;
+
+    const type = findTreatmentType(treatmentType);
+    if (!doctorId || !date || !type) {
+      return res.status(400).json({
+        success: false,
+        error: 'Doctor, date and a bookable treatment type are required',
+      });
+    }
+
+    if (isNaN(new Date(date).getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date',
+      });
+    }
+
+    const { slots, reason } = await getAvailableSlots(doctorId, date, type.duration);
+    const { earliest, latest } = getBookingWindow();
+    const bookable = slots.filter((slot) => slot.startTime >= earliest && slot.startTime <= latest);
+
+    res.json({
+      success: true,
+      data: {
+        slots: bookable,
+        reason: reason || (slots.length > 0 && bookable.length === 0 ? 'Outside the online booking window' : null),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Book an appointment for the signed-in patient
+ * POST /api/portal/appointments
+ */
+exports.bookAppointment = async (req, res, next) => {
+  try {
+    const { doctorId, startTime, treatmentType, notes } = req.body;
+
+    const type = findTreatmentType(treatmentType);
+    if (!doctorId || !startTime || !type) {
+      return res.status(400).json({
+        success: false,
+        error: 'Doctor, start time and a bookable treatment type are required',
+      });
+    }
+
+    const start = new Date(startTime);
+    if (isNaN(start.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid start time',
+      });
+    }
+    const end = new Date(start.getTime() + type.duration * 60 * 1000);
+
+    const { earliest, latest } = getBookingWindow();
+    if (start < earliest) {
+      return res.status(400).json({
+        success: false,
+        error: `Online bookings need at least ${portalRules.bookingLeadHours} hours notice`,
+      });
+    }
+    if (start > latest) {
+      return res.status(400).json({
+        success: false,
+        error: `Online bookings can be made up to ${portalRules.maxAdvanceDays} days ahead`,
+      });
+    }
+
+    const upcoming = await Appointment.countDocuments({
+      patientId: req.user.patientId,
+      startTime: { $gte: new Date() },
+      status: { $in: ACTIVE_STATUSES },
+    });
+    if (upcoming >= portalRules.maxUpcomingAppointments) {
+      return res.status(400).json({
+        success: false,
+        error: `You can have at most ${portalRules.maxUpcomingAppointments} upcoming appointments booked online`,
+      });
+    }
+
+    const doctor = await User.findById(doctorId);
+    if (!doctor || doctor.role !== 'dentist') {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor not found',
+      });
+    }
+
+    const unavailable = await checkAvailability(doctorId, start, end);
+    if (unavailable) {
+      return res.status(409).json({
+        success: false,
+        error: unavailable,
+      });
+    }
+
+    const conflict = await checkConflict(doctorId, start, end);
+    if (conflict) {
+      return res.status(409).json({
+        success: false,
+        error: describeConflict(conflict, doctorId),
+      });
+    }
+
+    const appointment = await Appointment.create({
+      patientId: req.user.patientId,
+      doctorId,
+      startTime: start,
+      endTime: end,
+      treatmentType: type.type,
+      notes,
+    });
+
+    const populatedAppointment = await Appointment.findById(appointment._id)
+      .populate('patientId', 'name email language')
+      .populate('doctorId', 'name');
+
+    if (populatedAppointment.patientId.email) {
+      sendAppointmentConfirmation(populatedAppointment)
+        .catch((error) => console.error('Appointment confirmation error:', error));
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { appointment: populatedAppointment },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel one of the patient's own appointments
+ * DELETE /api/portal/appointments/:id
+ */
+exports.cancelAppointment = async (req, res, next) => {
+  try {
+    const appointment = await Appointment.findOne({ _id: req.params.id, patientId: req.user.patientId });
+
+    if (!appointment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found',
+      });
+    }
+
+    if (!ACTIVE_STATUSES.includes(appointment.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only upcoming appointments can be cancelled',
+      });
+    }
+
+    if (appointment.startTime.getTime() - Date.now() < portalRules.cancellationLeadHours * HOUR_MS) {
+      return res.status(400).json({
+        success: false,
+        error: `Appointments within ${portalRules.cancellationLeadHours} hours can only be cancelled by calling the clinic`,
+      });
+    }
+
+    appointment.status = 'cancelled';
+    await appointment.save();
+
+    offerFreedSlot(appointment).catch((error) => console.error('Waitlist offer error:', error));
+
+    res.json({
+      success: true,
+      message: 'Appointment cancelled successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,222 @@
+const Prescription = require('../models/Prescription');
+const Patient = require('../models/Patient');
+const Treatment = require('../models/Treatment');
+const Drug = require('../models/Drug');
+const User = require('../models/User');
+const { checkPatientAccess } = require('../utils/patientAccess');
+const { nextNumber } = require('../services/sequenceService');
+const { getPrescriptionAlerts, storePrescriptionPDF } = require('../services/prescriptionService');
+const { generatePrescriptionPDF } = require('../services/pdfService');
+
+const populatePrescription = (query) =>
+  query
+    .populate('patientId', 'name age gender contact')
+    .populate('doctorId', 'name registrationNumber')
+    .populate('treatmentId', 'treatmentType treatmentDate toothNumber');
+
+/**
+ * Check every drug has directions and fill in name, strength and form from the drug list
+ * Returns { items, drugs } or { error, status }
+ */
+const buildItems = async (items) => {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'Add at least one drug', status: 400 };
+  }
+
+  const drugIds = items.map((item) => item.drugId).filter(Boolean);
+  const drugs = drugIds.length ? await Drug.find({ _id: { $in: drugIds } }) : [];
+
+  const built = [];
+  for (const item of items) {
+    const drug = item.drugId ? drugs.find((entry) => String(entry._id) === String(item.drugId)) : null;
+    if (item.drugId && !drug) {
+      return { error: 'Drug not found', status: 404 };
+    }
+
+    const name = drug?.name || item.name?.trim();
+    if (!name) {
+      return { error: 'Each drug needs a name', status: 400 };
+    }
+    if (!item.dosage?.trim() || !item.frequency?.trim() || !item.duration?.trim()) {
+      return { error: `Dosage, frequency and duration are required for ${name}`, status: 400 };
+    }
+
+    built.push({
+      drugId: drug?._id,
+      name,
+      strength: drug ? drug.strength : item.strength,
+      form: drug ? drug.form : item.form,
+      dosage: item.dosage,
+      frequency: item.frequency,
+      duration: item.duration,
+      instructions: item.instructions,
+    });
+  }
+
+  return { items: built, drugs };
+};
+
+/**
+ * Get a patient's prescriptions, latest first
+ * GET /api/patients/:id/prescriptions
+ */
+exports.getPrescriptions = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const filter = { patientId: req.params.id };
+    if (req.query.treatmentId) filter.treatmentId = req.query.treatmentId;
+
+    const prescriptions = await populatePrescription(Prescription.find(filter)).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: prescriptions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Write a prescription; the printable Rx is added to the patient's files
+ * Drugs the patient is recorded as allergic to must be acknowledged first
+ * POST /api/patients/:id/prescriptions
+ */
+exports.createPrescription = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const { treatmentId, notes, acknowledgeAlerts } = req.body;
+
+    const patient = await Patient.findById(req.params.id);
+    if (!patient) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found',
+      });
+    }
+
+    let treatment = null;
+    if (treatmentId) {
+      treatment = await Treatment.findOne({ _id: treatmentId, patientId: patient._id });
+      if (!treatment) {
+        return res.status(400).json({
+          success: false,
+          error: 'Treatment not found for this patient',
+        });
+      }
+    }
+
+    // Dentists prescribe in their own name; admins write up for the treating dentist
+    const doctorId = req.user.role === 'dentist' ? req.user._id : req.body.doctorId || treatment?.doctorId;
+    const doctor = doctorId ? await User.findById(doctorId) : null;
+    if (!doctor || doctor.role !== 'dentist') {
+      return res.status(400).json({
+        success: false,
+        error: 'A prescribing dentist is required',
+      });
+    }
+
+    if (!doctor.registrationNumber) {
+      return res.status(400).json({
+        success: false,
+        error: `Dr. ${doctor.name} has no registration number; add it under Users before prescribing`,
+      });
+    }
+
+    const built = await buildItems(req.body.items);
+    if (built.error) {
+      return res.status(built.status).json({ success: false, error: built.error });
+    }
+
+    const alerts = getPrescriptionAlerts(patient, built.items, built.drugs);
+    if (alerts.length > 0 && !acknowledgeAlerts) {
+      return res.status(409).json({
+        success: false,
+        error: `${alerts.length} allergy alert(s) apply to this prescription`,
+        alerts,
+      });
+    }
+
+    const prescription = await Prescription.create({
+      rxNumber: await nextNumber('prescription'),
+      patientId: patient._id,
+      doctorId: doctor._id,
+      treatmentId: treatment?._id,
+      items: built.items,
+      notes,
+      acknowledgedAlerts: alerts.map((alert) => alert.message),
+    });
+
+    const populated = await populatePrescription(Prescription.findById(prescription._id));
+    const file = await storePrescriptionPDF(populated, req.user._id);
+    if (file) {
+      populated.fileId = file._id;
+      await populated.save();
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { prescription: populated },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download a prescription as PDF
+ * GET /api/patients/:id/prescriptions/:prescriptionId/pdf
+ */
+exports.downloadPrescriptionPDF = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const prescription = await populatePrescription(
+      Prescription.findOne({ _id: req.params.prescriptionId, patientId: req.params.id })
+    );
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prescription not found',
+      });
+    }
+
+    // The Rx didn't reach the patient's files when it was written - try again
+    if (!prescription.fileId) {
+      const file = await storePrescriptionPDF(prescription, req.user._id);
+      if (file) {
+        prescription.fileId = file._id;
+        await prescription.save();
+      }
+    }
+
+    const pdf = await generatePrescriptionPDF(prescription);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${prescription.rxNumber}.pdf`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
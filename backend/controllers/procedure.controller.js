@@ -0,0 +1,157 @@
+const Procedure = require('../models/Procedure');
+const FeeSchedule = require('../models/FeeSchedule');
+const Treatment = require('../models/Treatment');
+const { getScheduleFee, getTaxRate } = require('../services/procedureService');
+
+/**
+ * Get the procedure catalog
+ * With a fee schedule, each procedure comes with its fee on that schedule
+ * GET /api/procedures
+ */
+exports.getProcedures = async (req, res, next) => {
+  try {
+    const { search, category, includeInactive, feeScheduleId } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+    if (category) filter.category = category;
+    if (search) {
+      filter.$or = ['code', 'name', 'aliases'].map((field) => ({
+        [field]: { $regex: search, $options: 'i' },
+      }));
+    }
+
+    let schedule = null;
+    if (feeScheduleId) {
+      schedule = await FeeSchedule.findById(feeScheduleId);
+      if (!schedule) {
+        return res.status(404).json({ success: false, error: 'Fee schedule not found' });
+      }
+    }
+
+    const procedures = await Procedure.find(filter).sort({ category: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: procedures.map((procedure) => ({
+        ...procedure.toObject(),
+        fee: getScheduleFee(procedure, schedule),
+        taxRate: getTaxRate(procedure),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create procedure (Admin only)
+ * POST /api/procedures
+ */
+exports.createProcedure = async (req, res, next) => {
+  try {
+    const { code, name, category, defaultDuration, defaultFee, taxClass, aliases, materials } = req.body;
+
+    if (!code || !name || defaultFee === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Code, name and default fee are required',
+      });
+    }
+
+    if (await Procedure.exists({ code: code.trim().toUpperCase() })) {
+      return res.status(400).json({
+        success: false,
+        error: `Procedure code ${code.trim().toUpperCase()} is already in the catalog`,
+      });
+    }
+
+    const procedure = await Procedure.create({
+      code,
+      name,
+      category,
+      defaultDuration,
+      defaultFee,
+      taxClass,
+      aliases,
+      materials,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { procedure },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update procedure (Admin only)
+ * PUT /api/procedures/:id
+ */
+exports.updateProcedure = async (req, res, next) => {
+  try {
+    const procedure = await Procedure.findById(req.params.id);
+
+    if (!procedure) {
+      return res.status(404).json({
+        success: false,
+        error: 'Procedure not found',
+      });
+    }
+
+    const allowedUpdates = ['code', 'name', 'category', 'defaultDuration', 'defaultFee', 'taxClass', 'aliases', 'materials', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        procedure[field] = req.body[field];
+      }
+    });
+
+    await procedure.save();
+
+    res.json({
+      success: true,
+      data: { procedure },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete procedure (Admin only)
+ * DELETE /api/procedures/:id
+ */
+exports.deleteProcedure = async (req, res, next) => {
+  try {
+    const procedure = await Procedure.findById(req.params.id);
+
+    if (!procedure) {
+      return res.status(404).json({
+        success: false,
+        error: 'Procedure not found',
+      });
+    }
+
+    // Treatments keep pointing at the procedure for analytics - deactivate instead
+    const treatments = await Treatment.countDocuments({ procedureId: procedure._id });
+
+    if (treatments > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${procedure.name} has been used on ${treatments} treatment(s); deactivate it instead`,
+      });
+    }
+
+    await FeeSchedule.updateMany({}, { $pull: { fees: { procedureId: procedure._id } } });
+    await procedure.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Procedure deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
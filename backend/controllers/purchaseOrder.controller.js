@@ -0,0 +1,358 @@
+const PurchaseOrder = require('../models/PurchaseOrder');
+const InventoryItem = require('../models/InventoryItem');
+const Supplier = require('../models/Supplier');
+const { receiveStock } = require('../services/inventoryService');
+const { nextNumber } = require('../services/sequenceService');
+
+/**
+ * Turn the requested lines into purchase order lines, costed at the item's unit cost by default
+ * Returns { lines } or { error, status }
+ */
+const buildOrderLines = async (lines = []) => {
+  if (lines.length === 0) {
+    return { error: 'A purchase order needs at least one line', status: 400 };
+  }
+
+  const items = await InventoryItem.find({ _id: { $in: lines.map((line) => line.itemId) } });
+  const byId = new Map(items.map((item) => [item._id.toString(), item]));
+
+  const orderLines = [];
+  for (const line of lines) {
+    const item = byId.get(String(line.itemId));
+    if (!item) {
+      return { error: 'Inventory item not found', status: 404 };
+    }
+
+    orderLines.push({
+      itemId: item._id,
+      quantity: Number(line.quantity),
+      unitCost: line.unitCost !== undefined && line.unitCost !== '' ? Number(line.unitCost) : item.unitCost || 0,
+    });
+  }
+
+  return { lines: orderLines };
+};
+
+const populateOrder = (query) =>
+  query.populate('supplierId', 'name contactName phone email').populate('lines.itemId', 'name sku unit');
+
+/**
+ * Get purchase orders
+ * GET /api/purchase-orders
+ */
+exports.getPurchaseOrders = async (req, res, next) => {
+  try {
+    const { status, supplierId, page = 1, limit = 20 } = req.query;
+
+    const filter = {};
+    if (status) filter.status = status;
+    if (supplierId) filter.supplierId = supplierId;
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const orders = await populateOrder(PurchaseOrder.find(filter))
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await PurchaseOrder.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: orders,
+      total,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get purchase order by ID
+ * GET /api/purchase-orders/:id
+ */
+exports.getPurchaseOrderById = async (req, res, next) => {
+  try {
+    const order = await populateOrder(PurchaseOrder.findById(req.params.id));
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { order },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a draft purchase order
+ * POST /api/purchase-orders
+ */
+exports.createPurchaseOrder = async (req, res, next) => {
+  try {
+    const { supplierId, lines, expectedAt, notes } = req.body;
+
+    const supplier = await Supplier.findById(supplierId);
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: 'Supplier not found',
+      });
+    }
+
+    const built = await buildOrderLines(lines);
+    if (built.error) {
+      return res.status(built.status).json({ success: false, error: built.error });
+    }
+
+    const order = await PurchaseOrder.create({
+      orderNumber: await nextNumber('purchaseOrder'),
+      supplierId: supplier._id,
+      lines: built.lines,
+      expectedAt,
+      notes,
+      createdBy: req.user._id,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { order: await populateOrder(PurchaseOrder.findById(order._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a draft purchase order
+ * PUT /api/purchase-orders/:id
+ */
+exports.updatePurchaseOrder = async (req, res, next) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    if (order.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only draft purchase orders can be edited',
+      });
+    }
+
+    if (req.body.lines !== undefined) {
+      const built = await buildOrderLines(req.body.lines);
+      if (built.error) {
+        return res.status(built.status).json({ success: false, error: built.error });
+      }
+      order.lines = built.lines;
+    }
+
+    const allowedUpdates = ['supplierId', 'expectedAt', 'notes'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        order[field] = req.body[field];
+      }
+    });
+
+    await order.save();
+
+    res.json({
+      success: true,
+      data: { order: await populateOrder(PurchaseOrder.findById(order._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Mark a draft purchase order as sent to the supplier
+ * POST /api/purchase-orders/:id/order
+ */
+exports.placePurchaseOrder = async (req, res, next) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    if (order.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only draft purchase orders can be placed',
+      });
+    }
+
+    order.status = 'ordered';
+    order.orderedAt = new Date();
+    await order.save();
+
+    res.json({
+      success: true,
+      data: { order: await populateOrder(PurchaseOrder.findById(order._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Receive a delivery against a purchase order
+ * Each received line becomes a batch of its item; what is still outstanding can arrive later
+ * POST /api/purchase-orders/:id/receive
+ */
+exports.receivePurchaseOrder = async (req, res, next) => {
+  try {
+    const { lines = [] } = req.body;
+
+    const order = await PurchaseOrder.findById(req.params.id);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    if (!['ordered', 'partially_received'].includes(order.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Deliveries can only be received against placed purchase orders',
+      });
+    }
+
+    const deliveries = lines.filter((line) => Number(line.quantity) > 0);
+    if (deliveries.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Enter the quantity received for at least one line',
+      });
+    }
+
+    // Check every line before any stock moves
+    for (const delivery of deliveries) {
+      if (!order.lines.id(delivery.lineId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Received lines must be on this purchase order',
+        });
+      }
+    }
+
+    for (const delivery of deliveries) {
+      const line = order.lines.id(delivery.lineId);
+      const item = await InventoryItem.findById(line.itemId);
+      if (!item) continue;
+
+      await receiveStock(
+        item,
+        {
+          quantity: Number(delivery.quantity),
+          batchNumber: delivery.batchNumber,
+          expiryDate: delivery.expiryDate || undefined,
+          unitCost: line.unitCost,
+          supplierId: order.supplierId,
+          purchaseOrderId: order._id,
+        },
+        req.user._id
+      );
+      line.receivedQuantity += Number(delivery.quantity);
+    }
+
+    // Status follows the received quantities on validate
+    await order.save();
+
+    res.json({
+      success: true,
+      data: { order: await populateOrder(PurchaseOrder.findById(order._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel a purchase order nothing has been received against
+ * POST /api/purchase-orders/:id/cancel
+ */
+exports.cancelPurchaseOrder = async (req, res, next) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    if (!['draft', 'ordered'].includes(order.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Purchase orders with deliveries received cannot be cancelled',
+      });
+    }
+
+    order.status = 'cancelled';
+    await order.save();
+
+    res.json({
+      success: true,
+      data: { order: await populateOrder(PurchaseOrder.findById(order._id)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a draft purchase order (Admin only)
+ * DELETE /api/purchase-orders/:id
+ */
+exports.deletePurchaseOrder = async (req, res, next) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    if (order.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only draft purchase orders can be deleted',
+      });
+    }
+
+    await order.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Purchase order deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
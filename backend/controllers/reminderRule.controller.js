@@ -0,0 +1,104 @@
+const ReminderRule = require('../models/ReminderRule');
+
+/**
+ * Get reminder rules, longest before the appointment first
+ * GET /api/reminder-rules
+ */
+exports.getRules = async (req, res, next) => {
+  try {
+    const rules = await ReminderRule.find().sort({ offsetHours: -1, channel: 1 });
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create reminder rule
+ * POST /api/reminder-rules
+ */
+exports.createRule = async (req, res, next) => {
+  try {
+    const { name, offsetHours, channel, isActive } = req.body;
+
+    const rule = await ReminderRule.create({ name, offsetHours, channel, isActive });
+
+    res.status(201).json({
+      success: true,
+      data: { rule },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update reminder rule
+ * PUT /api/reminder-rules/:id
+ */
+exports.updateRule = async (req, res, next) => {
+  try {
+    const rule = await ReminderRule.findById(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reminder rule not found',
+      });
+    }
+
+    const allowedUpdates = ['name', 'offsetHours', 'channel', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        rule[field] = req.body[field];
+      }
+    });
+
+    await rule.save();
+
+    res.json({
+      success: true,
+      data: { rule },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete reminder rule
+ * DELETE /api/reminder-rules/:id
+ */
+exports.deleteRule = async (req, res, next) => {
+  try {
+    const rule = await ReminderRule.findById(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reminder rule not found',
+      });
+    }
+
+    // Deleting the last rule would bring the defaults back - deactivate instead
+    if ((await ReminderRule.countDocuments()) === 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'The last reminder rule cannot be deleted; deactivate it to stop reminders',
+      });
+    }
+
+    await rule.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Reminder rule deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,125 @@
+const Room = require('../models/Room');
+const Appointment = require('../models/Appointment');
+const { ACTIVE_STATUSES } = require('../services/schedulingService');
+
+/**
+ * Get rooms and equipment
+ * GET /api/rooms
+ */
+exports.getRooms = async (req, res, next) => {
+  try {
+    const { kind, includeInactive } = req.query;
+
+    const filter = {};
+    if (kind) filter.kind = kind;
+    if (includeInactive !== 'true') filter.isActive = true;
+
+    const rooms = await Room.find(filter).sort({ kind: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: rooms,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create room or equipment (Admin only)
+ * POST /api/rooms
+ */
+exports.createRoom = async (req, res, next) => {
+  try {
+    const { name, kind, description } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    const room = await Room.create({ name, kind, description });
+
+    res.status(201).json({
+      success: true,
+      data: { room },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update room or equipment (Admin only)
+ * PUT /api/rooms/:id
+ */
+exports.updateRoom = async (req, res, next) => {
+  try {
+    const room = await Room.findById(req.params.id);
+
+    if (!room) {
+      return res.status(404).json({
+        success: false,
+        error: 'Room not found',
+      });
+    }
+
+    const allowedUpdates = ['name', 'description', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        room[field] = req.body[field];
+      }
+    });
+
+    await room.save();
+
+    res.json({
+      success: true,
+      data: { room },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete room or equipment (Admin only)
+ * DELETE /api/rooms/:id
+ */
+exports.deleteRoom = async (req, res, next) => {
+  try {
+    const room = await Room.findById(req.params.id);
+
+    if (!room) {
+      return res.status(404).json({
+        success: false,
+        error: 'Room not found',
+      });
+    }
+
+    // Upcoming bookings would silently lose their room - deactivate instead
+    const upcoming = await Appointment.countDocuments({
+      $or: [{ roomId: room._id }, { equipmentIds: room._id }],
+      status: { $in: ACTIVE_STATUSES },
+      startTime: { $gte: new Date() },
+    });
+
+    if (upcoming > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${room.name} has ${upcoming} upcoming appointment(s); deactivate it instead`,
+      });
+    }
+
+    await room.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Room deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
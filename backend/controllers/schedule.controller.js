@@ -0,0 +1,152 @@
+const DoctorSchedule = require('../models/DoctorSchedule');
+const ClinicClosure = require('../models/ClinicClosure');
+const User = require('../models/User');
+const { getSchedule } = require('../services/schedulingService');
+
+/**
+ * Get a dentist's working schedule
+ * GET /api/schedules/doctors/:doctorId
+ */
+exports.getDoctorSchedule = async (req, res, next) => {
+  try {
+    const doctor = await User.findById(req.params.doctorId);
+    if (!doctor || doctor.role !== 'dentist') {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor not found',
+      });
+    }
+
+    const schedule = await getSchedule(doctor._id);
+
+    res.json({
+      success: true,
+      data: { schedule },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create or replace a dentist's working schedule
+ * PUT /api/schedules/doctors/:doctorId
+ */
+exports.updateDoctorSchedule = async (req, res, next) => {
+  try {
+    const { weeklyHours, leaves } = req.body;
+
+    // Dentists may only manage their own schedule
+    if (req.user.role === 'dentist' && req.params.doctorId !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    const doctor = await User.findById(req.params.doctorId);
+    if (!doctor || doctor.role !== 'dentist') {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor not found',
+      });
+    }
+
+    let schedule = await DoctorSchedule.findOne({ doctorId: doctor._id });
+    if (!schedule) {
+      schedule = new DoctorSchedule({ doctorId: doctor._id });
+    }
+
+    if (weeklyHours !== undefined) schedule.weeklyHours = weeklyHours;
+    if (leaves !== undefined) schedule.leaves = leaves;
+
+    await schedule.save();
+
+    res.json({
+      success: true,
+      data: { schedule },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get clinic closure days
+ * GET /api/schedules/closures
+ */
+exports.getClosures = async (req, res, next) => {
+  try {
+    const { from, to } = req.query;
+
+    const filter = {};
+    if (from || to) {
+      filter.date = {};
+      if (from) filter.date.$gte = new Date(from);
+      if (to) filter.date.$lte = new Date(to);
+    }
+
+    const closures = await ClinicClosure.find(filter).sort({ date: 1 });
+
+    res.json({
+      success: true,
+      data: closures,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add a clinic closure day (Admin only)
+ * POST /api/schedules/closures
+ */
+exports.createClosure = async (req, res, next) => {
+  try {
+    const { date, reason } = req.body;
+
+    if (!date) {
+      return res.status(400).json({
+        success: false,
+        error: 'Date is required',
+      });
+    }
+
+    const closure = await ClinicClosure.create({
+      date,
+      reason,
+      createdBy: req.user._id,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { closure },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a clinic closure day (Admin only)
+ * DELETE /api/schedules/closures/:id
+ */
+exports.deleteClosure = async (req, res, next) => {
+  try {
+    const closure = await ClinicClosure.findByIdAndDelete(req.params.id);
+
+    if (!closure) {
+      return res.status(404).json({
+        success: false,
+        error: 'Closure not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Closure removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
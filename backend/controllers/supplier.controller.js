@@ -0,0 +1,121 @@
+const Supplier = require('../models/Supplier');
+const PurchaseOrder = require('../models/PurchaseOrder');
+const InventoryItem = require('../models/InventoryItem');
+
+/**
+ * Get suppliers
+ * GET /api/suppliers
+ */
+exports.getSuppliers = async (req, res, next) => {
+  try {
+    const { includeInactive } = req.query;
+
+    const filter = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+
+    const suppliers = await Supplier.find(filter).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: suppliers,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create supplier
+ * POST /api/suppliers
+ */
+exports.createSupplier = async (req, res, next) => {
+  try {
+    const { name, contactName, phone, email, address, notes } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required',
+      });
+    }
+
+    const supplier = await Supplier.create({ name, contactName, phone, email, address, notes });
+
+    res.status(201).json({
+      success: true,
+      data: { supplier },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update supplier
+ * PUT /api/suppliers/:id
+ */
+exports.updateSupplier = async (req, res, next) => {
+  try {
+    const supplier = await Supplier.findById(req.params.id);
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: 'Supplier not found',
+      });
+    }
+
+    const allowedUpdates = ['name', 'contactName', 'phone', 'email', 'address', 'notes', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        supplier[field] = req.body[field];
+      }
+    });
+
+    await supplier.save();
+
+    res.json({
+      success: true,
+      data: { supplier },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete supplier (Admin only)
+ * DELETE /api/suppliers/:id
+ */
+exports.deleteSupplier = async (req, res, next) => {
+  try {
+    const supplier = await Supplier.findById(req.params.id);
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: 'Supplier not found',
+      });
+    }
+
+    // Purchase orders keep pointing at the supplier - deactivate instead
+    const orders = await PurchaseOrder.countDocuments({ supplierId: supplier._id });
+
+    if (orders > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${supplier.name} has ${orders} purchase order(s); deactivate it instead`,
+      });
+    }
+
+    await InventoryItem.updateMany({ supplierId: supplier._id }, { $unset: { supplierId: 1 } });
+    await supplier.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Supplier deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,12 @@
 const Treatment = require('../models/Treatment');
 const Patient = require('../models/Patient');
 const User = require('../models/User');
+const Procedure = require('../models/Procedure');
+const LabCase = require('../models/LabCase');
+const { normalizeToothNumber } = require('../utils/toothNumbering');
+const { recordTreatmentUsage, reverseTreatmentUsage } = require('../services/inventoryService');
+const { getTreatmentAlerts } = require('../services/medicalAlertService');
+const { getMissingConsents, missingConsentError } = require('../services/consentService');
 
 /**
  * Get all treatments with filters
@@ -89,7 +95,20 @@ exports.getTreatmentById = async (req, res, next) => {
  */
 exports.createTreatment = async (req, res, next) => {
   try {
-    let { patientId, doctorId, appointmentId, treatmentType, description, cost, disease, treatmentDate } = req.body;
+    let { patientId, doctorId, appointmentId, procedureId, treatmentType, description, cost, disease, treatmentDate, toothNumber, surfaces, status } = req.body;
+
+    // A catalog procedure names the treatment and prices it when no cost is given
+    if (procedureId) {
+      const procedure = await Procedure.findById(procedureId);
+      if (!procedure || !procedure.isActive) {
+        return res.status(404).json({
+          success: false,
+          error: 'Procedure not found',
+        });
+      }
+      treatmentType = procedure.name;
+      if (cost === undefined) cost = procedure.defaultFee;
+    }
 
     // Validate required fields
     if (!patientId || !treatmentType || cost === undefined || !treatmentDate) {
@@ -99,6 +118,17 @@ exports.createTreatment = async (req, res, next) => {
       });
     }
 
+    // Tooth is optional, but must be valid when given
+    if (toothNumber) {
+      toothNumber = normalizeToothNumber(toothNumber, req.body.numberingSystem);
+      if (!toothNumber) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid tooth number',
+        });
+      }
+    }
+
     // Auto-set doctorId to current user if dentist
     if (req.user.role === 'dentist') {
       doctorId = req.user._id;
@@ -127,18 +157,43 @@ exports.createTreatment = async (req, res, next) => {
       });
     }
 
+    // A procedure with a mandatory consent form can only be recorded as in progress until it is signed
+    if (status !== 'in_progress') {
+      const missing = await getMissingConsents({ patientId, procedureId });
+      if (missing.length > 0) {
+        return res.status(409).json(missingConsentError(missing));
+      }
+    }
+
+    // Allergies, medications and conditions that clash with the treatment must be acknowledged
+    const alerts = await getTreatmentAlerts(patient, { treatmentType, description, procedureId });
+    if (alerts.length > 0 && !req.body.acknowledgeAlerts) {
+      return res.status(409).json({
+        success: false,
+        error: `${alerts.length} medical alert(s) apply to this treatment`,
+        alerts,
+      });
+    }
+
     // Create treatment
     const treatment = await Treatment.create({
       patientId,
       doctorId,
       appointmentId,
+      procedureId: procedureId || undefined,
       treatmentType,
       description,
       cost,
       disease,
       treatmentDate,
+      toothNumber: toothNumber || undefined,
+      surfaces,
+      status,
     });
 
+    // The procedure's supplies come out of stock
+    await recordTreatmentUsage(treatment, req.user._id);
+
     const populatedTreatment = await Treatment.findById(treatment._id)
       .populate('patientId', 'name contact')
       .populate('doctorId', 'name');
@@ -176,15 +231,68 @@ exports.updateTreatment = async (req, res, next) => {
     }
 
     // Update fields
-    const allowedUpdates = ['treatmentType', 'description', 'cost', 'disease', 'treatmentDate'];
+    const allowedUpdates = ['treatmentType', 'description', 'cost', 'disease', 'treatmentDate', 'surfaces', 'status'];
     allowedUpdates.forEach(field => {
       if (req.body[field] !== undefined) {
         treatment[field] = req.body[field];
       }
     });
 
+    // Picking a catalog procedure renames the treatment; clearing it leaves the name as typed
+    const previousProcedureId = treatment.procedureId;
+    if (req.body.procedureId !== undefined) {
+      if (!req.body.procedureId) {
+        treatment.procedureId = undefined;
+      } else if (String(req.body.procedureId) !== String(treatment.procedureId)) {
+        const procedure = await Procedure.findById(req.body.procedureId);
+        if (!procedure || !procedure.isActive) {
+          return res.status(404).json({
+            success: false,
+            error: 'Procedure not found',
+          });
+        }
+        treatment.procedureId = procedure._id;
+        treatment.treatmentType = procedure.name;
+      }
+    }
+
+    // Tooth can be cleared with an empty value
+    if (req.body.toothNumber !== undefined) {
+      if (!req.body.toothNumber) {
+        treatment.toothNumber = undefined;
+        treatment.surfaces = [];
+      } else {
+        const toothNumber = normalizeToothNumber(req.body.toothNumber, req.body.numberingSystem);
+        if (!toothNumber) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid tooth number',
+          });
+        }
+        treatment.toothNumber = toothNumber;
+      }
+    }
+
+    // Completing the treatment, or moving a completed one to another procedure, needs its consent forms
+    if (treatment.status === 'completed' && (treatment.isModified('status') || treatment.isModified('procedureId'))) {
+      const missing = await getMissingConsents({
+        patientId: treatment.patientId,
+        procedureId: treatment.procedureId,
+        treatmentId: treatment._id,
+      });
+      if (missing.length > 0) {
+        return res.status(409).json(missingConsentError(missing));
+      }
+    }
+
     await treatment.save();
 
+    // A different procedure uses different supplies
+    if (String(previousProcedureId) !== String(treatment.procedureId)) {
+      await reverseTreatmentUsage(treatment, req.user._id);
+      await recordTreatmentUsage(treatment, req.user._id);
+    }
+
     const updatedTreatment = await Treatment.findById(treatment._id)
       .populate('patientId', 'name contact')
       .populate('doctorId', 'name');
@@ -204,7 +312,7 @@ exports.updateTreatment = async (req, res, next) => {
  */
 exports.deleteTreatment = async (req, res, next) => {
   try {
-    const treatment = await Treatment.findByIdAndDelete(req.params.id);
+    const treatment = await Treatment.findById(req.params.id);
 
     if (!treatment) {
       return res.status(404).json({
@@ -213,6 +321,20 @@ exports.deleteTreatment = async (req, res, next) => {
       });
     }
 
+    // Lab work is tracked against the treatment
+    const labCases = await LabCase.countDocuments({ treatmentId: treatment._id });
+    if (labCases > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `This treatment has ${labCases} lab case(s); delete them first`,
+      });
+    }
+
+    await treatment.deleteOne();
+
+    // Supplies go back into stock
+    await reverseTreatmentUsage(treatment, req.user._id);
+
     res.json({
       success: true,
       message: 'Treatment deleted successfully',
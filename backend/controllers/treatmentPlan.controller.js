@@ -0,0 +1,504 @@
+const TreatmentPlan = require('../models/TreatmentPlan');
+const Treatment = require('../models/Treatment');
+const Appointment = require('../models/Appointment');
+const Patient = require('../models/Patient');
+const User = require('../models/User');
+const Procedure = require('../models/Procedure');
+const { checkConflict, checkAvailability } = require('../services/schedulingService');
+const { generateTreatmentPlanPDF } = require('../services/pdfService');
+const { getTreatmentAlerts } = require('../services/medicalAlertService');
+const { getMissingConsents, missingConsentError } = require('../services/consentService');
+const { recordTreatmentUsage } = require('../services/inventoryService');
+
+const populatePlan = (query) => query
+  .populate('patientId', 'name contact email')
+  .populate('doctorId', 'name');
+
+/**
+ * Check the catalog procedures picked for plan items
+ * Returns an error message, or null when they all exist
+ */
+const checkPlanProcedures = async (phases) => {
+  const procedureIds = phases.flatMap((phase) => (phase.items || []).map((item) => item.procedureId)).filter(Boolean);
+  if (procedureIds.length === 0) return null;
+
+  const found = await Procedure.countDocuments({ _id: { $in: procedureIds } });
+  return found === new Set(procedureIds.map(String)).size ? null : 'Procedure not found';
+};
+
+/**
+ * Get treatment plans with filters
+ * GET /api/treatment-plans
+ */
+exports.getTreatmentPlans = async (req, res, next) => {
+  try {
+    const { patientId, doctorId, status, page = 1, limit = 20 } = req.query;
+
+    const filter = {};
+
+    // Role-based filtering - dentists only see their own plans
+    if (req.user.role === 'dentist') {
+      filter.doctorId = req.user._id;
+    } else if (doctorId) {
+      filter.doctorId = doctorId;
+    }
+
+    if (patientId) filter.patientId = patientId;
+    if (status) filter.status = status;
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const plans = await populatePlan(TreatmentPlan.find(filter))
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await TreatmentPlan.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: plans,
+      total,
+      page: parseInt(page),
+      limit: parseInt(limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get treatment plan by ID
+ * GET /api/treatment-plans/:id
+ */
+exports.getTreatmentPlanById = async (req, res, next) => {
+  try {
+    const plan = await populatePlan(TreatmentPlan.findById(req.params.id));
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Treatment plan not found',
+      });
+    }
+
+    if (req.user.role === 'dentist' && plan.doctorId._id.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { plan },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create treatment plan
+ * POST /api/treatment-plans
+ */
+exports.createTreatmentPlan = async (req, res, next) => {
+  try {
+    let { patientId, doctorId, title, phases, validUntil, notes } = req.body;
+
+    if (!patientId || !title || !phases || phases.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Patient, title, and at least one phase are required',
+      });
+    }
+
+    // Auto-set doctorId to current user if dentist
+    if (req.user.role === 'dentist') {
+      doctorId = req.user._id;
+    } else if (!doctorId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Doctor is required',
+      });
+    }
+
+    const patient = await Patient.findById(patientId);
+    if (!patient) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found',
+      });
+    }
+
+    const doctor = await User.findById(doctorId);
+    if (!doctor || doctor.role !== 'dentist') {
+      return res.status(404).json({
+        success: false,
+        error: 'Doctor not found',
+      });
+    }
+
+    const procedureError = await checkPlanProcedures(phases);
+    if (procedureError) {
+      return res.status(404).json({
+        success: false,
+        error: procedureError,
+      });
+    }
+
+    const plan = await TreatmentPlan.create({
+      patientId,
+      doctorId,
+      title,
+      phases,
+      validUntil,
+      notes,
+      createdBy: req.user._id,
+    });
+
+    const populatedPlan = await populatePlan(TreatmentPlan.findById(plan._id));
+
+    res.status(201).json({
+      success: true,
+      data: { plan: populatedPlan },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update treatment plan
+ * PUT /api/treatment-plans/:id
+ */
+exports.updateTreatmentPlan = async (req, res, next) => {
+  try {
+    const plan = await TreatmentPlan.findById(req.params.id);
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Treatment plan not found',
+      });
+    }
+
+    if (req.user.role === 'dentist' && plan.doctorId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    // Once accepted, the quoted phases are locked
+    if (req.body.phases !== undefined) {
+      if (!['proposed', 'declined'].includes(plan.status)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Phases can only be changed before the plan is accepted',
+        });
+      }
+      const procedureError = await checkPlanProcedures(req.body.phases);
+      if (procedureError) {
+        return res.status(404).json({
+          success: false,
+          error: procedureError,
+        });
+      }
+      plan.phases = req.body.phases;
+      plan.status = 'proposed';
+    }
+
+    const allowedUpdates = ['title', 'validUntil', 'notes'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        plan[field] = req.body[field];
+      }
+    });
+
+    await plan.save();
+
+    const updatedPlan = await populatePlan(TreatmentPlan.findById(plan._id));
+
+    res.json({
+      success: true,
+      data: { plan: updatedPlan },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record patient acceptance
+ * POST /api/treatment-plans/:id/accept
+ */
+exports.acceptTreatmentPlan = async (req, res, next) => {
+  try {
+    const plan = await TreatmentPlan.findById(req.params.id);
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Treatment plan not found',
+      });
+    }
+
+    if (plan.status !== 'proposed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only proposed plans can be accepted',
+      });
+    }
+
+    plan.status = 'accepted';
+    plan.acceptedAt = new Date();
+    await plan.save();
+
+    const updatedPlan = await populatePlan(TreatmentPlan.findById(plan._id));
+
+    res.json({
+      success: true,
+      data: { plan: updatedPlan },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record patient decline
+ * POST /api/treatment-plans/:id/decline
+ */
+exports.declineTreatmentPlan = async (req, res, next) => {
+  try {
+    const plan = await TreatmentPlan.findById(req.params.id);
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Treatment plan not found',
+      });
+    }
+
+    if (plan.status !== 'proposed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only proposed plans can be declined',
+      });
+    }
+
+    plan.status = 'declined';
+    plan.declinedAt = new Date();
+    plan.declineReason = req.body.reason;
+    await plan.save();
+
+    const updatedPlan = await populatePlan(TreatmentPlan.findById(plan._id));
+
+    res.json({
+      success: true,
+      data: { plan: updatedPlan },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Convert a planned item into an appointment and/or treatment
+ * POST /api/treatment-plans/:id/items/:itemId/convert
+ */
+exports.convertPlanItem = async (req, res, next) => {
+  try {
+    const { appointment: appointmentData, recordTreatment, treatmentDate, acknowledgeAlerts } = req.body;
+
+    if (!appointmentData && !recordTreatment) {
+      return res.status(400).json({
+        success: false,
+        error: 'Provide an appointment and/or request a treatment record',
+      });
+    }
+
+    const plan = await TreatmentPlan.findById(req.params.id);
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Treatment plan not found',
+      });
+    }
+
+    if (req.user.role === 'dentist' && plan.doctorId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    if (!['accepted', 'in_progress'].includes(plan.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Plan must be accepted before items can be converted',
+      });
+    }
+
+    const item = plan.findItem(req.params.itemId);
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Plan item not found',
+      });
+    }
+
+    if (['completed', 'cancelled'].includes(item.status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Item is already ${item.status}`,
+      });
+    }
+
+    // Recording the item completes the treatment, so its consent forms must already be signed
+    if (recordTreatment) {
+      const missing = await getMissingConsents({ patientId: plan.patientId, procedureId: item.procedureId });
+      if (missing.length > 0) {
+        return res.status(409).json(missingConsentError(missing));
+      }
+    }
+
+    // Checked before anything is booked, so a declined warning leaves the plan as it was
+    if (recordTreatment && !acknowledgeAlerts) {
+      const patient = await Patient.findById(plan.patientId);
+      const alerts = patient ? await getTreatmentAlerts(patient, item) : [];
+      if (alerts.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `${alerts.length} medical alert(s) apply to this treatment`,
+          alerts,
+        });
+      }
+    }
+
+    let appointment = null;
+    if (appointmentData) {
+      const { startTime, endTime } = appointmentData;
+      if (!startTime || !endTime) {
+        return res.status(400).json({
+          success: false,
+          error: 'Appointment start time and end time are required',
+        });
+      }
+
+      const unavailable = await checkAvailability(plan.doctorId, startTime, endTime);
+      if (unavailable) {
+        return res.status(409).json({
+          success: false,
+          error: unavailable,
+        });
+      }
+
+      const conflict = await checkConflict(plan.doctorId, startTime, endTime);
+      if (conflict) {
+        return res.status(409).json({
+          success: false,
+          error: 'Doctor has conflicting appointment at this time',
+        });
+      }
+
+      appointment = await Appointment.create({
+        patientId: plan.patientId,
+        doctorId: plan.doctorId,
+        startTime,
+        endTime,
+        notes: `${item.treatmentType} (treatment plan: ${plan.title})`,
+      });
+
+      item.appointmentId = appointment._id;
+      item.status = 'scheduled';
+    }
+
+    let treatment = null;
+    if (recordTreatment) {
+      treatment = await Treatment.create({
+        patientId: plan.patientId,
+        doctorId: plan.doctorId,
+        appointmentId: appointment ? appointment._id : item.appointmentId,
+        procedureId: item.procedureId,
+        treatmentType: item.treatmentType,
+        description: item.description,
+        cost: item.estimatedCost,
+        toothNumber: item.toothNumber,
+        surfaces: item.surfaces,
+        treatmentDate: treatmentDate || (appointment ? appointment.startTime : new Date()),
+      });
+
+      item.treatmentId = treatment._id;
+      item.status = 'completed';
+
+      await recordTreatmentUsage(treatment, req.user._id);
+    }
+
+    // Advance the plan as its items are carried out
+    const items = plan.phases.flatMap((phase) => phase.items);
+    const allDone = items.every((i) => ['completed', 'cancelled'].includes(i.status));
+    plan.status = allDone ? 'completed' : 'in_progress';
+
+    await plan.save();
+
+    const updatedPlan = await populatePlan(TreatmentPlan.findById(plan._id));
+
+    res.json({
+      success: true,
+      data: { plan: updatedPlan, appointment, treatment },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete treatment plan (Admin only)
+ * DELETE /api/treatment-plans/:id
+ */
+exports.deleteTreatmentPlan = async (req, res, next) => {
+  try {
+    const plan = await TreatmentPlan.findByIdAndDelete(req.params.id);
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Treatment plan not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Treatment plan deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download treatment plan quotation PDF
+ * GET /api/treatment-plans/:id/pdf
+ */
+exports.downloadTreatmentPlanPDF = async (req, res, next) => {
+  try {
+    const plan = await TreatmentPlan.findById(req.params.id)
+      .populate('patientId')
+      .populate('doctorId', 'name');
+
+    if (!plan) {
+      return res.status(404).json({ success: false, error: 'Treatment plan not found' });
+    }
+
+    if (req.user.role === 'dentist' && plan.doctorId._id.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    return generateTreatmentPlanPDF(plan, res);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -74,7 +74,7 @@ exports.getUserById = async (req, res, next) => {
  */
 exports.updateUser = async (req, res, next) => {
   try {
-    const { name, email, role, phone } = req.body;
+    const { name, email, role, phone, registrationNumber } = req.body;
 
     const user = await User.findById(req.params.id);
 
@@ -101,6 +101,7 @@ exports.updateUser = async (req, res, next) => {
     if (name) user.name = name;
     if (role) user.role = role;
     if (phone !== undefined) user.phone = phone;
+    if (registrationNumber !== undefined) user.registrationNumber = registrationNumber;
 
     await user.save();
 
@@ -113,6 +114,7 @@ exports.updateUser = async (req, res, next) => {
           name: user.name,
           role: user.role,
           phone: user.phone,
+          registrationNumber: user.registrationNumber,
         },
       },
     });
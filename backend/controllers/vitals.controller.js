@@ -0,0 +1,262 @@
+const VitalsRecord = require('../models/VitalsRecord');
+const { VITAL_FIELDS } = require('../models/VitalsRecord');
+const Appointment = require('../models/Appointment');
+const { checkPatientAccess } = require('../utils/patientAccess');
+const { parseBloodPressure, withFlags, syncLatestVitals } = require('../services/vitalsService');
+
+const populateVitals = (query) => query.populate('recordedBy', 'name').populate('appointmentId', 'startTime');
+
+const canChange = (record, user) => user.role === 'admin' || record.recordedBy?.toString() === user._id.toString();
+
+/**
+ * Pick the measurements out of a request
+ * Blood pressure can come as systolic and diastolic or as a single "120/80" reading
+ * Returns { values } or { error, status }
+ */
+const buildMeasurements = (body) => {
+  const values = {};
+
+  VITAL_FIELDS.forEach((field) => {
+    if (body[field] === undefined) return;
+    values[field] = body[field] === null || body[field] === '' ? null : Number(body[field]);
+  });
+
+  if (body.bloodPressure) {
+    const reading = parseBloodPressure(body.bloodPressure);
+    if (!reading) {
+      return { error: 'Blood pressure must be systolic/diastolic, e.g. 120/80', status: 400 };
+    }
+    Object.assign(values, reading);
+  }
+
+  if (Object.values(values).some((value) => Number.isNaN(value))) {
+    return { error: 'Measurements must be numbers', status: 400 };
+  }
+
+  return { values };
+};
+
+/**
+ * Check a record's blood pressure is a whole reading, with systolic above diastolic
+ */
+const validateBloodPressure = (record) => {
+  const hasSystolic = record.systolic !== undefined && record.systolic !== null;
+  const hasDiastolic = record.diastolic !== undefined && record.diastolic !== null;
+
+  if (hasSystolic !== hasDiastolic) {
+    return 'Blood pressure needs both systolic and diastolic values';
+  }
+  if (hasSystolic && record.diastolic >= record.systolic) {
+    return 'Systolic pressure must be higher than diastolic';
+  }
+  return null;
+};
+
+const hasMeasurement = (record) => VITAL_FIELDS.some((field) => record[field] !== undefined && record[field] !== null);
+
+/**
+ * Get a patient's vitals history, latest first, with out-of-range flags
+ * GET /api/patients/:id/vitals
+ */
+exports.getVitals = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const filter = { patientId: req.params.id };
+    if (req.query.startDate || req.query.endDate) {
+      filter.recordedAt = {};
+      if (req.query.startDate) filter.recordedAt.$gte = new Date(req.query.startDate);
+      if (req.query.endDate) filter.recordedAt.$lte = new Date(req.query.endDate);
+    }
+
+    const records = await populateVitals(VitalsRecord.find(filter)).sort({ recordedAt: -1, createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: records.map(withFlags),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record a set of vitals
+ * POST /api/patients/:id/vitals
+ */
+exports.createVitals = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const measurements = buildMeasurements(req.body);
+    if (measurements.error) {
+      return res.status(measurements.status).json({ success: false, error: measurements.error });
+    }
+
+    const { appointmentId, recordedAt, bloodSugarContext, notes } = req.body;
+
+    if (appointmentId && !(await Appointment.exists({ _id: appointmentId, patientId: req.params.id }))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Appointment not found for this patient',
+      });
+    }
+
+    const record = new VitalsRecord({
+      patientId: req.params.id,
+      appointmentId: appointmentId || undefined,
+      recordedBy: req.user._id,
+      recordedAt: recordedAt || undefined,
+      bloodSugarContext: bloodSugarContext || undefined,
+      notes,
+      ...measurements.values,
+    });
+
+    if (!hasMeasurement(record)) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one measurement is required',
+      });
+    }
+
+    const bloodPressureError = validateBloodPressure(record);
+    if (bloodPressureError) {
+      return res.status(400).json({ success: false, error: bloodPressureError });
+    }
+
+    await record.save();
+    await syncLatestVitals(req.params.id);
+
+    res.status(201).json({
+      success: true,
+      data: { vitals: withFlags(await populateVitals(VitalsRecord.findById(record._id))) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Correct a vitals record
+ * Only whoever recorded it, or an admin, can change it
+ * PUT /api/patients/:id/vitals/:vitalsId
+ */
+exports.updateVitals = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const record = await VitalsRecord.findOne({ _id: req.params.vitalsId, patientId: req.params.id });
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vitals record not found',
+      });
+    }
+
+    if (!canChange(record, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the staff member who recorded these vitals can change them',
+      });
+    }
+
+    const measurements = buildMeasurements(req.body);
+    if (measurements.error) {
+      return res.status(measurements.status).json({ success: false, error: measurements.error });
+    }
+
+    Object.entries(measurements.values).forEach(([field, value]) => {
+      record[field] = value === null ? undefined : value;
+    });
+
+    const allowedUpdates = ['recordedAt', 'bloodSugarContext', 'notes'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        record[field] = req.body[field];
+      }
+    });
+
+    if (!hasMeasurement(record)) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one measurement is required',
+      });
+    }
+
+    const bloodPressureError = validateBloodPressure(record);
+    if (bloodPressureError) {
+      return res.status(400).json({ success: false, error: bloodPressureError });
+    }
+
+    await record.save();
+    await syncLatestVitals(req.params.id);
+
+    res.json({
+      success: true,
+      data: { vitals: withFlags(await populateVitals(VitalsRecord.findById(record._id))) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a vitals record entered by mistake
+ * DELETE /api/patients/:id/vitals/:vitalsId
+ */
+exports.deleteVitals = async (req, res, next) => {
+  try {
+    const accessError = await checkPatientAccess(req.params.id, req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+    }
+
+    const record = await VitalsRecord.findOne({ _id: req.params.vitalsId, patientId: req.params.id });
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vitals record not found',
+      });
+    }
+
+    if (!canChange(record, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the staff member who recorded these vitals can delete them',
+      });
+    }
+
+    await record.deleteOne();
+    await syncLatestVitals(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Vitals record deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
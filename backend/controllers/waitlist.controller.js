@@ -0,0 +1,382 @@
+const WaitlistEntry = require('../models/WaitlistEntry');
+const WaitlistOffer = require('../models/WaitlistOffer');
+const Appointment = require('../models/Appointment');
+const Patient = require('../models/Patient');
+const User = require('../models/User');
+const { checkConflict } = require('../services/schedulingService');
+const { URGENCY_RANK } = require('../services/waitlistService');
+
+/**
+ * Load a pending offer by its token, expiring it if its time has passed
+ */
+const findOpenOffer = async (token) => {
+  const offer = await WaitlistOffer.findOne({ token })
+    .populate('patientId', 'name')
+    .populate('doctorId', 'name');
+
+  if (offer && offer.status === 'pending' && offer.expiresAt <= new Date()) {
+    offer.status = 'expired';
+    await offer.save();
+  }
+
+  return offer;
+};
+
+/**
+ * Only expose what the patient needs to see on the public offer page
+ */
+const toPublicOffer = (offer) => ({
+  patientName: offer.patientId.name,
+  doctorName: offer.doctorId.name,
+  startTime: offer.startTime,
+  endTime: offer.endTime,
+  status: offer.status,
+  expiresAt: offer.expiresAt,
+});
+
+/**
+ * Get waitlist entries, most urgent first
+ * GET /api/waitlist
+ */
+exports.getWaitlist = async (req, res, next) => {
+  try {
+    const { status = 'waiting', doctorId, urgency } = req.query;
+
+    const filter = {};
+    if (status !== 'all') filter.status = status;
+    if (doctorId) filter.preferredDoctorId = doctorId;
+    if (urgency) filter.urgency = urgency;
+
+    const entries = await WaitlistEntry.find(filter)
+      .populate('patientId', 'name contact email')
+      .populate('preferredDoctorId', 'name')
+      .populate('appointmentId', 'startTime endTime')
+      .sort({ createdAt: 1 });
+
+    entries.sort((a, b) => URGENCY_RANK[a.urgency] - URGENCY_RANK[b.urgency]);
+
+    res.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add a patient to the waitlist
+ * POST /api/waitlist
+ */
+exports.createEntry = async (req, res, next) => {
+  try {
+    const { patientId, preferredDoctorId, preferredWindows, urgency, duration, notes } = req.body;
+
+    if (!patientId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Patient is required',
+      });
+    }
+
+    const patient = await Patient.findById(patientId);
+    if (!patient) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found',
+      });
+    }
+
+    if (preferredDoctorId) {
+      const doctor = await User.findById(preferredDoctorId);
+      if (!doctor || doctor.role !== 'dentist') {
+        return res.status(404).json({
+          success: false,
+          error: 'Doctor not found',
+        });
+      }
+    }
+
+    const existing = await WaitlistEntry.findOne({ patientId, status: 'waiting' });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: 'Patient is already on the waitlist',
+      });
+    }
+
+    const entry = await WaitlistEntry.create({
+      patientId,
+      preferredDoctorId: preferredDoctorId || undefined,
+      preferredWindows,
+      urgency,
+      duration,
+      notes,
+      createdBy: req.user._id,
+    });
+
+    const populatedEntry = await WaitlistEntry.findById(entry._id)
+      .populate('patientId', 'name contact email')
+      .populate('preferredDoctorId', 'name');
+
+    res.status(201).json({
+      success: true,
+      data: { entry: populatedEntry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a waitlist entry
+ * PUT /api/waitlist/:id
+ */
+exports.updateEntry = async (req, res, next) => {
+  try {
+    const entry = await WaitlistEntry.findById(req.params.id);
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Waitlist entry not found',
+      });
+    }
+
+    if (entry.status !== 'waiting') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only waiting entries can be edited',
+      });
+    }
+
+    if (req.body.preferredDoctorId) {
+      const doctor = await User.findById(req.body.preferredDoctorId);
+      if (!doctor || doctor.role !== 'dentist') {
+        return res.status(404).json({
+          success: false,
+          error: 'Doctor not found',
+        });
+      }
+    }
+
+    const allowedUpdates = ['preferredWindows', 'urgency', 'duration', 'notes'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        entry[field] = req.body[field];
+      }
+    });
+    // An empty value means "any dentist"
+    if (req.body.preferredDoctorId !== undefined) {
+      entry.preferredDoctorId = req.body.preferredDoctorId || undefined;
+    }
+
+    await entry.save();
+
+    const populatedEntry = await WaitlistEntry.findById(entry._id)
+      .populate('patientId', 'name contact email')
+      .populate('preferredDoctorId', 'name');
+
+    res.json({
+      success: true,
+      data: { entry: populatedEntry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a patient from the waitlist and withdraw their open offers
+ * DELETE /api/waitlist/:id
+ */
+exports.removeEntry = async (req, res, next) => {
+  try {
+    const entry = await WaitlistEntry.findById(req.params.id);
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Waitlist entry not found',
+      });
+    }
+
+    entry.status = 'removed';
+    await entry.save();
+
+    await WaitlistOffer.updateMany(
+      { waitlistEntryId: entry._id, status: 'pending' },
+      { status: 'withdrawn' }
+    );
+
+    res.json({
+      success: true,
+      message: 'Patient removed from waitlist',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get offers sent for a waitlist entry
+ * GET /api/waitlist/:id/offers
+ */
+exports.getEntryOffers = async (req, res, next) => {
+  try {
+    const offers = await WaitlistOffer.find({ waitlistEntryId: req.params.id })
+      .select('-token')
+      .populate('doctorId', 'name')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: offers,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * View a slot offer from the link in the offer email (public)
+ * GET /api/waitlist/offers/:token
+ */
+exports.getOffer = async (req, res, next) => {
+  try {
+    const offer = await findOpenOffer(req.params.token);
+
+    if (!offer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Offer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { offer: toPublicOffer(offer) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accept a slot offer - the first patient to accept gets the booking (public)
+ * POST /api/waitlist/offers/:token/accept
+ */
+exports.acceptOffer = async (req, res, next) => {
+  try {
+    const offer = await findOpenOffer(req.params.token);
+
+    if (!offer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Offer not found',
+      });
+    }
+
+    if (offer.status !== 'pending') {
+      return res.status(409).json({
+        success: false,
+        error: offer.status === 'expired' ? 'This offer has expired' : 'This offer is no longer available',
+      });
+    }
+
+    // Claim the slot; the unique index on accepted offers rejects anyone who got there first
+    offer.status = 'accepted';
+    offer.respondedAt = new Date();
+    try {
+      await offer.save();
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+      await WaitlistOffer.updateOne({ _id: offer._id }, { status: 'taken' });
+      return res.status(409).json({
+        success: false,
+        error: 'Sorry, this slot has already been taken',
+      });
+    }
+
+    // The slot may have been rebooked directly by the front desk in the meantime
+    const resources = { roomId: offer.roomId, equipmentIds: offer.equipmentIds };
+    const conflict = await checkConflict(offer.doctorId._id, offer.startTime, offer.endTime, null, resources);
+    if (conflict) {
+      offer.status = 'taken';
+      await offer.save();
+      return res.status(409).json({
+        success: false,
+        error: 'Sorry, this slot has already been taken',
+      });
+    }
+
+    const appointment = await Appointment.create({
+      patientId: offer.patientId._id,
+      doctorId: offer.doctorId._id,
+      startTime: offer.startTime,
+      endTime: offer.endTime,
+      ...resources,
+      notes: 'Booked from waitlist',
+    });
+
+    offer.appointmentId = appointment._id;
+    await offer.save();
+
+    await WaitlistEntry.findByIdAndUpdate(offer.waitlistEntryId, {
+      status: 'booked',
+      appointmentId: appointment._id,
+    });
+
+    // Close the other offers for this slot and the patient's other open offers
+    await WaitlistOffer.updateMany(
+      { sourceAppointmentId: offer.sourceAppointmentId, status: 'pending' },
+      { status: 'taken' }
+    );
+    await WaitlistOffer.updateMany(
+      { waitlistEntryId: offer.waitlistEntryId, status: 'pending' },
+      { status: 'withdrawn' }
+    );
+
+    res.json({
+      success: true,
+      data: { offer: toPublicOffer(offer) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Decline a slot offer (public)
+ * POST /api/waitlist/offers/:token/decline
+ */
+exports.declineOffer = async (req, res, next) => {
+  try {
+    const offer = await findOpenOffer(req.params.token);
+
+    if (!offer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Offer not found',
+      });
+    }
+
+    if (offer.status !== 'pending') {
+      return res.status(409).json({
+        success: false,
+        error: 'This offer is no longer available',
+      });
+    }
+
+    offer.status = 'declined';
+    offer.respondedAt = new Date();
+    await offer.save();
+
+    res.json({
+      success: true,
+      data: { offer: toPublicOffer(offer) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,28 @@
+const cron = require('node-cron');
+const { sendDueDunning } = require('../services/receivablesService');
+
+const SCHEDULE = process.env.DUNNING_CRON_SCHEDULE || '0 9 * * *';
+
+/**
+ * Cron job to queue payment reminders for overdue invoices
+ * Reminders escalate at DUNNING_STAGE_DAYS past the due date, the last one being a final notice
+ * The notification worker delivers them
+ */
+const startDunningCron = () => {
+  cron.schedule(SCHEDULE, async () => {
+    try {
+      console.log('Running payment reminder cron job...');
+
+      const { queued } = await sendDueDunning();
+      console.log(`Queued ${queued} payment reminders`);
+
+      console.log('Payment reminder cron job completed');
+    } catch (error) {
+      console.error('Payment reminder cron job error:', error);
+    }
+  });
+
+  console.log(`Payment reminder cron job started (${SCHEDULE})`);
+};
+
+module.exports = startDunningCron;
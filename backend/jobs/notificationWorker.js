@@ -0,0 +1,36 @@
+const cron = require('node-cron');
+const { processOutbox } = require('../services/notificationService');
+
+const SCHEDULE = process.env.NOTIFICATION_WORKER_SCHEDULE || '* * * * *';
+
+/**
+ * Cron job that delivers queued notifications and retries failed attempts
+ * Runs every minute
+ */
+const startNotificationWorker = () => {
+  let running = false;
+
+  cron.schedule(SCHEDULE, async () => {
+    // A slow SMTP server can make a run outlast the interval
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const { sent, retrying, failed } = await processOutbox();
+
+      if (sent || retrying || failed) {
+        console.log(`Notification worker: ${sent} sent, ${retrying} retrying, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('Notification worker error:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  console.log(`Notification worker started (${SCHEDULE})`);
+};
+
+module.exports = startNotificationWorker;
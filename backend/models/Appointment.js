@@ -1,4 +1,36 @@
 const mongoose = require('mongoose');
+const { FREQUENCIES, WEEKDAYS } = require('../services/recurrenceService');
+
+const recurrenceSchema = new mongoose.Schema(
+  {
+    frequency: {
+      type: String,
+      enum: {
+        values: FREQUENCIES,
+        message: '{VALUE} is not a valid frequency',
+      },
+    },
+    interval: {
+      type: Number,
+      default: 1,
+      min: [1, 'Interval must be at least 1'],
+    },
+    count: {
+      type: Number,
+    },
+    until: {
+      type: Date,
+    },
+    byWeekday: [{
+      type: String,
+      enum: {
+        values: WEEKDAYS,
+        message: '{VALUE} is not a valid weekday',
+      },
+    }],
+  },
+  { _id: false }
+);
 
 const appointmentSchema = new mongoose.Schema(
   {
@@ -24,11 +56,28 @@ const appointmentSchema = new mongoose.Schema(
       type: String,
       required: true,
       enum: {
-        values: ['scheduled', 'completed', 'cancelled', 'rescheduled'],
+        values: ['scheduled', 'confirmed', 'completed', 'cancelled', 'rescheduled'],
         message: '{VALUE} is not a valid status',
       },
       default: 'scheduled',
     },
+    roomId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Room',
+    },
+    equipmentIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Room',
+    }],
+    treatmentType: {
+      type: String,
+      trim: true,
+    },
+    // Set when this is the fitting for work coming back from a dental lab
+    labCaseId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'LabCase',
+    },
     notes: {
       type: String,
     },
@@ -36,6 +85,17 @@ const appointmentSchema = new mongoose.Schema(
       type: Boolean,
       default: false,
     },
+    // Set when the patient asks to move the appointment from an email link
+    rescheduleRequested: {
+      type: Boolean,
+      default: false,
+    },
+    seriesId: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
+    recurrence: {
+      type: recurrenceSchema,
+    },
   },
   {
     timestamps: true,
@@ -47,6 +107,10 @@ appointmentSchema.index({ doctorId: 1, startTime: 1 });
 appointmentSchema.index({ patientId: 1 });
 appointmentSchema.index({ startTime: 1 });
 appointmentSchema.index({ status: 1 });
+appointmentSchema.index({ seriesId: 1, startTime: 1 });
+appointmentSchema.index({ roomId: 1, startTime: 1 });
+appointmentSchema.index({ equipmentIds: 1, startTime: 1 });
+appointmentSchema.index({ labCaseId: 1 }, { sparse: true });
 
 // Validation: endTime must be after startTime
 appointmentSchema.pre('validate', function (next) {
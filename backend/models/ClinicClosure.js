@@ -0,0 +1,37 @@
+const mongoose = require('mongoose');
+
+const clinicClosureSchema = new mongoose.Schema(
+  {
+    date: {
+      type: Date,
+      required: [true, 'Closure date is required'],
+      unique: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Store closures at UTC midnight of their calendar day so one date maps to one record
+// whatever the server's timezone
+clinicClosureSchema.pre('validate', function (next) {
+  if (this.date) {
+    const startOfDay = new Date(this.date);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    this.date = startOfDay;
+  }
+  next();
+});
+
+const ClinicClosure = mongoose.model('ClinicClosure', clinicClosureSchema);
+
+module.exports = ClinicClosure;
@@ -0,0 +1,116 @@
+const mongoose = require('mongoose');
+
+const SOAP_FIELDS = ['subjective', 'objective', 'assessment', 'plan'];
+
+// The note's content as it stood after each save, oldest first
+const noteVersionSchema = new mongoose.Schema(
+  {
+    version: {
+      type: Number,
+      required: true,
+    },
+    subjective: String,
+    objective: String,
+    assessment: String,
+    plan: String,
+    editedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    editedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+// Added after signing; a signed note's own text never changes
+const addendumSchema = new mongoose.Schema({
+  text: {
+    type: String,
+    required: [true, 'Addendum text is required'],
+    trim: true,
+  },
+  authorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const clinicalNoteSchema = new mongoose.Schema(
+  {
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    appointmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+    treatmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Treatment',
+    },
+    authorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Author is required'],
+    },
+    visitDate: {
+      type: Date,
+      required: [true, 'Visit date is required'],
+      default: Date.now,
+    },
+    subjective: {
+      type: String,
+      trim: true,
+    },
+    objective: {
+      type: String,
+      trim: true,
+    },
+    assessment: {
+      type: String,
+      trim: true,
+    },
+    plan: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['draft', 'signed'],
+        message: '{VALUE} is not a valid note status',
+      },
+      default: 'draft',
+    },
+    signedAt: {
+      type: Date,
+    },
+    versions: [noteVersionSchema],
+    addenda: [addendumSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+clinicalNoteSchema.index({ patientId: 1, visitDate: -1 });
+clinicalNoteSchema.index({ appointmentId: 1 });
+clinicalNoteSchema.index({ treatmentId: 1 });
+clinicalNoteSchema.index({ authorId: 1, status: 1 });
+
+const ClinicalNote = mongoose.model('ClinicalNote', clinicalNoteSchema);
+
+module.exports = ClinicalNote;
+module.exports.SOAP_FIELDS = SOAP_FIELDS;
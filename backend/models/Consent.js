@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+
+const SIGNER_RELATIONSHIPS = ['patient', 'parent', 'guardian', 'other'];
+
+const consentSchema = new mongoose.Schema(
+  {
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    templateId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'ConsentTemplate',
+      required: [true, 'Consent template is required'],
+    },
+    templateVersion: {
+      type: Number,
+      required: true,
+    },
+    procedureId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Procedure',
+    },
+    treatmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Treatment',
+    },
+    // The form exactly as it was signed
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+    },
+    body: {
+      type: String,
+      required: [true, 'Consent text is required'],
+    },
+    signerName: {
+      type: String,
+      required: [true, 'Signer name is required'],
+      trim: true,
+    },
+    signerRelationship: {
+      type: String,
+      enum: {
+        values: SIGNER_RELATIONSHIPS,
+        message: '{VALUE} is not a valid signer relationship',
+      },
+      default: 'patient',
+    },
+    // PNG data URL of the drawn signature
+    signature: {
+      type: String,
+      required: [true, 'Signature is required'],
+    },
+    signedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    witnessedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Witness is required'],
+    },
+    // The signed PDF in the patient's files
+    fileId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'File',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+consentSchema.index({ patientId: 1, signedAt: -1 });
+consentSchema.index({ patientId: 1, templateId: 1 });
+consentSchema.index({ treatmentId: 1 });
+
+const Consent = mongoose.model('Consent', consentSchema);
+
+module.exports = Consent;
+module.exports.SIGNER_RELATIONSHIPS = SIGNER_RELATIONSHIPS;
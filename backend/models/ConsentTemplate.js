@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+const consentTemplateSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+    },
+    // Catalog procedures the form is for; a template without any is a free-standing form
+    procedureIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Procedure',
+    }],
+    // Consent text with {{placeholders}} filled in when it is signed
+    body: {
+      type: String,
+      required: [true, 'Consent text is required'],
+    },
+    // Treatments for these procedures can't be completed until the form is signed
+    isMandatory: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    // Goes up each time the text changes, so a signed consent shows which wording was agreed to
+    version: {
+      type: Number,
+      default: 1,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+consentTemplateSchema.index({ procedureIds: 1, isActive: 1 });
+
+const ConsentTemplate = mongoose.model('ConsentTemplate', consentTemplateSchema);
+
+module.exports = ConsentTemplate;
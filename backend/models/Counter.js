@@ -0,0 +1,24 @@
+const mongoose = require('mongoose');
+
+// One running number per sequence and period, incremented atomically by services/sequenceService
+const counterSchema = new mongoose.Schema(
+  {
+    // Sequence name, branch and period, e.g. invoice:MAIN:2026-27
+    key: {
+      type: String,
+      required: [true, 'Counter key is required'],
+      unique: true,
+    },
+    seq: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Counter = mongoose.model('Counter', counterSchema);
+
+module.exports = Counter;
@@ -0,0 +1,81 @@
+const mongoose = require('mongoose');
+
+const creditNoteLineSchema = new mongoose.Schema({
+  // The invoice line item being credited
+  lineItemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: [true, 'Line item is required'],
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0.01, 'Amount must be greater than zero'],
+  },
+});
+
+const creditNoteSchema = new mongoose.Schema(
+  {
+    creditNoteNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invoiceId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice is required'],
+    },
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    lines: {
+      type: [creditNoteLineSchema],
+      validate: {
+        validator: (lines) => lines.length > 0,
+        message: 'A credit note needs at least one line',
+      },
+    },
+    // Sum of the lines, set on validate
+    totalAmount: {
+      type: Number,
+      default: 0,
+    },
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      trim: true,
+    },
+    issueDate: {
+      type: Date,
+      default: Date.now,
+    },
+    issuedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+creditNoteSchema.index({ creditNoteNumber: 1 }, { unique: true });
+creditNoteSchema.index({ invoiceId: 1 });
+creditNoteSchema.index({ patientId: 1 });
+
+creditNoteSchema.pre('validate', function (next) {
+  const total = this.lines.reduce((sum, line) => sum + line.amount, 0);
+  this.totalAmount = Math.round(total * 100) / 100;
+  next();
+});
+
+const CreditNote = mongoose.model('CreditNote', creditNoteSchema);
+
+module.exports = CreditNote;
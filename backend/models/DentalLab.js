@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+
+// External labs crowns, bridges, dentures and aligners are sent to
+const dentalLabSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      unique: true,
+    },
+    contactName: {
+      type: String,
+      trim: true,
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    address: {
+      type: String,
+    },
+    // Days the lab usually takes, used for a case's expected return date
+    turnaroundDays: {
+      type: Number,
+      min: [1, 'Turnaround must be at least one day'],
+      default: 7,
+    },
+    notes: {
+      type: String,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+dentalLabSchema.index({ isActive: 1, name: 1 });
+
+const DentalLab = mongoose.model('DentalLab', dentalLabSchema);
+
+module.exports = DentalLab;
@@ -0,0 +1,93 @@
+const mongoose = require('mongoose');
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const timeField = (label) => ({
+  type: String,
+  required: [true, `${label} is required`],
+  match: [TIME_PATTERN, `${label} must be in HH:mm format`],
+});
+
+const breakSchema = new mongoose.Schema(
+  {
+    startTime: timeField('Break start'),
+    endTime: timeField('Break end'),
+    label: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+const workingDaySchema = new mongoose.Schema(
+  {
+    dayOfWeek: {
+      type: Number,
+      required: [true, 'Day of week is required'],
+      min: [0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+      max: [6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+    },
+    startTime: timeField('Start time'),
+    endTime: timeField('End time'),
+    breaks: [breakSchema],
+  },
+  { _id: false }
+);
+
+const leaveSchema = new mongoose.Schema({
+  startDate: {
+    type: Date,
+    required: [true, 'Leave start date is required'],
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'Leave end date is required'],
+  },
+  reason: {
+    type: String,
+    trim: true,
+  },
+});
+
+const doctorScheduleSchema = new mongoose.Schema(
+  {
+    doctorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Doctor is required'],
+      unique: true,
+    },
+    weeklyHours: [workingDaySchema],
+    leaves: [leaveSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Validation: time ranges must be well ordered
+doctorScheduleSchema.pre('validate', function (next) {
+  for (const day of this.weeklyHours) {
+    if (day.endTime <= day.startTime) {
+      return next(new Error('Working hours must end after they start'));
+    }
+    for (const brk of day.breaks) {
+      if (brk.endTime <= brk.startTime || brk.startTime < day.startTime || brk.endTime > day.endTime) {
+        return next(new Error('Breaks must fall within working hours'));
+      }
+    }
+  }
+
+  for (const leave of this.leaves) {
+    if (leave.endDate < leave.startDate) {
+      return next(new Error('Leave must end on or after its start date'));
+    }
+  }
+
+  next();
+});
+
+const DoctorSchedule = mongoose.model('DoctorSchedule', doctorScheduleSchema);
+
+module.exports = DoctorSchedule;
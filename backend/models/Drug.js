@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+const DRUG_FORMS = [
+  'tablet',
+  'capsule',
+  'syrup',
+  'suspension',
+  'injection',
+  'gel',
+  'ointment',
+  'mouthwash',
+  'toothpaste',
+  'drops',
+  'other',
+];
+
+// The clinic's own list of drugs it prescribes, with the usual directions filled in
+const drugSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+    },
+    genericName: {
+      type: String,
+      trim: true,
+    },
+    // Family the drug belongs to, e.g. Penicillin or NSAID, so a class allergy is caught
+    drugClass: {
+      type: String,
+      trim: true,
+    },
+    strength: {
+      type: String,
+      trim: true,
+    },
+    form: {
+      type: String,
+      enum: {
+        values: DRUG_FORMS,
+        message: '{VALUE} is not a valid drug form',
+      },
+      default: 'tablet',
+    },
+    defaultDosage: {
+      type: String,
+      trim: true,
+    },
+    defaultFrequency: {
+      type: String,
+      trim: true,
+    },
+    defaultDuration: {
+      type: String,
+      trim: true,
+    },
+    defaultInstructions: {
+      type: String,
+      trim: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+drugSchema.index({ name: 1, strength: 1, form: 1 }, { unique: true });
+drugSchema.index({ isActive: 1, name: 1 });
+
+const Drug = mongoose.model('Drug', drugSchema);
+
+module.exports = Drug;
+module.exports.DRUG_FORMS = DRUG_FORMS;
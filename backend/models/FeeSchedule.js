@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+// A fee agreed for one procedure, overriding the schedule's discount
+const scheduleFeeSchema = new mongoose.Schema(
+  {
+    procedureId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Procedure',
+      required: [true, 'Procedure is required'],
+    },
+    fee: {
+      type: Number,
+      required: [true, 'Fee is required'],
+      min: [0, 'Fee must be a non-negative number'],
+    },
+  },
+  { _id: false }
+);
+
+const feeScheduleSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      unique: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['standard', 'insurance', 'staff_discount', 'other'],
+        message: '{VALUE} is not a valid fee schedule type',
+      },
+      default: 'standard',
+    },
+    // The insurer whose negotiated fees an insurance schedule holds
+    providerId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InsuranceProvider',
+    },
+    // Taken off the procedure's default fee when the schedule has no fee of its own for it
+    discountPercent: {
+      type: Number,
+      default: 0,
+      min: [0, 'Discount must be between 0 and 100%'],
+      max: [100, 'Discount must be between 0 and 100%'],
+    },
+    fees: [scheduleFeeSchema],
+    // The schedule treatments are priced from unless another is picked
+    isDefault: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+feeScheduleSchema.index({ isActive: 1, name: 1 });
+
+// Validation: one fee per procedure
+feeScheduleSchema.pre('validate', function (next) {
+  const procedureIds = this.fees.map((entry) => String(entry.procedureId));
+  if (new Set(procedureIds).size !== procedureIds.length) {
+    next(new Error('A fee schedule can only have one fee per procedure'));
+  } else {
+    next();
+  }
+});
+
+const FeeSchedule = mongoose.model('FeeSchedule', feeScheduleSchema);
+
+module.exports = FeeSchedule;
@@ -15,7 +15,7 @@ const fileSchema = new mongoose.Schema(
       type: String,
       required: [true, 'File type is required'],
       enum: {
-        values: ['prescription', 'scan', 'report', 'other'],
+        values: ['prescription', 'scan', 'report', 'consent', 'other'],
         message: '{VALUE} is not a valid file type',
       },
     },
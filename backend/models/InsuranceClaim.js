@@ -0,0 +1,155 @@
+const mongoose = require('mongoose');
+
+const CLAIM_STATUSES = ['draft', 'submitted', 'approved', 'partially_approved', 'rejected', 'paid'];
+
+const claimLineSchema = new mongoose.Schema({
+  // The invoice line item being claimed
+  lineItemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: [true, 'Line item is required'],
+  },
+  treatmentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Treatment',
+  },
+  procedureCode: {
+    type: String,
+    required: [true, 'Procedure code is required'],
+    trim: true,
+    uppercase: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+  toothNumber: {
+    type: String,
+  },
+  serviceDate: {
+    type: Date,
+  },
+  // The line's fee on the invoice
+  fee: {
+    type: Number,
+    required: [true, 'Fee is required'],
+    min: [0, 'Fee must be non-negative'],
+  },
+  claimedAmount: {
+    type: Number,
+    required: [true, 'Claimed amount is required'],
+    min: [0, 'Claimed amount must be non-negative'],
+  },
+  // Set when the insurer decides on the claim
+  approvedAmount: {
+    type: Number,
+    min: [0, 'Approved amount must be non-negative'],
+  },
+});
+
+const insuranceClaimSchema = new mongoose.Schema(
+  {
+    claimNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invoiceId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice is required'],
+    },
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    policyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InsurancePolicy',
+      required: [true, 'Insurance policy is required'],
+    },
+    providerId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InsuranceProvider',
+      required: [true, 'Insurance provider is required'],
+    },
+    lines: {
+      type: [claimLineSchema],
+      validate: {
+        validator: (lines) => lines.length > 0,
+        message: 'A claim needs at least one line',
+      },
+    },
+    // Sums of the lines, set on validate
+    claimedAmount: {
+      type: Number,
+      default: 0,
+    },
+    approvedAmount: {
+      type: Number,
+      default: 0,
+    },
+    // Paid by the insurer, recorded as insurance payments on the invoice
+    paidAmount: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: {
+        values: CLAIM_STATUSES,
+        message: '{VALUE} is not a valid claim status',
+      },
+      default: 'draft',
+    },
+    // The insurer's reference for the claim
+    insurerReference: {
+      type: String,
+      trim: true,
+    },
+    submittedAt: {
+      type: Date,
+    },
+    decidedAt: {
+      type: Date,
+    },
+    paidAt: {
+      type: Date,
+    },
+    rejectionReason: {
+      type: String,
+    },
+    notes: {
+      type: String,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+insuranceClaimSchema.index({ claimNumber: 1 }, { unique: true });
+insuranceClaimSchema.index({ invoiceId: 1 });
+insuranceClaimSchema.index({ patientId: 1 });
+insuranceClaimSchema.index({ status: 1, submittedAt: 1 });
+insuranceClaimSchema.index({ providerId: 1, status: 1 });
+
+// Keep the claim totals in sync with the lines
+insuranceClaimSchema.pre('validate', function (next) {
+  const round = (value) => Math.round(value * 100) / 100;
+
+  this.claimedAmount = round(this.lines.reduce((sum, line) => sum + line.claimedAmount, 0));
+  this.approvedAmount = round(this.lines.reduce((sum, line) => sum + (line.approvedAmount || 0), 0));
+  next();
+});
+
+const InsuranceClaim = mongoose.model('InsuranceClaim', insuranceClaimSchema);
+
+module.exports = InsuranceClaim;
+module.exports.CLAIM_STATUSES = CLAIM_STATUSES;
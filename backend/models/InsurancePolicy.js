@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+const insurancePolicySchema = new mongoose.Schema(
+  {
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    providerId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InsuranceProvider',
+      required: [true, 'Insurance provider is required'],
+    },
+    policyNumber: {
+      type: String,
+      required: [true, 'Policy number is required'],
+      trim: true,
+    },
+    groupNumber: {
+      type: String,
+      trim: true,
+    },
+    // The policy holder, when the patient is covered as a dependant
+    subscriberName: {
+      type: String,
+      trim: true,
+    },
+    relationship: {
+      type: String,
+      enum: {
+        values: ['self', 'spouse', 'child', 'other'],
+        message: '{VALUE} is not a valid relationship',
+      },
+      default: 'self',
+    },
+    // Share of a treatment's fee the insurer is expected to pay
+    coveragePercent: {
+      type: Number,
+      default: 80,
+      min: [0, 'Coverage must be between 0 and 100%'],
+      max: [100, 'Coverage must be between 0 and 100%'],
+    },
+    annualMaximum: {
+      type: Number,
+      min: [0, 'Annual maximum must be non-negative'],
+    },
+    validFrom: {
+      type: Date,
+    },
+    validTo: {
+      type: Date,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+insurancePolicySchema.index({ patientId: 1, isActive: 1 });
+insurancePolicySchema.index({ providerId: 1, policyNumber: 1 });
+
+// Validation: validTo must be after validFrom
+insurancePolicySchema.pre('validate', function (next) {
+  if (this.validFrom && this.validTo && this.validTo <= this.validFrom) {
+    next(new Error('Policy end date must be after its start date'));
+  } else {
+    next();
+  }
+});
+
+const InsurancePolicy = mongoose.model('InsurancePolicy', insurancePolicySchema);
+
+module.exports = InsurancePolicy;
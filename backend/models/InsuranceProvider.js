@@ -0,0 +1,43 @@
+const mongoose = require('mongoose');
+
+const insuranceProviderSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      unique: true,
+    },
+    // The insurer's own ID for the clinic's claims (payer ID, TPA code)
+    payerId: {
+      type: String,
+      trim: true,
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    claimsAddress: {
+      type: String,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+insuranceProviderSchema.index({ isActive: 1, name: 1 });
+
+const InsuranceProvider = mongoose.model('InsuranceProvider', insuranceProviderSchema);
+
+module.exports = InsuranceProvider;
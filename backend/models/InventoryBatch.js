@@ -0,0 +1,57 @@
+const mongoose = require('mongoose');
+
+// One delivery of an item; stock is used from the batch that expires first
+const inventoryBatchSchema = new mongoose.Schema(
+  {
+    itemId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InventoryItem',
+      required: [true, 'Item is required'],
+    },
+    // The manufacturer's lot number
+    batchNumber: {
+      type: String,
+      trim: true,
+    },
+    expiryDate: {
+      type: Date,
+    },
+    quantityReceived: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [0, 'Quantity must be non-negative'],
+    },
+    quantityRemaining: {
+      type: Number,
+      required: true,
+      min: [0, 'Remaining quantity must be non-negative'],
+    },
+    unitCost: {
+      type: Number,
+      min: [0, 'Unit cost must be non-negative'],
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    supplierId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Supplier',
+    },
+    purchaseOrderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PurchaseOrder',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+inventoryBatchSchema.index({ itemId: 1, expiryDate: 1 });
+inventoryBatchSchema.index({ expiryDate: 1, quantityRemaining: 1 });
+
+const InventoryBatch = mongoose.model('InventoryBatch', inventoryBatchSchema);
+
+module.exports = InventoryBatch;
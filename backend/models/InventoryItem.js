@@ -0,0 +1,74 @@
+const mongoose = require('mongoose');
+
+const inventoryItemSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+    },
+    // Stock keeping unit or the supplier's catalog number
+    sku: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+    category: {
+      type: String,
+      enum: {
+        values: ['anesthetic', 'restorative', 'consumable', 'instrument', 'ppe', 'medication', 'other'],
+        message: '{VALUE} is not a valid inventory category',
+      },
+      default: 'consumable',
+    },
+    // What one unit of stock is, e.g. cartridge, syringe, box
+    unit: {
+      type: String,
+      trim: true,
+      default: 'unit',
+    },
+    // Kept in step with the batches by services/inventoryService; negative when more was
+    // used than was recorded as received
+    quantityOnHand: {
+      type: Number,
+      default: 0,
+    },
+    // Stock at or below this level shows up as low stock
+    reorderLevel: {
+      type: Number,
+      default: 0,
+      min: [0, 'Reorder level must be non-negative'],
+    },
+    reorderQuantity: {
+      type: Number,
+      min: [0, 'Reorder quantity must be non-negative'],
+    },
+    unitCost: {
+      type: Number,
+      min: [0, 'Unit cost must be non-negative'],
+    },
+    // Where the item is usually ordered from
+    supplierId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Supplier',
+    },
+    notes: {
+      type: String,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+inventoryItemSchema.index({ isActive: 1, name: 1 });
+inventoryItemSchema.index({ sku: 1 }, { unique: true, sparse: true });
+
+const InventoryItem = mongoose.model('InventoryItem', inventoryItemSchema);
+
+module.exports = InventoryItem;
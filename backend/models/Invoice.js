@@ -1,5 +1,60 @@
 const mongoose = require('mongoose');
 
+// Keep floating point sums from drifting off whole cents
+const roundCents = (value) => Math.round(value * 100) / 100;
+
+const lineItemSchema = new mongoose.Schema({
+  // Set for treatments; materials and other charges have none
+  treatmentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Treatment',
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true,
+  },
+  quantity: {
+    type: Number,
+    default: 1,
+    min: [0.01, 'Quantity must be greater than zero'],
+  },
+  unitPrice: {
+    type: Number,
+    required: [true, 'Unit price is required'],
+    min: [0, 'Unit price must be non-negative'],
+  },
+  discountPercent: {
+    type: Number,
+    default: 0,
+    min: [0, 'Discount must be between 0 and 100%'],
+    max: [100, 'Discount must be between 0 and 100%'],
+  },
+  taxRate: {
+    type: Number,
+    default: 0,
+    min: [0, 'Tax rate must be between 0 and 100%'],
+    max: [100, 'Tax rate must be between 0 and 100%'],
+  },
+  // Computed on validate
+  subtotal: {
+    type: Number,
+    default: 0,
+  },
+  discountAmount: {
+    type: Number,
+    default: 0,
+  },
+  taxAmount: {
+    type: Number,
+    default: 0,
+  },
+  total: {
+    type: Number,
+    default: 0,
+  },
+});
+
 const invoiceSchema = new mongoose.Schema(
   {
     patientId: {
@@ -7,25 +62,64 @@ const invoiceSchema = new mongoose.Schema(
       ref: 'Patient',
       required: [true, 'Patient is required'],
     },
+    // The treatments billed on the line items, kept for lookups by treatment
     treatmentIds: [{
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Treatment',
     }],
+    lineItems: [lineItemSchema],
+    // Computed from the line items on validate
+    subtotal: {
+      type: Number,
+      default: 0,
+    },
+    discountTotal: {
+      type: Number,
+      default: 0,
+    },
+    taxTotal: {
+      type: Number,
+      default: 0,
+    },
+    taxSummary: [{
+      _id: false,
+      rate: Number,
+      taxableAmount: Number,
+      taxAmount: Number,
+    }],
     totalAmount: {
       type: Number,
       required: [true, 'Total amount is required'],
       min: [0, 'Total amount must be non-negative'],
     },
+    // Derived from the payments ledger (refunds included) - see services/paymentService
     paidAmount: {
       type: Number,
       default: 0,
       min: [0, 'Paid amount must be non-negative'],
     },
+    // Derived from the credit notes issued against the invoice
+    creditedAmount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Credited amount must be non-negative'],
+    },
+    // The insurer's expected share, derived from the invoice's insurance claims
+    insuranceAmount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Insurance amount must be non-negative'],
+    },
+    // What the patient is responsible for once credit notes and the insurer's share are taken off
+    patientAmount: {
+      type: Number,
+      default: 0,
+    },
     status: {
       type: String,
       required: true,
       enum: {
-        values: ['pending', 'paid', 'partial', 'cancelled'],
+        values: ['pending', 'paid', 'partial', 'credited', 'cancelled'],
         message: '{VALUE} is not a valid status',
       },
       default: 'pending',
@@ -45,6 +139,21 @@ const invoiceSchema = new mongoose.Schema(
     notes: {
       type: String,
     },
+    // Payment reminders for overdue invoices - see services/receivablesService
+    dunning: {
+      // How many reminder stages have been sent
+      stage: {
+        type: Number,
+        default: 0,
+      },
+      lastSentAt: {
+        type: Date,
+      },
+      // Set when a payment comes in, so the patient isn't chased while paying in instalments
+      pausedUntil: {
+        type: Date,
+      },
+    },
   },
   {
     timestamps: true,
@@ -56,23 +165,75 @@ invoiceSchema.index({ invoiceNumber: 1 }, { unique: true });
 invoiceSchema.index({ patientId: 1 });
 invoiceSchema.index({ status: 1 });
 invoiceSchema.index({ issueDate: -1 });
+invoiceSchema.index({ status: 1, dueDate: 1 });
 
-// Validation: paidAmount cannot exceed totalAmount
+// Compute line and invoice totals from the line items
+// Invoices created before line items keep the total they were created with
 invoiceSchema.pre('validate', function (next) {
+  if (this.lineItems.length === 0) {
+    return next();
+  }
+
+  const taxByRate = new Map();
+
+  this.lineItems.forEach((item) => {
+    item.subtotal = roundCents(item.quantity * item.unitPrice);
+    item.discountAmount = roundCents((item.subtotal * item.discountPercent) / 100);
+    const taxable = roundCents(item.subtotal - item.discountAmount);
+    item.taxAmount = roundCents((taxable * item.taxRate) / 100);
+    item.total = roundCents(taxable + item.taxAmount);
+
+    const summary = taxByRate.get(item.taxRate) || { rate: item.taxRate, taxableAmount: 0, taxAmount: 0 };
+    summary.taxableAmount = roundCents(summary.taxableAmount + taxable);
+    summary.taxAmount = roundCents(summary.taxAmount + item.taxAmount);
+    taxByRate.set(item.taxRate, summary);
+  });
+
+  this.subtotal = roundCents(this.lineItems.reduce((sum, item) => sum + item.subtotal, 0));
+  this.discountTotal = roundCents(this.lineItems.reduce((sum, item) => sum + item.discountAmount, 0));
+  this.taxTotal = roundCents(this.lineItems.reduce((sum, item) => sum + item.taxAmount, 0));
+  this.taxSummary = [...taxByRate.values()].sort((a, b) => a.rate - b.rate);
+  this.totalAmount = roundCents(this.subtotal - this.discountTotal + this.taxTotal);
+
+  const treatmentIds = this.lineItems.filter((item) => item.treatmentId).map((item) => item.treatmentId.toString());
+  this.treatmentIds = [...new Set(treatmentIds)];
+
+  next();
+});
+
+// Validation: paidAmount, creditedAmount and insuranceAmount cannot exceed totalAmount
+invoiceSchema.pre('validate', function (next) {
+  let error;
   if (this.paidAmount > this.totalAmount) {
-    next(new Error('Paid amount cannot exceed total amount'));
-  } else {
-    next();
+    error = new Error('Paid amount cannot exceed total amount');
+  } else if (this.creditedAmount > this.totalAmount) {
+    error = new Error('Credited amount cannot exceed total amount');
+  } else if (this.insuranceAmount > roundCents(this.totalAmount - this.creditedAmount)) {
+    error = new Error('Insurance amount cannot exceed the amount due');
   }
+
+  if (error) {
+    error.statusCode = 400;
+  }
+  next(error);
 });
 
-// Auto-update status based on paidAmount
+// Auto-update status based on paidAmount (recorded payments) and credit notes
+// A cancelled invoice stays cancelled until it is explicitly reopened
 invoiceSchema.pre('save', function (next) {
+  // What is still owed once credit notes are taken off the total
+  const amountDue = roundCents(this.totalAmount - this.creditedAmount);
+  this.patientAmount = roundCents(amountDue - this.insuranceAmount);
+
+  if (this.status === 'cancelled') {
+    return next();
+  }
+
   if (this.paidAmount === 0) {
-    this.status = 'pending';
-  } else if (this.paidAmount >= this.totalAmount) {
+    this.status = amountDue > 0 ? 'pending' : 'credited';
+  } else if (this.paidAmount >= amountDue) {
     this.status = 'paid';
-  } else if (this.paidAmount > 0 && this.paidAmount < this.totalAmount) {
+  } else {
     this.status = 'partial';
   }
   next();
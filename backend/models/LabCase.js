@@ -0,0 +1,144 @@
+const mongoose = require('mongoose');
+
+const LAB_CASE_TYPES = ['crown', 'bridge', 'veneer', 'inlay_onlay', 'implant_crown', 'denture', 'aligner', 'night_guard', 'other'];
+
+const LAB_CASE_STATUSES = ['sent', 'in_progress', 'received', 'fitted', 'remake'];
+
+// Where a case can go next; a remake goes back to the lab until it is received again
+const LAB_CASE_TRANSITIONS = {
+  sent: ['in_progress', 'received'],
+  in_progress: ['received'],
+  received: ['fitted', 'remake'],
+  fitted: ['remake'],
+  remake: ['in_progress', 'received'],
+};
+
+const statusChangeSchema = new mongoose.Schema(
+  {
+    status: {
+      type: String,
+      required: [true, 'Status is required'],
+      enum: {
+        values: LAB_CASE_STATUSES,
+        message: '{VALUE} is not a valid lab case status',
+      },
+    },
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    note: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+const labCaseSchema = new mongoose.Schema(
+  {
+    caseNumber: {
+      type: String,
+      required: [true, 'Case number is required'],
+      unique: true,
+    },
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    treatmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Treatment',
+      required: [true, 'Treatment is required'],
+    },
+    doctorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Doctor is required'],
+    },
+    labId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'DentalLab',
+      required: [true, 'Lab is required'],
+    },
+    caseType: {
+      type: String,
+      enum: {
+        values: LAB_CASE_TYPES,
+        message: '{VALUE} is not a valid lab case type',
+      },
+      default: 'crown',
+    },
+    // FDI notation, like the dental chart
+    toothNumbers: [String],
+    shade: {
+      type: String,
+      trim: true,
+    },
+    material: {
+      type: String,
+      trim: true,
+    },
+    instructions: {
+      type: String,
+    },
+    // Scans, photos and impressions from the patient's files sent with the case
+    attachments: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'File',
+    }],
+    labFee: {
+      type: Number,
+      min: [0, 'Lab fee cannot be negative'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: LAB_CASE_STATUSES,
+        message: '{VALUE} is not a valid lab case status',
+      },
+      default: 'sent',
+    },
+    sentDate: {
+      type: Date,
+      required: [true, 'Sent date is required'],
+      default: Date.now,
+    },
+    expectedReturnDate: {
+      type: Date,
+      required: [true, 'Expected return date is required'],
+    },
+    receivedDate: {
+      type: Date,
+    },
+    fittedDate: {
+      type: Date,
+    },
+    remakeCount: {
+      type: Number,
+      default: 0,
+    },
+    statusHistory: [statusChangeSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+labCaseSchema.index({ status: 1, expectedReturnDate: 1 });
+labCaseSchema.index({ patientId: 1, createdAt: -1 });
+labCaseSchema.index({ treatmentId: 1 });
+labCaseSchema.index({ labId: 1 });
+
+const LabCase = mongoose.model('LabCase', labCaseSchema);
+
+module.exports = LabCase;
+module.exports.LAB_CASE_TYPES = LAB_CASE_TYPES;
+module.exports.LAB_CASE_STATUSES = LAB_CASE_STATUSES;
+module.exports.LAB_CASE_TRANSITIONS = LAB_CASE_TRANSITIONS;
@@ -6,15 +6,35 @@ const notificationSchema = new mongoose.Schema(
       type: String,
       required: [true, 'Notification type is required'],
       enum: {
-        values: ['appointment_reminder', 'appointment_confirmation', 'invoice_generated'],
+        values: [
+          'appointment_reminder',
+          'appointment_confirmation',
+          'invoice_generated',
+          'waitlist_offer',
+          'payment_reminder',
+          'payment_final_notice',
+        ],
         message: '{VALUE} is not a valid notification type',
       },
     },
+    channel: {
+      type: String,
+      enum: {
+        values: ['email', 'sms'],
+        message: '{VALUE} is not a valid channel',
+      },
+      default: 'email',
+    },
     recipientEmail: {
       type: String,
-      required: [true, 'Recipient email is required'],
+      required: [function () { return this.channel === 'email'; }, 'Recipient email is required'],
       match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email'],
     },
+    recipientPhone: {
+      type: String,
+      required: [function () { return this.channel === 'sms'; }, 'Recipient phone is required'],
+      trim: true,
+    },
     patientId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Patient',
@@ -23,19 +43,32 @@ const notificationSchema = new mongoose.Schema(
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Appointment',
     },
+    // The overdue invoice a payment reminder was sent for
+    invoiceId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice',
+    },
+    // The reminder stage this notification was sent for
+    reminderRuleId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'ReminderRule',
+    },
     subject: {
       type: String,
-      required: [true, 'Subject is required'],
+      required: [function () { return this.channel === 'email'; }, 'Subject is required'],
     },
     body: {
       type: String,
       required: [true, 'Body is required'],
     },
+    htmlBody: {
+      type: String,
+    },
     status: {
       type: String,
       required: true,
       enum: {
-        values: ['pending', 'sent', 'failed'],
+        values: ['pending', 'sending', 'sent', 'failed'],
         message: '{VALUE} is not a valid status',
       },
       default: 'pending',
@@ -49,16 +82,57 @@ const notificationSchema = new mongoose.Schema(
     errorMessage: {
       type: String,
     },
+    // Outbox delivery: the worker picks up pending notifications once nextAttemptAt has passed
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    lastAttemptAt: {
+      type: Date,
+    },
+    deliveryAttempts: [{
+      _id: false,
+      attemptedAt: Date,
+      error: String,
+    }],
+    // The patient's answer via the links in the email
+    response: {
+      type: String,
+      enum: {
+        values: ['confirm', 'cancel', 'reschedule'],
+        message: '{VALUE} is not a valid response',
+      },
+    },
+    respondedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// New notifications go out as soon as the worker runs, or at their scheduled time
+notificationSchema.pre('validate', function (next) {
+  if (this.isNew && !this.nextAttemptAt) {
+    this.nextAttemptAt = this.scheduledFor || new Date();
+  }
+  next();
+});
+
 // Indexes
-notificationSchema.index({ status: 1 });
+notificationSchema.index({ status: 1, nextAttemptAt: 1 });
 notificationSchema.index({ scheduledFor: 1 });
 notificationSchema.index({ appointmentId: 1 });
+notificationSchema.index({ invoiceId: 1 });
+// Each reminder stage is sent at most once per appointment
+notificationSchema.index(
+  { appointmentId: 1, reminderRuleId: 1 },
+  { unique: true, partialFilterExpression: { reminderRuleId: { $exists: true } } }
+);
 
 const Notification = mongoose.model('Notification', notificationSchema);
 
@@ -0,0 +1,62 @@
+const mongoose = require('mongoose');
+
+const notificationTemplateSchema = new mongoose.Schema(
+  {
+    type: {
+      type: String,
+      required: [true, 'Notification type is required'],
+      enum: {
+        values: [
+          'appointment_reminder',
+          'appointment_confirmation',
+          'invoice_generated',
+          'waitlist_offer',
+          'payment_reminder',
+          'payment_final_notice',
+        ],
+        message: '{VALUE} is not a valid notification type',
+      },
+    },
+    channel: {
+      type: String,
+      enum: {
+        values: ['email', 'sms'],
+        message: '{VALUE} is not a valid channel',
+      },
+      default: 'email',
+    },
+    language: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      default: 'en',
+      match: [/^[a-z]{2}$/, 'Language must be a two-letter code'],
+    },
+    subject: {
+      type: String,
+      required: [function () { return this.channel === 'email'; }, 'Subject is required'],
+      trim: true,
+    },
+    textBody: {
+      type: String,
+      required: [true, 'Text body is required'],
+    },
+    htmlBody: {
+      type: String,
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+notificationTemplateSchema.index({ type: 1, channel: 1, language: 1 }, { unique: true });
+
+const NotificationTemplate = mongoose.model('NotificationTemplate', notificationTemplateSchema);
+
+module.exports = NotificationTemplate;
@@ -1,5 +1,77 @@
 const mongoose = require('mongoose');
 
+const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe', 'life_threatening'];
+
+// Classes that change how dental treatment is carried out
+const MEDICATION_CLASSES = ['anticoagulant', 'antiplatelet', 'bisphosphonate', 'insulin', 'antihypertensive', 'steroid', 'other'];
+
+const MEDICAL_CONDITIONS = [
+  'diabetes',
+  'hypertension',
+  'pregnancy',
+  'cardiac',
+  'bleeding_disorder',
+  'asthma',
+  'epilepsy',
+  'immunocompromised',
+  'other',
+];
+
+const allergySchema = new mongoose.Schema({
+  substance: {
+    type: String,
+    required: [true, 'Allergy substance is required'],
+    trim: true,
+  },
+  reaction: {
+    type: String,
+    trim: true,
+  },
+  severity: {
+    type: String,
+    enum: {
+      values: ALLERGY_SEVERITIES,
+      message: '{VALUE} is not a valid allergy severity',
+    },
+    default: 'moderate',
+  },
+});
+
+const medicationSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Medication name is required'],
+    trim: true,
+  },
+  medicationClass: {
+    type: String,
+    enum: {
+      values: MEDICATION_CLASSES,
+      message: '{VALUE} is not a valid medication class',
+    },
+    default: 'other',
+  },
+  dose: {
+    type: String,
+    trim: true,
+  },
+});
+
+const conditionSchema = new mongoose.Schema({
+  condition: {
+    type: String,
+    required: [true, 'Condition is required'],
+    enum: {
+      values: MEDICAL_CONDITIONS,
+      message: '{VALUE} is not a valid medical condition',
+    },
+  },
+  notes: {
+    type: String,
+    trim: true,
+  },
+});
+
 const patientSchema = new mongoose.Schema(
   {
     name: {
@@ -57,6 +129,33 @@ const patientSchema = new mongoose.Schema(
       type: String,
       trim: true,
     }],
+    // Structured history that drives the alerts shown to staff and the checks on new treatments
+    allergies: [allergySchema],
+    medications: [medicationSchema],
+    conditions: [conditionSchema],
+    // Language for emails and SMS, falls back to the clinic default when there is no template for it
+    language: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      default: 'en',
+      match: [/^[a-z]{2}$/, 'Language must be a two-letter code'],
+    },
+    // Which channels appointment reminders may use
+    reminderPreferences: {
+      email: {
+        type: Boolean,
+        default: true,
+      },
+      sms: {
+        type: Boolean,
+        default: true,
+      },
+      optOut: {
+        type: Boolean,
+        default: false,
+      },
+    },
   },
   {
     timestamps: true,
@@ -71,3 +170,6 @@ patientSchema.index({ createdAt: -1 });
 const Patient = mongoose.model('Patient', patientSchema);
 
 module.exports = Patient;
+module.exports.ALLERGY_SEVERITIES = ALLERGY_SEVERITIES;
+module.exports.MEDICATION_CLASSES = MEDICATION_CLASSES;
+module.exports.MEDICAL_CONDITIONS = MEDICAL_CONDITIONS;
@@ -0,0 +1,104 @@
+const mongoose = require('mongoose');
+
+const paymentSchema = new mongoose.Schema(
+  {
+    // Money received gets a receipt number; refunds and payments from before receipts don't
+    receiptNumber: {
+      type: String,
+    },
+    invoiceId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice is required'],
+    },
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    // A refund is money going back to the patient and is stored as a negative payment
+    type: {
+      type: String,
+      enum: {
+        values: ['payment', 'refund'],
+        message: '{VALUE} is not a valid payment type',
+      },
+      default: 'payment',
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      validate: {
+        validator: function (value) {
+          return this.type === 'refund' ? value < 0 : value > 0;
+        },
+        message: 'Payments must be positive and refunds negative',
+      },
+    },
+    // 'credit' moves money to or from the patient's credit balance instead of the till
+    method: {
+      type: String,
+      required: [true, 'Payment method is required'],
+      enum: {
+        values: ['cash', 'card', 'upi', 'insurance', 'bank_transfer', 'credit', 'other'],
+        message: '{VALUE} is not a valid payment method',
+      },
+    },
+    // The insurance claim an insurer's payment settles
+    claimId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InsuranceClaim',
+    },
+    // Card slip, UPI transaction ID, cheque or claim number
+    reference: {
+      type: String,
+      trim: true,
+    },
+    paidAt: {
+      type: Date,
+      default: Date.now,
+    },
+    receivedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reason: {
+      type: String,
+      required: [function () { return this.type === 'refund'; }, 'A reason is required for a refund'],
+      trim: true,
+    },
+    notes: {
+      type: String,
+    },
+    // Payments are never deleted - a mistake is voided so the ledger keeps its history
+    voided: {
+      type: Boolean,
+      default: false,
+    },
+    voidedAt: {
+      type: Date,
+    },
+    voidedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    voidReason: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+paymentSchema.index({ invoiceId: 1, paidAt: 1 });
+paymentSchema.index({ patientId: 1, method: 1 });
+paymentSchema.index({ paidAt: -1 });
+paymentSchema.index({ claimId: 1 });
+paymentSchema.index({ receiptNumber: 1 }, { unique: true, sparse: true });
+
+const Payment = mongoose.model('Payment', paymentSchema);
+
+module.exports = Payment;
@@ -0,0 +1,102 @@
+const mongoose = require('mongoose');
+const { DRUG_FORMS } = require('./Drug');
+
+// Drug details are copied in, so the Rx reads the same after the drug list changes
+const prescriptionItemSchema = new mongoose.Schema(
+  {
+    drugId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Drug',
+    },
+    name: {
+      type: String,
+      required: [true, 'Drug name is required'],
+      trim: true,
+    },
+    strength: {
+      type: String,
+      trim: true,
+    },
+    form: {
+      type: String,
+      enum: {
+        values: DRUG_FORMS,
+        message: '{VALUE} is not a valid drug form',
+      },
+      default: 'tablet',
+    },
+    dosage: {
+      type: String,
+      required: [true, 'Dosage is required'],
+      trim: true,
+    },
+    frequency: {
+      type: String,
+      required: [true, 'Frequency is required'],
+      trim: true,
+    },
+    duration: {
+      type: String,
+      required: [true, 'Duration is required'],
+      trim: true,
+    },
+    instructions: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+const prescriptionSchema = new mongoose.Schema(
+  {
+    rxNumber: {
+      type: String,
+      required: [true, 'Rx number is required'],
+      unique: true,
+    },
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    doctorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Doctor is required'],
+    },
+    treatmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Treatment',
+    },
+    items: {
+      type: [prescriptionItemSchema],
+      validate: {
+        validator: (items) => items.length > 0,
+        message: 'A prescription needs at least one drug',
+      },
+    },
+    notes: {
+      type: String,
+      trim: true,
+    },
+    // Allergy warnings the dentist saw and prescribed through
+    acknowledgedAlerts: [String],
+    // The printable Rx in the patient's files
+    fileId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'File',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+prescriptionSchema.index({ patientId: 1, createdAt: -1 });
+prescriptionSchema.index({ treatmentId: 1 });
+
+const Prescription = mongoose.model('Prescription', prescriptionSchema);
+
+module.exports = Prescription;
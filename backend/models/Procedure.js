@@ -0,0 +1,102 @@
+const mongoose = require('mongoose');
+
+const PROCEDURE_CATEGORIES = [
+  'diagnostic',
+  'preventive',
+  'restorative',
+  'endodontics',
+  'periodontics',
+  'prosthodontics',
+  'oral_surgery',
+  'orthodontics',
+  'implants',
+  'cosmetic',
+  'other',
+];
+
+// Rates for each tax class live in services/procedureService
+const TAX_CLASSES = ['exempt', 'reduced', 'standard'];
+
+// Supplies one procedure uses up, taken from stock when a treatment is recorded
+const materialSchema = new mongoose.Schema(
+  {
+    itemId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InventoryItem',
+      required: [true, 'Item is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [0.01, 'Quantity must be greater than zero'],
+    },
+  },
+  { _id: false }
+);
+
+const procedureSchema = new mongoose.Schema(
+  {
+    // Standard procedure code, e.g. CDT D3310
+    code: {
+      type: String,
+      required: [true, 'Procedure code is required'],
+      trim: true,
+      uppercase: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+    },
+    category: {
+      type: String,
+      enum: {
+        values: PROCEDURE_CATEGORIES,
+        message: '{VALUE} is not a valid procedure category',
+      },
+      default: 'other',
+    },
+    // Minutes an appointment for the procedure usually takes
+    defaultDuration: {
+      type: Number,
+      default: 30,
+      min: [5, 'Duration must be at least 5 minutes'],
+    },
+    defaultFee: {
+      type: Number,
+      required: [true, 'Default fee is required'],
+      min: [0, 'Fee must be a non-negative number'],
+    },
+    taxClass: {
+      type: String,
+      enum: {
+        values: TAX_CLASSES,
+        message: '{VALUE} is not a valid tax class',
+      },
+      default: 'exempt',
+    },
+    materials: [materialSchema],
+    // Other names the procedure has been entered as, used to map free-text treatment types
+    aliases: [{
+      type: String,
+      trim: true,
+    }],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+procedureSchema.index({ isActive: 1, category: 1, name: 1 });
+
+const Procedure = mongoose.model('Procedure', procedureSchema);
+
+module.exports = Procedure;
+module.exports.PROCEDURE_CATEGORIES = PROCEDURE_CATEGORIES;
+module.exports.TAX_CLASSES = TAX_CLASSES;
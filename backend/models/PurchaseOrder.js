@@ -0,0 +1,111 @@
+const mongoose = require('mongoose');
+
+const PURCHASE_ORDER_STATUSES = ['draft', 'ordered', 'partially_received', 'received', 'cancelled'];
+
+const purchaseOrderLineSchema = new mongoose.Schema({
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'InventoryItem',
+    required: [true, 'Item is required'],
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1'],
+  },
+  unitCost: {
+    type: Number,
+    default: 0,
+    min: [0, 'Unit cost must be non-negative'],
+  },
+  // Added up from the deliveries received against the line
+  receivedQuantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Received quantity must be non-negative'],
+  },
+});
+
+const purchaseOrderSchema = new mongoose.Schema(
+  {
+    orderNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    supplierId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: [true, 'Supplier is required'],
+    },
+    lines: {
+      type: [purchaseOrderLineSchema],
+      validate: {
+        validator: (lines) => lines.length > 0,
+        message: 'A purchase order needs at least one line',
+      },
+    },
+    // Sum of the lines, set on validate
+    totalAmount: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: {
+        values: PURCHASE_ORDER_STATUSES,
+        message: '{VALUE} is not a valid purchase order status',
+      },
+      default: 'draft',
+    },
+    orderedAt: {
+      type: Date,
+    },
+    expectedAt: {
+      type: Date,
+    },
+    receivedAt: {
+      type: Date,
+    },
+    notes: {
+      type: String,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+purchaseOrderSchema.index({ orderNumber: 1 }, { unique: true });
+purchaseOrderSchema.index({ status: 1, orderedAt: -1 });
+purchaseOrderSchema.index({ supplierId: 1 });
+
+// Keep the total in sync with the lines, and the status with what has been received
+purchaseOrderSchema.pre('validate', function (next) {
+  const total = this.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+  this.totalAmount = Math.round(total * 100) / 100;
+
+  if (['ordered', 'partially_received', 'received'].includes(this.status)) {
+    const received = this.lines.filter((line) => line.receivedQuantity >= line.quantity).length;
+    const started = this.lines.some((line) => line.receivedQuantity > 0);
+
+    if (received === this.lines.length) {
+      this.status = 'received';
+      this.receivedAt = this.receivedAt || new Date();
+    } else {
+      this.status = started ? 'partially_received' : 'ordered';
+    }
+  }
+  next();
+});
+
+const PurchaseOrder = mongoose.model('PurchaseOrder', purchaseOrderSchema);
+
+module.exports = PurchaseOrder;
+module.exports.PURCHASE_ORDER_STATUSES = PURCHASE_ORDER_STATUSES;
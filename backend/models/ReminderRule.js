@@ -0,0 +1,40 @@
+const mongoose = require('mongoose');
+
+const reminderRuleSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Rule name is required'],
+      trim: true,
+    },
+    // How long before the appointment starts the reminder goes out
+    offsetHours: {
+      type: Number,
+      required: [true, 'Hours before the appointment are required'],
+      min: [1, 'Reminders must be sent at least 1 hour before'],
+      max: [720, 'Reminders can be sent at most 30 days before'],
+    },
+    channel: {
+      type: String,
+      required: [true, 'Channel is required'],
+      enum: {
+        values: ['email', 'sms'],
+        message: '{VALUE} is not a valid channel',
+      },
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+reminderRuleSchema.index({ isActive: 1, offsetHours: -1 });
+
+const ReminderRule = mongoose.model('ReminderRule', reminderRuleSchema);
+
+module.exports = ReminderRule;
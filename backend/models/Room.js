@@ -0,0 +1,38 @@
+const mongoose = require('mongoose');
+
+const roomSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      unique: true,
+    },
+    kind: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['room', 'equipment'],
+        message: '{VALUE} is not a valid resource kind',
+      },
+      default: 'room',
+    },
+    description: {
+      type: String,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+roomSchema.index({ kind: 1, isActive: 1 });
+
+const Room = mongoose.model('Room', roomSchema);
+
+module.exports = Room;
@@ -0,0 +1,58 @@
+const mongoose = require('mongoose');
+
+// Every change to stock is recorded here, so levels can be traced back to deliveries,
+// treatments and counts
+const stockMovementSchema = new mongoose.Schema(
+  {
+    itemId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InventoryItem',
+      required: [true, 'Item is required'],
+    },
+    // Missing when stock was used that no batch held
+    batchId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InventoryBatch',
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['receipt', 'usage', 'usage_reversal', 'adjustment', 'disposal'],
+        message: '{VALUE} is not a valid stock movement type',
+      },
+    },
+    // Positive into stock, negative out of it
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+    },
+    treatmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Treatment',
+    },
+    purchaseOrderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PurchaseOrder',
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+stockMovementSchema.index({ itemId: 1, createdAt: -1 });
+stockMovementSchema.index({ treatmentId: 1 });
+
+const StockMovement = mongoose.model('StockMovement', stockMovementSchema);
+
+module.exports = StockMovement;
@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+const { FDI_TEETH, SURFACES } = require('../utils/toothNumbering');
+
+const toothConditionSchema = new mongoose.Schema(
+  {
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    toothNumber: {
+      type: String,
+      required: [true, 'Tooth number is required'],
+      enum: {
+        values: FDI_TEETH,
+        message: '{VALUE} is not a valid FDI tooth number',
+      },
+    },
+    surfaces: [{
+      type: String,
+      enum: {
+        values: SURFACES,
+        message: '{VALUE} is not a valid tooth surface',
+      },
+    }],
+    condition: {
+      type: String,
+      required: [true, 'Condition is required'],
+      enum: {
+        values: [
+          'caries',
+          'filling',
+          'crown',
+          'bridge',
+          'root_canal',
+          'implant',
+          'veneer',
+          'sealant',
+          'fracture',
+          'missing',
+          'extraction',
+          'watch',
+          'other',
+        ],
+        message: '{VALUE} is not a valid condition',
+      },
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['existing', 'planned', 'completed'],
+        message: '{VALUE} is not a valid status',
+      },
+      default: 'existing',
+    },
+    treatmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Treatment',
+    },
+    notes: {
+      type: String,
+    },
+    recordedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    recordedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+toothConditionSchema.index({ patientId: 1, toothNumber: 1 });
+toothConditionSchema.index({ treatmentId: 1 });
+
+const ToothCondition = mongoose.model('ToothCondition', toothConditionSchema);
+
+module.exports = ToothCondition;
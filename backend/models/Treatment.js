@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { FDI_TEETH, SURFACES } = require('../utils/toothNumbering');
 
 const treatmentSchema = new mongoose.Schema(
   {
@@ -16,6 +17,11 @@ const treatmentSchema = new mongoose.Schema(
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Appointment',
     },
+    // The catalog entry the treatment was billed as; treatmentType then holds its name
+    procedureId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Procedure',
+    },
     treatmentType: {
       type: String,
       required: [true, 'Treatment type is required'],
@@ -37,6 +43,29 @@ const treatmentSchema = new mongoose.Schema(
       type: Date,
       required: [true, 'Treatment date is required'],
     },
+    toothNumber: {
+      type: String,
+      enum: {
+        values: FDI_TEETH,
+        message: '{VALUE} is not a valid FDI tooth number',
+      },
+    },
+    surfaces: [{
+      type: String,
+      enum: {
+        values: SURFACES,
+        message: '{VALUE} is not a valid tooth surface',
+      },
+    }],
+    // Treatments recorded before this field existed were all carried out
+    status: {
+      type: String,
+      enum: {
+        values: ['in_progress', 'completed'],
+        message: '{VALUE} is not a valid treatment status',
+      },
+      default: 'completed',
+    },
   },
   {
     timestamps: true,
@@ -47,7 +76,9 @@ const treatmentSchema = new mongoose.Schema(
 treatmentSchema.index({ patientId: 1 });
 treatmentSchema.index({ doctorId: 1 });
 treatmentSchema.index({ treatmentType: 1 });
+treatmentSchema.index({ procedureId: 1 });
 treatmentSchema.index({ treatmentDate: -1 });
+treatmentSchema.index({ patientId: 1, toothNumber: 1 });
 
 const Treatment = mongoose.model('Treatment', treatmentSchema);
 
@@ -0,0 +1,160 @@
+const mongoose = require('mongoose');
+const { FDI_TEETH, SURFACES } = require('../utils/toothNumbering');
+
+const planItemSchema = new mongoose.Schema({
+  // Catalog procedure, carried onto the treatment when the item is recorded
+  procedureId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Procedure',
+  },
+  treatmentType: {
+    type: String,
+    required: [true, 'Treatment type is required'],
+    trim: true,
+  },
+  description: {
+    type: String,
+  },
+  toothNumber: {
+    type: String,
+    enum: {
+      values: FDI_TEETH,
+      message: '{VALUE} is not a valid FDI tooth number',
+    },
+  },
+  surfaces: [{
+    type: String,
+    enum: {
+      values: SURFACES,
+      message: '{VALUE} is not a valid tooth surface',
+    },
+  }],
+  estimatedCost: {
+    type: Number,
+    required: [true, 'Estimated cost is required'],
+    min: [0, 'Estimated cost must be a non-negative number'],
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['planned', 'scheduled', 'completed', 'cancelled'],
+      message: '{VALUE} is not a valid item status',
+    },
+    default: 'planned',
+  },
+  treatmentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Treatment',
+  },
+  appointmentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+});
+
+const phaseSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Phase name is required'],
+    trim: true,
+  },
+  order: {
+    type: Number,
+    default: 0,
+  },
+  items: [planItemSchema],
+});
+
+const treatmentPlanSchema = new mongoose.Schema(
+  {
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    doctorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Doctor is required'],
+    },
+    title: {
+      type: String,
+      required: [true, 'Plan title is required'],
+      trim: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['proposed', 'accepted', 'declined', 'in_progress', 'completed'],
+        message: '{VALUE} is not a valid status',
+      },
+      default: 'proposed',
+    },
+    phases: [phaseSchema],
+    estimateTotal: {
+      type: Number,
+      default: 0,
+      min: [0, 'Estimate total must be non-negative'],
+    },
+    validUntil: {
+      type: Date,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    declinedAt: {
+      type: Date,
+    },
+    declineReason: {
+      type: String,
+    },
+    notes: {
+      type: String,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+treatmentPlanSchema.index({ patientId: 1 });
+treatmentPlanSchema.index({ doctorId: 1 });
+treatmentPlanSchema.index({ status: 1 });
+
+/**
+ * Find a planned item anywhere in the plan
+ */
+treatmentPlanSchema.methods.findItem = function (itemId) {
+  for (const phase of this.phases) {
+    const item = phase.items.id(itemId);
+    if (item) {
+      return item;
+    }
+  }
+  return null;
+};
+
+// Keep phases ordered and the estimate in sync with the items
+treatmentPlanSchema.pre('validate', function (next) {
+  this.phases.sort((a, b) => a.order - b.order);
+
+  this.estimateTotal = this.phases.reduce(
+    (sum, phase) => sum + phase.items
+      .filter((item) => item.status !== 'cancelled')
+      .reduce((phaseSum, item) => phaseSum + item.estimatedCost, 0),
+    0
+  );
+
+  next();
+});
+
+const TreatmentPlan = mongoose.model('TreatmentPlan', treatmentPlanSchema);
+
+module.exports = TreatmentPlan;
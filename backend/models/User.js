@@ -20,7 +20,7 @@ const userSchema = new mongoose.Schema(
       type: String,
       required: [true, 'Role is required'],
       enum: {
-        values: ['admin', 'dentist', 'receptionist'],
+        values: ['admin', 'dentist', 'receptionist', 'patient'],
         message: '{VALUE} is not a valid role',
       },
     },
@@ -34,6 +34,16 @@ const userSchema = new mongoose.Schema(
       type: String,
       trim: true,
     },
+    // Dental council registration, printed on prescriptions
+    registrationNumber: {
+      type: String,
+      trim: true,
+    },
+    // Portal accounts are tied to the patient record they can see
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+    },
   },
   {
     timestamps: true,
@@ -43,6 +53,15 @@ const userSchema = new mongoose.Schema(
 // Indexes
 userSchema.index({ email: 1 }, { unique: true });
 userSchema.index({ role: 1 });
+userSchema.index({ patientId: 1 }, { unique: true, sparse: true });
+
+// Validation: patient accounts must be linked to a patient record
+userSchema.pre('validate', function (next) {
+  if (this.role === 'patient' && !this.patientId) {
+    return next(new Error('Patient accounts must be linked to a patient'));
+  }
+  next();
+});
 
 // Hash password before saving
 userSchema.pre('save', async function (next) {
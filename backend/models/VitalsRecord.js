@@ -0,0 +1,102 @@
+const mongoose = require('mongoose');
+
+// Measurements a vitals record can hold; at least one is needed
+const VITAL_FIELDS = ['systolic', 'diastolic', 'pulse', 'spo2', 'temperature', 'weight', 'height', 'bloodSugar'];
+
+const BLOOD_SUGAR_CONTEXTS = ['fasting', 'random', 'post_meal'];
+
+const vitalsRecordSchema = new mongoose.Schema(
+  {
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    appointmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+    // Empty for values carried over from the old single-value patient fields
+    recordedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    recordedAt: {
+      type: Date,
+      required: [true, 'Recorded time is required'],
+      default: Date.now,
+    },
+    // mmHg
+    systolic: {
+      type: Number,
+      min: [50, 'Systolic pressure must be at least 50 mmHg'],
+      max: [300, 'Systolic pressure must be at most 300 mmHg'],
+    },
+    diastolic: {
+      type: Number,
+      min: [20, 'Diastolic pressure must be at least 20 mmHg'],
+      max: [200, 'Diastolic pressure must be at most 200 mmHg'],
+    },
+    // Beats per minute
+    pulse: {
+      type: Number,
+      min: [20, 'Pulse must be at least 20 bpm'],
+      max: [250, 'Pulse must be at most 250 bpm'],
+    },
+    // %
+    spo2: {
+      type: Number,
+      min: [50, 'SpO2 must be at least 50%'],
+      max: [100, 'SpO2 cannot be more than 100%'],
+    },
+    // °C
+    temperature: {
+      type: Number,
+      min: [30, 'Temperature must be at least 30°C'],
+      max: [45, 'Temperature must be at most 45°C'],
+    },
+    // kg
+    weight: {
+      type: Number,
+      min: [0.5, 'Weight must be at least 0.5 kg'],
+      max: [500, 'Weight must be at most 500 kg'],
+    },
+    // cm
+    height: {
+      type: Number,
+      min: [30, 'Height must be at least 30 cm'],
+      max: [250, 'Height must be at most 250 cm'],
+    },
+    // mg/dL
+    bloodSugar: {
+      type: Number,
+      min: [10, 'Blood sugar must be at least 10 mg/dL'],
+      max: [1000, 'Blood sugar must be at most 1000 mg/dL'],
+    },
+    bloodSugarContext: {
+      type: String,
+      enum: {
+        values: BLOOD_SUGAR_CONTEXTS,
+        message: '{VALUE} is not a valid blood sugar context',
+      },
+      default: 'random',
+    },
+    notes: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+vitalsRecordSchema.index({ patientId: 1, recordedAt: -1 });
+vitalsRecordSchema.index({ appointmentId: 1 });
+
+const VitalsRecord = mongoose.model('VitalsRecord', vitalsRecordSchema);
+
+module.exports = VitalsRecord;
+module.exports.VITAL_FIELDS = VITAL_FIELDS;
+module.exports.BLOOD_SUGAR_CONTEXTS = BLOOD_SUGAR_CONTEXTS;
@@ -0,0 +1,97 @@
+const mongoose = require('mongoose');
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// A day/time range the patient can come in; omit dayOfWeek for "any day"
+const preferredWindowSchema = new mongoose.Schema(
+  {
+    dayOfWeek: {
+      type: Number,
+      min: [0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+      max: [6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+    },
+    startTime: {
+      type: String,
+      required: [true, 'Window start is required'],
+      match: [TIME_PATTERN, 'Window start must be in HH:mm format'],
+    },
+    endTime: {
+      type: String,
+      required: [true, 'Window end is required'],
+      match: [TIME_PATTERN, 'Window end must be in HH:mm format'],
+    },
+  },
+  { _id: false }
+);
+
+const waitlistEntrySchema = new mongoose.Schema(
+  {
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    preferredDoctorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    preferredWindows: [preferredWindowSchema],
+    urgency: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['low', 'normal', 'high', 'urgent'],
+        message: '{VALUE} is not a valid urgency',
+      },
+      default: 'normal',
+    },
+    // Minimum slot length the patient needs, in minutes
+    duration: {
+      type: Number,
+      min: [5, 'Duration must be at least 5 minutes'],
+      default: 30,
+    },
+    notes: {
+      type: String,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['waiting', 'booked', 'removed'],
+        message: '{VALUE} is not a valid status',
+      },
+      default: 'waiting',
+    },
+    appointmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Validation: windows must end after they start
+waitlistEntrySchema.pre('validate', function (next) {
+  for (const window of this.preferredWindows) {
+    if (window.endTime <= window.startTime) {
+      return next(new Error('Preferred windows must end after they start'));
+    }
+  }
+  next();
+});
+
+// Indexes
+waitlistEntrySchema.index({ status: 1, urgency: 1, createdAt: 1 });
+waitlistEntrySchema.index({ patientId: 1 });
+waitlistEntrySchema.index({ preferredDoctorId: 1 });
+
+const WaitlistEntry = mongoose.model('WaitlistEntry', waitlistEntrySchema);
+
+module.exports = WaitlistEntry;
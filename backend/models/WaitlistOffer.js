@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+
+const waitlistOfferSchema = new mongoose.Schema(
+  {
+    waitlistEntryId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'WaitlistEntry',
+      required: [true, 'Waitlist entry is required'],
+    },
+    patientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient is required'],
+    },
+    // The cancelled appointment whose slot is being offered
+    sourceAppointmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Appointment',
+      required: [true, 'Source appointment is required'],
+    },
+    doctorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Doctor is required'],
+    },
+    roomId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Room',
+    },
+    equipmentIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Room',
+    }],
+    startTime: {
+      type: Date,
+      required: [true, 'Start time is required'],
+    },
+    endTime: {
+      type: Date,
+      required: [true, 'End time is required'],
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['pending', 'accepted', 'declined', 'taken', 'expired', 'withdrawn'],
+        message: '{VALUE} is not a valid offer status',
+      },
+      default: 'pending',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    respondedAt: {
+      type: Date,
+    },
+    appointmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+waitlistOfferSchema.index({ waitlistEntryId: 1, createdAt: -1 });
+waitlistOfferSchema.index({ sourceAppointmentId: 1, status: 1 });
+// Only one offer per freed slot can ever be accepted - first to accept wins
+waitlistOfferSchema.index(
+  { sourceAppointmentId: 1 },
+  { unique: true, partialFilterExpression: { status: 'accepted' } }
+);
+
+const WaitlistOffer = mongoose.model('WaitlistOffer', waitlistOfferSchema);
+
+module.exports = WaitlistOffer;
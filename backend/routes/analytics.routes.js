@@ -2,14 +2,16 @@ const express = require('express');
 const router = express.Router();
 const analyticsController = require('../controllers/analytics.controller');
 const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
 
-// All routes require authentication
-router.use(authMiddleware);
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
 
 router.get('/dashboard', analyticsController.getDashboardMetrics);
 router.get('/patient-growth', analyticsController.getPatientGrowth);
 router.get('/revenue-by-treatment', analyticsController.getRevenueByTreatment);
 router.get('/patients-by-doctor', analyticsController.getPatientsByDoctor);
 router.get('/diseases', analyticsController.getDiseases);
+router.get('/ar-aging', roleMiddleware(['admin', 'receptionist']), analyticsController.getArAging);
 
 module.exports = router;
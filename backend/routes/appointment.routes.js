@@ -4,12 +4,15 @@ const appointmentController = require('../controllers/appointment.controller');
 const authMiddleware = require('../middleware/auth');
 const roleMiddleware = require('../middleware/roleCheck');
 
-// All routes require authentication
-router.use(authMiddleware);
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
 
 // Calendar view
 router.get('/calendar', appointmentController.getCalendarAppointments);
 
+// Free slots for a doctor
+router.get('/availability', appointmentController.getAvailability);
+
 // List and create appointments
 router.get('/', appointmentController.getAppointments);
 router.post('/', roleMiddleware(['admin', 'receptionist', 'dentist']), appointmentController.createAppointment);
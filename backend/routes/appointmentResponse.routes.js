@@ -0,0 +1,9 @@
+const express = require('express');
+const router = express.Router();
+const appointmentResponseController = require('../controllers/appointmentResponse.controller');
+
+// Public routes - reached from the signed links in appointment emails
+router.get('/:token', appointmentResponseController.getAppointmentForResponse);
+router.post('/:token', appointmentResponseController.respondToAppointment);
+
+module.exports = router;
@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const claimController = require('../controllers/claim.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for the front desk (claims are billing work)
+router.use(authMiddleware, roleMiddleware(['admin', 'receptionist']));
+
+router.get('/', claimController.getClaims);
+router.get('/summary', claimController.getClaimSummary);
+router.get('/:id', claimController.getClaimById);
+router.get('/:id/pdf', claimController.downloadClaimPDF);
+router.post('/', claimController.createClaim);
+router.put('/:id', claimController.updateClaim);
+router.post('/:id/submit', claimController.submitClaim);
+router.post('/:id/decision', claimController.recordDecision);
+router.post('/:id/payment', claimController.recordClaimPayment);
+router.delete('/:id', claimController.deleteClaim);
+
+module.exports = router;
@@ -0,0 +1,16 @@
+const express = require('express');
+const router = express.Router();
+const consentTemplateController = require('../controllers/consentTemplate.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/variables', consentTemplateController.getVariables);
+router.get('/', consentTemplateController.getTemplates);
+router.post('/', roleMiddleware(['admin']), consentTemplateController.createTemplate);
+router.put('/:id', roleMiddleware(['admin']), consentTemplateController.updateTemplate);
+router.delete('/:id', roleMiddleware(['admin']), consentTemplateController.deleteTemplate);
+
+module.exports = router;
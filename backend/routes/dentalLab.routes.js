@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const dentalLabController = require('../controllers/dentalLab.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', dentalLabController.getLabs);
+router.post('/', roleMiddleware(['admin', 'receptionist']), dentalLabController.createLab);
+router.put('/:id', roleMiddleware(['admin', 'receptionist']), dentalLabController.updateLab);
+router.delete('/:id', roleMiddleware(['admin']), dentalLabController.deleteLab);
+
+module.exports = router;
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const drugController = require('../controllers/drug.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for the staff who prescribe
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist']));
+
+router.get('/', drugController.getDrugs);
+router.post('/', roleMiddleware(['admin']), drugController.createDrug);
+router.put('/:id', roleMiddleware(['admin']), drugController.updateDrug);
+router.delete('/:id', roleMiddleware(['admin']), drugController.deleteDrug);
+
+module.exports = router;
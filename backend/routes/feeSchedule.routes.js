@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const feeScheduleController = require('../controllers/feeSchedule.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', feeScheduleController.getFeeSchedules);
+router.post('/', roleMiddleware(['admin']), feeScheduleController.createFeeSchedule);
+router.put('/:id', roleMiddleware(['admin']), feeScheduleController.updateFeeSchedule);
+router.delete('/:id', roleMiddleware(['admin']), feeScheduleController.deleteFeeSchedule);
+
+module.exports = router;
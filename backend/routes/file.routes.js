@@ -2,9 +2,10 @@ const express = require('express');
 const router = express.Router();
 const fileController = require('../controllers/file.controller');
 const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
 
-// All routes require authentication
-router.use(authMiddleware);
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
 
 router.post('/upload', fileController.uploadMiddleware, fileController.uploadFile);
 router.delete('/:id', fileController.deleteFile);
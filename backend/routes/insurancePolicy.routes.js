@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const insurancePolicyController = require('../controllers/insurancePolicy.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', insurancePolicyController.getPolicies);
+router.post('/', roleMiddleware(['admin', 'receptionist']), insurancePolicyController.createPolicy);
+router.put('/:id', roleMiddleware(['admin', 'receptionist']), insurancePolicyController.updatePolicy);
+router.delete('/:id', roleMiddleware(['admin', 'receptionist']), insurancePolicyController.deletePolicy);
+
+module.exports = router;
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const insuranceProviderController = require('../controllers/insuranceProvider.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', insuranceProviderController.getProviders);
+router.post('/', roleMiddleware(['admin']), insuranceProviderController.createProvider);
+router.put('/:id', roleMiddleware(['admin']), insuranceProviderController.updateProvider);
+router.delete('/:id', roleMiddleware(['admin']), insuranceProviderController.deleteProvider);
+
+module.exports = router;
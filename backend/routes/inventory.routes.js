@@ -0,0 +1,19 @@
+const express = require('express');
+const router = express.Router();
+const inventoryController = require('../controllers/inventory.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/alerts', inventoryController.getAlerts);
+router.get('/items', inventoryController.getItems);
+router.get('/items/:id', inventoryController.getItemById);
+router.post('/items', roleMiddleware(['admin', 'receptionist']), inventoryController.createItem);
+router.put('/items/:id', roleMiddleware(['admin', 'receptionist']), inventoryController.updateItem);
+router.delete('/items/:id', roleMiddleware(['admin']), inventoryController.deleteItem);
+router.post('/items/:id/receive', roleMiddleware(['admin', 'receptionist']), inventoryController.receiveItemStock);
+router.post('/batches/:batchId/adjust', roleMiddleware(['admin', 'receptionist']), inventoryController.adjustBatchStock);
+
+module.exports = router;
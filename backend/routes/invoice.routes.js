@@ -1,11 +1,13 @@
 const express = require('express');
 const router = express.Router();
 const invoiceController = require('../controllers/invoice.controller');
+const paymentController = require('../controllers/payment.controller');
+const creditNoteController = require('../controllers/creditNote.controller');
 const authMiddleware = require('../middleware/auth');
 const roleMiddleware = require('../middleware/roleCheck');
 
-// All routes require authentication
-router.use(authMiddleware);
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
 
 router.get('/', invoiceController.getInvoices);
 router.get('/:id', invoiceController.getInvoiceById);
@@ -16,4 +18,15 @@ router.delete('/:id', roleMiddleware(['admin']), invoiceController.deleteInvoice
 // ✅ PDF download route
 router.get('/:id/pdf', invoiceController.downloadInvoicePDF);
 
+// Payments ledger
+router.get('/:id/payments', roleMiddleware(['admin', 'receptionist']), paymentController.getInvoicePayments);
+router.post('/:id/payments', roleMiddleware(['admin', 'receptionist']), paymentController.recordPayment);
+router.post('/:id/payments/:paymentId/void', roleMiddleware(['admin', 'receptionist']), paymentController.voidPayment);
+router.post('/:id/refunds', roleMiddleware(['admin', 'receptionist']), paymentController.recordRefund);
+
+// Credit notes
+router.get('/:id/credit-notes', creditNoteController.getInvoiceCreditNotes);
+router.post('/:id/credit-notes', roleMiddleware(['admin', 'receptionist']), creditNoteController.createCreditNote);
+router.get('/:id/credit-notes/:creditNoteId/pdf', creditNoteController.downloadCreditNotePDF);
+
 module.exports = router;
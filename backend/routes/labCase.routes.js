@@ -0,0 +1,17 @@
+const express = require('express');
+const router = express.Router();
+const labCaseController = require('../controllers/labCase.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', labCaseController.getLabCases);
+router.get('/:id', labCaseController.getLabCaseById);
+router.post('/', roleMiddleware(['admin', 'dentist']), labCaseController.createLabCase);
+router.put('/:id', labCaseController.updateLabCase);
+router.post('/:id/status', labCaseController.updateLabCaseStatus);
+router.delete('/:id', roleMiddleware(['admin']), labCaseController.deleteLabCase);
+
+module.exports = router;
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const notificationController = require('../controllers/notification.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes are admin only
+router.use(authMiddleware, roleMiddleware(['admin']));
+
+router.get('/', notificationController.getNotifications);
+router.get('/summary', notificationController.getSummary);
+router.get('/:id', notificationController.getNotificationById);
+router.post('/:id/resend', notificationController.resendNotification);
+
+module.exports = router;
@@ -0,0 +1,17 @@
+const express = require('express');
+const router = express.Router();
+const notificationTemplateController = require('../controllers/notificationTemplate.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes are admin only
+router.use(authMiddleware, roleMiddleware(['admin']));
+
+router.get('/', notificationTemplateController.getTemplates);
+router.get('/variables', notificationTemplateController.getVariables);
+router.post('/preview', notificationTemplateController.previewTemplate);
+router.get('/:type/:channel/:language', notificationTemplateController.getTemplate);
+router.put('/:type/:channel/:language', notificationTemplateController.saveTemplate);
+router.delete('/:type/:channel/:language', notificationTemplateController.resetTemplate);
+
+module.exports = router;
@@ -1,11 +1,16 @@
 const express = require('express');
 const router = express.Router();
 const patientController = require('../controllers/patient.controller');
+const chartController = require('../controllers/chart.controller');
+const clinicalNoteController = require('../controllers/clinicalNote.controller');
+const vitalsController = require('../controllers/vitals.controller');
+const consentController = require('../controllers/consent.controller');
+const prescriptionController = require('../controllers/prescription.controller');
 const authMiddleware = require('../middleware/auth');
 const roleMiddleware = require('../middleware/roleCheck');
 
-// All routes require authentication
-router.use(authMiddleware);
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
 
 // List and create patients
 router.get('/', patientController.getPatients);
@@ -17,12 +22,46 @@ router.post('/export', roleMiddleware(['admin', 'receptionist']), patientControl
 // Patient details
 router.get('/:id', patientController.getPatientById);
 router.put('/:id', roleMiddleware(['admin', 'receptionist']), patientController.updatePatient);
+router.put('/:id/medical-history', patientController.updateMedicalHistory);
 router.delete('/:id', roleMiddleware(['admin']), patientController.deletePatient);
 
 // Patient related data
 router.get('/:id/appointments', patientController.getPatientAppointments);
 router.get('/:id/treatments', patientController.getPatientTreatments);
 router.get('/:id/invoices', patientController.getPatientInvoices);
+router.get('/:id/credit', roleMiddleware(['admin', 'receptionist']), patientController.getPatientCredit);
 router.get('/:id/files', patientController.getPatientFiles);
+router.post('/:id/portal-account', roleMiddleware(['admin', 'receptionist']), patientController.createPortalAccount);
+
+// Dental chart
+router.get('/:id/chart', chartController.getChart);
+router.post('/:id/chart', roleMiddleware(['admin', 'dentist']), chartController.addCondition);
+router.put('/:id/chart/:conditionId', roleMiddleware(['admin', 'dentist']), chartController.updateCondition);
+router.delete('/:id/chart/:conditionId', roleMiddleware(['admin', 'dentist']), chartController.deleteCondition);
+
+// Clinical notes
+router.get('/:id/notes', clinicalNoteController.getNotes);
+router.post('/:id/notes', roleMiddleware(['admin', 'dentist']), clinicalNoteController.createNote);
+router.put('/:id/notes/:noteId', roleMiddleware(['admin', 'dentist']), clinicalNoteController.updateNote);
+router.post('/:id/notes/:noteId/sign', roleMiddleware(['dentist']), clinicalNoteController.signNote);
+router.post('/:id/notes/:noteId/addenda', roleMiddleware(['admin', 'dentist']), clinicalNoteController.addAddendum);
+router.delete('/:id/notes/:noteId', roleMiddleware(['admin', 'dentist']), clinicalNoteController.deleteNote);
+
+// Vitals
+router.get('/:id/vitals', vitalsController.getVitals);
+router.post('/:id/vitals', vitalsController.createVitals);
+router.put('/:id/vitals/:vitalsId', vitalsController.updateVitals);
+router.delete('/:id/vitals/:vitalsId', vitalsController.deleteVitals);
+
+// Consents
+router.get('/:id/consents', consentController.getConsents);
+router.post('/:id/consents/preview', consentController.previewConsent);
+router.post('/:id/consents', consentController.createConsent);
+router.get('/:id/consents/:consentId/pdf', consentController.downloadConsentPDF);
+
+// Prescriptions
+router.get('/:id/prescriptions', prescriptionController.getPrescriptions);
+router.post('/:id/prescriptions', roleMiddleware(['admin', 'dentist']), prescriptionController.createPrescription);
+router.get('/:id/prescriptions/:prescriptionId/pdf', prescriptionController.downloadPrescriptionPDF);
 
 module.exports = router;
@@ -0,0 +1,24 @@
+const express = require('express');
+const router = express.Router();
+const portalController = require('../controllers/portal.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require a patient portal login
+router.use(authMiddleware, roleMiddleware(['patient']));
+
+router.get('/me', portalController.getProfile);
+router.put('/reminder-preferences', portalController.updateReminderPreferences);
+
+// Appointments
+router.get('/booking-options', portalController.getBookingOptions);
+router.get('/availability', portalController.getAvailability);
+router.get('/appointments', portalController.getAppointments);
+router.post('/appointments', portalController.bookAppointment);
+router.delete('/appointments/:id', portalController.cancelAppointment);
+
+// Invoices
+router.get('/invoices', portalController.getInvoices);
+router.get('/invoices/:id/pdf', portalController.downloadInvoicePDF);
+
+module.exports = router;
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const procedureController = require('../controllers/procedure.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', procedureController.getProcedures);
+router.post('/', roleMiddleware(['admin']), procedureController.createProcedure);
+router.put('/:id', roleMiddleware(['admin']), procedureController.updateProcedure);
+router.delete('/:id', roleMiddleware(['admin']), procedureController.deleteProcedure);
+
+module.exports = router;
@@ -0,0 +1,19 @@
+const express = require('express');
+const router = express.Router();
+const purchaseOrderController = require('../controllers/purchaseOrder.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for the staff who order stock
+router.use(authMiddleware, roleMiddleware(['admin', 'receptionist']));
+
+router.get('/', purchaseOrderController.getPurchaseOrders);
+router.get('/:id', purchaseOrderController.getPurchaseOrderById);
+router.post('/', purchaseOrderController.createPurchaseOrder);
+router.put('/:id', purchaseOrderController.updatePurchaseOrder);
+router.post('/:id/order', purchaseOrderController.placePurchaseOrder);
+router.post('/:id/receive', purchaseOrderController.receivePurchaseOrder);
+router.post('/:id/cancel', purchaseOrderController.cancelPurchaseOrder);
+router.delete('/:id', roleMiddleware(['admin']), purchaseOrderController.deletePurchaseOrder);
+
+module.exports = router;
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const reminderRuleController = require('../controllers/reminderRule.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes are admin only
+router.use(authMiddleware, roleMiddleware(['admin']));
+
+router.get('/', reminderRuleController.getRules);
+router.post('/', reminderRuleController.createRule);
+router.put('/:id', reminderRuleController.updateRule);
+router.delete('/:id', reminderRuleController.deleteRule);
+
+module.exports = router;
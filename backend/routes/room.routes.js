@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const roomController = require('../controllers/room.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', roomController.getRooms);
+router.post('/', roleMiddleware(['admin']), roomController.createRoom);
+router.put('/:id', roleMiddleware(['admin']), roomController.updateRoom);
+router.delete('/:id', roleMiddleware(['admin']), roomController.deleteRoom);
+
+module.exports = router;
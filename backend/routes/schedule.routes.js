@@ -0,0 +1,19 @@
+const express = require('express');
+const router = express.Router();
+const scheduleController = require('../controllers/schedule.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+// Clinic closures
+router.get('/closures', scheduleController.getClosures);
+router.post('/closures', roleMiddleware(['admin']), scheduleController.createClosure);
+router.delete('/closures/:id', roleMiddleware(['admin']), scheduleController.deleteClosure);
+
+// Dentist working hours and leave
+router.get('/doctors/:doctorId', scheduleController.getDoctorSchedule);
+router.put('/doctors/:doctorId', roleMiddleware(['admin', 'dentist']), scheduleController.updateDoctorSchedule);
+
+module.exports = router;
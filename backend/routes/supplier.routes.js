@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const supplierController = require('../controllers/supplier.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for the staff who order stock
+router.use(authMiddleware, roleMiddleware(['admin', 'receptionist']));
+
+router.get('/', supplierController.getSuppliers);
+router.post('/', supplierController.createSupplier);
+router.put('/:id', supplierController.updateSupplier);
+router.delete('/:id', roleMiddleware(['admin']), supplierController.deleteSupplier);
+
+module.exports = router;
@@ -0,0 +1,24 @@
+const express = require('express');
+const router = express.Router();
+const treatmentPlanController = require('../controllers/treatmentPlan.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// All routes require authentication and are for clinic staff only
+router.use(authMiddleware, roleMiddleware(['admin', 'dentist', 'receptionist']));
+
+router.get('/', treatmentPlanController.getTreatmentPlans);
+router.get('/:id', treatmentPlanController.getTreatmentPlanById);
+router.get('/:id/pdf', treatmentPlanController.downloadTreatmentPlanPDF);
+router.post('/', roleMiddleware(['admin', 'dentist']), treatmentPlanController.createTreatmentPlan);
+router.put('/:id', roleMiddleware(['admin', 'dentist']), treatmentPlanController.updateTreatmentPlan);
+router.post('/:id/accept', treatmentPlanController.acceptTreatmentPlan);
+router.post('/:id/decline', treatmentPlanController.declineTreatmentPlan);
+router.post(
+  '/:id/items/:itemId/convert',
+  roleMiddleware(['admin', 'dentist']),
+  treatmentPlanController.convertPlanItem
+);
+router.delete('/:id', roleMiddleware(['admin']), treatmentPlanController.deleteTreatmentPlan);
+
+module.exports = router;
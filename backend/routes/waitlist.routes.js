@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const waitlistController = require('../controllers/waitlist.controller');
+const authMiddleware = require('../middleware/auth');
+const roleMiddleware = require('../middleware/roleCheck');
+
+// Public routes - reached from the link in the offer email
+router.get('/offers/:token', waitlistController.getOffer);
+router.post('/offers/:token/accept', waitlistController.acceptOffer);
+router.post('/offers/:token/decline', waitlistController.declineOffer);
+
+// Protected routes
+router.use(authMiddleware, roleMiddleware(['admin', 'receptionist']));
+
+router.get('/', waitlistController.getWaitlist);
+router.post('/', waitlistController.createEntry);
+router.put('/:id', waitlistController.updateEntry);
+router.delete('/:id', waitlistController.removeEntry);
+router.get('/:id/offers', waitlistController.getEntryOffers);
+
+module.exports = router;
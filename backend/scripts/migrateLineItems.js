@@ -0,0 +1,67 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+const Invoice = require('../models/Invoice');
+const CreditNote = require('../models/CreditNote');
+require('../models/Treatment');
+
+/**
+ * Give invoices created before line items one line per billed treatment
+ * Invoices whose treatments no longer add up to the invoiced total are left
+ * alone and listed, so they can be checked by hand
+ * Safe to run more than once - invoices that already have line items are skipped
+ */
+const migrateLineItems = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    const invoices = await Invoice.find({ 'lineItems.0': { $exists: false } }).populate('treatmentIds');
+    let migrated = 0;
+    const mismatched = [];
+
+    for (const invoice of invoices) {
+      const treatments = invoice.treatmentIds.filter(Boolean);
+      const treatmentTotal = Math.round(treatments.reduce((sum, t) => sum + t.cost, 0) * 100) / 100;
+
+      if (treatments.length === 0 || treatmentTotal !== invoice.totalAmount) {
+        mismatched.push(invoice.invoiceNumber);
+        continue;
+      }
+
+      invoice.lineItems = treatments.map((treatment) => ({
+        treatmentId: treatment._id,
+        description: treatment.treatmentType,
+        unitPrice: treatment.cost,
+      }));
+      await invoice.save();
+
+      // Credit notes issued before line items point at the treatment instead
+      const creditNotes = await CreditNote.collection.find({ invoiceId: invoice._id }).toArray();
+      for (const creditNote of creditNotes) {
+        const lines = creditNote.lines.map((line) => {
+          if (line.lineItemId || !line.treatmentId) return line;
+          const item = invoice.lineItems.find((lineItem) => lineItem.treatmentId.equals(line.treatmentId));
+          return { ...line, lineItemId: item?._id };
+        });
+        await CreditNote.collection.updateOne({ _id: creditNote._id }, { $set: { lines } });
+      }
+
+      migrated += 1;
+    }
+
+    console.log(`✓ Added line items to ${migrated} of ${invoices.length} invoices`);
+    if (mismatched.length > 0) {
+      console.log(`⚠ Treatments no longer match the invoiced total, check by hand: ${mismatched.join(', ')}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Line item migration error:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migrateLineItems();
@@ -0,0 +1,80 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+const Patient = require('../models/Patient');
+
+// With --dry-run the mapping is printed but nothing is written
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Free-text disease entries and the structured condition they mean
+const CONDITION_TERMS = [
+  { condition: 'diabetes', pattern: /diabet|dm\b|sugar/i },
+  { condition: 'hypertension', pattern: /hypertens|high (blood )?pressure|\bbp\b|htn/i },
+  { condition: 'pregnancy', pattern: /pregnan/i },
+  { condition: 'cardiac', pattern: /cardi|heart|angina|valve|pacemaker|arrhythm/i },
+  { condition: 'bleeding_disorder', pattern: /haemophil|hemophil|bleeding|thrombocytopen|von willebrand/i },
+  { condition: 'asthma', pattern: /asthma/i },
+  { condition: 'epilepsy', pattern: /epilep|seizure/i },
+  { condition: 'immunocompromised', pattern: /hiv|immun|chemo|transplant/i },
+];
+
+/**
+ * Turn the free-text diseases recorded on patients into structured conditions
+ * Entries that match no known condition are left in diseases and listed so they can be
+ * entered by hand; conditions a patient already has are not added twice
+ * Safe to run more than once
+ */
+const migrateMedicalHistory = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    const patients = await Patient.find({ 'diseases.0': { $exists: true } });
+
+    let updated = 0;
+    const unmatched = new Map();
+
+    for (const patient of patients) {
+      const existing = new Set(patient.conditions.map((entry) => entry.condition));
+      const added = [];
+
+      patient.diseases.forEach((disease) => {
+        const match = CONDITION_TERMS.find(({ pattern }) => pattern.test(disease));
+        if (!match) {
+          unmatched.set(disease, (unmatched.get(disease) || 0) + 1);
+          return;
+        }
+        if (!existing.has(match.condition)) {
+          existing.add(match.condition);
+          added.push({ condition: match.condition, notes: disease });
+        }
+      });
+
+      if (added.length === 0) continue;
+
+      console.log(`  ${patient.name}: ${added.map((entry) => `"${entry.notes}" → ${entry.condition}`).join(', ')}`);
+
+      if (!DRY_RUN) {
+        patient.conditions.push(...added);
+        await patient.save();
+      }
+      updated++;
+    }
+
+    console.log(`✓ ${DRY_RUN ? 'Would update' : 'Updated'} ${updated} of ${patients.length} patients with recorded diseases`);
+
+    if (unmatched.size > 0) {
+      console.log(`\n${unmatched.size} disease entries matched no condition - record them by hand if they matter for treatment:`);
+      unmatched.forEach((count, disease) => console.log(`  "${disease}" (${count})`));
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Medical history migration error:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migrateMedicalHistory();
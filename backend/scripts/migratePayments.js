@@ -0,0 +1,46 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+const Invoice = require('../models/Invoice');
+const Payment = require('../models/Payment');
+
+/**
+ * Move paid amounts entered before the payments ledger into opening payments
+ * Safe to run more than once - invoices that already have payments are skipped
+ */
+const migratePayments = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    const invoices = await Invoice.find({ paidAmount: { $gt: 0 } });
+    let migrated = 0;
+
+    for (const invoice of invoices) {
+      if (await Payment.exists({ invoiceId: invoice._id })) {
+        continue;
+      }
+
+      await Payment.create({
+        invoiceId: invoice._id,
+        patientId: invoice.patientId,
+        amount: invoice.paidAmount,
+        method: 'other',
+        paidAt: invoice.updatedAt,
+        notes: 'Paid amount recorded before the payments ledger',
+      });
+      migrated += 1;
+    }
+
+    console.log(`✓ Created opening payments for ${migrated} of ${invoices.length} paid invoices`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Payment migration error:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migratePayments();
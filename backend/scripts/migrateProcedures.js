@@ -0,0 +1,73 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+const Procedure = require('../models/Procedure');
+const Treatment = require('../models/Treatment');
+const { normalizeProcedureText, buildProcedureLookup } = require('../services/procedureService');
+
+// With --dry-run the mapping is printed but nothing is written
+const DRY_RUN = process.argv.includes('--dry-run');
+
+/**
+ * Link treatments entered as free text to the procedure catalog
+ * A treatment type maps to the procedure whose code, name or alias it matches once case,
+ * spacing and punctuation are ignored; unmatched types are listed so aliases can be added
+ * Safe to run more than once - linked treatments are skipped
+ */
+const migrateProcedures = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    const procedures = await Procedure.find();
+    if (procedures.length === 0) {
+      console.log('The procedure catalog is empty. Add procedures in Settings first.');
+      process.exit(0);
+    }
+
+    const lookup = buildProcedureLookup(procedures);
+
+    const types = await Treatment.aggregate([
+      { $match: { procedureId: { $exists: false } } },
+      { $group: { _id: '$treatmentType', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+    ]);
+
+    let linked = 0;
+    const unmatched = [];
+
+    for (const { _id: treatmentType, count } of types) {
+      const procedure = lookup.get(normalizeProcedureText(treatmentType));
+      if (!procedure) {
+        unmatched.push({ treatmentType, count });
+        continue;
+      }
+
+      console.log(`  "${treatmentType}" → ${procedure.code} ${procedure.name} (${count})`);
+
+      if (!DRY_RUN) {
+        await Treatment.updateMany(
+          { treatmentType, procedureId: { $exists: false } },
+          { procedureId: procedure._id, treatmentType: procedure.name }
+        );
+      }
+      linked += count;
+    }
+
+    console.log(`✓ ${DRY_RUN ? 'Would link' : 'Linked'} ${linked} treatments to the procedure catalog`);
+
+    if (unmatched.length > 0) {
+      console.log(`\n${unmatched.length} treatment types matched no procedure - add them as aliases and run again:`);
+      unmatched.forEach(({ treatmentType, count }) => console.log(`  "${treatmentType}" (${count})`));
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Procedure migration error:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migrateProcedures();
@@ -0,0 +1,63 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+const Patient = require('../models/Patient');
+const VitalsRecord = require('../models/VitalsRecord');
+const { snapshotToVitals } = require('../services/vitalsService');
+
+// With --dry-run the records are printed but nothing is written
+const DRY_RUN = process.argv.includes('--dry-run');
+
+/**
+ * Start each patient's vitals history from the single weight, height, blood pressure and
+ * temperature values kept on the patient, dated when the patient was last updated
+ * Blood pressures that can't be read as systolic/diastolic are listed and left out
+ * Safe to run more than once - patients who already have vitals records are skipped
+ */
+const migrateVitals = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    const patients = await Patient.find({
+      $or: ['weight', 'height', 'bloodPressure', 'temperature'].map((field) => ({ [field]: { $ne: null } })),
+    });
+
+    let created = 0;
+    const unreadable = [];
+
+    for (const patient of patients) {
+      if (await VitalsRecord.exists({ patientId: patient._id })) continue;
+
+      let vitals = snapshotToVitals(patient);
+      if (vitals.error) {
+        unreadable.push(patient);
+        vitals = snapshotToVitals({ ...patient.toObject(), bloodPressure: undefined });
+      }
+      if (Object.keys(vitals.values).length === 0) continue;
+
+      console.log(`  ${patient.name}: ${Object.entries(vitals.values).map(([field, value]) => `${field} ${value}`).join(', ')}`);
+
+      if (!DRY_RUN) {
+        await VitalsRecord.create({ patientId: patient._id, recordedAt: patient.updatedAt, ...vitals.values });
+      }
+      created++;
+    }
+
+    console.log(`✓ ${DRY_RUN ? 'Would create' : 'Created'} vitals records for ${created} of ${patients.length} patients`);
+
+    if (unreadable.length > 0) {
+      console.log(`\n${unreadable.length} blood pressures could not be read - record them again from the Vitals tab:`);
+      unreadable.forEach((patient) => console.log(`  ${patient.name}: "${patient.bloodPressure}"`));
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Vitals migration error:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migrateVitals();
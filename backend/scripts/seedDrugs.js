@@ -0,0 +1,172 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+const Drug = require('../models/Drug');
+
+// With --dry-run the drugs are printed but nothing is written
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Drugs commonly prescribed after dental treatment, with the usual adult directions
+const DRUGS = [
+  {
+    name: 'Amoxicillin',
+    genericName: 'Amoxicillin',
+    drugClass: 'Penicillin',
+    strength: '500 mg',
+    form: 'capsule',
+    defaultDosage: '1 capsule',
+    defaultFrequency: 'Three times a day',
+    defaultDuration: '5 days',
+  },
+  {
+    name: 'Amoxicillin + Clavulanic Acid',
+    genericName: 'Co-amoxiclav',
+    drugClass: 'Penicillin',
+    strength: '625 mg',
+    form: 'tablet',
+    defaultDosage: '1 tablet',
+    defaultFrequency: 'Twice a day',
+    defaultDuration: '5 days',
+    defaultInstructions: 'After food',
+  },
+  {
+    name: 'Azithromycin',
+    genericName: 'Azithromycin',
+    drugClass: 'Macrolide',
+    strength: '500 mg',
+    form: 'tablet',
+    defaultDosage: '1 tablet',
+    defaultFrequency: 'Once a day',
+    defaultDuration: '3 days',
+  },
+  {
+    name: 'Clindamycin',
+    genericName: 'Clindamycin',
+    drugClass: 'Lincosamide',
+    strength: '300 mg',
+    form: 'capsule',
+    defaultDosage: '1 capsule',
+    defaultFrequency: 'Three times a day',
+    defaultDuration: '5 days',
+  },
+  {
+    name: 'Metronidazole',
+    genericName: 'Metronidazole',
+    drugClass: 'Nitroimidazole',
+    strength: '400 mg',
+    form: 'tablet',
+    defaultDosage: '1 tablet',
+    defaultFrequency: 'Three times a day',
+    defaultDuration: '5 days',
+    defaultInstructions: 'After food; avoid alcohol',
+  },
+  {
+    name: 'Ibuprofen',
+    genericName: 'Ibuprofen',
+    drugClass: 'NSAID',
+    strength: '400 mg',
+    form: 'tablet',
+    defaultDosage: '1 tablet',
+    defaultFrequency: 'Three times a day',
+    defaultDuration: '3 days',
+    defaultInstructions: 'After food',
+  },
+  {
+    name: 'Diclofenac',
+    genericName: 'Diclofenac',
+    drugClass: 'NSAID',
+    strength: '50 mg',
+    form: 'tablet',
+    defaultDosage: '1 tablet',
+    defaultFrequency: 'Twice a day',
+    defaultDuration: '3 days',
+    defaultInstructions: 'After food',
+  },
+  {
+    name: 'Paracetamol',
+    genericName: 'Paracetamol',
+    drugClass: 'Analgesic',
+    strength: '650 mg',
+    form: 'tablet',
+    defaultDosage: '1 tablet',
+    defaultFrequency: 'Three times a day',
+    defaultDuration: '3 days',
+  },
+  {
+    name: 'Pantoprazole',
+    genericName: 'Pantoprazole',
+    drugClass: 'Proton pump inhibitor',
+    strength: '40 mg',
+    form: 'tablet',
+    defaultDosage: '1 tablet',
+    defaultFrequency: 'Once a day',
+    defaultDuration: '5 days',
+    defaultInstructions: 'Before breakfast',
+  },
+  {
+    name: 'Chlorhexidine Mouthwash',
+    genericName: 'Chlorhexidine gluconate',
+    drugClass: 'Antiseptic',
+    strength: '0.2%',
+    form: 'mouthwash',
+    defaultDosage: '10 ml',
+    defaultFrequency: 'Twice a day',
+    defaultDuration: '7 days',
+    defaultInstructions: 'Rinse for 30 seconds and spit out; do not swallow',
+  },
+  {
+    name: 'Lidocaine Oral Gel',
+    genericName: 'Lidocaine',
+    drugClass: 'Local anesthetic',
+    strength: '2%',
+    form: 'gel',
+    defaultDosage: 'Apply a thin layer',
+    defaultFrequency: 'Three times a day',
+    defaultDuration: '5 days',
+  },
+  {
+    name: 'Sensitivity Toothpaste',
+    genericName: 'Potassium nitrate',
+    drugClass: 'Desensitizer',
+    strength: '5%',
+    form: 'toothpaste',
+    defaultDosage: 'Pea-sized amount',
+    defaultFrequency: 'Twice a day',
+    defaultDuration: '1 month',
+  },
+];
+
+/**
+ * Fill the drug list with common dental prescriptions
+ * Safe to run more than once - drugs already on the list are skipped
+ */
+const seedDrugs = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    let created = 0;
+
+    for (const drug of DRUGS) {
+      if (await Drug.exists({ name: drug.name, strength: drug.strength, form: drug.form })) continue;
+
+      console.log(`  ${drug.name} ${drug.strength} (${drug.form})`);
+
+      if (!DRY_RUN) {
+        await Drug.create(drug);
+      }
+      created++;
+    }
+
+    console.log(`✓ ${DRY_RUN ? 'Would add' : 'Added'} ${created} of ${DRUGS.length} drugs`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Drug seeding error:', error);
+    process.exit(1);
+  }
+};
+
+// Run seeding
+seedDrugs();
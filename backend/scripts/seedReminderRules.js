@@ -0,0 +1,44 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+const ReminderRule = require('../models/ReminderRule');
+const { DEFAULT_REMINDER_RULES } = require('../services/reminderService');
+
+// With --dry-run the rules are printed but nothing is written
+const DRY_RUN = process.argv.includes('--dry-run');
+
+/**
+ * Create the default reminder rules for a clinic that has none yet
+ * Run once at setup; rules deleted later from Settings stay deleted
+ */
+const seedReminderRules = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    const existing = await ReminderRule.countDocuments();
+    if (existing > 0) {
+      console.log(`Clinic already has ${existing} reminder rules. Skipping.`);
+      process.exit(0);
+    }
+
+    DEFAULT_REMINDER_RULES.forEach((rule) => {
+      console.log(`  ${rule.name} (${rule.offsetHours}h, ${rule.channel})`);
+    });
+
+    if (!DRY_RUN) {
+      await ReminderRule.insertMany(DEFAULT_REMINDER_RULES);
+    }
+
+    console.log(`✓ ${DRY_RUN ? 'Would add' : 'Added'} ${DEFAULT_REMINDER_RULES.length} reminder rules`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Reminder rule seeding error:', error);
+    process.exit(1);
+  }
+};
+
+// Run seeding
+seedReminderRules();
@@ -0,0 +1,94 @@
+const path = require('path');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+
+// Number the test invoices on their own branch so the clinic's sequence is left alone
+process.env.INVOICE_NUMBER_BRANCH = 'TEST';
+
+const mongoose = require('mongoose');
+const Patient = require('../models/Patient');
+const Invoice = require('../models/Invoice');
+const Counter = require('../models/Counter');
+const invoiceController = require('../controllers/invoice.controller');
+
+const PARALLEL_INVOICES = parseInt(process.env.PARALLEL_INVOICES) || 50;
+
+/**
+ * Call createInvoice the way the router would and resolve with the invoice number
+ */
+const createInvoice = (patientId, index) =>
+  new Promise((resolve, reject) => {
+    const req = {
+      body: {
+        patientId,
+        lineItems: [{ description: `Numbering test ${index + 1}`, unitPrice: 100 }],
+      },
+      user: { role: 'receptionist' },
+    };
+    const res = {
+      status(code) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body) {
+        if (this.statusCode !== 201) {
+          reject(new Error(body.error || `createInvoice responded ${this.statusCode}`));
+        } else {
+          resolve(body.data.invoice.invoiceNumber);
+        }
+      },
+    };
+
+    invoiceController.createInvoice(req, res, reject);
+  });
+
+/**
+ * Fire many createInvoice calls at once and check that every invoice got its own number
+ * Run against a test database: TEST_MONGO_URI, falling back to MONGO_URI
+ */
+const testInvoiceNumbering = async () => {
+  let patient;
+
+  try {
+    await mongoose.connect(process.env.TEST_MONGO_URI || process.env.MONGO_URI);
+
+    console.log('Connected to MongoDB');
+
+    // The unique index is the last line of defence, so make sure it exists before racing
+    await Invoice.syncIndexes();
+    await Counter.syncIndexes();
+
+    patient = await Patient.create({ name: 'Numbering Test', contact: '0000000000' });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_INVOICES }, (_, index) => createInvoice(patient._id, index))
+    );
+
+    const failures = results.filter((result) => result.status === 'rejected');
+    const numbers = results.filter((result) => result.status === 'fulfilled').map((result) => result.value);
+    const duplicates = numbers.filter((number, index) => numbers.indexOf(number) !== index);
+
+    failures.forEach((failure) => console.error('✗ createInvoice failed:', failure.reason.message));
+    duplicates.forEach((number) => console.error('✗ Duplicate invoice number:', number));
+
+    const passed = failures.length === 0 && duplicates.length === 0;
+    console.log(
+      `${passed ? '✓' : '✗'} ${numbers.length} of ${PARALLEL_INVOICES} parallel invoices created, ` +
+        `${new Set(numbers).size} unique numbers (${[...numbers].sort()[0]} onwards)`
+    );
+
+    process.exitCode = passed ? 0 : 1;
+  } catch (error) {
+    console.error('Invoice numbering test error:', error);
+    process.exitCode = 1;
+  } finally {
+    if (patient) {
+      await Invoice.deleteMany({ patientId: patient._id });
+      await Patient.deleteOne({ _id: patient._id });
+      await Counter.deleteMany({ key: /^invoice:TEST:/ });
+    }
+    await mongoose.disconnect();
+  }
+};
+
+// Run the test
+testInvoiceNumbering();
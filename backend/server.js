@@ -4,6 +4,8 @@ const cors = require('cors');
 const connectDB = require('./config/db');
 const errorHandler = require('./middleware/errorHandler');
 const startReminderCron = require('./jobs/reminderCron');
+const startNotificationWorker = require('./jobs/notificationWorker');
+const startDunningCron = require('./jobs/dunningCron');
 
 // Import routes
 const authRoutes = require('./routes/auth.routes');
@@ -11,9 +13,30 @@ const userRoutes = require('./routes/user.routes');
 const patientRoutes = require('./routes/patient.routes');
 const appointmentRoutes = require('./routes/appointment.routes');
 const treatmentRoutes = require('./routes/treatment.routes');
+const treatmentPlanRoutes = require('./routes/treatmentPlan.routes');
 const invoiceRoutes = require('./routes/invoice.routes');
 const fileRoutes = require('./routes/file.routes');
 const analyticsRoutes = require('./routes/analytics.routes');
+const scheduleRoutes = require('./routes/schedule.routes');
+const roomRoutes = require('./routes/room.routes');
+const waitlistRoutes = require('./routes/waitlist.routes');
+const portalRoutes = require('./routes/portal.routes');
+const appointmentResponseRoutes = require('./routes/appointmentResponse.routes');
+const reminderRuleRoutes = require('./routes/reminderRule.routes');
+const notificationRoutes = require('./routes/notification.routes');
+const notificationTemplateRoutes = require('./routes/notificationTemplate.routes');
+const insuranceProviderRoutes = require('./routes/insuranceProvider.routes');
+const insurancePolicyRoutes = require('./routes/insurancePolicy.routes');
+const claimRoutes = require('./routes/claim.routes');
+const procedureRoutes = require('./routes/procedure.routes');
+const feeScheduleRoutes = require('./routes/feeSchedule.routes');
+const inventoryRoutes = require('./routes/inventory.routes');
+const supplierRoutes = require('./routes/supplier.routes');
+const purchaseOrderRoutes = require('./routes/purchaseOrder.routes');
+const consentTemplateRoutes = require('./routes/consentTemplate.routes');
+const drugRoutes = require('./routes/drug.routes');
+const dentalLabRoutes = require('./routes/dentalLab.routes');
+const labCaseRoutes = require('./routes/labCase.routes');
 
 // Initialize Express app
 const app = express();
@@ -23,7 +46,8 @@ connectDB();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Signed consents carry the drawn signature as an image
+app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Health check route
@@ -41,9 +65,30 @@ app.use('/api/users', userRoutes);
 app.use('/api/patients', patientRoutes);
 app.use('/api/appointments', appointmentRoutes);
 app.use('/api/treatments', treatmentRoutes);
+app.use('/api/treatment-plans', treatmentPlanRoutes);
 app.use('/api/invoices', invoiceRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/rooms', roomRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/portal', portalRoutes);
+app.use('/api/appointment-responses', appointmentResponseRoutes);
+app.use('/api/reminder-rules', reminderRuleRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/notification-templates', notificationTemplateRoutes);
+app.use('/api/insurance-providers', insuranceProviderRoutes);
+app.use('/api/insurance-policies', insurancePolicyRoutes);
+app.use('/api/claims', claimRoutes);
+app.use('/api/procedures', procedureRoutes);
+app.use('/api/fee-schedules', feeScheduleRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/suppliers', supplierRoutes);
+app.use('/api/purchase-orders', purchaseOrderRoutes);
+app.use('/api/consent-templates', consentTemplateRoutes);
+app.use('/api/drugs', drugRoutes);
+app.use('/api/labs', dentalLabRoutes);
+app.use('/api/lab-cases', labCaseRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -58,6 +103,8 @@ app.use(errorHandler);
 
 // Start cron jobs
 startReminderCron();
+startNotificationWorker();
+startDunningCron();
 
 // Start server
 const PORT = process.env.PORT || 5000;
@@ -0,0 +1,56 @@
+const jwt = require('jsonwebtoken');
+
+const RESPONSE_ACTIONS = ['confirm', 'cancel', 'reschedule'];
+
+// Keeps these tokens from being accepted anywhere a login token is expected, and vice versa
+const TOKEN_PURPOSE = 'appointment_response';
+
+/**
+ * Sign a token that lets a patient respond to one appointment without logging in
+ * The token expires when the appointment starts
+ */
+const createResponseToken = (appointment, notificationId) => {
+  const secondsUntilStart = Math.floor((new Date(appointment.startTime).getTime() - Date.now()) / 1000);
+
+  return jwt.sign(
+    {
+      purpose: TOKEN_PURPOSE,
+      appointmentId: appointment._id.toString(),
+      notificationId: notificationId.toString(),
+    },
+    process.env.JWT_SECRET,
+    { expiresIn: Math.max(secondsUntilStart, 60) }
+  );
+};
+
+/**
+ * Verify a response token
+ * Returns the payload, or null when the token is invalid, expired or meant for something else
+ */
+const verifyResponseToken = (token) => {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET);
+    return payload.purpose === TOKEN_PURPOSE ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build the Confirm / Cancel / Request reschedule links for an email
+ */
+const buildResponseLinks = (token) => {
+  const baseUrl = `${process.env.CLIENT_URL || 'http://localhost:5173'}/appointments/respond/${token}`;
+
+  return RESPONSE_ACTIONS.reduce((links, action) => {
+    links[action] = `${baseUrl}?action=${action}`;
+    return links;
+  }, {});
+};
+
+module.exports = {
+  RESPONSE_ACTIONS,
+  createResponseToken,
+  verifyResponseToken,
+  buildResponseLinks,
+};
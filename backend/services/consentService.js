@@ -0,0 +1,118 @@
+const ConsentTemplate = require('../models/ConsentTemplate');
+const Consent = require('../models/Consent');
+const File = require('../models/File');
+const { CLINIC_VARIABLES, clinicVariables, findUnknownPlaceholders, renderTemplate } = require('./templateService');
+const { generateConsentPDF } = require('./pdfService');
+const { uploadToS3 } = require('./s3Service');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A consent not tied to a treatment covers treatments for its procedures for this many days
+const CONSENT_VALID_DAYS = parseInt(process.env.CONSENT_VALID_DAYS) || 180;
+
+/**
+ * Variables a consent form can use
+ */
+const CONSENT_VARIABLES = [
+  'patient.name',
+  'patient.age',
+  'procedure.name',
+  'treatment.name',
+  'treatment.tooth',
+  'doctor.name',
+  'date',
+  ...CLINIC_VARIABLES,
+];
+
+/**
+ * Placeholders in consent text that a consent form doesn't provide
+ */
+const findUnknownConsentVariables = (body) => findUnknownPlaceholders(CONSENT_VARIABLES, body);
+
+/**
+ * Fill in a template's text for a patient, and the treatment or procedure it is signed for
+ */
+const renderConsent = (template, { patient, procedure, treatment, doctor }) =>
+  renderTemplate(template.body, {
+    clinic: clinicVariables(),
+    patient: { name: patient.name, age: patient.age },
+    procedure: { name: procedure?.name || treatment?.treatmentType },
+    treatment: { name: treatment?.treatmentType, tooth: treatment?.toothNumber },
+    doctor: { name: doctor?.name },
+    date: new Date().toLocaleDateString(),
+  });
+
+/**
+ * Mandatory consent templates for a procedure that the patient hasn't signed
+ * A consent signed for the treatment itself counts, and so does one signed for the
+ * template without a treatment in the last CONSENT_VALID_DAYS
+ */
+const getMissingConsents = async ({ patientId, procedureId, treatmentId }, now = new Date()) => {
+  if (!procedureId) {
+    return [];
+  }
+
+  const templates = await ConsentTemplate.find({ procedureIds: procedureId, isMandatory: true, isActive: true });
+  if (templates.length === 0) {
+    return [];
+  }
+
+  const coverage = [{ treatmentId: null, signedAt: { $gte: new Date(now.getTime() - CONSENT_VALID_DAYS * DAY_MS) } }];
+  if (treatmentId) {
+    coverage.push({ treatmentId });
+  }
+
+  const signed = await Consent.find({
+    patientId,
+    templateId: { $in: templates.map((template) => template._id) },
+    $or: coverage,
+  }).distinct('templateId');
+
+  const signedIds = signed.map(String);
+  return templates.filter((template) => !signedIds.includes(String(template._id)));
+};
+
+/**
+ * Response body for a treatment that can't be completed until consent forms are signed
+ */
+const missingConsentError = (missing) => ({
+  success: false,
+  error: `Signed consent is required before this treatment can be completed: ${missing.map((template) => template.name).join(', ')}`,
+  missingConsents: missing.map(({ _id, name }) => ({ _id, name })),
+});
+
+/**
+ * Build the signed PDF and add it to the patient's files
+ * Returns null if the upload fails; the consent keeps its text and signature, so storing is tried again on download
+ */
+const storeConsentPDF = async (consent, userId) => {
+  const pdf = await generateConsentPDF(consent);
+  const fileName = `consent-${consent.title.replace(/[^\w-]+/g, '-').toLowerCase()}-${consent._id}.pdf`;
+  const s3Key = `patients/${consent.patientId._id}/consents/${fileName}`;
+
+  const upload = await uploadToS3({ buffer: pdf, mimetype: 'application/pdf' }, s3Key);
+  if (!upload.success) {
+    return null;
+  }
+
+  return File.create({
+    patientId: consent.patientId._id,
+    fileName,
+    fileType: 'consent',
+    mimeType: 'application/pdf',
+    fileSize: pdf.length,
+    s3Key,
+    s3Bucket: process.env.AWS_S3_BUCKET || 'dental-clinic-files',
+    uploadedBy: userId,
+  });
+};
+
+module.exports = {
+  CONSENT_VALID_DAYS,
+  CONSENT_VARIABLES,
+  findUnknownConsentVariables,
+  renderConsent,
+  getMissingConsents,
+  missingConsentError,
+  storeConsentPDF,
+};
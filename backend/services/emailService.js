@@ -1,10 +1,12 @@
 const createTransporter = require('../config/email');
 const Notification = require('../models/Notification');
+const { appointmentVariables, renderNotification } = require('./templateService');
 
 /**
  * Send email
+ * Without an HTML version the plain text is sent as HTML with line breaks
  */
-const sendEmail = async (to, subject, body) => {
+const sendEmail = async (to, subject, body, htmlBody) => {
   try {
     const transporter = createTransporter();
 
@@ -13,7 +15,7 @@ const sendEmail = async (to, subject, body) => {
       to,
       subject,
       text: body,
-      html: body.replace(/\n/g, '<br>'),
+      html: htmlBody || body.replace(/\n/g, '<br>'),
     };
 
     const info = await transporter.sendMail(mailOptions);
@@ -27,48 +29,44 @@ const sendEmail = async (to, subject, body) => {
 };
 
 /**
- * Send appointment reminder
+ * Queue appointment reminder
+ * Pass the reminder rule when sending one stage of the reminder schedule
  */
-const sendAppointmentReminder = async (appointment) => {
+const sendAppointmentReminder = async (appointment, rule) => {
   const patientEmail = appointment.patientId.email;
 
   if (!patientEmail) {
     return { success: false, error: 'Patient has no email' };
   }
 
-  const subject = `Appointment Reminder - ${process.env.CLINIC_NAME || 'Dental Clinic'}`;
-
-  const body = `Dear ${appointment.patientId.name},
-
-This is a reminder about your upcoming appointment:
-
-Date: ${new Date(appointment.startTime).toLocaleDateString()}
-Time: ${new Date(appointment.startTime).toLocaleTimeString()} - ${new Date(appointment.endTime).toLocaleTimeString()}
-Doctor: Dr. ${appointment.doctorId.name}
-
-Location: ${process.env.CLINIC_ADDRESS || 'Our Clinic'}
-
-If you need to reschedule or cancel, please contact us at ${process.env.CLINIC_PHONE || 'our office'}.
-
-Best regards,
-${process.env.CLINIC_NAME || 'Dental Clinic'}`;
-
-  // Create notification record
-  await Notification.create({
+  const notification = new Notification({
     type: 'appointment_reminder',
     recipientEmail: patientEmail,
     patientId: appointment.patientId._id,
     appointmentId: appointment._id,
-    subject,
-    body,
+    reminderRuleId: rule?._id,
     status: 'pending',
   });
 
-  return await sendEmail(patientEmail, subject, body);
+  const language = appointment.patientId.language;
+  const { subject, text, html } = await renderNotification(
+    'appointment_reminder',
+    'email',
+    language,
+    appointmentVariables(appointment, notification._id, language)
+  );
+  notification.subject = subject;
+  notification.body = text;
+  notification.htmlBody = html;
+
+  // Queue for the notification worker
+  await notification.save();
+
+  return { success: true, notification };
 };
 
 /**
- * Send appointment confirmation
+ * Queue appointment confirmation
  */
 const sendAppointmentConfirmation = async (appointment) => {
   const patientEmail = appointment.patientId.email;
@@ -77,40 +75,33 @@ const sendAppointmentConfirmation = async (appointment) => {
     return { success: false, error: 'Patient has no email' };
   }
 
-  const subject = `Appointment Confirmed - ${process.env.CLINIC_NAME || 'Dental Clinic'}`;
-
-  const body = `Dear ${appointment.patientId.name},
-
-Your appointment has been confirmed:
-
-Date: ${new Date(appointment.startTime).toLocaleDateString()}
-Time: ${new Date(appointment.startTime).toLocaleTimeString()} - ${new Date(appointment.endTime).toLocaleTimeString()}
-Doctor: Dr. ${appointment.doctorId.name}
-
-Location: ${process.env.CLINIC_ADDRESS || 'Our Clinic'}
-
-We look forward to seeing you!
-
-Best regards,
-${process.env.CLINIC_NAME || 'Dental Clinic'}`;
-
-  // Create notification record
-  await Notification.create({
+  const notification = new Notification({
     type: 'appointment_confirmation',
     recipientEmail: patientEmail,
     patientId: appointment.patientId._id,
     appointmentId: appointment._id,
-    subject,
-    body,
-    status: 'sent',
-    sentAt: new Date(),
+    status: 'pending',
   });
 
-  return await sendEmail(patientEmail, subject, body);
+  const language = appointment.patientId.language;
+  const { subject, text, html } = await renderNotification(
+    'appointment_confirmation',
+    'email',
+    language,
+    appointmentVariables(appointment, notification._id, language)
+  );
+  notification.subject = subject;
+  notification.body = text;
+  notification.htmlBody = html;
+
+  // Queue for the notification worker
+  await notification.save();
+
+  return { success: true, notification };
 };
 
 /**
- * Send invoice notification
+ * Queue invoice notification
  */
 const sendInvoiceNotification = async (invoice) => {
   const patientEmail = invoice.patientId.email;
@@ -119,39 +110,112 @@ const sendInvoiceNotification = async (invoice) => {
     return { success: false, error: 'Patient has no email' };
   }
 
-  const subject = `Invoice #${invoice.invoiceNumber} - ${process.env.CLINIC_NAME || 'Dental Clinic'}`;
+  const language = invoice.patientId.language;
+  const { subject, text, html } = await renderNotification('invoice_generated', 'email', language, {
+    patient: { name: invoice.patientId.name },
+    invoice: {
+      number: invoice.invoiceNumber,
+      date: new Date(invoice.issueDate).toLocaleDateString(language),
+      total: `$${invoice.totalAmount.toFixed(2)}`,
+      paid: `$${invoice.paidAmount.toFixed(2)}`,
+      balance: `$${(invoice.totalAmount - invoice.creditedAmount - invoice.paidAmount).toFixed(2)}`,
+      dueDate: invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString(language) : '',
+    },
+  });
+
+  // Queue for the notification worker
+  const notification = await Notification.create({
+    type: 'invoice_generated',
+    recipientEmail: patientEmail,
+    patientId: invoice.patientId._id,
+    subject,
+    body: text,
+    htmlBody: html,
+    status: 'pending',
+  });
+
+  return { success: true, notification };
+};
+
+/**
+ * Queue a waitlist offer for a freed slot
+ */
+const sendWaitlistOffer = async (offer) => {
+  const patientEmail = offer.patientId.email;
 
-  const balance = invoice.totalAmount - invoice.paidAmount;
+  if (!patientEmail) {
+    return { success: false, error: 'Patient has no email' };
+  }
 
-  const body = `Dear ${invoice.patientId.name},
+  const language = offer.patientId.language;
+  const start = new Date(offer.startTime);
+  const end = new Date(offer.endTime);
+
+  const { subject, text, html } = await renderNotification('waitlist_offer', 'email', language, {
+    patient: { name: offer.patientId.name },
+    doctor: { name: offer.doctorId.name },
+    offer: {
+      date: start.toLocaleDateString(language),
+      time: start.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' }),
+      endTime: end.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' }),
+      expiresAt: new Date(offer.expiresAt).toLocaleString(language),
+      url: `${process.env.CLIENT_URL || 'http://localhost:5173'}/waitlist/offers/${offer.token}`,
+    },
+  });
 
-An invoice has been generated for your recent visit:
+  // Queue for the notification worker
+  const notification = await Notification.create({
+    type: 'waitlist_offer',
+    recipientEmail: patientEmail,
+    patientId: offer.patientId._id,
+    appointmentId: offer.sourceAppointmentId,
+    subject,
+    body: text,
+    htmlBody: html,
+    status: 'pending',
+  });
 
-Invoice Number: ${invoice.invoiceNumber}
-Date: ${new Date(invoice.issueDate).toLocaleDateString()}
-Total Amount: $${invoice.totalAmount.toFixed(2)}
-Amount Paid: $${invoice.paidAmount.toFixed(2)}
-Balance Due: $${balance.toFixed(2)}
+  return { success: true, notification };
+};
 
-${invoice.dueDate ? `Due Date: ${new Date(invoice.dueDate).toLocaleDateString()}` : ''}
+/**
+ * Queue a payment reminder for an overdue invoice
+ * The last stage of the dunning schedule goes out as a final notice
+ */
+const sendPaymentReminder = async (invoice, { stage, daysOverdue, balance, final }) => {
+  const patientEmail = invoice.patientId.email;
 
-You can download your invoice from our patient portal or contact us for payment options.
+  if (!patientEmail) {
+    return { success: false, error: 'Patient has no email' };
+  }
 
-Best regards,
-${process.env.CLINIC_NAME || 'Dental Clinic'}`;
+  const type = final ? 'payment_final_notice' : 'payment_reminder';
+  const language = invoice.patientId.language;
+  const { subject, text, html } = await renderNotification(type, 'email', language, {
+    patient: { name: invoice.patientId.name },
+    invoice: {
+      number: invoice.invoiceNumber,
+      date: new Date(invoice.issueDate).toLocaleDateString(language),
+      total: `$${invoice.totalAmount.toFixed(2)}`,
+      balance: `$${balance.toFixed(2)}`,
+      dueDate: new Date(invoice.dueDate).toLocaleDateString(language),
+    },
+    reminder: { stage, daysOverdue },
+  });
 
-  // Create notification record
-  await Notification.create({
-    type: 'invoice_generated',
+  // Queue for the notification worker
+  const notification = await Notification.create({
+    type,
     recipientEmail: patientEmail,
     patientId: invoice.patientId._id,
+    invoiceId: invoice._id,
     subject,
-    body,
-    status: 'sent',
-    sentAt: new Date(),
+    body: text,
+    htmlBody: html,
+    status: 'pending',
   });
 
-  return await sendEmail(patientEmail, subject, body);
+  return { success: true, notification };
 };
 
 module.exports = {
@@ -159,4 +223,6 @@ module.exports = {
   sendAppointmentReminder,
   sendAppointmentConfirmation,
   sendInvoiceNotification,
+  sendWaitlistOffer,
+  sendPaymentReminder,
 };
@@ -0,0 +1,167 @@
+const InventoryItem = require('../models/InventoryItem');
+const InventoryBatch = require('../models/InventoryBatch');
+const StockMovement = require('../models/StockMovement');
+const Procedure = require('../models/Procedure');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Batches expiring within this many days show up as expiring soon
+const EXPIRY_WARNING_DAYS = parseInt(process.env.INVENTORY_EXPIRY_WARNING_DAYS) || 30;
+
+/**
+ * Add a delivery of an item to stock as a new batch
+ */
+const receiveStock = async (item, { quantity, batchNumber, expiryDate, unitCost, supplierId, purchaseOrderId }, userId) => {
+  const batch = await InventoryBatch.create({
+    itemId: item._id,
+    batchNumber,
+    expiryDate,
+    quantityReceived: quantity,
+    quantityRemaining: quantity,
+    unitCost: unitCost ?? item.unitCost,
+    supplierId: supplierId || item.supplierId,
+    purchaseOrderId,
+  });
+
+  await StockMovement.create({
+    itemId: item._id,
+    batchId: batch._id,
+    type: 'receipt',
+    quantity,
+    purchaseOrderId,
+    createdBy: userId,
+  });
+
+  await InventoryItem.updateOne({ _id: item._id }, { $inc: { quantityOnHand: quantity } });
+
+  return batch;
+};
+
+/**
+ * Take stock of an item out, first from the batches that expire soonest
+ * Expired batches are left alone. Stock that no batch holds is still taken off the item,
+ * so it shows as low (or negative) stock rather than going unrecorded
+ */
+const consumeStock = async (itemId, quantity, { type = 'usage', treatmentId, reason, userId, now = new Date() } = {}) => {
+  const batches = await InventoryBatch.find({
+    itemId,
+    quantityRemaining: { $gt: 0 },
+    $or: [{ expiryDate: null }, { expiryDate: { $gt: now } }],
+  }).sort({ expiryDate: 1, receivedAt: 1 });
+
+  // Batches without an expiry date go last
+  batches.sort((a, b) => (a.expiryDate ? 0 : 1) - (b.expiryDate ? 0 : 1));
+
+  let remaining = quantity;
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(batch.quantityRemaining, remaining);
+    // Only take it if no one else got there first
+    const updated = await InventoryBatch.findOneAndUpdate(
+      { _id: batch._id, quantityRemaining: { $gte: take } },
+      { $inc: { quantityRemaining: -take } }
+    );
+    if (!updated) continue;
+
+    await StockMovement.create({ itemId, batchId: batch._id, type, quantity: -take, treatmentId, reason, createdBy: userId });
+    remaining -= take;
+  }
+
+  if (remaining > 0) {
+    await StockMovement.create({ itemId, type, quantity: -remaining, treatmentId, reason, createdBy: userId });
+  }
+
+  await InventoryItem.updateOne({ _id: itemId }, { $inc: { quantityOnHand: -quantity } });
+};
+
+/**
+ * Take the supplies a treatment's procedure uses out of stock
+ */
+const recordTreatmentUsage = async (treatment, userId) => {
+  if (!treatment.procedureId) {
+    return;
+  }
+
+  const procedure = await Procedure.findById(treatment.procedureId);
+  for (const material of procedure?.materials || []) {
+    await consumeStock(material.itemId, material.quantity, { treatmentId: treatment._id, userId });
+  }
+};
+
+/**
+ * Put back what was taken out of stock for a treatment, into the batches it came from
+ * Used when a treatment is deleted or billed as a different procedure
+ */
+const reverseTreatmentUsage = async (treatment, userId) => {
+  const movements = await StockMovement.find({ treatmentId: treatment._id });
+
+  // Net out earlier reversals, per item and batch
+  const outstanding = new Map();
+  movements.forEach((movement) => {
+    const key = `${movement.itemId}:${movement.batchId || ''}`;
+    const entry = outstanding.get(key) || { itemId: movement.itemId, batchId: movement.batchId, quantity: 0 };
+    entry.quantity += movement.quantity;
+    outstanding.set(key, entry);
+  });
+
+  for (const { itemId, batchId, quantity } of outstanding.values()) {
+    if (quantity >= 0) continue;
+
+    if (batchId) {
+      await InventoryBatch.updateOne({ _id: batchId }, { $inc: { quantityRemaining: -quantity } });
+    }
+    await InventoryItem.updateOne({ _id: itemId }, { $inc: { quantityOnHand: -quantity } });
+    await StockMovement.create({
+      itemId,
+      batchId,
+      type: 'usage_reversal',
+      quantity: -quantity,
+      treatmentId: treatment._id,
+      createdBy: userId,
+    });
+  }
+};
+
+/**
+ * Correct a batch's count, or dispose of it, with a reason
+ * The delta is positive for stock found and negative for stock lost or thrown away
+ */
+const adjustBatch = async (batch, delta, { type = 'adjustment', reason, userId }) => {
+  batch.quantityRemaining += delta;
+  await batch.save();
+
+  await StockMovement.create({ itemId: batch.itemId, batchId: batch._id, type, quantity: delta, reason, createdBy: userId });
+  await InventoryItem.updateOne({ _id: batch.itemId }, { $inc: { quantityOnHand: delta } });
+};
+
+/**
+ * Items at or below their reorder level, and batches still in stock that have expired
+ * or expire within EXPIRY_WARNING_DAYS
+ */
+const getInventoryAlerts = async (now = new Date()) => {
+  const lowStock = await InventoryItem.find({
+    isActive: true,
+    $expr: { $lte: ['$quantityOnHand', '$reorderLevel'] },
+  })
+    .populate('supplierId', 'name')
+    .sort({ quantityOnHand: 1 });
+
+  const expiringSoon = await InventoryBatch.find({
+    quantityRemaining: { $gt: 0 },
+    expiryDate: { $lte: new Date(now.getTime() + EXPIRY_WARNING_DAYS * DAY_MS) },
+  })
+    .populate('itemId', 'name unit')
+    .sort({ expiryDate: 1 });
+
+  return { lowStock, expiringSoon, expiryWarningDays: EXPIRY_WARNING_DAYS };
+};
+
+module.exports = {
+  EXPIRY_WARNING_DAYS,
+  receiveStock,
+  recordTreatmentUsage,
+  reverseTreatmentUsage,
+  adjustBatch,
+  getInventoryAlerts,
+};
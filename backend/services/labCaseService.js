@@ -0,0 +1,72 @@
+const LabCase = require('../models/LabCase');
+const Appointment = require('../models/Appointment');
+const { ACTIVE_STATUSES } = require('./schedulingService');
+
+// Once the work is back in the clinic a fitting can go ahead
+const BACK_IN_CLINIC = ['received', 'fitted'];
+
+/**
+ * When a case should be back, from the day it went out and the lab's usual turnaround
+ */
+const getExpectedReturnDate = (sentDate, turnaroundDays) => {
+  const expected = new Date(sentDate);
+  expected.setDate(expected.getDate() + turnaroundDays);
+  return expected;
+};
+
+/**
+ * Warning for a fitting booked before the lab work is expected back, or null
+ * The expected day itself is fine - the case may arrive that morning
+ */
+const getFittingWarning = (labCase, startTime) => {
+  if (!labCase || BACK_IN_CLINIC.includes(labCase.status)) return null;
+
+  const expected = new Date(labCase.expectedReturnDate);
+  expected.setHours(0, 0, 0, 0);
+  if (new Date(startTime) >= expected) return null;
+
+  return `Fitting is booked before ${labCase.caseNumber} is expected back from the lab (${expected.toDateString()})`;
+};
+
+/**
+ * Check a lab case can be linked to a patient's appointment as its fitting
+ * Returns an error message or null
+ */
+const checkFittingCase = async (labCaseId, patientId) => {
+  if (!labCaseId) return null;
+
+  const labCase = await LabCase.findById(labCaseId);
+  if (!labCase || String(labCase.patientId) !== String(patientId)) {
+    return 'Lab case not found for this patient';
+  }
+
+  return null;
+};
+
+/**
+ * Add each case's next booked fitting, and a warning if it is before the work is due back
+ */
+const attachFittings = async (labCases) => {
+  const fittings = await Appointment.find({
+    labCaseId: { $in: labCases.map((labCase) => labCase._id) },
+    status: { $in: ACTIVE_STATUSES },
+  })
+    .select('labCaseId startTime status')
+    .sort({ startTime: 1 });
+
+  return labCases.map((labCase) => {
+    const fitting = fittings.find((appointment) => String(appointment.labCaseId) === String(labCase._id));
+    return {
+      ...labCase.toObject(),
+      fittingAppointment: fitting || null,
+      fittingWarning: fitting ? getFittingWarning(labCase, fitting.startTime) : null,
+    };
+  });
+};
+
+module.exports = {
+  getExpectedReturnDate,
+  getFittingWarning,
+  checkFittingCase,
+  attachFittings,
+};
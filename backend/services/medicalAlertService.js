@@ -0,0 +1,129 @@
+const Procedure = require('../models/Procedure');
+const InventoryItem = require('../models/InventoryItem');
+
+// Procedures that cut soft tissue or bone
+const SURGICAL_CATEGORIES = ['oral_surgery', 'periodontics', 'implants'];
+const SURGICAL_TERMS = /extract|surg|implant|biops|graft|flap|scaling|root planing|curettage/i;
+
+const RADIOGRAPH_TERMS = /x-?ray|radiograph|opg|cbct|bitewing|periapical|panoramic/i;
+
+const hasCondition = (patient, condition) => (patient.conditions || []).some((entry) => entry.condition === condition);
+
+const medicationsOfClass = (patient, classes) =>
+  (patient.medications || []).filter((medication) => classes.includes(medication.medicationClass));
+
+/**
+ * Everything known about a treatment that an allergy or condition could clash with:
+ * its type and description, and the catalog procedure with the supplies it uses
+ */
+const describeTreatment = async ({ treatmentType, description, procedureId }) => {
+  const procedure = procedureId ? await Procedure.findById(procedureId) : null;
+
+  const items = procedure?.materials?.length
+    ? await InventoryItem.find({ _id: { $in: procedure.materials.map((material) => material.itemId) } })
+    : [];
+
+  const text = [treatmentType, description, procedure?.name, ...(procedure?.aliases || []), ...items.map((item) => item.name)]
+    .filter(Boolean)
+    .join(' ');
+
+  return {
+    text,
+    surgical: SURGICAL_CATEGORIES.includes(procedure?.category) || SURGICAL_TERMS.test(text),
+    radiograph: RADIOGRAPH_TERMS.test(text),
+    usesAnesthetic: items.some((item) => item.category === 'anesthetic') || /anesth|anaesth|caine\b/i.test(text),
+  };
+};
+
+/**
+ * Recorded allergies, medications and conditions that clash with a treatment
+ * Returns [{ type, severity, message }], severity being 'danger' or 'warning'
+ */
+const getTreatmentAlerts = async (patient, treatment) => {
+  const { text, surgical, radiograph, usesAnesthetic } = await describeTreatment(treatment);
+  const alerts = [];
+
+  (patient.allergies || []).forEach((allergy) => {
+    const substance = allergy.substance.toLowerCase();
+    const anestheticAllergy = /anesth|anaesth|caine\b/.test(substance);
+    if (text.toLowerCase().includes(substance) || (anestheticAllergy && usesAnesthetic)) {
+      alerts.push({
+        type: 'allergy',
+        severity: 'danger',
+        message: `Allergic to ${allergy.substance}${allergy.reaction ? ` (${allergy.reaction})` : ''}, which this treatment may use`,
+      });
+    }
+  });
+
+  const bloodThinners = medicationsOfClass(patient, ['anticoagulant', 'antiplatelet']);
+  if (surgical && (bloodThinners.length > 0 || hasCondition(patient, 'bleeding_disorder'))) {
+    const cause = bloodThinners.length > 0 ? `Takes ${bloodThinners.map((m) => m.name).join(', ')}` : 'Bleeding disorder';
+    alerts.push({
+      type: bloodThinners.length > 0 ? 'medication' : 'condition',
+      severity: 'danger',
+      message: `${cause}: bleeding risk - check INR or consult the physician before surgery`,
+    });
+  }
+
+  const bisphosphonates = medicationsOfClass(patient, ['bisphosphonate']);
+  if (surgical && bisphosphonates.length > 0) {
+    alerts.push({
+      type: 'medication',
+      severity: 'danger',
+      message: `Takes ${bisphosphonates.map((m) => m.name).join(', ')}: risk of osteonecrosis of the jaw after extractions and implants`,
+    });
+  }
+
+  if (hasCondition(patient, 'pregnancy') && radiograph) {
+    alerts.push({
+      type: 'condition',
+      severity: 'danger',
+      message: 'Pregnant: take radiographs only if essential, with shielding',
+    });
+  }
+  if (hasCondition(patient, 'pregnancy') && surgical) {
+    alerts.push({
+      type: 'condition',
+      severity: 'warning',
+      message: 'Pregnant: defer elective surgery where possible',
+    });
+  }
+
+  if (hasCondition(patient, 'cardiac') && (surgical || usesAnesthetic)) {
+    alerts.push({
+      type: 'condition',
+      severity: 'warning',
+      message: 'Cardiac condition: consider antibiotic prophylaxis and limit epinephrine',
+    });
+  }
+
+  if (hasCondition(patient, 'hypertension') && (surgical || usesAnesthetic)) {
+    alerts.push({
+      type: 'condition',
+      severity: 'warning',
+      message: 'Hypertension: check blood pressure before treatment and limit epinephrine',
+    });
+  }
+
+  if ((hasCondition(patient, 'diabetes') || medicationsOfClass(patient, ['insulin']).length > 0) && surgical) {
+    alerts.push({
+      type: 'condition',
+      severity: 'warning',
+      message: 'Diabetic: check blood glucose; healing may be delayed',
+    });
+  }
+
+  if ((hasCondition(patient, 'immunocompromised') || medicationsOfClass(patient, ['steroid']).length > 0) && surgical) {
+    alerts.push({
+      type: 'condition',
+      severity: 'warning',
+      message: 'Immunocompromised or on steroids: higher infection risk after surgery',
+    });
+  }
+
+  return alerts;
+};
+
+module.exports = {
+  getTreatmentAlerts,
+};
@@ -0,0 +1,114 @@
+const Notification = require('../models/Notification');
+const { sendEmail } = require('./emailService');
+const { sendSms } = require('./smsService');
+
+// Attempts before a notification is marked failed for good
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5;
+// First retry delay, doubled after every failed attempt
+const RETRY_BASE_MINUTES = parseInt(process.env.NOTIFICATION_RETRY_BASE_MINUTES) || 2;
+// A notification stuck in 'sending' this long belongs to a worker that died mid-send
+const STALE_SENDING_MINUTES = 10;
+const BATCH_SIZE = 50;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Delay before the next attempt, after the given number of failed attempts
+ */
+const getRetryDelay = (attempts) => RETRY_BASE_MINUTES * 2 ** (attempts - 1) * MINUTE_MS;
+
+const deliver = (notification) => {
+  if (notification.channel === 'sms') {
+    return sendSms(notification.recipientPhone, notification.body);
+  }
+  return sendEmail(notification.recipientEmail, notification.subject, notification.body, notification.htmlBody);
+};
+
+/**
+ * Claim the next notification that is due, so no other worker sends it as well
+ */
+const claimNext = (now) =>
+  Notification.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', nextAttemptAt: { $lte: now } },
+        { status: 'pending', nextAttemptAt: { $exists: false } },
+        { status: 'sending', lastAttemptAt: { $lte: new Date(now.getTime() - STALE_SENDING_MINUTES * MINUTE_MS) } },
+      ],
+    },
+    {
+      status: 'sending',
+      lastAttemptAt: now,
+      $inc: { attempts: 1 },
+    },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  );
+
+/**
+ * Make one delivery attempt for a claimed notification and record the outcome
+ */
+const attemptDelivery = async (notification) => {
+  const result = await deliver(notification);
+  const now = new Date();
+
+  notification.deliveryAttempts.push({ attemptedAt: notification.lastAttemptAt, error: result.error });
+
+  if (result.success) {
+    notification.status = 'sent';
+    notification.sentAt = now;
+    notification.errorMessage = undefined;
+  } else if (notification.attempts >= MAX_ATTEMPTS) {
+    notification.status = 'failed';
+    notification.errorMessage = result.error;
+  } else {
+    notification.status = 'pending';
+    notification.nextAttemptAt = new Date(now.getTime() + getRetryDelay(notification.attempts));
+    notification.errorMessage = result.error;
+  }
+
+  await notification.save();
+  return notification;
+};
+
+/**
+ * Send due notifications from the outbox
+ * Returns how many were sent, are waiting for a retry, and failed for good
+ */
+const processOutbox = async (now = new Date()) => {
+  const counts = { sent: 0, retrying: 0, failed: 0 };
+
+  for (let i = 0; i < BATCH_SIZE; i++) {
+    const notification = await claimNext(now);
+    if (!notification) {
+      break;
+    }
+
+    const { status } = await attemptDelivery(notification);
+    if (status === 'sent') counts.sent += 1;
+    else if (status === 'failed') counts.failed += 1;
+    else counts.retrying += 1;
+  }
+
+  return counts;
+};
+
+/**
+ * Put a failed notification back in the outbox with a fresh set of attempts
+ * Earlier attempts stay in its delivery history
+ */
+const requeueNotification = async (notification) => {
+  notification.status = 'pending';
+  notification.attempts = 0;
+  notification.nextAttemptAt = new Date();
+  notification.errorMessage = undefined;
+
+  await notification.save();
+  return notification;
+};
+
+module.exports = {
+  MAX_ATTEMPTS,
+  getRetryDelay,
+  processOutbox,
+  requeueNotification,
+};
@@ -0,0 +1,125 @@
+const mongoose = require('mongoose');
+const Payment = require('../models/Payment');
+const CreditNote = require('../models/CreditNote');
+const InsuranceClaim = require('../models/InsuranceClaim');
+
+// Keep floating point sums from drifting off whole cents
+const roundCents = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Total of the payments on an invoice that haven't been voided, less refunds
+ */
+const getPaidTotal = async (invoiceId) => {
+  const [totals] = await Payment.aggregate([
+    { $match: { invoiceId, voided: false } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+
+  return roundCents(totals?.total || 0);
+};
+
+/**
+ * Total of the credit notes issued against an invoice
+ */
+const getCreditedTotal = async (invoiceId) => {
+  const [totals] = await CreditNote.aggregate([
+    { $match: { invoiceId } },
+    { $group: { _id: null, total: { $sum: '$totalAmount' } } },
+  ]);
+
+  return roundCents(totals?.total || 0);
+};
+
+/**
+ * The insurer's share of an invoice across its claims
+ * Open claims count at the amount claimed and decided ones at the amount approved
+ */
+const getInsuranceTotal = async (invoiceId) => {
+  const claims = await InsuranceClaim.find({ invoiceId, status: { $ne: 'rejected' } });
+
+  return roundCents(
+    claims.reduce(
+      (sum, claim) => sum + (['draft', 'submitted'].includes(claim.status) ? claim.claimedAmount : claim.approvedAmount),
+      0
+    )
+  );
+};
+
+/**
+ * What is still owed on an invoice, negative when the patient has overpaid
+ */
+const getBalance = (invoice) => roundCents(invoice.totalAmount - invoice.creditedAmount - invoice.paidAmount);
+
+/**
+ * A patient's credit balance
+ * Refunds to credit add to it and payments made from credit use it up
+ */
+const getCreditBalance = async (patientId) => {
+  const [totals] = await Payment.aggregate([
+    { $match: { patientId: new mongoose.Types.ObjectId(patientId), method: 'credit', voided: false } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+
+  return roundCents(-(totals?.total || 0));
+};
+
+/**
+ * Re-derive an invoice's paid, credited and insurance amounts (and with them the status)
+ * from its payments, credit notes and insurance claims
+ */
+const recalculateInvoice = async (invoice) => {
+  invoice.paidAmount = await getPaidTotal(invoice._id);
+  invoice.creditedAmount = await getCreditedTotal(invoice._id);
+  invoice.insuranceAmount = await getInsuranceTotal(invoice._id);
+  await invoice.save();
+  return invoice;
+};
+
+/**
+ * Re-derive what an insurer has paid on a claim from its insurance payments
+ * A claim is paid once the approved amount has come in, and goes back to its
+ * decision when a payment is voided
+ */
+const recalculateClaim = async (claim) => {
+  const [totals] = await Payment.aggregate([
+    { $match: { claimId: claim._id, voided: false } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+
+  claim.paidAmount = roundCents(totals?.total || 0);
+
+  if (claim.approvedAmount > 0 && claim.paidAmount >= claim.approvedAmount) {
+    claim.status = 'paid';
+    claim.paidAt = claim.paidAt || new Date();
+  } else if (claim.status === 'paid') {
+    claim.status = claim.approvedAmount >= claim.claimedAmount ? 'approved' : 'partially_approved';
+    claim.paidAt = undefined;
+  }
+
+  await claim.save();
+  return claim;
+};
+
+/**
+ * Ledger records that keep invoices from being deleted, e.g. { invoiceId } or { patientId }
+ * Voided payments and draft claims don't count
+ */
+const findLedgerRecords = async (filter) => {
+  const records = [];
+  if (await Payment.exists({ ...filter, voided: false })) records.push('payments');
+  if (await CreditNote.exists(filter)) records.push('credit notes');
+  if (await InsuranceClaim.exists({ ...filter, status: { $ne: 'draft' } })) records.push('insurance claims');
+  return records;
+};
+
+module.exports = {
+  roundCents,
+  getPaidTotal,
+  getCreditedTotal,
+  getInsuranceTotal,
+  getBalance,
+  getCreditBalance,
+  recalculateInvoice,
+  recalculateClaim,
+  findLedgerRecords,
+};
@@ -50,67 +50,644 @@ const generateInvoicePDF = (invoice, res) => {
   const tableTop = 320;
   doc
     .fontSize(10)
-    .text('Treatment', 50, tableTop, { width: 200 })
-    .text('Date', 260, tableTop, { width: 100 })
-    .text('Cost', 380, tableTop, { width: 150, align: 'right' });
+    .text('Description', 50, tableTop, { width: 170 })
+    .text('Qty', 225, tableTop, { width: 40, align: 'right' })
+    .text('Unit Price', 270, tableTop, { width: 70, align: 'right' })
+    .text('Disc.', 345, tableTop, { width: 45, align: 'right' })
+    .text('Tax', 395, tableTop, { width: 45, align: 'right' })
+    .text('Amount', 445, tableTop, { width: 105, align: 'right' });
 
   doc.moveTo(50, tableTop + 15).lineTo(550, tableTop + 15).stroke();
 
-  // Treatments List
   let position = tableTop + 25;
-  invoice.treatmentIds.forEach((treatment) => {
+
+  // Start a new page when the next block would run into the footer
+  const ensureSpace = (height) => {
+    if (position + height > 680) {
+      doc.addPage();
+      position = 50;
+    }
+  };
+
+  // Line Items
+  invoice.lineItems.forEach((item) => {
+    ensureSpace(20);
     doc
       .fontSize(10)
-      .text(treatment.treatmentType || '', 50, position, { width: 200 })
-      .text(
-        treatment.treatmentDate
-          ? new Date(treatment.treatmentDate).toLocaleDateString()
-          : '',
-        260,
-        position,
-        { width: 100 }
-      )
-      .text(`₹${treatment.cost?.toFixed(2) || '0.00'}`, 380, position, {
-        width: 150,
-        align: 'right',
-      });
+      .text(item.description, 50, position, { width: 170 })
+      .text(String(item.quantity), 225, position, { width: 40, align: 'right' })
+      .text(`₹${item.unitPrice.toFixed(2)}`, 270, position, { width: 70, align: 'right' })
+      .text(item.discountPercent ? `${item.discountPercent}%` : '-', 345, position, { width: 45, align: 'right' })
+      .text(`${item.taxRate}%`, 395, position, { width: 45, align: 'right' })
+      .text(`₹${item.total.toFixed(2)}`, 445, position, { width: 105, align: 'right' });
 
-    position += 20;
+    position = Math.max(position + 20, doc.y + 5);
   });
 
   // Totals
+  const taxLabel = process.env.TAX_LABEL || 'GST';
+  const totalRow = (label, value) => {
+    ensureSpace(20);
+    doc
+      .text(label, 300, position, { width: 150 })
+      .text(value, 445, position, { width: 105, align: 'right' });
+    position += 20;
+  };
+
   position += 20;
-  doc.moveTo(350, position).lineTo(550, position).stroke();
+  ensureSpace(30);
+  doc.moveTo(300, position).lineTo(550, position).stroke();
+  position += 10;
+
+  doc.fontSize(10);
+  totalRow('Subtotal:', `₹${invoice.subtotal.toFixed(2)}`);
+  if (invoice.discountTotal > 0) {
+    totalRow('Discount:', `-₹${invoice.discountTotal.toFixed(2)}`);
+  }
+  invoice.taxSummary
+    .filter((tax) => tax.rate > 0)
+    .forEach((tax) => {
+      totalRow(`${taxLabel} ${tax.rate}% on ₹${tax.taxableAmount.toFixed(2)}:`, `₹${tax.taxAmount.toFixed(2)}`);
+    });
+  totalRow('Total Amount:', `₹${invoice.totalAmount.toFixed(2)}`);
+  if (invoice.creditedAmount > 0) {
+    totalRow('Credited:', `-₹${invoice.creditedAmount.toFixed(2)}`);
+  }
+  if (invoice.insuranceAmount > 0) {
+    totalRow('Insurance Share:', `₹${invoice.insuranceAmount.toFixed(2)}`);
+    totalRow('Patient Share:', `₹${invoice.patientAmount.toFixed(2)}`);
+  }
+  totalRow('Amount Paid:', `₹${invoice.paidAmount.toFixed(2)}`);
+
+  const balance = invoice.totalAmount - invoice.creditedAmount - invoice.paidAmount;
+  doc.fontSize(12);
+  totalRow('Balance Due:', `₹${balance.toFixed(2)}`);
+
+  // Notes
+  if (invoice.notes) {
+    position += 20;
+    ensureSpace(50);
+    doc.fontSize(10).text('Notes:', 50, position).text(invoice.notes, 50, position + 15, { width: 500 });
+  }
+
+  // Footer
+  doc.fontSize(8).text('Thank you for your business!', 50, 700, { align: 'center', width: 500 });
 
+  // Finalize
+  doc.end();
+};
+
+const generateTreatmentPlanPDF = (plan, res) => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename=treatment-plan-${plan._id}.pdf`
+  );
+
+  const doc = new PDFDocument({ margin: 50 });
+
+  doc.pipe(res);
+
+  // Clinic Header
+  doc
+    .fontSize(20)
+    .text(process.env.CLINIC_NAME || 'Dental Clinic', 50, 50)
+    .fontSize(10)
+    .text(process.env.CLINIC_ADDRESS || '123 Main Street, City', 50, 75)
+    .text(process.env.CLINIC_PHONE || 'Phone: +91 9876543210', 50, 90)
+    .moveDown();
+
+  // Quotation Title & Metadata
+  doc
+    .fontSize(20)
+    .text('TREATMENT PLAN QUOTATION', 50, 140)
+    .fontSize(10)
+    .text(`Plan: ${plan.title}`, 50, 170)
+    .text(`Date: ${new Date(plan.createdAt).toLocaleDateString()}`, 50, 185)
+    .text(`Dentist: ${plan.doctorId?.name || ''}`, 50, 200);
+
+  if (plan.validUntil) {
+    doc.text(`Valid Until: ${new Date(plan.validUntil).toLocaleDateString()}`, 50, 215);
+  }
+
+  // Patient Info
+  doc
+    .fontSize(12)
+    .text('Prepared For:', 350, 170)
+    .fontSize(10)
+    .text(plan.patientId?.name || '', 350, 185)
+    .text(plan.patientId?.contact || '', 350, 200);
+
+  if (plan.patientId?.email) {
+    doc.text(plan.patientId.email, 350, 215);
+  }
+
+  let position = 250;
+
+  // Start a new page when the next block would run into the footer
+  const ensureSpace = (height) => {
+    if (position + height > 680) {
+      doc.addPage();
+      position = 50;
+    }
+  };
+
+  plan.phases.forEach((phase) => {
+    const items = phase.items.filter((item) => item.status !== 'cancelled');
+    if (items.length === 0) return;
+
+    ensureSpace(60);
+    doc.fontSize(12).text(phase.name, 50, position);
+    position += 20;
+
+    doc
+      .fontSize(10)
+      .text('Procedure', 50, position, { width: 200 })
+      .text('Tooth', 260, position, { width: 100 })
+      .text('Estimate', 380, position, { width: 150, align: 'right' });
+    doc.moveTo(50, position + 15).lineTo(550, position + 15).stroke();
+    position += 25;
+
+    let phaseTotal = 0;
+    items.forEach((item) => {
+      ensureSpace(20);
+      const tooth = item.toothNumber
+        ? `${item.toothNumber}${item.surfaces?.length ? ` (${item.surfaces.join('')})` : ''}`
+        : '';
+      doc
+        .fontSize(10)
+        .text(item.treatmentType, 50, position, { width: 200 })
+        .text(tooth, 260, position, { width: 100 })
+        .text(`₹${item.estimatedCost.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+      phaseTotal += item.estimatedCost;
+      position += 20;
+    });
+
+    doc
+      .text('Phase Subtotal:', 260, position, { width: 120 })
+      .text(`₹${phaseTotal.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+    position += 30;
+  });
+
+  // Total
+  ensureSpace(40);
+  doc.moveTo(350, position).lineTo(550, position).stroke();
   position += 10;
   doc
+    .fontSize(12)
+    .text('Estimated Total:', 260, position, { width: 120 })
+    .text(`₹${plan.estimateTotal.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+
+  // Notes
+  if (plan.notes) {
+    position += 40;
+    ensureSpace(50);
+    doc.fontSize(10).text('Notes:', 50, position).text(plan.notes, 50, position + 15, { width: 500 });
+    position = doc.y;
+  }
+
+  // Acceptance
+  position += 50;
+  ensureSpace(60);
+  doc
+    .fontSize(10)
+    .text('I accept the treatment plan and estimate described above.', 50, position)
+    .moveTo(50, position + 45).lineTo(250, position + 45).stroke()
+    .moveTo(350, position + 45).lineTo(550, position + 45).stroke()
+    .text('Patient Signature', 50, position + 50)
+    .text('Date', 350, position + 50);
+
+  // Footer
+  doc.fontSize(8).text(
+    'This is an estimate. Final fees may vary if the clinical situation changes during treatment.',
+    50,
+    700,
+    { align: 'center', width: 500 }
+  );
+
+  doc.end();
+};
+
+const generateCreditNotePDF = (creditNote, res) => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename=credit-note-${creditNote.creditNoteNumber || creditNote._id}.pdf`
+  );
+
+  const doc = new PDFDocument({ margin: 50 });
+
+  doc.pipe(res);
+
+  // Clinic Header
+  doc
+    .fontSize(20)
+    .text(process.env.CLINIC_NAME || 'Dental Clinic', 50, 50)
+    .fontSize(10)
+    .text(process.env.CLINIC_ADDRESS || '123 Main Street, City', 50, 75)
+    .text(process.env.CLINIC_PHONE || 'Phone: +91 9876543210', 50, 90)
+    .moveDown();
+
+  // Credit Note Title & Metadata
+  doc
+    .fontSize(20)
+    .text('CREDIT NOTE', 50, 140)
     .fontSize(10)
-    .text('Total Amount:', 350, position)
-    .text(`₹${invoice.totalAmount.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+    .text(`Credit Note Number: ${creditNote.creditNoteNumber}`, 50, 170)
+    .text(`Issue Date: ${new Date(creditNote.issueDate).toLocaleDateString()}`, 50, 185)
+    .text(`Original Invoice: ${creditNote.invoiceId?.invoiceNumber || ''}`, 50, 200);
+
+  if (creditNote.invoiceId?.issueDate) {
+    doc.text(`Invoice Date: ${new Date(creditNote.invoiceId.issueDate).toLocaleDateString()}`, 50, 215);
+  }
+
+  // Patient Info
+  doc
+    .fontSize(12)
+    .text('Credit To:', 350, 170)
+    .fontSize(10)
+    .text(creditNote.patientId?.name || '', 350, 185)
+    .text(creditNote.patientId?.contact || '', 350, 200);
+
+  if (creditNote.patientId?.email) {
+    doc.text(creditNote.patientId.email, 350, 215);
+  }
+
+  // Table Header
+  const tableTop = 260;
+  doc
+    .fontSize(10)
+    .text('Description', 50, tableTop, { width: 300 })
+    .text('Credited', 380, tableTop, { width: 150, align: 'right' });
+
+  doc.moveTo(50, tableTop + 15).lineTo(550, tableTop + 15).stroke();
+
+  // Lines
+  let position = tableTop + 25;
+  creditNote.lines.forEach((line) => {
+    doc
+      .fontSize(10)
+      .text(line.description || '', 50, position, { width: 300 })
+      .text(`₹${line.amount.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+
+    position += 20;
+  });
 
+  // Total
   position += 20;
+  doc.moveTo(350, position).lineTo(550, position).stroke();
+
+  position += 10;
   doc
-    .text('Amount Paid:', 350, position)
-    .text(`₹${invoice.paidAmount.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+    .fontSize(12)
+    .text('Total Credited:', 260, position, { width: 120 })
+    .text(`₹${creditNote.totalAmount.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+
+  // Reason
+  position += 40;
+  doc.fontSize(10).text('Reason:', 50, position).text(creditNote.reason, 50, position + 15, { width: 500 });
+
+  // Footer
+  doc.fontSize(8).text(
+    'This credit note reduces the amount due on the original invoice.',
+    50,
+    700,
+    { align: 'center', width: 500 }
+  );
+
+  doc.end();
+};
+
+const generateClaimPDF = (claim, res) => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename=claim-${claim.claimNumber || claim._id}.pdf`
+  );
+
+  const doc = new PDFDocument({ margin: 50 });
+
+  doc.pipe(res);
+
+  // Clinic Header
+  doc
+    .fontSize(20)
+    .text(process.env.CLINIC_NAME || 'Dental Clinic', 50, 50)
+    .fontSize(10)
+    .text(process.env.CLINIC_ADDRESS || '123 Main Street, City', 50, 75)
+    .text(process.env.CLINIC_PHONE || 'Phone: +91 9876543210', 50, 90)
+    .moveDown();
+
+  // Claim Title & Metadata
+  doc
+    .fontSize(20)
+    .text('DENTAL INSURANCE CLAIM', 50, 140)
+    .fontSize(10)
+    .text(`Claim Number: ${claim.claimNumber}`, 50, 170)
+    .text(`Invoice Number: ${claim.invoiceId?.invoiceNumber || ''}`, 50, 185)
+    .text(`Date: ${new Date(claim.submittedAt || claim.createdAt).toLocaleDateString()}`, 50, 200);
+
+  // Insurer
+  const provider = claim.providerId || {};
+  doc
+    .fontSize(12)
+    .text('Insurer:', 350, 170)
+    .fontSize(10)
+    .text(provider.name || '', 350, 185)
+    .text(provider.payerId ? `Payer ID: ${provider.payerId}` : '', 350, 200)
+    .text(provider.claimsAddress || '', 350, 215, { width: 200 });
+
+  // Patient & Policy
+  const patient = claim.patientId || {};
+  const policy = claim.policyId || {};
+  doc
+    .fontSize(12)
+    .text('Patient & Policy:', 50, 250)
+    .fontSize(10)
+    .text(`Patient: ${patient.name || ''}`, 50, 270)
+    .text(`Age / Gender: ${patient.age || ''} / ${patient.gender || ''}`, 50, 285)
+    .text(`Contact: ${patient.contact || ''}`, 50, 300)
+    .text(`Policy Number: ${policy.policyNumber || ''}`, 300, 270)
+    .text(`Group Number: ${policy.groupNumber || '-'}`, 300, 285)
+    .text(`Subscriber: ${policy.subscriberName || patient.name || ''} (${policy.relationship || 'self'})`, 300, 300);
+
+  // Table Header
+  const tableTop = 340;
+  doc
+    .fontSize(10)
+    .text('Date', 50, tableTop, { width: 65 })
+    .text('Tooth', 120, tableTop, { width: 40 })
+    .text('Code', 165, tableTop, { width: 60 })
+    .text('Description', 230, tableTop, { width: 160 })
+    .text('Fee', 395, tableTop, { width: 70, align: 'right' })
+    .text('Claimed', 470, tableTop, { width: 80, align: 'right' });
+
+  doc.moveTo(50, tableTop + 15).lineTo(550, tableTop + 15).stroke();
+
+  let position = tableTop + 25;
+
+  // Start a new page when the next block would run into the footer
+  const ensureSpace = (height) => {
+    if (position + height > 680) {
+      doc.addPage();
+      position = 50;
+    }
+  };
+
+  // Procedures
+  claim.lines.forEach((line) => {
+    ensureSpace(20);
+    doc
+      .fontSize(10)
+      .text(line.serviceDate ? new Date(line.serviceDate).toLocaleDateString() : '-', 50, position, { width: 65 })
+      .text(line.toothNumber || '-', 120, position, { width: 40 })
+      .text(line.procedureCode, 165, position, { width: 60 })
+      .text(line.description || '', 230, position, { width: 160 })
+      .text(`₹${line.fee.toFixed(2)}`, 395, position, { width: 70, align: 'right' })
+      .text(`₹${line.claimedAmount.toFixed(2)}`, 470, position, { width: 80, align: 'right' });
+
+    position = Math.max(position + 20, doc.y + 5);
+  });
+
+  // Totals
+  const fees = claim.lines.reduce((sum, line) => sum + line.fee, 0);
 
   position += 20;
-  const balance = invoice.totalAmount - invoice.paidAmount;
+  ensureSpace(50);
+  doc.moveTo(300, position).lineTo(550, position).stroke();
+  position += 10;
+
+  doc
+    .fontSize(10)
+    .text('Total Fees:', 300, position, { width: 150 })
+    .text(`₹${fees.toFixed(2)}`, 445, position, { width: 105, align: 'right' });
+  position += 20;
   doc
     .fontSize(12)
-    .text('Balance Due:', 350, position)
-    .text(`₹${balance.toFixed(2)}`, 380, position, { width: 150, align: 'right' });
+    .text('Amount Claimed:', 300, position, { width: 150 })
+    .text(`₹${claim.claimedAmount.toFixed(2)}`, 445, position, { width: 105, align: 'right' });
 
   // Notes
-  if (invoice.notes) {
-    position += 40;
-    doc.fontSize(10).text('Notes:', 50, position).text(invoice.notes, 50, position + 15, { width: 500 });
+  if (claim.notes) {
+    position += 30;
+    ensureSpace(50);
+    doc.fontSize(10).text('Remarks:', 50, position).text(claim.notes, 50, position + 15, { width: 500 });
+    position = doc.y;
   }
 
+  // Signatures
+  position += 50;
+  ensureSpace(60);
+  doc.moveTo(50, position).lineTo(250, position).stroke();
+  doc.moveTo(350, position).lineTo(550, position).stroke();
+  doc
+    .fontSize(10)
+    .text('Patient / Subscriber Signature', 50, position + 5)
+    .text('Treating Dentist Signature', 350, position + 5);
+
   // Footer
-  doc.fontSize(8).text('Thank you for your business!', 50, 700, { align: 'center', width: 500 });
+  doc.fontSize(8).text(
+    'I certify that the procedures listed were performed on the dates shown.',
+    50,
+    700,
+    { align: 'center', width: 500 }
+  );
 
-  // Finalize
   doc.end();
 };
 
-module.exports = { generateInvoicePDF };
+const SIGNER_RELATIONSHIP_LABELS = {
+  patient: 'Patient',
+  parent: 'Parent',
+  guardian: 'Guardian',
+  other: 'Representative',
+};
+
+/**
+ * Build a signed consent form
+ * Resolves with the PDF itself, so it can be both stored in the patient's files and downloaded
+ */
+const generateConsentPDF = (consent) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const chunks = [];
+
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Clinic Header
+    doc
+      .fontSize(20)
+      .text(process.env.CLINIC_NAME || 'Dental Clinic', 50, 50)
+      .fontSize(10)
+      .text(process.env.CLINIC_ADDRESS || '123 Main Street, City', 50, 75)
+      .text(process.env.CLINIC_PHONE || 'Phone: +91 9876543210', 50, 90)
+      .moveDown();
+
+    // Title & Patient
+    doc
+      .fontSize(18)
+      .text('CONSENT FORM', 50, 140)
+      .fontSize(12)
+      .text(consent.title, 50, 165)
+      .fontSize(10)
+      .text(`Patient: ${consent.patientId?.name || ''}`, 50, 190)
+      .text(`Form version: ${consent.templateVersion}`, 350, 190);
+
+    if (consent.treatmentId?.treatmentType) {
+      const tooth = consent.treatmentId.toothNumber ? ` (tooth ${consent.treatmentId.toothNumber})` : '';
+      doc.text(`Treatment: ${consent.treatmentId.treatmentType}${tooth}`, 50, 205);
+    }
+
+    // Consent text
+    doc.moveTo(50, 225).lineTo(550, 225).stroke();
+    doc.fontSize(10).text(consent.body, 50, 240, { width: 500, align: 'justify' });
+
+    // Signature
+    let position = doc.y + 30;
+    if (position + 110 > 680) {
+      doc.addPage();
+      position = 50;
+    }
+
+    const signature = Buffer.from(consent.signature.split(',')[1] || '', 'base64');
+    doc.image(signature, 50, position, { fit: [200, 80] });
+    doc
+      .moveTo(50, position + 85).lineTo(250, position + 85).stroke()
+      .text(
+        `${consent.signerName} (${SIGNER_RELATIONSHIP_LABELS[consent.signerRelationship] || consent.signerRelationship})`,
+        50,
+        position + 90
+      )
+      .text(`Signed: ${new Date(consent.signedAt).toLocaleString()}`, 350, position + 60)
+      .text(`Witness: ${consent.witnessedBy?.name || ''}`, 350, position + 75);
+
+    // Footer
+    doc.fontSize(8).text(
+      'Signed electronically. The signature above was drawn by the signer in the presence of the witness.',
+      50,
+      700,
+      { align: 'center', width: 500 }
+    );
+
+    doc.end();
+  });
+
+const DRUG_FORM_LABELS = {
+  tablet: 'Tab.',
+  capsule: 'Cap.',
+  syrup: 'Syr.',
+  suspension: 'Susp.',
+  injection: 'Inj.',
+  gel: 'Gel',
+  ointment: 'Oint.',
+  mouthwash: 'Mouthwash',
+  toothpaste: 'Toothpaste',
+  drops: 'Drops',
+  other: '',
+};
+
+/**
+ * Generate a printable prescription and return it as a buffer
+ * The prescription must have patientId, doctorId and treatmentId populated
+ */
+const generatePrescriptionPDF = (prescription) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const chunks = [];
+
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const doctor = prescription.doctorId || {};
+    const patient = prescription.patientId || {};
+
+    // Clinic Header
+    doc
+      .fontSize(20)
+      .text(process.env.CLINIC_NAME || 'Dental Clinic', 50, 50)
+      .fontSize(10)
+      .text(process.env.CLINIC_ADDRESS || '123 Main Street, City', 50, 75)
+      .text(process.env.CLINIC_PHONE || 'Phone: +91 9876543210', 50, 90);
+
+    // Prescriber
+    doc
+      .fontSize(12)
+      .text(`Dr. ${doctor.name || ''}`, 350, 50, { align: 'right', width: 200 })
+      .fontSize(10)
+      .text(`Reg. No: ${doctor.registrationNumber || ''}`, 350, 70, { align: 'right', width: 200 });
+
+    doc.moveTo(50, 115).lineTo(550, 115).stroke();
+
+    // Patient
+    const details = [patient.age && `${patient.age} yrs`, patient.gender].filter(Boolean).join(', ');
+    doc
+      .fontSize(10)
+      .text(`Rx No: ${prescription.rxNumber}`, 50, 130)
+      .text(`Date: ${new Date(prescription.createdAt).toLocaleDateString()}`, 350, 130)
+      .text(`Patient: ${patient.name || ''}${details ? ` (${details})` : ''}`, 50, 145);
+
+    if (prescription.treatmentId?.treatmentType) {
+      const tooth = prescription.treatmentId.toothNumber ? ` (tooth ${prescription.treatmentId.toothNumber})` : '';
+      doc.text(`For: ${prescription.treatmentId.treatmentType}${tooth}`, 50, 160);
+    }
+
+    // Drugs
+    doc.fontSize(22).text('Rx', 50, 185);
+
+    let position = 220;
+    prescription.items.forEach((item, index) => {
+      if (position > 640) {
+        doc.addPage();
+        position = 50;
+      }
+
+      const form = DRUG_FORM_LABELS[item.form] || '';
+      doc
+        .fontSize(11)
+        .text(`${index + 1}. ${[form, item.name, item.strength].filter(Boolean).join(' ')}`, 60, position, { width: 490 })
+        .fontSize(10)
+        .text(`${item.dosage} - ${item.frequency} - ${item.duration}`, 75, doc.y + 2, { width: 475 });
+
+      if (item.instructions) {
+        doc.text(item.instructions, 75, doc.y + 2, { width: 475 });
+      }
+
+      position = doc.y + 12;
+    });
+
+    if (prescription.notes) {
+      doc.fontSize(10).text(`Advice: ${prescription.notes}`, 50, position + 5, { width: 500 });
+      position = doc.y + 10;
+    }
+
+    // Signature
+    if (position > 640) {
+      doc.addPage();
+      position = 50;
+    }
+    doc
+      .moveTo(380, position + 50).lineTo(550, position + 50).stroke()
+      .fontSize(10)
+      .text(`Dr. ${doctor.name || ''}`, 380, position + 55, { width: 170, align: 'center' })
+      .text(`Reg. No: ${doctor.registrationNumber || ''}`, 380, position + 70, { width: 170, align: 'center' });
+
+    // Footer
+    doc.fontSize(8).text('This prescription is valid only with the signature of the prescribing dentist.', 50, 700, {
+      align: 'center',
+      width: 500,
+    });
+
+    doc.end();
+  });
+
+module.exports = {
+  generateInvoicePDF,
+  generateTreatmentPlanPDF,
+  generateCreditNotePDF,
+  generateClaimPDF,
+  generateConsentPDF,
+  generatePrescriptionPDF,
+};
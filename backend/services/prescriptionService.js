@@ -0,0 +1,68 @@
+const File = require('../models/File');
+const { uploadToS3 } = require('./s3Service');
+const { generatePrescriptionPDF } = require('./pdfService');
+
+// Allergies are recorded as typed, so "Penicillins" or "NSAIDs" should still catch the drug
+const normalize = (value) => value.trim().toLowerCase().replace(/s\b/g, '');
+
+/**
+ * Recorded allergies a prescription clashes with, matched on each drug's name, generic name and class
+ * Returns [{ type, severity, message }] in the shape treatment alerts use
+ */
+const getPrescriptionAlerts = (patient, items, drugs = []) => {
+  const alerts = [];
+
+  items.forEach((item) => {
+    const drug = drugs.find((entry) => String(entry._id) === String(item.drugId));
+    const terms = [item.name, drug?.genericName, drug?.drugClass]
+      .filter(Boolean)
+      .map(normalize)
+      .filter((term) => term.length > 2);
+
+    (patient.allergies || []).forEach((allergy) => {
+      const substance = normalize(allergy.substance);
+      if (substance.length <= 2) return;
+      if (!terms.some((term) => term.includes(substance) || substance.includes(term))) return;
+
+      alerts.push({
+        type: 'allergy',
+        severity: 'danger',
+        message: `${item.name}: patient is allergic to ${allergy.substance}${allergy.reaction ? ` (${allergy.reaction})` : ''}`,
+      });
+    });
+  });
+
+  return alerts;
+};
+
+/**
+ * Generate the printable Rx and add it to the patient's files
+ * The prescription must have patientId, doctorId and treatmentId populated
+ * Returns null if the upload fails, and storing is tried again on download
+ */
+const storePrescriptionPDF = async (prescription, userId) => {
+  const pdf = await generatePrescriptionPDF(prescription);
+  const fileName = `prescription-${prescription.rxNumber}.pdf`;
+  const s3Key = `patients/${prescription.patientId._id}/prescriptions/${fileName}`;
+
+  const upload = await uploadToS3({ buffer: pdf, mimetype: 'application/pdf' }, s3Key);
+  if (!upload.success) {
+    return null;
+  }
+
+  return File.create({
+    patientId: prescription.patientId._id,
+    fileName,
+    fileType: 'prescription',
+    mimeType: 'application/pdf',
+    fileSize: pdf.length,
+    s3Key,
+    s3Bucket: process.env.AWS_S3_BUCKET || 'dental-clinic-files',
+    uploadedBy: userId,
+  });
+};
+
+module.exports = {
+  getPrescriptionAlerts,
+  storePrescriptionPDF,
+};
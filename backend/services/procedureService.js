@@ -0,0 +1,62 @@
+const { roundCents } = require('./paymentService');
+
+// Tax rate (%) charged for each procedure tax class
+const TAX_CLASS_RATES = {
+  exempt: 0,
+  reduced: parseFloat(process.env.TAX_RATE_REDUCED) || 5,
+  standard: parseFloat(process.env.TAX_RATE_STANDARD) || 18,
+};
+
+/**
+ * Tax rate for a procedure's tax class
+ */
+const getTaxRate = (procedure) => TAX_CLASS_RATES[procedure.taxClass] ?? 0;
+
+/**
+ * What a procedure costs on a fee schedule
+ * The schedule's own fee for the procedure wins, then its discount off the default fee
+ */
+const getScheduleFee = (procedure, schedule) => {
+  if (!schedule) {
+    return procedure.defaultFee;
+  }
+
+  const entry = schedule.fees.find((fee) => String(fee.procedureId) === String(procedure._id));
+  if (entry) {
+    return entry.fee;
+  }
+
+  return roundCents(procedure.defaultFee * (1 - (schedule.discountPercent || 0) / 100));
+};
+
+/**
+ * Reduce a free-text treatment type to what is left once case, spacing and punctuation are gone,
+ * so "Root Canal", "root-canal" and "ROOT CANAL " compare equal
+ */
+const normalizeProcedureText = (text) => String(text || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Index procedures by their normalized code, name and aliases
+ */
+const buildProcedureLookup = (procedures) => {
+  const lookup = new Map();
+
+  procedures.forEach((procedure) => {
+    [procedure.code, procedure.name, ...(procedure.aliases || [])].forEach((text) => {
+      const key = normalizeProcedureText(text);
+      if (key && !lookup.has(key)) {
+        lookup.set(key, procedure);
+      }
+    });
+  });
+
+  return lookup;
+};
+
+module.exports = {
+  TAX_CLASS_RATES,
+  getTaxRate,
+  getScheduleFee,
+  normalizeProcedureText,
+  buildProcedureLookup,
+};
@@ -0,0 +1,191 @@
+const Invoice = require('../models/Invoice');
+const Payment = require('../models/Payment');
+const { roundCents } = require('./paymentService');
+const { canRemind } = require('./reminderService');
+const { sendPaymentReminder } = require('./emailService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days past the due date at which each payment reminder goes out; the last one is the final notice
+const DUNNING_STAGE_DAYS = (process.env.DUNNING_STAGE_DAYS || '7,21,45')
+  .split(',')
+  .map((days) => parseInt(days))
+  .filter((days) => days >= 0)
+  .sort((a, b) => a - b);
+
+// How long reminders hold off after a payment comes in
+const DUNNING_PAUSE_DAYS = parseInt(process.env.DUNNING_PAUSE_DAYS) || 14;
+
+// Upper bound in days past due of each aging bucket
+const AGING_BUCKETS = [
+  { key: 'current', maxDays: 0 },
+  { key: 'days1to30', maxDays: 30 },
+  { key: 'days31to60', maxDays: 60 },
+  { key: 'days61to90', maxDays: 90 },
+  { key: 'days90plus', maxDays: Infinity },
+];
+
+const OPEN_STATUSES = ['pending', 'partial'];
+
+/**
+ * Query for invoices that are past their due date with money still owed
+ * Overdue is a computed state and is never stored in the invoice status
+ */
+const getOverdueFilter = (now = new Date()) => ({
+  status: { $in: OPEN_STATUSES },
+  dueDate: { $lt: now },
+});
+
+/**
+ * Whole days an invoice is past its due date, 0 when it isn't due yet or has no due date
+ */
+const getDaysOverdue = (invoice, now = new Date()) => {
+  if (!invoice.dueDate) {
+    return 0;
+  }
+  return Math.max(0, Math.floor((now - new Date(invoice.dueDate)) / DAY_MS));
+};
+
+/**
+ * What the patient still owes on an invoice
+ * The insurer's share and the insurer's payments are left out
+ */
+const getPatientBalance = async (invoice) => {
+  const [totals] = await Payment.aggregate([
+    { $match: { invoiceId: invoice._id, voided: false, claimId: { $exists: false } } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+
+  return roundCents(
+    invoice.totalAmount - invoice.creditedAmount - (invoice.insuranceAmount || 0) - (totals?.total || 0)
+  );
+};
+
+/**
+ * Outstanding balances by patient in aging buckets
+ * Invoices without a due date are aged from their issue date
+ */
+const getAgingReport = async (now = new Date()) => {
+  const invoices = await Invoice.find({ status: { $in: OPEN_STATUSES } }).populate('patientId', 'name contact email');
+
+  const emptyBuckets = () => Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket.key, 0]));
+  const totals = { ...emptyBuckets(), total: 0 };
+  const byPatient = new Map();
+
+  invoices.forEach((invoice) => {
+    const balance = roundCents(invoice.totalAmount - invoice.creditedAmount - invoice.paidAmount);
+    if (balance <= 0 || !invoice.patientId) {
+      return;
+    }
+
+    const dueDate = new Date(invoice.dueDate || invoice.issueDate);
+    const days = Math.max(0, Math.floor((now - dueDate) / DAY_MS));
+    const bucket = dueDate >= now ? AGING_BUCKETS[0] : AGING_BUCKETS.find((b) => b.maxDays > 0 && days <= b.maxDays);
+
+    const key = invoice.patientId._id.toString();
+    if (!byPatient.has(key)) {
+      byPatient.set(key, {
+        patientId: invoice.patientId._id,
+        name: invoice.patientId.name,
+        contact: invoice.patientId.contact,
+        ...emptyBuckets(),
+        total: 0,
+        invoiceCount: 0,
+        oldestDaysOverdue: 0,
+      });
+    }
+
+    const row = byPatient.get(key);
+    row[bucket.key] = roundCents(row[bucket.key] + balance);
+    row.total = roundCents(row.total + balance);
+    row.invoiceCount += 1;
+    if (bucket.key !== 'current') {
+      row.oldestDaysOverdue = Math.max(row.oldestDaysOverdue, days);
+    }
+
+    totals[bucket.key] = roundCents(totals[bucket.key] + balance);
+    totals.total = roundCents(totals.total + balance);
+  });
+
+  return {
+    asOf: now,
+    totals,
+    patients: [...byPatient.values()].sort((a, b) => b.total - a.total),
+  };
+};
+
+/**
+ * Hold off payment reminders on an invoice after a payment
+ * The caller saves the invoice
+ */
+const pauseDunning = (invoice, now = new Date()) => {
+  invoice.dunning.pausedUntil = new Date(now.getTime() + DUNNING_PAUSE_DAYS * DAY_MS);
+};
+
+/**
+ * Queue the payment reminder stage each overdue invoice has reached
+ * Like appointment reminders, only the latest stage due is sent, so an invoice coming
+ * off a pause doesn't get the stages it missed all at once
+ * Returns how many reminders were queued
+ */
+const sendDueDunning = async (now = new Date()) => {
+  if (DUNNING_STAGE_DAYS.length === 0) {
+    return { queued: 0 };
+  }
+
+  const invoices = await Invoice.find({
+    ...getOverdueFilter(now),
+    'dunning.pausedUntil': { $not: { $gt: now } },
+  }).populate('patientId');
+
+  let queued = 0;
+
+  for (const invoice of invoices) {
+    if (!invoice.patientId || !canRemind(invoice.patientId, 'email')) {
+      continue;
+    }
+
+    const daysOverdue = getDaysOverdue(invoice, now);
+    const reached = DUNNING_STAGE_DAYS.filter((days) => days <= daysOverdue).length;
+    if (reached <= invoice.dunning.stage) {
+      continue;
+    }
+
+    // Nothing to chase while the rest is with the insurer
+    const balance = await getPatientBalance(invoice);
+    if (balance <= 0) {
+      continue;
+    }
+
+    try {
+      const result = await sendPaymentReminder(invoice, {
+        stage: reached,
+        daysOverdue,
+        balance,
+        final: reached === DUNNING_STAGE_DAYS.length,
+      });
+
+      if (result.success) {
+        invoice.dunning.stage = reached;
+        invoice.dunning.lastSentAt = now;
+        await invoice.save();
+        queued += 1;
+      }
+    } catch (error) {
+      console.error(`Failed to queue payment reminder for invoice ${invoice.invoiceNumber}:`, error);
+    }
+  }
+
+  return { queued };
+};
+
+module.exports = {
+  DUNNING_STAGE_DAYS,
+  AGING_BUCKETS,
+  getOverdueFilter,
+  getDaysOverdue,
+  getPatientBalance,
+  getAgingReport,
+  pauseDunning,
+  sendDueDunning,
+};
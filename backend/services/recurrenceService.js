@@ -0,0 +1,132 @@
+const FREQUENCIES = ['daily', 'weekly', 'monthly'];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Hard cap so a bad rule cannot flood the calendar
+const MAX_OCCURRENCES = 104;
+
+/**
+ * Validate a recurrence rule
+ * Returns an error message, or null when the rule is usable
+ */
+const validateRecurrence = (rule) => {
+  if (!rule || typeof rule !== 'object') {
+    return 'Recurrence rule is required';
+  }
+
+  if (!FREQUENCIES.includes(rule.frequency)) {
+    return `Frequency must be one of: ${FREQUENCIES.join(', ')}`;
+  }
+
+  if (rule.interval !== undefined && (!Number.isInteger(Number(rule.interval)) || Number(rule.interval) < 1)) {
+    return 'Interval must be a positive whole number';
+  }
+
+  if (!rule.count && !rule.until) {
+    return 'Recurrence needs either a count or an until date';
+  }
+
+  if (rule.count && (!Number.isInteger(Number(rule.count)) || Number(rule.count) < 1)) {
+    return 'Count must be a positive whole number';
+  }
+
+  if (rule.count && Number(rule.count) > MAX_OCCURRENCES) {
+    return `A series cannot have more than ${MAX_OCCURRENCES} occurrences`;
+  }
+
+  if (rule.until && isNaN(new Date(rule.until).getTime())) {
+    return 'Until must be a valid date';
+  }
+
+  if (rule.byWeekday && rule.byWeekday.length > 0) {
+    if (rule.frequency !== 'weekly') {
+      return 'By-weekday is only supported for weekly recurrence';
+    }
+    const invalid = rule.byWeekday.find((day) => !WEEKDAYS.includes(day));
+    if (invalid) {
+      return `${invalid} is not a valid weekday`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Expand a recurrence rule into concrete occurrences
+ * The first occurrence is the given start time; every occurrence keeps its duration and time of day
+ */
+const expandRecurrence = (startTime, endTime, rule) => {
+  const start = new Date(startTime);
+  const duration = new Date(endTime).getTime() - start.getTime();
+  const interval = Number(rule.interval) || 1;
+  const count = rule.count ? Number(rule.count) : MAX_OCCURRENCES;
+  const until = rule.until ? new Date(rule.until) : null;
+
+  // An until date without a time covers the whole day
+  if (until && until.getHours() === 0 && until.getMinutes() === 0) {
+    until.setHours(23, 59, 59, 999);
+  }
+
+  const occurrences = [];
+  const push = (date) => {
+    occurrences.push({
+      startTime: date,
+      endTime: new Date(date.getTime() + duration),
+    });
+  };
+  const withinLimits = (date) => occurrences.length < count && (!until || date <= until);
+
+  if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    const days = rule.byWeekday.map((day) => WEEKDAYS.indexOf(day)).sort((a, b) => a - b);
+
+    // Walk week by week from the Sunday of the starting week
+    const weekStart = new Date(start);
+    weekStart.setDate(start.getDate() - start.getDay());
+
+    for (let week = 0; occurrences.length < count; week += interval) {
+      let passedUntil = false;
+      for (const day of days) {
+        const date = new Date(weekStart);
+        date.setDate(weekStart.getDate() + week * 7 + day);
+        if (date < start) continue;
+        if (!withinLimits(date)) {
+          passedUntil = true;
+          break;
+        }
+        push(date);
+      }
+      if (passedUntil) break;
+    }
+
+    return occurrences;
+  }
+
+  for (let step = 0; ; step += interval) {
+    const date = new Date(start);
+
+    if (rule.frequency === 'daily') {
+      date.setDate(start.getDate() + step);
+    } else if (rule.frequency === 'weekly') {
+      date.setDate(start.getDate() + step * 7);
+    } else {
+      date.setMonth(start.getMonth() + step);
+      // Skip months that do not have this day (e.g. the 31st)
+      if (date.getDate() !== start.getDate()) {
+        if (until && date > until) break;
+        continue;
+      }
+    }
+
+    if (!withinLimits(date)) break;
+    push(date);
+  }
+
+  return occurrences;
+};
+
+module.exports = {
+  FREQUENCIES,
+  WEEKDAYS,
+  MAX_OCCURRENCES,
+  validateRecurrence,
+  expandRecurrence,
+};
@@ -0,0 +1,118 @@
+const Appointment = require('../models/Appointment');
+const Notification = require('../models/Notification');
+const ReminderRule = require('../models/ReminderRule');
+const { ACTIVE_STATUSES } = require('./schedulingService');
+const { sendAppointmentReminder } = require('./emailService');
+const { sendAppointmentReminderSms } = require('./smsService');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Created at setup by `npm run seed-reminder-rules`
+const DEFAULT_REMINDER_RULES = [
+  { name: '3 days before', offsetHours: 72, channel: 'email' },
+  { name: 'Day before', offsetHours: 24, channel: 'sms' },
+  { name: '2 hours before', offsetHours: 2, channel: 'sms' },
+];
+
+/**
+ * The rules whose stage an appointment is currently in
+ * Only the latest stage is due - if an appointment was booked after an earlier stage
+ * passed, that stage is skipped rather than sent alongside the later one
+ */
+const getDueRules = (rules, appointment, now) => {
+  const msUntilStart = new Date(appointment.startTime) - now;
+  const passed = rules.filter((rule) => rule.offsetHours * HOUR_MS >= msUntilStart);
+
+  if (passed.length === 0) {
+    return [];
+  }
+
+  const latestOffset = Math.min(...passed.map((rule) => rule.offsetHours));
+  return passed.filter((rule) => rule.offsetHours === latestOffset);
+};
+
+/**
+ * Whether the patient can and wants to get reminders on a channel
+ */
+const canRemind = (patient, channel) => {
+  const preferences = patient.reminderPreferences || {};
+
+  if (preferences.optOut) {
+    return false;
+  }
+
+  if (channel === 'sms') {
+    return preferences.sms !== false && !!patient.contact;
+  }
+
+  return preferences.email !== false && !!patient.email;
+};
+
+/**
+ * Queue every reminder stage that has come due
+ * Delivery and retries are left to the notification worker
+ * Returns how many reminders were queued
+ */
+const sendDueReminders = async (now = new Date()) => {
+  const rules = await ReminderRule.find({ isActive: true });
+  if (rules.length === 0) {
+    return { queued: 0 };
+  }
+
+  const maxOffset = Math.max(...rules.map((rule) => rule.offsetHours));
+
+  const appointments = await Appointment.find({
+    startTime: { $gt: now, $lte: new Date(now.getTime() + maxOffset * HOUR_MS) },
+    status: { $in: ACTIVE_STATUSES },
+  })
+    .populate('patientId')
+    .populate('doctorId');
+
+  let queued = 0;
+
+  for (const appointment of appointments) {
+    if (!appointment.patientId || !appointment.doctorId) {
+      continue;
+    }
+
+    for (const rule of getDueRules(rules, appointment, now)) {
+      if (!canRemind(appointment.patientId, rule.channel)) {
+        continue;
+      }
+
+      if (await Notification.exists({ appointmentId: appointment._id, reminderRuleId: rule._id })) {
+        continue;
+      }
+
+      try {
+        const result = rule.channel === 'sms'
+          ? await sendAppointmentReminderSms(appointment, rule)
+          : await sendAppointmentReminder(appointment, rule);
+
+        if (result.success) {
+          queued += 1;
+
+          if (!appointment.reminderSent) {
+            appointment.reminderSent = true;
+            await appointment.save();
+          }
+        }
+      } catch (error) {
+        // Another run already claimed this stage
+        if (error.code === 11000) {
+          continue;
+        }
+        console.error(`Failed to queue ${rule.name} reminder for appointment ${appointment._id}:`, error);
+      }
+    }
+  }
+
+  return { queued };
+};
+
+module.exports = {
+  DEFAULT_REMINDER_RULES,
+  getDueRules,
+  canRemind,
+  sendDueReminders,
+};
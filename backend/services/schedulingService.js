@@ -0,0 +1,267 @@
+const Appointment = require('../models/Appointment');
+const DoctorSchedule = require('../models/DoctorSchedule');
+const ClinicClosure = require('../models/ClinicClosure');
+const { DAY_MS, getClinicDay, getCalendarDay, getDayOfWeek, atClinicTime } = require('../utils/clinicTime');
+
+// Appointment statuses that hold the dentist's time (and any room or equipment)
+const ACTIVE_STATUSES = ['scheduled', 'confirmed', 'rescheduled'];
+
+// Used for dentists who have not set up their own schedule yet
+const DEFAULT_WEEKLY_HOURS = [1, 2, 3, 4, 5].map((dayOfWeek) => ({
+  dayOfWeek,
+  startTime: '09:00',
+  endTime: '18:00',
+  breaks: [{ startTime: '13:00', endTime: '14:00', label: 'Lunch' }],
+})).concat([{ dayOfWeek: 6, startTime: '09:00', endTime: '13:00', breaks: [] }]);
+
+/**
+ * Check for appointment conflicts
+ * Besides the doctor, the room and any equipment in `resources` must also be free
+ */
+const checkConflict = async (doctorId, startTime, endTime, excludeAppointmentId = null, resources = {}) => {
+  const { roomId, equipmentIds = [] } = resources;
+
+  const resourceMatch = [{ doctorId }];
+  if (roomId) {
+    resourceMatch.push({ roomId });
+  }
+  if (equipmentIds.length > 0) {
+    resourceMatch.push({ equipmentIds: { $in: equipmentIds } });
+  }
+
+  const query = {
+    status: { $in: ACTIVE_STATUSES },
+    $and: [
+      { $or: resourceMatch },
+      {
+        $or: [
+          // New appointment starts during existing appointment
+          {
+            startTime: { $lte: new Date(startTime) },
+            endTime: { $gt: new Date(startTime) },
+          },
+          // New appointment ends during existing appointment
+          {
+            startTime: { $lt: new Date(endTime) },
+            endTime: { $gte: new Date(endTime) },
+          },
+          // New appointment encompasses existing appointment
+          {
+            startTime: { $gte: new Date(startTime) },
+            endTime: { $lte: new Date(endTime) },
+          },
+        ],
+      },
+    ],
+  };
+
+  // Exclude current appointment(s) when updating
+  if (Array.isArray(excludeAppointmentId)) {
+    query._id = { $nin: excludeAppointmentId };
+  } else if (excludeAppointmentId) {
+    query._id = { $ne: excludeAppointmentId };
+  }
+
+  const conflict = await Appointment.findOne(query);
+  return conflict;
+};
+
+/**
+ * Explain which resource a conflicting appointment is holding
+ */
+const describeConflict = (conflict, doctorId, resources = {}) => {
+  if (conflict.doctorId.toString() === doctorId.toString()) {
+    return 'Doctor has conflicting appointment at this time';
+  }
+  if (resources.roomId && conflict.roomId && conflict.roomId.toString() === resources.roomId.toString()) {
+    return 'Room is already booked at this time';
+  }
+  return 'Equipment is already booked at this time';
+};
+
+/**
+ * Get a dentist's schedule, falling back to the default clinic hours
+ */
+const getSchedule = async (doctorId) => {
+  const schedule = await DoctorSchedule.findOne({ doctorId });
+  if (schedule) {
+    return schedule;
+  }
+
+  return { doctorId, weeklyHours: DEFAULT_WEEKLY_HOURS, leaves: [], isDefault: true };
+};
+
+/**
+ * Closures on a YYYY-MM-DD day
+ */
+const findClosures = (day) => {
+  const start = new Date(`${day}T00:00:00Z`);
+  return ClinicClosure.find({ date: { $gte: start, $lt: new Date(start.getTime() + DAY_MS) } });
+};
+
+/**
+ * Working windows for one YYYY-MM-DD clinic day, with breaks cut out
+ * Returns no windows and a reason when the clinic is closed, the dentist is on leave or off that day
+ */
+const getWorkingWindows = (schedule, closures, day) => {
+  if (closures.some((closure) => getCalendarDay(closure.date) === day)) {
+    return { windows: [], reason: 'Clinic is closed on this day' };
+  }
+
+  const onLeave = schedule.leaves.some(
+    (leave) => getCalendarDay(leave.startDate) <= day && getCalendarDay(leave.endDate) >= day
+  );
+  if (onLeave) {
+    return { windows: [], reason: 'Doctor is on leave on this day' };
+  }
+
+  const workingDay = schedule.weeklyHours.find((wd) => wd.dayOfWeek === getDayOfWeek(day));
+  if (!workingDay) {
+    return { windows: [], reason: 'Doctor does not work on this day' };
+  }
+
+  // Split the working day around its breaks
+  const breaks = [...workingDay.breaks].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  const windows = [];
+  let cursor = atClinicTime(day, workingDay.startTime);
+
+  for (const brk of breaks) {
+    const breakStart = atClinicTime(day, brk.startTime);
+    if (breakStart > cursor) {
+      windows.push({ startTime: cursor, endTime: breakStart });
+    }
+    cursor = atClinicTime(day, brk.endTime);
+  }
+
+  const dayEnd = atClinicTime(day, workingDay.endTime);
+  if (dayEnd > cursor) {
+    windows.push({ startTime: cursor, endTime: dayEnd });
+  }
+
+  return { windows, reason: null };
+};
+
+/**
+ * Check a booking against the dentist's working hours, leave and clinic closures
+ * Returns a reason string when the time is not bookable, or null
+ */
+const checkAvailability = async (doctorId, startTime, endTime) => {
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+
+  const day = getClinicDay(start);
+
+  const schedule = await getSchedule(doctorId);
+  const closures = await findClosures(day);
+
+  const { windows, reason } = getWorkingWindows(schedule, closures, day);
+  if (reason) {
+    return reason;
+  }
+
+  const fits = windows.some((window) => start >= window.startTime && end <= window.endTime);
+  if (!fits) {
+    return 'Appointment is outside the doctor\'s working hours';
+  }
+
+  return null;
+};
+
+/**
+ * Check a list of occurrences for conflicts
+ * Returns the occurrences that collide, each with a reason and the clashing appointment id if any
+ */
+const findConflicts = async (doctorId, occurrences, excludeAppointmentId = null, resources = {}) => {
+  const conflicts = [];
+
+  for (const occurrence of occurrences) {
+    const unavailable = await checkAvailability(doctorId, occurrence.startTime, occurrence.endTime);
+    if (unavailable) {
+      conflicts.push({
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        reason: unavailable,
+      });
+      continue;
+    }
+
+    const conflict = await checkConflict(
+      doctorId,
+      occurrence.startTime,
+      occurrence.endTime,
+      excludeAppointmentId,
+      resources
+    );
+    if (conflict) {
+      conflicts.push({
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        conflictingAppointmentId: conflict._id,
+        reason: describeConflict(conflict, doctorId, resources),
+      });
+    }
+  }
+
+  return conflicts;
+};
+
+/**
+ * List free slots of the given duration (minutes) for a dentist on a day
+ * When a room is given, slots where that room is taken are left out as well
+ */
+const getAvailableSlots = async (doctorId, date, duration, step = 15, resources = {}) => {
+  const day = getCalendarDay(date);
+  const dayStart = atClinicTime(day, '00:00');
+  const dayEnd = new Date(atClinicTime(day, '23:59').getTime() + 60 * 1000);
+
+  const schedule = await getSchedule(doctorId);
+  const closures = await findClosures(day);
+
+  const { windows, reason } = getWorkingWindows(schedule, closures, day);
+  if (reason) {
+    return { slots: [], reason };
+  }
+
+  const booked = await Appointment.find({
+    $or: resources.roomId ? [{ doctorId }, { roomId: resources.roomId }] : [{ doctorId }],
+    status: { $in: ACTIVE_STATUSES },
+    startTime: { $lt: dayEnd },
+    endTime: { $gt: dayStart },
+  });
+
+  const now = Date.now();
+  const durationMs = duration * 60 * 1000;
+  const stepMs = step * 60 * 1000;
+  const slots = [];
+
+  for (const window of windows) {
+    for (
+      let slotStart = window.startTime.getTime();
+      slotStart + durationMs <= window.endTime.getTime();
+      slotStart += stepMs
+    ) {
+      const slotEnd = slotStart + durationMs;
+      if (slotStart < now) continue;
+
+      const clashes = booked.some(
+        (appt) => appt.startTime.getTime() < slotEnd && appt.endTime.getTime() > slotStart
+      );
+      if (!clashes) {
+        slots.push({ startTime: new Date(slotStart), endTime: new Date(slotEnd) });
+      }
+    }
+  }
+
+  return { slots, reason: null };
+};
+
+module.exports = {
+  ACTIVE_STATUSES,
+  DEFAULT_WEEKLY_HOURS,
+  checkConflict,
+  describeConflict,
+  checkAvailability,
+  findConflicts,
+  getSchedule,
+  getAvailableSlots,
+};
@@ -0,0 +1,137 @@
+const Counter = require('../models/Counter');
+const Invoice = require('../models/Invoice');
+const CreditNote = require('../models/CreditNote');
+const Payment = require('../models/Payment');
+const InsuranceClaim = require('../models/InsuranceClaim');
+const PurchaseOrder = require('../models/PurchaseOrder');
+const Prescription = require('../models/Prescription');
+const LabCase = require('../models/LabCase');
+const { getClinicDate } = require('../utils/clinicTime');
+
+// Clinic-wide numbering settings; each can be overridden per sequence, e.g. INVOICE_NUMBER_RESET
+// The defaults give the original PREFIX-YYYYMMDD-0001 numbers
+const DEFAULTS = {
+  reset: process.env.SEQUENCE_RESET || 'daily',
+  padding: parseInt(process.env.SEQUENCE_PADDING) || 4,
+  branch: process.env.BRANCH_CODE || '',
+  separator: process.env.SEQUENCE_SEPARATOR ?? '-',
+};
+
+// Month (1-12) the fiscal year starts in, April for India
+const FISCAL_YEAR_START_MONTH = parseInt(process.env.FISCAL_YEAR_START_MONTH) || 4;
+
+const RESET_PERIODS = ['daily', 'monthly', 'yearly', 'fiscal_year', 'never'];
+
+const SEQUENCES = {
+  invoice: { env: 'INVOICE', prefix: 'INV', model: Invoice, field: 'invoiceNumber' },
+  creditNote: { env: 'CREDIT_NOTE', prefix: 'CN', model: CreditNote, field: 'creditNoteNumber' },
+  receipt: { env: 'RECEIPT', prefix: 'RCT', model: Payment, field: 'receiptNumber' },
+  claim: { env: 'CLAIM', prefix: 'CLM', model: InsuranceClaim, field: 'claimNumber' },
+  purchaseOrder: { env: 'PURCHASE_ORDER', prefix: 'PO', model: PurchaseOrder, field: 'orderNumber' },
+  prescription: { env: 'PRESCRIPTION', prefix: 'RX', model: Prescription, field: 'rxNumber' },
+  labCase: { env: 'LAB_CASE', prefix: 'LAB', model: LabCase, field: 'caseNumber' },
+};
+
+/**
+ * Resolved format of a sequence from its defaults and environment overrides
+ */
+const getFormat = (name) => {
+  const sequence = SEQUENCES[name];
+  if (!sequence) {
+    throw new Error(`Unknown sequence: ${name}`);
+  }
+
+  const env = (setting) => process.env[`${sequence.env}_NUMBER_${setting}`];
+  const format = {
+    prefix: env('PREFIX') ?? sequence.prefix,
+    reset: env('RESET') || DEFAULTS.reset,
+    padding: parseInt(env('PADDING')) || DEFAULTS.padding,
+    branch: env('BRANCH') ?? DEFAULTS.branch,
+    separator: DEFAULTS.separator,
+  };
+
+  if (!RESET_PERIODS.includes(format.reset)) {
+    throw new Error(`${format.reset} is not a valid reset period for ${name} numbers`);
+  }
+
+  return format;
+};
+
+/**
+ * The part of the number that changes when the sequence resets, e.g. 20261019 or 2026-27
+ */
+const getPeriod = (reset, date) => {
+  const { year, month, day } = getClinicDate(date);
+
+  switch (reset) {
+    case 'daily':
+      return `${year}${month}${day}`;
+    case 'monthly':
+      return `${year}${month}`;
+    case 'yearly':
+      return year;
+    case 'fiscal_year': {
+      const start = parseInt(month) >= FISCAL_YEAR_START_MONTH ? parseInt(year) : parseInt(year) - 1;
+      // A fiscal year starting in January is just the calendar year
+      return FISCAL_YEAR_START_MONTH === 1 ? String(start) : `${start}-${String(start + 1).slice(-2)}`;
+    }
+    default:
+      return '';
+  }
+};
+
+/**
+ * Everything in a number before the running count
+ */
+const getStem = (format, period) =>
+  [format.prefix, format.branch, period].filter(Boolean).map((part) => `${part}${format.separator}`).join('');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Start a new counter from the highest number already issued with the same stem,
+ * so numbers generated before counters existed are never handed out again
+ */
+const seedCounter = async (name, key, stem) => {
+  const { model, field } = SEQUENCES[name];
+
+  const last = await model.findOne({ [field]: { $regex: `^${escapeRegex(stem)}\\d+$` } })
+    .sort({ [field]: -1 })
+    .select(field);
+  const seq = last ? parseInt(last[field].slice(stem.length)) : 0;
+
+  try {
+    await Counter.updateOne({ key }, { $max: { seq } }, { upsert: true });
+  } catch (error) {
+    // Another request created the counter at the same moment
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Issue the next number in a sequence
+ * The counter is incremented atomically, so parallel requests never get the same number
+ */
+const nextNumber = async (name, date = new Date()) => {
+  const format = getFormat(name);
+  const period = getPeriod(format.reset, date);
+  const stem = getStem(format, period);
+  const key = [name, format.branch, period].filter(Boolean).join(':');
+
+  if (!(await Counter.exists({ key }))) {
+    await seedCounter(name, key, stem);
+  }
+
+  const counter = await Counter.findOneAndUpdate({ key }, { $inc: { seq: 1 } }, { new: true, upsert: true });
+
+  return `${stem}${String(counter.seq).padStart(format.padding, '0')}`;
+};
+
+module.exports = {
+  SEQUENCES,
+  getFormat,
+  getPeriod,
+  nextNumber,
+};
@@ -0,0 +1,81 @@
+const Notification = require('../models/Notification');
+const { appointmentVariables, renderNotification } = require('./templateService');
+
+/**
+ * SMS providers, chosen with SMS_PROVIDER
+ * The console provider only logs the message, for local development and testing
+ */
+const providers = {
+  console: {
+    send: async (to, body) => {
+      console.log(`SMS to ${to}:\n${body}`);
+      return { messageId: `console-${Date.now()}` };
+    },
+  },
+};
+
+const getProvider = () => {
+  const name = process.env.SMS_PROVIDER || 'console';
+
+  if (!providers[name]) {
+    throw new Error(`Unknown SMS provider: ${name}`);
+  }
+
+  return providers[name];
+};
+
+/**
+ * Send SMS
+ */
+const sendSms = async (to, body) => {
+  try {
+    const info = await getProvider().send(to, body);
+
+    console.log('SMS sent:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('SMS send error:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Queue appointment reminder by SMS
+ * Pass the reminder rule when sending one stage of the reminder schedule
+ */
+const sendAppointmentReminderSms = async (appointment, rule) => {
+  const patientPhone = appointment.patientId.contact;
+
+  if (!patientPhone) {
+    return { success: false, error: 'Patient has no phone number' };
+  }
+
+  const notification = new Notification({
+    type: 'appointment_reminder',
+    channel: 'sms',
+    recipientPhone: patientPhone,
+    patientId: appointment.patientId._id,
+    appointmentId: appointment._id,
+    reminderRuleId: rule?._id,
+    status: 'pending',
+  });
+
+  const language = appointment.patientId.language;
+  const { text } = await renderNotification(
+    'appointment_reminder',
+    'sms',
+    language,
+    appointmentVariables(appointment, notification._id, language)
+  );
+  notification.body = text;
+
+  // Queue for the notification worker
+  await notification.save();
+
+  return { success: true, notification };
+};
+
+module.exports = {
+  sendSms,
+  sendAppointmentReminderSms,
+};
@@ -0,0 +1,418 @@
+const NotificationTemplate = require('../models/NotificationTemplate');
+const { createResponseToken, buildResponseLinks } = require('./appointmentLinkService');
+
+const DEFAULT_LANGUAGE = 'en';
+
+// Placeholders look like {{patient.name}}
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const CLINIC_VARIABLES = ['clinic.name', 'clinic.address', 'clinic.phone'];
+const APPOINTMENT_VARIABLES = ['appointment.date', 'appointment.time', 'appointment.endTime', 'doctor.name'];
+const RESPONSE_LINK_VARIABLES = ['links.confirm', 'links.cancel', 'links.reschedule'];
+const PAYMENT_REMINDER_VARIABLES = [
+  'patient.name',
+  'invoice.number',
+  'invoice.date',
+  'invoice.total',
+  'invoice.balance',
+  'invoice.dueDate',
+  'reminder.stage',
+  'reminder.daysOverdue',
+];
+
+/**
+ * Variables each notification type can use
+ */
+const TEMPLATE_VARIABLES = {
+  appointment_reminder: ['patient.name', ...APPOINTMENT_VARIABLES, ...RESPONSE_LINK_VARIABLES, ...CLINIC_VARIABLES],
+  appointment_confirmation: ['patient.name', ...APPOINTMENT_VARIABLES, ...RESPONSE_LINK_VARIABLES, ...CLINIC_VARIABLES],
+  invoice_generated: [
+    'patient.name',
+    'invoice.number',
+    'invoice.date',
+    'invoice.total',
+    'invoice.paid',
+    'invoice.balance',
+    'invoice.dueDate',
+    ...CLINIC_VARIABLES,
+  ],
+  waitlist_offer: [
+    'patient.name',
+    'offer.date',
+    'offer.time',
+    'offer.endTime',
+    'offer.expiresAt',
+    'offer.url',
+    'doctor.name',
+    ...CLINIC_VARIABLES,
+  ],
+  payment_reminder: [...PAYMENT_REMINDER_VARIABLES, ...CLINIC_VARIABLES],
+  payment_final_notice: [...PAYMENT_REMINDER_VARIABLES, ...CLINIC_VARIABLES],
+};
+
+// Only reminders go out by SMS
+const TEMPLATE_CHANNELS = {
+  appointment_reminder: ['email', 'sms'],
+  appointment_confirmation: ['email'],
+  invoice_generated: ['email'],
+  waitlist_offer: ['email'],
+  payment_reminder: ['email'],
+  payment_final_notice: ['email'],
+};
+
+/**
+ * Built-in templates, used until the clinic saves its own
+ */
+const DEFAULT_TEMPLATES = {
+  'appointment_reminder:email': {
+    subject: 'Appointment Reminder - {{clinic.name}}',
+    textBody: `Dear {{patient.name}},
+
+This is a reminder about your upcoming appointment:
+
+Date: {{appointment.date}}
+Time: {{appointment.time}} - {{appointment.endTime}}
+Doctor: Dr. {{doctor.name}}
+
+Location: {{clinic.address}}
+
+Please let us know if you can make it:
+
+Confirm: {{links.confirm}}
+Cancel: {{links.cancel}}
+Request a different time: {{links.reschedule}}
+
+You can also contact us at {{clinic.phone}}.
+
+Best regards,
+{{clinic.name}}`,
+    htmlBody: `<p>Dear {{patient.name}},</p>
+<p>This is a reminder about your upcoming appointment:</p>
+<p>
+  <strong>Date:</strong> {{appointment.date}}<br>
+  <strong>Time:</strong> {{appointment.time}} - {{appointment.endTime}}<br>
+  <strong>Doctor:</strong> Dr. {{doctor.name}}
+</p>
+<p><strong>Location:</strong> {{clinic.address}}</p>
+<p>Please let us know if you can make it:</p>
+<p>
+  <a href="{{links.confirm}}">Confirm</a> |
+  <a href="{{links.cancel}}">Cancel</a> |
+  <a href="{{links.reschedule}}">Request a different time</a>
+</p>
+<p>You can also contact us at {{clinic.phone}}.</p>
+<p>Best regards,<br>{{clinic.name}}</p>`,
+  },
+  'appointment_reminder:sms': {
+    textBody: '{{clinic.name}}: reminder of your appointment with Dr. {{doctor.name}} on {{appointment.date}} at {{appointment.time}}. Confirm: {{links.confirm}} Cancel: {{links.cancel}}',
+  },
+  'appointment_confirmation:email': {
+    subject: 'Appointment Confirmed - {{clinic.name}}',
+    textBody: `Dear {{patient.name}},
+
+Your appointment has been confirmed:
+
+Date: {{appointment.date}}
+Time: {{appointment.time}} - {{appointment.endTime}}
+Doctor: Dr. {{doctor.name}}
+
+Location: {{clinic.address}}
+
+Please let us know if you can make it:
+
+Confirm: {{links.confirm}}
+Cancel: {{links.cancel}}
+Request a different time: {{links.reschedule}}
+
+We look forward to seeing you!
+
+Best regards,
+{{clinic.name}}`,
+    htmlBody: `<p>Dear {{patient.name}},</p>
+<p>Your appointment has been confirmed:</p>
+<p>
+  <strong>Date:</strong> {{appointment.date}}<br>
+  <strong>Time:</strong> {{appointment.time}} - {{appointment.endTime}}<br>
+  <strong>Doctor:</strong> Dr. {{doctor.name}}
+</p>
+<p><strong>Location:</strong> {{clinic.address}}</p>
+<p>Please let us know if you can make it:</p>
+<p>
+  <a href="{{links.confirm}}">Confirm</a> |
+  <a href="{{links.cancel}}">Cancel</a> |
+  <a href="{{links.reschedule}}">Request a different time</a>
+</p>
+<p>We look forward to seeing you!</p>
+<p>Best regards,<br>{{clinic.name}}</p>`,
+  },
+  'invoice_generated:email': {
+    subject: 'Invoice #{{invoice.number}} - {{clinic.name}}',
+    textBody: `Dear {{patient.name}},
+
+An invoice has been generated for your recent visit:
+
+Invoice Number: {{invoice.number}}
+Date: {{invoice.date}}
+Total Amount: {{invoice.total}}
+Amount Paid: {{invoice.paid}}
+Balance Due: {{invoice.balance}}
+Due Date: {{invoice.dueDate}}
+
+You can download your invoice from our patient portal or contact us for payment options.
+
+Best regards,
+{{clinic.name}}`,
+    htmlBody: `<p>Dear {{patient.name}},</p>
+<p>An invoice has been generated for your recent visit:</p>
+<p>
+  <strong>Invoice Number:</strong> {{invoice.number}}<br>
+  <strong>Date:</strong> {{invoice.date}}<br>
+  <strong>Total Amount:</strong> {{invoice.total}}<br>
+  <strong>Amount Paid:</strong> {{invoice.paid}}<br>
+  <strong>Balance Due:</strong> {{invoice.balance}}<br>
+  <strong>Due Date:</strong> {{invoice.dueDate}}
+</p>
+<p>You can download your invoice from our patient portal or contact us for payment options.</p>
+<p>Best regards,<br>{{clinic.name}}</p>`,
+  },
+  'waitlist_offer:email': {
+    subject: 'Earlier Appointment Available - {{clinic.name}}',
+    textBody: `Dear {{patient.name}},
+
+An appointment has become available and you are on our waitlist:
+
+Date: {{offer.date}}
+Time: {{offer.time}} - {{offer.endTime}}
+Doctor: Dr. {{doctor.name}}
+
+This slot has been offered to other patients as well and goes to whoever accepts first.
+To accept or decline, please visit: {{offer.url}}
+
+This offer expires on {{offer.expiresAt}}.
+
+Best regards,
+{{clinic.name}}`,
+    htmlBody: `<p>Dear {{patient.name}},</p>
+<p>An appointment has become available and you are on our waitlist:</p>
+<p>
+  <strong>Date:</strong> {{offer.date}}<br>
+  <strong>Time:</strong> {{offer.time}} - {{offer.endTime}}<br>
+  <strong>Doctor:</strong> Dr. {{doctor.name}}
+</p>
+<p>This slot has been offered to other patients as well and goes to whoever accepts first.</p>
+<p><a href="{{offer.url}}">Accept or decline this offer</a></p>
+<p>This offer expires on {{offer.expiresAt}}.</p>
+<p>Best regards,<br>{{clinic.name}}</p>`,
+  },
+  'payment_reminder:email': {
+    subject: 'Payment Reminder: Invoice #{{invoice.number}} - {{clinic.name}}',
+    textBody: `Dear {{patient.name}},
+
+Our records show that the following invoice is now {{reminder.daysOverdue}} days past its due date:
+
+Invoice Number: {{invoice.number}}
+Date: {{invoice.date}}
+Due Date: {{invoice.dueDate}}
+Balance Due: {{invoice.balance}}
+
+If you have already paid, please disregard this reminder. Otherwise, you can pay at the clinic or contact us at {{clinic.phone}} to arrange payment.
+
+Best regards,
+{{clinic.name}}`,
+    htmlBody: `<p>Dear {{patient.name}},</p>
+<p>Our records show that the following invoice is now {{reminder.daysOverdue}} days past its due date:</p>
+<p>
+  <strong>Invoice Number:</strong> {{invoice.number}}<br>
+  <strong>Date:</strong> {{invoice.date}}<br>
+  <strong>Due Date:</strong> {{invoice.dueDate}}<br>
+  <strong>Balance Due:</strong> {{invoice.balance}}
+</p>
+<p>If you have already paid, please disregard this reminder. Otherwise, you can pay at the clinic or contact us at {{clinic.phone}} to arrange payment.</p>
+<p>Best regards,<br>{{clinic.name}}</p>`,
+  },
+  'payment_final_notice:email': {
+    subject: 'Final Notice: Invoice #{{invoice.number}} - {{clinic.name}}',
+    textBody: `Dear {{patient.name}},
+
+Despite our earlier reminders, invoice {{invoice.number}} remains unpaid {{reminder.daysOverdue}} days after its due date of {{invoice.dueDate}}.
+
+Balance Due: {{invoice.balance}}
+
+Please settle this balance or contact us at {{clinic.phone}} to agree a payment plan. If we do not hear from you, we may need to take further steps to recover the amount owed.
+
+Best regards,
+{{clinic.name}}`,
+    htmlBody: `<p>Dear {{patient.name}},</p>
+<p>Despite our earlier reminders, invoice <strong>{{invoice.number}}</strong> remains unpaid {{reminder.daysOverdue}} days after its due date of {{invoice.dueDate}}.</p>
+<p><strong>Balance Due:</strong> {{invoice.balance}}</p>
+<p>Please settle this balance or contact us at {{clinic.phone}} to agree a payment plan. If we do not hear from you, we may need to take further steps to recover the amount owed.</p>
+<p>Best regards,<br>{{clinic.name}}</p>`,
+  },
+};
+
+/**
+ * Example values for the template preview
+ */
+const SAMPLE_VARIABLES = {
+  patient: { name: 'Jane Doe' },
+  doctor: { name: 'Smith' },
+  appointment: { date: '3/14/2030', time: '10:00 AM', endTime: '10:30 AM' },
+  links: {
+    confirm: 'https://example.com/appointments/respond/sample?action=confirm',
+    cancel: 'https://example.com/appointments/respond/sample?action=cancel',
+    reschedule: 'https://example.com/appointments/respond/sample?action=reschedule',
+  },
+  invoice: {
+    number: 'INV-00042',
+    date: '3/1/2030',
+    total: '$250.00',
+    paid: '$100.00',
+    balance: '$150.00',
+    dueDate: '3/31/2030',
+  },
+  offer: {
+    date: '3/12/2030',
+    time: '2:00 PM',
+    endTime: '2:30 PM',
+    expiresAt: '3/11/2030, 6:00 PM',
+    url: 'https://example.com/waitlist/offers/sample',
+  },
+  reminder: {
+    stage: 2,
+    daysOverdue: 21,
+  },
+};
+
+const clinicVariables = () => ({
+  name: process.env.CLINIC_NAME || 'Dental Clinic',
+  address: process.env.CLINIC_ADDRESS || 'Our Clinic',
+  phone: process.env.CLINIC_PHONE || 'our office',
+});
+
+const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Template variables for an appointment notification
+ * The Confirm / Cancel / Reschedule links record which notification the patient answered
+ */
+const appointmentVariables = (appointment, notificationId, language) => {
+  const start = new Date(appointment.startTime);
+  const end = new Date(appointment.endTime);
+
+  return {
+    patient: { name: appointment.patientId.name },
+    doctor: { name: appointment.doctorId.name },
+    appointment: {
+      date: start.toLocaleDateString(language),
+      time: start.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' }),
+      endTime: end.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' }),
+    },
+    links: buildResponseLinks(createResponseToken(appointment, notificationId)),
+  };
+};
+
+/**
+ * Placeholders used in pieces of template text that aren't in the allowed list
+ */
+const findUnknownPlaceholders = (allowed, ...texts) => {
+  const unknown = new Set();
+
+  texts.filter(Boolean).forEach((text) => {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      if (!allowed.includes(match[1])) {
+        unknown.add(match[1]);
+      }
+    }
+  });
+
+  return [...unknown];
+};
+
+/**
+ * Placeholders used in a piece of template text that the type doesn't provide
+ */
+const findUnknownVariables = (type, ...texts) => findUnknownPlaceholders(TEMPLATE_VARIABLES[type] || [], ...texts);
+
+/**
+ * Fill in the placeholders of a template string
+ * Values are escaped when rendering HTML
+ */
+const renderTemplate = (text, variables, { html = false } = {}) =>
+  text.replace(PLACEHOLDER, (placeholder, path) => {
+    const value = path.split('.').reduce((object, key) => (object == null ? undefined : object[key]), variables);
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return html ? escapeHtml(value) : String(value);
+  });
+
+/**
+ * Plain text as simple HTML, for templates saved without an HTML version
+ */
+const textToHtml = (text) => escapeHtml(text).replace(/\n/g, '<br>');
+
+/**
+ * The template to use for a type, channel and language
+ * Falls back to the clinic's default language, then to the built-in template
+ */
+const getTemplate = async (type, channel = 'email', language = DEFAULT_LANGUAGE) => {
+  const languages = [...new Set([language || DEFAULT_LANGUAGE, DEFAULT_LANGUAGE])];
+
+  for (const lang of languages) {
+    const template = await NotificationTemplate.findOne({ type, channel, language: lang });
+    if (template) {
+      return template;
+    }
+  }
+
+  return { type, channel, language: DEFAULT_LANGUAGE, ...DEFAULT_TEMPLATES[`${type}:${channel}`], isDefault: true };
+};
+
+/**
+ * Render a template with the given variables
+ * Returns the subject, plain text body and HTML body (HTML only for email)
+ */
+const render = (template, variables) => {
+  const values = { clinic: clinicVariables(), ...variables };
+  const rendered = {
+    subject: template.subject ? renderTemplate(template.subject, values) : undefined,
+    text: renderTemplate(template.textBody, values),
+  };
+
+  if (template.channel !== 'sms') {
+    rendered.html = template.htmlBody
+      ? renderTemplate(template.htmlBody, values, { html: true })
+      : textToHtml(rendered.text);
+  }
+
+  return rendered;
+};
+
+/**
+ * Look up the right template and render it
+ */
+const renderNotification = async (type, channel, language, variables) =>
+  render(await getTemplate(type, channel, language), variables);
+
+module.exports = {
+  DEFAULT_LANGUAGE,
+  CLINIC_VARIABLES,
+  TEMPLATE_VARIABLES,
+  TEMPLATE_CHANNELS,
+  DEFAULT_TEMPLATES,
+  SAMPLE_VARIABLES,
+  clinicVariables,
+  appointmentVariables,
+  findUnknownPlaceholders,
+  findUnknownVariables,
+  renderTemplate,
+  getTemplate,
+  render,
+  renderNotification,
+};
@@ -0,0 +1,157 @@
+const Patient = require('../models/Patient');
+const VitalsRecord = require('../models/VitalsRecord');
+
+// Adult reference ranges; values outside min-max are flagged, and outside the critical
+// limits the visit may need to be put off (e.g. elective treatment at 180/110)
+const VITAL_RANGES = {
+  systolic: { label: 'Systolic BP', unit: 'mmHg', min: 90, max: 139, criticalMin: 70, criticalMax: 180 },
+  diastolic: { label: 'Diastolic BP', unit: 'mmHg', min: 60, max: 89, criticalMin: 40, criticalMax: 110 },
+  pulse: { label: 'Pulse', unit: 'bpm', min: 60, max: 100, criticalMin: 40, criticalMax: 130 },
+  spo2: { label: 'SpO2', unit: '%', min: 95, criticalMin: 90 },
+  temperature: { label: 'Temperature', unit: '°C', min: 36, max: 37.5, criticalMin: 35, criticalMax: 39 },
+  bloodSugar: { label: 'Blood sugar', unit: 'mg/dL', min: 70, criticalMin: 54, criticalMax: 300 },
+};
+
+// The upper limit for blood sugar depends on when it was taken
+const BLOOD_SUGAR_MAX = {
+  fasting: 125,
+  post_meal: 179,
+  random: 199,
+};
+
+/**
+ * Split a reading such as "120/80" into systolic and diastolic
+ * Returns null when the text is not a plausible reading
+ */
+const parseBloodPressure = (text) => {
+  const match = String(text || '').trim().match(/^(\d{2,3})\s*\/\s*(\d{2,3})$/);
+  if (!match) {
+    return null;
+  }
+
+  const systolic = parseInt(match[1], 10);
+  const diastolic = parseInt(match[2], 10);
+  if (diastolic >= systolic) {
+    return null;
+  }
+
+  return { systolic, diastolic };
+};
+
+const formatBloodPressure = (record) =>
+  record.systolic && record.diastolic ? `${record.systolic}/${record.diastolic}` : undefined;
+
+/**
+ * Measurements in a record that fall outside their reference range
+ * Returns [{ field, value, level: 'low' | 'high', critical, message }]
+ */
+const getVitalFlags = (record) => {
+  const flags = [];
+
+  Object.entries(VITAL_RANGES).forEach(([field, range]) => {
+    const value = record[field];
+    if (value === undefined || value === null) return;
+
+    const max = field === 'bloodSugar' ? BLOOD_SUGAR_MAX[record.bloodSugarContext] ?? BLOOD_SUGAR_MAX.random : range.max;
+
+    let level = null;
+    if (value < range.min) level = 'low';
+    else if (max !== undefined && value > max) level = 'high';
+    if (!level) return;
+
+    const critical = level === 'low' ? value < range.criticalMin : value > range.criticalMax;
+    const normal = max !== undefined ? `${range.min}–${max}` : `≥ ${range.min}`;
+    const unit = /^[%°]/.test(range.unit) ? range.unit : ` ${range.unit}`;
+
+    flags.push({
+      field,
+      value,
+      level,
+      critical,
+      message: `${range.label} ${value}${unit} is ${critical ? 'critically ' : ''}${level} (normal ${normal})`,
+    });
+  });
+
+  return flags;
+};
+
+/**
+ * A record as sent to the client, with its out-of-range flags
+ */
+const withFlags = (record) => ({ ...record.toObject(), flags: getVitalFlags(record) });
+
+/**
+ * Copy the latest value of each measurement the patient record still has its own field for
+ * (weight, height, blood pressure, temperature), so the patient API keeps returning them
+ */
+const syncLatestVitals = async (patientId) => {
+  const latest = async (fields) =>
+    VitalsRecord.findOne({ patientId, ...Object.fromEntries(fields.map((field) => [field, { $ne: null }])) }).sort({
+      recordedAt: -1,
+      createdAt: -1,
+    });
+
+  const [weight, height, bloodPressure, temperature] = await Promise.all([
+    latest(['weight']),
+    latest(['height']),
+    latest(['systolic', 'diastolic']),
+    latest(['temperature']),
+  ]);
+
+  const snapshot = {
+    weight: weight?.weight,
+    height: height?.height,
+    bloodPressure: bloodPressure ? formatBloodPressure(bloodPressure) : undefined,
+    temperature: temperature?.temperature,
+  };
+
+  // Fields with no reading left are cleared rather than left at a deleted value
+  const $set = {};
+  const $unset = {};
+  Object.entries(snapshot).forEach(([field, value]) => {
+    if (value === undefined) $unset[field] = '';
+    else $set[field] = value;
+  });
+
+  await Patient.updateOne({ _id: patientId }, { $set, $unset });
+};
+
+/**
+ * Turn the old single-value patient fields in a request into vitals record fields,
+ * skipping any that match what the patient already has
+ * Returns { values } (empty when nothing new was sent) or { error, status }
+ */
+const snapshotToVitals = (body, current = {}) => {
+  const values = {};
+
+  ['weight', 'height', 'temperature'].forEach((field) => {
+    const value = body[field];
+    // Zero means not measured, as the patient page shows it
+    if (value && Number(value) !== current[field]) {
+      values[field] = Number(value);
+    }
+  });
+
+  if (body.bloodPressure) {
+    const reading = parseBloodPressure(body.bloodPressure);
+    if (!reading) {
+      return { error: 'Blood pressure must be systolic/diastolic, e.g. 120/80', status: 400 };
+    }
+    if (formatBloodPressure(reading) !== current.bloodPressure) {
+      Object.assign(values, reading);
+    }
+  }
+
+  return { values };
+};
+
+module.exports = {
+  VITAL_RANGES,
+  BLOOD_SUGAR_MAX,
+  parseBloodPressure,
+  formatBloodPressure,
+  getVitalFlags,
+  withFlags,
+  syncLatestVitals,
+  snapshotToVitals,
+};
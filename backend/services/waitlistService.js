@@ -0,0 +1,114 @@
+const crypto = require('crypto');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const WaitlistOffer = require('../models/WaitlistOffer');
+const { sendWaitlistOffer } = require('./emailService');
+
+const URGENCY_RANK = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+// How many waitlisted patients are offered the same slot at once
+const MAX_OFFERS_PER_SLOT = parseInt(process.env.WAITLIST_MAX_OFFERS) || 3;
+// How long an offer stays open, capped at the slot start
+const OFFER_TTL_HOURS = parseInt(process.env.WAITLIST_OFFER_TTL_HOURS) || 4;
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a slot falls inside one of the patient's preferred windows
+ * Entries without windows accept any time
+ */
+const fitsPreferredWindows = (entry, startTime, endTime) => {
+  if (entry.preferredWindows.length === 0) {
+    return true;
+  }
+
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  const startMinutes = start.getHours() * 60 + start.getMinutes();
+  const endMinutes = end.getHours() * 60 + end.getMinutes();
+
+  return entry.preferredWindows.some(
+    (window) =>
+      (window.dayOfWeek === undefined || window.dayOfWeek === null || window.dayOfWeek === start.getDay()) &&
+      toMinutes(window.startTime) <= startMinutes &&
+      toMinutes(window.endTime) >= endMinutes
+  );
+};
+
+/**
+ * Find waitlisted patients who could take a freed slot, most urgent and longest waiting first
+ */
+const findMatches = async (slot) => {
+  const slotMinutes = (new Date(slot.endTime) - new Date(slot.startTime)) / 60000;
+
+  // The slot may come from an appointment with its patient/doctor populated
+  const patientId = slot.patientId._id || slot.patientId;
+  const doctorId = slot.doctorId._id || slot.doctorId;
+
+  const entries = await WaitlistEntry.find({
+    status: 'waiting',
+    patientId: { $ne: patientId },
+    $or: [{ preferredDoctorId: doctorId }, { preferredDoctorId: null }],
+  })
+    .populate('patientId', 'name email language')
+    .sort({ createdAt: 1 });
+
+  return entries
+    .filter((entry) => entry.patientId && entry.patientId.email)
+    .filter((entry) => entry.duration <= slotMinutes)
+    .filter((entry) => fitsPreferredWindows(entry, slot.startTime, slot.endTime))
+    .sort((a, b) => URGENCY_RANK[a.urgency] - URGENCY_RANK[b.urgency]);
+};
+
+/**
+ * Offer the slot of a cancelled appointment to matching waitlisted patients
+ * Returns the offers that were sent
+ */
+const offerFreedSlot = async (appointment) => {
+  const now = new Date();
+  if (new Date(appointment.startTime) <= now) {
+    return [];
+  }
+
+  const matches = (await findMatches(appointment)).slice(0, MAX_OFFERS_PER_SLOT);
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const expiresAt = new Date(
+    Math.min(now.getTime() + OFFER_TTL_HOURS * 60 * 60 * 1000, new Date(appointment.startTime).getTime())
+  );
+
+  const offers = [];
+  for (const entry of matches) {
+    const offer = await WaitlistOffer.create({
+      waitlistEntryId: entry._id,
+      patientId: entry.patientId._id,
+      sourceAppointmentId: appointment._id,
+      doctorId: appointment.doctorId._id || appointment.doctorId,
+      roomId: appointment.roomId,
+      equipmentIds: appointment.equipmentIds,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+      token: crypto.randomBytes(24).toString('hex'),
+      expiresAt,
+    });
+
+    await offer.populate([
+      { path: 'patientId', select: 'name email language' },
+      { path: 'doctorId', select: 'name' },
+    ]);
+    await sendWaitlistOffer(offer);
+    offers.push(offer);
+  }
+
+  return offers;
+};
+
+module.exports = {
+  URGENCY_RANK,
+  findMatches,
+  offerFreedSlot,
+};
@@ -0,0 +1,81 @@
+// Dates and opening hours follow the clinic's calendar, not the server's
+const CLINIC_TIMEZONE = process.env.CLINIC_TIMEZONE || 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Year, month and day of a date in the clinic's timezone
+ */
+const getClinicDate = (date) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: CLINIC_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+
+  const part = (type) => parts.find((p) => p.type === type).value;
+  return { year: part('year'), month: part('month'), day: part('day') };
+};
+
+/**
+ * The clinic day a moment falls on, as YYYY-MM-DD
+ */
+const getClinicDay = (date) => {
+  const { year, month, day } = getClinicDate(new Date(date));
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * The day of a date-only value as YYYY-MM-DD, e.g. a closure or leave date
+ * These are entered as calendar dates and stored at UTC midnight, so they are read in UTC
+ */
+const getCalendarDay = (date) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Day of the week (0 = Sunday) of a YYYY-MM-DD day
+ */
+const getDayOfWeek = (day) => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+/**
+ * How far the clinic's wall clock is ahead of UTC at a moment, in milliseconds
+ */
+const getOffset = (date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: CLINIC_TIMEZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const part = (type) => Number(parts.find((p) => p.type === type).value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The moment the clinic's clock reads an HH:mm time on a YYYY-MM-DD day
+ */
+const atClinicTime = (day, time) => {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+
+  // Check the offset again at the result in case a daylight saving change falls in between
+  const offset = getOffset(new Date(wallClock));
+  return new Date(wallClock - getOffset(new Date(wallClock - offset)));
+};
+
+module.exports = {
+  CLINIC_TIMEZONE,
+  DAY_MS,
+  getClinicDate,
+  getClinicDay,
+  getCalendarDay,
+  getDayOfWeek,
+  atClinicTime,
+};
@@ -0,0 +1,31 @@
+const Patient = require('../models/Patient');
+const Appointment = require('../models/Appointment');
+
+/**
+ * Verify patient exists and the current user may access their clinical records
+ * Returns an error response payload, or null when access is allowed
+ */
+const checkPatientAccess = async (patientId, user) => {
+  const patient = await Patient.findById(patientId);
+  if (!patient) {
+    return { status: 404, error: 'Patient not found' };
+  }
+
+  // Dentists only see patients they have appointments with
+  if (user.role === 'dentist') {
+    const appointment = await Appointment.findOne({
+      patientId,
+      doctorId: user._id,
+    });
+
+    if (!appointment) {
+      return { status: 403, error: 'Access denied' };
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  checkPatientAccess,
+};
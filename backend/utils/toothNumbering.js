@@ -0,0 +1,80 @@
+/**
+ * Tooth numbering helpers
+ * Teeth are stored using FDI (ISO 3950) two-digit notation.
+ * Universal (ADA) numbers are accepted on input and converted.
+ */
+
+// Permanent dentition: quadrants 1-4, teeth 1-8
+const PERMANENT_TEETH = [1, 2, 3, 4].flatMap((quadrant) =>
+  [1, 2, 3, 4, 5, 6, 7, 8].map((tooth) => `${quadrant}${tooth}`)
+);
+
+// Primary dentition: quadrants 5-8, teeth 1-5
+const PRIMARY_TEETH = [5, 6, 7, 8].flatMap((quadrant) =>
+  [1, 2, 3, 4, 5].map((tooth) => `${quadrant}${tooth}`)
+);
+
+const FDI_TEETH = [...PERMANENT_TEETH, ...PRIMARY_TEETH];
+
+// Mesial, Occlusal, Distal, Buccal, Lingual, Incisal
+const SURFACES = ['M', 'O', 'D', 'B', 'L', 'I'];
+
+// Universal 1-32 in order, starting at the upper right third molar
+const UNIVERSAL_PERMANENT_ORDER = [
+  '18', '17', '16', '15', '14', '13', '12', '11',
+  '21', '22', '23', '24', '25', '26', '27', '28',
+  '38', '37', '36', '35', '34', '33', '32', '31',
+  '41', '42', '43', '44', '45', '46', '47', '48',
+];
+
+// Universal A-T in order, starting at the upper right second primary molar
+const UNIVERSAL_PRIMARY_ORDER = [
+  '55', '54', '53', '52', '51',
+  '61', '62', '63', '64', '65',
+  '75', '74', '73', '72', '71',
+  '81', '82', '83', '84', '85',
+];
+
+/**
+ * Convert a Universal tooth number (1-32 or A-T) to FDI
+ */
+const universalToFdi = (value) => {
+  const str = String(value).trim().toUpperCase();
+
+  if (/^[A-T]$/.test(str)) {
+    return UNIVERSAL_PRIMARY_ORDER[str.charCodeAt(0) - 65];
+  }
+
+  const num = parseInt(str, 10);
+  if (String(num) === str && num >= 1 && num <= 32) {
+    return UNIVERSAL_PERMANENT_ORDER[num - 1];
+  }
+
+  return null;
+};
+
+/**
+ * Normalize a tooth number to FDI notation
+ * Returns null when the value is not a valid tooth in the given system
+ */
+const normalizeToothNumber = (value, system = 'fdi') => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  if (system === 'universal') {
+    return universalToFdi(value);
+  }
+
+  const str = String(value).trim();
+  return FDI_TEETH.includes(str) ? str : null;
+};
+
+module.exports = {
+  FDI_TEETH,
+  PERMANENT_TEETH,
+  PRIMARY_TEETH,
+  SURFACES,
+  universalToFdi,
+  normalizeToothNumber,
+};
@@ -12,9 +12,19 @@ import PatientDetailPage from './pages/PatientDetailPage';
 import AppointmentsPage from './pages/AppointmentsPage';
 import TreatmentsPage from './pages/TreatmentsPage';
 import InvoicesPage from './pages/InvoicesPage';
+import ClaimsPage from './pages/ClaimsPage';
+import InventoryPage from './pages/InventoryPage';
+import LabCasesPage from './pages/LabCasesPage';
 import AnalyticsPage from './pages/AnalyticsPage';
 import UsersPage from './pages/UsersPage';
 import ProfilePage from './pages/ProfilePage';
+import SchedulesPage from './pages/SchedulesPage';
+import WaitlistPage from './pages/WaitlistPage';
+import WaitlistOfferPage from './pages/WaitlistOfferPage';
+import PortalPage from './pages/PortalPage';
+import AppointmentResponsePage from './pages/AppointmentResponsePage';
+import NotificationsPage from './pages/NotificationsPage';
+import SettingsPage from './pages/SettingsPage';
 
 function App() {
   return (
@@ -25,11 +35,13 @@ function App() {
           <Routes>
             {/* Public routes */}
             <Route path="/login" element={<LoginPage />} />
+            <Route path="/waitlist/offers/:token" element={<WaitlistOfferPage />} />
+            <Route path="/appointments/respond/:token" element={<AppointmentResponsePage />} />
 
-            {/* Protected routes */}
+            {/* Protected routes - clinic staff */}
             <Route
               element={
-                <ProtectedRoute>
+                <ProtectedRoute allowedRoles={['admin', 'dentist', 'receptionist']}>
                   <MainLayout />
                 </ProtectedRoute>
               }
@@ -38,11 +50,36 @@ function App() {
               <Route path="/patients" element={<PatientsPage />} />
               <Route path="/patients/:id" element={<PatientDetailPage />} />
               <Route path="/appointments" element={<AppointmentsPage />} />
+              <Route path="/schedules" element={<SchedulesPage />} />
+              <Route path="/waitlist" element={<WaitlistPage />} />
               <Route path="/treatments" element={<TreatmentsPage />} />
               <Route path="/invoices" element={<InvoicesPage />} />
+              <Route path="/claims" element={<ClaimsPage />} />
+              <Route path="/inventory" element={<InventoryPage />} />
+              <Route path="/lab-cases" element={<LabCasesPage />} />
               <Route path="/analytics" element={<AnalyticsPage />} />
+              <Route path="/notifications" element={<NotificationsPage />} />
               <Route path="/users" element={<UsersPage />} />
+              <Route path="/settings" element={<SettingsPage />} />
+            </Route>
+
+            {/* Protected routes - any signed-in user, including the patient portal */}
+            <Route
+              element={
+                <ProtectedRoute>
+                  <MainLayout />
+                </ProtectedRoute>
+              }
+            >
               <Route path="/profile" element={<ProfilePage />} />
+              <Route
+                path="/portal"
+                element={
+                  <ProtectedRoute allowedRoles={['patient']}>
+                    <PortalPage />
+                  </ProtectedRoute>
+                }
+              />
             </Route>
 
             {/* Redirect root to dashboard */}
@@ -0,0 +1,118 @@
+import React from 'react';
+import {
+  Box,
+  TextField,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Checkbox,
+  RadioGroup,
+  Radio,
+} from '@mui/material';
+import type { RecurrenceRule, Weekday } from '../../types';
+import type { RecurrenceFormState } from '../../utils/recurrence';
+
+const WEEKDAY_OPTIONS: { value: Weekday; label: string }[] = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+const UNIT_LABELS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceFormState;
+  onChange: (value: RecurrenceFormState) => void;
+}
+
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<RecurrenceFormState>) => onChange({ ...value, ...changes });
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <FormControlLabel
+        control={<Checkbox checked={value.enabled} onChange={(e) => update({ enabled: e.target.checked })} />}
+        label="Repeat"
+      />
+
+      {value.enabled && (
+        <>
+          <Box display="flex" gap={2} alignItems="center">
+            <TextField
+              select
+              label="Frequency"
+              value={value.frequency}
+              onChange={(e) => update({ frequency: e.target.value as RecurrenceRule['frequency'] })}
+              sx={{ minWidth: 140 }}
+            >
+              <MenuItem value="daily">Daily</MenuItem>
+              <MenuItem value="weekly">Weekly</MenuItem>
+              <MenuItem value="monthly">Monthly</MenuItem>
+            </TextField>
+            <TextField
+              label="Every"
+              type="number"
+              value={value.interval}
+              onChange={(e) => update({ interval: e.target.value })}
+              inputProps={{ min: 1 }}
+              sx={{ width: 100 }}
+            />
+            {UNIT_LABELS[value.frequency]}
+          </Box>
+
+          {value.frequency === 'weekly' && (
+            <ToggleButtonGroup
+              size="small"
+              value={value.byWeekday}
+              onChange={(_, byWeekday) => update({ byWeekday })}
+            >
+              {WEEKDAY_OPTIONS.map((day) => (
+                <ToggleButton key={day.value} value={day.value}>
+                  {day.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          )}
+
+          <RadioGroup
+            row
+            value={value.ends}
+            onChange={(e) => update({ ends: e.target.value as RecurrenceFormState['ends'] })}
+          >
+            <FormControlLabel value="count" control={<Radio />} label="After" />
+            <TextField
+              type="number"
+              size="small"
+              value={value.count}
+              disabled={value.ends !== 'count'}
+              onChange={(e) => update({ count: e.target.value })}
+              inputProps={{ min: 1 }}
+              sx={{ width: 90, mr: 3 }}
+              helperText="occurrences"
+            />
+            <FormControlLabel value="until" control={<Radio />} label="On" />
+            <TextField
+              type="date"
+              size="small"
+              value={value.until}
+              disabled={value.ends !== 'until'}
+              onChange={(e) => update({ until: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+          </RadioGroup>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default RecurrenceFields;
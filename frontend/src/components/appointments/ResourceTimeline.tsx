@@ -0,0 +1,160 @@
+import React from 'react';
+import { Box, Typography, Tooltip, useTheme } from '@mui/material';
+
+export interface TimelineResource {
+  id: string;
+  title: string;
+}
+
+export interface TimelineEvent {
+  id: string;
+  title: string;
+  start: string | Date;
+  end: string | Date;
+  resourceIds: string[];
+  color: string;
+  subtitle?: string;
+}
+
+interface ResourceTimelineProps {
+  date: Date;
+  resources: TimelineResource[];
+  events: TimelineEvent[];
+  startHour?: number;
+  endHour?: number;
+  onEventClick?: (eventId: string) => void;
+}
+
+const LABEL_WIDTH = 160;
+const ROW_HEIGHT = 48;
+
+/**
+ * Day view with one row per resource (room, equipment or doctor)
+ */
+const ResourceTimeline: React.FC<ResourceTimelineProps> = ({
+  date,
+  resources,
+  events,
+  startHour = 8,
+  endHour = 20,
+  onEventClick,
+}) => {
+  const theme = useTheme();
+
+  const dayStart = new Date(date);
+  dayStart.setHours(startHour, 0, 0, 0);
+  const dayEnd = new Date(date);
+  dayEnd.setHours(endHour, 0, 0, 0);
+  const span = dayEnd.getTime() - dayStart.getTime();
+
+  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+  const gridColor = theme.palette.mode === 'dark' ? '#333' : '#e0e0e0';
+
+  // Clip events to the visible window and convert to percentages
+  const position = (event: TimelineEvent) => {
+    const start = Math.max(new Date(event.start).getTime(), dayStart.getTime());
+    const end = Math.min(new Date(event.end).getTime(), dayEnd.getTime());
+    if (end <= start) return null;
+    return {
+      left: `${((start - dayStart.getTime()) / span) * 100}%`,
+      width: `${((end - start) / span) * 100}%`,
+    };
+  };
+
+  return (
+    <Box sx={{ overflowX: 'auto' }}>
+      <Box sx={{ minWidth: 900 }}>
+        {/* Hour header */}
+        <Box display="flex" sx={{ borderBottom: `1px solid ${gridColor}` }}>
+          <Box sx={{ width: LABEL_WIDTH, flexShrink: 0 }} />
+          <Box display="flex" flex={1}>
+            {hours.map((hour) => (
+              <Typography
+                key={hour}
+                variant="caption"
+                sx={{ flex: 1, color: 'text.secondary', fontWeight: 500, py: 0.5 }}
+              >
+                {`${hour.toString().padStart(2, '0')}:00`}
+              </Typography>
+            ))}
+          </Box>
+        </Box>
+
+        {resources.map((resource) => (
+          <Box key={resource.id} display="flex" sx={{ borderBottom: `1px solid ${gridColor}` }}>
+            <Box
+              sx={{
+                width: LABEL_WIDTH,
+                flexShrink: 0,
+                display: 'flex',
+                alignItems: 'center',
+                px: 1,
+                fontWeight: 600,
+              }}
+            >
+              <Typography variant="body2" fontWeight={600} noWrap>
+                {resource.title}
+              </Typography>
+            </Box>
+            <Box
+              sx={{
+                position: 'relative',
+                flex: 1,
+                height: ROW_HEIGHT,
+                backgroundImage: `repeating-linear-gradient(to right, ${gridColor} 0 1px, transparent 1px 100%)`,
+                backgroundSize: `${100 / hours.length}% 100%`,
+              }}
+            >
+              {events
+                .filter((event) => event.resourceIds.includes(resource.id))
+                .map((event) => {
+                  const pos = position(event);
+                  if (!pos) return null;
+                  return (
+                    <Tooltip
+                      key={event.id}
+                      title={`${event.title}${event.subtitle ? ` - ${event.subtitle}` : ''}`}
+                    >
+                      <Box
+                        onClick={() => onEventClick?.(event.id)}
+                        sx={{
+                          position: 'absolute',
+                          top: 4,
+                          bottom: 4,
+                          ...pos,
+                          background: event.color,
+                          borderRadius: 1.5,
+                          color: '#fff',
+                          px: 1,
+                          overflow: 'hidden',
+                          cursor: 'pointer',
+                          boxShadow: '0 2px 6px rgba(0,0,0,0.2)',
+                        }}
+                      >
+                        <Typography variant="caption" fontWeight={600} noWrap component="div">
+                          {event.title}
+                        </Typography>
+                        {event.subtitle && (
+                          <Typography variant="caption" noWrap component="div" sx={{ opacity: 0.85 }}>
+                            {event.subtitle}
+                          </Typography>
+                        )}
+                      </Box>
+                    </Tooltip>
+                  );
+                })}
+            </Box>
+          </Box>
+        ))}
+
+        {resources.length === 0 && (
+          <Typography color="text.secondary" sx={{ p: 2 }}>
+            No resources to show.
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ResourceTimeline;
@@ -0,0 +1,395 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { claimService } from '../../services/claim.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { ClaimStatus, InsuranceClaim, Payment } from '../../types';
+
+interface ClaimDetailDialogProps {
+  claimId: string | null;
+  onClose: () => void;
+  // Called after any action that changes the claim
+  onChange: () => void;
+}
+
+const STATUS_COLORS: Record<ClaimStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+  draft: 'default',
+  submitted: 'info',
+  approved: 'success',
+  partially_approved: 'warning',
+  rejected: 'error',
+  paid: 'success',
+};
+
+type Mode = 'view' | 'submit' | 'decision' | 'payment';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Shows a claim and walks it through submission, the insurer's decision and payment
+ */
+const ClaimDetailDialog: React.FC<ClaimDetailDialogProps> = ({ claimId, onClose, onChange }) => {
+  const [claim, setClaim] = useState<InsuranceClaim | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [mode, setMode] = useState<Mode>('view');
+  const [insurerReference, setInsurerReference] = useState('');
+  const [approved, setApproved] = useState<Record<string, string>>({});
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchClaim = useCallback(async () => {
+    try {
+      const result = await claimService.getClaimById(claimId!);
+      setClaim(result?.claim || null);
+      setPayments(result?.payments || []);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load claim'));
+    }
+  }, [claimId]);
+
+  useEffect(() => {
+    if (claimId) {
+      setMode('view');
+      setError('');
+      fetchClaim();
+    } else {
+      setClaim(null);
+    }
+  }, [claimId, fetchClaim]);
+
+  const startDecision = () => {
+    // Start from everything approved as claimed
+    setApproved(Object.fromEntries(claim!.lines.map((line) => [line._id, String(line.claimedAmount)])));
+    setRejectionReason('');
+    setInsurerReference(claim!.insurerReference || '');
+    setMode('decision');
+  };
+
+  const startPayment = () => {
+    setPaymentAmount(String(roundCents(claim!.approvedAmount - claim!.paidAmount)));
+    setPaymentReference(claim!.insurerReference || '');
+    setMode('payment');
+  };
+
+  // Runs a claim action, then reloads the claim and lets the worklist refresh
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setError('');
+      await action();
+      setMode('view');
+      await fetchClaim();
+      onChange();
+    } catch (err) {
+      setError(getErrorMessage(err, failure));
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await claimService.deleteClaim(claim!._id);
+      onChange();
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete claim'));
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      await claimService.downloadPDF(claim!);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download claim form'));
+    }
+  };
+
+  const approvedTotal = roundCents(
+    Object.values(approved).reduce((sum, value) => sum + (parseFloat(value) || 0), 0)
+  );
+  const decisionInvalid =
+    !!claim &&
+    claim.lines.some((line) => {
+      const amount = parseFloat(approved[line._id]);
+      return !(amount >= 0) || amount > line.claimedAmount;
+    });
+
+  const patient = claim && typeof claim.patientId === 'object' ? claim.patientId : null;
+  const provider = claim && typeof claim.providerId === 'object' ? claim.providerId : null;
+  const policy = claim && typeof claim.policyId === 'object' ? claim.policyId : null;
+  const invoice = claim && typeof claim.invoiceId === 'object' ? claim.invoiceId : null;
+
+  return (
+    <Dialog open={!!claimId} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+      <DialogTitle sx={{ fontWeight: 600 }}>
+        <Box display="flex" alignItems="center" gap={1}>
+          Claim {claim?.claimNumber}
+          {claim && <Chip label={claim.status.replace('_', ' ')} size="small" color={STATUS_COLORS[claim.status]} />}
+        </Box>
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+
+        {claim && (
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Box display="flex" gap={4} flexWrap="wrap">
+              <Box>
+                <Typography variant="caption" color="text.secondary">Patient</Typography>
+                <Typography>{patient?.name}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Insurer</Typography>
+                <Typography>{provider?.name}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Policy</Typography>
+                <Typography>{policy?.policyNumber}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Invoice</Typography>
+                <Typography>{invoice?.invoiceNumber}</Typography>
+              </Box>
+              {claim.insurerReference && (
+                <Box>
+                  <Typography variant="caption" color="text.secondary">Insurer Reference</Typography>
+                  <Typography>{claim.insurerReference}</Typography>
+                </Box>
+              )}
+            </Box>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Code</TableCell>
+                  <TableCell>Treatment</TableCell>
+                  <TableCell>Tooth</TableCell>
+                  <TableCell align="right">Fee</TableCell>
+                  <TableCell align="right">Claimed</TableCell>
+                  <TableCell align="right">Approved</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {claim.lines.map((line) => (
+                  <TableRow key={line._id}>
+                    <TableCell>{line.procedureCode}</TableCell>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell>{line.toothNumber || '-'}</TableCell>
+                    <TableCell align="right">₹{line.fee.toFixed(2)}</TableCell>
+                    <TableCell align="right">₹{line.claimedAmount.toFixed(2)}</TableCell>
+                    <TableCell align="right">
+                      {mode === 'decision' ? (
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={approved[line._id] || ''}
+                          onChange={(e) => setApproved({ ...approved, [line._id]: e.target.value })}
+                          error={(parseFloat(approved[line._id]) || 0) > line.claimedAmount}
+                          inputProps={{ min: 0, max: line.claimedAmount }}
+                          sx={{ width: 120 }}
+                        />
+                      ) : line.approvedAmount !== undefined ? (
+                        `₹${line.approvedAmount.toFixed(2)}`
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Box display="flex" flexDirection="column" alignItems="flex-end" gap={0.5}>
+              <Typography>Claimed: ₹{claim.claimedAmount.toFixed(2)}</Typography>
+              {['approved', 'partially_approved', 'paid'].includes(claim.status) && (
+                <Typography>Approved: ₹{claim.approvedAmount.toFixed(2)}</Typography>
+              )}
+              {claim.paidAmount > 0 && <Typography>Paid by insurer: ₹{claim.paidAmount.toFixed(2)}</Typography>}
+            </Box>
+
+            {claim.status === 'rejected' && claim.rejectionReason && (
+              <Alert severity="error">Rejected: {claim.rejectionReason}</Alert>
+            )}
+            {claim.notes && (
+              <Typography variant="body2" color="text.secondary">
+                Remarks: {claim.notes}
+              </Typography>
+            )}
+
+            {payments.length > 0 && (
+              <>
+                <Divider />
+                <Typography variant="subtitle1">Insurer Payments:</Typography>
+                {payments.map((payment) => (
+                  <Typography
+                    key={payment._id}
+                    variant="body2"
+                    sx={{ textDecoration: payment.voided ? 'line-through' : 'none' }}
+                  >
+                    {new Date(payment.paidAt).toLocaleDateString()} – ₹{payment.amount.toFixed(2)}
+                    {payment.reference && ` (${payment.reference})`}
+                  </Typography>
+                ))}
+              </>
+            )}
+
+            {mode === 'submit' && (
+              <TextField
+                label="Insurer Reference"
+                value={insurerReference}
+                onChange={(e) => setInsurerReference(e.target.value)}
+                helperText="The insurer's claim or authorization number, if given on submission"
+              />
+            )}
+
+            {mode === 'decision' && (
+              <>
+                <TextField
+                  label="Insurer Reference"
+                  value={insurerReference}
+                  onChange={(e) => setInsurerReference(e.target.value)}
+                />
+                {approvedTotal === 0 && (
+                  <TextField
+                    label="Rejection Reason"
+                    required
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                  />
+                )}
+                <Typography align="right">
+                  <strong>Total approved:</strong> ₹{approvedTotal.toFixed(2)}
+                </Typography>
+              </>
+            )}
+
+            {mode === 'payment' && (
+              <Box display="flex" gap={2}>
+                <TextField
+                  label="Amount Received"
+                  type="number"
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  label="Reference"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                  sx={{ flex: 1 }}
+                />
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {claim && mode === 'view' && (
+          <>
+            <Button startIcon={<DownloadIcon />} onClick={handleDownload} sx={{ mr: 'auto' }}>
+              Claim Form
+            </Button>
+            {claim.status === 'draft' && (
+              <>
+                <Button color="error" onClick={handleDelete}>
+                  Delete
+                </Button>
+                <Button variant="contained" onClick={() => setMode('submit')}>
+                  Submit
+                </Button>
+              </>
+            )}
+            {claim.status === 'submitted' && (
+              <Button variant="contained" onClick={startDecision}>
+                Record Decision
+              </Button>
+            )}
+            {['approved', 'partially_approved'].includes(claim.status) && (
+              <Button variant="contained" onClick={startPayment}>
+                Record Payment
+              </Button>
+            )}
+            <Button onClick={onClose}>Close</Button>
+          </>
+        )}
+        {claim && mode !== 'view' && (
+          <>
+            <Button onClick={() => setMode('view')}>Back</Button>
+            {mode === 'submit' && (
+              <Button
+                variant="contained"
+                onClick={() =>
+                  runAction(() => claimService.submitClaim(claim._id, insurerReference || undefined), 'Failed to submit claim')
+                }
+              >
+                Mark Submitted
+              </Button>
+            )}
+            {mode === 'decision' && (
+              <Button
+                variant="contained"
+                disabled={decisionInvalid || (approvedTotal === 0 && !rejectionReason.trim())}
+                onClick={() =>
+                  runAction(
+                    () =>
+                      claimService.recordDecision(claim._id, {
+                        lines: claim.lines.map((line) => ({
+                          lineId: line._id,
+                          approvedAmount: parseFloat(approved[line._id]) || 0,
+                        })),
+                        rejectionReason: rejectionReason || undefined,
+                        insurerReference: insurerReference || undefined,
+                      }),
+                    'Failed to record decision'
+                  )
+                }
+              >
+                {approvedTotal === 0 ? 'Reject Claim' : 'Save Decision'}
+              </Button>
+            )}
+            {mode === 'payment' && (
+              <Button
+                variant="contained"
+                disabled={!(parseFloat(paymentAmount) > 0)}
+                onClick={() =>
+                  runAction(
+                    () =>
+                      claimService.recordPayment(claim._id, {
+                        amount: parseFloat(paymentAmount),
+                        reference: paymentReference || undefined,
+                      }),
+                    'Failed to record payment'
+                  )
+                }
+              >
+                Record Payment
+              </Button>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClaimDetailDialog;
@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { insuranceService } from '../../services/insurance.service';
+import { claimService } from '../../services/claim.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { InsurancePolicy, Invoice } from '../../types';
+
+interface CreateClaimDialogProps {
+  invoice: Invoice;
+  open: boolean;
+  onClose: () => void;
+  // Called with the invoice once the claim's share has been taken off the patient's
+  onCreated: (invoice: Invoice) => void;
+}
+
+interface LineDraft {
+  selected: boolean;
+  procedureCode: string;
+  claimedAmount: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Drafts an insurance claim for the treatments billed on an invoice
+ */
+const CreateClaimDialog: React.FC<CreateClaimDialogProps> = ({ invoice, open, onClose, onCreated }) => {
+  const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
+  const [policyId, setPolicyId] = useState('');
+  const [lines, setLines] = useState<Record<string, LineDraft>>({});
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  // Only treatments can be claimed
+  const claimable = useMemo(() => invoice.lineItems.filter((item) => item.treatmentId), [invoice.lineItems]);
+  const policy = policies.find((p) => p._id === policyId);
+  const coverage = policy?.coveragePercent ?? 0;
+  const patientId = typeof invoice.patientId === 'string' ? invoice.patientId : invoice.patientId._id;
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const active = await insuranceService.getPolicies({ patientId });
+      setPolicies(active);
+      setPolicyId(active[0]?._id || '');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load insurance policies'));
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    if (open) {
+      setError('');
+      setNotes('');
+      fetchPolicies();
+    }
+  }, [open, fetchPolicies]);
+
+  useEffect(() => {
+    // Start every line at the policy's coverage
+    setLines((prev) =>
+      Object.fromEntries(
+        claimable.map((item) => [
+          item._id,
+          {
+            selected: true,
+            procedureCode: prev[item._id]?.procedureCode || '',
+            claimedAmount: String(roundCents((item.total * coverage) / 100)),
+          },
+        ])
+      )
+    );
+  }, [coverage, claimable]);
+
+  const updateLine = (id: string, changes: Partial<LineDraft>) => {
+    setLines({ ...lines, [id]: { ...lines[id], ...changes } });
+  };
+
+  const selected = claimable.filter((item) => lines[item._id]?.selected);
+  const total = roundCents(selected.reduce((sum, item) => sum + (parseFloat(lines[item._id].claimedAmount) || 0), 0));
+  const invalid =
+    selected.length === 0 ||
+    selected.some((item) => {
+      const amount = parseFloat(lines[item._id].claimedAmount);
+      return !lines[item._id].procedureCode.trim() || !(amount >= 0) || amount > item.total;
+    });
+
+  const handleCreate = async () => {
+    try {
+      setError('');
+      const result = await claimService.createClaim({
+        invoiceId: invoice._id,
+        policyId,
+        lines: selected.map((item) => ({
+          lineItemId: item._id,
+          procedureCode: lines[item._id].procedureCode.trim(),
+          claimedAmount: parseFloat(lines[item._id].claimedAmount),
+        })),
+        notes: notes || undefined,
+      });
+      if (result) onCreated(result.invoice);
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create claim'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+      <DialogTitle sx={{ fontWeight: 600 }}>Claim Insurance – {invoice.invoiceNumber}</DialogTitle>
+      <DialogContent dividers>
+        <Box display="flex" flexDirection="column" gap={2}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {policies.length === 0 ? (
+            <Alert severity="info">This patient has no active insurance policy. Add one from the patient's Insurance tab.</Alert>
+          ) : claimable.length === 0 ? (
+            <Alert severity="info">This invoice has no treatments to claim.</Alert>
+          ) : (
+            <>
+              <TextField select label="Policy" value={policyId} onChange={(e) => setPolicyId(e.target.value)}>
+                {policies.map((p) => (
+                  <MenuItem key={p._id} value={p._id}>
+                    {typeof p.providerId === 'object' ? p.providerId.name : ''} – {p.policyNumber} ({p.coveragePercent}%)
+                  </MenuItem>
+                ))}
+              </TextField>
+
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Treatment</TableCell>
+                    <TableCell align="right">Fee</TableCell>
+                    <TableCell sx={{ width: 150 }}>Procedure Code</TableCell>
+                    <TableCell sx={{ width: 150 }}>Claim</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {claimable.map((item) => {
+                    const line = lines[item._id];
+                    if (!line) return null;
+                    const amount = parseFloat(line.claimedAmount);
+                    return (
+                      <TableRow key={item._id}>
+                        <TableCell padding="checkbox">
+                          <Checkbox checked={line.selected} onChange={(e) => updateLine(item._id, { selected: e.target.checked })} />
+                        </TableCell>
+                        <TableCell>{item.description}</TableCell>
+                        <TableCell align="right">₹{item.total.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            value={line.procedureCode}
+                            onChange={(e) => updateLine(item._id, { procedureCode: e.target.value })}
+                            error={line.selected && !line.procedureCode.trim()}
+                            disabled={!line.selected}
+                            placeholder="e.g., D1110"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={line.claimedAmount}
+                            onChange={(e) => updateLine(item._id, { claimedAmount: e.target.value })}
+                            error={line.selected && (!(amount >= 0) || amount > item.total)}
+                            disabled={!line.selected}
+                            inputProps={{ min: 0, max: item.total }}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <TextField label="Remarks" multiline rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+
+              <Typography align="right">
+                <strong>Total claim:</strong> ₹{total.toFixed(2)}
+                {policy?.annualMaximum !== undefined && (
+                  <Typography component="span" variant="body2" color="text.secondary">
+                    {' '}
+                    (annual maximum ₹{policy.annualMaximum.toFixed(2)})
+                  </Typography>
+                )}
+              </Typography>
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleCreate} disabled={!policyId || invalid}>
+          Create Draft Claim
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateClaimDialog;
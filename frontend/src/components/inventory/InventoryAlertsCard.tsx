@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Paper, Typography, Chip, Alert, Button } from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import { inventoryService } from '../../services/inventory.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { InventoryAlerts } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Dashboard summary of supplies that need reordering and batches to use up or throw away
+ */
+const InventoryAlertsCard: React.FC<{ canManage: boolean }> = ({ canManage }) => {
+  const navigate = useNavigate();
+  const [alerts, setAlerts] = useState<InventoryAlerts | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    inventoryService
+      .getAlerts()
+      .then((data) => setAlerts(data || null))
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load inventory alerts')));
+  }, []);
+
+  if (error) {
+    return (
+      <Alert severity="error" sx={{ mt: 4 }} onClose={() => setError('')}>
+        {error}
+      </Alert>
+    );
+  }
+
+  if (!alerts || (alerts.lowStock.length === 0 && alerts.expiringSoon.length === 0)) {
+    return null;
+  }
+
+  const daysLeft = (expiryDate?: string) =>
+    expiryDate ? Math.ceil((new Date(expiryDate).getTime() - Date.now()) / DAY_MS) : 0;
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 4 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h6" fontWeight={600}>
+          Inventory Alerts
+        </Typography>
+        {canManage && (
+          <Button size="small" onClick={() => navigate('/inventory')}>
+            Open Inventory
+          </Button>
+        )}
+      </Box>
+
+      <Box display="flex" flexWrap="wrap" gap={4}>
+        {alerts.lowStock.length > 0 && (
+          <Box flex={1} minWidth={260}>
+            <Typography variant="subtitle2" fontWeight={600} mb={1}>
+              Low Stock ({alerts.lowStock.length})
+            </Typography>
+            {alerts.lowStock.map((item) => (
+              <Box key={item._id} display="flex" justifyContent="space-between" py={0.5}>
+                <Typography variant="body2">{item.name}</Typography>
+                <Chip
+                  size="small"
+                  color={item.quantityOnHand <= 0 ? 'error' : 'warning'}
+                  label={`${item.quantityOnHand} ${item.unit} (reorder at ${item.reorderLevel})`}
+                />
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {alerts.expiringSoon.length > 0 && (
+          <Box flex={1} minWidth={260}>
+            <Typography variant="subtitle2" fontWeight={600} mb={1}>
+              Expiring within {alerts.expiryWarningDays} days ({alerts.expiringSoon.length})
+            </Typography>
+            {alerts.expiringSoon.map((batch) => {
+              const days = daysLeft(batch.expiryDate);
+              return (
+                <Box key={batch._id} display="flex" justifyContent="space-between" py={0.5}>
+                  <Typography variant="body2">
+                    {typeof batch.itemId === 'object' ? batch.itemId.name : ''}
+                    {batch.batchNumber && (
+                      <Typography component="span" variant="caption" color="text.secondary">
+                        {' '}
+                        · {batch.batchNumber}
+                      </Typography>
+                    )}
+                  </Typography>
+                  <Chip
+                    size="small"
+                    color={days <= 0 ? 'error' : 'warning'}
+                    label={`${batch.quantityRemaining} left · ${days <= 0 ? 'expired' : `${days}d`}`}
+                  />
+                </Box>
+              );
+            })}
+          </Box>
+        )}
+      </Box>
+    </Paper>
+  );
+};
+
+export default InventoryAlertsCard;
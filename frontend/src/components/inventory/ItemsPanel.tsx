@@ -0,0 +1,560 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Tooltip,
+  MenuItem,
+  Chip,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Inventory as ReceiveIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { inventoryService } from '../../services/inventory.service';
+import { INVENTORY_CATEGORY_LABELS, STOCK_MOVEMENT_LABELS } from '../../utils/inventory';
+import { getErrorMessage } from '../../utils/errors';
+import type { InventoryBatch, InventoryCategory, InventoryItem, InventoryItemDetail, Supplier } from '../../types';
+
+interface ItemForm {
+  name: string;
+  sku: string;
+  category: InventoryCategory;
+  unit: string;
+  reorderLevel: string;
+  reorderQuantity: string;
+  unitCost: string;
+  supplierId: string;
+}
+
+const emptyForm = (): ItemForm => ({
+  name: '',
+  sku: '',
+  category: 'consumable',
+  unit: 'unit',
+  reorderLevel: '0',
+  reorderQuantity: '',
+  unitCost: '',
+  supplierId: '',
+});
+
+const emptyReceipt = { quantity: '', batchNumber: '', expiryDate: '', unitCost: '' };
+
+const supplierName = (supplier: InventoryItem['supplierId']) => (typeof supplier === 'object' ? supplier.name : '');
+
+/**
+ * Stock items with their levels; stock is received into batches and counted or disposed per batch
+ */
+const ItemsPanel: React.FC = () => {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [search, setSearch] = useState('');
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [error, setError] = useState('');
+
+  const [editing, setEditing] = useState<InventoryItem | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<ItemForm>(emptyForm());
+
+  const [receiving, setReceiving] = useState<InventoryItem | null>(null);
+  const [receipt, setReceipt] = useState(emptyReceipt);
+
+  const [detail, setDetail] = useState<InventoryItemDetail | null>(null);
+  const [adjusting, setAdjusting] = useState<InventoryBatch | null>(null);
+  const [adjustment, setAdjustment] = useState({ quantity: '', reason: '', dispose: false });
+
+  useEffect(() => {
+    inventoryService
+      .getSuppliers()
+      .then(setSuppliers)
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load suppliers')));
+  }, []);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setItems(
+        await inventoryService.getItems({
+          search: search || undefined,
+          lowStock: lowStockOnly || undefined,
+          includeInactive: !lowStockOnly || undefined,
+        })
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load inventory'));
+    }
+  }, [search, lowStockOnly]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const openForm = (item?: InventoryItem) => {
+    setEditing(item || null);
+    setForm(
+      item
+        ? {
+            name: item.name,
+            sku: item.sku || '',
+            category: item.category,
+            unit: item.unit,
+            reorderLevel: String(item.reorderLevel),
+            reorderQuantity: item.reorderQuantity !== undefined ? String(item.reorderQuantity) : '',
+            unitCost: item.unitCost !== undefined ? String(item.unitCost) : '',
+            supplierId: typeof item.supplierId === 'object' ? item.supplierId._id : item.supplierId || '',
+          }
+        : emptyForm()
+    );
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const itemData = {
+        name: form.name,
+        sku: form.sku,
+        category: form.category,
+        unit: form.unit || 'unit',
+        reorderLevel: parseFloat(form.reorderLevel) || 0,
+        reorderQuantity: form.reorderQuantity ? parseFloat(form.reorderQuantity) : undefined,
+        unitCost: form.unitCost ? parseFloat(form.unitCost) : undefined,
+        supplierId: form.supplierId,
+      };
+      if (editing) {
+        await inventoryService.updateItem(editing._id, itemData);
+      } else {
+        await inventoryService.createItem(itemData);
+      }
+      setFormOpen(false);
+      fetchItems();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save item'));
+    }
+  };
+
+  const handleToggleActive = async (item: InventoryItem) => {
+    try {
+      await inventoryService.updateItem(item._id, { isActive: !item.isActive });
+      fetchItems();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update item'));
+    }
+  };
+
+  const handleDelete = async (item: InventoryItem) => {
+    try {
+      await inventoryService.deleteItem(item._id);
+      fetchItems();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete item'));
+    }
+  };
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+    try {
+      await inventoryService.receiveStock(receiving._id, {
+        quantity: parseFloat(receipt.quantity),
+        batchNumber: receipt.batchNumber || undefined,
+        expiryDate: receipt.expiryDate || undefined,
+        unitCost: receipt.unitCost ? parseFloat(receipt.unitCost) : undefined,
+      });
+      setReceiving(null);
+      setReceipt(emptyReceipt);
+      fetchItems();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to receive stock'));
+    }
+  };
+
+  const openDetail = async (item: InventoryItem) => {
+    try {
+      setDetail((await inventoryService.getItemById(item._id)) || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load item'));
+    }
+  };
+
+  const handleAdjust = async () => {
+    if (!adjusting || !detail) return;
+    try {
+      await inventoryService.adjustBatch(adjusting._id, {
+        quantity: adjustment.dispose ? undefined : parseFloat(adjustment.quantity),
+        dispose: adjustment.dispose,
+        reason: adjustment.reason,
+      });
+      setAdjusting(null);
+      openDetail(detail.item);
+      fetchItems();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to adjust stock'));
+    }
+  };
+
+  const isExpired = (batch: InventoryBatch) => !!batch.expiryDate && new Date(batch.expiryDate) <= new Date();
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mb={2}>
+        <TextField
+          size="small"
+          label="Search name or SKU"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          sx={{ minWidth: 240 }}
+        />
+        <FormControlLabel
+          control={<Switch checked={lowStockOnly} onChange={(e) => setLowStockOnly(e.target.checked)} />}
+          label="Low stock only"
+        />
+        <Box flexGrow={1} />
+        <Button startIcon={<AddIcon />} onClick={() => openForm()}>
+          Add Item
+        </Button>
+      </Box>
+
+      {items.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {lowStockOnly ? 'Nothing is at or below its reorder level.' : 'No inventory items yet.'}
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Item</TableCell>
+                <TableCell>Category</TableCell>
+                <TableCell align="right">On Hand</TableCell>
+                <TableCell align="right">Reorder At</TableCell>
+                <TableCell>Supplier</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item._id} hover sx={item.isActive ? { cursor: 'pointer' } : { opacity: 0.5 }}>
+                  <TableCell onClick={() => openDetail(item)}>
+                    <Typography variant="body2">{item.name}</Typography>
+                    {item.sku && (
+                      <Typography variant="caption" color="text.secondary">
+                        {item.sku}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{INVENTORY_CATEGORY_LABELS[item.category]}</TableCell>
+                  <TableCell align="right">
+                    {item.quantityOnHand <= item.reorderLevel && item.isActive ? (
+                      <Chip label={`${item.quantityOnHand} ${item.unit}`} size="small" color="warning" />
+                    ) : (
+                      `${item.quantityOnHand} ${item.unit}`
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{item.reorderLevel}</TableCell>
+                  <TableCell>{supplierName(item.supplierId)}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Receive stock">
+                      <IconButton size="small" onClick={() => setReceiving(item)}>
+                        <ReceiveIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={item.isActive ? 'Active' : 'Inactive'}>
+                      <Switch size="small" checked={item.isActive} onChange={() => handleToggleActive(item)} />
+                    </Tooltip>
+                    <IconButton size="small" onClick={() => openForm(item)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" color="error" onClick={() => handleDelete(item)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Add / edit item */}
+      <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{editing ? 'Edit Item' : 'Add Item'}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Name *"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                sx={{ flexGrow: 1 }}
+              />
+              <TextField
+                label="SKU"
+                value={form.sku}
+                onChange={(e) => setForm({ ...form, sku: e.target.value })}
+                sx={{ width: 160 }}
+              />
+            </Box>
+            <Box display="flex" gap={2}>
+              <TextField
+                select
+                label="Category"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value as InventoryCategory })}
+                sx={{ flex: 1 }}
+              >
+                {(Object.keys(INVENTORY_CATEGORY_LABELS) as InventoryCategory[]).map((category) => (
+                  <MenuItem key={category} value={category}>
+                    {INVENTORY_CATEGORY_LABELS[category]}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Unit"
+                value={form.unit}
+                onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                placeholder="e.g., cartridge"
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Reorder Level"
+                type="number"
+                value={form.reorderLevel}
+                onChange={(e) => setForm({ ...form, reorderLevel: e.target.value })}
+                inputProps={{ min: 0 }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Reorder Quantity"
+                type="number"
+                value={form.reorderQuantity}
+                onChange={(e) => setForm({ ...form, reorderQuantity: e.target.value })}
+                inputProps={{ min: 0 }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Unit Cost (₹)"
+                type="number"
+                value={form.unitCost}
+                onChange={(e) => setForm({ ...form, unitCost: e.target.value })}
+                inputProps={{ min: 0 }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <TextField
+              select
+              label="Supplier"
+              value={form.supplierId}
+              onChange={(e) => setForm({ ...form, supplierId: e.target.value })}
+            >
+              <MenuItem value="">None</MenuItem>
+              {suppliers.map((supplier) => (
+                <MenuItem key={supplier._id} value={supplier._id}>
+                  {supplier.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFormOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!form.name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Receive stock outside a purchase order */}
+      <Dialog open={!!receiving} onClose={() => setReceiving(null)} maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Receive – {receiving?.name}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              label={`Quantity * (${receiving?.unit})`}
+              type="number"
+              value={receipt.quantity}
+              onChange={(e) => setReceipt({ ...receipt, quantity: e.target.value })}
+              inputProps={{ min: 0 }}
+            />
+            <TextField
+              label="Batch / Lot Number"
+              value={receipt.batchNumber}
+              onChange={(e) => setReceipt({ ...receipt, batchNumber: e.target.value })}
+            />
+            <TextField
+              label="Expiry Date"
+              type="date"
+              value={receipt.expiryDate}
+              onChange={(e) => setReceipt({ ...receipt, expiryDate: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Unit Cost (₹)"
+              type="number"
+              value={receipt.unitCost}
+              onChange={(e) => setReceipt({ ...receipt, unitCost: e.target.value })}
+              placeholder={receiving?.unitCost !== undefined ? String(receiving.unitCost) : ''}
+              inputProps={{ min: 0 }}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReceiving(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleReceive} disabled={!(parseFloat(receipt.quantity) > 0)}>
+            Receive
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Batches in stock and stock history */}
+      <Dialog open={!!detail} onClose={() => setDetail(null)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>
+          {detail?.item.name} – {detail?.item.quantityOnHand} {detail?.item.unit} on hand
+        </DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="subtitle2" fontWeight={600} mb={1}>
+            Batches in Stock
+          </Typography>
+          {detail?.batches.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              No batches in stock.
+            </Typography>
+          ) : (
+            <Table size="small" sx={{ mb: 3 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Batch</TableCell>
+                  <TableCell>Expires</TableCell>
+                  <TableCell align="right">Remaining</TableCell>
+                  <TableCell>Received</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {detail?.batches.map((batch) => (
+                  <TableRow key={batch._id}>
+                    <TableCell>{batch.batchNumber || '—'}</TableCell>
+                    <TableCell>
+                      {batch.expiryDate ? new Date(batch.expiryDate).toLocaleDateString() : '—'}
+                      {isExpired(batch) && <Chip label="Expired" size="small" color="error" sx={{ ml: 1 }} />}
+                    </TableCell>
+                    <TableCell align="right">
+                      {batch.quantityRemaining} / {batch.quantityReceived}
+                    </TableCell>
+                    <TableCell>{new Date(batch.receivedAt).toLocaleDateString()}</TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        onClick={() => {
+                          setAdjusting(batch);
+                          setAdjustment({ quantity: '', reason: '', dispose: isExpired(batch) });
+                        }}
+                      >
+                        Adjust
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <Typography variant="subtitle2" fontWeight={600} mb={1}>
+            Recent Movements
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell align="right">Quantity</TableCell>
+                <TableCell>Batch</TableCell>
+                <TableCell>Reason</TableCell>
+                <TableCell>By</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {detail?.movements.map((movement) => (
+                <TableRow key={movement._id}>
+                  <TableCell>{new Date(movement.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{STOCK_MOVEMENT_LABELS[movement.type]}</TableCell>
+                  <TableCell align="right">{movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}</TableCell>
+                  <TableCell>{typeof movement.batchId === 'object' ? movement.batchId.batchNumber || '—' : '—'}</TableCell>
+                  <TableCell>{movement.reason || (movement.treatmentId ? 'Treatment' : '')}</TableCell>
+                  <TableCell>{typeof movement.createdBy === 'object' ? movement.createdBy.name : ''}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDetail(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Count correction or disposal of a batch */}
+      <Dialog open={!!adjusting} onClose={() => setAdjusting(null)} maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Adjust Batch {adjusting?.batchNumber}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={adjustment.dispose}
+                  onChange={(e) => setAdjustment({ ...adjustment, dispose: e.target.checked })}
+                />
+              }
+              label={`Dispose of the remaining ${adjusting?.quantityRemaining}`}
+            />
+            {!adjustment.dispose && (
+              <TextField
+                label="Change in quantity"
+                type="number"
+                value={adjustment.quantity}
+                onChange={(e) => setAdjustment({ ...adjustment, quantity: e.target.value })}
+                helperText="Negative for stock lost or damaged, positive for stock found in a count"
+              />
+            )}
+            <TextField
+              label="Reason *"
+              value={adjustment.reason}
+              onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+              placeholder={adjustment.dispose ? 'e.g., Expired' : 'e.g., Stock count'}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAdjusting(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color={adjustment.dispose ? 'error' : 'primary'}
+            onClick={handleAdjust}
+            disabled={!adjustment.reason.trim() || (!adjustment.dispose && !parseFloat(adjustment.quantity))}
+          >
+            {adjustment.dispose ? 'Dispose' : 'Adjust'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ItemsPanel;
@@ -0,0 +1,485 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  MenuItem,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { inventoryService } from '../../services/inventory.service';
+import { PURCHASE_ORDER_STATUS_COLORS, PURCHASE_ORDER_STATUS_LABELS } from '../../utils/inventory';
+import { getErrorMessage } from '../../utils/errors';
+import type { InventoryItem, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../../types';
+
+interface LineForm {
+  itemId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+interface ReceiptForm {
+  quantity: string;
+  batchNumber: string;
+  expiryDate: string;
+}
+
+const emptyLine = (): LineForm => ({ itemId: '', quantity: '', unitCost: '' });
+
+const lineItemName = (line: PurchaseOrderLine) => (typeof line.itemId === 'object' ? line.itemId.name : '');
+
+/**
+ * Purchase orders from draft to delivery; received lines are added to stock as batches
+ */
+const PurchaseOrdersPanel: React.FC = () => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [status, setStatus] = useState<PurchaseOrderStatus | 'all'>('all');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [total, setTotal] = useState(0);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [error, setError] = useState('');
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedAt, setExpectedAt] = useState('');
+  const [lines, setLines] = useState<LineForm[]>([emptyLine()]);
+
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [receipts, setReceipts] = useState<Record<string, ReceiptForm>>({});
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        setSuppliers(await inventoryService.getSuppliers());
+        setItems(await inventoryService.getItems());
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load suppliers and items'));
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const ordersRes = await inventoryService.getPurchaseOrders({
+        status: status === 'all' ? undefined : status,
+        page: page + 1,
+        limit: rowsPerPage,
+      });
+      setOrders(ordersRes.data || []);
+      setTotal(ordersRes.total || 0);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load purchase orders'));
+    }
+  }, [status, page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const openCreate = () => {
+    setSupplierId('');
+    setExpectedAt('');
+    setLines([emptyLine()]);
+    setCreateOpen(true);
+  };
+
+  // Start a supplier's order with their items that are low on stock
+  const handleSupplierChange = (id: string) => {
+    setSupplierId(id);
+    const lowStock = items.filter(
+      (item) =>
+        (typeof item.supplierId === 'object' ? item.supplierId._id : item.supplierId) === id &&
+        item.quantityOnHand <= item.reorderLevel
+    );
+    if (lowStock.length > 0) {
+      setLines(
+        lowStock.map((item) => ({
+          itemId: item._id,
+          quantity: String(item.reorderQuantity || Math.max(item.reorderLevel - item.quantityOnHand, 1)),
+          unitCost: item.unitCost !== undefined ? String(item.unitCost) : '',
+        }))
+      );
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<LineForm>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const handleCreate = async () => {
+    try {
+      await inventoryService.createPurchaseOrder({
+        supplierId,
+        expectedAt: expectedAt || undefined,
+        lines: lines
+          .filter((line) => line.itemId && parseFloat(line.quantity) > 0)
+          .map((line) => ({
+            itemId: line.itemId,
+            quantity: parseFloat(line.quantity),
+            unitCost: line.unitCost ? parseFloat(line.unitCost) : undefined,
+          })),
+      });
+      setCreateOpen(false);
+      fetchOrders();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create purchase order'));
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      fetchOrders();
+    } catch (err) {
+      setError(getErrorMessage(err, failure));
+    }
+  };
+
+  const openReceive = (order: PurchaseOrder) => {
+    setReceiving(order);
+    setReceipts(
+      Object.fromEntries(
+        order.lines.map((line) => [
+          line._id,
+          { quantity: String(Math.max(line.quantity - line.receivedQuantity, 0)), batchNumber: '', expiryDate: '' },
+        ])
+      )
+    );
+  };
+
+  const updateReceipt = (lineId: string, changes: Partial<ReceiptForm>) =>
+    setReceipts({ ...receipts, [lineId]: { ...receipts[lineId], ...changes } });
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+    try {
+      await inventoryService.receivePurchaseOrder(
+        receiving._id,
+        Object.entries(receipts)
+          .filter(([, receipt]) => parseFloat(receipt.quantity) > 0)
+          .map(([lineId, receipt]) => ({
+            lineId,
+            quantity: parseFloat(receipt.quantity),
+            batchNumber: receipt.batchNumber || undefined,
+            expiryDate: receipt.expiryDate || undefined,
+          }))
+      );
+      setReceiving(null);
+      fetchOrders();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to receive delivery'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mb={2}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={status}
+          onChange={(_, value) => {
+            if (value) {
+              setStatus(value);
+              setPage(0);
+            }
+          }}
+          sx={{ flexWrap: 'wrap' }}
+        >
+          <ToggleButton value="all">All</ToggleButton>
+          {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((orderStatus) => (
+            <ToggleButton key={orderStatus} value={orderStatus}>
+              {PURCHASE_ORDER_STATUS_LABELS[orderStatus]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Box flexGrow={1} />
+        <Button startIcon={<AddIcon />} onClick={openCreate}>
+          New Purchase Order
+        </Button>
+      </Box>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>PO #</TableCell>
+              <TableCell>Supplier</TableCell>
+              <TableCell>Items</TableCell>
+              <TableCell align="right">Total</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Expected</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {orders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  No purchase orders found
+                </TableCell>
+              </TableRow>
+            ) : (
+              orders.map((order) => (
+                <TableRow key={order._id}>
+                  <TableCell>{order.orderNumber}</TableCell>
+                  <TableCell>{typeof order.supplierId === 'object' ? order.supplierId.name : ''}</TableCell>
+                  <TableCell>
+                    {order.lines.map((line) => (
+                      <Typography key={line._id} variant="body2">
+                        {lineItemName(line)} × {line.quantity}
+                        {line.receivedQuantity > 0 && line.receivedQuantity < line.quantity && (
+                          <Typography component="span" variant="caption" color="text.secondary">
+                            {' '}
+                            ({line.receivedQuantity} received)
+                          </Typography>
+                        )}
+                      </Typography>
+                    ))}
+                  </TableCell>
+                  <TableCell align="right">₹{order.totalAmount.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      size="small"
+                      color={PURCHASE_ORDER_STATUS_COLORS[order.status]}
+                    />
+                  </TableCell>
+                  <TableCell>{order.expectedAt ? new Date(order.expectedAt).toLocaleDateString() : ''}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    {order.status === 'draft' && (
+                      <Button
+                        size="small"
+                        onClick={() => runAction(() => inventoryService.placePurchaseOrder(order._id), 'Failed to place order')}
+                      >
+                        Place Order
+                      </Button>
+                    )}
+                    {(order.status === 'ordered' || order.status === 'partially_received') && (
+                      <Button size="small" onClick={() => openReceive(order)}>
+                        Receive
+                      </Button>
+                    )}
+                    {(order.status === 'draft' || order.status === 'ordered') && (
+                      <Button
+                        size="small"
+                        color="warning"
+                        onClick={() =>
+                          runAction(() => inventoryService.cancelPurchaseOrder(order._id), 'Failed to cancel order')
+                        }
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                    {order.status === 'draft' && (
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() =>
+                          runAction(() => inventoryService.deletePurchaseOrder(order._id), 'Failed to delete order')
+                        }
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={total}
+        page={page}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        rowsPerPage={rowsPerPage}
+        onRowsPerPageChange={(e) => {
+          setRowsPerPage(parseInt(e.target.value, 10));
+          setPage(0);
+        }}
+      />
+
+      {/* New purchase order */}
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>New Purchase Order</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" gap={2} mb={2}>
+            <TextField
+              select
+              label="Supplier *"
+              value={supplierId}
+              onChange={(e) => handleSupplierChange(e.target.value)}
+              sx={{ flex: 1 }}
+            >
+              {suppliers.map((supplier) => (
+                <MenuItem key={supplier._id} value={supplier._id}>
+                  {supplier.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Expected"
+              type="date"
+              value={expectedAt}
+              onChange={(e) => setExpectedAt(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Box>
+          {lines.map((line, index) => (
+            <Box key={index} display="flex" gap={1} mb={1} alignItems="center">
+              <TextField
+                select
+                size="small"
+                label="Item"
+                value={line.itemId}
+                onChange={(e) => {
+                  const item = items.find((entry) => entry._id === e.target.value);
+                  updateLine(index, {
+                    itemId: e.target.value,
+                    unitCost: item?.unitCost !== undefined ? String(item.unitCost) : line.unitCost,
+                  });
+                }}
+                sx={{ flexGrow: 1 }}
+              >
+                {items.map((item) => (
+                  <MenuItem key={item._id} value={item._id}>
+                    {item.name} ({item.quantityOnHand} {item.unit} on hand)
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                label="Quantity"
+                type="number"
+                value={line.quantity}
+                onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                inputProps={{ min: 1 }}
+                sx={{ width: 110 }}
+              />
+              <TextField
+                size="small"
+                label="Unit Cost (₹)"
+                type="number"
+                value={line.unitCost}
+                onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                inputProps={{ min: 0 }}
+                sx={{ width: 130 }}
+              />
+              <IconButton
+                size="small"
+                color="error"
+                onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                disabled={lines.length === 1}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Button size="small" startIcon={<AddIcon />} onClick={() => setLines([...lines, emptyLine()])}>
+            Add Line
+          </Button>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={!supplierId || !lines.some((line) => line.itemId && parseFloat(line.quantity) > 0)}
+          >
+            Save Draft
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Receive a delivery */}
+      <Dialog open={!!receiving} onClose={() => setReceiving(null)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Receive {receiving?.orderNumber}</DialogTitle>
+        <DialogContent dividers>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Item</TableCell>
+                <TableCell align="right">Outstanding</TableCell>
+                <TableCell>Received Now</TableCell>
+                <TableCell>Batch / Lot</TableCell>
+                <TableCell>Expiry</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {receiving?.lines.map((line) => (
+                <TableRow key={line._id}>
+                  <TableCell>{lineItemName(line)}</TableCell>
+                  <TableCell align="right">{Math.max(line.quantity - line.receivedQuantity, 0)}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={receipts[line._id]?.quantity ?? ''}
+                      onChange={(e) => updateReceipt(line._id, { quantity: e.target.value })}
+                      inputProps={{ min: 0 }}
+                      sx={{ width: 100 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      value={receipts[line._id]?.batchNumber ?? ''}
+                      onChange={(e) => updateReceipt(line._id, { batchNumber: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="date"
+                      value={receipts[line._id]?.expiryDate ?? ''}
+                      onChange={(e) => updateReceipt(line._id, { expiryDate: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReceiving(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleReceive}
+            disabled={!Object.values(receipts).some((receipt) => parseFloat(receipt.quantity) > 0)}
+          >
+            Receive into Stock
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default PurchaseOrdersPanel;
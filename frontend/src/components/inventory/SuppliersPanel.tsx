@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Switch,
+  Tooltip,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import { inventoryService } from '../../services/inventory.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { Supplier } from '../../types';
+
+const emptySupplier = { name: '', contactName: '', phone: '', email: '' };
+
+/**
+ * Suppliers stock is ordered from
+ */
+const SuppliersPanel: React.FC = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [newSupplier, setNewSupplier] = useState(emptySupplier);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    try {
+      setSuppliers(await inventoryService.getSuppliers({ includeInactive: true }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load suppliers'));
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await inventoryService.createSupplier(newSupplier);
+      setNewSupplier(emptySupplier);
+      fetchSuppliers();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add supplier'));
+    }
+  };
+
+  const handleToggleActive = async (supplier: Supplier) => {
+    try {
+      await inventoryService.updateSupplier(supplier._id, { isActive: !supplier.isActive });
+      fetchSuppliers();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update supplier'));
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    try {
+      await inventoryService.deleteSupplier(supplier._id);
+      fetchSuppliers();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete supplier'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {suppliers.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No suppliers yet.
+        </Typography>
+      )}
+      {suppliers.map((supplier) => (
+        <Box key={supplier._id} display="flex" alignItems="center" gap={1}>
+          <Box sx={{ flexGrow: 1, opacity: supplier.isActive ? 1 : 0.5 }}>
+            <Typography variant="body2">{supplier.name}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[supplier.contactName, supplier.phone, supplier.email].filter(Boolean).join(' · ')}
+            </Typography>
+          </Box>
+          <Tooltip title={supplier.isActive ? 'Active' : 'Inactive'}>
+            <Switch size="small" checked={supplier.isActive} onChange={() => handleToggleActive(supplier)} />
+          </Tooltip>
+          <IconButton size="small" color="error" onClick={() => handleDelete(supplier)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box display="flex" flexWrap="wrap" gap={1} mt={2} alignItems="center">
+        <TextField
+          label="Name"
+          size="small"
+          value={newSupplier.name}
+          onChange={(e) => setNewSupplier({ ...newSupplier, name: e.target.value })}
+          sx={{ flexGrow: 1 }}
+        />
+        <TextField
+          label="Contact"
+          size="small"
+          value={newSupplier.contactName}
+          onChange={(e) => setNewSupplier({ ...newSupplier, contactName: e.target.value })}
+        />
+        <TextField
+          label="Phone"
+          size="small"
+          value={newSupplier.phone}
+          onChange={(e) => setNewSupplier({ ...newSupplier, phone: e.target.value })}
+        />
+        <TextField
+          label="Email"
+          size="small"
+          value={newSupplier.email}
+          onChange={(e) => setNewSupplier({ ...newSupplier, email: e.target.value })}
+        />
+        <Button startIcon={<AddIcon />} onClick={handleAdd} disabled={!newSupplier.name}>
+          Add
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default SuppliersPanel;
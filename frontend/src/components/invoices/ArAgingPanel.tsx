@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { analyticsService } from '../../services/analytics.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { AgingBuckets, AgingReport } from '../../types';
+
+const BUCKETS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1–30 days' },
+  { key: 'days31to60', label: '31–60 days' },
+  { key: 'days61to90', label: '61–90 days' },
+  { key: 'days90plus', label: '90+ days' },
+  { key: 'total', label: 'Total' },
+];
+
+const formatAmount = (amount: number) => (amount ? `₹${amount.toFixed(2)}` : '-');
+
+/**
+ * Outstanding invoice balances by patient, bucketed by days past due
+ */
+const ArAgingPanel: React.FC = () => {
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      setReport((await analyticsService.getArAging()) || null);
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load receivables aging'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" py={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (!report || report.patients.length === 0) {
+    return (
+      <Typography color="text.secondary" textAlign="center" py={3}>
+        No outstanding balances.
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>Patient</TableCell>
+            <TableCell sx={{ fontWeight: 600 }} align="right">
+              Invoices
+            </TableCell>
+            {BUCKETS.map((bucket) => (
+              <TableCell key={bucket.key} sx={{ fontWeight: 600 }} align="right">
+                {bucket.label}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {report.patients.map((row) => (
+            <TableRow key={row.patientId} hover>
+              <TableCell>
+                <Typography variant="body2">{row.name}</Typography>
+                {row.oldestDaysOverdue > 0 && (
+                  <Typography variant="caption" color="error">
+                    Oldest {row.oldestDaysOverdue} days overdue
+                  </Typography>
+                )}
+              </TableCell>
+              <TableCell align="right">{row.invoiceCount}</TableCell>
+              {BUCKETS.map((bucket) => (
+                <TableCell key={bucket.key} align="right" sx={bucket.key === 'total' ? { fontWeight: 600 } : undefined}>
+                  {formatAmount(row[bucket.key])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>Total</TableCell>
+            <TableCell />
+            {BUCKETS.map((bucket) => (
+              <TableCell key={bucket.key} align="right" sx={{ fontWeight: 600 }}>
+                {formatAmount(report.totals[bucket.key])}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default ArAgingPanel;
@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { invoiceService } from '../../services/invoice.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { CreditNote, Invoice, InvoiceLineItem } from '../../types';
+
+interface CreditNotesPanelProps {
+  invoice: Invoice;
+  canIssue: boolean;
+  // Called after a credit note is issued, with the recalculated invoice
+  onChange?: (invoice: Invoice) => void;
+}
+
+const CreditNotesPanel: React.FC<CreditNotesPanelProps> = ({ invoice, canIssue, onChange }) => {
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchCreditNotes = useCallback(async () => {
+    try {
+      setCreditNotes(await invoiceService.getCreditNotes(invoice._id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load credit notes'));
+    }
+  }, [invoice._id]);
+
+  useEffect(() => {
+    fetchCreditNotes();
+  }, [fetchCreditNotes]);
+
+  // What is left to credit on a line item after earlier credit notes
+  const getCreditable = (item: InvoiceLineItem) => {
+    const credited = creditNotes
+      .flatMap((creditNote) => creditNote.lines)
+      .filter((line) => line.lineItemId === item._id)
+      .reduce((sum, line) => sum + line.amount, 0);
+    return Math.round((item.total - credited) * 100) / 100;
+  };
+
+  const openDialog = () => {
+    // Start from a full credit of everything that is left
+    setAmounts(Object.fromEntries(invoice.lineItems.map((item) => [item._id, String(getCreditable(item))])));
+    setReason('');
+    setDialogOpen(true);
+  };
+
+  const lines = invoice.lineItems
+    .map((item) => ({ lineItemId: item._id, amount: parseFloat(amounts[item._id]) || 0 }))
+    .filter((line) => line.amount > 0);
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  const overLimit = invoice.lineItems.some((item) => (parseFloat(amounts[item._id]) || 0) > getCreditable(item));
+
+  const handleIssue = async () => {
+    try {
+      setError('');
+      const result = await invoiceService.createCreditNote(invoice._id, { reason, lines });
+      setDialogOpen(false);
+      fetchCreditNotes();
+      if (result) onChange?.(result.invoice);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to issue credit note'));
+    }
+  };
+
+  const handleDownload = async (creditNote: CreditNote) => {
+    try {
+      await invoiceService.downloadCreditNotePDF(invoice._id, creditNote);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download credit note'));
+    }
+  };
+
+  const fullyCredited = invoice.lineItems.every((item) => getCreditable(item) <= 0);
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Typography variant="subtitle1">Credit Notes:</Typography>
+        {canIssue && invoice.status !== 'cancelled' && !fullyCredited && (
+          <Button size="small" onClick={openDialog}>
+            Issue Credit Note
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {creditNotes.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No credit notes issued
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Number</TableCell>
+                <TableCell>Date</TableCell>
+                <TableCell>Reason</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {creditNotes.map((creditNote) => (
+                <TableRow key={creditNote._id}>
+                  <TableCell>{creditNote.creditNoteNumber}</TableCell>
+                  <TableCell>{new Date(creditNote.issueDate).toLocaleDateString()}</TableCell>
+                  <TableCell>{creditNote.reason}</TableCell>
+                  <TableCell align="right">₹{creditNote.totalAmount.toFixed(2)}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Download PDF">
+                      <IconButton size="small" onClick={() => handleDownload(creditNote)}>
+                        <DownloadIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Issue Credit Note</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Typography variant="body2" color="text.secondary">
+              Credit each line in full or in part. Leave a line at 0 to keep it on the invoice.
+            </Typography>
+            {invoice.lineItems.map((item) => (
+              <Box key={item._id} display="flex" alignItems="center" gap={2}>
+                <Typography sx={{ flexGrow: 1 }}>{item.description}</Typography>
+                <TextField
+                  label="Credit"
+                  type="number"
+                  size="small"
+                  value={amounts[item._id] || ''}
+                  onChange={(e) => setAmounts({ ...amounts, [item._id]: e.target.value })}
+                  helperText={`Up to ₹${getCreditable(item).toFixed(2)}`}
+                  error={(parseFloat(amounts[item._id]) || 0) > getCreditable(item)}
+                  disabled={getCreditable(item) <= 0}
+                  sx={{ width: 160 }}
+                />
+              </Box>
+            ))}
+            <TextField label="Reason" required value={reason} onChange={(e) => setReason(e.target.value)} />
+            <Typography align="right">
+              <strong>Total credit:</strong> ₹{total.toFixed(2)}
+            </Typography>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleIssue} disabled={lines.length === 0 || overLimit || !reason.trim()}>
+            Issue
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CreditNotesPanel;
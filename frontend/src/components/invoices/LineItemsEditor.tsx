@@ -0,0 +1,146 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, MedicalServices as TreatmentIcon } from '@mui/icons-material';
+import type { InvoiceLineItemInput } from '../../types';
+
+interface LineItemsEditorProps {
+  items: InvoiceLineItemInput[];
+  onChange: (items: InvoiceLineItemInput[]) => void;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Same arithmetic as the server, which has the final say on the totals
+const lineTotals = (item: InvoiceLineItemInput) => {
+  const subtotal = roundCents(item.quantity * item.unitPrice);
+  const discount = roundCents((subtotal * item.discountPercent) / 100);
+  const tax = roundCents(((subtotal - discount) * item.taxRate) / 100);
+  return { subtotal, discount, tax, total: roundCents(subtotal - discount + tax) };
+};
+
+const LineItemsEditor: React.FC<LineItemsEditorProps> = ({ items, onChange }) => {
+  const updateItem = (index: number, changes: Partial<InvoiceLineItemInput>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addItem = () => {
+    onChange([...items, { description: '', quantity: 1, unitPrice: 0, discountPercent: 0, taxRate: 0 }]);
+  };
+
+  const totals = items.map(lineTotals);
+  const subtotal = roundCents(totals.reduce((sum, line) => sum + line.subtotal, 0));
+  const discount = roundCents(totals.reduce((sum, line) => sum + line.discount, 0));
+  const tax = roundCents(totals.reduce((sum, line) => sum + line.tax, 0));
+
+  return (
+    <Box display="flex" flexDirection="column" gap={1}>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Description</TableCell>
+              <TableCell sx={{ width: 80 }}>Qty</TableCell>
+              <TableCell sx={{ width: 110 }}>Unit Price</TableCell>
+              <TableCell sx={{ width: 90 }}>Disc. %</TableCell>
+              <TableCell sx={{ width: 90 }}>Tax %</TableCell>
+              <TableCell align="right">Amount</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={item._id || item.treatmentId || index}>
+                <TableCell>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    {item.treatmentId && (
+                      <Tooltip title="Treatment">
+                        <TreatmentIcon fontSize="small" color="action" />
+                      </Tooltip>
+                    )}
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={item.description}
+                      onChange={(e) => updateItem(index, { description: e.target.value })}
+                      error={!item.description.trim()}
+                    />
+                  </Box>
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                    inputProps={{ min: 0 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={item.unitPrice}
+                    onChange={(e) => updateItem(index, { unitPrice: Number(e.target.value) })}
+                    inputProps={{ min: 0 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={item.discountPercent}
+                    onChange={(e) => updateItem(index, { discountPercent: Number(e.target.value) })}
+                    inputProps={{ min: 0, max: 100 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={item.taxRate}
+                    onChange={(e) => updateItem(index, { taxRate: Number(e.target.value) })}
+                    inputProps={{ min: 0, max: 100 }}
+                  />
+                </TableCell>
+                <TableCell align="right">₹{totals[index].total.toFixed(2)}</TableCell>
+                <TableCell>
+                  <IconButton size="small" color="error" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Box>
+        <Button size="small" startIcon={<AddIcon />} onClick={addItem}>
+          Add Item
+        </Button>
+      </Box>
+
+      <Box display="flex" flexDirection="column" alignItems="flex-end" gap={0.5} p={2} bgcolor="background.default" borderRadius={1}>
+        <Typography>Subtotal: ₹{subtotal.toFixed(2)}</Typography>
+        {discount > 0 && <Typography>Discount: -₹{discount.toFixed(2)}</Typography>}
+        {tax > 0 && <Typography>Tax: ₹{tax.toFixed(2)}</Typography>}
+        <Typography variant="h6">Total Amount: ₹{roundCents(subtotal - discount + tax).toFixed(2)}</Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default LineItemsEditor;
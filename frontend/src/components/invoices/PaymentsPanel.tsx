@@ -0,0 +1,358 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Block as VoidIcon } from '@mui/icons-material';
+import { invoiceService } from '../../services/invoice.service';
+import { patientService } from '../../services/patient.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { Invoice, Payment, PaymentMethod } from '../../types';
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  upi: 'UPI',
+  insurance: 'Insurance',
+  bank_transfer: 'Bank transfer',
+  credit: 'Patient credit',
+  other: 'Other',
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = () => ({ amount: '', method: 'cash' as PaymentMethod, reference: '', paidAt: today() });
+
+const emptyRefundForm = () => ({ amount: '', method: 'cash' as PaymentMethod, reference: '', reason: '' });
+
+interface PaymentsPanelProps {
+  invoice: Invoice;
+  canRecord: boolean;
+  // Called after a payment or refund is recorded or voided, with the recalculated invoice
+  onChange?: (invoice: Invoice) => void;
+}
+
+const PaymentsPanel: React.FC<PaymentsPanelProps> = ({ invoice, canRecord, onChange }) => {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [formData, setFormData] = useState(emptyForm());
+  const [voiding, setVoiding] = useState<Payment | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [refundOpen, setRefundOpen] = useState(false);
+  const [refundForm, setRefundForm] = useState(emptyRefundForm());
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [error, setError] = useState('');
+
+  const patientId = typeof invoice.patientId === 'object' ? invoice.patientId._id : invoice.patientId;
+  const balance = Math.round((invoice.totalAmount - (invoice.creditedAmount || 0) - invoice.paidAmount) * 100) / 100;
+  // What the patient can still pay - the insurer's share is left for the claim payment
+  const patientPaid = payments
+    .filter((payment) => !payment.voided && !payment.claimId)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const patientBalance = Math.round((invoice.patientAmount - patientPaid) * 100) / 100;
+  const amount = parseFloat(formData.amount);
+  const refundAmount = parseFloat(refundForm.amount);
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      setPayments(await invoiceService.getPayments(invoice._id));
+      if (canRecord) {
+        const credit = await patientService.getPatientCredit(patientId);
+        setCreditBalance(credit?.balance || 0);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load payments'));
+    }
+  }, [invoice._id, canRecord, patientId]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const handleRecord = async () => {
+    try {
+      setError('');
+      const result = await invoiceService.recordPayment(invoice._id, {
+        amount,
+        method: formData.method,
+        reference: formData.reference || undefined,
+        paidAt: formData.paidAt,
+      });
+      setFormData(emptyForm());
+      fetchPayments();
+      if (result) onChange?.(result.invoice);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to record payment'));
+    }
+  };
+
+  const handleRefund = async () => {
+    try {
+      setError('');
+      const result = await invoiceService.recordRefund(invoice._id, {
+        amount: refundAmount,
+        method: refundForm.method,
+        reference: refundForm.reference || undefined,
+        reason: refundForm.reason,
+      });
+      setRefundOpen(false);
+      setRefundForm(emptyRefundForm());
+      fetchPayments();
+      if (result) onChange?.(result.invoice);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to record refund'));
+    }
+  };
+
+  const openRefund = () => {
+    // Offer to give back whatever was overpaid, e.g. after a credit note
+    setRefundForm({ ...emptyRefundForm(), amount: balance < 0 ? String(-balance) : '' });
+    setRefundOpen(true);
+  };
+
+  const handleVoid = async () => {
+    if (!voiding) return;
+    try {
+      setError('');
+      const result = await invoiceService.voidPayment(invoice._id, voiding._id, voidReason);
+      setVoiding(null);
+      setVoidReason('');
+      fetchPayments();
+      if (result) onChange?.(result.invoice);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to void payment'));
+    }
+  };
+
+  const userName = (value?: Payment['receivedBy']) => (typeof value === 'object' ? value.name : '');
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Typography variant="subtitle1">Payments:</Typography>
+        {canRecord && invoice.paidAmount > 0 && (
+          <Button size="small" onClick={openRefund}>
+            Refund
+          </Button>
+        )}
+      </Box>
+
+      {canRecord && balance < 0 && (
+        <Alert severity="info">
+          The patient has overpaid by ₹{(-balance).toFixed(2)}. Refund it, or refund it to patient credit to use on a
+          later invoice.
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {payments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No payments recorded yet
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Receipt</TableCell>
+                <TableCell>Method</TableCell>
+                <TableCell>Reference</TableCell>
+                <TableCell>Received By</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                {canRecord && <TableCell />}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment._id} sx={payment.voided ? { '& td': { color: 'text.disabled' } } : undefined}>
+                  <TableCell>{new Date(payment.paidAt).toLocaleDateString()}</TableCell>
+                  <TableCell>{payment.receiptNumber || '-'}</TableCell>
+                  <TableCell>
+                    {PAYMENT_METHOD_LABELS[payment.method]}
+                    {payment.type === 'refund' && (
+                      <Tooltip title={payment.reason || ''}>
+                        <Chip label="Refund" size="small" color="warning" variant="outlined" sx={{ ml: 1 }} />
+                      </Tooltip>
+                    )}
+                    {payment.voided && (
+                      <Tooltip title={`${payment.voidReason}${payment.voidedBy ? ` - ${userName(payment.voidedBy)}` : ''}`}>
+                        <Chip label="Voided" size="small" sx={{ ml: 1 }} />
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                  <TableCell>{payment.reference || '-'}</TableCell>
+                  <TableCell>{userName(payment.receivedBy) || '-'}</TableCell>
+                  <TableCell align="right" sx={payment.voided ? { textDecoration: 'line-through' } : undefined}>
+                    {payment.amount < 0 ? '-' : ''}₹{Math.abs(payment.amount).toFixed(2)}
+                  </TableCell>
+                  {canRecord && (
+                    <TableCell align="right">
+                      {!payment.voided && (
+                        <Tooltip title="Void Payment">
+                          <IconButton size="small" color="error" onClick={() => setVoiding(payment)}>
+                            <VoidIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {canRecord && invoice.status !== 'cancelled' && patientBalance > 0 && (
+        <Box display="flex" gap={2} flexWrap="wrap" alignItems="flex-start">
+          <TextField
+            label="Amount"
+            type="number"
+            size="small"
+            value={formData.amount}
+            onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            helperText={
+              formData.method === 'credit'
+                ? `Credit available: ₹${creditBalance.toFixed(2)}`
+                : `Balance: ₹${patientBalance.toFixed(2)}`
+            }
+            sx={{ width: 140 }}
+          />
+          <TextField
+            select
+            label="Method"
+            size="small"
+            value={formData.method}
+            onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentMethod })}
+            sx={{ minWidth: 140 }}
+          >
+            {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value} disabled={value === 'credit' && creditBalance <= 0}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="Reference"
+            size="small"
+            value={formData.reference}
+            onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+            sx={{ width: 160 }}
+          />
+          <TextField
+            label="Date"
+            type="date"
+            size="small"
+            value={formData.paidAt}
+            onChange={(e) => setFormData({ ...formData, paidAt: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button variant="contained" onClick={handleRecord} disabled={
+              !(amount > 0) || amount > patientBalance || (formData.method === 'credit' && amount > creditBalance)
+            }
+          >
+            Record Payment
+          </Button>
+        </Box>
+      )}
+
+      <Dialog open={!!voiding} onClose={() => setVoiding(null)} maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Void {voiding?.type === 'refund' ? 'Refund' : 'Payment'}</DialogTitle>
+        <DialogContent dividers>
+          <Typography mb={2}>
+            Void the {voiding && PAYMENT_METHOD_LABELS[voiding.method].toLowerCase()}{' '}
+            {voiding?.type === 'refund' ? 'refund' : 'payment'} of ₹{voiding && Math.abs(voiding.amount).toFixed(2)}? It
+            stays in the payment history.
+          </Typography>
+          <TextField
+            label="Reason"
+            fullWidth
+            required
+            value={voidReason}
+            onChange={(e) => setVoidReason(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setVoiding(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleVoid} disabled={!voidReason.trim()}>
+            Void
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={refundOpen} onClose={() => setRefundOpen(false)} maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Refund</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              label="Amount"
+              type="number"
+              value={refundForm.amount}
+              onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+              helperText={`Paid on this invoice: ₹${invoice.paidAmount.toFixed(2)}`}
+            />
+            <TextField
+              select
+              label="Refund To"
+              value={refundForm.method}
+              onChange={(e) => setRefundForm({ ...refundForm, method: e.target.value as PaymentMethod })}
+              helperText={refundForm.method === 'credit' ? 'Kept as credit for later invoices' : undefined}
+            >
+              {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                <MenuItem key={value} value={value}>
+                  {label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Reference"
+              value={refundForm.reference}
+              onChange={(e) => setRefundForm({ ...refundForm, reference: e.target.value })}
+            />
+            <TextField
+              label="Reason"
+              required
+              value={refundForm.reason}
+              onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRefundOpen(false)}>Cancel</Button>
+          <Button
+            color="warning"
+            variant="contained"
+            onClick={handleRefund}
+            disabled={!(refundAmount > 0) || refundAmount > invoice.paidAmount || !refundForm.reason.trim()}
+          >
+            Refund
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PaymentsPanel;
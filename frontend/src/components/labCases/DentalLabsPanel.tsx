@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Switch,
+  Tooltip,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import { useAuth } from '../../context/AuthContext';
+import { labCaseService } from '../../services/labCase.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { DentalLab } from '../../types';
+
+const emptyLab = { name: '', contactName: '', phone: '', email: '', turnaroundDays: '7' };
+
+/**
+ * External labs crowns, bridges, dentures and aligners are sent to
+ */
+const DentalLabsPanel: React.FC = () => {
+  const { user } = useAuth();
+  const [labs, setLabs] = useState<DentalLab[]>([]);
+  const [newLab, setNewLab] = useState(emptyLab);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchLabs();
+  }, []);
+
+  const fetchLabs = async () => {
+    try {
+      setLabs(await labCaseService.getLabs({ includeInactive: true }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load labs'));
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await labCaseService.createLab({ ...newLab, turnaroundDays: parseInt(newLab.turnaroundDays) || 7 });
+      setNewLab(emptyLab);
+      fetchLabs();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add lab'));
+    }
+  };
+
+  const handleToggleActive = async (lab: DentalLab) => {
+    try {
+      await labCaseService.updateLab(lab._id, { isActive: !lab.isActive });
+      fetchLabs();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update lab'));
+    }
+  };
+
+  const handleDelete = async (lab: DentalLab) => {
+    try {
+      await labCaseService.deleteLab(lab._id);
+      fetchLabs();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete lab'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {labs.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No labs yet.
+        </Typography>
+      )}
+      {labs.map((lab) => (
+        <Box key={lab._id} display="flex" alignItems="center" gap={1}>
+          <Box sx={{ flexGrow: 1, opacity: lab.isActive ? 1 : 0.5 }}>
+            <Typography variant="body2">{lab.name}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[`${lab.turnaroundDays} day turnaround`, lab.contactName, lab.phone, lab.email].filter(Boolean).join(' · ')}
+            </Typography>
+          </Box>
+          <Tooltip title={lab.isActive ? 'Active' : 'Inactive'}>
+            <Switch size="small" checked={lab.isActive} onChange={() => handleToggleActive(lab)} />
+          </Tooltip>
+          {user?.role === 'admin' && (
+            <IconButton size="small" color="error" onClick={() => handleDelete(lab)}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          )}
+        </Box>
+      ))}
+
+      <Box display="flex" flexWrap="wrap" gap={1} mt={2} alignItems="center">
+        <TextField
+          label="Name"
+          size="small"
+          value={newLab.name}
+          onChange={(e) => setNewLab({ ...newLab, name: e.target.value })}
+          sx={{ flexGrow: 1 }}
+        />
+        <TextField
+          label="Contact"
+          size="small"
+          value={newLab.contactName}
+          onChange={(e) => setNewLab({ ...newLab, contactName: e.target.value })}
+        />
+        <TextField
+          label="Phone"
+          size="small"
+          value={newLab.phone}
+          onChange={(e) => setNewLab({ ...newLab, phone: e.target.value })}
+        />
+        <TextField
+          label="Email"
+          size="small"
+          value={newLab.email}
+          onChange={(e) => setNewLab({ ...newLab, email: e.target.value })}
+        />
+        <TextField
+          label="Turnaround (days)"
+          size="small"
+          type="number"
+          value={newLab.turnaroundDays}
+          onChange={(e) => setNewLab({ ...newLab, turnaroundDays: e.target.value })}
+          sx={{ width: 150 }}
+        />
+        <Button startIcon={<AddIcon />} onClick={handleAdd} disabled={!newLab.name}>
+          Add
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default DentalLabsPanel;
@@ -0,0 +1,269 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { labCaseService } from '../../services/labCase.service';
+import { patientService } from '../../services/patient.service';
+import { LAB_CASE_STATUS_COLORS, LAB_CASE_STATUS_LABELS, LAB_CASE_TYPE_LABELS } from '../../utils/labCases';
+import { getErrorMessage } from '../../utils/errors';
+import type { DentalLab, FileMetadata, LabCase, LabCaseType, Treatment } from '../../types';
+
+interface LabCaseDialogProps {
+  treatment: Treatment | null;
+  onClose: () => void;
+}
+
+const refId = (ref: { _id: string } | string) => (typeof ref === 'object' ? ref._id : ref);
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return toDateInput(result);
+};
+
+/**
+ * Send the lab work for a treatment (crown, bridge, denture, aligners...) to an external lab
+ */
+const LabCaseDialog: React.FC<LabCaseDialogProps> = ({ treatment, onClose }) => {
+  const [labs, setLabs] = useState<DentalLab[]>([]);
+  const [files, setFiles] = useState<FileMetadata[]>([]);
+  const [existing, setExisting] = useState<LabCase[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [labId, setLabId] = useState('');
+  const [caseType, setCaseType] = useState<LabCaseType>('crown');
+  const [toothNumbers, setToothNumbers] = useState<string[]>([]);
+  const [shade, setShade] = useState('');
+  const [material, setMaterial] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [labFee, setLabFee] = useState('');
+  const [sentDate, setSentDate] = useState(toDateInput(new Date()));
+  const [expectedReturnDate, setExpectedReturnDate] = useState('');
+
+  const patientId = treatment ? refId(treatment.patientId) : '';
+
+  const fetchData = useCallback(async () => {
+    if (!treatment) return;
+    try {
+      setLabs(await labCaseService.getLabs());
+      setFiles(await patientService.getPatientFiles(patientId));
+      const response = await labCaseService.getLabCases({ treatmentId: treatment._id });
+      setExisting(response.data || []);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load lab details'));
+    }
+  }, [treatment, patientId]);
+
+  useEffect(() => {
+    if (!treatment) return;
+    setLabId('');
+    setCaseType('crown');
+    setToothNumbers(treatment.toothNumber ? [treatment.toothNumber] : []);
+    setShade('');
+    setMaterial('');
+    setInstructions('');
+    setAttachments([]);
+    setLabFee('');
+    setSentDate(toDateInput(new Date()));
+    setExpectedReturnDate('');
+    setError('');
+    fetchData();
+  }, [treatment, fetchData]);
+
+  // The lab's usual turnaround gives the expected date, which can still be changed
+  const handleLabChange = (id: string) => {
+    setLabId(id);
+    const lab = labs.find((entry) => entry._id === id);
+    if (lab) setExpectedReturnDate(addDays(sentDate, lab.turnaroundDays));
+  };
+
+  const handleSentDateChange = (date: string) => {
+    setSentDate(date);
+    const lab = labs.find((entry) => entry._id === labId);
+    if (lab && date) setExpectedReturnDate(addDays(date, lab.turnaroundDays));
+  };
+
+  const handleSave = async () => {
+    if (!treatment) return;
+    setSaving(true);
+    try {
+      await labCaseService.createLabCase({
+        treatmentId: treatment._id,
+        labId,
+        caseType,
+        toothNumbers,
+        shade,
+        material,
+        instructions,
+        attachments,
+        labFee: labFee ? parseFloat(labFee) : undefined,
+        sentDate,
+        expectedReturnDate,
+      });
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create lab case'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(treatment)} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+      <DialogTitle sx={{ fontWeight: 600 }}>Send to Lab</DialogTitle>
+      <DialogContent dividers>
+        {treatment && (
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            {typeof treatment.patientId === 'object' ? treatment.patientId.name : ''} · {treatment.treatmentType} ·{' '}
+            {new Date(treatment.treatmentDate).toLocaleDateString()}
+          </Typography>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+
+        {existing.length > 0 && (
+          <Box mb={2}>
+            <Typography variant="subtitle2" fontWeight={600} gutterBottom>
+              Lab cases for this treatment
+            </Typography>
+            {existing.map((labCase) => (
+              <Box key={labCase._id} display="flex" alignItems="center" gap={1} mb={0.5}>
+                <Typography variant="body2">
+                  {labCase.caseNumber} · {typeof labCase.labId === 'object' ? labCase.labId.name : ''} · due{' '}
+                  {new Date(labCase.expectedReturnDate).toLocaleDateString()}
+                </Typography>
+                <Chip label={LAB_CASE_STATUS_LABELS[labCase.status]} size="small" color={LAB_CASE_STATUS_COLORS[labCase.status]} />
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {labs.length === 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Add the labs you work with on the Lab Cases page first.
+          </Alert>
+        )}
+
+        <Box display="flex" flexWrap="wrap" gap={2}>
+          <TextField
+            select
+            label="Lab *"
+            value={labId}
+            onChange={(e) => handleLabChange(e.target.value)}
+            sx={{ flex: '1 1 240px' }}
+          >
+            {labs.map((lab) => (
+              <MenuItem key={lab._id} value={lab._id}>
+                {lab.name} ({lab.turnaroundDays} days)
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Work"
+            value={caseType}
+            onChange={(e) => setCaseType(e.target.value as LabCaseType)}
+            sx={{ flex: '1 1 180px' }}
+          >
+            {(Object.keys(LAB_CASE_TYPE_LABELS) as LabCaseType[]).map((type) => (
+              <MenuItem key={type} value={type}>
+                {LAB_CASE_TYPE_LABELS[type]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={toothNumbers}
+            onChange={(_, value) => setToothNumbers(value)}
+            renderInput={(params) => <TextField {...params} label="Teeth" helperText="FDI numbers, e.g. 36 - press Enter after each" />}
+            sx={{ flex: '1 1 240px' }}
+          />
+          <TextField
+            label="Shade"
+            value={shade}
+            onChange={(e) => setShade(e.target.value)}
+            placeholder="e.g., A2"
+            sx={{ flex: '1 1 120px' }}
+          />
+          <TextField
+            label="Material"
+            value={material}
+            onChange={(e) => setMaterial(e.target.value)}
+            placeholder="e.g., Zirconia, PFM, E-max"
+            sx={{ flex: '1 1 200px' }}
+          />
+          <TextField
+            label="Lab Fee"
+            type="number"
+            value={labFee}
+            onChange={(e) => setLabFee(e.target.value)}
+            InputProps={{ startAdornment: '₹' }}
+            sx={{ flex: '1 1 120px' }}
+          />
+          <TextField
+            label="Sent"
+            type="date"
+            value={sentDate}
+            onChange={(e) => handleSentDateChange(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            sx={{ flex: '1 1 160px' }}
+          />
+          <TextField
+            label="Expected Back *"
+            type="date"
+            value={expectedReturnDate}
+            onChange={(e) => setExpectedReturnDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            sx={{ flex: '1 1 160px' }}
+          />
+          <Autocomplete
+            multiple
+            options={files}
+            getOptionLabel={(file) => file.fileName}
+            value={files.filter((file) => attachments.includes(file._id))}
+            onChange={(_, value) => setAttachments(value.map((file) => file._id))}
+            renderInput={(params) => <TextField {...params} label="Attachments" helperText="Scans, photos and impressions from the patient's files" />}
+            sx={{ flex: '1 1 100%' }}
+          />
+          <TextField
+            label="Instructions"
+            multiline
+            rows={3}
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            sx={{ flex: '1 1 100%' }}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!labId || !expectedReturnDate || saving}>
+          Send to Lab
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LabCaseDialog;
@@ -0,0 +1,330 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Chip,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Delete as DeleteIcon, History as HistoryIcon, Warning as WarningIcon } from '@mui/icons-material';
+import { useAuth } from '../../context/AuthContext';
+import { labCaseService } from '../../services/labCase.service';
+import {
+  LAB_CASE_NEXT_STATUSES,
+  LAB_CASE_STATUS_COLORS,
+  LAB_CASE_STATUS_LABELS,
+  LAB_CASE_TYPE_LABELS,
+  isLabCaseOverdue,
+} from '../../utils/labCases';
+import { getErrorMessage } from '../../utils/errors';
+import type { LabCase, LabCaseQuery, LabCaseStatus } from '../../types';
+
+type CaseFilter = 'open' | 'overdue' | 'all' | LabCaseStatus;
+
+const refName = (ref: { name: string } | string) => (typeof ref === 'object' ? ref.name : '');
+
+/**
+ * Lab work out at external labs, from sending to fitting, with overdue and early-fitting warnings
+ */
+const LabCasesPanel: React.FC = () => {
+  const { user } = useAuth();
+  const [labCases, setLabCases] = useState<LabCase[]>([]);
+  const [filter, setFilter] = useState<CaseFilter>('open');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState('');
+
+  const [remaking, setRemaking] = useState<LabCase | null>(null);
+  const [remakeReason, setRemakeReason] = useState('');
+  const [remakeDate, setRemakeDate] = useState('');
+  const [historyCase, setHistoryCase] = useState<LabCase | null>(null);
+
+  const fetchLabCases = useCallback(async () => {
+    try {
+      const params: LabCaseQuery = { page: page + 1, limit: rowsPerPage };
+      if (filter === 'open') params.open = true;
+      else if (filter === 'overdue') params.overdue = true;
+      else if (filter !== 'all') params.status = filter;
+
+      const response = await labCaseService.getLabCases(params);
+      setLabCases(response.data || []);
+      setTotal(response.total || 0);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load lab cases'));
+    }
+  }, [filter, page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchLabCases();
+  }, [fetchLabCases]);
+
+  const handleStatus = async (labCase: LabCase, status: LabCaseStatus) => {
+    if (status === 'remake') {
+      setRemaking(labCase);
+      setRemakeReason('');
+      setRemakeDate('');
+      return;
+    }
+    try {
+      await labCaseService.updateStatus(labCase._id, { status });
+      fetchLabCases();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update lab case'));
+    }
+  };
+
+  const handleRemake = async () => {
+    if (!remaking) return;
+    try {
+      await labCaseService.updateStatus(remaking._id, {
+        status: 'remake',
+        note: remakeReason,
+        expectedReturnDate: remakeDate || undefined,
+      });
+      setRemaking(null);
+      fetchLabCases();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to send lab case for remake'));
+    }
+  };
+
+  const handleDelete = async (labCase: LabCase) => {
+    if (!window.confirm(`Delete lab case ${labCase.caseNumber}?`)) return;
+    try {
+      await labCaseService.deleteLabCase(labCase._id);
+      fetchLabCases();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete lab case'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mb={2}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={filter}
+          onChange={(_, value) => {
+            if (value) {
+              setFilter(value);
+              setPage(0);
+            }
+          }}
+          sx={{ flexWrap: 'wrap' }}
+        >
+          <ToggleButton value="open">Open</ToggleButton>
+          <ToggleButton value="overdue">Overdue</ToggleButton>
+          {(Object.keys(LAB_CASE_STATUS_LABELS) as LabCaseStatus[]).map((status) => (
+            <ToggleButton key={status} value={status}>
+              {LAB_CASE_STATUS_LABELS[status]}
+            </ToggleButton>
+          ))}
+          <ToggleButton value="all">All</ToggleButton>
+        </ToggleButtonGroup>
+        <Box flexGrow={1} />
+        <Typography variant="caption" color="text.secondary">
+          New cases are sent from a treatment on the Treatments page
+        </Typography>
+      </Box>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Case #</TableCell>
+              <TableCell>Patient</TableCell>
+              <TableCell>Work</TableCell>
+              <TableCell>Lab</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Expected Back</TableCell>
+              <TableCell>Fitting</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {labCases.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  No lab cases found
+                </TableCell>
+              </TableRow>
+            ) : (
+              labCases.map((labCase) => (
+                <TableRow key={labCase._id}>
+                  <TableCell>{labCase.caseNumber}</TableCell>
+                  <TableCell>{refName(labCase.patientId)}</TableCell>
+                  <TableCell>
+                    {LAB_CASE_TYPE_LABELS[labCase.caseType]}
+                    {labCase.toothNumbers.length > 0 && ` (${labCase.toothNumbers.join(', ')})`}
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {[labCase.material, labCase.shade && `shade ${labCase.shade}`].filter(Boolean).join(' · ')}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{refName(labCase.labId)}</TableCell>
+                  <TableCell>
+                    <Box display="flex" gap={0.5} flexWrap="wrap">
+                      <Chip
+                        label={LAB_CASE_STATUS_LABELS[labCase.status]}
+                        size="small"
+                        color={LAB_CASE_STATUS_COLORS[labCase.status]}
+                      />
+                      {isLabCaseOverdue(labCase) && <Chip label="Overdue" size="small" color="error" variant="outlined" />}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{new Date(labCase.expectedReturnDate).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {labCase.fittingAppointment ? (
+                      <Box display="flex" alignItems="center" gap={0.5}>
+                        {new Date(labCase.fittingAppointment.startTime).toLocaleString()}
+                        {labCase.fittingWarning && (
+                          <Tooltip title={labCase.fittingWarning}>
+                            <WarningIcon fontSize="small" color="warning" />
+                          </Tooltip>
+                        )}
+                      </Box>
+                    ) : (
+                      '-'
+                    )}
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    {LAB_CASE_NEXT_STATUSES[labCase.status].map((status) => (
+                      <Button
+                        key={status}
+                        size="small"
+                        color={status === 'remake' ? 'warning' : 'primary'}
+                        onClick={() => handleStatus(labCase, status)}
+                      >
+                        {LAB_CASE_STATUS_LABELS[status]}
+                      </Button>
+                    ))}
+                    <Tooltip title="History">
+                      <IconButton size="small" onClick={() => setHistoryCase(labCase)}>
+                        <HistoryIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    {user?.role === 'admin' && (
+                      <IconButton size="small" color="error" onClick={() => handleDelete(labCase)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={total}
+        page={page}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        rowsPerPage={rowsPerPage}
+        onRowsPerPageChange={(e) => {
+          setRowsPerPage(parseInt(e.target.value, 10));
+          setPage(0);
+        }}
+      />
+
+      {/* Remake */}
+      <Dialog open={Boolean(remaking)} onClose={() => setRemaking(null)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Remake {remaking?.caseNumber}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              label="Reason *"
+              multiline
+              rows={3}
+              value={remakeReason}
+              onChange={(e) => setRemakeReason(e.target.value)}
+              placeholder="e.g., Open contact distally, shade too light"
+            />
+            <TextField
+              label="Expected Back"
+              type="date"
+              value={remakeDate}
+              onChange={(e) => setRemakeDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              helperText="Leave empty to use the lab's usual turnaround from today"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRemaking(null)}>Cancel</Button>
+          <Button variant="contained" color="warning" onClick={handleRemake} disabled={!remakeReason.trim()}>
+            Send for Remake
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* History */}
+      <Dialog open={Boolean(historyCase)} onClose={() => setHistoryCase(null)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{historyCase?.caseNumber}</DialogTitle>
+        <DialogContent dividers>
+          {historyCase && (
+            <>
+              <Typography variant="body2" gutterBottom>
+                {LAB_CASE_TYPE_LABELS[historyCase.caseType]} for {refName(historyCase.patientId)} · Dr. {refName(historyCase.doctorId)}
+              </Typography>
+              {historyCase.instructions && (
+                <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-wrap' }} gutterBottom>
+                  {historyCase.instructions}
+                </Typography>
+              )}
+              {historyCase.attachments.length > 0 && (
+                <Box display="flex" gap={0.5} flexWrap="wrap" mb={2}>
+                  {historyCase.attachments.map((file) => (
+                    <Chip key={file._id} label={file.fileName} size="small" variant="outlined" />
+                  ))}
+                </Box>
+              )}
+              {historyCase.statusHistory.map((change, index) => (
+                <Box key={index} mb={1}>
+                  <Typography variant="body2">
+                    <strong>{LAB_CASE_STATUS_LABELS[change.status]}</strong> · {new Date(change.changedAt).toLocaleString()}
+                    {change.changedBy && typeof change.changedBy === 'object' ? ` · ${change.changedBy.name}` : ''}
+                  </Typography>
+                  {change.note && (
+                    <Typography variant="caption" color="text.secondary">
+                      {change.note}
+                    </Typography>
+                  )}
+                </Box>
+              ))}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setHistoryCase(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default LabCasesPanel;
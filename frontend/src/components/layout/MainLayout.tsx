@@ -23,10 +23,17 @@ import {
   Dashboard as DashboardIcon,
   People as PeopleIcon,
   CalendarMonth as CalendarIcon,
+  Schedule as ScheduleIcon,
+  HourglassEmpty as WaitlistIcon,
+  Home as PortalIcon,
   LocalHospital as TreatmentIcon,
   Receipt as ReceiptIcon,
+  HealthAndSafety as ClaimsIcon,
+  Inventory2 as InventoryIcon,
+  Science as LabIcon,
   Analytics as AnalyticsIcon,
   ManageAccounts as ManageAccountsIcon,
+  NotificationsActive as NotificationsIcon,
   Brightness4 as DarkIcon,
   Brightness7 as LightIcon,
   AccountCircle,
@@ -61,10 +68,18 @@ const MainLayout: React.FC = () => {
     { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard', roles: ['admin', 'dentist', 'receptionist'] },
     { text: 'Patients', icon: <PeopleIcon />, path: '/patients', roles: ['admin', 'dentist', 'receptionist'] },
     { text: 'Appointments', icon: <CalendarIcon />, path: '/appointments', roles: ['admin', 'dentist', 'receptionist'] },
+    { text: 'Schedules', icon: <ScheduleIcon />, path: '/schedules', roles: ['admin', 'dentist'] },
+    { text: 'Waitlist', icon: <WaitlistIcon />, path: '/waitlist', roles: ['admin', 'receptionist'] },
     { text: 'Treatments', icon: <TreatmentIcon />, path: '/treatments', roles: ['admin', 'dentist'] },
     { text: 'Invoices', icon: <ReceiptIcon />, path: '/invoices', roles: ['admin', 'dentist', 'receptionist'] },
+    { text: 'Claims', icon: <ClaimsIcon />, path: '/claims', roles: ['admin', 'receptionist'] },
+    { text: 'Lab Cases', icon: <LabIcon />, path: '/lab-cases', roles: ['admin', 'dentist', 'receptionist'] },
+    { text: 'Inventory', icon: <InventoryIcon />, path: '/inventory', roles: ['admin', 'receptionist'] },
     { text: 'Analytics', icon: <AnalyticsIcon />, path: '/analytics', roles: ['admin', 'receptionist'] },
+    { text: 'Notifications', icon: <NotificationsIcon />, path: '/notifications', roles: ['admin'] },
     { text: 'Users', icon: <ManageAccountsIcon />, path: '/users', roles: ['admin'] },
+    { text: 'Settings', icon: <Settings />, path: '/settings', roles: ['admin'] },
+    { text: 'My Appointments', icon: <PortalIcon />, path: '/portal', roles: ['patient'] },
   ];
 
   const filteredNavItems = navItems.filter(item => user && item.roles.includes(user.role));
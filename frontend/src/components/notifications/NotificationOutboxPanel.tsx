@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Paper,
+  Typography,
+  Alert,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Replay as ResendIcon, Visibility as ViewIcon } from '@mui/icons-material';
+import { notificationService } from '../../services/notification.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { Notification, NotificationStatus, NotificationSummary } from '../../types';
+
+const STATUS_COLORS: Record<NotificationStatus, 'default' | 'info' | 'success' | 'error'> = {
+  pending: 'default',
+  sending: 'info',
+  sent: 'success',
+  failed: 'error',
+};
+
+const TYPE_LABELS: Record<Notification['type'], string> = {
+  appointment_reminder: 'Reminder',
+  appointment_confirmation: 'Confirmation',
+  invoice_generated: 'Invoice',
+  waitlist_offer: 'Waitlist offer',
+  payment_reminder: 'Payment reminder',
+  payment_final_notice: 'Final notice',
+};
+
+const NotificationOutboxPanel: React.FC = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [summary, setSummary] = useState<NotificationSummary | null>(null);
+  const [status, setStatus] = useState<NotificationStatus | ''>('failed');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<Notification | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const [response, summaryRes] = await Promise.all([
+        notificationService.getNotifications({
+          status: status || undefined,
+          page: page + 1,
+          limit: rowsPerPage,
+        }),
+        notificationService.getSummary(),
+      ]);
+      setNotifications(response.data || []);
+      setTotal(response.total || 0);
+      setSummary(summaryRes || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load notifications'));
+    }
+  }, [status, page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const handleStatusFilter = (value: NotificationStatus | '') => {
+    setStatus(value);
+    setPage(0);
+  };
+
+  const handleView = async (notification: Notification) => {
+    try {
+      setSelected((await notificationService.getNotificationById(notification._id)) || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load notification'));
+    }
+  };
+
+  const handleResend = async (notification: Notification) => {
+    try {
+      await notificationService.resendNotification(notification._id);
+      setSelected(null);
+      fetchNotifications();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to resend notification'));
+    }
+  };
+
+  const recipient = (notification: Notification) =>
+    notification.channel === 'sms' ? notification.recipientPhone : notification.recipientEmail;
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      <Typography variant="h6" fontWeight={600} mb={1}>
+        Outbox
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={2}>
+        Failed deliveries are retried automatically with increasing delays
+        {summary ? `, up to ${summary.maxAttempts} attempts` : ''}. Notifications that still fail can be resent from here.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={1} flexWrap="wrap" mb={2}>
+        <Chip
+          label="All"
+          clickable
+          color={status === '' ? 'primary' : 'default'}
+          onClick={() => handleStatusFilter('')}
+        />
+        {(['failed', 'pending', 'sending', 'sent'] as const).map((value) => (
+          <Chip
+            key={value}
+            label={`${value} (${summary?.counts[value] ?? 0})`}
+            clickable
+            color={status === value ? 'primary' : 'default'}
+            onClick={() => handleStatusFilter(value)}
+          />
+        ))}
+      </Box>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Created</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Patient</TableCell>
+              <TableCell>Recipient</TableCell>
+              <TableCell align="center">Attempts</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Last error</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {notifications.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  No notifications
+                </TableCell>
+              </TableRow>
+            )}
+            {notifications.map((notification) => (
+              <TableRow key={notification._id} hover>
+                <TableCell>{new Date(notification.createdAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  {TYPE_LABELS[notification.type]}
+                  {notification.channel === 'sms' && <Chip label="SMS" size="small" variant="outlined" sx={{ ml: 1 }} />}
+                </TableCell>
+                <TableCell>
+                  {typeof notification.patientId === 'object' ? notification.patientId.name : ''}
+                </TableCell>
+                <TableCell>{recipient(notification)}</TableCell>
+                <TableCell align="center">{notification.attempts}</TableCell>
+                <TableCell>
+                  <Chip label={notification.status} size="small" color={STATUS_COLORS[notification.status]} />
+                </TableCell>
+                <TableCell sx={{ maxWidth: 240, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {notification.errorMessage}
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="View">
+                    <IconButton size="small" onClick={() => handleView(notification)}>
+                      <ViewIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  {notification.status === 'failed' && (
+                    <Tooltip title="Resend">
+                      <IconButton size="small" color="primary" onClick={() => handleResend(notification)}>
+                        <ResendIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={total}
+        page={page}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        rowsPerPage={rowsPerPage}
+        onRowsPerPageChange={(e) => {
+          setRowsPerPage(parseInt(e.target.value, 10));
+          setPage(0);
+        }}
+        rowsPerPageOptions={[10, 25, 50]}
+      />
+
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="sm" fullWidth>
+        <DialogTitle sx={{ fontWeight: 700 }}>{selected?.subject || 'SMS'}</DialogTitle>
+        <DialogContent>
+          {selected && (
+            <>
+              <Typography variant="body2" color="text.secondary" mb={2}>
+                To {recipient(selected)}
+                {selected.sentAt && ` - sent ${new Date(selected.sentAt).toLocaleString()}`}
+                {selected.status === 'pending' &&
+                  selected.nextAttemptAt &&
+                  ` - next attempt ${new Date(selected.nextAttemptAt).toLocaleString()}`}
+              </Typography>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', mb: 2 }}>
+                {selected.body}
+              </Typography>
+              <Typography variant="subtitle2" mb={1}>
+                Delivery attempts
+              </Typography>
+              {selected.deliveryAttempts.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  Not attempted yet.
+                </Typography>
+              )}
+              {selected.deliveryAttempts.map((attempt, i) => (
+                <Typography key={i} variant="body2" color={attempt.error ? 'error' : 'success.main'}>
+                  {new Date(attempt.attemptedAt).toLocaleString()}: {attempt.error || 'Delivered'}
+                </Typography>
+              ))}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelected(null)}>Close</Button>
+          {selected?.status === 'failed' && (
+            <Button variant="contained" startIcon={<ResendIcon />} onClick={() => handleResend(selected)}>
+              Resend
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default NotificationOutboxPanel;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  MenuItem,
+  IconButton,
+  Switch,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import { reminderRuleService } from '../../services/reminderRule.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { ReminderChannel, ReminderRule } from '../../types';
+
+const formatOffset = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'} before` : `${hours} hour${hours === 1 ? '' : 's'} before`;
+
+const ReminderRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const [newRule, setNewRule] = useState<{ name: string; offsetHours: string; channel: ReminderChannel }>({
+    name: '',
+    offsetHours: '',
+    channel: 'sms',
+  });
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setRules(await reminderRuleService.getRules());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load reminder rules'));
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await reminderRuleService.createRule({
+        name: newRule.name,
+        offsetHours: Number(newRule.offsetHours),
+        channel: newRule.channel,
+      });
+      setNewRule({ name: '', offsetHours: '', channel: newRule.channel });
+      fetchRules();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add reminder rule'));
+    }
+  };
+
+  const handleToggleActive = async (rule: ReminderRule) => {
+    try {
+      await reminderRuleService.updateRule(rule._id, { isActive: !rule.isActive });
+      fetchRules();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update reminder rule'));
+    }
+  };
+
+  const handleDelete = async (rule: ReminderRule) => {
+    try {
+      await reminderRuleService.deleteRule(rule._id);
+      fetchRules();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete reminder rule'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      <Typography variant="h6" fontWeight={600} mb={1}>
+        Appointment Reminders
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={2}>
+        Each rule is one reminder stage. Appointments booked after a stage has passed skip it, and patients
+        only get the channels they have not opted out of.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {rules.map((rule) => (
+        <Box key={rule._id} display="flex" alignItems="center" gap={1}>
+          <Typography variant="body2" sx={{ flexGrow: 1, opacity: rule.isActive ? 1 : 0.5 }}>
+            {rule.name}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ minWidth: 120 }}>
+            {formatOffset(rule.offsetHours)}
+          </Typography>
+          <Chip label={rule.channel === 'sms' ? 'SMS' : 'Email'} size="small" variant="outlined" />
+          <Tooltip title={rule.isActive ? 'Active' : 'Paused'}>
+            <Switch size="small" checked={rule.isActive} onChange={() => handleToggleActive(rule)} />
+          </Tooltip>
+          <IconButton size="small" color="error" onClick={() => handleDelete(rule)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box display="flex" gap={1} mt={2} alignItems="center">
+        <TextField
+          label="Name"
+          size="small"
+          value={newRule.name}
+          onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+          placeholder="e.g., Morning of"
+          sx={{ flexGrow: 1 }}
+        />
+        <TextField
+          label="Hours before"
+          type="number"
+          size="small"
+          value={newRule.offsetHours}
+          onChange={(e) => setNewRule({ ...newRule, offsetHours: e.target.value })}
+          inputProps={{ min: 1 }}
+          sx={{ width: 130 }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Channel"
+          value={newRule.channel}
+          onChange={(e) => setNewRule({ ...newRule, channel: e.target.value as ReminderChannel })}
+          sx={{ minWidth: 110 }}
+        >
+          <MenuItem value="email">Email</MenuItem>
+          <MenuItem value="sms">SMS</MenuItem>
+        </TextField>
+        <Button startIcon={<AddIcon />} onClick={handleAdd} disabled={!newRule.name || !newRule.offsetHours}>
+          Add
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default ReminderRulesPanel;
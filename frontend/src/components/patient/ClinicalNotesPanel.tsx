@@ -0,0 +1,398 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Paper,
+  TextField,
+  Typography,
+  Alert,
+  Chip,
+  Divider,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Add as AddIcon, History as HistoryIcon } from '@mui/icons-material';
+import { clinicalNoteService } from '../../services/clinicalNote.service';
+import { patientService } from '../../services/patient.service';
+import { useAuth } from '../../context/AuthContext';
+import { SOAP_FIELDS } from '../../utils/clinicalNotes';
+import { getErrorMessage } from '../../utils/errors';
+import type { Appointment, ClinicalNote, SoapField, Treatment } from '../../types';
+
+interface ClinicalNotesPanelProps {
+  patientId: string;
+}
+
+interface NoteForm {
+  visitDate: string;
+  appointmentId: string;
+  treatmentId: string;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): NoteForm => ({
+  visitDate: today(),
+  appointmentId: '',
+  treatmentId: '',
+  subjective: '',
+  objective: '',
+  assessment: '',
+  plan: '',
+});
+
+const refId = (ref?: { _id: string } | string) => (typeof ref === 'object' ? ref._id : ref || '');
+
+const userName = (ref?: { name: string } | string) => (typeof ref === 'object' ? ref.name : 'Unknown');
+
+/**
+ * Per-visit SOAP notes; a signed note is locked and can only be added to with addenda
+ */
+const ClinicalNotesPanel: React.FC<ClinicalNotesPanelProps> = ({ patientId }) => {
+  const { user } = useAuth();
+  const userId = user?._id || user?.id;
+  const canWrite = user?.role === 'admin' || user?.role === 'dentist';
+
+  const [notes, setNotes] = useState<ClinicalNote[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [treatments, setTreatments] = useState<Treatment[]>([]);
+  const [error, setError] = useState('');
+
+  const [editing, setEditing] = useState<ClinicalNote | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<NoteForm>(emptyForm());
+
+  const [addendumNote, setAddendumNote] = useState<ClinicalNote | null>(null);
+  const [addendum, setAddendum] = useState('');
+  const [historyNote, setHistoryNote] = useState<ClinicalNote | null>(null);
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      setNotes(await clinicalNoteService.getNotes(patientId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load clinical notes'));
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+
+  // Visits a note can be linked to are only needed once someone writes one
+  const fetchVisits = async () => {
+    if (appointments.length > 0 || treatments.length > 0) return;
+    try {
+      setAppointments(await patientService.getPatientAppointments(patientId));
+      setTreatments(await patientService.getPatientTreatments(patientId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load visits'));
+    }
+  };
+
+  const isAuthor = (note: ClinicalNote) => !!userId && refId(note.authorId) === userId;
+
+  const openForm = (note?: ClinicalNote) => {
+    setEditing(note || null);
+    setForm(
+      note
+        ? {
+            visitDate: note.visitDate.split('T')[0],
+            appointmentId: refId(note.appointmentId),
+            treatmentId: refId(note.treatmentId),
+            subjective: note.subjective || '',
+            objective: note.objective || '',
+            assessment: note.assessment || '',
+            plan: note.plan || '',
+          }
+        : emptyForm()
+    );
+    fetchVisits();
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const noteData = {
+        ...form,
+        appointmentId: form.appointmentId || undefined,
+        treatmentId: form.treatmentId || undefined,
+      };
+      if (editing) {
+        await clinicalNoteService.updateNote(patientId, editing._id, noteData);
+      } else {
+        await clinicalNoteService.createNote(patientId, noteData);
+      }
+      setFormOpen(false);
+      fetchNotes();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save note'));
+    }
+  };
+
+  const handleSign = async (note: ClinicalNote) => {
+    if (!window.confirm('Sign this note? It cannot be edited afterwards, only added to.')) return;
+    try {
+      await clinicalNoteService.signNote(patientId, note._id);
+      fetchNotes();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to sign note'));
+    }
+  };
+
+  const handleDelete = async (note: ClinicalNote) => {
+    if (!window.confirm('Delete this draft note?')) return;
+    try {
+      await clinicalNoteService.deleteNote(patientId, note._id);
+      fetchNotes();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete note'));
+    }
+  };
+
+  const handleAddendum = async () => {
+    if (!addendumNote) return;
+    try {
+      await clinicalNoteService.addAddendum(patientId, addendumNote._id, addendum);
+      setAddendumNote(null);
+      setAddendum('');
+      fetchNotes();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add addendum'));
+    }
+  };
+
+  const visitLabel = (note: ClinicalNote) =>
+    [
+      typeof note.appointmentId === 'object' && `Appointment ${new Date(note.appointmentId.startTime).toLocaleString()}`,
+      typeof note.treatmentId === 'object' &&
+        `${note.treatmentId.treatmentType}${note.treatmentId.toothNumber ? ` (tooth ${note.treatmentId.toothNumber})` : ''}`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  const renderSections = (content: Partial<Record<SoapField, string>>) =>
+    SOAP_FIELDS.filter(({ field }) => content[field]).map(({ field, label }) => (
+      <Box key={field} mb={1}>
+        <Typography variant="subtitle2" fontWeight={600}>
+          {label}
+        </Typography>
+        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+          {content[field]}
+        </Typography>
+      </Box>
+    ));
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {canWrite && (
+        <Box display="flex" justifyContent="flex-end" mb={2}>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => openForm()}>
+            New Note
+          </Button>
+        </Box>
+      )}
+
+      {notes.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No clinical notes recorded.
+        </Typography>
+      )}
+
+      {notes.map((note) => (
+        <Paper key={note._id} elevation={3} sx={{ borderRadius: 3, p: 3, mb: 2 }}>
+          <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={1}>
+            <Box>
+              <Typography variant="h6" fontWeight={600}>
+                {new Date(note.visitDate).toLocaleDateString()}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {[userName(note.authorId), visitLabel(note)].filter(Boolean).join(' · ')}
+              </Typography>
+            </Box>
+            {note.status === 'signed' ? (
+              <Chip
+                label={`Signed ${note.signedAt ? new Date(note.signedAt).toLocaleString() : ''}`}
+                size="small"
+                color="success"
+              />
+            ) : (
+              <Chip label="Draft" size="small" color="warning" />
+            )}
+          </Box>
+
+          {renderSections(note)}
+
+          {note.addenda.length > 0 && (
+            <Box mt={2}>
+              <Divider sx={{ mb: 1 }} />
+              {note.addenda.map((entry) => (
+                <Box key={entry._id} mb={1}>
+                  <Typography variant="subtitle2" fontWeight={600}>
+                    Addendum – {userName(entry.authorId)}, {new Date(entry.createdAt).toLocaleString()}
+                  </Typography>
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                    {entry.text}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
+
+          <Box display="flex" gap={1} mt={1} justifyContent="flex-end">
+            {note.versions.length > 1 && (
+              <Button size="small" startIcon={<HistoryIcon />} onClick={() => setHistoryNote(note)}>
+                History ({note.versions.length})
+              </Button>
+            )}
+            {note.status === 'draft' && isAuthor(note) && (
+              <Button size="small" onClick={() => openForm(note)}>
+                Edit
+              </Button>
+            )}
+            {note.status === 'draft' && isAuthor(note) && user?.role === 'dentist' && (
+              <Button size="small" variant="contained" onClick={() => handleSign(note)}>
+                Sign
+              </Button>
+            )}
+            {note.status === 'draft' && (isAuthor(note) || user?.role === 'admin') && (
+              <Button size="small" color="error" onClick={() => handleDelete(note)}>
+                Delete
+              </Button>
+            )}
+            {note.status === 'signed' && canWrite && (
+              <Button size="small" onClick={() => setAddendumNote(note)}>
+                Add Addendum
+              </Button>
+            )}
+          </Box>
+        </Paper>
+      ))}
+
+      {/* New / edit draft note */}
+      <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{editing ? 'Edit Note' : 'New Clinical Note'}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Visit Date"
+                type="date"
+                value={form.visitDate}
+                onChange={(e) => setForm({ ...form, visitDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                select
+                label="Appointment"
+                value={form.appointmentId}
+                onChange={(e) => setForm({ ...form, appointmentId: e.target.value })}
+                sx={{ flex: 1 }}
+              >
+                <MenuItem value="">None</MenuItem>
+                {appointments.map((appointment) => (
+                  <MenuItem key={appointment._id} value={appointment._id}>
+                    {new Date(appointment.startTime).toLocaleString()} – {userName(appointment.doctorId)}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Treatment"
+                value={form.treatmentId}
+                onChange={(e) => setForm({ ...form, treatmentId: e.target.value })}
+                sx={{ flex: 1 }}
+              >
+                <MenuItem value="">None</MenuItem>
+                {treatments.map((treatment) => (
+                  <MenuItem key={treatment._id} value={treatment._id}>
+                    {new Date(treatment.treatmentDate).toLocaleDateString()} – {treatment.treatmentType}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Box>
+            {SOAP_FIELDS.map(({ field, label, helper }) => (
+              <TextField
+                key={field}
+                label={label}
+                value={form[field]}
+                onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                helperText={helper}
+                multiline
+                minRows={2}
+              />
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFormOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!SOAP_FIELDS.some(({ field }) => form[field].trim())}
+          >
+            Save Draft
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Addendum to a signed note */}
+      <Dialog open={!!addendumNote} onClose={() => setAddendumNote(null)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Add Addendum</DialogTitle>
+        <DialogContent dividers>
+          <TextField
+            label="Addendum"
+            value={addendum}
+            onChange={(e) => setAddendum(e.target.value)}
+            multiline
+            minRows={3}
+            fullWidth
+            helperText="Addenda are added below the signed note and cannot be changed"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAddendumNote(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleAddendum} disabled={!addendum.trim()}>
+            Add
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Version history */}
+      <Dialog open={!!historyNote} onClose={() => setHistoryNote(null)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Version History</DialogTitle>
+        <DialogContent dividers>
+          {historyNote?.versions
+            .slice()
+            .reverse()
+            .map((version) => (
+              <Box key={version.version} mb={2}>
+                <Typography variant="subtitle2" color="text.secondary" mb={1}>
+                  Version {version.version} – {userName(version.editedBy)}, {new Date(version.editedAt).toLocaleString()}
+                </Typography>
+                {renderSections(version)}
+                <Divider />
+              </Box>
+            ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setHistoryNote(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ClinicalNotesPanel;
@@ -0,0 +1,315 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Paper,
+  TextField,
+  Typography,
+  Alert,
+  Chip,
+  IconButton,
+  MenuItem,
+  Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Add as AddIcon, PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { consentService } from '../../services/consent.service';
+import { patientService } from '../../services/patient.service';
+import { SIGNER_RELATIONSHIP_LABELS } from '../../utils/consents';
+import { TREATMENT_STATUS_LABELS } from '../../utils/treatments';
+import SignaturePad from './SignaturePad';
+import { getErrorMessage } from '../../utils/errors';
+import type { Consent, ConsentPreview, ConsentTemplate, SignerRelationship, Treatment } from '../../types';
+
+interface ConsentsPanelProps {
+  patientId: string;
+  patientName: string;
+}
+
+interface SignForm {
+  templateId: string;
+  treatmentId: string;
+  signerName: string;
+  signerRelationship: SignerRelationship;
+}
+
+const refId = (ref?: { _id: string } | string) => (typeof ref === 'object' ? ref._id : ref || '');
+
+/**
+ * Consent forms the patient has signed, and signing a new one on screen
+ */
+const ConsentsPanel: React.FC<ConsentsPanelProps> = ({ patientId, patientName }) => {
+  const [consents, setConsents] = useState<Consent[]>([]);
+  const [templates, setTemplates] = useState<ConsentTemplate[]>([]);
+  const [treatments, setTreatments] = useState<Treatment[]>([]);
+  const [error, setError] = useState('');
+
+  const [signOpen, setSignOpen] = useState(false);
+  const [form, setForm] = useState<SignForm>({
+    templateId: '',
+    treatmentId: '',
+    signerName: patientName,
+    signerRelationship: 'patient',
+  });
+  const [preview, setPreview] = useState<ConsentPreview | null>(null);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [signing, setSigning] = useState(false);
+
+  // The form is filled in for the patient and treatment, so it is reloaded when either changes
+  useEffect(() => {
+    if (!signOpen || !form.templateId) {
+      setPreview(null);
+      return;
+    }
+    consentService
+      .previewConsent(patientId, { templateId: form.templateId, treatmentId: form.treatmentId || undefined })
+      .then((data) => setPreview(data || null))
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load consent form')));
+  }, [signOpen, patientId, form.templateId, form.treatmentId]);
+
+  const fetchConsents = useCallback(async () => {
+    try {
+      setConsents(await consentService.getConsents(patientId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load consents'));
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchConsents();
+  }, [fetchConsents]);
+
+  const openSign = async () => {
+    setForm({ templateId: '', treatmentId: '', signerName: patientName, signerRelationship: 'patient' });
+    setSignature(null);
+    setSignOpen(true);
+    try {
+      setTemplates(await consentService.getTemplates());
+      setTreatments(await patientService.getPatientTreatments(patientId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load consent templates'));
+    }
+  };
+
+  // Treatments waiting on consent come first
+  const selectableTreatments = [...treatments].sort(
+    (a, b) => Number(a.status === 'completed') - Number(b.status === 'completed')
+  );
+  const selectedTreatment = treatments.find((treatment) => treatment._id === form.treatmentId);
+  const treatmentProcedureId = refId(selectedTreatment?.procedureId);
+
+  // With a treatment picked, only forms for its procedure (or free-standing ones) apply
+  const selectableTemplates = templates.filter(
+    (template) =>
+      !treatmentProcedureId ||
+      template.procedureIds.length === 0 ||
+      template.procedureIds.some((procedure) => procedure._id === treatmentProcedureId)
+  );
+
+  const handleSign = async () => {
+    if (!signature) return;
+    setSigning(true);
+    try {
+      await consentService.signConsent(patientId, {
+        templateId: form.templateId,
+        treatmentId: form.treatmentId || undefined,
+        signerName: form.signerName,
+        signerRelationship: form.signerRelationship,
+        signature,
+      });
+      setSignOpen(false);
+      fetchConsents();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save consent'));
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const handleDownload = async (consent: Consent) => {
+    try {
+      await consentService.downloadPDF(patientId, consent._id);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download consent'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h6" fontWeight={600}>
+          Consent Forms
+        </Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openSign}>
+          Sign Consent
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {consents.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No consent forms signed yet.
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Form</TableCell>
+                <TableCell>Treatment</TableCell>
+                <TableCell>Signed By</TableCell>
+                <TableCell>Witness</TableCell>
+                <TableCell>Signed</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {consents.map((consent) => (
+                <TableRow key={consent._id}>
+                  <TableCell>
+                    {consent.title}
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Version {consent.templateVersion}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {typeof consent.treatmentId === 'object'
+                      ? `${consent.treatmentId.treatmentType}${consent.treatmentId.toothNumber ? ` (${consent.treatmentId.toothNumber})` : ''}`
+                      : '-'}
+                  </TableCell>
+                  <TableCell>
+                    {consent.signerName}
+                    {consent.signerRelationship !== 'patient' && (
+                      <Chip label={SIGNER_RELATIONSHIP_LABELS[consent.signerRelationship]} size="small" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>{typeof consent.witnessedBy === 'object' ? consent.witnessedBy.name : '-'}</TableCell>
+                  <TableCell>{new Date(consent.signedAt).toLocaleString()}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Download signed PDF">
+                      <IconButton size="small" onClick={() => handleDownload(consent)}>
+                        <PdfIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={signOpen} onClose={() => setSignOpen(false)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Sign Consent</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Box display="flex" gap={2} flexWrap="wrap">
+              <TextField
+                select
+                label="Treatment"
+                value={form.treatmentId}
+                onChange={(e) => {
+                  setForm({ ...form, treatmentId: e.target.value });
+                  setSignature(null);
+                }}
+                sx={{ flex: '1 1 240px' }}
+              >
+                <MenuItem value="">None</MenuItem>
+                {selectableTreatments.map((treatment) => (
+                  <MenuItem key={treatment._id} value={treatment._id}>
+                    {treatment.treatmentType}
+                    {treatment.toothNumber ? ` (${treatment.toothNumber})` : ''} –{' '}
+                    {new Date(treatment.treatmentDate).toLocaleDateString()} ·{' '}
+                    {TREATMENT_STATUS_LABELS[treatment.status || 'completed']}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Consent Form *"
+                value={form.templateId}
+                onChange={(e) => {
+                  setForm({ ...form, templateId: e.target.value });
+                  setSignature(null);
+                }}
+                sx={{ flex: '1 1 240px' }}
+              >
+                {selectableTemplates.map((template) => (
+                  <MenuItem key={template._id} value={template._id}>
+                    {template.name}
+                    {template.isMandatory ? ' (required)' : ''}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Box>
+
+            {preview && (
+              <>
+                <Paper variant="outlined" sx={{ p: 2, maxHeight: 280, overflow: 'auto', borderRadius: 2 }}>
+                  <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+                    {preview.title}
+                  </Typography>
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                    {preview.body}
+                  </Typography>
+                </Paper>
+                <Box display="flex" gap={2} flexWrap="wrap">
+                  <TextField
+                    label="Signed By *"
+                    value={form.signerName}
+                    onChange={(e) => setForm({ ...form, signerName: e.target.value })}
+                    sx={{ flex: '1 1 240px' }}
+                  />
+                  <TextField
+                    select
+                    label="Relationship"
+                    value={form.signerRelationship}
+                    onChange={(e) => setForm({ ...form, signerRelationship: e.target.value as SignerRelationship })}
+                    sx={{ flex: '1 1 180px' }}
+                  >
+                    {(Object.keys(SIGNER_RELATIONSHIP_LABELS) as SignerRelationship[]).map((relationship) => (
+                      <MenuItem key={relationship} value={relationship}>
+                        {SIGNER_RELATIONSHIP_LABELS[relationship]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Box>
+                {/* A new form text needs a new signature */}
+                <SignaturePad key={`${form.templateId}-${form.treatmentId}`} onChange={setSignature} />
+                <Typography variant="caption" color="text.secondary">
+                  You are signing as witness. The signed form is saved as a PDF in the patient's files.
+                </Typography>
+              </>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSignOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSign}
+            disabled={!preview || !signature || !form.signerName.trim() || signing}
+          >
+            Sign
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ConsentsPanel;
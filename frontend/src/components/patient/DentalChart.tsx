@@ -0,0 +1,442 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  Paper,
+  Chip,
+  Alert,
+  CircularProgress,
+  Divider,
+  IconButton,
+  TextField,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  useTheme,
+} from '@mui/material';
+import { Delete as DeleteIcon, CheckCircle as CompleteIcon } from '@mui/icons-material';
+import { chartService } from '../../services/chart.service';
+import { useAuth } from '../../context/AuthContext';
+import {
+  PERMANENT_UPPER,
+  PERMANENT_LOWER,
+  PRIMARY_UPPER,
+  PRIMARY_LOWER,
+  SURFACES,
+  SURFACE_LABELS,
+  toDisplayNumber,
+  isAnterior,
+  isUpper,
+  isPatientRight,
+} from '../../utils/toothNumbering';
+import { getErrorMessage } from '../../utils/errors';
+import type { NumberingSystem } from '../../utils/toothNumbering';
+import type { DentalChart as DentalChartData, ToothConditionType, ToothSurface } from '../../types';
+
+type MarkStatus = 'existing' | 'planned' | 'completed';
+
+interface ToothMark {
+  status: MarkStatus;
+  condition: string;
+  surfaces: ToothSurface[];
+}
+
+const STATUS_COLORS: Record<MarkStatus, string> = {
+  existing: '#546e7a',
+  planned: '#e53935',
+  completed: '#1e88e5',
+};
+
+// Planned work is the most important thing to see at a glance
+const STATUS_PRIORITY: MarkStatus[] = ['existing', 'completed', 'planned'];
+
+const CONDITIONS: { value: ToothConditionType; label: string }[] = [
+  { value: 'caries', label: 'Caries' },
+  { value: 'filling', label: 'Filling' },
+  { value: 'crown', label: 'Crown' },
+  { value: 'bridge', label: 'Bridge' },
+  { value: 'root_canal', label: 'Root Canal' },
+  { value: 'implant', label: 'Implant' },
+  { value: 'veneer', label: 'Veneer' },
+  { value: 'sealant', label: 'Sealant' },
+  { value: 'fracture', label: 'Fracture' },
+  { value: 'missing', label: 'Missing' },
+  { value: 'extraction', label: 'Extraction' },
+  { value: 'watch', label: 'Watch' },
+  { value: 'other', label: 'Other' },
+];
+
+const conditionLabel = (value: string) => CONDITIONS.find((c) => c.value === value)?.label || value;
+
+// Polygons for the five-surface occlusal view of a 36x36 tooth
+const POLYGONS = {
+  top: '0,0 36,0 27,9 9,9',
+  bottom: '9,27 27,27 36,36 0,36',
+  left: '0,0 9,9 9,27 0,36',
+  right: '36,0 36,36 27,27 27,9',
+};
+
+const surfaceLayout = (fdi: string) => ({
+  top: isUpper(fdi) ? 'B' : 'L',
+  bottom: isUpper(fdi) ? 'L' : 'B',
+  left: isPatientRight(fdi) ? 'D' : 'M',
+  right: isPatientRight(fdi) ? 'M' : 'D',
+  center: isAnterior(fdi) ? 'I' : 'O',
+}) as Record<'top' | 'bottom' | 'left' | 'right' | 'center', ToothSurface>;
+
+interface ToothProps {
+  fdi: string;
+  label: string;
+  marks: ToothMark[];
+  selected: boolean;
+  onClick: () => void;
+}
+
+const Tooth: React.FC<ToothProps> = ({ fdi, label, marks, selected, onClick }) => {
+  const theme = useTheme();
+  const layout = surfaceLayout(fdi);
+  const baseFill = theme.palette.mode === 'dark' ? '#2a2a2a' : '#fff';
+  const stroke = theme.palette.mode === 'dark' ? '#888' : '#90a4ae';
+
+  const fillFor = (surface: ToothSurface) => {
+    let color = baseFill;
+    STATUS_PRIORITY.forEach((status) => {
+      // Marks without surfaces apply to the whole tooth
+      const hit = marks.some(
+        (m) => m.status === status && (m.surfaces.length === 0 || m.surfaces.includes(surface))
+      );
+      if (hit) color = STATUS_COLORS[status];
+    });
+    return color;
+  };
+
+  const absent = marks.some(
+    (m) => m.condition === 'missing' || (m.condition === 'extraction' && m.status !== 'planned')
+  );
+
+  return (
+    <Tooltip title={`Tooth ${label}`} arrow>
+      <Box
+        onClick={onClick}
+        sx={{
+          display: 'flex',
+          flexDirection: isUpper(fdi) ? 'column' : 'column-reverse',
+          alignItems: 'center',
+          cursor: 'pointer',
+          p: 0.5,
+          borderRadius: 1,
+          outline: selected ? `2px solid ${theme.palette.primary.main}` : 'none',
+          '&:hover': { backgroundColor: theme.palette.action.hover },
+        }}
+      >
+        <Typography variant="caption" fontWeight={600}>
+          {label}
+        </Typography>
+        <svg width={36} height={36} viewBox="0 0 36 36">
+          {(['top', 'bottom', 'left', 'right'] as const).map((pos) => (
+            <polygon key={pos} points={POLYGONS[pos]} fill={fillFor(layout[pos])} stroke={stroke} strokeWidth={1} />
+          ))}
+          <rect x={9} y={9} width={18} height={18} fill={fillFor(layout.center)} stroke={stroke} strokeWidth={1} />
+          {absent && (
+            <g stroke={theme.palette.text.primary} strokeWidth={2}>
+              <line x1={2} y1={2} x2={34} y2={34} />
+              <line x1={34} y1={2} x2={2} y2={34} />
+            </g>
+          )}
+        </svg>
+      </Box>
+    </Tooltip>
+  );
+};
+
+interface DentalChartProps {
+  patientId: string;
+}
+
+const emptyForm = {
+  condition: 'caries' as ToothConditionType,
+  status: 'existing' as MarkStatus,
+  surfaces: [] as ToothSurface[],
+  notes: '',
+};
+
+const DentalChart: React.FC<DentalChartProps> = ({ patientId }) => {
+  const theme = useTheme();
+  const { user } = useAuth();
+
+  const [chart, setChart] = useState<DentalChartData>({ conditions: [], treatments: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [numbering, setNumbering] = useState<NumberingSystem>('fdi');
+  const [dentition, setDentition] = useState<'permanent' | 'primary'>('permanent');
+  const [selectedTooth, setSelectedTooth] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchChart = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await chartService.getChart(patientId);
+      setChart(data);
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load dental chart'));
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchChart();
+  }, [fetchChart]);
+
+  const marksFor = (fdi: string): ToothMark[] => [
+    ...chart.conditions
+      .filter((c) => c.toothNumber === fdi)
+      .map((c) => ({ status: c.status, condition: c.condition, surfaces: c.surfaces || [] })),
+    ...chart.treatments
+      .filter((t) => t.toothNumber === fdi)
+      .map((t) => ({ status: 'completed' as MarkStatus, condition: t.treatmentType, surfaces: t.surfaces || [] })),
+  ];
+
+  const handleAddCondition = async () => {
+    if (!selectedTooth) return;
+    try {
+      await chartService.addCondition(patientId, { ...formData, toothNumber: selectedTooth });
+      setFormData(emptyForm);
+      fetchChart();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save condition'));
+    }
+  };
+
+  const handleCompleteCondition = async (conditionId: string) => {
+    try {
+      await chartService.updateCondition(patientId, conditionId, { status: 'completed' });
+      fetchChart();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update condition'));
+    }
+  };
+
+  const handleDeleteCondition = async (conditionId: string) => {
+    try {
+      await chartService.deleteCondition(patientId, conditionId);
+      fetchChart();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete condition'));
+    }
+  };
+
+  const canEdit = user?.role === 'admin' || user?.role === 'dentist';
+  const upper = dentition === 'permanent' ? PERMANENT_UPPER : PRIMARY_UPPER;
+  const lower = dentition === 'permanent' ? PERMANENT_LOWER : PRIMARY_LOWER;
+
+  const renderArch = (teeth: string[]) => {
+    const half = teeth.length / 2;
+    return (
+      <Box display="flex" justifyContent="center">
+        {teeth.map((fdi, i) => (
+          <Box key={fdi} sx={{ ml: i === half ? 2 : 0 }}>
+            <Tooth
+              fdi={fdi}
+              label={toDisplayNumber(fdi, numbering)}
+              marks={marksFor(fdi)}
+              selected={selectedTooth === fdi}
+              onClick={() => setSelectedTooth(fdi)}
+            />
+          </Box>
+        ))}
+      </Box>
+    );
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const toothConditions = chart.conditions.filter((c) => c.toothNumber === selectedTooth);
+  const toothTreatments = chart.treatments.filter((t) => t.toothNumber === selectedTooth);
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={2} mb={2} flexWrap="wrap">
+        <ToggleButtonGroup size="small" exclusive value={dentition} onChange={(_, v) => v && setDentition(v)}>
+          <ToggleButton value="permanent">Permanent</ToggleButton>
+          <ToggleButton value="primary">Primary</ToggleButton>
+        </ToggleButtonGroup>
+        <ToggleButtonGroup size="small" exclusive value={numbering} onChange={(_, v) => v && setNumbering(v)}>
+          <ToggleButton value="fdi">FDI</ToggleButton>
+          <ToggleButton value="universal">Universal</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <Paper sx={{ p: 2, borderRadius: 3, boxShadow: 3, overflowX: 'auto' }}>
+        {renderArch(upper)}
+        <Divider sx={{ my: 1 }} />
+        {renderArch(lower)}
+
+        <Box display="flex" gap={2} justifyContent="center" mt={2}>
+          {(Object.keys(STATUS_COLORS) as MarkStatus[]).map((status) => (
+            <Box key={status} display="flex" alignItems="center" gap={0.5}>
+              <Box sx={{ width: 14, height: 14, borderRadius: 0.5, backgroundColor: STATUS_COLORS[status] }} />
+              <Typography variant="caption" sx={{ textTransform: 'capitalize' }}>
+                {status}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      </Paper>
+
+      {selectedTooth && (
+        <Paper sx={{ p: 2, mt: 3, borderRadius: 3, boxShadow: 3 }}>
+          <Typography variant="h6" fontWeight={700} gutterBottom>
+            Tooth {toDisplayNumber(selectedTooth, numbering)}
+          </Typography>
+
+          <Typography variant="subtitle2" sx={{ mt: 1 }}>
+            Findings
+          </Typography>
+          {toothConditions.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No findings recorded
+            </Typography>
+          ) : (
+            toothConditions.map((c) => (
+              <Box key={c._id} display="flex" alignItems="center" gap={1} py={0.5}>
+                <Chip
+                  label={c.status}
+                  size="small"
+                  sx={{ backgroundColor: STATUS_COLORS[c.status], color: '#fff' }}
+                />
+                <Typography variant="body2" fontWeight={600}>
+                  {conditionLabel(c.condition)}
+                </Typography>
+                {c.surfaces.length > 0 && (
+                  <Typography variant="body2">({c.surfaces.join('')})</Typography>
+                )}
+                <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                  {c.notes || ''} · {new Date(c.recordedAt).toLocaleDateString()}
+                  {typeof c.recordedBy === 'object' ? ` · ${c.recordedBy.name}` : ''}
+                </Typography>
+                {canEdit && c.status === 'planned' && (
+                  <Tooltip title="Mark completed">
+                    <IconButton size="small" color="primary" onClick={() => handleCompleteCondition(c._id)}>
+                      <CompleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {canEdit && (
+                  <Tooltip title="Delete finding">
+                    <IconButton size="small" color="error" onClick={() => handleDeleteCondition(c._id)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Box>
+            ))
+          )}
+
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>
+            Treatment History
+          </Typography>
+          {toothTreatments.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No treatments recorded on this tooth
+            </Typography>
+          ) : (
+            toothTreatments.map((t) => (
+              <Box key={t._id} display="flex" gap={1} py={0.5}>
+                <Typography variant="body2">{new Date(t.treatmentDate).toLocaleDateString()}</Typography>
+                <Typography variant="body2" fontWeight={600}>
+                  {t.treatmentType}
+                </Typography>
+                {t.surfaces && t.surfaces.length > 0 && (
+                  <Typography variant="body2">({t.surfaces.join('')})</Typography>
+                )}
+                <Typography variant="body2" color="text.secondary">
+                  {typeof t.doctorId === 'object' ? `Dr. ${t.doctorId.name}` : ''}
+                </Typography>
+              </Box>
+            ))
+          )}
+
+          {canEdit && (
+            <>
+              <Divider sx={{ my: 2 }} />
+              <Typography variant="subtitle2" gutterBottom>
+                Add Finding
+              </Typography>
+              <Box display="flex" gap={2} flexWrap="wrap" alignItems="center">
+                <TextField
+                  select
+                  size="small"
+                  label="Condition"
+                  value={formData.condition}
+                  onChange={(e) => setFormData({ ...formData, condition: e.target.value as ToothConditionType })}
+                  sx={{ minWidth: 160 }}
+                >
+                  {CONDITIONS.map((c) => (
+                    <MenuItem key={c.value} value={c.value}>
+                      {c.label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="Status"
+                  value={formData.status}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value as MarkStatus })}
+                  sx={{ minWidth: 140 }}
+                >
+                  <MenuItem value="existing">Existing</MenuItem>
+                  <MenuItem value="planned">Planned</MenuItem>
+                  <MenuItem value="completed">Completed</MenuItem>
+                </TextField>
+                <ToggleButtonGroup
+                  size="small"
+                  value={formData.surfaces}
+                  onChange={(_, surfaces) => setFormData({ ...formData, surfaces })}
+                >
+                  {SURFACES.map((s) => (
+                    <ToggleButton key={s} value={s} title={SURFACE_LABELS[s]}>
+                      {s}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+                <TextField
+                  size="small"
+                  label="Notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  sx={{ flex: 1, minWidth: 200 }}
+                />
+                <Button
+                  variant="contained"
+                  onClick={handleAddCondition}
+                  sx={{ borderRadius: 2, textTransform: 'none', background: theme.palette.primary.main }}
+                >
+                  Add
+                </Button>
+              </Box>
+            </>
+          )}
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default DentalChart;
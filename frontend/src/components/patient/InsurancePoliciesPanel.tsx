@@ -0,0 +1,332 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  Chip,
+  IconButton,
+  Tooltip,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { insuranceService } from '../../services/insurance.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { InsurancePolicy, InsuranceProvider } from '../../types';
+
+interface InsurancePoliciesPanelProps {
+  patientId: string;
+  canManage: boolean;
+}
+
+interface PolicyForm {
+  providerId: string;
+  policyNumber: string;
+  groupNumber: string;
+  subscriberName: string;
+  relationship: InsurancePolicy['relationship'];
+  coveragePercent: string;
+  annualMaximum: string;
+  validFrom: string;
+  validTo: string;
+}
+
+const emptyForm = (): PolicyForm => ({
+  providerId: '',
+  policyNumber: '',
+  groupNumber: '',
+  subscriberName: '',
+  relationship: 'self',
+  coveragePercent: '80',
+  annualMaximum: '',
+  validFrom: '',
+  validTo: '',
+});
+
+const InsurancePoliciesPanel: React.FC<InsurancePoliciesPanelProps> = ({ patientId, canManage }) => {
+  const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
+  const [providers, setProviders] = useState<InsuranceProvider[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedPolicy, setSelectedPolicy] = useState<InsurancePolicy | null>(null);
+  const [formData, setFormData] = useState<PolicyForm>(emptyForm());
+  const [error, setError] = useState('');
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      setPolicies(await insuranceService.getPolicies({ patientId, includeInactive: true }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load insurance policies'));
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const openDialog = async (policy?: InsurancePolicy) => {
+    try {
+      if (providers.length === 0) {
+        setProviders(await insuranceService.getProviders());
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load insurance providers'));
+      return;
+    }
+
+    if (policy) {
+      setSelectedPolicy(policy);
+      setFormData({
+        providerId: typeof policy.providerId === 'string' ? policy.providerId : policy.providerId._id,
+        policyNumber: policy.policyNumber,
+        groupNumber: policy.groupNumber || '',
+        subscriberName: policy.subscriberName || '',
+        relationship: policy.relationship,
+        coveragePercent: String(policy.coveragePercent),
+        annualMaximum: policy.annualMaximum !== undefined ? String(policy.annualMaximum) : '',
+        validFrom: policy.validFrom ? policy.validFrom.split('T')[0] : '',
+        validTo: policy.validTo ? policy.validTo.split('T')[0] : '',
+      });
+    } else {
+      setSelectedPolicy(null);
+      setFormData(emptyForm());
+    }
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setError('');
+      const policyData: Partial<InsurancePolicy> = {
+        ...formData,
+        coveragePercent: Number(formData.coveragePercent),
+        annualMaximum: formData.annualMaximum ? Number(formData.annualMaximum) : undefined,
+        validFrom: formData.validFrom || undefined,
+        validTo: formData.validTo || undefined,
+      };
+      if (selectedPolicy) {
+        await insuranceService.updatePolicy(selectedPolicy._id, policyData);
+      } else {
+        await insuranceService.createPolicy({ ...policyData, patientId });
+      }
+      setDialogOpen(false);
+      fetchPolicies();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save insurance policy'));
+    }
+  };
+
+  const handleToggleActive = async (policy: InsurancePolicy) => {
+    try {
+      await insuranceService.updatePolicy(policy._id, { isActive: !policy.isActive });
+      fetchPolicies();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update insurance policy'));
+    }
+  };
+
+  const handleDelete = async (policy: InsurancePolicy) => {
+    try {
+      await insuranceService.deletePolicy(policy._id);
+      fetchPolicies();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete insurance policy'));
+    }
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      {error && (
+        <Alert severity="error" onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {canManage && (
+        <Box>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => openDialog()} sx={{ borderRadius: 2, textTransform: 'none' }}>
+            Add Policy
+          </Button>
+        </Box>
+      )}
+
+      <TableContainer component={Paper} sx={{ borderRadius: 3, boxShadow: 3 }}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              {['Insurer', 'Policy No.', 'Subscriber', 'Coverage', 'Annual Max', 'Valid', 'Status', ''].map((head) => (
+                <TableCell key={head} sx={{ fontWeight: 700 }}>{head}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {policies.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} align="center">No insurance policies on file</TableCell>
+              </TableRow>
+            ) : (
+              policies.map((policy) => (
+                <TableRow key={policy._id} sx={{ opacity: policy.isActive ? 1 : 0.5 }}>
+                  <TableCell>{typeof policy.providerId === 'object' ? policy.providerId.name : '-'}</TableCell>
+                  <TableCell>
+                    {policy.policyNumber}
+                    {policy.groupNumber && (
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        Group {policy.groupNumber}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {policy.relationship === 'self' ? 'Self' : `${policy.subscriberName || '-'} (${policy.relationship})`}
+                  </TableCell>
+                  <TableCell>{policy.coveragePercent}%</TableCell>
+                  <TableCell>{policy.annualMaximum !== undefined ? `₹${policy.annualMaximum.toFixed(2)}` : '-'}</TableCell>
+                  <TableCell>
+                    {policy.validFrom ? new Date(policy.validFrom).toLocaleDateString() : '…'} –{' '}
+                    {policy.validTo ? new Date(policy.validTo).toLocaleDateString() : '…'}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={policy.isActive ? 'Active' : 'Inactive'}
+                      size="small"
+                      color={policy.isActive ? 'success' : 'default'}
+                      onClick={canManage ? () => handleToggleActive(policy) : undefined}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    {canManage && (
+                      <>
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openDialog(policy)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton size="small" color="error" onClick={() => handleDelete(policy)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{selectedPolicy ? 'Edit Insurance Policy' : 'Add Insurance Policy'}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              select
+              label="Insurer *"
+              value={formData.providerId}
+              onChange={(e) => setFormData({ ...formData, providerId: e.target.value })}
+              disabled={!!selectedPolicy}
+              helperText={providers.length === 0 ? 'Add insurance providers in Settings first' : undefined}
+            >
+              {providers.map((provider) => (
+                <MenuItem key={provider._id} value={provider._id}>
+                  {provider.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Policy Number *"
+                value={formData.policyNumber}
+                onChange={(e) => setFormData({ ...formData, policyNumber: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Group Number"
+                value={formData.groupNumber}
+                onChange={(e) => setFormData({ ...formData, groupNumber: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <Box display="flex" gap={2}>
+              <TextField
+                select
+                label="Patient is"
+                value={formData.relationship}
+                onChange={(e) => setFormData({ ...formData, relationship: e.target.value as InsurancePolicy['relationship'] })}
+                sx={{ flex: 1 }}
+              >
+                <MenuItem value="self">The policy holder</MenuItem>
+                <MenuItem value="spouse">Spouse of the holder</MenuItem>
+                <MenuItem value="child">Child of the holder</MenuItem>
+                <MenuItem value="other">Other dependant</MenuItem>
+              </TextField>
+              <TextField
+                label="Policy Holder"
+                value={formData.subscriberName}
+                onChange={(e) => setFormData({ ...formData, subscriberName: e.target.value })}
+                disabled={formData.relationship === 'self'}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Coverage %"
+                type="number"
+                value={formData.coveragePercent}
+                onChange={(e) => setFormData({ ...formData, coveragePercent: e.target.value })}
+                inputProps={{ min: 0, max: 100 }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Annual Maximum"
+                type="number"
+                value={formData.annualMaximum}
+                onChange={(e) => setFormData({ ...formData, annualMaximum: e.target.value })}
+                inputProps={{ min: 0 }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Valid From"
+                type="date"
+                value={formData.validFrom}
+                onChange={(e) => setFormData({ ...formData, validFrom: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Valid To"
+                type="date"
+                value={formData.validTo}
+                onChange={(e) => setFormData({ ...formData, validTo: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!formData.providerId || !formData.policyNumber}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default InsurancePoliciesPanel;
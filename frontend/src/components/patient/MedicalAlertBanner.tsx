@@ -0,0 +1,42 @@
+import React from 'react';
+import { Alert, AlertTitle, Box, Chip } from '@mui/material';
+import { getMedicalAlerts } from '../../utils/medicalAlerts';
+import type { Patient } from '../../types';
+
+interface MedicalAlertBannerProps {
+  patient?: Pick<Patient, 'allergies' | 'medications' | 'conditions'> | null;
+  dense?: boolean;
+}
+
+/**
+ * Allergies, risky medications and conditions, shown wherever the patient is about to be seen
+ */
+const MedicalAlertBanner: React.FC<MedicalAlertBannerProps> = ({ patient, dense = false }) => {
+  const alerts = getMedicalAlerts(patient);
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert severity={alerts.some((alert) => alert.severe) ? 'error' : 'warning'} variant="filled" sx={{ mb: dense ? 0 : 3 }}>
+      {!dense && <AlertTitle sx={{ fontWeight: 700 }}>Medical Alerts</AlertTitle>}
+      <Box display="flex" flexWrap="wrap" gap={1}>
+        {alerts.map((alert) => (
+          <Chip
+            key={alert.label}
+            label={alert.label}
+            size="small"
+            sx={{
+              bgcolor: 'rgba(255, 255, 255, 0.2)',
+              color: 'inherit',
+              fontWeight: alert.severe ? 700 : 400,
+            }}
+          />
+        ))}
+      </Box>
+    </Alert>
+  );
+};
+
+export default MedicalAlertBanner;
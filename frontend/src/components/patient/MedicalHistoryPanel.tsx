@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  TextField,
+  Typography,
+  Alert,
+  IconButton,
+  MenuItem,
+  Chip,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import { patientService } from '../../services/patient.service';
+import { ALLERGY_SEVERITY_LABELS, MEDICAL_CONDITION_LABELS, MEDICATION_CLASS_LABELS } from '../../utils/medicalAlerts';
+import { getErrorMessage } from '../../utils/errors';
+import type {
+  Allergy,
+  AllergySeverity,
+  MedicalCondition,
+  Medication,
+  MedicationClass,
+  Patient,
+  PatientCondition,
+} from '../../types';
+
+interface MedicalHistoryPanelProps {
+  patient: Patient;
+  canEdit: boolean;
+  onChange: (patient: Patient) => void;
+}
+
+const emptyAllergy: Allergy = { substance: '', reaction: '', severity: 'moderate' };
+const emptyMedication: Medication = { name: '', medicationClass: 'other', dose: '' };
+const emptyCondition: PatientCondition = { condition: 'diabetes', notes: '' };
+
+/**
+ * Allergies, current medications and medical conditions, edited one entry at a time
+ */
+const MedicalHistoryPanel: React.FC<MedicalHistoryPanelProps> = ({ patient, canEdit, onChange }) => {
+  const [newAllergy, setNewAllergy] = useState<Allergy>(emptyAllergy);
+  const [newMedication, setNewMedication] = useState<Medication>(emptyMedication);
+  const [newCondition, setNewCondition] = useState<PatientCondition>(emptyCondition);
+  const [error, setError] = useState('');
+
+  const allergies = patient.allergies || [];
+  const medications = patient.medications || [];
+  const conditions = patient.conditions || [];
+
+  const save = async (history: Pick<Patient, 'allergies' | 'medications' | 'conditions'>) => {
+    try {
+      const updated = await patientService.updateMedicalHistory(patient._id, history);
+      if (updated) onChange(updated);
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update medical history'));
+      return false;
+    }
+  };
+
+  const handleAddAllergy = async () => {
+    if (await save({ allergies: [...allergies, newAllergy] })) setNewAllergy(emptyAllergy);
+  };
+
+  const handleAddMedication = async () => {
+    if (await save({ medications: [...medications, newMedication] })) setNewMedication(emptyMedication);
+  };
+
+  const handleAddCondition = async () => {
+    if (await save({ conditions: [...conditions, newCondition] })) setNewCondition(emptyCondition);
+  };
+
+  return (
+    <Card sx={{ borderRadius: 3, boxShadow: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom fontWeight={700}>
+          Allergies, Medications & Conditions
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+
+        <Box display="flex" flexWrap="wrap" gap={4}>
+          {/* Allergies */}
+          <Box flex={1} minWidth={280}>
+            <Typography variant="subtitle2" fontWeight={600} mb={1}>
+              Allergies
+            </Typography>
+            {allergies.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No known allergies
+              </Typography>
+            )}
+            {allergies.map((allergy, index) => (
+              <Box key={allergy._id || index} display="flex" alignItems="center" gap={1}>
+                <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                  {allergy.substance}
+                  {allergy.reaction && ` – ${allergy.reaction}`}
+                </Typography>
+                <Chip
+                  label={ALLERGY_SEVERITY_LABELS[allergy.severity]}
+                  size="small"
+                  color={allergy.severity === 'severe' || allergy.severity === 'life_threatening' ? 'error' : 'warning'}
+                />
+                {canEdit && (
+                  <IconButton size="small" color="error" onClick={() => save({ allergies: allergies.filter((_, i) => i !== index) })}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            ))}
+            {canEdit && (
+              <Box display="flex" flexWrap="wrap" gap={1} mt={1} alignItems="center">
+                <TextField
+                  label="Substance"
+                  size="small"
+                  value={newAllergy.substance}
+                  onChange={(e) => setNewAllergy({ ...newAllergy, substance: e.target.value })}
+                  placeholder="e.g., Penicillin"
+                  sx={{ flex: 1, minWidth: 120 }}
+                />
+                <TextField
+                  label="Reaction"
+                  size="small"
+                  value={newAllergy.reaction}
+                  onChange={(e) => setNewAllergy({ ...newAllergy, reaction: e.target.value })}
+                  sx={{ flex: 1, minWidth: 100 }}
+                />
+                <TextField
+                  select
+                  label="Severity"
+                  size="small"
+                  value={newAllergy.severity}
+                  onChange={(e) => setNewAllergy({ ...newAllergy, severity: e.target.value as AllergySeverity })}
+                  sx={{ minWidth: 130 }}
+                >
+                  {(Object.keys(ALLERGY_SEVERITY_LABELS) as AllergySeverity[]).map((severity) => (
+                    <MenuItem key={severity} value={severity}>
+                      {ALLERGY_SEVERITY_LABELS[severity]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Button size="small" startIcon={<AddIcon />} onClick={handleAddAllergy} disabled={!newAllergy.substance.trim()}>
+                  Add
+                </Button>
+              </Box>
+            )}
+          </Box>
+
+          {/* Medications */}
+          <Box flex={1} minWidth={280}>
+            <Typography variant="subtitle2" fontWeight={600} mb={1}>
+              Current Medications
+            </Typography>
+            {medications.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                None recorded
+              </Typography>
+            )}
+            {medications.map((medication, index) => (
+              <Box key={medication._id || index} display="flex" alignItems="center" gap={1}>
+                <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                  {medication.name}
+                  {medication.dose && ` – ${medication.dose}`}
+                </Typography>
+                <Chip label={MEDICATION_CLASS_LABELS[medication.medicationClass]} size="small" />
+                {canEdit && (
+                  <IconButton
+                    size="small"
+                    color="error"
+                    onClick={() => save({ medications: medications.filter((_, i) => i !== index) })}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            ))}
+            {canEdit && (
+              <Box display="flex" flexWrap="wrap" gap={1} mt={1} alignItems="center">
+                <TextField
+                  label="Medication"
+                  size="small"
+                  value={newMedication.name}
+                  onChange={(e) => setNewMedication({ ...newMedication, name: e.target.value })}
+                  placeholder="e.g., Warfarin"
+                  sx={{ flex: 1, minWidth: 120 }}
+                />
+                <TextField
+                  label="Dose"
+                  size="small"
+                  value={newMedication.dose}
+                  onChange={(e) => setNewMedication({ ...newMedication, dose: e.target.value })}
+                  sx={{ width: 100 }}
+                />
+                <TextField
+                  select
+                  label="Class"
+                  size="small"
+                  value={newMedication.medicationClass}
+                  onChange={(e) => setNewMedication({ ...newMedication, medicationClass: e.target.value as MedicationClass })}
+                  sx={{ minWidth: 140 }}
+                >
+                  {(Object.keys(MEDICATION_CLASS_LABELS) as MedicationClass[]).map((medicationClass) => (
+                    <MenuItem key={medicationClass} value={medicationClass}>
+                      {MEDICATION_CLASS_LABELS[medicationClass]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Button size="small" startIcon={<AddIcon />} onClick={handleAddMedication} disabled={!newMedication.name.trim()}>
+                  Add
+                </Button>
+              </Box>
+            )}
+          </Box>
+
+          {/* Conditions */}
+          <Box flex={1} minWidth={280}>
+            <Typography variant="subtitle2" fontWeight={600} mb={1}>
+              Conditions
+            </Typography>
+            {conditions.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                None recorded
+              </Typography>
+            )}
+            {conditions.map((entry, index) => (
+              <Box key={entry._id || index} display="flex" alignItems="center" gap={1}>
+                <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                  {MEDICAL_CONDITION_LABELS[entry.condition]}
+                  {entry.notes && ` – ${entry.notes}`}
+                </Typography>
+                {canEdit && (
+                  <IconButton
+                    size="small"
+                    color="error"
+                    onClick={() => save({ conditions: conditions.filter((_, i) => i !== index) })}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            ))}
+            {canEdit && (
+              <Box display="flex" flexWrap="wrap" gap={1} mt={1} alignItems="center">
+                <TextField
+                  select
+                  label="Condition"
+                  size="small"
+                  value={newCondition.condition}
+                  onChange={(e) => setNewCondition({ ...newCondition, condition: e.target.value as MedicalCondition })}
+                  sx={{ minWidth: 160 }}
+                >
+                  {(Object.keys(MEDICAL_CONDITION_LABELS) as MedicalCondition[]).map((condition) => (
+                    <MenuItem key={condition} value={condition}>
+                      {MEDICAL_CONDITION_LABELS[condition]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  label="Notes"
+                  size="small"
+                  value={newCondition.notes}
+                  onChange={(e) => setNewCondition({ ...newCondition, notes: e.target.value })}
+                  sx={{ flex: 1, minWidth: 100 }}
+                />
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={handleAddCondition}
+                  disabled={newCondition.condition === 'other' && !newCondition.notes?.trim()}
+                >
+                  Add
+                </Button>
+              </Box>
+            )}
+          </Box>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MedicalHistoryPanel;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { patientService } from '../../services/patient.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { Patient } from '../../types';
+
+interface PortalAccountDialogProps {
+  patient: Patient;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lets the front desk give a patient a login for the self-service portal
+ */
+const PortalAccountDialog: React.FC<PortalAccountDialogProps> = ({ patient, open, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [created, setCreated] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setEmail(patient.email || '');
+      setPassword('');
+      setError('');
+      setCreated(false);
+    }
+  }, [open, patient]);
+
+  const handleCreate = async () => {
+    try {
+      setError('');
+      await patientService.createPortalAccount(patient._id, { email, password });
+      setCreated(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create portal account'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Patient Portal Access</DialogTitle>
+      <DialogContent>
+        {created ? (
+          <Alert severity="success">
+            {patient.name} can now sign in at the login page with {email}.
+          </Alert>
+        ) : (
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <Typography variant="body2" color="text.secondary">
+              Patients can view their appointments and invoices and book or cancel online.
+            </Typography>
+            {error && <Alert severity="error">{error}</Alert>}
+            <TextField label="Email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            <TextField
+              label="Temporary password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              helperText="At least 8 characters"
+            />
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        {!created && (
+          <Button variant="contained" onClick={handleCreate} disabled={!email || password.length < 8}>
+            Create Account
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PortalAccountDialog;
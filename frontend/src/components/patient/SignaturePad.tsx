@@ -0,0 +1,104 @@
+import React, { useEffect, useRef } from 'react';
+import { Box, Button, Typography } from '@mui/material';
+
+interface SignaturePadProps {
+  onChange: (signature: string | null) => void;
+}
+
+const WIDTH = 500;
+const HEIGHT = 180;
+
+/**
+ * Canvas the patient draws their signature on with a finger, stylus or mouse
+ * Reports the drawing as a PNG data URL, or null once cleared
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#000';
+  }, []);
+
+  // The canvas is scaled to fit its box, so pointer positions are scaled back to canvas pixels
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * WIDTH) / rect.width,
+      y: ((event.clientY - rect.top) * HEIGHT) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, WIDTH, HEIGHT);
+    onChange(null);
+  };
+
+  return (
+    <Box>
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        sx={{
+          width: '100%',
+          maxWidth: WIDTH,
+          aspectRatio: `${WIDTH} / ${HEIGHT}`,
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 2,
+          bgcolor: 'common.white',
+          cursor: 'crosshair',
+          touchAction: 'none',
+          display: 'block',
+        }}
+      />
+      <Box display="flex" justifyContent="space-between" alignItems="center" maxWidth={WIDTH} mt={0.5}>
+        <Typography variant="caption" color="text.secondary">
+          Sign above
+        </Typography>
+        <Button size="small" onClick={handleClear}>
+          Clear
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,397 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Paper,
+  TextField,
+  Typography,
+  Alert,
+  Chip,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  useTheme,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { vitalsService } from '../../services/vitals.service';
+import { useAuth } from '../../context/AuthContext';
+import { VITAL_FIELDS, VITAL_TRENDS, BLOOD_SUGAR_CONTEXT_LABELS, formatBloodPressure } from '../../utils/vitals';
+import { getErrorMessage } from '../../utils/errors';
+import type { BloodSugarContext, VitalField, VitalsRecord } from '../../types';
+
+interface VitalsPanelProps {
+  patientId: string;
+  onChange?: () => void;
+}
+
+type VitalsForm = Record<VitalField, string> & {
+  recordedAt: string;
+  bloodSugarContext: BloodSugarContext;
+  notes: string;
+};
+
+// What recharts passes to a custom dot, with the chart point it is drawn for
+interface TrendDotProps {
+  cx?: number;
+  cy?: number;
+  index?: number;
+  payload: { flagged: VitalField[] };
+}
+
+// datetime-local wants local time without a timezone
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const emptyForm = (): VitalsForm => ({
+  ...(Object.fromEntries(VITAL_FIELDS.map(({ field }) => [field, ''])) as Record<VitalField, string>),
+  recordedAt: toLocalInput(new Date()),
+  bloodSugarContext: 'random',
+  notes: '',
+});
+
+const refId = (ref?: { _id: string } | string) => (typeof ref === 'object' ? ref._id : ref || '');
+
+const userName = (ref?: { name: string } | string) => (typeof ref === 'object' ? ref.name : 'Imported');
+
+/**
+ * Vitals taken at each visit, with trend charts and readings outside the normal range flagged
+ */
+const VitalsPanel: React.FC<VitalsPanelProps> = ({ patientId, onChange }) => {
+  const theme = useTheme();
+  const { user } = useAuth();
+  const userId = user?._id || user?.id;
+
+  const [records, setRecords] = useState<VitalsRecord[]>([]);
+  const [error, setError] = useState('');
+  const [trend, setTrend] = useState(VITAL_TRENDS[0].key);
+
+  const [editing, setEditing] = useState<VitalsRecord | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<VitalsForm>(emptyForm());
+
+  const fetchVitals = useCallback(async () => {
+    try {
+      setRecords(await vitalsService.getVitals(patientId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load vitals'));
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchVitals();
+  }, [fetchVitals]);
+
+  const canChange = (record: VitalsRecord) =>
+    user?.role === 'admin' || (!!userId && refId(record.recordedBy) === userId);
+
+  const openForm = (record?: VitalsRecord) => {
+    setEditing(record || null);
+    setForm(
+      record
+        ? {
+            ...(Object.fromEntries(
+              VITAL_FIELDS.map(({ field }) => [field, record[field] !== undefined ? String(record[field]) : ''])
+            ) as Record<VitalField, string>),
+            recordedAt: toLocalInput(new Date(record.recordedAt)),
+            bloodSugarContext: record.bloodSugarContext,
+            notes: record.notes || '',
+          }
+        : emptyForm()
+    );
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      // Blank fields are cleared on an edit and left out of a new record
+      const measurements = Object.fromEntries(
+        VITAL_FIELDS.map(({ field }) => [field, form[field] === '' ? null : parseFloat(form[field])]).filter(
+          ([, value]) => editing || value !== null
+        )
+      );
+      const vitalsData = {
+        ...measurements,
+        recordedAt: new Date(form.recordedAt).toISOString(),
+        bloodSugarContext: form.bloodSugarContext,
+        notes: form.notes,
+      };
+      if (editing) {
+        await vitalsService.updateVitals(patientId, editing._id, vitalsData);
+      } else {
+        await vitalsService.createVitals(patientId, vitalsData);
+      }
+      setFormOpen(false);
+      fetchVitals();
+      onChange?.();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save vitals'));
+    }
+  };
+
+  const handleDelete = async (record: VitalsRecord) => {
+    if (!window.confirm('Delete this vitals record?')) return;
+    try {
+      await vitalsService.deleteVitals(patientId, record._id);
+      fetchVitals();
+      onChange?.();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete vitals'));
+    }
+  };
+
+  const latest = records[0];
+  const selectedTrend = VITAL_TRENDS.find((entry) => entry.key === trend) || VITAL_TRENDS[0];
+  const lineColors = [theme.palette.primary.main, theme.palette.secondary.main];
+
+  // Oldest first for the chart, only visits where this vital was taken;
+  // out-of-range readings are drawn as larger red dots
+  const chartData = [...records]
+    .reverse()
+    .filter((record) => selectedTrend.fields.some((field) => record[field] !== undefined))
+    .map((record) => ({
+      date: new Date(record.recordedAt).toLocaleDateString(),
+      ...Object.fromEntries(selectedTrend.fields.map((field) => [field, record[field]])),
+      flagged: record.flags.filter((flag) => selectedTrend.fields.includes(flag.field)).map((flag) => flag.field),
+    }));
+
+  const isFlagged = (record: VitalsRecord, ...fields: VitalField[]) =>
+    record.flags.find((flag) => fields.includes(flag.field));
+
+  const cell = (record: VitalsRecord, value: string, ...fields: VitalField[]) => {
+    const flag = isFlagged(record, ...fields);
+    return (
+      <TableCell
+        title={flag?.message}
+        sx={flag ? { color: flag.critical ? 'error.main' : 'warning.dark', fontWeight: 600 } : undefined}
+      >
+        {value || '-'}
+      </TableCell>
+    );
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h6" fontWeight={600}>
+          Vitals
+        </Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openForm()}>
+          Record Vitals
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {records.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No vitals recorded yet.
+        </Typography>
+      ) : (
+        <>
+          {latest.flags.length > 0 && (
+            <Box mb={2}>
+              <Typography variant="subtitle2" fontWeight={600} mb={1}>
+                Latest reading ({new Date(latest.recordedAt).toLocaleString()})
+              </Typography>
+              {latest.flags.map((flag) => (
+                <Alert key={flag.field} severity={flag.critical ? 'error' : 'warning'} sx={{ mb: 1 }}>
+                  {flag.message}
+                </Alert>
+              ))}
+            </Box>
+          )}
+
+          <ToggleButtonGroup
+            value={trend}
+            exclusive
+            onChange={(_, value) => value && setTrend(value)}
+            size="small"
+            sx={{ mb: 2, flexWrap: 'wrap' }}
+          >
+            {VITAL_TRENDS.map((entry) => (
+              <ToggleButton key={entry.key} value={entry.key}>
+                {entry.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          {chartData.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              No {selectedTrend.label.toLowerCase()} readings yet.
+            </Typography>
+          ) : (
+            <Box height={260} mb={3}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis unit={` ${selectedTrend.unit}`} width={90} domain={['auto', 'auto']} />
+                  <Tooltip />
+                  <Legend />
+                  {selectedTrend.fields.map((field, index) => (
+                    <Line
+                      key={field}
+                      type="monotone"
+                      dataKey={field}
+                      name={VITAL_FIELDS.find((entry) => entry.field === field)?.label}
+                      stroke={lineColors[index % lineColors.length]}
+                      strokeWidth={2.5}
+                      connectNulls
+                      dot={(props: TrendDotProps) => {
+                        const flagged = props.payload.flagged.includes(field);
+                        return (
+                          <circle
+                            key={`${field}-${props.index}`}
+                            cx={props.cx}
+                            cy={props.cy}
+                            r={flagged ? 6 : 4}
+                            fill={flagged ? theme.palette.error.main : lineColors[index % lineColors.length]}
+                          />
+                        );
+                      }}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </Box>
+          )}
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>BP (mmHg)</TableCell>
+                  <TableCell>Pulse</TableCell>
+                  <TableCell>SpO2</TableCell>
+                  <TableCell>Temp (°C)</TableCell>
+                  <TableCell>Weight (kg)</TableCell>
+                  <TableCell>Height (cm)</TableCell>
+                  <TableCell>Sugar (mg/dL)</TableCell>
+                  <TableCell>Recorded By</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {records.map((record) => (
+                  <TableRow key={record._id}>
+                    <TableCell>{new Date(record.recordedAt).toLocaleString()}</TableCell>
+                    {cell(record, formatBloodPressure(record), 'systolic', 'diastolic')}
+                    {cell(record, record.pulse ? String(record.pulse) : '', 'pulse')}
+                    {cell(record, record.spo2 ? `${record.spo2}%` : '', 'spo2')}
+                    {cell(record, record.temperature ? String(record.temperature) : '', 'temperature')}
+                    {cell(record, record.weight ? String(record.weight) : '', 'weight')}
+                    {cell(record, record.height ? String(record.height) : '', 'height')}
+                    {cell(
+                      record,
+                      record.bloodSugar
+                        ? `${record.bloodSugar} (${BLOOD_SUGAR_CONTEXT_LABELS[record.bloodSugarContext]})`
+                        : '',
+                      'bloodSugar'
+                    )}
+                    <TableCell>
+                      {userName(record.recordedBy)}
+                      {record.flags.some((flag) => flag.critical) && (
+                        <Chip label="Critical" size="small" color="error" sx={{ ml: 1 }} />
+                      )}
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {canChange(record) && (
+                        <>
+                          <IconButton size="small" onClick={() => openForm(record)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                          <IconButton size="small" color="error" onClick={() => handleDelete(record)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{editing ? 'Edit Vitals' : 'Record Vitals'}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              label="Taken At"
+              type="datetime-local"
+              value={form.recordedAt}
+              onChange={(e) => setForm({ ...form, recordedAt: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Box display="flex" flexWrap="wrap" gap={2}>
+              {VITAL_FIELDS.map(({ field, label, unit, step }) => (
+                <TextField
+                  key={field}
+                  label={`${label} (${unit})`}
+                  type="number"
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                  inputProps={{ min: 0, step }}
+                  sx={{ flex: '1 1 160px' }}
+                />
+              ))}
+            </Box>
+            <TextField
+              select
+              label="Blood Sugar Taken"
+              value={form.bloodSugarContext}
+              onChange={(e) => setForm({ ...form, bloodSugarContext: e.target.value as BloodSugarContext })}
+              disabled={!form.bloodSugar}
+            >
+              {(Object.keys(BLOOD_SUGAR_CONTEXT_LABELS) as BloodSugarContext[]).map((context) => (
+                <MenuItem key={context} value={context}>
+                  {BLOOD_SUGAR_CONTEXT_LABELS[context]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Notes"
+              multiline
+              rows={2}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFormOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={VITAL_FIELDS.every(({ field }) => form[field] === '')}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default VitalsPanel;
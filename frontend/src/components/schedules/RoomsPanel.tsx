@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  MenuItem,
+  IconButton,
+  Switch,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import { roomService } from '../../services/room.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { Room } from '../../types';
+
+const RoomsPanel: React.FC = () => {
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [newRoom, setNewRoom] = useState<{ name: string; kind: Room['kind'] }>({ name: '', kind: 'room' });
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchRooms();
+  }, []);
+
+  const fetchRooms = async () => {
+    try {
+      setRooms(await roomService.getRooms({ includeInactive: true }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load rooms'));
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await roomService.createRoom(newRoom);
+      setNewRoom({ name: '', kind: newRoom.kind });
+      fetchRooms();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add room'));
+    }
+  };
+
+  const handleToggleActive = async (room: Room) => {
+    try {
+      await roomService.updateRoom(room._id, { isActive: !room.isActive });
+      fetchRooms();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update room'));
+    }
+  };
+
+  const handleDelete = async (room: Room) => {
+    try {
+      await roomService.deleteRoom(room._id);
+      fetchRooms();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete room'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      <Typography variant="h6" fontWeight={600} mb={1}>
+        Rooms & Equipment
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {rooms.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No rooms or equipment added yet.
+        </Typography>
+      )}
+      {rooms.map((room) => (
+        <Box key={room._id} display="flex" alignItems="center" gap={1}>
+          <Typography variant="body2" sx={{ flexGrow: 1, opacity: room.isActive ? 1 : 0.5 }}>
+            {room.name}
+          </Typography>
+          <Chip label={room.kind} size="small" variant="outlined" />
+          <Tooltip title={room.isActive ? 'In service' : 'Out of service'}>
+            <Switch size="small" checked={room.isActive} onChange={() => handleToggleActive(room)} />
+          </Tooltip>
+          <IconButton size="small" color="error" onClick={() => handleDelete(room)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box display="flex" gap={1} mt={2} alignItems="center">
+        <TextField
+          label="Name"
+          size="small"
+          value={newRoom.name}
+          onChange={(e) => setNewRoom({ ...newRoom, name: e.target.value })}
+          placeholder="e.g., Operatory 1, OPG"
+          sx={{ flexGrow: 1 }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Kind"
+          value={newRoom.kind}
+          onChange={(e) => setNewRoom({ ...newRoom, kind: e.target.value as Room['kind'] })}
+          sx={{ minWidth: 120 }}
+        >
+          <MenuItem value="room">Room</MenuItem>
+          <MenuItem value="equipment">Equipment</MenuItem>
+        </TextField>
+        <Button startIcon={<AddIcon />} onClick={handleAdd} disabled={!newRoom.name}>
+          Add
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default RoomsPanel;
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Switch,
+  Tooltip,
+  Chip,
+  Autocomplete,
+  FormControlLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon, Add as AddIcon } from '@mui/icons-material';
+import { consentService } from '../../services/consent.service';
+import { procedureService } from '../../services/procedure.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { ConsentTemplate, Procedure } from '../../types';
+
+interface TemplateForm {
+  name: string;
+  procedureIds: string[];
+  body: string;
+  isMandatory: boolean;
+}
+
+const emptyForm = (): TemplateForm => ({ name: '', procedureIds: [], body: '', isMandatory: false });
+
+/**
+ * Consent forms patients sign before treatment, optionally tied to catalog procedures
+ */
+const ConsentTemplatesPanel: React.FC = () => {
+  const [templates, setTemplates] = useState<ConsentTemplate[]>([]);
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [editing, setEditing] = useState<ConsentTemplate | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(emptyForm());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      setTemplates(await consentService.getTemplates({ includeInactive: true }));
+      setProcedures(await procedureService.getProcedures());
+      setVariables(await consentService.getVariables());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load consent templates'));
+    }
+  };
+
+  const openDialog = (template?: ConsentTemplate) => {
+    setEditing(template || null);
+    setForm(
+      template
+        ? {
+            name: template.name,
+            procedureIds: template.procedureIds.map((procedure) => procedure._id),
+            body: template.body,
+            isMandatory: template.isMandatory,
+          }
+        : emptyForm()
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editing) {
+        await consentService.updateTemplate(editing._id, form);
+      } else {
+        await consentService.createTemplate(form);
+      }
+      setDialogOpen(false);
+      fetchTemplates();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save consent template'));
+    }
+  };
+
+  const handleToggleActive = async (template: ConsentTemplate) => {
+    try {
+      await consentService.updateTemplate(template._id, { isActive: !template.isActive });
+      fetchTemplates();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update consent template'));
+    }
+  };
+
+  const handleDelete = async (template: ConsentTemplate) => {
+    try {
+      await consentService.deleteTemplate(template._id);
+      fetchTemplates();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete consent template'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h6" fontWeight={600}>
+          Consent Forms
+        </Typography>
+        <Button startIcon={<AddIcon />} onClick={() => openDialog()}>
+          Add Form
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {templates.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No consent forms yet.
+        </Typography>
+      )}
+      {templates.map((template) => (
+        <Box key={template._id} display="flex" alignItems="center" gap={1}>
+          <Box sx={{ flexGrow: 1, opacity: template.isActive ? 1 : 0.5 }}>
+            <Typography variant="body2">
+              {template.name}
+              {template.isMandatory && <Chip label="Required" size="small" color="warning" sx={{ ml: 1 }} />}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[
+                template.procedureIds.length > 0
+                  ? template.procedureIds.map((procedure) => procedure.name).join(', ')
+                  : 'Any treatment',
+                `version ${template.version}`,
+              ].join(' · ')}
+            </Typography>
+          </Box>
+          <IconButton size="small" onClick={() => openDialog(template)}>
+            <EditIcon fontSize="small" />
+          </IconButton>
+          <Tooltip title={template.isActive ? 'Active' : 'Inactive'}>
+            <Switch size="small" checked={template.isActive} onChange={() => handleToggleActive(template)} />
+          </Tooltip>
+          <IconButton size="small" color="error" onClick={() => handleDelete(template)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{editing ? 'Edit Consent Form' : 'Add Consent Form'}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              label="Name *"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g., Consent for Tooth Extraction"
+            />
+            <Autocomplete
+              multiple
+              options={procedures}
+              getOptionLabel={(procedure) => `${procedure.code} – ${procedure.name}`}
+              value={procedures.filter((procedure) => form.procedureIds.includes(procedure._id))}
+              onChange={(_, value) => setForm({ ...form, procedureIds: value.map((procedure) => procedure._id) })}
+              renderInput={(params) => (
+                <TextField {...params} label="Procedures" helperText="Leave empty for a form that can be used for any treatment" />
+              )}
+            />
+            <TextField
+              label="Consent Text *"
+              multiline
+              rows={10}
+              value={form.body}
+              onChange={(e) => setForm({ ...form, body: e.target.value })}
+              helperText={`Variables: ${variables.map((name) => `{{${name}}}`).join(' ')}`}
+            />
+            {editing && form.body !== editing.body && (
+              <Alert severity="info">
+                Saving changed text starts version {editing.version + 1}. Consents already signed keep the text they were shown.
+              </Alert>
+            )}
+            <FormControlLabel
+              control={
+                <Switch checked={form.isMandatory} onChange={(e) => setForm({ ...form, isMandatory: e.target.checked })} />
+              }
+              label="Required before treatments for these procedures can be completed"
+              disabled={form.procedureIds.length === 0}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!form.name.trim() || !form.body.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ConsentTemplatesPanel;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  MenuItem,
+  Switch,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon, Add as AddIcon } from '@mui/icons-material';
+import { drugService } from '../../services/drug.service';
+import { DRUG_FORM_LABELS } from '../../utils/prescriptions';
+import { getErrorMessage } from '../../utils/errors';
+import type { Drug, DrugForm, DrugInput } from '../../types';
+
+const emptyForm = (): DrugInput => ({
+  name: '',
+  genericName: '',
+  drugClass: '',
+  strength: '',
+  form: 'tablet',
+  defaultDosage: '',
+  defaultFrequency: '',
+  defaultDuration: '',
+  defaultInstructions: '',
+});
+
+/**
+ * Drugs the clinic prescribes, with the directions the prescription writer starts from
+ */
+const DrugListPanel: React.FC = () => {
+  const [drugs, setDrugs] = useState<Drug[]>([]);
+  const [editing, setEditing] = useState<Drug | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<DrugInput>(emptyForm());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchDrugs();
+  }, []);
+
+  const fetchDrugs = async () => {
+    try {
+      setDrugs(await drugService.getDrugs({ includeInactive: true }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load drugs'));
+    }
+  };
+
+  const openDialog = (drug?: Drug) => {
+    setEditing(drug || null);
+    setForm(
+      drug
+        ? {
+            name: drug.name,
+            genericName: drug.genericName || '',
+            drugClass: drug.drugClass || '',
+            strength: drug.strength || '',
+            form: drug.form,
+            defaultDosage: drug.defaultDosage || '',
+            defaultFrequency: drug.defaultFrequency || '',
+            defaultDuration: drug.defaultDuration || '',
+            defaultInstructions: drug.defaultInstructions || '',
+          }
+        : emptyForm()
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editing) {
+        await drugService.updateDrug(editing._id, form);
+      } else {
+        await drugService.createDrug(form);
+      }
+      setDialogOpen(false);
+      fetchDrugs();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save drug'));
+    }
+  };
+
+  const handleToggleActive = async (drug: Drug) => {
+    try {
+      await drugService.updateDrug(drug._id, { isActive: !drug.isActive });
+      fetchDrugs();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update drug'));
+    }
+  };
+
+  const handleDelete = async (drug: Drug) => {
+    try {
+      await drugService.deleteDrug(drug._id);
+      fetchDrugs();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete drug'));
+    }
+  };
+
+  const field = (key: keyof DrugInput, label: string, placeholder?: string) => (
+    <TextField
+      label={label}
+      value={form[key] ?? ''}
+      onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+      placeholder={placeholder}
+      sx={{ flex: '1 1 200px' }}
+    />
+  );
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h6" fontWeight={600}>
+          Drug List
+        </Typography>
+        <Button startIcon={<AddIcon />} onClick={() => openDialog()}>
+          Add Drug
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {drugs.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No drugs yet. Run npm run seed-drugs in the backend for a starter list.
+        </Typography>
+      )}
+      {drugs.map((drug) => (
+        <Box key={drug._id} display="flex" alignItems="center" gap={1}>
+          <Box sx={{ flexGrow: 1, opacity: drug.isActive ? 1 : 0.5 }}>
+            <Typography variant="body2">
+              {[drug.name, drug.strength].filter(Boolean).join(' ')} · {DRUG_FORM_LABELS[drug.form]}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[drug.drugClass, drug.defaultDosage, drug.defaultFrequency, drug.defaultDuration].filter(Boolean).join(' · ')}
+            </Typography>
+          </Box>
+          <IconButton size="small" onClick={() => openDialog(drug)}>
+            <EditIcon fontSize="small" />
+          </IconButton>
+          <Tooltip title={drug.isActive ? 'Active' : 'Inactive'}>
+            <Switch size="small" checked={drug.isActive} onChange={() => handleToggleActive(drug)} />
+          </Tooltip>
+          <IconButton size="small" color="error" onClick={() => handleDelete(drug)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{editing ? 'Edit Drug' : 'Add Drug'}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexWrap="wrap" gap={2}>
+            {field('name', 'Name *', 'e.g., Amoxicillin')}
+            {field('genericName', 'Generic Name')}
+            <TextField
+              label="Drug Class"
+              value={form.drugClass ?? ''}
+              onChange={(e) => setForm({ ...form, drugClass: e.target.value })}
+              placeholder="e.g., Penicillin, NSAID"
+              helperText="Checked against the patient's allergies"
+              sx={{ flex: '1 1 200px' }}
+            />
+            {field('strength', 'Strength', 'e.g., 500 mg')}
+            <TextField
+              select
+              label="Form"
+              value={form.form}
+              onChange={(e) => setForm({ ...form, form: e.target.value as DrugForm })}
+              sx={{ flex: '1 1 200px' }}
+            >
+              {(Object.keys(DRUG_FORM_LABELS) as DrugForm[]).map((drugForm) => (
+                <MenuItem key={drugForm} value={drugForm}>
+                  {DRUG_FORM_LABELS[drugForm]}
+                </MenuItem>
+              ))}
+            </TextField>
+            {field('defaultDosage', 'Usual Dosage', 'e.g., 1 capsule')}
+            {field('defaultFrequency', 'Usual Frequency', 'e.g., Three times a day')}
+            {field('defaultDuration', 'Usual Duration', 'e.g., 5 days')}
+            {field('defaultInstructions', 'Instructions', 'e.g., After food')}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!form.name?.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default DrugListPanel;
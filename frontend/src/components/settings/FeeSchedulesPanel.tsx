@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Switch,
+  Tooltip,
+  MenuItem,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon, Edit as EditIcon } from '@mui/icons-material';
+import { procedureService } from '../../services/procedure.service';
+import { insuranceService } from '../../services/insurance.service';
+import { FEE_SCHEDULE_TYPE_LABELS } from '../../utils/procedures';
+import { getErrorMessage } from '../../utils/errors';
+import type { FeeSchedule, FeeScheduleType, InsuranceProvider, Procedure } from '../../types';
+
+const emptySchedule = { name: '', type: 'standard' as FeeScheduleType, providerId: '', discountPercent: '0' };
+
+/**
+ * Fee schedules with their discount and any per-procedure fees
+ */
+const FeeSchedulesPanel: React.FC = () => {
+  const [schedules, setSchedules] = useState<FeeSchedule[]>([]);
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [providers, setProviders] = useState<InsuranceProvider[]>([]);
+  const [newSchedule, setNewSchedule] = useState(emptySchedule);
+  const [editing, setEditing] = useState<FeeSchedule | null>(null);
+  const [fees, setFees] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setSchedules(await procedureService.getFeeSchedules({ includeInactive: true }));
+      setProcedures(await procedureService.getProcedures());
+      setProviders(await insuranceService.getProviders());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load fee schedules'));
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await procedureService.createFeeSchedule({
+        name: newSchedule.name,
+        type: newSchedule.type,
+        providerId: newSchedule.type === 'insurance' && newSchedule.providerId ? newSchedule.providerId : undefined,
+        discountPercent: parseFloat(newSchedule.discountPercent) || 0,
+      });
+      setNewSchedule(emptySchedule);
+      fetchData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add fee schedule'));
+    }
+  };
+
+  const handleUpdate = async (schedule: FeeSchedule, changes: Partial<FeeSchedule>) => {
+    try {
+      await procedureService.updateFeeSchedule(schedule._id, changes);
+      fetchData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update fee schedule'));
+    }
+  };
+
+  const handleDelete = async (schedule: FeeSchedule) => {
+    try {
+      await procedureService.deleteFeeSchedule(schedule._id);
+      fetchData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete fee schedule'));
+    }
+  };
+
+  const openFees = (schedule: FeeSchedule) => {
+    setEditing(schedule);
+    setFees(Object.fromEntries(schedule.fees.map((entry) => [entry.procedureId, String(entry.fee)])));
+  };
+
+  const handleSaveFees = async () => {
+    if (!editing) return;
+    await handleUpdate(editing, {
+      fees: Object.entries(fees)
+        .filter(([, fee]) => fee !== '')
+        .map(([procedureId, fee]) => ({ procedureId, fee: parseFloat(fee) })),
+    });
+    setEditing(null);
+  };
+
+  // What a procedure costs on the schedule being edited when it has no fee of its own
+  const discountedFee = (procedure: Procedure) =>
+    Math.round(procedure.defaultFee * (1 - (editing?.discountPercent || 0) / 100) * 100) / 100;
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 3 }}>
+      <Typography variant="h6" fontWeight={600} mb={1}>
+        Fee Schedules
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {schedules.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No fee schedules yet. Treatments are priced at each procedure's default fee.
+        </Typography>
+      )}
+      {schedules.map((schedule) => (
+        <Box key={schedule._id} display="flex" alignItems="center" gap={1}>
+          <Box sx={{ flexGrow: 1, opacity: schedule.isActive ? 1 : 0.5 }}>
+            <Typography variant="body2">
+              {schedule.name}
+              {schedule.isDefault && <Chip label="Default" size="small" color="primary" sx={{ ml: 1 }} />}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[
+                FEE_SCHEDULE_TYPE_LABELS[schedule.type],
+                typeof schedule.providerId === 'object' && schedule.providerId.name,
+                schedule.discountPercent > 0 && `${schedule.discountPercent}% off default fees`,
+                `${schedule.fees.length} set fee(s)`,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </Typography>
+          </Box>
+          {!schedule.isDefault && schedule.isActive && (
+            <Button size="small" onClick={() => handleUpdate(schedule, { isDefault: true })}>
+              Make Default
+            </Button>
+          )}
+          <Tooltip title="Set fees">
+            <IconButton size="small" onClick={() => openFees(schedule)}>
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={schedule.isActive ? 'Active' : 'Inactive'}>
+            <Switch
+              size="small"
+              checked={schedule.isActive}
+              onChange={() => handleUpdate(schedule, { isActive: !schedule.isActive })}
+            />
+          </Tooltip>
+          <IconButton size="small" color="error" onClick={() => handleDelete(schedule)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box display="flex" flexWrap="wrap" gap={1} mt={2} alignItems="center">
+        <TextField
+          label="Name"
+          size="small"
+          value={newSchedule.name}
+          onChange={(e) => setNewSchedule({ ...newSchedule, name: e.target.value })}
+          sx={{ flexGrow: 1 }}
+        />
+        <TextField
+          select
+          label="Type"
+          size="small"
+          value={newSchedule.type}
+          onChange={(e) => setNewSchedule({ ...newSchedule, type: e.target.value as FeeScheduleType })}
+          sx={{ minWidth: 150 }}
+        >
+          {(Object.keys(FEE_SCHEDULE_TYPE_LABELS) as FeeScheduleType[]).map((type) => (
+            <MenuItem key={type} value={type}>
+              {FEE_SCHEDULE_TYPE_LABELS[type]}
+            </MenuItem>
+          ))}
+        </TextField>
+        {newSchedule.type === 'insurance' && (
+          <TextField
+            select
+            label="Insurer"
+            size="small"
+            value={newSchedule.providerId}
+            onChange={(e) => setNewSchedule({ ...newSchedule, providerId: e.target.value })}
+            sx={{ minWidth: 150 }}
+          >
+            <MenuItem value="">Any</MenuItem>
+            {providers.map((provider) => (
+              <MenuItem key={provider._id} value={provider._id}>
+                {provider.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+        <TextField
+          label="Discount %"
+          size="small"
+          type="number"
+          value={newSchedule.discountPercent}
+          onChange={(e) => setNewSchedule({ ...newSchedule, discountPercent: e.target.value })}
+          inputProps={{ min: 0, max: 100 }}
+          sx={{ width: 110 }}
+        />
+        <Button startIcon={<AddIcon />} onClick={handleAdd} disabled={!newSchedule.name}>
+          Add
+        </Button>
+      </Box>
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Fees – {editing?.name}</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" color="text.secondary" mb={1}>
+            Leave a fee blank to charge the default fee
+            {editing?.discountPercent ? ` less ${editing.discountPercent}%` : ''}.
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Procedure</TableCell>
+                <TableCell align="right">Default</TableCell>
+                <TableCell sx={{ width: 150 }}>Fee</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {procedures.map((procedure) => (
+                <TableRow key={procedure._id}>
+                  <TableCell>
+                    {procedure.code} – {procedure.name}
+                  </TableCell>
+                  <TableCell align="right">₹{procedure.defaultFee.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={fees[procedure._id] ?? ''}
+                      placeholder={discountedFee(procedure).toFixed(2)}
+                      onChange={(e) => setFees({ ...fees, [procedure._id]: e.target.value })}
+                      inputProps={{ min: 0 }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveFees}>
+            Save Fees
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default FeeSchedulesPanel;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Switch,
+  Tooltip,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import { insuranceService } from '../../services/insurance.service';
+import { getErrorMessage } from '../../utils/errors';
+import type { InsuranceProvider } from '../../types';
+
+const emptyProvider = { name: '', payerId: '', phone: '', email: '', claimsAddress: '' };
+
+const InsuranceProvidersPanel: React.FC = () => {
+  const [providers, setProviders] = useState<InsuranceProvider[]>([]);
+  const [newProvider, setNewProvider] = useState(emptyProvider);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchProviders();
+  }, []);
+
+  const fetchProviders = async () => {
+    try {
+      setProviders(await insuranceService.getProviders({ includeInactive: true }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load insurance providers'));
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await insuranceService.createProvider(newProvider);
+      setNewProvider(emptyProvider);
+      fetchProviders();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add insurance provider'));
+    }
+  };
+
+  const handleToggleActive = async (provider: InsuranceProvider) => {
+    try {
+      await insuranceService.updateProvider(provider._id, { isActive: !provider.isActive });
+      fetchProviders();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update insurance provider'));
+    }
+  };
+
+  const handleDelete = async (provider: InsuranceProvider) => {
+    try {
+      await insuranceService.deleteProvider(provider._id);
+      fetchProviders();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete insurance provider'));
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 3 }}>
+      <Typography variant="h6" fontWeight={600} mb={1}>
+        Insurance Providers
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {providers.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No insurance providers added yet.
+        </Typography>
+      )}
+      {providers.map((provider) => (
+        <Box key={provider._id} display="flex" alignItems="center" gap={1}>
+          <Box sx={{ flexGrow: 1, opacity: provider.isActive ? 1 : 0.5 }}>
+            <Typography variant="body2">{provider.name}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[provider.payerId && `Payer ID ${provider.payerId}`, provider.phone, provider.email]
+                .filter(Boolean)
+                .join(' · ')}
+            </Typography>
+          </Box>
+          <Tooltip title={provider.isActive ? 'Accepting claims' : 'Inactive'}>
+            <Switch size="small" checked={provider.isActive} onChange={() => handleToggleActive(provider)} />
+          </Tooltip>
+          <IconButton size="small" color="error" onClick={() => handleDelete(provider)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box display="flex" flexWrap="wrap" gap={1} mt={2} alignItems="center">
+        <TextField
+          label="Name"
+          size="small"
+          value={newProvider.name}
+          onChange={(e) => setNewProvider({ ...newProvider, name: e.target.value })}
+          sx={{ flexGrow: 1 }}
+        />
+        <TextField
+          label="Payer ID"
+          size="small"
+          value={newProvider.payerId}
+          onChange={(e) => setNewProvider({ ...newProvider, payerId: e.target.value })}
+        />
+        <TextField
+          label="Phone"
+          size="small"
+          value={newProvider.phone}
+          onChange={(e) => setNewProvider({ ...newProvider, phone: e.target.value })}
+        />
+        <TextField
+          label="Email"
+          size="small"
+          value={newProvider.email}
+          onChange={(e) => setNewProvider({ ...newProvider, email: e.target.value })}
+        />
+        <TextField
+          label="Claims Address"
+          size="small"
+          fullWidth
+          value={newProvider.claimsAddress}
+          onChange={(e) => setNewProvider({ ...newProvider, claimsAddress: e.target.value })}
+        />
+        <Button startIcon={<AddIcon />} onClick={handleAdd} disabled={!newProvider.name}>
+          Add
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default InsuranceProvidersPanel;
@@ -0,0 +1,324 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  MenuItem,
+  Chip,
+  Tooltip,
+  Tabs,
+  Tab,
+} from '@mui/material';
+import { notificationTemplateService } from '../../services/notificationTemplate.service';
+import { LANGUAGES } from '../../utils/languages';
+import { getErrorMessage } from '../../utils/errors';
+import type { NotificationTemplate, ReminderChannel, TemplatePreview, TemplateVariables } from '../../types';
+
+const TYPE_LABELS: Record<NotificationTemplate['type'], string> = {
+  appointment_reminder: 'Appointment reminder',
+  appointment_confirmation: 'Appointment confirmation',
+  invoice_generated: 'Invoice',
+  waitlist_offer: 'Waitlist offer',
+  payment_reminder: 'Payment reminder',
+  payment_final_notice: 'Payment final notice',
+};
+
+interface TemplateDraft {
+  subject: string;
+  textBody: string;
+  htmlBody: string;
+}
+
+const NotificationTemplatesPanel: React.FC = () => {
+  const [variables, setVariables] = useState<TemplateVariables[]>([]);
+  const [selection, setSelection] = useState<{ type: NotificationTemplate['type']; channel: ReminderChannel; language: string }>({
+    type: 'appointment_reminder',
+    channel: 'email',
+    language: 'en',
+  });
+  const [template, setTemplate] = useState<NotificationTemplate | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>({ subject: '', textBody: '', htmlBody: '' });
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [previewTab, setPreviewTab] = useState<'html' | 'text'>('html');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const isSms = selection.channel === 'sms';
+  const current = variables.find((group) => group.type === selection.type);
+
+  useEffect(() => {
+    fetchVariables();
+  }, []);
+
+  const fetchVariables = async () => {
+    try {
+      setVariables(await notificationTemplateService.getVariables());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load template variables'));
+    }
+  };
+
+  const fetchTemplate = useCallback(async () => {
+    try {
+      const loaded = await notificationTemplateService.getTemplate(selection.type, selection.channel, selection.language);
+      setTemplate(loaded || null);
+      setDraft({
+        subject: loaded?.subject || '',
+        textBody: loaded?.textBody || '',
+        htmlBody: loaded?.htmlBody || '',
+      });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load template'));
+    }
+  }, [selection]);
+
+  useEffect(() => {
+    fetchTemplate();
+  }, [fetchTemplate]);
+
+  const fetchPreview = useCallback(async () => {
+    if (!draft.textBody) {
+      setPreview(null);
+      return;
+    }
+    try {
+      setPreview(
+        (await notificationTemplateService.previewTemplate({
+          type: selection.type,
+          channel: selection.channel,
+          subject: isSms ? undefined : draft.subject,
+          textBody: draft.textBody,
+          htmlBody: isSms ? undefined : draft.htmlBody,
+        })) || null
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to render preview'));
+    }
+  }, [draft, selection.type, selection.channel, isSms]);
+
+  // Live preview, a moment after the admin stops typing
+  useEffect(() => {
+    const timer = setTimeout(fetchPreview, 400);
+    return () => clearTimeout(timer);
+  }, [fetchPreview]);
+
+  const handleTypeChange = (type: NotificationTemplate['type']) => {
+    const channels = variables.find((group) => group.type === type)?.channels || ['email'];
+    setSelection({
+      ...selection,
+      type,
+      channel: channels.includes(selection.channel) ? selection.channel : channels[0],
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setError('');
+      await notificationTemplateService.saveTemplate({ ...selection, ...draft });
+      setSuccess('Template saved');
+      fetchTemplate();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save template'));
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      setError('');
+      await notificationTemplateService.resetTemplate(selection.type, selection.channel, selection.language);
+      setSuccess('Template reset to default');
+      fetchTemplate();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to reset template'));
+    }
+  };
+
+  const handleCopyVariable = (variable: string) => {
+    navigator.clipboard?.writeText(`{{${variable}}}`);
+  };
+
+  // The clinic's own template for exactly this language, as opposed to a fallback
+  const isCustom = !!template && !template.isDefault && template.language === selection.language;
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+      <Typography variant="h6" fontWeight={600} mb={2}>
+        Notification Templates
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>
+          {success}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={2} flexWrap="wrap" mb={2}>
+        <TextField
+          select
+          size="small"
+          label="Notification"
+          value={selection.type}
+          onChange={(e) => handleTypeChange(e.target.value as NotificationTemplate['type'])}
+          sx={{ minWidth: 240 }}
+        >
+          {variables.map((group) => (
+            <MenuItem key={group.type} value={group.type}>
+              {TYPE_LABELS[group.type]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Channel"
+          value={selection.channel}
+          onChange={(e) => setSelection({ ...selection, channel: e.target.value as ReminderChannel })}
+          sx={{ minWidth: 120 }}
+        >
+          {(current?.channels || ['email']).map((channel) => (
+            <MenuItem key={channel} value={channel}>
+              {channel === 'sms' ? 'SMS' : 'Email'}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Language"
+          value={selection.language}
+          onChange={(e) => setSelection({ ...selection, language: e.target.value })}
+          sx={{ minWidth: 140 }}
+        >
+          {LANGUAGES.map((language) => (
+            <MenuItem key={language.code} value={language.code}>
+              {language.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Box flexGrow={1} display="flex" alignItems="center">
+          {template && !isCustom && (
+            <Typography variant="body2" color="text.secondary">
+              {template.isDefault
+                ? 'Using the built-in template'
+                : `No template for this language yet; patients get the ${template.language} one`}
+            </Typography>
+          )}
+        </Box>
+      </Box>
+
+      {current && (
+        <Box display="flex" gap={0.5} flexWrap="wrap" mb={2} alignItems="center">
+          <Typography variant="body2" color="text.secondary" mr={1}>
+            Variables:
+          </Typography>
+          {current.variables.map((variable) => (
+            <Tooltip key={variable} title="Copy">
+              <Chip
+                label={`{{${variable}}}`}
+                size="small"
+                variant="outlined"
+                onClick={() => handleCopyVariable(variable)}
+              />
+            </Tooltip>
+          ))}
+        </Box>
+      )}
+
+      <Box display="flex" gap={3} flexWrap="wrap" alignItems="flex-start">
+        <Box display="flex" flexDirection="column" gap={2} sx={{ flex: '1 1 420px' }}>
+          {!isSms && (
+            <TextField
+              label="Subject"
+              size="small"
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+            />
+          )}
+          <TextField
+            label={isSms ? 'Message' : 'Plain text'}
+            multiline
+            minRows={isSms ? 4 : 10}
+            value={draft.textBody}
+            onChange={(e) => setDraft({ ...draft, textBody: e.target.value })}
+            InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+          />
+          {!isSms && (
+            <TextField
+              label="HTML"
+              multiline
+              minRows={10}
+              value={draft.htmlBody}
+              onChange={(e) => setDraft({ ...draft, htmlBody: e.target.value })}
+              helperText="Leave empty to send the plain text version as HTML"
+              InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+            />
+          )}
+          <Box display="flex" gap={1}>
+            <Button variant="contained" onClick={handleSave} disabled={!draft.textBody || (!isSms && !draft.subject)}>
+              Save
+            </Button>
+            {isCustom && (
+              <Button color="error" onClick={handleReset}>
+                Reset to default
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        <Box sx={{ flex: '1 1 420px', minWidth: 0 }}>
+          <Typography variant="subtitle2" mb={1}>
+            Preview with sample data
+          </Typography>
+          {preview && preview.unknownVariables.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Unknown variables: {preview.unknownVariables.join(', ')}
+            </Alert>
+          )}
+          {preview && (
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              {preview.preview.subject && (
+                <Typography variant="body2" fontWeight={600} mb={1}>
+                  {preview.preview.subject}
+                </Typography>
+              )}
+              {!isSms && (
+                <Tabs value={previewTab} onChange={(_, value) => setPreviewTab(value)} sx={{ mb: 1 }}>
+                  <Tab label="HTML" value="html" />
+                  <Tab label="Plain text" value="text" />
+                </Tabs>
+              )}
+              {!isSms && previewTab === 'html' ? (
+                <Box
+                  component="iframe"
+                  title="HTML preview"
+                  sandbox=""
+                  srcDoc={preview.preview.html}
+                  sx={{ width: '100%', height: 360, border: 0, backgroundColor: 'white' }}
+                />
+              ) : (
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace' }}>
+                  {preview.preview.text}
+                </Typography>
+              )}
+              {isSms && (
+                <Typography variant="caption" color="text.secondary">
+                  {preview.preview.text.length} characters
+                </Typography>
+              )}
+            </Paper>
+          )}
+        </Box>
+      </Box>
+    </Paper>
+  );
+};
+
+export default NotificationTemplatesPanel;
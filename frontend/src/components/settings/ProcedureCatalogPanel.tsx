@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  Switch,
+  Tooltip,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon, Add as AddIcon } from '@mui/icons-material';
+import { procedureService } from '../../services/procedure.service';
+import { inventoryService } from '../../services/inventory.service';
+import { PROCEDURE_CATEGORY_LABELS, TAX_CLASS_LABELS } from '../../utils/procedures';
+import { getErrorMessage } from '../../utils/errors';
+import type { InventoryItem, Procedure, ProcedureCategory, TaxClass } from '../../types';
+
+interface ProcedureForm {
+  code: string;
+  name: string;
+  category: ProcedureCategory;
+  defaultDuration: string;
+  defaultFee: string;
+  taxClass: TaxClass;
+  aliases: string;
+  materials: { itemId: string; quantity: string }[];
+}
+
+const emptyForm = (): ProcedureForm => ({
+  code: '',
+  name: '',
+  category: 'other',
+  defaultDuration: '30',
+  defaultFee: '',
+  taxClass: 'exempt',
+  aliases: '',
+  materials: [],
+});
+
+/**
+ * Admin-managed list of billable procedures with their codes and default fees
+ */
+const ProcedureCatalogPanel: React.FC = () => {
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [editing, setEditing] = useState<Procedure | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ProcedureForm>(emptyForm());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchProcedures();
+  }, []);
+
+  const fetchProcedures = async () => {
+    try {
+      setProcedures(await procedureService.getProcedures({ includeInactive: true }));
+      setItems(await inventoryService.getItems());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load procedures'));
+    }
+  };
+
+  const openDialog = (procedure?: Procedure) => {
+    setEditing(procedure || null);
+    setForm(
+      procedure
+        ? {
+            code: procedure.code,
+            name: procedure.name,
+            category: procedure.category,
+            defaultDuration: String(procedure.defaultDuration),
+            defaultFee: String(procedure.defaultFee),
+            taxClass: procedure.taxClass,
+            aliases: procedure.aliases.join(', '),
+            materials: (procedure.materials || []).map((material) => ({
+              itemId: material.itemId,
+              quantity: String(material.quantity),
+            })),
+          }
+        : emptyForm()
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const procedureData = {
+        code: form.code,
+        name: form.name,
+        category: form.category,
+        defaultDuration: parseInt(form.defaultDuration, 10) || 30,
+        defaultFee: parseFloat(form.defaultFee),
+        taxClass: form.taxClass,
+        aliases: form.aliases
+          .split(',')
+          .map((alias) => alias.trim())
+          .filter(Boolean),
+        materials: form.materials
+          .filter((material) => material.itemId && parseFloat(material.quantity) > 0)
+          .map((material) => ({ itemId: material.itemId, quantity: parseFloat(material.quantity) })),
+      };
+      if (editing) {
+        await procedureService.updateProcedure(editing._id, procedureData);
+      } else {
+        await procedureService.createProcedure(procedureData);
+      }
+      setDialogOpen(false);
+      fetchProcedures();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save procedure'));
+    }
+  };
+
+  const handleToggleActive = async (procedure: Procedure) => {
+    try {
+      await procedureService.updateProcedure(procedure._id, { isActive: !procedure.isActive });
+      fetchProcedures();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update procedure'));
+    }
+  };
+
+  const handleDelete = async (procedure: Procedure) => {
+    try {
+      await procedureService.deleteProcedure(procedure._id);
+      fetchProcedures();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete procedure'));
+    }
+  };
+
+  const updateMaterial = (index: number, changes: Partial<ProcedureForm['materials'][number]>) =>
+    setForm({
+      ...form,
+      materials: form.materials.map((material, i) => (i === index ? { ...material, ...changes } : material)),
+    });
+
+  return (
+    <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h6" fontWeight={600}>
+          Procedure Catalog
+        </Typography>
+        <Button startIcon={<AddIcon />} onClick={() => openDialog()}>
+          Add Procedure
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {procedures.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No procedures in the catalog yet.
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Category</TableCell>
+                <TableCell align="right">Duration</TableCell>
+                <TableCell align="right">Default Fee</TableCell>
+                <TableCell>Tax</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {procedures.map((procedure) => (
+                <TableRow key={procedure._id} sx={procedure.isActive ? undefined : { opacity: 0.5 }}>
+                  <TableCell>{procedure.code}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{procedure.name}</Typography>
+                    {procedure.aliases.length > 0 && (
+                      <Typography variant="caption" color="text.secondary">
+                        Also: {procedure.aliases.join(', ')}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{PROCEDURE_CATEGORY_LABELS[procedure.category]}</TableCell>
+                  <TableCell align="right">{procedure.defaultDuration} min</TableCell>
+                  <TableCell align="right">₹{procedure.defaultFee.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {TAX_CLASS_LABELS[procedure.taxClass]}
+                    {procedure.taxRate ? ` (${procedure.taxRate}%)` : ''}
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title={procedure.isActive ? 'Available for new treatments' : 'Inactive'}>
+                      <Switch size="small" checked={procedure.isActive} onChange={() => handleToggleActive(procedure)} />
+                    </Tooltip>
+                    <IconButton size="small" onClick={() => openDialog(procedure)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" color="error" onClick={() => handleDelete(procedure)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{editing ? 'Edit Procedure' : 'Add Procedure'}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Code *"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="e.g., D3310"
+                sx={{ width: 160 }}
+              />
+              <TextField
+                label="Name *"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                sx={{ flexGrow: 1 }}
+              />
+            </Box>
+            <TextField
+              select
+              label="Category"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value as ProcedureCategory })}
+            >
+              {(Object.keys(PROCEDURE_CATEGORY_LABELS) as ProcedureCategory[]).map((category) => (
+                <MenuItem key={category} value={category}>
+                  {PROCEDURE_CATEGORY_LABELS[category]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Duration (min)"
+                type="number"
+                value={form.defaultDuration}
+                onChange={(e) => setForm({ ...form, defaultDuration: e.target.value })}
+                inputProps={{ min: 5, step: 5 }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Default Fee * (₹)"
+                type="number"
+                value={form.defaultFee}
+                onChange={(e) => setForm({ ...form, defaultFee: e.target.value })}
+                inputProps={{ min: 0 }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                select
+                label="Tax Class"
+                value={form.taxClass}
+                onChange={(e) => setForm({ ...form, taxClass: e.target.value as TaxClass })}
+                sx={{ flex: 1 }}
+              >
+                {(Object.keys(TAX_CLASS_LABELS) as TaxClass[]).map((taxClass) => (
+                  <MenuItem key={taxClass} value={taxClass}>
+                    {TAX_CLASS_LABELS[taxClass]}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Box>
+            <TextField
+              label="Aliases"
+              value={form.aliases}
+              onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+              helperText="Other names staff have typed for this procedure, separated by commas (e.g., RCT, root canal)"
+            />
+            <Box>
+              <Typography variant="subtitle2" fontWeight={600}>
+                Materials
+              </Typography>
+              <Typography variant="caption" color="text.secondary" display="block" mb={1}>
+                Supplies taken out of stock each time this procedure is recorded
+              </Typography>
+              {form.materials.map((material, index) => (
+                <Box key={index} display="flex" gap={1} mb={1} alignItems="center">
+                  <TextField
+                    select
+                    size="small"
+                    label="Item"
+                    value={material.itemId}
+                    onChange={(e) => updateMaterial(index, { itemId: e.target.value })}
+                    sx={{ flexGrow: 1 }}
+                  >
+                    {items.map((item) => (
+                      <MenuItem key={item._id} value={item._id}>
+                        {item.name} ({item.unit})
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    size="small"
+                    label="Quantity"
+                    type="number"
+                    value={material.quantity}
+                    onChange={(e) => updateMaterial(index, { quantity: e.target.value })}
+                    inputProps={{ min: 0, step: 0.5 }}
+                    sx={{ width: 110 }}
+                  />
+                  <IconButton
+                    size="small"
+                    color="error"
+                    onClick={() => setForm({ ...form, materials: form.materials.filter((_, i) => i !== index) })}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => setForm({ ...form, materials: [...form.materials, { itemId: '', quantity: '1' }] })}
+                disabled={items.length === 0}
+              >
+                Add Material
+              </Button>
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!form.code.trim() || !form.name.trim() || !(parseFloat(form.defaultFee) >= 0)}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ProcedureCatalogPanel;
@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { drugService } from '../../services/drug.service';
+import { patientService } from '../../services/patient.service';
+import { prescriptionService } from '../../services/prescription.service';
+import { DRUG_FORM_LABELS, DURATION_OPTIONS, FREQUENCY_OPTIONS } from '../../utils/prescriptions';
+import MedicalAlertBanner from '../patient/MedicalAlertBanner';
+import TreatmentAlertsDialog from './TreatmentAlertsDialog';
+import { getErrorMessage } from '../../utils/errors';
+import type { Drug, DrugForm, Patient, Prescription, PrescriptionItem, Treatment, TreatmentAlert, TreatmentAlertError } from '../../types';
+
+interface PrescriptionDialogProps {
+  treatment: Treatment | null;
+  onClose: () => void;
+}
+
+const refId = (ref: { _id: string } | string) => (typeof ref === 'object' ? ref._id : ref);
+
+const itemFromDrug = (drug: Drug): PrescriptionItem => ({
+  drugId: drug._id,
+  name: drug.name,
+  strength: drug.strength,
+  form: drug.form,
+  dosage: drug.defaultDosage || '',
+  frequency: drug.defaultFrequency || '',
+  duration: drug.defaultDuration || '',
+  instructions: drug.defaultInstructions || '',
+});
+
+const emptyItem = (): PrescriptionItem => ({
+  name: '',
+  strength: '',
+  form: 'tablet',
+  dosage: '',
+  frequency: '',
+  duration: '',
+  instructions: '',
+});
+
+/**
+ * Prescription writer for a treatment: drugs from the clinic's list with their usual directions,
+ * checked against the patient's allergies, printed as an Rx and kept in the patient's files
+ */
+const PrescriptionDialog: React.FC<PrescriptionDialogProps> = ({ treatment, onClose }) => {
+  const [drugs, setDrugs] = useState<Drug[]>([]);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [previous, setPrevious] = useState<Prescription[]>([]);
+  const [items, setItems] = useState<PrescriptionItem[]>([]);
+  const [notes, setNotes] = useState('');
+  const [alerts, setAlerts] = useState<TreatmentAlert[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const patientId = treatment ? refId(treatment.patientId) : '';
+
+  const fetchData = useCallback(async () => {
+    if (!treatment) return;
+    try {
+      setDrugs(await drugService.getDrugs());
+      setPatient((await patientService.getPatientById(patientId)) || null);
+      setPrevious(await prescriptionService.getPrescriptions(patientId, { treatmentId: treatment._id }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load prescription details'));
+    }
+  }, [treatment, patientId]);
+
+  useEffect(() => {
+    if (!treatment) return;
+    setItems([]);
+    setNotes('');
+    setError('');
+    fetchData();
+  }, [treatment, fetchData]);
+
+  const updateItem = (index: number, changes: Partial<PrescriptionItem>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSave = async (acknowledgeAlerts = false) => {
+    if (!treatment) return;
+    setAlerts([]);
+    setSaving(true);
+    try {
+      const prescription = await prescriptionService.createPrescription(patientId, {
+        treatmentId: treatment._id,
+        items,
+        notes,
+        acknowledgeAlerts,
+      });
+      if (prescription) {
+        await prescriptionService.downloadPDF(patientId, prescription);
+      }
+      onClose();
+    } catch (err) {
+      const { alerts } = err as TreatmentAlertError;
+      if (alerts) {
+        setAlerts(alerts);
+      } else {
+        setError(getErrorMessage(err, 'Failed to save prescription'));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async (prescription: Prescription) => {
+    try {
+      await prescriptionService.downloadPDF(patientId, prescription);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download prescription'));
+    }
+  };
+
+  const complete = items.length > 0 && items.every((item) => item.name.trim() && item.dosage.trim() && item.frequency.trim() && item.duration.trim());
+
+  return (
+    <>
+      <Dialog open={Boolean(treatment)} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Write Prescription</DialogTitle>
+        <DialogContent dividers>
+          {treatment && (
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              {typeof treatment.patientId === 'object' ? treatment.patientId.name : ''} · {treatment.treatmentType}
+              {treatment.toothNumber ? ` (tooth ${treatment.toothNumber})` : ''} ·{' '}
+              {new Date(treatment.treatmentDate).toLocaleDateString()}
+            </Typography>
+          )}
+
+          <MedicalAlertBanner patient={patient} />
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+              {error}
+            </Alert>
+          )}
+
+          {previous.length > 0 && (
+            <Box mb={2}>
+              <Typography variant="subtitle2" fontWeight={600} gutterBottom>
+                Already prescribed for this treatment
+              </Typography>
+              {previous.map((prescription) => (
+                <Box key={prescription._id} display="flex" alignItems="center" gap={1}>
+                  <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                    {prescription.rxNumber} · {prescription.items.map((item) => item.name).join(', ')}
+                  </Typography>
+                  <Tooltip title="Download Rx">
+                    <IconButton size="small" onClick={() => handleDownload(prescription)}>
+                      <PdfIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ))}
+            </Box>
+          )}
+
+          <Autocomplete
+            options={drugs}
+            value={null}
+            getOptionLabel={(drug) => [drug.name, drug.strength, DRUG_FORM_LABELS[drug.form]].filter(Boolean).join(' ')}
+            onChange={(_, drug) => drug && setItems([...items, itemFromDrug(drug)])}
+            renderInput={(params) => <TextField {...params} label="Add drug from list" />}
+            blurOnSelect
+            clearOnBlur
+          />
+
+          <Box display="flex" flexDirection="column" gap={2} mt={2}>
+            {items.map((item, index) => (
+              <Paper key={index} variant="outlined" sx={{ p: 2, borderRadius: 2 }}>
+                <Box display="flex" flexWrap="wrap" gap={2} alignItems="center">
+                  {item.drugId ? (
+                    <Typography variant="subtitle2" fontWeight={600} sx={{ flex: '1 1 100%' }}>
+                      {index + 1}. {[item.name, item.strength].filter(Boolean).join(' ')} · {DRUG_FORM_LABELS[item.form]}
+                    </Typography>
+                  ) : (
+                    <>
+                      <TextField
+                        label="Drug *"
+                        size="small"
+                        value={item.name}
+                        onChange={(e) => updateItem(index, { name: e.target.value })}
+                        sx={{ flex: '2 1 200px' }}
+                      />
+                      <TextField
+                        label="Strength"
+                        size="small"
+                        value={item.strength || ''}
+                        onChange={(e) => updateItem(index, { strength: e.target.value })}
+                        sx={{ flex: '1 1 100px' }}
+                      />
+                      <TextField
+                        select
+                        label="Form"
+                        size="small"
+                        value={item.form}
+                        onChange={(e) => updateItem(index, { form: e.target.value as DrugForm })}
+                        sx={{ flex: '1 1 120px' }}
+                      >
+                        {(Object.keys(DRUG_FORM_LABELS) as DrugForm[]).map((drugForm) => (
+                          <MenuItem key={drugForm} value={drugForm}>
+                            {DRUG_FORM_LABELS[drugForm]}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </>
+                  )}
+                  <TextField
+                    label="Dosage *"
+                    size="small"
+                    value={item.dosage}
+                    onChange={(e) => updateItem(index, { dosage: e.target.value })}
+                    sx={{ flex: '1 1 120px' }}
+                  />
+                  <Autocomplete
+                    freeSolo
+                    options={FREQUENCY_OPTIONS}
+                    inputValue={item.frequency}
+                    onInputChange={(_, value) => updateItem(index, { frequency: value })}
+                    renderInput={(params) => <TextField {...params} label="Frequency *" size="small" />}
+                    sx={{ flex: '1 1 180px' }}
+                  />
+                  <Autocomplete
+                    freeSolo
+                    options={DURATION_OPTIONS}
+                    inputValue={item.duration}
+                    onInputChange={(_, value) => updateItem(index, { duration: value })}
+                    renderInput={(params) => <TextField {...params} label="Duration *" size="small" />}
+                    sx={{ flex: '1 1 120px' }}
+                  />
+                  <TextField
+                    label="Instructions"
+                    size="small"
+                    value={item.instructions || ''}
+                    onChange={(e) => updateItem(index, { instructions: e.target.value })}
+                    sx={{ flex: '2 1 200px' }}
+                  />
+                  <IconButton color="error" onClick={() => setItems(items.filter((_, i) => i !== index))}>
+                    <DeleteIcon />
+                  </IconButton>
+                </Box>
+              </Paper>
+            ))}
+          </Box>
+
+          <Button startIcon={<AddIcon />} onClick={() => setItems([...items, emptyItem()])} sx={{ mt: 1 }}>
+            Drug not on the list
+          </Button>
+
+          <TextField
+            label="Advice"
+            multiline
+            rows={2}
+            fullWidth
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g., Warm saline rinses after 24 hours"
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button variant="contained" onClick={() => handleSave()} disabled={!complete || saving}>
+            Save & Print
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <TreatmentAlertsDialog
+        alerts={alerts}
+        description="This prescription conflicts with the patient's recorded allergies:"
+        confirmLabel="Acknowledge & Prescribe"
+        onCancel={() => setAlerts([])}
+        onConfirm={() => handleSave(true)}
+      />
+    </>
+  );
+};
+
+export default PrescriptionDialog;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Alert, Button, Dialog, DialogActions, DialogContent, DialogTitle, Typography } from '@mui/material';
+import type { TreatmentAlert } from '../../types';
+
+interface TreatmentAlertsDialogProps {
+  alerts: TreatmentAlert[];
+  description?: string;
+  confirmLabel?: string;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Medical alerts a new treatment or prescription clashes with, which have to be acknowledged before it is recorded
+ */
+const TreatmentAlertsDialog: React.FC<TreatmentAlertsDialogProps> = ({
+  alerts,
+  description = "This treatment conflicts with the patient's recorded medical history:",
+  confirmLabel = 'Acknowledge & Record',
+  onCancel,
+  onConfirm,
+}) => (
+  <Dialog open={alerts.length > 0} onClose={onCancel} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+    <DialogTitle sx={{ fontWeight: 600 }}>Medical Alerts</DialogTitle>
+    <DialogContent dividers>
+      <Typography variant="body2" mb={2}>
+        {description}
+      </Typography>
+      {alerts.map((alert) => (
+        <Alert key={alert.message} severity={alert.severity === 'danger' ? 'error' : 'warning'} sx={{ mb: 1 }}>
+          {alert.message}
+        </Alert>
+      ))}
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onCancel}>Back</Button>
+      <Button variant="contained" color="error" onClick={onConfirm}>
+        {confirmLabel}
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default TreatmentAlertsDialog;
@@ -0,0 +1,784 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Paper,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  CircularProgress,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Tooltip,
+  Chip,
+  Checkbox,
+  Divider,
+  useTheme,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Visibility as ViewIcon,
+  PictureAsPdf as PdfIcon,
+  Close as CloseIcon,
+} from '@mui/icons-material';
+import { useAuth } from '../../context/AuthContext';
+import { treatmentPlanService } from '../../services/treatmentPlan.service';
+import { procedureService } from '../../services/procedure.service';
+import { ALL_TEETH } from '../../utils/toothNumbering';
+import { PROCEDURE_CATEGORY_LABELS } from '../../utils/procedures';
+import TreatmentAlertsDialog from './TreatmentAlertsDialog';
+import { getErrorMessage } from '../../utils/errors';
+import type { Patient, Procedure, TreatmentAlert, TreatmentAlertError, TreatmentPlan, TreatmentPlanItem, User } from '../../types';
+
+interface TreatmentPlansPanelProps {
+  patients: Patient[];
+  doctors: User[];
+  onTreatmentRecorded?: () => void;
+}
+
+interface PlanItemForm {
+  procedureId: string;
+  treatmentType: string;
+  toothNumber: string;
+  estimatedCost: string;
+}
+
+interface PlanPhaseForm {
+  name: string;
+  order: number;
+  items: PlanItemForm[];
+}
+
+interface PlanForm {
+  patientId: string;
+  doctorId: string;
+  title: string;
+  validUntil: string;
+  notes: string;
+  phases: PlanPhaseForm[];
+}
+
+const emptyItem = (): PlanItemForm => ({ procedureId: '', treatmentType: '', toothNumber: '', estimatedCost: '' });
+const emptyPhase = (order: number): PlanPhaseForm => ({ name: `Phase ${order + 1}`, order, items: [emptyItem()] });
+
+const statusColor = (status: TreatmentPlan['status']) => {
+  switch (status) {
+    case 'accepted':
+    case 'in_progress':
+      return 'primary';
+    case 'completed':
+      return 'success';
+    case 'declined':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}`;
+
+const TreatmentPlansPanel: React.FC<TreatmentPlansPanelProps> = ({ patients, doctors, onTreatmentRecorded }) => {
+  const { user } = useAuth();
+  const theme = useTheme();
+
+  const [plans, setPlans] = useState<TreatmentPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [total, setTotal] = useState(0);
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [selectedPlan, setSelectedPlan] = useState<TreatmentPlan | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [convertItem, setConvertItem] = useState<TreatmentPlanItem | null>(null);
+  const [treatmentAlerts, setTreatmentAlerts] = useState<TreatmentAlert[]>([]);
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+
+  const [formData, setFormData] = useState<PlanForm>({
+    patientId: '',
+    doctorId: '',
+    title: '',
+    validUntil: '',
+    notes: '',
+    phases: [emptyPhase(0)],
+  });
+
+  const [convertData, setConvertData] = useState({
+    schedule: true,
+    startTime: '',
+    endTime: '',
+    recordTreatment: false,
+    treatmentDate: new Date().toISOString().split('T')[0],
+  });
+
+  useEffect(() => {
+    fetchProcedures();
+  }, []);
+
+  const fetchProcedures = async () => {
+    try {
+      setProcedures(await procedureService.getProcedures());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load procedures'));
+    }
+  };
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await treatmentPlanService.getTreatmentPlans({
+        page: page + 1,
+        limit: rowsPerPage,
+      });
+      setPlans(response.data || []);
+      setTotal(response.total || 0);
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load treatment plans'));
+    } finally {
+      setLoading(false);
+    }
+  }, [page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const handleOpenCreate = () => {
+    setFormData({
+      patientId: '',
+      doctorId: user?.role === 'dentist' ? user._id : '',
+      title: '',
+      validUntil: '',
+      notes: '',
+      phases: [emptyPhase(0)],
+    });
+    setCreateOpen(true);
+  };
+
+  const updatePhase = (phaseIndex: number, changes: Partial<PlanPhaseForm>) => {
+    const phases = formData.phases.map((phase, i: number) =>
+      i === phaseIndex ? { ...phase, ...changes } : phase
+    );
+    setFormData({ ...formData, phases });
+  };
+
+  const updateItem = (phaseIndex: number, itemIndex: number, changes: Partial<PlanItemForm>) => {
+    const items = formData.phases[phaseIndex].items.map((item, i: number) =>
+      i === itemIndex ? { ...item, ...changes } : item
+    );
+    updatePhase(phaseIndex, { items });
+  };
+
+  const handleCreate = async () => {
+    try {
+      const phases = formData.phases.map((phase) => ({
+        name: phase.name,
+        order: phase.order,
+        items: phase.items
+          .filter((item) => item.treatmentType)
+          .map((item) => ({
+            procedureId: item.procedureId || undefined,
+            treatmentType: item.treatmentType,
+            toothNumber: item.toothNumber || undefined,
+            estimatedCost: parseFloat(item.estimatedCost) || 0,
+          })),
+      }));
+      await treatmentPlanService.createTreatmentPlan({
+        ...formData,
+        validUntil: formData.validUntil || undefined,
+        phases,
+      });
+      setCreateOpen(false);
+      fetchPlans();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create treatment plan'));
+    }
+  };
+
+  const refreshSelected = (plan?: TreatmentPlan) => {
+    if (plan) setSelectedPlan(plan);
+    fetchPlans();
+  };
+
+  const handleAccept = async () => {
+    if (!selectedPlan) return;
+    try {
+      refreshSelected(await treatmentPlanService.acceptTreatmentPlan(selectedPlan._id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to accept treatment plan'));
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!selectedPlan) return;
+    try {
+      refreshSelected(await treatmentPlanService.declineTreatmentPlan(selectedPlan._id, declineReason));
+      setDeclineReason('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to decline treatment plan'));
+    }
+  };
+
+  const handleOpenConvert = (item: TreatmentPlanItem) => {
+    setConvertItem(item);
+    setConvertData({
+      schedule: item.status === 'planned',
+      startTime: '',
+      endTime: '',
+      recordTreatment: item.status === 'scheduled',
+      treatmentDate: new Date().toISOString().split('T')[0],
+    });
+  };
+
+  const handleConvert = async (acknowledgeAlerts = false) => {
+    if (!selectedPlan || !convertItem) return;
+    setTreatmentAlerts([]);
+    try {
+      const result = await treatmentPlanService.convertItem(selectedPlan._id, convertItem._id, {
+        appointment: booking
+          ? {
+              startTime: new Date(convertData.startTime).toISOString(),
+              endTime: new Date(convertData.endTime).toISOString(),
+            }
+          : undefined,
+        recordTreatment: convertData.recordTreatment,
+        treatmentDate: convertData.recordTreatment ? convertData.treatmentDate : undefined,
+        acknowledgeAlerts,
+      });
+      setConvertItem(null);
+      refreshSelected(result?.plan);
+      if (result?.treatment) onTreatmentRecorded?.();
+    } catch (err) {
+      const { alerts } = err as TreatmentAlertError;
+      if (alerts?.length) {
+        setTreatmentAlerts(alerts);
+        return;
+      }
+      setError(getErrorMessage(err, 'Failed to convert plan item'));
+    }
+  };
+
+  const handleDelete = async (plan: TreatmentPlan) => {
+    if (!window.confirm('Delete this treatment plan?')) return;
+    try {
+      await treatmentPlanService.deleteTreatmentPlan(plan._id);
+      fetchPlans();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete treatment plan'));
+    }
+  };
+
+  const handleDownloadPDF = async (plan: TreatmentPlan) => {
+    try {
+      await treatmentPlanService.downloadPDF(plan._id);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download quotation'));
+    }
+  };
+
+  const formTotal = formData.phases.reduce(
+    (sum, phase) =>
+      sum + phase.items.reduce((s, item) => s + (parseFloat(item.estimatedCost) || 0), 0),
+    0
+  );
+
+  const booking = convertData.schedule && convertItem?.status === 'planned';
+  const canConvert = selectedPlan && ['accepted', 'in_progress'].includes(selectedPlan.status);
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="flex-end" mb={2}>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={handleOpenCreate}>
+          New Plan
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" height="40vh">
+          <CircularProgress size={60} />
+        </Box>
+      ) : (
+        <Paper elevation={3} sx={{ borderRadius: 3, overflow: 'hidden' }}>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow sx={{ backgroundColor: theme.palette.primary.main }}>
+                  {['Created', 'Patient', 'Doctor', 'Title', 'Status', 'Estimate', 'Actions'].map((header) => (
+                    <TableCell
+                      key={header}
+                      sx={{
+                        color: 'white',
+                        fontWeight: 600,
+                        textAlign: header === 'Actions' ? 'center' : 'left',
+                      }}
+                    >
+                      {header}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {plans.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center">
+                      No treatment plans found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  plans.map((plan) => (
+                    <TableRow key={plan._id} hover>
+                      <TableCell>{new Date(plan.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {typeof plan.patientId === 'object' ? plan.patientId?.name ?? 'Unknown' : 'Unknown'}
+                      </TableCell>
+                      <TableCell>
+                        {typeof plan.doctorId === 'object' ? `Dr. ${plan.doctorId.name}` : 'Unknown'}
+                      </TableCell>
+                      <TableCell>{plan.title}</TableCell>
+                      <TableCell>
+                        <Chip label={plan.status.replace('_', ' ')} size="small" color={statusColor(plan.status)} />
+                      </TableCell>
+                      <TableCell>{formatCurrency(plan.estimateTotal)}</TableCell>
+                      <TableCell align="center">
+                        <Tooltip title="View Plan">
+                          <IconButton color="primary" onClick={() => setSelectedPlan(plan)}>
+                            <ViewIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Download Quotation">
+                          <IconButton color="secondary" onClick={() => handleDownloadPDF(plan)}>
+                            <PdfIcon />
+                          </IconButton>
+                        </Tooltip>
+                        {user?.role === 'admin' && (
+                          <Tooltip title="Delete Plan">
+                            <IconButton color="error" onClick={() => handleDelete(plan)}>
+                              <DeleteIcon />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[5, 10, 25, 50]}
+          />
+        </Paper>
+      )}
+
+      {/* Create Plan Modal */}
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3, p: 1 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>New Treatment Plan</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <Box display="flex" gap={2}>
+              <FormControl fullWidth>
+                <InputLabel>Patient *</InputLabel>
+                <Select
+                  value={formData.patientId}
+                  onChange={(e) => setFormData({ ...formData, patientId: e.target.value })}
+                >
+                  {patients.map((patient) => (
+                    <MenuItem key={patient._id} value={patient._id}>
+                      {patient.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth>
+                <InputLabel>Doctor *</InputLabel>
+                <Select
+                  value={formData.doctorId}
+                  onChange={(e) => setFormData({ ...formData, doctorId: e.target.value })}
+                  disabled={user?.role === 'dentist'}
+                >
+                  {doctors.map((doctor) => (
+                    <MenuItem key={doctor._id} value={doctor._id}>
+                      Dr. {doctor.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            <Box display="flex" gap={2}>
+              <TextField
+                fullWidth
+                label="Title *"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="e.g., Full mouth rehabilitation"
+              />
+              <TextField
+                label="Valid Until"
+                type="date"
+                value={formData.validUntil}
+                onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                sx={{ minWidth: 180 }}
+              />
+            </Box>
+
+            {formData.phases.map((phase, phaseIndex: number) => (
+              <Paper key={phaseIndex} variant="outlined" sx={{ p: 2, borderRadius: 2 }}>
+                <Box display="flex" alignItems="center" gap={1} mb={2}>
+                  <TextField
+                    size="small"
+                    label="Phase Name"
+                    value={phase.name}
+                    onChange={(e) => updatePhase(phaseIndex, { name: e.target.value })}
+                    sx={{ flexGrow: 1 }}
+                  />
+                  {formData.phases.length > 1 && (
+                    <IconButton
+                      onClick={() =>
+                        setFormData({
+                          ...formData,
+                          phases: formData.phases
+                            .filter((_, i: number) => i !== phaseIndex)
+                            .map((p, i: number) => ({ ...p, order: i })),
+                        })
+                      }
+                    >
+                      <CloseIcon />
+                    </IconButton>
+                  )}
+                </Box>
+
+                {phase.items.map((item, itemIndex: number) => (
+                  <Box key={itemIndex} display="flex" gap={1} mb={1} alignItems="center">
+                    <Autocomplete
+                      freeSolo
+                      size="small"
+                      options={procedures}
+                      groupBy={(procedure: Procedure) => PROCEDURE_CATEGORY_LABELS[procedure.category]}
+                      getOptionLabel={(option) => (typeof option === 'string' ? option : `${option.code} – ${option.name}`)}
+                      value={procedures.find((procedure) => procedure._id === item.procedureId) || item.treatmentType}
+                      onChange={(_, value) => {
+                        if (value && typeof value === 'object') {
+                          updateItem(phaseIndex, itemIndex, {
+                            procedureId: value._id,
+                            treatmentType: value.name,
+                            estimatedCost: String(value.fee ?? value.defaultFee),
+                          });
+                        } else {
+                          updateItem(phaseIndex, itemIndex, { procedureId: '', treatmentType: value || '' });
+                        }
+                      }}
+                      onInputChange={(_, value, reason) => {
+                        // Typing something else unlinks the catalog procedure
+                        if (reason === 'input') {
+                          updateItem(phaseIndex, itemIndex, { procedureId: '', treatmentType: value });
+                        }
+                      }}
+                      renderInput={(params) => <TextField {...params} label="Procedure *" />}
+                      sx={{ flexGrow: 1 }}
+                    />
+                    <TextField
+                      select
+                      size="small"
+                      label="Tooth"
+                      value={item.toothNumber}
+                      onChange={(e) => updateItem(phaseIndex, itemIndex, { toothNumber: e.target.value })}
+                      sx={{ minWidth: 100 }}
+                    >
+                      <MenuItem value="">None</MenuItem>
+                      {ALL_TEETH.map((tooth) => (
+                        <MenuItem key={tooth} value={tooth}>
+                          {tooth}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      size="small"
+                      label="Estimate (₹)"
+                      type="number"
+                      value={item.estimatedCost}
+                      onChange={(e) => updateItem(phaseIndex, itemIndex, { estimatedCost: e.target.value })}
+                      sx={{ width: 140 }}
+                    />
+                    <IconButton
+                      size="small"
+                      disabled={phase.items.length === 1}
+                      onClick={() =>
+                        updatePhase(phaseIndex, {
+                          items: phase.items.filter((_, i: number) => i !== itemIndex),
+                        })
+                      }
+                    >
+                      <CloseIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ))}
+                <Button size="small" onClick={() => updatePhase(phaseIndex, { items: [...phase.items, emptyItem()] })}>
+                  Add Procedure
+                </Button>
+              </Paper>
+            ))}
+
+            <Box display="flex" justifyContent="space-between" alignItems="center">
+              <Button
+                startIcon={<AddIcon />}
+                onClick={() =>
+                  setFormData({
+                    ...formData,
+                    phases: [...formData.phases, emptyPhase(formData.phases.length)],
+                  })
+                }
+              >
+                Add Phase
+              </Button>
+              <Typography fontWeight={600}>Estimated Total: {formatCurrency(formTotal)}</Typography>
+            </Box>
+
+            <TextField
+              label="Notes"
+              multiline
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button
+            onClick={handleCreate}
+            variant="contained"
+            disabled={
+              !formData.patientId ||
+              !formData.doctorId ||
+              !formData.title ||
+              !formData.phases.some((phase) => phase.items.some((item) => item.treatmentType))
+            }
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* View Plan Modal */}
+      <Dialog
+        open={!!selectedPlan}
+        onClose={() => setSelectedPlan(null)}
+        maxWidth="md"
+        fullWidth
+        PaperProps={{ sx: { borderRadius: 3 } }}
+      >
+        <DialogTitle sx={{ fontWeight: 600 }}>{selectedPlan?.title}</DialogTitle>
+        <DialogContent dividers>
+          {selectedPlan && (
+            <Box display="flex" flexDirection="column" gap={1.5}>
+              <Box display="flex" gap={1} alignItems="center">
+                <Chip
+                  label={selectedPlan.status.replace('_', ' ')}
+                  size="small"
+                  color={statusColor(selectedPlan.status)}
+                />
+                {selectedPlan.validUntil && (
+                  <Typography variant="body2" color="text.secondary">
+                    Valid until {new Date(selectedPlan.validUntil).toLocaleDateString()}
+                  </Typography>
+                )}
+              </Box>
+              <Typography>
+                <strong>Patient:</strong>{' '}
+                {typeof selectedPlan.patientId === 'object' ? selectedPlan.patientId?.name ?? 'Unknown' : 'Unknown'}
+              </Typography>
+              <Typography>
+                <strong>Doctor:</strong>{' '}
+                {typeof selectedPlan.doctorId === 'object' ? `Dr. ${selectedPlan.doctorId.name}` : 'Unknown'}
+              </Typography>
+              {selectedPlan.declineReason && (
+                <Typography>
+                  <strong>Decline reason:</strong> {selectedPlan.declineReason}
+                </Typography>
+              )}
+
+              {selectedPlan.phases.map((phase) => (
+                <Box key={phase._id}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="subtitle1" fontWeight={600}>
+                    {phase.name}
+                  </Typography>
+                  <Table size="small">
+                    <TableBody>
+                      {phase.items.map((item) => (
+                        <TableRow key={item._id}>
+                          <TableCell>{item.treatmentType}</TableCell>
+                          <TableCell>
+                            {item.toothNumber
+                              ? `${item.toothNumber}${item.surfaces?.length ? ` (${item.surfaces.join('')})` : ''}`
+                              : '-'}
+                          </TableCell>
+                          <TableCell>{formatCurrency(item.estimatedCost)}</TableCell>
+                          <TableCell>
+                            <Chip label={item.status} size="small" variant="outlined" />
+                          </TableCell>
+                          <TableCell align="right">
+                            {canConvert && ['planned', 'scheduled'].includes(item.status) && (
+                              <Button size="small" onClick={() => handleOpenConvert(item)}>
+                                {item.status === 'planned' ? 'Schedule' : 'Record'}
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              ))}
+
+              <Divider sx={{ my: 1 }} />
+              <Typography fontWeight={600} textAlign="right">
+                Estimated Total: {formatCurrency(selectedPlan.estimateTotal)}
+              </Typography>
+
+              {selectedPlan.status === 'proposed' && (
+                <TextField
+                  size="small"
+                  label="Decline reason"
+                  value={declineReason}
+                  onChange={(e) => setDeclineReason(e.target.value)}
+                />
+              )}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {selectedPlan?.status === 'proposed' && (
+            <>
+              <Button color="error" onClick={handleDecline}>
+                Decline
+              </Button>
+              <Button variant="contained" color="success" onClick={handleAccept}>
+                Accept
+              </Button>
+            </>
+          )}
+          <Button onClick={() => setSelectedPlan(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Convert Item Modal */}
+      <Dialog open={!!convertItem} onClose={() => setConvertItem(null)} maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>{convertItem?.treatmentType}</DialogTitle>
+        <DialogContent dividers>
+          <Box display="flex" flexDirection="column" gap={2}>
+            {error && <Alert severity="error">{error}</Alert>}
+            {convertItem?.status === 'planned' && (
+              <>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={convertData.schedule}
+                      onChange={(e) => setConvertData({ ...convertData, schedule: e.target.checked })}
+                    />
+                  }
+                  label="Book an appointment"
+                />
+                {convertData.schedule && (
+                  <>
+                    <TextField
+                      label="Start Time *"
+                      type="datetime-local"
+                      value={convertData.startTime}
+                      onChange={(e) => setConvertData({ ...convertData, startTime: e.target.value })}
+                      InputLabelProps={{ shrink: true }}
+                    />
+                    <TextField
+                      label="End Time *"
+                      type="datetime-local"
+                      value={convertData.endTime}
+                      onChange={(e) => setConvertData({ ...convertData, endTime: e.target.value })}
+                      InputLabelProps={{ shrink: true }}
+                    />
+                  </>
+                )}
+              </>
+            )}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={convertData.recordTreatment}
+                  onChange={(e) => setConvertData({ ...convertData, recordTreatment: e.target.checked })}
+                />
+              }
+              label="Record as performed treatment"
+            />
+            {convertData.recordTreatment && (
+              <TextField
+                label="Treatment Date"
+                type="date"
+                value={convertData.treatmentDate}
+                onChange={(e) => setConvertData({ ...convertData, treatmentDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConvertItem(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => handleConvert()}
+            disabled={
+              (!booking && !convertData.recordTreatment) ||
+              (booking && (!convertData.startTime || !convertData.endTime))
+            }
+          >
+            Convert
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <TreatmentAlertsDialog
+        alerts={treatmentAlerts}
+        onCancel={() => setTreatmentAlerts([])}
+        onConfirm={() => handleConvert(true)}
+      />
+    </Box>
+  );
+};
+
+export default TreatmentPlansPanel;
@@ -28,6 +28,7 @@ import {
 } from "recharts";
 import { analyticsService } from "../services/analytics.service";
 import { useAuth } from "../context/AuthContext";
+import ArAgingPanel from "../components/invoices/ArAgingPanel";
 import {
   People as PeopleIcon,
   CurrencyRupee as RupeeIcon,
@@ -386,6 +387,23 @@ const AnalyticsPage: React.FC = () => {
           </Grid>
         )}
       </Grid>
+
+      {/* Receivables Aging */}
+      {canViewAll && (
+        <Box mt={3}>
+          <CardWrapper>
+            <Typography
+              variant="h6"
+              textAlign="center"
+              fontWeight={600}
+              mb={2}
+            >
+              Receivables Aging
+            </Typography>
+            <ArAgingPanel />
+          </CardWrapper>
+        </Box>
+      )}
     </Box>
   );
 };
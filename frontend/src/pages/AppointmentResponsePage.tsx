@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Box, Card, CardContent, Button, Typography, Alert, CircularProgress } from '@mui/material';
+import { appointmentResponseService } from '../services/appointmentResponse.service';
+import { getErrorMessage } from '../utils/errors';
+import type { AppointmentResponseAction, AppointmentResponseDetails } from '../types';
+
+const ACTION_LABELS: Record<AppointmentResponseAction, string> = {
+  confirm: 'Confirm appointment',
+  cancel: 'Cancel appointment',
+  reschedule: 'Request a different time',
+};
+
+const RESPONSE_MESSAGES: Record<AppointmentResponseAction, string> = {
+  confirm: 'Thank you, your appointment is confirmed.',
+  cancel: 'Your appointment has been cancelled.',
+  reschedule: 'Thank you, the clinic will contact you to arrange a new time.',
+};
+
+/**
+ * Public page reached from the Confirm / Cancel / Reschedule links in appointment emails
+ * The action only happens when the patient clicks, so link scanners can't trigger it
+ */
+const AppointmentResponsePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const requested = searchParams.get('action') as AppointmentResponseAction | null;
+
+  const [appointment, setAppointment] = useState<AppointmentResponseDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [done, setDone] = useState<AppointmentResponseAction | null>(null);
+
+  const fetchAppointment = useCallback(async () => {
+    try {
+      setAppointment((await appointmentResponseService.getAppointment(token!)) || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'This link is invalid or has expired'));
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchAppointment();
+  }, [fetchAppointment]);
+
+  const handleRespond = async (action: AppointmentResponseAction) => {
+    try {
+      setSubmitting(true);
+      setError('');
+      setAppointment((await appointmentResponseService.respond(token!, action)) || null);
+      setDone(action);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to record your response'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isOpen = appointment && ['scheduled', 'confirmed', 'rescheduled'].includes(appointment.status);
+  const actions: AppointmentResponseAction[] = requested && ACTION_LABELS[requested]
+    ? [requested, ...(['confirm', 'cancel', 'reschedule'] as const).filter((a) => a !== requested)]
+    : ['confirm', 'cancel', 'reschedule'];
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+        padding: 2,
+      }}
+    >
+      <Card sx={{ maxWidth: 440, width: '100%' }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h5" component="h1" align="center" gutterBottom>
+            Your Appointment
+          </Typography>
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={4}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {error}
+                </Alert>
+              )}
+
+              {appointment && (
+                <>
+                  <Typography variant="body1" sx={{ mb: 2 }}>
+                    Hi {appointment.patientName},
+                  </Typography>
+                  <Typography variant="body1">
+                    <strong>Date:</strong> {new Date(appointment.startTime).toLocaleDateString()}
+                  </Typography>
+                  <Typography variant="body1">
+                    <strong>Time:</strong>{' '}
+                    {new Date(appointment.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </Typography>
+                  <Typography variant="body1" sx={{ mb: 3 }}>
+                    <strong>Doctor:</strong> Dr. {appointment.doctorName}
+                  </Typography>
+
+                  {done && (
+                    <Alert severity={done === 'cancel' ? 'info' : 'success'} sx={{ mb: 2 }}>
+                      {RESPONSE_MESSAGES[done]}
+                    </Alert>
+                  )}
+
+                  {isOpen && !done && (
+                    <Box display="flex" flexDirection="column" gap={1}>
+                      {actions.map((action, i) => (
+                        <Button
+                          key={action}
+                          fullWidth
+                          variant={i === 0 ? 'contained' : 'outlined'}
+                          color={action === 'cancel' ? 'error' : 'primary'}
+                          disabled={submitting}
+                          onClick={() => handleRespond(action)}
+                        >
+                          {ACTION_LABELS[action]}
+                        </Button>
+                      ))}
+                    </Box>
+                  )}
+
+                  {!isOpen && !done && (
+                    <Alert severity="info">
+                      This appointment is {appointment.status} and can no longer be changed online.
+                    </Alert>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default AppointmentResponsePage;
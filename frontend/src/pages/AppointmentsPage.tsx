@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import {
   Box,
   Button,
@@ -14,8 +14,17 @@ import {
   InputLabel,
   Select,
   ButtonGroup,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  FormLabel,
+  Chip,
+  IconButton,
+  ToggleButton,
+  ToggleButtonGroup,
   useTheme,
 } from '@mui/material';
+import { ChevronLeft as ChevronLeftIcon, ChevronRight as ChevronRightIcon } from '@mui/icons-material';
 import FullCalendar from '@fullcalendar/react';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
@@ -23,7 +32,22 @@ import interactionPlugin from '@fullcalendar/interaction';
 import { appointmentService } from '../services/appointment.service';
 import { patientService } from '../services/patient.service';
 import { userService } from '../services/user.service';
+import { roomService } from '../services/room.service';
+import { labCaseService } from '../services/labCase.service';
 import { useAuth } from '../context/AuthContext';
+import RecurrenceFields from '../components/appointments/RecurrenceFields';
+import MedicalAlertBanner from '../components/patient/MedicalAlertBanner';
+import ResourceTimeline from '../components/appointments/ResourceTimeline';
+import { defaultRecurrence, toRecurrenceRule } from '../utils/recurrence';
+import { LAB_CASE_STATUS_LABELS, LAB_CASE_TYPE_LABELS, getFittingWarning } from '../utils/labCases';
+import type { RecurrenceFormState } from '../utils/recurrence';
+import type { Availability, LabCase, OccurrenceConflict, Room, SeriesScope } from '../types';
+
+// datetime-local inputs expect local wall-clock time, not UTC
+const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
 
 const AppointmentsPage: React.FC = () => {
   const theme = useTheme();
@@ -33,12 +57,17 @@ const AppointmentsPage: React.FC = () => {
   const [events, setEvents] = useState<any[]>([]);
   const [patients, setPatients] = useState<any[]>([]);
   const [doctors, setDoctors] = useState<any[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [modalOpen, setModalOpen] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<any>(null);
 
-  const [currentView, setCurrentView] = useState<'dayGridMonth' | 'timeGridWeek' | 'timeGridDay'>('timeGridWeek');
+  const [currentView, setCurrentView] = useState<'dayGridMonth' | 'timeGridWeek' | 'timeGridDay' | 'resourceTimeline'>(
+    'timeGridWeek'
+  );
+  const [timelineDate, setTimelineDate] = useState(new Date());
+  const [timelineGroup, setTimelineGroup] = useState<'rooms' | 'doctors'>('rooms');
 
   const [formData, setFormData] = useState({
     patientId: '',
@@ -46,12 +75,84 @@ const AppointmentsPage: React.FC = () => {
     startTime: '',
     endTime: '',
     notes: '',
+    roomId: '',
+    equipmentIds: [] as string[],
+    labCaseId: '',
   });
+  const [recurrence, setRecurrence] = useState<RecurrenceFormState>(defaultRecurrence());
+  const [scope, setScope] = useState<SeriesScope>('this');
+  const [seriesConflicts, setSeriesConflicts] = useState<OccurrenceConflict[]>([]);
+  const [occurrenceCount, setOccurrenceCount] = useState(0);
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [labCases, setLabCases] = useState<LabCase[]>([]);
 
   useEffect(() => {
     fetchInitialData();
   }, []);
 
+  const slotDate = formData.startTime ? formData.startTime.slice(0, 10) : '';
+  const slotDuration =
+    formData.startTime && formData.endTime
+      ? Math.round((new Date(formData.endTime).getTime() - new Date(formData.startTime).getTime()) / 60000)
+      : 30;
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      const result = await appointmentService.getAvailability({
+        doctorId: formData.doctorId,
+        date: slotDate,
+        duration: slotDuration > 0 ? slotDuration : 30,
+        roomId: formData.roomId || undefined,
+      });
+      setAvailability(result);
+    } catch {
+      setAvailability(null);
+    }
+  }, [formData.doctorId, formData.roomId, slotDate, slotDuration]);
+
+  useEffect(() => {
+    if (modalOpen && formData.doctorId && slotDate) {
+      fetchAvailability();
+    } else {
+      setAvailability(null);
+    }
+  }, [modalOpen, formData.doctorId, slotDate, fetchAvailability]);
+
+  // The patient's lab work that still needs fitting, plus the case this appointment already fits
+  const fetchLabCases = useCallback(async () => {
+    try {
+      const response = await labCaseService.getLabCases({ patientId: formData.patientId, limit: 100 });
+      setLabCases(
+        (response.data || []).filter(
+          (labCase: LabCase) => labCase.status !== 'fitted' || labCase._id === formData.labCaseId
+        )
+      );
+    } catch {
+      setLabCases([]);
+    }
+  }, [formData.patientId, formData.labCaseId]);
+
+  useEffect(() => {
+    if (modalOpen && formData.patientId) {
+      fetchLabCases();
+    } else {
+      setLabCases([]);
+    }
+  }, [modalOpen, formData.patientId, fetchLabCases]);
+
+  const fittingWarning = getFittingWarning(
+    labCases.find((labCase) => labCase._id === formData.labCaseId),
+    formData.startTime
+  );
+
+  const handleSelectSlot = (slotStart: string, slotEnd: string) => {
+    setFormData({
+      ...formData,
+      startTime: toLocalInput(new Date(slotStart)),
+      endTime: toLocalInput(new Date(slotEnd)),
+    });
+  };
+
   const fetchInitialData = async () => {
     try {
       setLoading(true);
@@ -65,6 +166,8 @@ const AppointmentsPage: React.FC = () => {
         setDoctors([user]);
       }
 
+      setRooms(await roomService.getRooms());
+
       await fetchAppointments();
     } catch (err: any) {
       setError(err.error || 'Failed to load data');
@@ -104,6 +207,8 @@ const AppointmentsPage: React.FC = () => {
     switch (status) {
       case 'scheduled':
         return 'linear-gradient(135deg, #42a5f5, #1e88e5)';
+      case 'confirmed':
+        return 'linear-gradient(135deg, #26a69a, #00897b)';
       case 'completed':
         return 'linear-gradient(135deg, #66bb6a, #43a047)';
       case 'cancelled':
@@ -124,10 +229,14 @@ const AppointmentsPage: React.FC = () => {
     setFormData({
       patientId: '',
       doctorId: user?.role === 'dentist' ? user._id : '',
-      startTime: startTime.toISOString().slice(0, 16),
-      endTime: endTime.toISOString().slice(0, 16),
+      startTime: toLocalInput(startTime),
+      endTime: toLocalInput(endTime),
       notes: '',
+      roomId: '',
+      equipmentIds: [],
+      labCaseId: '',
     });
+    setRecurrence(defaultRecurrence());
 
     setSelectedEvent(null);
     setModalOpen(true);
@@ -140,15 +249,19 @@ const AppointmentsPage: React.FC = () => {
     setFormData({
       patientId: event.extendedProps.patientId,
       doctorId: event.extendedProps.doctorId,
-      startTime: new Date(event.start).toISOString().slice(0, 16),
-      endTime: new Date(event.end).toISOString().slice(0, 16),
+      startTime: toLocalInput(new Date(event.start)),
+      endTime: toLocalInput(new Date(event.end)),
       notes: event.extendedProps.notes || '',
+      roomId: event.extendedProps.roomId || '',
+      equipmentIds: event.extendedProps.equipmentIds || [],
+      labCaseId: event.extendedProps.labCaseId || '',
     });
+    setScope('this');
 
     setModalOpen(true);
   };
 
-  const handleSaveAppointment = async () => {
+  const handleSaveAppointment = async (skipConflicts = false) => {
     try {
       setError('');
 
@@ -158,25 +271,49 @@ const AppointmentsPage: React.FC = () => {
         startTime: new Date(formData.startTime).toISOString(),
         endTime: new Date(formData.endTime).toISOString(),
         notes: formData.notes,
+        roomId: formData.roomId,
+        equipmentIds: formData.equipmentIds,
+        labCaseId: formData.labCaseId,
       };
 
       if (selectedEvent) {
-        await appointmentService.updateAppointment(selectedEvent.id, appointmentData);
+        await appointmentService.updateAppointment(selectedEvent.id, {
+          ...appointmentData,
+          scope: selectedEvent.extendedProps.seriesId ? scope : undefined,
+        });
+      } else if (recurrence.enabled) {
+        await appointmentService.createAppointmentSeries({
+          ...appointmentData,
+          recurrence: toRecurrenceRule(recurrence),
+          skipConflicts,
+        });
       } else {
         await appointmentService.createAppointment(appointmentData);
       }
 
+      setSeriesConflicts([]);
       setModalOpen(false);
       fetchAppointments();
     } catch (err: any) {
+      // Series with clashing occurrences - let the user decide whether to skip them
+      if (err.conflicts?.length) {
+        setSeriesConflicts(err.conflicts);
+        setOccurrenceCount(err.occurrenceCount || 0);
+      }
       setError(err.error || 'Failed to save appointment');
     }
   };
 
+  // Only a new series can skip its clashes, and only while some occurrence is still free
+  const canSkipConflicts = !selectedEvent && seriesConflicts.length < occurrenceCount;
+
   const handleCancelAppointment = async () => {
     if (selectedEvent) {
       try {
-        await appointmentService.cancelAppointment(selectedEvent.id);
+        await appointmentService.cancelAppointment(
+          selectedEvent.id,
+          selectedEvent.extendedProps.seriesId ? scope : undefined
+        );
         setModalOpen(false);
         fetchAppointments();
       } catch (err: any) {
@@ -185,6 +322,36 @@ const AppointmentsPage: React.FC = () => {
     }
   };
 
+  const shiftTimelineDate = (days: number) => {
+    const next = new Date(timelineDate);
+    next.setDate(next.getDate() + days);
+    setTimelineDate(next);
+  };
+
+  // Rows are rooms/equipment (plus bookings without a room) or doctors
+  const timelineResources =
+    timelineGroup === 'rooms'
+      ? [
+          ...rooms.map((room) => ({ id: room._id, title: room.name })),
+          { id: 'unassigned', title: 'No room' },
+        ]
+      : doctors.map((doctor) => ({ id: doctor._id, title: `Dr. ${doctor.name}` }));
+
+  const timelineEvents = events.map((event) => {
+    const { roomId, equipmentIds = [], doctorId, doctorName, roomName, status } = event.extendedProps;
+    const roomResources = [roomId, ...equipmentIds].filter(Boolean);
+    return {
+      id: event.id,
+      title: event.title,
+      start: event.start,
+      end: event.end,
+      color: getColorForStatus(status),
+      resourceIds:
+        timelineGroup === 'rooms' ? (roomResources.length > 0 ? roomResources : ['unassigned']) : [doctorId],
+      subtitle: timelineGroup === 'rooms' ? `Dr. ${doctorName}` : roomName,
+    };
+  });
+
   return (
     <Box p={3}>
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
@@ -220,12 +387,16 @@ const AppointmentsPage: React.FC = () => {
             { label: 'Month', view: 'dayGridMonth' },
             { label: 'Week', view: 'timeGridWeek' },
             { label: 'Day', view: 'timeGridDay' },
+            { label: 'Resources', view: 'resourceTimeline' },
           ].map((btn) => (
             <Button
               key={btn.view}
               onClick={() => {
                 setCurrentView(btn.view as any);
-                calendarRef.current.getApi().changeView(btn.view);
+                // The resource view is rendered by ResourceTimeline, not FullCalendar
+                if (btn.view !== 'resourceTimeline') {
+                  calendarRef.current?.getApi().changeView(btn.view);
+                }
               }}
               sx={{
                 background: currentView === btn.view ? 'linear-gradient(135deg, #42a5f5, #1e88e5)' : '#e0e0e0',
@@ -243,9 +414,55 @@ const AppointmentsPage: React.FC = () => {
         </ButtonGroup>
       </Box>
 
+      {/* Resource Timeline */}
+      {currentView === 'resourceTimeline' && (
+        <Box
+          sx={{
+            p: 2,
+            borderRadius: 3,
+            boxShadow: 3,
+            backgroundColor: theme.palette.mode === 'dark' ? '#121212' : '#f5f5f5',
+          }}
+        >
+          <Box display="flex" alignItems="center" gap={1} mb={2}>
+            <IconButton onClick={() => shiftTimelineDate(-1)}>
+              <ChevronLeftIcon />
+            </IconButton>
+            <Button size="small" onClick={() => setTimelineDate(new Date())} sx={{ textTransform: 'none' }}>
+              Today
+            </Button>
+            <IconButton onClick={() => shiftTimelineDate(1)}>
+              <ChevronRightIcon />
+            </IconButton>
+            <Typography variant="h6" fontWeight={600} sx={{ flexGrow: 1 }}>
+              {timelineDate.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+            </Typography>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={timelineGroup}
+              onChange={(_, value) => value && setTimelineGroup(value)}
+            >
+              <ToggleButton value="rooms">Rooms</ToggleButton>
+              <ToggleButton value="doctors">Doctors</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+          <ResourceTimeline
+            date={timelineDate}
+            resources={timelineResources}
+            events={timelineEvents}
+            onEventClick={(id) => {
+              const event = events.find((e) => e.id === id);
+              if (event) handleEventClick({ event });
+            }}
+          />
+        </Box>
+      )}
+
       {/* Modern Calendar */}
       <Box
         sx={{
+          display: currentView === 'resourceTimeline' ? 'none' : 'block',
           height: '720px',
           p: 2,
           borderRadius: 3,
@@ -311,6 +528,7 @@ const AppointmentsPage: React.FC = () => {
               : '';
             const statusColorMap: any = {
               scheduled: theme.palette.info.main,
+              confirmed: theme.palette.success.dark,
               completed: theme.palette.success.main,
               cancelled: theme.palette.error.main,
               rescheduled: theme.palette.warning.main,
@@ -390,6 +608,11 @@ const AppointmentsPage: React.FC = () => {
                     {extendedProps.status}
                   </Box>
                 </Box>
+                {extendedProps.rescheduleRequested && (
+                  <Typography sx={{ fontSize: '0.65rem', mt: 0.5, fontStyle: 'italic' }}>
+                    Patient asked to reschedule
+                  </Typography>
+                )}
               </Box>
             );
           }}
@@ -405,11 +628,12 @@ const AppointmentsPage: React.FC = () => {
         </DialogTitle>
         <DialogContent sx={{ mt: 1 }}>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <MedicalAlertBanner patient={patients.find((patient) => patient._id === formData.patientId)} dense />
             <FormControl fullWidth>
               <InputLabel>Patient *</InputLabel>
               <Select
                 value={formData.patientId}
-                onChange={(e) => setFormData({ ...formData, patientId: e.target.value })}
+                onChange={(e) => setFormData({ ...formData, patientId: e.target.value, labCaseId: '' })}
                 label="Patient *"
                 sx={{ borderRadius: 2 }}
               >
@@ -436,6 +660,55 @@ const AppointmentsPage: React.FC = () => {
                 ))}
               </Select>
             </FormControl>
+            <Box display="flex" gap={2}>
+              <TextField
+                select
+                label="Room"
+                value={formData.roomId}
+                onChange={(e) => setFormData({ ...formData, roomId: e.target.value })}
+                sx={{ flex: 1 }}
+              >
+                <MenuItem value="">
+                  <em>None</em>
+                </MenuItem>
+                {rooms
+                  .filter((room) => room.kind === 'room')
+                  .map((room) => (
+                    <MenuItem key={room._id} value={room._id}>
+                      {room.name}
+                    </MenuItem>
+                  ))}
+              </TextField>
+              <FormControl sx={{ flex: 1 }}>
+                <InputLabel>Equipment</InputLabel>
+                <Select
+                  multiple
+                  value={formData.equipmentIds}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      equipmentIds:
+                        typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value,
+                    })
+                  }
+                  label="Equipment"
+                  renderValue={(selected) =>
+                    rooms
+                      .filter((room) => selected.includes(room._id))
+                      .map((room) => room.name)
+                      .join(', ')
+                  }
+                >
+                  {rooms
+                    .filter((room) => room.kind === 'equipment')
+                    .map((room) => (
+                      <MenuItem key={room._id} value={room._id}>
+                        {room.name}
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+            </Box>
             <TextField
               label="Start Time *"
               type="datetime-local"
@@ -452,6 +725,26 @@ const AppointmentsPage: React.FC = () => {
               InputLabelProps={{ shrink: true }}
               sx={{ borderRadius: 2 }}
             />
+            {labCases.length > 0 && !recurrence.enabled && (
+              <TextField
+                select
+                label="Fitting for lab case"
+                value={formData.labCaseId}
+                onChange={(e) => setFormData({ ...formData, labCaseId: e.target.value })}
+              >
+                <MenuItem value="">
+                  <em>None</em>
+                </MenuItem>
+                {labCases.map((labCase) => (
+                  <MenuItem key={labCase._id} value={labCase._id}>
+                    {labCase.caseNumber} · {LAB_CASE_TYPE_LABELS[labCase.caseType]}
+                    {labCase.toothNumbers.length > 0 && ` (${labCase.toothNumbers.join(', ')})`} ·{' '}
+                    {LAB_CASE_STATUS_LABELS[labCase.status]}, due {new Date(labCase.expectedReturnDate).toLocaleDateString()}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+            {fittingWarning && <Alert severity="warning">{fittingWarning}</Alert>}
             <TextField
               label="Notes"
               multiline
@@ -460,6 +753,42 @@ const AppointmentsPage: React.FC = () => {
               onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
               sx={{ borderRadius: 2 }}
             />
+            {availability && (
+              <Box>
+                <Typography variant="subtitle2" mb={1}>
+                  Suggested times
+                </Typography>
+                {availability.slots.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    {availability.reason || 'No free slots on this day'}
+                  </Typography>
+                ) : (
+                  <Box display="flex" flexWrap="wrap" gap={1}>
+                    {availability.slots.slice(0, 24).map((slot) => (
+                      <Chip
+                        key={slot.startTime}
+                        label={new Date(slot.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        size="small"
+                        clickable
+                        color={toLocalInput(new Date(slot.startTime)) === formData.startTime ? 'primary' : 'default'}
+                        onClick={() => handleSelectSlot(slot.startTime, slot.endTime)}
+                      />
+                    ))}
+                  </Box>
+                )}
+              </Box>
+            )}
+            {!selectedEvent && <RecurrenceFields value={recurrence} onChange={setRecurrence} />}
+            {selectedEvent?.extendedProps.seriesId && (
+              <FormControl>
+                <FormLabel>Apply changes to</FormLabel>
+                <RadioGroup row value={scope} onChange={(e) => setScope(e.target.value as SeriesScope)}>
+                  <FormControlLabel value="this" control={<Radio />} label="This appointment" />
+                  <FormControlLabel value="following" control={<Radio />} label="This and following" />
+                  <FormControlLabel value="all" control={<Radio />} label="All in series" />
+                </RadioGroup>
+              </FormControl>
+            )}
           </Box>
         </DialogContent>
         <DialogActions sx={{ px: 3, py: 2 }}>
@@ -473,7 +802,7 @@ const AppointmentsPage: React.FC = () => {
             Close
           </Button>
           <Button
-            onClick={handleSaveAppointment}
+            onClick={() => handleSaveAppointment()}
             variant="contained"
             disabled={!formData.patientId || !formData.doctorId || !formData.startTime || !formData.endTime}
             sx={{
@@ -487,6 +816,39 @@ const AppointmentsPage: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Series Conflicts */}
+      <Dialog open={seriesConflicts.length > 0} onClose={() => setSeriesConflicts([])} maxWidth="xs" fullWidth>
+        <DialogTitle sx={{ fontWeight: 700 }}>Conflicting Occurrences</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" mb={1}>
+            These occurrences cannot be booked:
+          </Typography>
+          {seriesConflicts.map((conflict) => (
+            <Typography key={conflict.startTime} variant="body2" color="error">
+              {new Date(conflict.startTime).toLocaleString([], {
+                dateStyle: 'medium',
+                timeStyle: 'short',
+              })}{' '}
+              - {conflict.reason}
+            </Typography>
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSeriesConflicts([])} sx={{ textTransform: 'none' }}>
+            Back
+          </Button>
+          {canSkipConflicts && (
+            <Button
+              variant="contained"
+              onClick={() => handleSaveAppointment(true)}
+              sx={{ textTransform: 'none' }}
+            >
+              Skip These & Create Rest
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Paper,
+  Typography,
+  CircularProgress,
+  Alert,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
+  useTheme,
+} from '@mui/material';
+import { claimService } from '../services/claim.service';
+import ClaimDetailDialog from '../components/claims/ClaimDetailDialog';
+import { getErrorMessage } from '../utils/errors';
+import type { ClaimStatus, ClaimSummary, InsuranceClaim } from '../types';
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  partially_approved: 'Partially Approved',
+  rejected: 'Rejected',
+  paid: 'Paid',
+};
+
+const STATUS_COLORS: Record<ClaimStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+  draft: 'default',
+  submitted: 'info',
+  approved: 'success',
+  partially_approved: 'warning',
+  rejected: 'error',
+  paid: 'success',
+};
+
+const ClaimsPage: React.FC = () => {
+  const theme = useTheme();
+
+  const [claims, setClaims] = useState<InsuranceClaim[]>([]);
+  const [summary, setSummary] = useState<ClaimSummary[]>([]);
+  const [status, setStatus] = useState<ClaimStatus | 'all'>('submitted');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [total, setTotal] = useState(0);
+  const [selectedClaimId, setSelectedClaimId] = useState<string | null>(null);
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      setLoading(true);
+      const claimsRes = await claimService.getClaims({
+        status: status === 'all' ? undefined : status,
+        page: page + 1,
+        limit: rowsPerPage,
+      });
+      setClaims(claimsRes.data || []);
+      setTotal(claimsRes.total || 0);
+      setSummary(await claimService.getSummary());
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load claims'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const countFor = (claimStatus: ClaimStatus) => summary.find((entry) => entry.status === claimStatus)?.count || 0;
+
+  // Approved but not yet paid by the insurer
+  const receivable = summary
+    .filter((entry) => entry.status === 'approved' || entry.status === 'partially_approved')
+    .reduce((sum, entry) => sum + entry.approvedAmount - entry.paidAmount, 0);
+
+  return (
+    <Box p={4} sx={{ backgroundColor: theme.palette.background.default, minHeight: '100vh' }}>
+      {/* Header */}
+      <Box
+        mb={4}
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{
+          backgroundColor: theme.palette.primary.main,
+          color: 'white',
+          borderRadius: 2,
+          p: 3,
+          boxShadow: 3,
+        }}
+      >
+        <Typography variant="h5" fontWeight="600">
+          Insurance Claims
+        </Typography>
+        <Typography variant="body1">Awaiting insurer payment: ₹{receivable.toFixed(2)}</Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={status}
+        onChange={(_, value) => {
+          if (value) {
+            setStatus(value);
+            setPage(0);
+          }
+        }}
+        sx={{ mb: 2, flexWrap: 'wrap' }}
+      >
+        {(Object.keys(STATUS_LABELS) as ClaimStatus[]).map((claimStatus) => (
+          <ToggleButton key={claimStatus} value={claimStatus}>
+            {STATUS_LABELS[claimStatus]} ({countFor(claimStatus)})
+          </ToggleButton>
+        ))}
+        <ToggleButton value="all">All</ToggleButton>
+      </ToggleButtonGroup>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" height="50vh">
+          <CircularProgress size={60} />
+        </Box>
+      ) : (
+        <Paper elevation={3} sx={{ borderRadius: 3, overflow: 'hidden' }}>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow sx={{ backgroundColor: theme.palette.primary.main }}>
+                  {['Claim #', 'Patient', 'Insurer', 'Invoice', 'Claimed', 'Approved', 'Paid', 'Status', 'Updated'].map(
+                    (header) => (
+                      <TableCell key={header} sx={{ color: 'white', fontWeight: 600 }}>
+                        {header}
+                      </TableCell>
+                    )
+                  )}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {claims.map((claim) => (
+                  <TableRow key={claim._id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelectedClaimId(claim._id)}>
+                    <TableCell>{claim.claimNumber}</TableCell>
+                    <TableCell>{typeof claim.patientId === 'object' ? claim.patientId.name : 'Unknown'}</TableCell>
+                    <TableCell>{typeof claim.providerId === 'object' ? claim.providerId.name : '-'}</TableCell>
+                    <TableCell>{typeof claim.invoiceId === 'object' ? claim.invoiceId.invoiceNumber : '-'}</TableCell>
+                    <TableCell>₹{claim.claimedAmount.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {['approved', 'partially_approved', 'paid'].includes(claim.status)
+                        ? `₹${claim.approvedAmount.toFixed(2)}`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>₹{claim.paidAmount.toFixed(2)}</TableCell>
+                    <TableCell>
+                      <Chip label={STATUS_LABELS[claim.status]} size="small" color={STATUS_COLORS[claim.status]} />
+                    </TableCell>
+                    <TableCell>{new Date(claim.updatedAt).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                ))}
+                {claims.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} align="center">
+                      <Typography color="text.secondary" sx={{ py: 3 }}>
+                        No claims here.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[5, 10, 25, 50]}
+          />
+        </Paper>
+      )}
+
+      <ClaimDetailDialog claimId={selectedClaimId} onClose={() => setSelectedClaimId(null)} onChange={fetchClaims} />
+    </Box>
+  );
+};
+
+export default ClaimsPage;
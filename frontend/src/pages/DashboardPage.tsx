@@ -18,6 +18,7 @@ import {
 
 import { useAuth } from '../context/AuthContext';
 import api from '../services/api';
+import InventoryAlertsCard from '../components/inventory/InventoryAlertsCard';
 import type { DashboardMetrics, ApiResponse } from '../types';
 
 const DashboardPage: React.FC = () => {
@@ -173,6 +174,8 @@ const DashboardPage: React.FC = () => {
         </Grid>
       </Grid>
 
+      <InventoryAlertsCard canManage={user?.role === 'admin' || user?.role === 'receptionist'} />
+
       {/* Placeholder for charts / analytics */}
       <Box
         mt={4}
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Box, Tabs, Tab, Typography, useTheme } from '@mui/material';
+import ItemsPanel from '../components/inventory/ItemsPanel';
+import PurchaseOrdersPanel from '../components/inventory/PurchaseOrdersPanel';
+import SuppliersPanel from '../components/inventory/SuppliersPanel';
+
+const InventoryPage: React.FC = () => {
+  const theme = useTheme();
+  const [tab, setTab] = useState(0);
+
+  return (
+    <Box
+      p={4}
+      sx={{
+        backgroundColor: theme.palette.background.default,
+        minHeight: '100vh',
+      }}
+    >
+      {/* Header */}
+      <Box
+        mb={4}
+        sx={{
+          backgroundColor: theme.palette.primary.main,
+          color: 'white',
+          borderRadius: 2,
+          p: 3,
+          boxShadow: 3,
+        }}
+      >
+        <Typography variant="h5" fontWeight="600">
+          Inventory
+        </Typography>
+      </Box>
+
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3 }}>
+        <Tab label="Items" />
+        <Tab label="Purchase Orders" />
+        <Tab label="Suppliers" />
+      </Tabs>
+
+      {tab === 0 && <ItemsPanel />}
+      {tab === 1 && <PurchaseOrdersPanel />}
+      {tab === 2 && <SuppliersPanel />}
+    </Box>
+  );
+};
+
+export default InventoryPage;
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Box,
   Button,
@@ -30,6 +30,8 @@ import {
   Checkbox,
   useTheme,
   Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -39,7 +41,30 @@ import {
 import { useAuth } from '../context/AuthContext';
 import { invoiceService } from '../services/invoice.service';
 import { patientService } from '../services/patient.service';
-import type { Invoice } from '../types';
+import PaymentsPanel from '../components/invoices/PaymentsPanel';
+import CreditNotesPanel from '../components/invoices/CreditNotesPanel';
+import CreateClaimDialog from '../components/claims/CreateClaimDialog';
+import LineItemsEditor from '../components/invoices/LineItemsEditor';
+import { getDaysOverdue, isOverdue } from '../utils/invoiceStatus';
+import type { Invoice, InvoiceLineItemInput, Treatment } from '../types';
+
+const toLineItemInput = ({
+  _id,
+  treatmentId,
+  description,
+  quantity,
+  unitPrice,
+  discountPercent,
+  taxRate,
+}: InvoiceLineItemInput): InvoiceLineItemInput => ({
+  _id,
+  treatmentId,
+  description,
+  quantity,
+  unitPrice,
+  discountPercent,
+  taxRate,
+});
 
 const InvoicesPage: React.FC = () => {
   const { user } = useAuth();
@@ -52,25 +77,28 @@ const InvoicesPage: React.FC = () => {
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<Invoice['status'] | 'overdue' | 'all'>('all');
 
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
+  const [claimDialogOpen, setClaimDialogOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
 
   const [selectedPatient, setSelectedPatient] = useState('');
   const [patientTreatments, setPatientTreatments] = useState<any[]>([]);
-  const [selectedTreatments, setSelectedTreatments] = useState<string[]>([]);
-  const [editFormData, setEditFormData] = useState({ paidAmount: '', notes: '' });
-
-  useEffect(() => {
-    fetchData();
-  }, [page, rowsPerPage]);
+  const [lineItems, setLineItems] = useState<InvoiceLineItemInput[]>([]);
+  const [editFormData, setEditFormData] = useState({ dueDate: '', notes: '' });
+  const [editLineItems, setEditLineItems] = useState<InvoiceLineItemInput[]>([]);
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setLoading(true);
-      const invoicesRes = await invoiceService.getInvoices({ page: page + 1, limit: rowsPerPage });
+      const invoicesRes = await invoiceService.getInvoices({
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        page: page + 1,
+        limit: rowsPerPage,
+      });
       setInvoices(invoicesRes.data || []);
       setTotal(invoicesRes.total || 0);
 
@@ -84,11 +112,15 @@ const InvoicesPage: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [page, rowsPerPage, statusFilter, user?.role]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
 
   const handlePatientSelect = async (patientId: string) => {
     setSelectedPatient(patientId);
-    setSelectedTreatments([]);
+    setLineItems([]);
     try {
       const treatments = await patientService.getPatientTreatments(patientId);
       setPatientTreatments(treatments);
@@ -99,22 +131,24 @@ const InvoicesPage: React.FC = () => {
 
   const handleCreateInvoice = async () => {
     try {
-      await invoiceService.createInvoice({ patientId: selectedPatient, treatmentIds: selectedTreatments });
+      await invoiceService.createInvoice({ patientId: selectedPatient, lineItems });
       setCreateModalOpen(false);
       setSelectedPatient('');
-      setSelectedTreatments([]);
+      setLineItems([]);
       fetchData();
     } catch (err: any) {
       setError(err.error || 'Failed to create invoice');
     }
   };
 
-  const handleUpdateInvoice = async () => {
+  const handleUpdateInvoice = async (status?: Invoice['status']) => {
     if (!selectedInvoice) return;
     try {
       await invoiceService.updateInvoice(selectedInvoice._id, {
-        paidAmount: parseFloat(editFormData.paidAmount),
+        dueDate: editFormData.dueDate || undefined,
         notes: editFormData.notes,
+        status,
+        lineItems: canEditLineItems ? editLineItems : undefined,
       });
       setEditModalOpen(false);
       setSelectedInvoice(null);
@@ -124,6 +158,21 @@ const InvoicesPage: React.FC = () => {
     }
   };
 
+  // A payment, refund, credit note or insurance claim changed the invoice's derived amounts
+  const handleLedgerChange = (updated: Invoice) => {
+    if (selectedInvoice) {
+      setSelectedInvoice({
+        ...selectedInvoice,
+        paidAmount: updated.paidAmount,
+        creditedAmount: updated.creditedAmount,
+        insuranceAmount: updated.insuranceAmount,
+        patientAmount: updated.patientAmount,
+        status: updated.status,
+      });
+    }
+    fetchData();
+  };
+
   const handleViewInvoice = async (invoice: Invoice) => {
     try {
       const fullInvoice = await invoiceService.getInvoiceById(invoice._id);
@@ -137,18 +186,40 @@ const InvoicesPage: React.FC = () => {
   const handleEditInvoice = (invoice: Invoice) => {
     setSelectedInvoice(invoice);
     setEditFormData({
-      paidAmount: invoice.paidAmount.toString(),
+      dueDate: invoice.dueDate ? invoice.dueDate.slice(0, 10) : '',
       notes: invoice.notes || '',
     });
+    setEditLineItems(invoice.lineItems.map(toLineItemInput));
     setEditModalOpen(true);
   };
 
-  const getTotalAmount = () =>
-    patientTreatments
-      .filter((t) => selectedTreatments.includes(t._id))
-      .reduce((sum, t) => sum + t.cost, 0);
+  const toggleTreatment = (treatment: Treatment & { taxRate?: number }) => {
+    setLineItems((prev) =>
+      prev.some((item) => item.treatmentId === treatment._id)
+        ? prev.filter((item) => item.treatmentId !== treatment._id)
+        : [
+            ...prev,
+            {
+              treatmentId: treatment._id,
+              description: treatment.treatmentType,
+              quantity: 1,
+              unitPrice: treatment.cost,
+              discountPercent: 0,
+              taxRate: treatment.taxRate ?? 0,
+            },
+          ]
+    );
+  };
 
   const canCreate = user?.role === 'admin' || user?.role === 'receptionist';
+  // Credit notes point at the existing lines, so those stay fixed once one is issued
+  const canEditLineItems =
+    !!selectedInvoice &&
+    selectedInvoice.creditedAmount === 0 &&
+    selectedInvoice.insuranceAmount === 0 &&
+    editLineItems.length > 0;
+  const hasInvalidLine = (items: InvoiceLineItemInput[]) =>
+    items.some((item) => !item.description.trim() || !(item.quantity > 0) || item.unitPrice < 0);
 
   return (
     <Box
@@ -199,6 +270,27 @@ const InvoicesPage: React.FC = () => {
         </Alert>
       )}
 
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={statusFilter}
+        onChange={(_, value) => {
+          if (value) {
+            setStatusFilter(value);
+            setPage(0);
+          }
+        }}
+        sx={{ mb: 2, flexWrap: 'wrap' }}
+      >
+        <ToggleButton value="all">All</ToggleButton>
+        <ToggleButton value="pending">Pending</ToggleButton>
+        <ToggleButton value="partial">Partial</ToggleButton>
+        <ToggleButton value="overdue">Overdue</ToggleButton>
+        <ToggleButton value="paid">Paid</ToggleButton>
+        <ToggleButton value="credited">Credited</ToggleButton>
+        <ToggleButton value="cancelled">Cancelled</ToggleButton>
+      </ToggleButtonGroup>
+
       {/* Table Section */}
       {loading ? (
         <Box display="flex" justifyContent="center" alignItems="center" height="50vh">
@@ -253,9 +345,16 @@ const InvoicesPage: React.FC = () => {
                             ? 'success'
                             : invoice.status === 'partial'
                             ? 'warning'
+                            : invoice.status === 'credited'
+                            ? 'info'
                             : 'default'
                         }
                       />
+                      {isOverdue(invoice) && (
+                        <Tooltip title={`${getDaysOverdue(invoice)} days past due`} arrow>
+                          <Chip label="overdue" size="small" color="error" sx={{ ml: 1 }} />
+                        </Tooltip>
+                      )}
                     </TableCell>
 
                     {/* --- Centered Action Buttons (View + Edit only) --- */}
@@ -335,15 +434,9 @@ const InvoicesPage: React.FC = () => {
                       key={treatment._id}
                       dense
                       button
-                      onClick={() =>
-                        setSelectedTreatments((prev) =>
-                          prev.includes(treatment._id)
-                            ? prev.filter((id) => id !== treatment._id)
-                            : [...prev, treatment._id]
-                        )
-                      }
+                      onClick={() => toggleTreatment(treatment)}
                     >
-                      <Checkbox checked={selectedTreatments.includes(treatment._id)} edge="start" />
+                      <Checkbox checked={lineItems.some((item) => item.treatmentId === treatment._id)} edge="start" />
                       <ListItemText
                         primary={treatment.treatmentType}
                         secondary={`${new Date(
@@ -353,30 +446,24 @@ const InvoicesPage: React.FC = () => {
                     </ListItem>
                   ))}
                 </List>
-
-                <Box
-                  display="flex"
-                  justifyContent="space-between"
-                  alignItems="center"
-                  p={2}
-                  bgcolor="background.default"
-                  borderRadius={1}
-                >
-                  <Typography variant="h6">Total Amount:</Typography>
-                  <Typography variant="h6">₹{getTotalAmount().toFixed(2)}</Typography>
-                </Box>
               </>
             )}
             {selectedPatient && patientTreatments.length === 0 && (
               <Alert severity="info">No treatments found for this patient</Alert>
             )}
+            {selectedPatient && (
+              <>
+                <Typography variant="subtitle1">Line Items:</Typography>
+                <LineItemsEditor items={lineItems} onChange={setLineItems} />
+              </>
+            )}
           </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setCreateModalOpen(false)}>Cancel</Button>
           <Button
             variant="contained"
-            disabled={!selectedPatient || selectedTreatments.length === 0}
+            disabled={!selectedPatient || lineItems.length === 0 || hasInvalidLine(lineItems)}
             onClick={handleCreateInvoice}
           >
             Create Invoice
@@ -405,43 +492,88 @@ const InvoicesPage: React.FC = () => {
               <Typography>
                 <strong>Status:</strong>{' '}
                 <Chip label={selectedInvoice.status} size="small" />
+                {isOverdue(selectedInvoice) && (
+                  <Chip
+                    label={`overdue ${getDaysOverdue(selectedInvoice)} days`}
+                    size="small"
+                    color="error"
+                    sx={{ ml: 1 }}
+                  />
+                )}
               </Typography>
 
               <Typography variant="subtitle1" sx={{ mt: 2 }}>
-                Treatments:
+                Items:
               </Typography>
               <TableContainer>
                 <Table size="small">
                   <TableHead>
                     <TableRow>
-                      <TableCell>Treatment</TableCell>
-                      <TableCell>Date</TableCell>
-                      <TableCell align="right">Cost</TableCell>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="right">Qty</TableCell>
+                      <TableCell align="right">Unit Price</TableCell>
+                      <TableCell align="right">Discount</TableCell>
+                      <TableCell align="right">Tax</TableCell>
+                      <TableCell align="right">Amount</TableCell>
                     </TableRow>
                   </TableHead>
                   <TableBody>
-                    {Array.isArray(selectedInvoice.treatmentIds) &&
-                      selectedInvoice.treatmentIds.map((treatment: any, idx) => (
-                        <TableRow key={idx}>
-                          <TableCell>{treatment.treatmentType || 'Unknown'}</TableCell>
-                          <TableCell>
-                            {treatment.treatmentDate
-                              ? new Date(treatment.treatmentDate).toLocaleDateString()
-                              : 'N/A'}
-                          </TableCell>
-                          <TableCell align="right">
-                            ₹{treatment.cost?.toFixed(2) || '0.00'}
-                          </TableCell>
-                        </TableRow>
-                      ))}
+                    {selectedInvoice.lineItems.map((item) => (
+                      <TableRow key={item._id}>
+                        <TableCell>{item.description}</TableCell>
+                        <TableCell align="right">{item.quantity}</TableCell>
+                        <TableCell align="right">₹{item.unitPrice.toFixed(2)}</TableCell>
+                        <TableCell align="right">{item.discountPercent ? `${item.discountPercent}%` : '-'}</TableCell>
+                        <TableCell align="right">{item.taxRate}%</TableCell>
+                        <TableCell align="right">₹{item.total.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
                   </TableBody>
                 </Table>
               </TableContainer>
 
+              <Box display="flex" justifyContent="space-between" px={2}>
+                <Typography>Subtotal:</Typography>
+                <Typography>₹{selectedInvoice.subtotal.toFixed(2)}</Typography>
+              </Box>
+              {selectedInvoice.discountTotal > 0 && (
+                <Box display="flex" justifyContent="space-between" px={2}>
+                  <Typography>Discount:</Typography>
+                  <Typography>-₹{selectedInvoice.discountTotal.toFixed(2)}</Typography>
+                </Box>
+              )}
+              {selectedInvoice.taxSummary
+                .filter((tax) => tax.rate > 0)
+                .map((tax) => (
+                  <Box key={tax.rate} display="flex" justifyContent="space-between" px={2}>
+                    <Typography>
+                      Tax {tax.rate}% on ₹{tax.taxableAmount.toFixed(2)}:
+                    </Typography>
+                    <Typography>₹{tax.taxAmount.toFixed(2)}</Typography>
+                  </Box>
+                ))}
               <Box display="flex" justifyContent="space-between" p={2} bgcolor="background.default" borderRadius={1}>
                 <Typography><strong>Total:</strong></Typography>
                 <Typography>₹{selectedInvoice.totalAmount.toFixed(2)}</Typography>
               </Box>
+              {selectedInvoice.creditedAmount > 0 && (
+                <Box display="flex" justifyContent="space-between" px={2}>
+                  <Typography><strong>Credited:</strong></Typography>
+                  <Typography>-₹{selectedInvoice.creditedAmount.toFixed(2)}</Typography>
+                </Box>
+              )}
+              {selectedInvoice.insuranceAmount > 0 && (
+                <>
+                  <Box display="flex" justifyContent="space-between" px={2}>
+                    <Typography><strong>Insurance Share:</strong></Typography>
+                    <Typography>₹{selectedInvoice.insuranceAmount.toFixed(2)}</Typography>
+                  </Box>
+                  <Box display="flex" justifyContent="space-between" px={2}>
+                    <Typography><strong>Patient Share:</strong></Typography>
+                    <Typography>₹{selectedInvoice.patientAmount.toFixed(2)}</Typography>
+                  </Box>
+                </>
+              )}
               <Box display="flex" justifyContent="space-between" px={2}>
                 <Typography><strong>Paid:</strong></Typography>
                 <Typography>₹{selectedInvoice.paidAmount.toFixed(2)}</Typography>
@@ -449,10 +581,16 @@ const InvoicesPage: React.FC = () => {
               <Box display="flex" justifyContent="space-between" px={2}>
                 <Typography><strong>Balance:</strong></Typography>
                 <Typography color="error">
-                  ₹{(selectedInvoice.totalAmount - selectedInvoice.paidAmount).toFixed(2)}
+                  ₹{(selectedInvoice.totalAmount - selectedInvoice.creditedAmount - selectedInvoice.paidAmount).toFixed(2)}
                 </Typography>
               </Box>
 
+              {canCreate && (
+                <PaymentsPanel invoice={selectedInvoice} canRecord={canCreate} onChange={handleLedgerChange} />
+              )}
+
+              <CreditNotesPanel invoice={selectedInvoice} canIssue={canCreate} onChange={handleLedgerChange} />
+
               {selectedInvoice.notes && (
                 <>
                   <Typography variant="subtitle1" sx={{ mt: 2 }}>
@@ -467,25 +605,44 @@ const InvoicesPage: React.FC = () => {
           )}
         </DialogContent>
         <DialogActions>
+          {canCreate && selectedInvoice?.status !== 'cancelled' && (
+            <Button onClick={() => setClaimDialogOpen(true)} sx={{ mr: 'auto' }}>
+              Claim Insurance
+            </Button>
+          )}
           <Button onClick={() => setViewModalOpen(false)}>Close</Button>
         </DialogActions>
       </Dialog>
 
+      {selectedInvoice && (
+        <CreateClaimDialog
+          invoice={selectedInvoice}
+          open={claimDialogOpen}
+          onClose={() => setClaimDialogOpen(false)}
+          onCreated={handleLedgerChange}
+        />
+      )}
+
       {/* Edit Modal */}
-      <Dialog open={editModalOpen} onClose={() => setEditModalOpen(false)} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
-        <DialogTitle sx={{ fontWeight: 600 }}>Update Payment</DialogTitle>
+      <Dialog open={editModalOpen} onClose={() => setEditModalOpen(false)} maxWidth={canEditLineItems ? 'md' : 'sm'} fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+        <DialogTitle sx={{ fontWeight: 600 }}>Edit Invoice</DialogTitle>
         <DialogContent dividers>
           {selectedInvoice && (
             <Box display="flex" flexDirection="column" gap={2}>
               <Typography>Invoice: {selectedInvoice.invoiceNumber}</Typography>
               <Typography>Total: ₹{selectedInvoice.totalAmount.toFixed(2)}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                Payments are recorded from the invoice details.
+              </Typography>
+
+              {canEditLineItems && <LineItemsEditor items={editLineItems} onChange={setEditLineItems} />}
 
               <TextField
-                label="Paid Amount"
-                type="number"
-                value={editFormData.paidAmount}
-                onChange={(e) => setEditFormData({ ...editFormData, paidAmount: e.target.value })}
-                helperText={`Maximum: ₹${selectedInvoice.totalAmount.toFixed(2)}`}
+                label="Due Date"
+                type="date"
+                value={editFormData.dueDate}
+                onChange={(e) => setEditFormData({ ...editFormData, dueDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
               />
               <TextField
                 label="Notes"
@@ -498,14 +655,28 @@ const InvoicesPage: React.FC = () => {
           )}
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setEditModalOpen(false)}>Cancel</Button>
+          {selectedInvoice?.status === 'cancelled' ? (
+            <Button onClick={() => handleUpdateInvoice('pending')} sx={{ mr: 'auto' }}>
+              Reopen Invoice
+            </Button>
+          ) : (
+            <Tooltip title={selectedInvoice?.paidAmount ? 'Void its payments first' : ''}>
+              <span style={{ marginRight: 'auto' }}>
+                <Button
+                  color="error"
+                  onClick={() => handleUpdateInvoice('cancelled')}
+                  disabled={!!selectedInvoice?.paidAmount}
+                >
+                  Cancel Invoice
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+          <Button onClick={() => setEditModalOpen(false)}>Close</Button>
           <Button
-            onClick={handleUpdateInvoice}
+            onClick={() => handleUpdateInvoice()}
             variant="contained"
-            disabled={
-              !editFormData.paidAmount ||
-              parseFloat(editFormData.paidAmount) > (selectedInvoice?.totalAmount || 0)
-            }
+            disabled={canEditLineItems && hasInvalidLine(editLineItems)}
           >
             Update
           </Button>
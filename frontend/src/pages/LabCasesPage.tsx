@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Box, Tabs, Tab, Typography, useTheme } from '@mui/material';
+import { useAuth } from '../context/AuthContext';
+import LabCasesPanel from '../components/labCases/LabCasesPanel';
+import DentalLabsPanel from '../components/labCases/DentalLabsPanel';
+
+const LabCasesPage: React.FC = () => {
+  const theme = useTheme();
+  const { user } = useAuth();
+  const [tab, setTab] = useState(0);
+
+  const canManageLabs = user?.role === 'admin' || user?.role === 'receptionist';
+
+  return (
+    <Box
+      p={4}
+      sx={{
+        backgroundColor: theme.palette.background.default,
+        minHeight: '100vh',
+      }}
+    >
+      {/* Header */}
+      <Box
+        mb={4}
+        sx={{
+          backgroundColor: theme.palette.primary.main,
+          color: 'white',
+          borderRadius: 2,
+          p: 3,
+          boxShadow: 3,
+        }}
+      >
+        <Typography variant="h5" fontWeight="600">
+          Lab Cases
+        </Typography>
+      </Box>
+
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3 }}>
+        <Tab label="Cases" />
+        {canManageLabs && <Tab label="Labs" />}
+      </Tabs>
+
+      {tab === 0 && <LabCasesPanel />}
+      {tab === 1 && canManageLabs && <DentalLabsPanel />}
+    </Box>
+  );
+};
+
+export default LabCasesPage;
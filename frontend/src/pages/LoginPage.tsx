@@ -31,8 +31,8 @@ const LoginPage: React.FC = () => {
     setLoading(true);
 
     try {
-      await login({ email, password });
-      navigate('/dashboard');
+      const loggedInUser = await login({ email, password });
+      navigate(loggedInUser.role === 'patient' ? '/portal' : '/dashboard');
     } catch (err: any) {
       setError(err.message || 'Invalid email or password');
     } finally {
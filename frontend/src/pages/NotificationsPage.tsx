@@ -0,0 +1,47 @@
+import React from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import ReminderRulesPanel from '../components/notifications/ReminderRulesPanel';
+import NotificationOutboxPanel from '../components/notifications/NotificationOutboxPanel';
+
+const NotificationsPage: React.FC = () => {
+  const theme = useTheme();
+
+  return (
+    <Box
+      p={4}
+      sx={{
+        backgroundColor: theme.palette.background.default,
+        minHeight: '100vh',
+      }}
+    >
+      <Box
+        mb={4}
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{
+          backgroundColor: theme.palette.primary.main,
+          color: 'white',
+          borderRadius: 2,
+          p: 3,
+          boxShadow: 3,
+        }}
+      >
+        <Typography variant="h5" fontWeight="600">
+          Notifications
+        </Typography>
+      </Box>
+
+      <Box display="flex" gap={3} flexWrap="wrap" alignItems="flex-start">
+        <Box sx={{ flex: '2 1 640px', minWidth: 0 }}>
+          <NotificationOutboxPanel />
+        </Box>
+        <Box sx={{ flex: '1 1 380px' }}>
+          <ReminderRulesPanel />
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default NotificationsPage;
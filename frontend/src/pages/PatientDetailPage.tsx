@@ -19,11 +19,33 @@ import {
   TableRow,
   Paper,
   Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Tooltip,
   useTheme,
 } from '@mui/material';
-import { ArrowBack as BackIcon, Edit as EditIcon } from '@mui/icons-material';
+import {
+  ArrowBack as BackIcon,
+  Edit as EditIcon,
+  Key as KeyIcon,
+  Payments as PaymentsIcon,
+} from '@mui/icons-material';
 import { patientService } from '../services/patient.service';
-import type { Patient } from '../types';
+import { useAuth } from '../context/AuthContext';
+import DentalChart from '../components/patient/DentalChart';
+import PortalAccountDialog from '../components/patient/PortalAccountDialog';
+import InsurancePoliciesPanel from '../components/patient/InsurancePoliciesPanel';
+import ClinicalNotesPanel from '../components/patient/ClinicalNotesPanel';
+import VitalsPanel from '../components/patient/VitalsPanel';
+import ConsentsPanel from '../components/patient/ConsentsPanel';
+import MedicalAlertBanner from '../components/patient/MedicalAlertBanner';
+import MedicalHistoryPanel from '../components/patient/MedicalHistoryPanel';
+import PaymentsPanel from '../components/invoices/PaymentsPanel';
+import { getErrorMessage } from '../utils/errors';
+import type { Invoice, Patient } from '../types';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -44,6 +66,7 @@ const PatientDetailPage: React.FC = () => {
   const theme = useTheme();
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
 
   const [patient, setPatient] = useState<Patient | null>(null);
   const [appointments, setAppointments] = useState<any[]>([]);
@@ -53,6 +76,11 @@ const PatientDetailPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [tabValue, setTabValue] = useState(0);
+  const [portalDialogOpen, setPortalDialogOpen] = useState(false);
+  const [paymentsInvoice, setPaymentsInvoice] = useState<Invoice | null>(null);
+  const [creditBalance, setCreditBalance] = useState(0);
+
+  const canManagePayments = user?.role === 'admin' || user?.role === 'receptionist';
 
   useEffect(() => {
     if (id) fetchPatientData();
@@ -71,6 +99,16 @@ const PatientDetailPage: React.FC = () => {
     }
   };
 
+  // Recording vitals changes the latest values shown on the info tab
+  const refreshPatient = async () => {
+    try {
+      const patientData = await patientService.getPatientById(id!);
+      if (patientData) setPatient(patientData);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load patient'));
+    }
+  };
+
   const fetchAppointments = async () => {
     try {
       const data = await patientService.getPatientAppointments(id!);
@@ -87,6 +125,10 @@ const PatientDetailPage: React.FC = () => {
     try {
       const data = await patientService.getPatientInvoices(id!);
       setInvoices(data);
+      if (canManagePayments) {
+        const credit = await patientService.getPatientCredit(id!);
+        setCreditBalance(credit?.balance || 0);
+      }
     } catch {}
   };
   const fetchFiles = async () => {
@@ -125,11 +167,27 @@ const PatientDetailPage: React.FC = () => {
           </Button>
           <Typography variant="h4" fontWeight={700}>{patient.name}</Typography>
         </Box>
-        <Button variant="contained" startIcon={<EditIcon />} sx={{ borderRadius: 2, textTransform: 'none', boxShadow: 2 }}>
-          Edit
-        </Button>
+        <Box display="flex" gap={1}>
+          {(user?.role === 'admin' || user?.role === 'receptionist') && (
+            <Button
+              variant="outlined"
+              startIcon={<KeyIcon />}
+              onClick={() => setPortalDialogOpen(true)}
+              sx={{ borderRadius: 2, textTransform: 'none' }}
+            >
+              Portal Access
+            </Button>
+          )}
+          <Button variant="contained" startIcon={<EditIcon />} sx={{ borderRadius: 2, textTransform: 'none', boxShadow: 2 }}>
+            Edit
+          </Button>
+        </Box>
       </Box>
 
+      <PortalAccountDialog patient={patient} open={portalDialogOpen} onClose={() => setPortalDialogOpen(false)} />
+
+      <MedicalAlertBanner patient={patient} />
+
       <Tabs
         value={tabValue}
         onChange={handleTabChange}
@@ -142,6 +200,11 @@ const PatientDetailPage: React.FC = () => {
         <Tab label="Treatments" />
         <Tab label="Invoices" />
         <Tab label="Files" />
+        <Tab label="Dental Chart" />
+        <Tab label="Insurance" />
+        <Tab label="Clinical Notes" />
+        <Tab label="Vitals" />
+        <Tab label="Consents" />
       </Tabs>
 
       <TabPanel value={tabValue} index={0}>
@@ -165,6 +228,7 @@ const PatientDetailPage: React.FC = () => {
             <Card sx={{ borderRadius: 3, boxShadow: 3 }}>
               <CardContent>
                 <Typography variant="h6" gutterBottom fontWeight={700}>Medical Information</Typography>
+                <Typography variant="caption" color="text.secondary">Latest vitals - see the Vitals tab for history</Typography>
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
                   <Typography><strong>Weight:</strong> {patient.weight ? `${patient.weight} kg` : 'N/A'}</Typography>
                   <Typography><strong>Height:</strong> {patient.height ? `${patient.height} cm` : 'N/A'}</Typography>
@@ -184,6 +248,9 @@ const PatientDetailPage: React.FC = () => {
             </Card>
           </Grid>
         </Grid>
+        <Box mt={3}>
+          <MedicalHistoryPanel patient={patient} canEdit={!!user && user.role !== 'patient'} onChange={setPatient} />
+        </Box>
       </TabPanel>
 
       <TabPanel value={tabValue} index={1}>
@@ -219,18 +286,21 @@ const PatientDetailPage: React.FC = () => {
           <Table>
             <TableHead sx={{ background: theme.palette.primary.main }}>
               <TableRow>
-                {['Date', 'Treatment Type', 'Doctor', 'Cost', 'Description'].map((head) => (
+                {['Date', 'Treatment Type', 'Tooth', 'Doctor', 'Cost', 'Description'].map((head) => (
                   <TableCell key={head} sx={{ fontWeight: 700, color: 'white' }}>{head}</TableCell>
                 ))}
               </TableRow>
             </TableHead>
             <TableBody>
               {treatments.length === 0 ? (
-                <TableRow><TableCell colSpan={5} align="center">No treatments found</TableCell></TableRow>
+                <TableRow><TableCell colSpan={6} align="center">No treatments found</TableCell></TableRow>
               ) : treatments.map((treatment) => (
                 <TableRow key={treatment._id} sx={{ ':hover': { backgroundColor: theme.palette.action.hover } }}>
                   <TableCell>{new Date(treatment.treatmentDate).toLocaleDateString()}</TableCell>
                   <TableCell>{treatment.treatmentType}</TableCell>
+                  <TableCell>
+                    {treatment.toothNumber ? `${treatment.toothNumber}${treatment.surfaces?.length ? ` (${treatment.surfaces.join('')})` : ''}` : '-'}
+                  </TableCell>
                   <TableCell>{treatment.doctorId?.name || 'Unknown'}</TableCell>
                   <TableCell>${treatment.cost.toFixed(2)}</TableCell>
                   <TableCell>{treatment.description || '-'}</TableCell>
@@ -242,18 +312,23 @@ const PatientDetailPage: React.FC = () => {
       </TabPanel>
 
       <TabPanel value={tabValue} index={3}>
+        {canManagePayments && creditBalance > 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Credit balance: ${creditBalance.toFixed(2)}. It can be used as the payment method on any open invoice.
+          </Alert>
+        )}
         <TableContainer component={Paper} sx={{ borderRadius: 3, boxShadow: 3 }}>
           <Table>
             <TableHead sx={{ background: theme.palette.primary.main }}>
               <TableRow>
-                {['Invoice Number', 'Date', 'Total Amount', 'Paid Amount', 'Status'].map((head) => (
+                {['Invoice Number', 'Date', 'Total Amount', 'Paid Amount', 'Status', ...(canManagePayments ? ['Payments'] : [])].map((head) => (
                   <TableCell key={head} sx={{ fontWeight: 700, color: 'white' }}>{head}</TableCell>
                 ))}
               </TableRow>
             </TableHead>
             <TableBody>
               {invoices.length === 0 ? (
-                <TableRow><TableCell colSpan={5} align="center">No invoices found</TableCell></TableRow>
+                <TableRow><TableCell colSpan={canManagePayments ? 6 : 5} align="center">No invoices found</TableCell></TableRow>
               ) : invoices.map((invoice) => (
                 <TableRow key={invoice._id} sx={{ ':hover': { backgroundColor: theme.palette.action.hover } }}>
                   <TableCell>{invoice.invoiceNumber}</TableCell>
@@ -267,15 +342,44 @@ const PatientDetailPage: React.FC = () => {
                       color={
                         invoice.status === 'paid' ? 'success' :
                         invoice.status === 'partial' ? 'warning' :
-                        invoice.status === 'pending' ? 'default' : 'error'
+                        invoice.status === 'pending' ? 'default' :
+                        invoice.status === 'credited' ? 'info' : 'error'
                       }
                     />
                   </TableCell>
+                  {canManagePayments && (
+                    <TableCell>
+                      <Tooltip title="Payment History">
+                        <IconButton size="small" color="primary" onClick={() => setPaymentsInvoice(invoice)}>
+                          <PaymentsIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  )}
                 </TableRow>
               ))}
             </TableBody>
           </Table>
         </TableContainer>
+
+        <Dialog open={!!paymentsInvoice} onClose={() => setPaymentsInvoice(null)} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+          <DialogTitle sx={{ fontWeight: 600 }}>Invoice {paymentsInvoice?.invoiceNumber}</DialogTitle>
+          <DialogContent dividers>
+            {paymentsInvoice && (
+              <PaymentsPanel
+                invoice={paymentsInvoice}
+                canRecord={canManagePayments}
+                onChange={(updated) => {
+                  setPaymentsInvoice({ ...paymentsInvoice, paidAmount: updated.paidAmount, status: updated.status });
+                  fetchInvoices();
+                }}
+              />
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setPaymentsInvoice(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
       </TabPanel>
 
       <TabPanel value={tabValue} index={4}>
@@ -283,6 +387,26 @@ const PatientDetailPage: React.FC = () => {
           File management interface to be implemented. This will show uploaded prescriptions, scans, and reports.
         </Typography>
       </TabPanel>
+
+      <TabPanel value={tabValue} index={5}>
+        <DentalChart patientId={patient._id} />
+      </TabPanel>
+
+      <TabPanel value={tabValue} index={6}>
+        <InsurancePoliciesPanel patientId={patient._id} canManage={canManagePayments} />
+      </TabPanel>
+
+      <TabPanel value={tabValue} index={7}>
+        <ClinicalNotesPanel patientId={patient._id} />
+      </TabPanel>
+
+      <TabPanel value={tabValue} index={8}>
+        <VitalsPanel patientId={patient._id} onChange={refreshPatient} />
+      </TabPanel>
+
+      <TabPanel value={tabValue} index={9}>
+        <ConsentsPanel patientId={patient._id} patientName={patient.name} />
+      </TabPanel>
     </Box>
   );
 };
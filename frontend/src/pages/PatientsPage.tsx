@@ -23,6 +23,8 @@ import {
   MenuItem,
   Chip,
   Tooltip,
+  FormControlLabel,
+  Checkbox,
   useTheme,
 } from '@mui/material';
 import {
@@ -35,7 +37,10 @@ import {
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { patientService } from '../services/patient.service';
-import type { Patient } from '../types';
+import { LANGUAGES } from '../utils/languages';
+import type { Patient, ReminderPreferences } from '../types';
+
+const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = { email: true, sms: true, optOut: false };
 
 const PatientsPage: React.FC = () => {
   const theme = useTheme();
@@ -95,6 +100,12 @@ const PatientsPage: React.FC = () => {
     setFormData({});
   };
 
+  const reminderPreferences = formData.reminderPreferences || DEFAULT_REMINDER_PREFERENCES;
+
+  const setReminderPreference = (field: keyof ReminderPreferences, value: boolean) => {
+    setFormData({ ...formData, reminderPreferences: { ...reminderPreferences, [field]: value } });
+  };
+
   const handleSave = async () => {
     try {
       if (selectedPatient) {
@@ -381,6 +392,53 @@ const PatientsPage: React.FC = () => {
                 <option value="Other">Other</option>
               </TextField>
             </Box>
+            <TextField
+              label="Language"
+              select
+              value={formData.language || 'en'}
+              onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+              helperText="Used for emails and text messages"
+            >
+              {LANGUAGES.map((language) => (
+                <MenuItem key={language.code} value={language.code}>
+                  {language.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box>
+              <Typography variant="subtitle2" color="text.secondary">
+                Appointment reminders
+              </Typography>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={reminderPreferences.email}
+                    disabled={reminderPreferences.optOut}
+                    onChange={(e) => setReminderPreference('email', e.target.checked)}
+                  />
+                }
+                label="Email"
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={reminderPreferences.sms}
+                    disabled={reminderPreferences.optOut}
+                    onChange={(e) => setReminderPreference('sms', e.target.checked)}
+                  />
+                }
+                label="SMS"
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={reminderPreferences.optOut}
+                    onChange={(e) => setReminderPreference('optOut', e.target.checked)}
+                  />
+                }
+                label="No reminders"
+              />
+            </Box>
           </Box>
         </DialogContent>
         <DialogActions>
@@ -0,0 +1,362 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  MenuItem,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  IconButton,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+  useTheme,
+} from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { useAuth } from '../context/AuthContext';
+import { portalService } from '../services/portal.service';
+import { getErrorMessage } from '../utils/errors';
+import type { Appointment, Availability, Invoice, PortalBookingOptions, ReminderPreferences, TimeSlot } from '../types';
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const PortalPage: React.FC = () => {
+  const { user } = useAuth();
+  const theme = useTheme();
+
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [options, setOptions] = useState<PortalBookingOptions | null>(null);
+  const [reminderPreferences, setReminderPreferences] = useState<ReminderPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [booking, setBooking] = useState({ doctorId: '', treatmentType: '', date: '' });
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+
+  useEffect(() => {
+    fetchInitialData();
+  }, []);
+
+  const fetchInitialData = async () => {
+    try {
+      setLoading(true);
+      const [appointmentsRes, invoicesRes, optionsRes, profileRes] = await Promise.all([
+        portalService.getAppointments(),
+        portalService.getInvoices(),
+        portalService.getBookingOptions(),
+        portalService.getProfile(),
+      ]);
+      setAppointments(appointmentsRes);
+      setInvoices(invoicesRes);
+      setOptions(optionsRes || null);
+      setReminderPreferences(profileRes?.reminderPreferences || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load your details'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      setAvailability(await portalService.getAvailability(booking));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load available times'));
+    }
+  }, [booking]);
+
+  useEffect(() => {
+    setSelectedSlot(null);
+    if (booking.doctorId && booking.treatmentType && booking.date) {
+      fetchAvailability();
+    } else {
+      setAvailability(null);
+    }
+  }, [booking, fetchAvailability]);
+
+  const handleBook = async () => {
+    if (!selectedSlot) return;
+    try {
+      setError('');
+      await portalService.bookAppointment({
+        doctorId: booking.doctorId,
+        treatmentType: booking.treatmentType,
+        startTime: selectedSlot.startTime,
+      });
+      setSuccess('Your appointment is booked.');
+      setBooking({ doctorId: '', treatmentType: '', date: '' });
+      setAppointments(await portalService.getAppointments());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to book appointment'));
+    }
+  };
+
+  const handleCancel = async (appointment: Appointment) => {
+    try {
+      setError('');
+      await portalService.cancelAppointment(appointment._id);
+      setSuccess('Your appointment has been cancelled.');
+      setAppointments(await portalService.getAppointments());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to cancel appointment'));
+    }
+  };
+
+  const handleReminderPreference = async (field: keyof ReminderPreferences, value: boolean) => {
+    try {
+      setError('');
+      setReminderPreferences((await portalService.updateReminderPreferences({ [field]: value })) || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update reminder preferences'));
+    }
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await portalService.downloadInvoicePDF(invoice);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download invoice'));
+    }
+  };
+
+  // Appointments inside the cancellation window have to be cancelled by phone
+  const canCancel = (appointment: Appointment) =>
+    !!options &&
+    new Date(appointment.startTime).getTime() - Date.now() >= options.rules.cancellationLeadHours * 60 * 60 * 1000;
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" height="50vh">
+        <CircularProgress size={60} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={4} sx={{ backgroundColor: theme.palette.background.default, minHeight: '100vh' }}>
+      <Typography variant="h4" fontWeight={700} mb={3}>
+        Welcome, {user?.name}
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess('')}>
+          {success}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={3} flexWrap="wrap" alignItems="flex-start">
+        {/* Upcoming appointments */}
+        <Paper elevation={3} sx={{ borderRadius: 3, p: 3, flex: '1 1 420px' }}>
+          <Typography variant="h6" fontWeight={600} mb={2}>
+            Upcoming Appointments
+          </Typography>
+          {appointments.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              You have no upcoming appointments.
+            </Typography>
+          )}
+          {appointments.map((appointment) => (
+            <Box
+              key={appointment._id}
+              display="flex"
+              alignItems="center"
+              gap={2}
+              py={1.5}
+              sx={{ borderBottom: `1px solid ${theme.palette.divider}` }}
+            >
+              <Box flexGrow={1}>
+                <Typography variant="body1" fontWeight={600}>
+                  {new Date(appointment.startTime).toLocaleDateString()} at {formatTime(appointment.startTime)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {typeof appointment.doctorId === 'object' ? `Dr. ${appointment.doctorId.name}` : ''}
+                  {appointment.treatmentType ? ` - ${appointment.treatmentType}` : ''}
+                </Typography>
+              </Box>
+              {canCancel(appointment) ? (
+                <Button size="small" color="error" onClick={() => handleCancel(appointment)}>
+                  Cancel
+                </Button>
+              ) : (
+                <Tooltip title="Please call the clinic to cancel at short notice">
+                  <Chip label="Call to cancel" size="small" variant="outlined" />
+                </Tooltip>
+              )}
+            </Box>
+          ))}
+        </Paper>
+
+        {/* Book an appointment */}
+        <Paper elevation={3} sx={{ borderRadius: 3, p: 3, flex: '1 1 420px' }}>
+          <Typography variant="h6" fontWeight={600} mb={1}>
+            Book an Appointment
+          </Typography>
+          {options && (
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              Online bookings need {options.rules.bookingLeadHours} hours notice and can be made up to{' '}
+              {options.rules.maxAdvanceDays} days ahead.
+            </Typography>
+          )}
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              select
+              label="Treatment"
+              value={booking.treatmentType}
+              onChange={(e) => setBooking({ ...booking, treatmentType: e.target.value })}
+            >
+              {options?.treatmentTypes.map((treatmentType) => (
+                <MenuItem key={treatmentType.type} value={treatmentType.type}>
+                  {treatmentType.type} ({treatmentType.duration} min)
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Dentist"
+              value={booking.doctorId}
+              onChange={(e) => setBooking({ ...booking, doctorId: e.target.value })}
+            >
+              {options?.dentists.map((dentist) => (
+                <MenuItem key={dentist._id} value={dentist._id}>
+                  Dr. {dentist.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Date"
+              type="date"
+              value={booking.date}
+              onChange={(e) => setBooking({ ...booking, date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+
+            {availability &&
+              (availability.slots.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  {availability.reason || 'No free times on this day'}
+                </Typography>
+              ) : (
+                <Box display="flex" flexWrap="wrap" gap={1}>
+                  {availability.slots.map((slot) => (
+                    <Chip
+                      key={slot.startTime}
+                      label={formatTime(slot.startTime)}
+                      clickable
+                      color={selectedSlot?.startTime === slot.startTime ? 'primary' : 'default'}
+                      onClick={() => setSelectedSlot(slot)}
+                    />
+                  ))}
+                </Box>
+              ))}
+
+            <Button variant="contained" disabled={!selectedSlot} onClick={handleBook}>
+              Book
+            </Button>
+          </Box>
+        </Paper>
+      </Box>
+
+      {/* Invoices */}
+      <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 3 }}>
+        <Typography variant="h6" fontWeight={600} mb={2}>
+          Invoices
+        </Typography>
+        {invoices.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            You have no invoices.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Invoice #</TableCell>
+                <TableCell>Date</TableCell>
+                <TableCell align="right">Total</TableCell>
+                <TableCell align="right">Balance</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="center">PDF</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {invoices.map((invoice) => (
+                <TableRow key={invoice._id}>
+                  <TableCell>{invoice.invoiceNumber}</TableCell>
+                  <TableCell>{new Date(invoice.issueDate).toLocaleDateString()}</TableCell>
+                  <TableCell align="right">${invoice.totalAmount.toFixed(2)}</TableCell>
+                  <TableCell align="right">${(invoice.totalAmount - invoice.creditedAmount - invoice.paidAmount).toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Chip label={invoice.status} size="small" />
+                  </TableCell>
+                  <TableCell align="center">
+                    <IconButton size="small" onClick={() => handleDownload(invoice)}>
+                      <DownloadIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Paper>
+
+      {/* Reminder preferences */}
+      {reminderPreferences && (
+        <Paper elevation={3} sx={{ borderRadius: 3, p: 3, mt: 3 }}>
+          <Typography variant="h6" fontWeight={600} mb={1}>
+            Appointment Reminders
+          </Typography>
+          <Box display="flex" gap={2} flexWrap="wrap">
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={reminderPreferences.email}
+                  disabled={reminderPreferences.optOut}
+                  onChange={(e) => handleReminderPreference('email', e.target.checked)}
+                />
+              }
+              label="By email"
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={reminderPreferences.sms}
+                  disabled={reminderPreferences.optOut}
+                  onChange={(e) => handleReminderPreference('sms', e.target.checked)}
+                />
+              }
+              label="By text message"
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={reminderPreferences.optOut}
+                  onChange={(e) => handleReminderPreference('optOut', e.target.checked)}
+                />
+              }
+              label="Don't send me reminders"
+            />
+          </Box>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default PortalPage;
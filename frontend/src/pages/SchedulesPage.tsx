@@ -0,0 +1,400 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Divider,
+  useTheme,
+} from '@mui/material';
+import { Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import { useAuth } from '../context/AuthContext';
+import { scheduleService } from '../services/schedule.service';
+import { userService } from '../services/user.service';
+import RoomsPanel from '../components/schedules/RoomsPanel';
+import { getErrorMessage } from '../utils/errors';
+import type { ClinicClosure, Leave, User, WorkingDay } from '../types';
+
+// Monday first, matching how the clinic reads its week
+const DAYS = [
+  { dayOfWeek: 1, label: 'Monday' },
+  { dayOfWeek: 2, label: 'Tuesday' },
+  { dayOfWeek: 3, label: 'Wednesday' },
+  { dayOfWeek: 4, label: 'Thursday' },
+  { dayOfWeek: 5, label: 'Friday' },
+  { dayOfWeek: 6, label: 'Saturday' },
+  { dayOfWeek: 0, label: 'Sunday' },
+];
+
+interface DayForm {
+  enabled: boolean;
+  startTime: string;
+  endTime: string;
+  breakStart: string;
+  breakEnd: string;
+}
+
+const toDayForms = (weeklyHours: WorkingDay[]): Record<number, DayForm> =>
+  DAYS.reduce((forms, { dayOfWeek }) => {
+    const day = weeklyHours.find((wd) => wd.dayOfWeek === dayOfWeek);
+    forms[dayOfWeek] = {
+      enabled: !!day,
+      startTime: day?.startTime || '09:00',
+      endTime: day?.endTime || '18:00',
+      breakStart: day?.breaks[0]?.startTime || '',
+      breakEnd: day?.breaks[0]?.endTime || '',
+    };
+    return forms;
+  }, {} as Record<number, DayForm>);
+
+const SchedulesPage: React.FC = () => {
+  const { user } = useAuth();
+  const theme = useTheme();
+
+  const [doctors, setDoctors] = useState<User[]>([]);
+  const [doctorId, setDoctorId] = useState(user?.role === 'dentist' ? user._id : '');
+  const [days, setDays] = useState<Record<number, DayForm>>(toDayForms([]));
+  const [leaves, setLeaves] = useState<Leave[]>([]);
+  const [isDefault, setIsDefault] = useState(false);
+  const [closures, setClosures] = useState<ClinicClosure[]>([]);
+  const [newLeave, setNewLeave] = useState({ startDate: '', endDate: '', reason: '' });
+  const [newClosure, setNewClosure] = useState({ date: '', reason: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const isAdmin = user?.role === 'admin';
+
+  const fetchInitialData = useCallback(async () => {
+    try {
+      if (isAdmin) {
+        const doctorsRes = await userService.getUsers({ role: 'dentist', limit: 100 });
+        setDoctors(doctorsRes.data || []);
+      }
+      setClosures(await scheduleService.getClosures());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load data'));
+    }
+  }, [isAdmin]);
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      setLoading(true);
+      const schedule = await scheduleService.getDoctorSchedule(doctorId);
+      setDays(toDayForms(schedule?.weeklyHours || []));
+      setLeaves(schedule?.leaves || []);
+      setIsDefault(!!schedule?.isDefault);
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load schedule'));
+    } finally {
+      setLoading(false);
+    }
+  }, [doctorId]);
+
+  useEffect(() => {
+    fetchInitialData();
+  }, [fetchInitialData]);
+
+  useEffect(() => {
+    if (doctorId) fetchSchedule();
+  }, [doctorId, fetchSchedule]);
+
+  const updateDay = (dayOfWeek: number, changes: Partial<DayForm>) => {
+    setDays({ ...days, [dayOfWeek]: { ...days[dayOfWeek], ...changes } });
+  };
+
+  const saveSchedule = async (nextLeaves: Leave[] = leaves) => {
+    try {
+      const weeklyHours: WorkingDay[] = DAYS.filter(({ dayOfWeek }) => days[dayOfWeek].enabled).map(
+        ({ dayOfWeek }) => {
+          const day = days[dayOfWeek];
+          return {
+            dayOfWeek,
+            startTime: day.startTime,
+            endTime: day.endTime,
+            breaks: day.breakStart && day.breakEnd ? [{ startTime: day.breakStart, endTime: day.breakEnd }] : [],
+          };
+        }
+      );
+      const schedule = await scheduleService.updateDoctorSchedule(doctorId, { weeklyHours, leaves: nextLeaves });
+      setLeaves(schedule?.leaves || []);
+      setIsDefault(false);
+      setSuccess('Schedule saved');
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save schedule'));
+    }
+  };
+
+  const handleAddLeave = async () => {
+    await saveSchedule([...leaves, newLeave]);
+    setNewLeave({ startDate: '', endDate: '', reason: '' });
+  };
+
+  const handleAddClosure = async () => {
+    try {
+      await scheduleService.createClosure(newClosure);
+      setNewClosure({ date: '', reason: '' });
+      setClosures(await scheduleService.getClosures());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add closure'));
+    }
+  };
+
+  const handleDeleteClosure = async (id: string) => {
+    try {
+      await scheduleService.deleteClosure(id);
+      setClosures(closures.filter((closure) => closure._id !== id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove closure'));
+    }
+  };
+
+  return (
+    <Box
+      p={4}
+      sx={{
+        backgroundColor: theme.palette.background.default,
+        minHeight: '100vh',
+      }}
+    >
+      <Box
+        mb={4}
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{
+          backgroundColor: theme.palette.primary.main,
+          color: 'white',
+          borderRadius: 2,
+          p: 3,
+          boxShadow: 3,
+        }}
+      >
+        <Typography variant="h5" fontWeight="600">
+          Schedules & Resources
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess('')}>
+          {success}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={3} flexWrap="wrap" alignItems="flex-start">
+        <Paper elevation={3} sx={{ borderRadius: 3, p: 3, flex: '2 1 560px' }}>
+          {isAdmin && (
+            <TextField
+              select
+              fullWidth
+              label="Doctor"
+              value={doctorId}
+              onChange={(e) => setDoctorId(e.target.value)}
+              sx={{ mb: 3 }}
+            >
+              {doctors.map((doctor) => (
+                <MenuItem key={doctor._id} value={doctor._id}>
+                  Dr. {doctor.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+
+          {!doctorId ? (
+            <Typography color="text.secondary">Select a doctor to edit their schedule.</Typography>
+          ) : loading ? (
+            <Box display="flex" justifyContent="center" p={4}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              <Typography variant="h6" fontWeight={600} mb={1}>
+                Weekly Hours
+              </Typography>
+              {isDefault && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  No schedule saved yet - showing the default clinic hours.
+                </Alert>
+              )}
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Day</TableCell>
+                    <TableCell>Start</TableCell>
+                    <TableCell>End</TableCell>
+                    <TableCell>Break From</TableCell>
+                    <TableCell>Break To</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {DAYS.map(({ dayOfWeek, label }) => {
+                    const day = days[dayOfWeek];
+                    return (
+                      <TableRow key={dayOfWeek}>
+                        <TableCell>
+                          <FormControlLabel
+                            control={
+                              <Checkbox
+                                checked={day.enabled}
+                                onChange={(e) => updateDay(dayOfWeek, { enabled: e.target.checked })}
+                              />
+                            }
+                            label={label}
+                          />
+                        </TableCell>
+                        {(['startTime', 'endTime', 'breakStart', 'breakEnd'] as const).map((field) => (
+                          <TableCell key={field}>
+                            <TextField
+                              type="time"
+                              size="small"
+                              value={day[field]}
+                              disabled={!day.enabled}
+                              onChange={(e) => updateDay(dayOfWeek, { [field]: e.target.value })}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <Box display="flex" justifyContent="flex-end" mt={2}>
+                <Button variant="contained" onClick={() => saveSchedule()}>
+                  Save Hours
+                </Button>
+              </Box>
+
+              <Divider sx={{ my: 3 }} />
+
+              <Typography variant="h6" fontWeight={600} mb={1}>
+                Leave
+              </Typography>
+              {leaves.length === 0 && (
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  No leave recorded.
+                </Typography>
+              )}
+              {leaves.map((leave, index) => (
+                <Box key={leave._id || index} display="flex" alignItems="center" gap={1}>
+                  <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                    {new Date(leave.startDate).toLocaleDateString()} - {new Date(leave.endDate).toLocaleDateString()}
+                    {leave.reason ? ` (${leave.reason})` : ''}
+                  </Typography>
+                  <IconButton
+                    size="small"
+                    color="error"
+                    onClick={() => saveSchedule(leaves.filter((_, i) => i !== index))}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Box display="flex" gap={1} mt={2} alignItems="center" flexWrap="wrap">
+                <TextField
+                  label="From"
+                  type="date"
+                  size="small"
+                  value={newLeave.startDate}
+                  onChange={(e) => setNewLeave({ ...newLeave, startDate: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  label="To"
+                  type="date"
+                  size="small"
+                  value={newLeave.endDate}
+                  onChange={(e) => setNewLeave({ ...newLeave, endDate: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  label="Reason"
+                  size="small"
+                  value={newLeave.reason}
+                  onChange={(e) => setNewLeave({ ...newLeave, reason: e.target.value })}
+                />
+                <Button
+                  startIcon={<AddIcon />}
+                  onClick={handleAddLeave}
+                  disabled={!newLeave.startDate || !newLeave.endDate}
+                >
+                  Add Leave
+                </Button>
+              </Box>
+            </>
+          )}
+        </Paper>
+
+        <Box display="flex" flexDirection="column" gap={3} sx={{ flex: '1 1 320px' }}>
+          <Paper elevation={3} sx={{ borderRadius: 3, p: 3 }}>
+            <Typography variant="h6" fontWeight={600} mb={1}>
+              Clinic Closures
+            </Typography>
+            {closures.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No closure days scheduled.
+              </Typography>
+            )}
+            {closures.map((closure) => (
+              <Box key={closure._id} display="flex" alignItems="center" gap={1}>
+                <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                  {new Date(closure.date).toLocaleDateString()}
+                  {closure.reason ? ` - ${closure.reason}` : ''}
+                </Typography>
+                {isAdmin && (
+                  <IconButton size="small" color="error" onClick={() => handleDeleteClosure(closure._id)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            ))}
+            {isAdmin && (
+              <Box display="flex" flexDirection="column" gap={1} mt={2}>
+                <TextField
+                  label="Date"
+                  type="date"
+                  size="small"
+                  value={newClosure.date}
+                  onChange={(e) => setNewClosure({ ...newClosure, date: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  label="Reason"
+                  size="small"
+                  value={newClosure.reason}
+                  onChange={(e) => setNewClosure({ ...newClosure, reason: e.target.value })}
+                  placeholder="e.g., Public holiday"
+                />
+                <Button startIcon={<AddIcon />} onClick={handleAddClosure} disabled={!newClosure.date}>
+                  Add Closure
+                </Button>
+              </Box>
+            )}
+          </Paper>
+
+          {isAdmin && <RoomsPanel />}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default SchedulesPage;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import NotificationTemplatesPanel from '../components/settings/NotificationTemplatesPanel';
+import InsuranceProvidersPanel from '../components/settings/InsuranceProvidersPanel';
+import ProcedureCatalogPanel from '../components/settings/ProcedureCatalogPanel';
+import FeeSchedulesPanel from '../components/settings/FeeSchedulesPanel';
+import ConsentTemplatesPanel from '../components/settings/ConsentTemplatesPanel';
+import DrugListPanel from '../components/settings/DrugListPanel';
+
+const SettingsPage: React.FC = () => {
+  const theme = useTheme();
+
+  return (
+    <Box
+      p={4}
+      sx={{
+        backgroundColor: theme.palette.background.default,
+        minHeight: '100vh',
+      }}
+    >
+      <Box
+        mb={4}
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{
+          backgroundColor: theme.palette.primary.main,
+          color: 'white',
+          borderRadius: 2,
+          p: 3,
+          boxShadow: 3,
+        }}
+      >
+        <Typography variant="h5" fontWeight="600">
+          Settings
+        </Typography>
+      </Box>
+
+      <NotificationTemplatesPanel />
+      <InsuranceProvidersPanel />
+      <ProcedureCatalogPanel />
+      <FeeSchedulesPanel />
+      <ConsentTemplatesPanel />
+      <DrugListPanel />
+    </Box>
+  );
+};
+
+export default SettingsPage;
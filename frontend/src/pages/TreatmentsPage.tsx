@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Box,
   Button,
@@ -24,6 +24,12 @@ import {
   Select,
   MenuItem,
   Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tabs,
+  Tab,
+  Autocomplete,
+  Chip,
   useTheme,
 } from '@mui/material';
 import {
@@ -31,12 +37,24 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Visibility as ViewIcon,
+  Medication as PrescribeIcon,
+  Science as LabIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../context/AuthContext';
 import { treatmentService } from '../services/treatment.service';
 import { patientService } from '../services/patient.service';
 import { userService } from '../services/user.service';
-import type { Treatment } from '../types';
+import { procedureService } from '../services/procedure.service';
+import { ALL_TEETH, SURFACES, SURFACE_LABELS } from '../utils/toothNumbering';
+import { PROCEDURE_CATEGORY_LABELS } from '../utils/procedures';
+import { TREATMENT_STATUS_LABELS } from '../utils/treatments';
+import TreatmentPlansPanel from '../components/treatments/TreatmentPlansPanel';
+import TreatmentAlertsDialog from '../components/treatments/TreatmentAlertsDialog';
+import PrescriptionDialog from '../components/treatments/PrescriptionDialog';
+import LabCaseDialog from '../components/labCases/LabCaseDialog';
+import MedicalAlertBanner from '../components/patient/MedicalAlertBanner';
+import { getErrorMessage } from '../utils/errors';
+import type { FeeSchedule, Procedure, Treatment, TreatmentAlert, TreatmentAlertError, TreatmentStatus } from '../types';
 
 const TreatmentsPage: React.FC = () => {
   const { user } = useAuth();
@@ -47,6 +65,7 @@ const TreatmentsPage: React.FC = () => {
   const [doctors, setDoctors] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [tab, setTab] = useState(0);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [total, setTotal] = useState(0);
@@ -55,21 +74,65 @@ const TreatmentsPage: React.FC = () => {
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedTreatment, setSelectedTreatment] = useState<Treatment | null>(null);
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [feeSchedules, setFeeSchedules] = useState<FeeSchedule[]>([]);
+  const [feeScheduleId, setFeeScheduleId] = useState('');
+  const [treatmentAlerts, setTreatmentAlerts] = useState<TreatmentAlert[]>([]);
+  const [prescribing, setPrescribing] = useState<Treatment | null>(null);
+  const [labCaseTreatment, setLabCaseTreatment] = useState<Treatment | null>(null);
 
   const [formData, setFormData] = useState<any>({
     patientId: '',
     doctorId: '',
+    procedureId: '',
     treatmentType: '',
     description: '',
     cost: '',
     disease: '',
     treatmentDate: new Date().toISOString().split('T')[0],
+    toothNumber: '',
+    surfaces: [],
+    status: 'completed',
   });
 
   useEffect(() => {
     fetchInitialData();
   }, [page, rowsPerPage]);
 
+  useEffect(() => {
+    fetchFeeSchedules();
+  }, []);
+
+  const fetchFeeSchedules = async () => {
+    try {
+      const schedules = await procedureService.getFeeSchedules();
+      setFeeSchedules(schedules);
+      setFeeScheduleId(schedules.find((schedule) => schedule.isDefault)?._id || '');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load fee schedules'));
+    }
+  };
+
+  // Procedures come priced on the selected fee schedule
+  const fetchProcedures = useCallback(async () => {
+    try {
+      const catalog = await procedureService.getProcedures({ feeScheduleId: feeScheduleId || undefined });
+      setProcedures(catalog);
+
+      // Re-price the procedure being entered when the schedule changes
+      setFormData((prev: typeof formData) => {
+        const picked = catalog.find((procedure) => procedure._id === prev.procedureId);
+        return picked ? { ...prev, cost: String(picked.fee ?? picked.defaultFee) } : prev;
+      });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load procedures'));
+    }
+  }, [feeScheduleId]);
+
+  useEffect(() => {
+    fetchProcedures();
+  }, [fetchProcedures]);
+
   const fetchInitialData = async () => {
     try {
       setLoading(true);
@@ -103,22 +166,30 @@ const TreatmentsPage: React.FC = () => {
       setFormData({
         patientId: typeof treatment.patientId === 'string' ? treatment.patientId : treatment.patientId._id,
         doctorId: typeof treatment.doctorId === 'string' ? treatment.doctorId : treatment.doctorId._id,
+        procedureId: typeof treatment.procedureId === 'object' ? treatment.procedureId._id : treatment.procedureId || '',
         treatmentType: treatment.treatmentType,
         description: treatment.description || '',
         cost: treatment.cost.toString(),
         disease: treatment.disease || '',
         treatmentDate: new Date(treatment.treatmentDate).toISOString().split('T')[0],
+        toothNumber: treatment.toothNumber || '',
+        surfaces: treatment.surfaces || [],
+        status: treatment.status || 'completed',
       });
     } else {
       setSelectedTreatment(null);
       setFormData({
         patientId: '',
         doctorId: user?.role === 'dentist' ? user._id : '',
+        procedureId: '',
         treatmentType: '',
         description: '',
         cost: '',
         disease: '',
         treatmentDate: new Date().toISOString().split('T')[0],
+        toothNumber: '',
+        surfaces: [],
+        status: 'completed',
       });
     }
     setModalOpen(true);
@@ -129,18 +200,25 @@ const TreatmentsPage: React.FC = () => {
     setSelectedTreatment(null);
   };
 
-  const handleSave = async () => {
+  const handleSave = async (acknowledgeAlerts = false) => {
+    setTreatmentAlerts([]);
     try {
       const treatmentData = { ...formData, cost: parseFloat(formData.cost) };
       if (selectedTreatment) {
         await treatmentService.updateTreatment(selectedTreatment._id, treatmentData);
       } else {
-        await treatmentService.createTreatment(treatmentData);
+        await treatmentService.createTreatment({ ...treatmentData, acknowledgeAlerts });
       }
       handleCloseModal();
       fetchInitialData();
-    } catch (err: any) {
-      setError(err.error || 'Failed to save treatment');
+    } catch (err) {
+      // Conflicts with the patient's medical history have to be acknowledged first
+      const { alerts } = err as TreatmentAlertError;
+      if (alerts?.length) {
+        setTreatmentAlerts(alerts);
+        return;
+      }
+      setError(getErrorMessage(err, 'Failed to save treatment'));
     }
   };
 
@@ -189,28 +267,37 @@ const TreatmentsPage: React.FC = () => {
         <Typography variant="h5" fontWeight="600">
           Treatments Management
         </Typography>
-        <Button
-          variant="contained"
-          sx={{
-            backgroundColor: 'white',
-            color: theme.palette.primary.main,
-            '&:hover': { backgroundColor: '#f4f4f4' },
-            fontWeight: 600,
-          }}
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenModal()}
-        >
-          Add Treatment
-        </Button>
+        {tab === 0 && (
+          <Button
+            variant="contained"
+            sx={{
+              backgroundColor: 'white',
+              color: theme.palette.primary.main,
+              '&:hover': { backgroundColor: '#f4f4f4' },
+              fontWeight: 600,
+            }}
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenModal()}
+          >
+            Add Treatment
+          </Button>
+        )}
       </Box>
 
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3 }}>
+        <Tab label="Treatments" />
+        <Tab label="Treatment Plans" />
+      </Tabs>
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
           {error}
         </Alert>
       )}
 
-      {loading ? (
+      {tab === 1 ? (
+        <TreatmentPlansPanel patients={patients} doctors={doctors} onTreatmentRecorded={fetchInitialData} />
+      ) : loading ? (
         <Box display="flex" justifyContent="center" alignItems="center" height="50vh">
           <CircularProgress size={60} />
         </Box>
@@ -220,7 +307,7 @@ const TreatmentsPage: React.FC = () => {
             <Table>
               <TableHead>
                 <TableRow sx={{ backgroundColor: theme.palette.primary.main }}>
-                  {['Date', 'Patient', 'Doctor', 'Treatment Type', 'Cost', 'Disease', 'Actions'].map(
+                  {['Date', 'Patient', 'Doctor', 'Treatment Type', 'Status', 'Cost', 'Disease', 'Actions'].map(
                     (header) => (
                       <TableCell
                         key={header}
@@ -258,6 +345,13 @@ const TreatmentsPage: React.FC = () => {
                         : 'Unknown'}
                     </TableCell>
                     <TableCell>{treatment.treatmentType}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={TREATMENT_STATUS_LABELS[treatment.status || 'completed']}
+                        size="small"
+                        color={treatment.status === 'in_progress' ? 'warning' : 'success'}
+                      />
+                    </TableCell>
                     <TableCell>
                       ₹{treatment.cost.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
                     </TableCell>
@@ -277,6 +371,18 @@ const TreatmentsPage: React.FC = () => {
                         </IconButton>
                       </Tooltip>
 
+                      <Tooltip title="Write Prescription">
+                        <IconButton color="primary" onClick={() => setPrescribing(treatment)}>
+                          <PrescribeIcon />
+                        </IconButton>
+                      </Tooltip>
+
+                      <Tooltip title="Send to Lab">
+                        <IconButton color="primary" onClick={() => setLabCaseTreatment(treatment)}>
+                          <LabIcon />
+                        </IconButton>
+                      </Tooltip>
+
                       {canDelete && (
                         <Tooltip title="Delete Treatment">
                           <IconButton
@@ -319,6 +425,7 @@ const TreatmentsPage: React.FC = () => {
         </DialogTitle>
         <DialogContent dividers>
           <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <MedicalAlertBanner patient={patients.find((patient) => patient._id === formData.patientId)} dense />
             <FormControl fullWidth>
               <InputLabel>Patient *</InputLabel>
               <Select
@@ -348,12 +455,85 @@ const TreatmentsPage: React.FC = () => {
               </Select>
             </FormControl>
 
-            <TextField
-              label="Treatment Type *"
-              value={formData.treatmentType}
-              onChange={(e) => setFormData({ ...formData, treatmentType: e.target.value })}
-              placeholder="e.g., Root Canal, Filling, Cleaning"
-            />
+            <Box display="flex" gap={2}>
+              <Autocomplete
+                freeSolo
+                options={procedures}
+                groupBy={(procedure: Procedure) => PROCEDURE_CATEGORY_LABELS[procedure.category]}
+                getOptionLabel={(option) => (typeof option === 'string' ? option : `${option.code} – ${option.name}`)}
+                value={procedures.find((procedure) => procedure._id === formData.procedureId) || formData.treatmentType}
+                onChange={(_, value) => {
+                  if (value && typeof value === 'object') {
+                    setFormData({
+                      ...formData,
+                      procedureId: value._id,
+                      treatmentType: value.name,
+                      cost: String(value.fee ?? value.defaultFee),
+                    });
+                  } else {
+                    setFormData({ ...formData, procedureId: '', treatmentType: value || '' });
+                  }
+                }}
+                onInputChange={(_, value, reason) => {
+                  // Typing something else unlinks the catalog procedure
+                  if (reason === 'input') {
+                    setFormData({ ...formData, procedureId: '', treatmentType: value });
+                  }
+                }}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Treatment Type *"
+                    placeholder="Search the procedure catalog or type a treatment"
+                  />
+                )}
+                sx={{ flexGrow: 1 }}
+              />
+              {feeSchedules.length > 0 && (
+                <TextField
+                  select
+                  label="Fee Schedule"
+                  value={feeScheduleId}
+                  onChange={(e) => setFeeScheduleId(e.target.value)}
+                  sx={{ minWidth: 160 }}
+                >
+                  {feeSchedules.map((schedule) => (
+                    <MenuItem key={schedule._id} value={schedule._id}>
+                      {schedule.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </Box>
+
+            <Box display="flex" gap={2} alignItems="center">
+              <TextField
+                select
+                label="Tooth (FDI)"
+                value={formData.toothNumber}
+                onChange={(e) => setFormData({ ...formData, toothNumber: e.target.value })}
+                sx={{ minWidth: 140 }}
+              >
+                <MenuItem value="">None</MenuItem>
+                {ALL_TEETH.map((tooth) => (
+                  <MenuItem key={tooth} value={tooth}>
+                    {tooth}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <ToggleButtonGroup
+                size="small"
+                value={formData.surfaces}
+                disabled={!formData.toothNumber}
+                onChange={(_, surfaces) => setFormData({ ...formData, surfaces })}
+              >
+                {SURFACES.map((surface) => (
+                  <ToggleButton key={surface} value={surface} title={SURFACE_LABELS[surface]}>
+                    {surface}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
 
             <TextField
               label="Description"
@@ -383,12 +563,26 @@ const TreatmentsPage: React.FC = () => {
               onChange={(e) => setFormData({ ...formData, treatmentDate: e.target.value })}
               InputLabelProps={{ shrink: true }}
             />
+
+            <TextField
+              select
+              label="Status"
+              value={formData.status}
+              onChange={(e) => setFormData({ ...formData, status: e.target.value })}
+              helperText="Procedures with a required consent form can only be completed once it is signed"
+            >
+              {(Object.keys(TREATMENT_STATUS_LABELS) as TreatmentStatus[]).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {TREATMENT_STATUS_LABELS[status]}
+                </MenuItem>
+              ))}
+            </TextField>
           </Box>
         </DialogContent>
         <DialogActions sx={{ p: 2 }}>
           <Button onClick={handleCloseModal}>Cancel</Button>
           <Button
-            onClick={handleSave}
+            onClick={() => handleSave()}
             variant="contained"
             disabled={!formData.patientId || !formData.doctorId || !formData.treatmentType || !formData.cost}
           >
@@ -424,6 +618,12 @@ const TreatmentsPage: React.FC = () => {
               <Typography>
                 <strong>Type:</strong> {selectedTreatment.treatmentType}
               </Typography>
+              {selectedTreatment.toothNumber && (
+                <Typography>
+                  <strong>Tooth:</strong> {selectedTreatment.toothNumber}
+                  {selectedTreatment.surfaces?.length ? ` (${selectedTreatment.surfaces.join('')})` : ''}
+                </Typography>
+              )}
               <Typography>
                 <strong>Cost:</strong>{' '}
                 ₹{selectedTreatment.cost.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
@@ -455,6 +655,15 @@ const TreatmentsPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <TreatmentAlertsDialog
+        alerts={treatmentAlerts}
+        onCancel={() => setTreatmentAlerts([])}
+        onConfirm={() => handleSave(true)}
+      />
+
+      <PrescriptionDialog treatment={prescribing} onClose={() => setPrescribing(null)} />
+      <LabCaseDialog treatment={labCaseTreatment} onClose={() => setLabCaseTreatment(null)} />
+
       {/* Delete Confirmation */}
       <Dialog
         open={deleteDialogOpen}
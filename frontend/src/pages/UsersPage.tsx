@@ -59,6 +59,7 @@ const UsersPage: React.FC = () => {
     name: '',
     role: 'receptionist',
     phone: '',
+    registrationNumber: '',
     password: '',
   });
 
@@ -95,6 +96,7 @@ const UsersPage: React.FC = () => {
         name: user.name,
         role: user.role,
         phone: user.phone || '',
+        registrationNumber: user.registrationNumber || '',
         password: '',
       });
     } else {
@@ -104,6 +106,7 @@ const UsersPage: React.FC = () => {
         name: '',
         role: 'receptionist',
         phone: '',
+        registrationNumber: '',
         password: '',
       });
     }
@@ -118,6 +121,7 @@ const UsersPage: React.FC = () => {
       name: '',
       role: 'receptionist',
       phone: '',
+      registrationNumber: '',
       password: '',
     });
   };
@@ -130,6 +134,7 @@ const UsersPage: React.FC = () => {
           email: formData.email,
           role: formData.role,
           phone: formData.phone,
+          registrationNumber: formData.registrationNumber,
         };
         await userService.updateUser(selectedUser._id, updateData);
       } else {
@@ -441,6 +446,14 @@ const UsersPage: React.FC = () => {
               value={formData.phone}
               onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
             />
+            {formData.role === 'dentist' && (
+              <TextField
+                label="Registration Number"
+                value={formData.registrationNumber}
+                onChange={(e) => setFormData({ ...formData, registrationNumber: e.target.value })}
+                helperText="Dental council registration, printed on prescriptions"
+              />
+            )}
             {!selectedUser && (
               <TextField
                 label="Password *"
@@ -0,0 +1,137 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Box, Card, CardContent, Button, Typography, Alert, CircularProgress } from '@mui/material';
+import { waitlistService } from '../services/waitlist.service';
+import { getErrorMessage } from '../utils/errors';
+import type { PublicWaitlistOffer } from '../types';
+
+const STATUS_MESSAGES: Record<PublicWaitlistOffer['status'], string> = {
+  pending: '',
+  accepted: 'You are booked in. We look forward to seeing you!',
+  declined: 'You have declined this slot. You remain on our waitlist.',
+  taken: 'Sorry, this slot has already been taken by another patient.',
+  expired: 'Sorry, this offer has expired.',
+  withdrawn: 'This offer is no longer available.',
+};
+
+/**
+ * Public page reached from the link in a waitlist offer email
+ */
+const WaitlistOfferPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+
+  const [offer, setOffer] = useState<PublicWaitlistOffer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchOffer = useCallback(async () => {
+    try {
+      setOffer((await waitlistService.getOffer(token!)) || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Offer not found'));
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchOffer();
+  }, [fetchOffer]);
+
+  const handleRespond = async (accept: boolean) => {
+    try {
+      setSubmitting(true);
+      setError('');
+      const updated = accept ? await waitlistService.acceptOffer(token!) : await waitlistService.declineOffer(token!);
+      setOffer(updated || null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to respond to offer'));
+      fetchOffer();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+        padding: 2,
+      }}
+    >
+      <Card sx={{ maxWidth: 440, width: '100%' }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h5" component="h1" align="center" gutterBottom>
+            Appointment Offer
+          </Typography>
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={4}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {error}
+                </Alert>
+              )}
+
+              {offer && (
+                <>
+                  <Typography variant="body1" sx={{ mb: 2 }}>
+                    Hi {offer.patientName}, an appointment is available:
+                  </Typography>
+                  <Typography variant="body1">
+                    <strong>Date:</strong> {new Date(offer.startTime).toLocaleDateString()}
+                  </Typography>
+                  <Typography variant="body1">
+                    <strong>Time:</strong>{' '}
+                    {new Date(offer.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} -{' '}
+                    {new Date(offer.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </Typography>
+                  <Typography variant="body1" sx={{ mb: 2 }}>
+                    <strong>Doctor:</strong> Dr. {offer.doctorName}
+                  </Typography>
+
+                  {offer.status === 'pending' ? (
+                    <>
+                      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                        This slot goes to the first patient who accepts. Offer expires{' '}
+                        {new Date(offer.expiresAt).toLocaleString()}.
+                      </Typography>
+                      <Box display="flex" gap={2}>
+                        <Button
+                          fullWidth
+                          variant="contained"
+                          disabled={submitting}
+                          onClick={() => handleRespond(true)}
+                        >
+                          Accept
+                        </Button>
+                        <Button fullWidth variant="outlined" disabled={submitting} onClick={() => handleRespond(false)}>
+                          Decline
+                        </Button>
+                      </Box>
+                    </>
+                  ) : (
+                    <Alert severity={offer.status === 'accepted' ? 'success' : 'info'}>
+                      {STATUS_MESSAGES[offer.status]}
+                    </Alert>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default WaitlistOfferPage;
@@ -0,0 +1,526 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  CircularProgress,
+  Alert,
+  MenuItem,
+  Chip,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  useTheme,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  History as HistoryIcon,
+} from '@mui/icons-material';
+import { useAuth } from '../context/AuthContext';
+import { waitlistService } from '../services/waitlist.service';
+import { patientService } from '../services/patient.service';
+import { userService } from '../services/user.service';
+import { getErrorMessage } from '../utils/errors';
+import type { Patient, PreferredWindow, User, WaitlistEntry, WaitlistOffer, WaitlistUrgency } from '../types';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const URGENCY_COLORS: Record<WaitlistUrgency, 'default' | 'info' | 'warning' | 'error'> = {
+  low: 'default',
+  normal: 'info',
+  high: 'warning',
+  urgent: 'error',
+};
+
+const OFFER_STATUS_COLORS: Record<WaitlistOffer['status'], 'default' | 'success' | 'warning' | 'error' | 'info'> = {
+  pending: 'info',
+  accepted: 'success',
+  declined: 'default',
+  taken: 'warning',
+  expired: 'default',
+  withdrawn: 'default',
+};
+
+interface EntryForm {
+  patientId: string;
+  preferredDoctorId: string;
+  urgency: WaitlistUrgency;
+  duration: string;
+  notes: string;
+  preferredWindows: PreferredWindow[];
+}
+
+const emptyForm = (): EntryForm => ({
+  patientId: '',
+  preferredDoctorId: '',
+  urgency: 'normal',
+  duration: '30',
+  notes: '',
+  preferredWindows: [],
+});
+
+const describeWindow = (window: PreferredWindow) =>
+  `${window.dayOfWeek !== undefined && window.dayOfWeek !== null ? DAY_LABELS[window.dayOfWeek] : 'Any day'} ${
+    window.startTime
+  }-${window.endTime}`;
+
+const WaitlistPage: React.FC = () => {
+  const { user } = useAuth();
+  const theme = useTheme();
+
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [doctors, setDoctors] = useState<User[]>([]);
+  const [status, setStatus] = useState<'waiting' | 'booked' | 'removed' | 'all'>('waiting');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<WaitlistEntry | null>(null);
+  const [formData, setFormData] = useState<EntryForm>(emptyForm());
+  const [offers, setOffers] = useState<WaitlistOffer[] | null>(null);
+
+  const fetchInitialData = useCallback(async () => {
+    try {
+      const patientsRes = await patientService.getPatients({ limit: 1000 });
+      setPatients(patientsRes.data || []);
+
+      if (user?.role === 'admin' || user?.role === 'receptionist') {
+        const usersRes = await userService.getUsers({ role: 'dentist', limit: 100 });
+        setDoctors(usersRes.data || []);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load data'));
+    }
+  }, [user?.role]);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await waitlistService.getWaitlist({ status }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load waitlist'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchInitialData();
+  }, [fetchInitialData]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleOpenModal = (entry?: WaitlistEntry) => {
+    if (entry) {
+      setSelectedEntry(entry);
+      setFormData({
+        patientId: typeof entry.patientId === 'string' ? entry.patientId : entry.patientId?._id ?? '',
+        preferredDoctorId: !entry.preferredDoctorId
+          ? ''
+          : typeof entry.preferredDoctorId === 'string'
+            ? entry.preferredDoctorId
+            : entry.preferredDoctorId._id,
+        urgency: entry.urgency,
+        duration: entry.duration.toString(),
+        notes: entry.notes || '',
+        preferredWindows: entry.preferredWindows,
+      });
+    } else {
+      setSelectedEntry(null);
+      setFormData(emptyForm());
+    }
+    setModalOpen(true);
+  };
+
+  const updateWindow = (index: number, changes: Partial<PreferredWindow>) => {
+    setFormData({
+      ...formData,
+      preferredWindows: formData.preferredWindows.map((window, i) => (i === index ? { ...window, ...changes } : window)),
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      const entryData = {
+        ...formData,
+        duration: parseInt(formData.duration),
+      };
+      if (selectedEntry) {
+        await waitlistService.updateEntry(selectedEntry._id, entryData);
+      } else {
+        await waitlistService.createEntry(entryData);
+      }
+      setModalOpen(false);
+      fetchEntries();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save waitlist entry'));
+    }
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    try {
+      await waitlistService.removeEntry(entry._id);
+      fetchEntries();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove waitlist entry'));
+    }
+  };
+
+  const handleViewOffers = async (entry: WaitlistEntry) => {
+    try {
+      setOffers(await waitlistService.getEntryOffers(entry._id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load offers'));
+    }
+  };
+
+  return (
+    <Box p={4} sx={{ backgroundColor: theme.palette.background.default, minHeight: '100vh' }}>
+      {/* Header */}
+      <Box
+        mb={4}
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{
+          backgroundColor: theme.palette.primary.main,
+          color: 'white',
+          borderRadius: 2,
+          p: 3,
+          boxShadow: 3,
+        }}
+      >
+        <Typography variant="h5" fontWeight="600">
+          Waitlist
+        </Typography>
+        <Button
+          variant="contained"
+          sx={{
+            backgroundColor: 'white',
+            color: theme.palette.primary.main,
+            '&:hover': { backgroundColor: '#f4f4f4' },
+            fontWeight: 600,
+          }}
+          startIcon={<AddIcon />}
+          onClick={() => handleOpenModal()}
+        >
+          Add to Waitlist
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={status}
+        onChange={(_, value) => value && setStatus(value)}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="waiting">Waiting</ToggleButton>
+        <ToggleButton value="booked">Booked</ToggleButton>
+        <ToggleButton value="removed">Removed</ToggleButton>
+        <ToggleButton value="all">All</ToggleButton>
+      </ToggleButtonGroup>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" height="50vh">
+          <CircularProgress size={60} />
+        </Box>
+      ) : (
+        <Paper elevation={3} sx={{ borderRadius: 3, overflow: 'hidden' }}>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow sx={{ backgroundColor: theme.palette.primary.main }}>
+                  {['Added', 'Patient', 'Dentist', 'Preferred Times', 'Urgency', 'Length', 'Status', 'Actions'].map(
+                    (header) => (
+                      <TableCell
+                        key={header}
+                        sx={{
+                          color: 'white',
+                          fontWeight: 600,
+                          textAlign: header === 'Actions' ? 'center' : 'left',
+                        }}
+                      >
+                        {header}
+                      </TableCell>
+                    )
+                  )}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry._id} hover>
+                    <TableCell>{new Date(entry.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {typeof entry.patientId === 'object' ? (
+                        <>
+                          <Typography variant="body2" fontWeight={600}>
+                            {entry.patientId?.name ?? 'Unknown'}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {entry.patientId?.contact}
+                          </Typography>
+                        </>
+                      ) : (
+                        'Unknown'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {typeof entry.preferredDoctorId === 'object' ? `Dr. ${entry.preferredDoctorId.name}` : 'Any'}
+                    </TableCell>
+                    <TableCell>
+                      {entry.preferredWindows.length === 0 ? (
+                        'Any time'
+                      ) : (
+                        <Box display="flex" flexWrap="wrap" gap={0.5}>
+                          {entry.preferredWindows.map((window, i) => (
+                            <Chip key={i} label={describeWindow(window)} size="small" variant="outlined" />
+                          ))}
+                        </Box>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={entry.urgency} size="small" color={URGENCY_COLORS[entry.urgency]} />
+                    </TableCell>
+                    <TableCell>{entry.duration} min</TableCell>
+                    <TableCell>{entry.status}</TableCell>
+                    <TableCell align="center">
+                      <Tooltip title="Offers">
+                        <IconButton size="small" onClick={() => handleViewOffers(entry)}>
+                          <HistoryIcon />
+                        </IconButton>
+                      </Tooltip>
+                      {entry.status === 'waiting' && (
+                        <>
+                          <Tooltip title="Edit">
+                            <IconButton size="small" onClick={() => handleOpenModal(entry)}>
+                              <EditIcon />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Remove">
+                            <IconButton size="small" color="error" onClick={() => handleRemove(entry)}>
+                              <DeleteIcon />
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center">
+                      <Typography color="text.secondary" sx={{ py: 3 }}>
+                        No patients on the waitlist.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={modalOpen} onClose={() => setModalOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{selectedEntry ? 'Edit Waitlist Entry' : 'Add to Waitlist'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              select
+              label="Patient *"
+              value={formData.patientId}
+              onChange={(e) => setFormData({ ...formData, patientId: e.target.value })}
+              disabled={!!selectedEntry}
+            >
+              {patients.map((patient) => (
+                <MenuItem key={patient._id} value={patient._id}>
+                  {patient.name} - {patient.contact}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Preferred Dentist"
+              value={formData.preferredDoctorId}
+              onChange={(e) => setFormData({ ...formData, preferredDoctorId: e.target.value })}
+            >
+              <MenuItem value="">
+                <em>Any dentist</em>
+              </MenuItem>
+              {doctors.map((doctor) => (
+                <MenuItem key={doctor._id} value={doctor._id}>
+                  Dr. {doctor.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box display="flex" gap={2}>
+              <TextField
+                select
+                label="Urgency"
+                value={formData.urgency}
+                onChange={(e) => setFormData({ ...formData, urgency: e.target.value as WaitlistUrgency })}
+                sx={{ flex: 1 }}
+              >
+                <MenuItem value="low">Low</MenuItem>
+                <MenuItem value="normal">Normal</MenuItem>
+                <MenuItem value="high">High</MenuItem>
+                <MenuItem value="urgent">Urgent</MenuItem>
+              </TextField>
+              <TextField
+                label="Length (minutes)"
+                type="number"
+                value={formData.duration}
+                onChange={(e) => setFormData({ ...formData, duration: e.target.value })}
+                inputProps={{ min: 5, step: 5 }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+
+            <Box>
+              <Typography variant="subtitle2" mb={1}>
+                Preferred times
+              </Typography>
+              {formData.preferredWindows.length === 0 && (
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  Any time the clinic is open.
+                </Typography>
+              )}
+              {formData.preferredWindows.map((window, index) => (
+                <Box key={index} display="flex" gap={1} alignItems="center" mb={1}>
+                  <TextField
+                    select
+                    size="small"
+                    label="Day"
+                    value={window.dayOfWeek ?? ''}
+                    onChange={(e) =>
+                      updateWindow(index, {
+                        dayOfWeek: e.target.value === '' ? undefined : Number(e.target.value),
+                      })
+                    }
+                    sx={{ minWidth: 120 }}
+                  >
+                    <MenuItem value="">Any day</MenuItem>
+                    {DAY_LABELS.map((label, day) => (
+                      <MenuItem key={day} value={day}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    size="small"
+                    type="time"
+                    label="From"
+                    value={window.startTime}
+                    onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <TextField
+                    size="small"
+                    type="time"
+                    label="To"
+                    value={window.endTime}
+                    onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <IconButton
+                    size="small"
+                    color="error"
+                    onClick={() =>
+                      setFormData({
+                        ...formData,
+                        preferredWindows: formData.preferredWindows.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() =>
+                  setFormData({
+                    ...formData,
+                    preferredWindows: [...formData.preferredWindows, { startTime: '09:00', endTime: '12:00' }],
+                  })
+                }
+              >
+                Add time window
+              </Button>
+            </Box>
+
+            <TextField
+              label="Notes"
+              multiline
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setModalOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} variant="contained" disabled={!formData.patientId}>
+            {selectedEntry ? 'Update' : 'Add'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Offers Dialog */}
+      <Dialog open={offers !== null} onClose={() => setOffers(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Slot Offers</DialogTitle>
+        <DialogContent>
+          {offers?.length === 0 && (
+            <Typography color="text.secondary">No slots have been offered to this patient yet.</Typography>
+          )}
+          {offers?.map((offer) => (
+            <Box key={offer._id} display="flex" alignItems="center" gap={1} py={1}>
+              <Box flexGrow={1}>
+                <Typography variant="body2" fontWeight={600}>
+                  {new Date(offer.startTime).toLocaleString()}
+                  {typeof offer.doctorId === 'object' ? ` with Dr. ${offer.doctorId.name}` : ''}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Offered {new Date(offer.createdAt).toLocaleString()}
+                </Typography>
+              </Box>
+              <Chip label={offer.status} size="small" color={OFFER_STATUS_COLORS[offer.status]} />
+            </Box>
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOffers(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default WaitlistPage;
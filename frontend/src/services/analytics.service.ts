@@ -5,6 +5,7 @@ import type {
   RevenueByTreatment,
   PatientsByDoctor,
   DiseaseStats,
+  AgingReport,
   ApiResponse,
 } from '../types';
 
@@ -33,4 +34,9 @@ export const analyticsService = {
     const response = await api.get<any, ApiResponse<DiseaseStats[]>>('/analytics/diseases');
     return response.data || [];
   },
+
+  getArAging: async () => {
+    const response = await api.get<unknown, ApiResponse<AgingReport>>('/analytics/ar-aging');
+    return response.data;
+  },
 };
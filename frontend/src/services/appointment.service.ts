@@ -1,5 +1,12 @@
 import api from './api';
-import type { Appointment, ApiResponse } from '../types';
+import type {
+  Appointment,
+  ApiResponse,
+  Availability,
+  OccurrenceConflict,
+  RecurrenceRule,
+  SeriesScope,
+} from '../types';
 
 export const appointmentService = {
   getAppointments: async (params?: any) => {
@@ -12,6 +19,11 @@ export const appointmentService = {
     return response.data || [];
   },
 
+  getAvailability: async (params: { doctorId: string; date: string; duration?: number; roomId?: string }) => {
+    const response = await api.get<unknown, ApiResponse<Availability>>('/appointments/availability', { params });
+    return response.data || { slots: [], reason: null };
+  },
+
   getAppointmentById: async (id: string) => {
     const response = await api.get<any, ApiResponse<{ appointment: Appointment }>>(`/appointments/${id}`);
     return response.data?.appointment;
@@ -22,13 +34,23 @@ export const appointmentService = {
     return response.data?.appointment;
   },
 
-  updateAppointment: async (id: string, appointmentData: Partial<Appointment>) => {
+  createAppointmentSeries: async (
+    appointmentData: Partial<Appointment> & { recurrence: RecurrenceRule; skipConflicts?: boolean }
+  ) => {
+    const response = await api.post<
+      unknown,
+      ApiResponse<{ appointment: Appointment; appointments: Appointment[]; conflicts: OccurrenceConflict[] }>
+    >('/appointments', appointmentData);
+    return response.data;
+  },
+
+  updateAppointment: async (id: string, appointmentData: Partial<Appointment> & { scope?: SeriesScope }) => {
     const response = await api.put<any, ApiResponse<{ appointment: Appointment }>>(`/appointments/${id}`, appointmentData);
     return response.data?.appointment;
   },
 
-  cancelAppointment: async (id: string) => {
-    await api.delete(`/appointments/${id}`);
+  cancelAppointment: async (id: string, scope?: SeriesScope) => {
+    await api.delete(`/appointments/${id}`, { params: scope ? { scope } : undefined });
   },
 
   sendReminder: async (id: string) => {
@@ -0,0 +1,19 @@
+import api from './api';
+import type { AppointmentResponseAction, AppointmentResponseDetails, ApiResponse } from '../types';
+
+export const appointmentResponseService = {
+  getAppointment: async (token: string) => {
+    const response = await api.get<unknown, ApiResponse<{ appointment: AppointmentResponseDetails }>>(
+      `/appointment-responses/${token}`
+    );
+    return response.data?.appointment;
+  },
+
+  respond: async (token: string, action: AppointmentResponseAction) => {
+    const response = await api.post<unknown, ApiResponse<{ appointment: AppointmentResponseDetails }>>(
+      `/appointment-responses/${token}`,
+      { action }
+    );
+    return response.data?.appointment;
+  },
+};
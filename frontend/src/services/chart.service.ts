@@ -0,0 +1,29 @@
+import api from './api';
+import type { DentalChart, ToothCondition, ApiResponse } from '../types';
+
+export const chartService = {
+  getChart: async (patientId: string) => {
+    const response = await api.get<unknown, ApiResponse<DentalChart>>(`/patients/${patientId}/chart`);
+    return response.data || { conditions: [], treatments: [] };
+  },
+
+  addCondition: async (patientId: string, conditionData: Partial<ToothCondition>) => {
+    const response = await api.post<unknown, ApiResponse<{ condition: ToothCondition }>>(
+      `/patients/${patientId}/chart`,
+      conditionData
+    );
+    return response.data?.condition;
+  },
+
+  updateCondition: async (patientId: string, conditionId: string, conditionData: Partial<ToothCondition>) => {
+    const response = await api.put<unknown, ApiResponse<{ condition: ToothCondition }>>(
+      `/patients/${patientId}/chart/${conditionId}`,
+      conditionData
+    );
+    return response.data?.condition;
+  },
+
+  deleteCondition: async (patientId: string, conditionId: string) => {
+    await api.delete(`/patients/${patientId}/chart/${conditionId}`);
+  },
+};
@@ -0,0 +1,79 @@
+import api from './api';
+import type { InsuranceClaim, ClaimLineInput, ClaimQuery, ClaimSummary, Invoice, Payment, ApiResponse } from '../types';
+
+export const claimService = {
+  getClaims: async (params?: ClaimQuery) => {
+    const response = await api.get<unknown, ApiResponse<InsuranceClaim[]>>('/claims', { params });
+    return response;
+  },
+
+  getSummary: async () => {
+    const response = await api.get<unknown, ApiResponse<ClaimSummary[]>>('/claims/summary');
+    return response.data || [];
+  },
+
+  getClaimById: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<{ claim: InsuranceClaim; payments: Payment[] }>>(`/claims/${id}`);
+    return response.data;
+  },
+
+  createClaim: async (claimData: { invoiceId: string; policyId: string; lines: ClaimLineInput[]; notes?: string }) => {
+    const response = await api.post<unknown, ApiResponse<{ claim: InsuranceClaim; invoice: Invoice }>>('/claims', claimData);
+    return response.data;
+  },
+
+  updateClaim: async (id: string, claimData: { lines?: ClaimLineInput[]; notes?: string }) => {
+    const response = await api.put<unknown, ApiResponse<{ claim: InsuranceClaim; invoice: Invoice }>>(
+      `/claims/${id}`,
+      claimData
+    );
+    return response.data;
+  },
+
+  submitClaim: async (id: string, insurerReference?: string) => {
+    const response = await api.post<unknown, ApiResponse<{ claim: InsuranceClaim }>>(`/claims/${id}/submit`, {
+      insurerReference,
+    });
+    return response.data?.claim;
+  },
+
+  // Lines left out are approved at 0; nothing approved rejects the claim
+  recordDecision: async (
+    id: string,
+    decision: { lines: { lineId: string; approvedAmount: number }[]; rejectionReason?: string; insurerReference?: string }
+  ) => {
+    const response = await api.post<unknown, ApiResponse<{ claim: InsuranceClaim; invoice: Invoice }>>(
+      `/claims/${id}/decision`,
+      decision
+    );
+    return response.data;
+  },
+
+  recordPayment: async (id: string, paymentData: { amount: number; reference?: string; paidAt?: string; notes?: string }) => {
+    const response = await api.post<unknown, ApiResponse<{ claim: InsuranceClaim; payment: Payment; invoice: Invoice }>>(
+      `/claims/${id}/payment`,
+      paymentData
+    );
+    return response.data;
+  },
+
+  deleteClaim: async (id: string) => {
+    await api.delete(`/claims/${id}`);
+  },
+
+  downloadPDF: async (claim: InsuranceClaim) => {
+    // The response interceptor already unwraps the body, so this is the blob itself
+    const data = await api.get<unknown, Blob>(`/claims/${claim._id}/pdf`, {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `claim-${claim.claimNumber}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+};
@@ -0,0 +1,41 @@
+import api from './api';
+import type { ClinicalNote, ClinicalNoteInput, ApiResponse } from '../types';
+
+export const clinicalNoteService = {
+  getNotes: async (patientId: string) => {
+    const response = await api.get<unknown, ApiResponse<ClinicalNote[]>>(`/patients/${patientId}/notes`);
+    return response.data || [];
+  },
+
+  createNote: async (patientId: string, noteData: ClinicalNoteInput) => {
+    const response = await api.post<unknown, ApiResponse<{ note: ClinicalNote }>>(`/patients/${patientId}/notes`, noteData);
+    return response.data?.note;
+  },
+
+  updateNote: async (patientId: string, noteId: string, noteData: ClinicalNoteInput) => {
+    const response = await api.put<unknown, ApiResponse<{ note: ClinicalNote }>>(
+      `/patients/${patientId}/notes/${noteId}`,
+      noteData
+    );
+    return response.data?.note;
+  },
+
+  signNote: async (patientId: string, noteId: string) => {
+    const response = await api.post<unknown, ApiResponse<{ note: ClinicalNote }>>(
+      `/patients/${patientId}/notes/${noteId}/sign`
+    );
+    return response.data?.note;
+  },
+
+  addAddendum: async (patientId: string, noteId: string, text: string) => {
+    const response = await api.post<unknown, ApiResponse<{ note: ClinicalNote }>>(
+      `/patients/${patientId}/notes/${noteId}/addenda`,
+      { text }
+    );
+    return response.data?.note;
+  },
+
+  deleteNote: async (patientId: string, noteId: string) => {
+    await api.delete(`/patients/${patientId}/notes/${noteId}`);
+  },
+};
@@ -0,0 +1,75 @@
+import api from './api';
+import type {
+  Consent,
+  ConsentInput,
+  ConsentPreview,
+  ConsentTemplate,
+  ConsentTemplateInput,
+  ApiResponse,
+} from '../types';
+
+export const consentService = {
+  getVariables: async () => {
+    const response = await api.get<unknown, ApiResponse<string[]>>('/consent-templates/variables');
+    return response.data || [];
+  },
+
+  getTemplates: async (params?: { includeInactive?: boolean; procedureId?: string }) => {
+    const response = await api.get<unknown, ApiResponse<ConsentTemplate[]>>('/consent-templates', { params });
+    return response.data || [];
+  },
+
+  createTemplate: async (templateData: ConsentTemplateInput) => {
+    const response = await api.post<unknown, ApiResponse<{ template: ConsentTemplate }>>(
+      '/consent-templates',
+      templateData
+    );
+    return response.data?.template;
+  },
+
+  updateTemplate: async (id: string, templateData: ConsentTemplateInput) => {
+    const response = await api.put<unknown, ApiResponse<{ template: ConsentTemplate }>>(
+      `/consent-templates/${id}`,
+      templateData
+    );
+    return response.data?.template;
+  },
+
+  deleteTemplate: async (id: string) => {
+    await api.delete(`/consent-templates/${id}`);
+  },
+
+  getConsents: async (patientId: string) => {
+    const response = await api.get<unknown, ApiResponse<Consent[]>>(`/patients/${patientId}/consents`);
+    return response.data || [];
+  },
+
+  previewConsent: async (patientId: string, data: { templateId: string; treatmentId?: string }) => {
+    const response = await api.post<unknown, ApiResponse<ConsentPreview>>(`/patients/${patientId}/consents/preview`, data);
+    return response.data;
+  },
+
+  signConsent: async (patientId: string, consentData: ConsentInput) => {
+    const response = await api.post<unknown, ApiResponse<{ consent: Consent }>>(
+      `/patients/${patientId}/consents`,
+      consentData
+    );
+    return response.data?.consent;
+  },
+
+  downloadPDF: async (patientId: string, consentId: string) => {
+    // The response interceptor already unwraps the body, so this is the blob itself
+    const data = await api.get<unknown, Blob>(`/patients/${patientId}/consents/${consentId}/pdf`, {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `consent-${consentId}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+};
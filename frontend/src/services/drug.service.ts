@@ -0,0 +1,23 @@
+import api from './api';
+import type { ApiResponse, Drug, DrugInput } from '../types';
+
+export const drugService = {
+  getDrugs: async (params?: { includeInactive?: boolean; search?: string }) => {
+    const response = await api.get<unknown, ApiResponse<Drug[]>>('/drugs', { params });
+    return response.data || [];
+  },
+
+  createDrug: async (data: DrugInput) => {
+    const response = await api.post<unknown, ApiResponse<{ drug: Drug }>>('/drugs', data);
+    return response.data?.drug;
+  },
+
+  updateDrug: async (id: string, data: DrugInput) => {
+    const response = await api.put<unknown, ApiResponse<{ drug: Drug }>>(`/drugs/${id}`, data);
+    return response.data?.drug;
+  },
+
+  deleteDrug: async (id: string) => {
+    await api.delete(`/drugs/${id}`);
+  },
+};
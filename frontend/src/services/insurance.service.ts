@@ -0,0 +1,51 @@
+import api from './api';
+import type { InsuranceProvider, InsurancePolicy, ApiResponse } from '../types';
+
+export const insuranceService = {
+  getProviders: async (params?: { includeInactive?: boolean }) => {
+    const response = await api.get<unknown, ApiResponse<InsuranceProvider[]>>('/insurance-providers', { params });
+    return response.data || [];
+  },
+
+  createProvider: async (providerData: Partial<InsuranceProvider>) => {
+    const response = await api.post<unknown, ApiResponse<{ provider: InsuranceProvider }>>(
+      '/insurance-providers',
+      providerData
+    );
+    return response.data?.provider;
+  },
+
+  updateProvider: async (id: string, providerData: Partial<InsuranceProvider>) => {
+    const response = await api.put<unknown, ApiResponse<{ provider: InsuranceProvider }>>(
+      `/insurance-providers/${id}`,
+      providerData
+    );
+    return response.data?.provider;
+  },
+
+  deleteProvider: async (id: string) => {
+    await api.delete(`/insurance-providers/${id}`);
+  },
+
+  getPolicies: async (params?: { patientId?: string; includeInactive?: boolean }) => {
+    const response = await api.get<unknown, ApiResponse<InsurancePolicy[]>>('/insurance-policies', { params });
+    return response.data || [];
+  },
+
+  createPolicy: async (policyData: Partial<InsurancePolicy>) => {
+    const response = await api.post<unknown, ApiResponse<{ policy: InsurancePolicy }>>('/insurance-policies', policyData);
+    return response.data?.policy;
+  },
+
+  updatePolicy: async (id: string, policyData: Partial<InsurancePolicy>) => {
+    const response = await api.put<unknown, ApiResponse<{ policy: InsurancePolicy }>>(
+      `/insurance-policies/${id}`,
+      policyData
+    );
+    return response.data?.policy;
+  },
+
+  deletePolicy: async (id: string) => {
+    await api.delete(`/insurance-policies/${id}`);
+  },
+};
@@ -0,0 +1,120 @@
+import api from './api';
+import type {
+  InventoryItem,
+  InventoryItemDetail,
+  InventoryItemQuery,
+  InventoryBatch,
+  InventoryAlerts,
+  Supplier,
+  PurchaseOrder,
+  PurchaseOrderQuery,
+  ApiResponse,
+} from '../types';
+
+export const inventoryService = {
+  getItems: async (params?: InventoryItemQuery) => {
+    const response = await api.get<unknown, ApiResponse<InventoryItem[]>>('/inventory/items', { params });
+    return response.data || [];
+  },
+
+  getItemById: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<InventoryItemDetail>>(`/inventory/items/${id}`);
+    return response.data;
+  },
+
+  createItem: async (itemData: Partial<InventoryItem>) => {
+    const response = await api.post<unknown, ApiResponse<{ item: InventoryItem }>>('/inventory/items', itemData);
+    return response.data?.item;
+  },
+
+  updateItem: async (id: string, itemData: Partial<InventoryItem>) => {
+    const response = await api.put<unknown, ApiResponse<{ item: InventoryItem }>>(`/inventory/items/${id}`, itemData);
+    return response.data?.item;
+  },
+
+  deleteItem: async (id: string) => {
+    await api.delete(`/inventory/items/${id}`);
+  },
+
+  receiveStock: async (
+    id: string,
+    stock: { quantity: number; batchNumber?: string; expiryDate?: string; unitCost?: number; supplierId?: string }
+  ) => {
+    const response = await api.post<unknown, ApiResponse<{ batch: InventoryBatch; item: InventoryItem }>>(
+      `/inventory/items/${id}/receive`,
+      stock
+    );
+    return response.data;
+  },
+
+  adjustBatch: async (batchId: string, adjustment: { quantity?: number; dispose?: boolean; reason: string }) => {
+    const response = await api.post<unknown, ApiResponse<{ batch: InventoryBatch; item: InventoryItem }>>(
+      `/inventory/batches/${batchId}/adjust`,
+      adjustment
+    );
+    return response.data;
+  },
+
+  getAlerts: async () => {
+    const response = await api.get<unknown, ApiResponse<InventoryAlerts>>('/inventory/alerts');
+    return response.data;
+  },
+
+  getSuppliers: async (params?: { includeInactive?: boolean }) => {
+    const response = await api.get<unknown, ApiResponse<Supplier[]>>('/suppliers', { params });
+    return response.data || [];
+  },
+
+  createSupplier: async (supplierData: Partial<Supplier>) => {
+    const response = await api.post<unknown, ApiResponse<{ supplier: Supplier }>>('/suppliers', supplierData);
+    return response.data?.supplier;
+  },
+
+  updateSupplier: async (id: string, supplierData: Partial<Supplier>) => {
+    const response = await api.put<unknown, ApiResponse<{ supplier: Supplier }>>(`/suppliers/${id}`, supplierData);
+    return response.data?.supplier;
+  },
+
+  deleteSupplier: async (id: string) => {
+    await api.delete(`/suppliers/${id}`);
+  },
+
+  getPurchaseOrders: async (params?: PurchaseOrderQuery) => {
+    const response = await api.get<unknown, ApiResponse<PurchaseOrder[]>>('/purchase-orders', { params });
+    return response;
+  },
+
+  createPurchaseOrder: async (orderData: {
+    supplierId: string;
+    lines: { itemId: string; quantity: number; unitCost?: number }[];
+    expectedAt?: string;
+    notes?: string;
+  }) => {
+    const response = await api.post<unknown, ApiResponse<{ order: PurchaseOrder }>>('/purchase-orders', orderData);
+    return response.data?.order;
+  },
+
+  placePurchaseOrder: async (id: string) => {
+    const response = await api.post<unknown, ApiResponse<{ order: PurchaseOrder }>>(`/purchase-orders/${id}/order`);
+    return response.data?.order;
+  },
+
+  receivePurchaseOrder: async (
+    id: string,
+    lines: { lineId: string; quantity: number; batchNumber?: string; expiryDate?: string }[]
+  ) => {
+    const response = await api.post<unknown, ApiResponse<{ order: PurchaseOrder }>>(`/purchase-orders/${id}/receive`, {
+      lines,
+    });
+    return response.data?.order;
+  },
+
+  cancelPurchaseOrder: async (id: string) => {
+    const response = await api.post<unknown, ApiResponse<{ order: PurchaseOrder }>>(`/purchase-orders/${id}/cancel`);
+    return response.data?.order;
+  },
+
+  deletePurchaseOrder: async (id: string) => {
+    await api.delete(`/purchase-orders/${id}`);
+  },
+};
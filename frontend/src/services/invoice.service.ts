@@ -1,5 +1,5 @@
 import api from './api';
-import type { Invoice, ApiResponse } from '../types';
+import type { Invoice, InvoiceLineItemInput, Payment, CreditNote, CreditNoteLine, ApiResponse } from '../types';
 
 export const invoiceService = {
   getInvoices: async (params?: any) => {
@@ -17,7 +17,10 @@ export const invoiceService = {
     return response.data?.invoice;
   },
 
-  updateInvoice: async (id: string, invoiceData: Partial<Invoice>) => {
+  updateInvoice: async (
+    id: string,
+    invoiceData: Partial<Omit<Invoice, 'lineItems'>> & { lineItems?: InvoiceLineItemInput[] }
+  ) => {
     const response = await api.put<any, ApiResponse<{ invoice: Invoice }>>(`/invoices/${id}`, invoiceData);
     return response.data?.invoice;
   },
@@ -26,6 +29,65 @@ export const invoiceService = {
     await api.delete(`/invoices/${id}`);
   },
 
+  getPayments: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<Payment[]>>(`/invoices/${id}/payments`);
+    return response.data || [];
+  },
+
+  recordPayment: async (id: string, paymentData: Partial<Payment>) => {
+    const response = await api.post<unknown, ApiResponse<{ payment: Payment; invoice: Invoice }>>(
+      `/invoices/${id}/payments`,
+      paymentData
+    );
+    return response.data;
+  },
+
+  voidPayment: async (id: string, paymentId: string, reason: string) => {
+    const response = await api.post<unknown, ApiResponse<{ payment: Payment; invoice: Invoice }>>(
+      `/invoices/${id}/payments/${paymentId}/void`,
+      { reason }
+    );
+    return response.data;
+  },
+
+  recordRefund: async (id: string, refundData: Partial<Payment>) => {
+    const response = await api.post<unknown, ApiResponse<{ payment: Payment; invoice: Invoice }>>(
+      `/invoices/${id}/refunds`,
+      refundData
+    );
+    return response.data;
+  },
+
+  getCreditNotes: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<CreditNote[]>>(`/invoices/${id}/credit-notes`);
+    return response.data || [];
+  },
+
+  // Leave out the lines to credit everything that is left on the invoice
+  createCreditNote: async (id: string, creditNoteData: { reason: string; lines?: CreditNoteLine[] }) => {
+    const response = await api.post<unknown, ApiResponse<{ creditNote: CreditNote; invoice: Invoice }>>(
+      `/invoices/${id}/credit-notes`,
+      creditNoteData
+    );
+    return response.data;
+  },
+
+  downloadCreditNotePDF: async (id: string, creditNote: CreditNote) => {
+    // The response interceptor already unwraps the body, so this is the blob itself
+    const data = await api.get<unknown, Blob>(`/invoices/${id}/credit-notes/${creditNote._id}/pdf`, {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `credit-note-${creditNote.creditNoteNumber}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+
   // ✅ Fixed downloadPDF to handle binary properly
   downloadPDF: async (id: string) => {
     const response = await api.get(`/invoices/${id}/pdf`, {
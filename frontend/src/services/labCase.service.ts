@@ -0,0 +1,47 @@
+import api from './api';
+import type { ApiResponse, DentalLab, LabCase, LabCaseInput, LabCaseQuery, LabCaseStatus } from '../types';
+
+export const labCaseService = {
+  getLabs: async (params?: { includeInactive?: boolean }) => {
+    const response = await api.get<unknown, ApiResponse<DentalLab[]>>('/labs', { params });
+    return response.data || [];
+  },
+
+  createLab: async (labData: Partial<DentalLab>) => {
+    const response = await api.post<unknown, ApiResponse<{ lab: DentalLab }>>('/labs', labData);
+    return response.data?.lab;
+  },
+
+  updateLab: async (id: string, labData: Partial<DentalLab>) => {
+    const response = await api.put<unknown, ApiResponse<{ lab: DentalLab }>>(`/labs/${id}`, labData);
+    return response.data?.lab;
+  },
+
+  deleteLab: async (id: string) => {
+    await api.delete(`/labs/${id}`);
+  },
+
+  getLabCases: async (params?: LabCaseQuery) => {
+    const response = await api.get<unknown, ApiResponse<LabCase[]>>('/lab-cases', { params });
+    return response;
+  },
+
+  createLabCase: async (caseData: LabCaseInput) => {
+    const response = await api.post<unknown, ApiResponse<{ labCase: LabCase }>>('/lab-cases', caseData);
+    return response.data?.labCase;
+  },
+
+  updateLabCase: async (id: string, caseData: LabCaseInput) => {
+    const response = await api.put<unknown, ApiResponse<{ labCase: LabCase }>>(`/lab-cases/${id}`, caseData);
+    return response.data?.labCase;
+  },
+
+  updateStatus: async (id: string, statusData: { status: LabCaseStatus; note?: string; expectedReturnDate?: string }) => {
+    const response = await api.post<unknown, ApiResponse<{ labCase: LabCase }>>(`/lab-cases/${id}/status`, statusData);
+    return response.data?.labCase;
+  },
+
+  deleteLabCase: async (id: string) => {
+    await api.delete(`/lab-cases/${id}`);
+  },
+};
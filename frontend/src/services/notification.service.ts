@@ -0,0 +1,24 @@
+import api from './api';
+import type { Notification, NotificationQuery, NotificationSummary, ApiResponse } from '../types';
+
+export const notificationService = {
+  getNotifications: async (params?: NotificationQuery) => {
+    const response = await api.get<unknown, ApiResponse<Notification[]>>('/notifications', { params });
+    return response;
+  },
+
+  getSummary: async () => {
+    const response = await api.get<unknown, ApiResponse<NotificationSummary>>('/notifications/summary');
+    return response.data;
+  },
+
+  getNotificationById: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<{ notification: Notification }>>(`/notifications/${id}`);
+    return response.data?.notification;
+  },
+
+  resendNotification: async (id: string) => {
+    const response = await api.post<unknown, ApiResponse<{ notification: Notification }>>(`/notifications/${id}/resend`);
+    return response.data?.notification;
+  },
+};
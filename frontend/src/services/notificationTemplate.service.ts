@@ -0,0 +1,34 @@
+import api from './api';
+import type { NotificationTemplate, TemplatePreview, TemplateVariables, ApiResponse } from '../types';
+
+export const notificationTemplateService = {
+  getVariables: async () => {
+    const response = await api.get<unknown, ApiResponse<TemplateVariables[]>>('/notification-templates/variables');
+    return response.data || [];
+  },
+
+  getTemplate: async (type: string, channel: string, language: string) => {
+    const response = await api.get<unknown, ApiResponse<{ template: NotificationTemplate }>>(
+      `/notification-templates/${type}/${channel}/${language}`
+    );
+    return response.data?.template;
+  },
+
+  saveTemplate: async (template: NotificationTemplate) => {
+    const { type, channel, language, subject, textBody, htmlBody } = template;
+    const response = await api.put<unknown, ApiResponse<{ template: NotificationTemplate }>>(
+      `/notification-templates/${type}/${channel}/${language}`,
+      { subject, textBody, htmlBody }
+    );
+    return response.data?.template;
+  },
+
+  resetTemplate: async (type: string, channel: string, language: string) => {
+    await api.delete(`/notification-templates/${type}/${channel}/${language}`);
+  },
+
+  previewTemplate: async (template: Partial<NotificationTemplate>) => {
+    const response = await api.post<unknown, ApiResponse<TemplatePreview>>('/notification-templates/preview', template);
+    return response.data;
+  },
+};
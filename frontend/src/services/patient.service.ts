@@ -1,5 +1,5 @@
 import api from './api';
-import type { Patient, ApiResponse } from '../types';
+import type { Patient, PatientCredit, User, ApiResponse } from '../types';
 
 export const patientService = {
   getPatients: async (params?: any) => {
@@ -22,6 +22,14 @@ export const patientService = {
     return response.data?.patient;
   },
 
+  updateMedicalHistory: async (
+    id: string,
+    history: Pick<Patient, 'allergies' | 'medications' | 'conditions' | 'medicalHistory'>
+  ) => {
+    const response = await api.put<unknown, ApiResponse<{ patient: Patient }>>(`/patients/${id}/medical-history`, history);
+    return response.data?.patient;
+  },
+
   deletePatient: async (id: string) => {
     await api.delete(`/patients/${id}`);
   },
@@ -41,11 +49,21 @@ export const patientService = {
     return response.data || [];
   },
 
+  getPatientCredit: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<PatientCredit>>(`/patients/${id}/credit`);
+    return response.data;
+  },
+
   getPatientFiles: async (id: string) => {
     const response = await api.get<any, ApiResponse<any[]>>(`/patients/${id}/files`);
     return response.data || [];
   },
 
+  createPortalAccount: async (id: string, accountData: { email: string; password: string }) => {
+    const response = await api.post<unknown, ApiResponse<{ user: User }>>(`/patients/${id}/portal-account`, accountData);
+    return response.data?.user;
+  },
+
   exportPatients: async (format: 'csv' | 'excel' | 'pdf', filters?: any) => {
     const response = await api.post('/patients/export', { format, filters }, {
       responseType: 'blob',
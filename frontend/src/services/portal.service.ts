@@ -0,0 +1,62 @@
+import api from './api';
+import type { Appointment, Availability, Invoice, Patient, PortalBookingOptions, ReminderPreferences, ApiResponse } from '../types';
+
+export const portalService = {
+  getProfile: async () => {
+    const response = await api.get<unknown, ApiResponse<{ patient: Patient }>>('/portal/me');
+    return response.data?.patient;
+  },
+
+  updateReminderPreferences: async (preferences: Partial<ReminderPreferences>) => {
+    const response = await api.put<unknown, ApiResponse<{ reminderPreferences: ReminderPreferences }>>(
+      '/portal/reminder-preferences',
+      preferences
+    );
+    return response.data?.reminderPreferences;
+  },
+
+  getAppointments: async (params?: { all?: boolean }) => {
+    const response = await api.get<unknown, ApiResponse<Appointment[]>>('/portal/appointments', { params });
+    return response.data || [];
+  },
+
+  getBookingOptions: async () => {
+    const response = await api.get<unknown, ApiResponse<PortalBookingOptions>>('/portal/booking-options');
+    return response.data;
+  },
+
+  getAvailability: async (params: { doctorId: string; date: string; treatmentType: string }) => {
+    const response = await api.get<unknown, ApiResponse<Availability>>('/portal/availability', { params });
+    return response.data || { slots: [], reason: null };
+  },
+
+  bookAppointment: async (bookingData: { doctorId: string; startTime: string; treatmentType: string; notes?: string }) => {
+    const response = await api.post<unknown, ApiResponse<{ appointment: Appointment }>>('/portal/appointments', bookingData);
+    return response.data?.appointment;
+  },
+
+  cancelAppointment: async (id: string) => {
+    await api.delete(`/portal/appointments/${id}`);
+  },
+
+  getInvoices: async () => {
+    const response = await api.get<unknown, ApiResponse<Invoice[]>>('/portal/invoices');
+    return response.data || [];
+  },
+
+  downloadInvoicePDF: async (invoice: Invoice) => {
+    // The response interceptor already unwraps the body, so this is the blob itself
+    const data = await api.get<unknown, Blob>(`/portal/invoices/${invoice._id}/pdf`, {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `invoice-${invoice.invoiceNumber}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+};
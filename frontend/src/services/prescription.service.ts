@@ -0,0 +1,33 @@
+import api from './api';
+import type { ApiResponse, Prescription, PrescriptionInput } from '../types';
+
+export const prescriptionService = {
+  getPrescriptions: async (patientId: string, params?: { treatmentId?: string }) => {
+    const response = await api.get<unknown, ApiResponse<Prescription[]>>(`/patients/${patientId}/prescriptions`, { params });
+    return response.data || [];
+  },
+
+  createPrescription: async (patientId: string, prescriptionData: PrescriptionInput) => {
+    const response = await api.post<unknown, ApiResponse<{ prescription: Prescription }>>(
+      `/patients/${patientId}/prescriptions`,
+      prescriptionData
+    );
+    return response.data?.prescription;
+  },
+
+  downloadPDF: async (patientId: string, prescription: Pick<Prescription, '_id' | 'rxNumber'>) => {
+    // The response interceptor already unwraps the body, so this is the blob itself
+    const data = await api.get<unknown, Blob>(`/patients/${patientId}/prescriptions/${prescription._id}/pdf`, {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `${prescription.rxNumber}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+};
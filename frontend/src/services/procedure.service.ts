@@ -0,0 +1,42 @@
+import api from './api';
+import type { Procedure, ProcedureQuery, FeeSchedule, ApiResponse } from '../types';
+
+export const procedureService = {
+  getProcedures: async (params?: ProcedureQuery) => {
+    const response = await api.get<unknown, ApiResponse<Procedure[]>>('/procedures', { params });
+    return response.data || [];
+  },
+
+  createProcedure: async (procedureData: Partial<Procedure>) => {
+    const response = await api.post<unknown, ApiResponse<{ procedure: Procedure }>>('/procedures', procedureData);
+    return response.data?.procedure;
+  },
+
+  updateProcedure: async (id: string, procedureData: Partial<Procedure>) => {
+    const response = await api.put<unknown, ApiResponse<{ procedure: Procedure }>>(`/procedures/${id}`, procedureData);
+    return response.data?.procedure;
+  },
+
+  deleteProcedure: async (id: string) => {
+    await api.delete(`/procedures/${id}`);
+  },
+
+  getFeeSchedules: async (params?: { includeInactive?: boolean }) => {
+    const response = await api.get<unknown, ApiResponse<FeeSchedule[]>>('/fee-schedules', { params });
+    return response.data || [];
+  },
+
+  createFeeSchedule: async (scheduleData: Partial<FeeSchedule>) => {
+    const response = await api.post<unknown, ApiResponse<{ schedule: FeeSchedule }>>('/fee-schedules', scheduleData);
+    return response.data?.schedule;
+  },
+
+  updateFeeSchedule: async (id: string, scheduleData: Partial<FeeSchedule>) => {
+    const response = await api.put<unknown, ApiResponse<{ schedule: FeeSchedule }>>(`/fee-schedules/${id}`, scheduleData);
+    return response.data?.schedule;
+  },
+
+  deleteFeeSchedule: async (id: string) => {
+    await api.delete(`/fee-schedules/${id}`);
+  },
+};
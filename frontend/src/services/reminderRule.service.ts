@@ -0,0 +1,23 @@
+import api from './api';
+import type { ReminderRule, ApiResponse } from '../types';
+
+export const reminderRuleService = {
+  getRules: async () => {
+    const response = await api.get<unknown, ApiResponse<ReminderRule[]>>('/reminder-rules');
+    return response.data || [];
+  },
+
+  createRule: async (ruleData: Partial<ReminderRule>) => {
+    const response = await api.post<unknown, ApiResponse<{ rule: ReminderRule }>>('/reminder-rules', ruleData);
+    return response.data?.rule;
+  },
+
+  updateRule: async (id: string, ruleData: Partial<ReminderRule>) => {
+    const response = await api.put<unknown, ApiResponse<{ rule: ReminderRule }>>(`/reminder-rules/${id}`, ruleData);
+    return response.data?.rule;
+  },
+
+  deleteRule: async (id: string) => {
+    await api.delete(`/reminder-rules/${id}`);
+  },
+};
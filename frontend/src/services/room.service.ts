@@ -0,0 +1,23 @@
+import api from './api';
+import type { Room, ApiResponse } from '../types';
+
+export const roomService = {
+  getRooms: async (params?: { kind?: Room['kind']; includeInactive?: boolean }) => {
+    const response = await api.get<unknown, ApiResponse<Room[]>>('/rooms', { params });
+    return response.data || [];
+  },
+
+  createRoom: async (roomData: Partial<Room>) => {
+    const response = await api.post<unknown, ApiResponse<{ room: Room }>>('/rooms', roomData);
+    return response.data?.room;
+  },
+
+  updateRoom: async (id: string, roomData: Partial<Room>) => {
+    const response = await api.put<unknown, ApiResponse<{ room: Room }>>(`/rooms/${id}`, roomData);
+    return response.data?.room;
+  },
+
+  deleteRoom: async (id: string) => {
+    await api.delete(`/rooms/${id}`);
+  },
+};
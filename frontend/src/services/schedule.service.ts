@@ -0,0 +1,31 @@
+import api from './api';
+import type { DoctorSchedule, ClinicClosure, ApiResponse } from '../types';
+
+export const scheduleService = {
+  getDoctorSchedule: async (doctorId: string) => {
+    const response = await api.get<unknown, ApiResponse<{ schedule: DoctorSchedule }>>(`/schedules/doctors/${doctorId}`);
+    return response.data?.schedule;
+  },
+
+  updateDoctorSchedule: async (doctorId: string, scheduleData: Partial<DoctorSchedule>) => {
+    const response = await api.put<unknown, ApiResponse<{ schedule: DoctorSchedule }>>(
+      `/schedules/doctors/${doctorId}`,
+      scheduleData
+    );
+    return response.data?.schedule;
+  },
+
+  getClosures: async (params?: { from?: string; to?: string }) => {
+    const response = await api.get<unknown, ApiResponse<ClinicClosure[]>>('/schedules/closures', { params });
+    return response.data || [];
+  },
+
+  createClosure: async (closureData: { date: string; reason?: string }) => {
+    const response = await api.post<unknown, ApiResponse<{ closure: ClinicClosure }>>('/schedules/closures', closureData);
+    return response.data?.closure;
+  },
+
+  deleteClosure: async (id: string) => {
+    await api.delete(`/schedules/closures/${id}`);
+  },
+};
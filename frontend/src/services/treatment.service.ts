@@ -12,7 +12,7 @@ export const treatmentService = {
     return response.data?.treatment;
   },
 
-  createTreatment: async (treatmentData: Partial<Treatment>) => {
+  createTreatment: async (treatmentData: Partial<Treatment> & { acknowledgeAlerts?: boolean }) => {
     const response = await api.post<any, ApiResponse<{ treatment: Treatment }>>('/treatments', treatmentData);
     return response.data?.treatment;
   },
@@ -0,0 +1,81 @@
+import api from './api';
+import type {
+  TreatmentPlan,
+  TreatmentPlanInput,
+  TreatmentPlanQuery,
+  Treatment,
+  Appointment,
+  ApiResponse,
+} from '../types';
+
+export const treatmentPlanService = {
+  getTreatmentPlans: async (params?: TreatmentPlanQuery) => {
+    const response = await api.get<unknown, ApiResponse<TreatmentPlan[]>>('/treatment-plans', { params });
+    return response;
+  },
+
+  getTreatmentPlanById: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<{ plan: TreatmentPlan }>>(`/treatment-plans/${id}`);
+    return response.data?.plan;
+  },
+
+  createTreatmentPlan: async (planData: TreatmentPlanInput) => {
+    const response = await api.post<unknown, ApiResponse<{ plan: TreatmentPlan }>>('/treatment-plans', planData);
+    return response.data?.plan;
+  },
+
+  updateTreatmentPlan: async (id: string, planData: Partial<TreatmentPlanInput>) => {
+    const response = await api.put<unknown, ApiResponse<{ plan: TreatmentPlan }>>(`/treatment-plans/${id}`, planData);
+    return response.data?.plan;
+  },
+
+  acceptTreatmentPlan: async (id: string) => {
+    const response = await api.post<unknown, ApiResponse<{ plan: TreatmentPlan }>>(`/treatment-plans/${id}/accept`);
+    return response.data?.plan;
+  },
+
+  declineTreatmentPlan: async (id: string, reason?: string) => {
+    const response = await api.post<unknown, ApiResponse<{ plan: TreatmentPlan }>>(
+      `/treatment-plans/${id}/decline`,
+      { reason }
+    );
+    return response.data?.plan;
+  },
+
+  convertItem: async (
+    id: string,
+    itemId: string,
+    data: {
+      appointment?: { startTime: string; endTime: string };
+      recordTreatment?: boolean;
+      treatmentDate?: string;
+      acknowledgeAlerts?: boolean;
+    }
+  ) => {
+    const response = await api.post<
+      unknown,
+      ApiResponse<{ plan: TreatmentPlan; appointment: Appointment | null; treatment: Treatment | null }>
+    >(`/treatment-plans/${id}/items/${itemId}/convert`, data);
+    return response.data;
+  },
+
+  deleteTreatmentPlan: async (id: string) => {
+    await api.delete(`/treatment-plans/${id}`);
+  },
+
+  downloadPDF: async (id: string) => {
+    // The response interceptor already unwraps the body, so this is the blob itself
+    const data = await api.get<unknown, Blob>(`/treatment-plans/${id}/pdf`, {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `treatment-plan-${id}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+};
@@ -0,0 +1,29 @@
+import api from './api';
+import type { VitalsRecord, VitalsInput, ApiResponse } from '../types';
+
+export const vitalsService = {
+  getVitals: async (patientId: string) => {
+    const response = await api.get<unknown, ApiResponse<VitalsRecord[]>>(`/patients/${patientId}/vitals`);
+    return response.data || [];
+  },
+
+  createVitals: async (patientId: string, vitalsData: VitalsInput) => {
+    const response = await api.post<unknown, ApiResponse<{ vitals: VitalsRecord }>>(
+      `/patients/${patientId}/vitals`,
+      vitalsData
+    );
+    return response.data?.vitals;
+  },
+
+  updateVitals: async (patientId: string, vitalsId: string, vitalsData: VitalsInput) => {
+    const response = await api.put<unknown, ApiResponse<{ vitals: VitalsRecord }>>(
+      `/patients/${patientId}/vitals/${vitalsId}`,
+      vitalsData
+    );
+    return response.data?.vitals;
+  },
+
+  deleteVitals: async (patientId: string, vitalsId: string) => {
+    await api.delete(`/patients/${patientId}/vitals/${vitalsId}`);
+  },
+};
@@ -0,0 +1,47 @@
+import api from './api';
+import type { WaitlistEntry, WaitlistOffer, WaitlistQuery, PublicWaitlistOffer, ApiResponse } from '../types';
+
+export const waitlistService = {
+  getWaitlist: async (params?: WaitlistQuery) => {
+    const response = await api.get<unknown, ApiResponse<WaitlistEntry[]>>('/waitlist', { params });
+    return response.data || [];
+  },
+
+  createEntry: async (entryData: Partial<WaitlistEntry>) => {
+    const response = await api.post<unknown, ApiResponse<{ entry: WaitlistEntry }>>('/waitlist', entryData);
+    return response.data?.entry;
+  },
+
+  updateEntry: async (id: string, entryData: Partial<WaitlistEntry>) => {
+    const response = await api.put<unknown, ApiResponse<{ entry: WaitlistEntry }>>(`/waitlist/${id}`, entryData);
+    return response.data?.entry;
+  },
+
+  removeEntry: async (id: string) => {
+    await api.delete(`/waitlist/${id}`);
+  },
+
+  getEntryOffers: async (id: string) => {
+    const response = await api.get<unknown, ApiResponse<WaitlistOffer[]>>(`/waitlist/${id}/offers`);
+    return response.data || [];
+  },
+
+  getOffer: async (token: string) => {
+    const response = await api.get<unknown, ApiResponse<{ offer: PublicWaitlistOffer }>>(`/waitlist/offers/${token}`);
+    return response.data?.offer;
+  },
+
+  acceptOffer: async (token: string) => {
+    const response = await api.post<unknown, ApiResponse<{ offer: PublicWaitlistOffer }>>(
+      `/waitlist/offers/${token}/accept`
+    );
+    return response.data?.offer;
+  },
+
+  declineOffer: async (token: string) => {
+    const response = await api.post<unknown, ApiResponse<{ offer: PublicWaitlistOffer }>>(
+      `/waitlist/offers/${token}/decline`
+    );
+    return response.data?.offer;
+  },
+};
@@ -3,8 +3,10 @@ export interface User {
   id?: string;
   email: string;
   name: string;
-  role: 'admin' | 'dentist' | 'receptionist';
+  role: 'admin' | 'dentist' | 'receptionist' | 'patient';
   phone?: string;
+  registrationNumber?: string;
+  patientId?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -23,44 +25,947 @@ export interface Patient {
   address?: string;
   medicalHistory?: string;
   diseases?: string[];
+  allergies?: Allergy[];
+  medications?: Medication[];
+  conditions?: PatientCondition[];
+  language?: string;
+  reminderPreferences?: ReminderPreferences;
   createdAt: string;
   updatedAt: string;
 }
 
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'life_threatening';
+
+export interface Allergy {
+  _id?: string;
+  substance: string;
+  reaction?: string;
+  severity: AllergySeverity;
+}
+
+export type MedicationClass =
+  | 'anticoagulant'
+  | 'antiplatelet'
+  | 'bisphosphonate'
+  | 'insulin'
+  | 'antihypertensive'
+  | 'steroid'
+  | 'other';
+
+export interface Medication {
+  _id?: string;
+  name: string;
+  medicationClass: MedicationClass;
+  dose?: string;
+}
+
+export type MedicalCondition =
+  | 'diabetes'
+  | 'hypertension'
+  | 'pregnancy'
+  | 'cardiac'
+  | 'bleeding_disorder'
+  | 'asthma'
+  | 'epilepsy'
+  | 'immunocompromised'
+  | 'other';
+
+export interface PatientCondition {
+  _id?: string;
+  condition: MedicalCondition;
+  notes?: string;
+}
+
+// Raised when a new treatment clashes with the patient's recorded history
+export interface TreatmentAlert {
+  type: 'allergy' | 'medication' | 'condition';
+  severity: 'danger' | 'warning';
+  message: string;
+}
+
+// The error body when a treatment is refused until its alerts are acknowledged
+export interface TreatmentAlertError extends ApiError {
+  alerts?: TreatmentAlert[];
+}
+
+export interface ReminderPreferences {
+  email: boolean;
+  sms: boolean;
+  optOut: boolean;
+}
+
 export interface Appointment {
   _id: string;
   patientId: Patient | string;
   doctorId: User | string;
   startTime: string;
   endTime: string;
-  status: 'scheduled' | 'completed' | 'cancelled' | 'rescheduled';
+  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled';
   notes?: string;
   reminderSent: boolean;
+  rescheduleRequested?: boolean;
+  seriesId?: string;
+  recurrence?: RecurrenceRule;
+  roomId?: Room | string;
+  equipmentIds?: string[];
+  treatmentType?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Room {
+  _id: string;
+  name: string;
+  kind: 'room' | 'equipment';
+  description?: string;
+  isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ReminderChannel = 'email' | 'sms';
+
+export interface ReminderRule {
+  _id: string;
+  name: string;
+  offsetHours: number;
+  channel: ReminderChannel;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface Notification {
+  _id: string;
+  type:
+    | 'appointment_reminder'
+    | 'appointment_confirmation'
+    | 'invoice_generated'
+    | 'waitlist_offer'
+    | 'payment_reminder'
+    | 'payment_final_notice';
+  channel: ReminderChannel;
+  recipientEmail?: string;
+  recipientPhone?: string;
+  patientId?: Pick<Patient, '_id' | 'name'> | string;
+  appointmentId?: string;
+  invoiceId?: string;
+  subject?: string;
+  body?: string;
+  status: NotificationStatus;
+  sentAt?: string;
+  errorMessage?: string;
+  attempts: number;
+  nextAttemptAt?: string;
+  deliveryAttempts: { attemptedAt: string; error?: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationQuery extends PageQuery {
+  status?: NotificationStatus;
+  type?: Notification['type'];
+  channel?: ReminderChannel;
+}
+
+export interface NotificationTemplate {
+  _id?: string;
+  type: Notification['type'];
+  channel: ReminderChannel;
+  language: string;
+  subject?: string;
+  textBody: string;
+  htmlBody?: string;
+  isDefault?: boolean;
+  updatedBy?: Pick<User, '_id' | 'name'> | string;
+  updatedAt?: string;
+}
+
+export interface TemplateVariables {
+  type: Notification['type'];
+  channels: ReminderChannel[];
+  variables: string[];
+}
+
+export interface TemplatePreview {
+  preview: { subject?: string; text: string; html?: string };
+  unknownVariables: string[];
+}
+
+export interface NotificationSummary {
+  counts: Record<NotificationStatus, number>;
+  maxAttempts: number;
+}
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval?: number;
+  count?: number;
+  until?: string;
+  byWeekday?: Weekday[];
+}
+
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export interface OccurrenceConflict {
+  startTime: string;
+  endTime: string;
+  conflictingAppointmentId?: string;
+  reason: string;
+}
+
+export interface ScheduleBreak {
+  startTime: string;
+  endTime: string;
+  label?: string;
+}
+
+export interface WorkingDay {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  breaks: ScheduleBreak[];
+}
+
+export interface Leave {
+  _id?: string;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+export interface DoctorSchedule {
+  _id?: string;
+  doctorId: string;
+  weeklyHours: WorkingDay[];
+  leaves: Leave[];
+  isDefault?: boolean;
+}
+
+export interface ClinicClosure {
+  _id: string;
+  date: string;
+  reason?: string;
+}
+
+export interface TimeSlot {
+  startTime: string;
+  endTime: string;
+}
+
+export interface Availability {
+  slots: TimeSlot[];
+  reason: string | null;
+}
+
+export type WaitlistUrgency = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface PreferredWindow {
+  dayOfWeek?: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface WaitlistEntry {
+  _id: string;
+  patientId: Patient | string;
+  preferredDoctorId?: User | string;
+  preferredWindows: PreferredWindow[];
+  urgency: WaitlistUrgency;
+  duration: number;
+  notes?: string;
+  status: 'waiting' | 'booked' | 'removed';
+  appointmentId?: Appointment | string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WaitlistQuery {
+  status?: WaitlistEntry['status'] | 'all';
+  doctorId?: string;
+  urgency?: WaitlistUrgency;
+}
+
+export type WaitlistOfferStatus = 'pending' | 'accepted' | 'declined' | 'taken' | 'expired' | 'withdrawn';
+
+export interface WaitlistOffer {
+  _id: string;
+  waitlistEntryId: string;
+  doctorId: User | string;
+  startTime: string;
+  endTime: string;
+  status: WaitlistOfferStatus;
+  expiresAt: string;
+  respondedAt?: string;
+  createdAt: string;
+}
+
+// What the patient sees when following the link in an offer email
+export interface PublicWaitlistOffer {
+  patientName: string;
+  doctorName: string;
+  startTime: string;
+  endTime: string;
+  status: WaitlistOfferStatus;
+  expiresAt: string;
+}
+
+export type AppointmentResponseAction = 'confirm' | 'cancel' | 'reschedule';
+
+// What the patient sees when following a Confirm / Cancel / Reschedule link
+export interface AppointmentResponseDetails {
+  patientName: string;
+  doctorName: string;
+  startTime: string;
+  endTime: string;
+  status: Appointment['status'];
+  rescheduleRequested: boolean;
+  response?: AppointmentResponseAction;
+  respondedAt?: string;
+}
+
+export interface PortalTreatmentType {
+  type: string;
+  duration: number;
+}
+
+export interface PortalBookingOptions {
+  dentists: Pick<User, '_id' | 'name'>[];
+  treatmentTypes: PortalTreatmentType[];
+  rules: {
+    bookingLeadHours: number;
+    cancellationLeadHours: number;
+    maxAdvanceDays: number;
+    maxUpcomingAppointments: number;
+  };
+}
+
 export interface Treatment {
   _id: string;
   patientId: Patient | string;
   doctorId: User | string;
   appointmentId?: string;
+  procedureId?: Pick<Procedure, '_id' | 'code' | 'name' | 'taxClass'> | string;
   treatmentType: string;
   description?: string;
   cost: number;
   disease?: string;
   treatmentDate: string;
+  toothNumber?: string;
+  surfaces?: ToothSurface[];
+  status: TreatmentStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TreatmentStatus = 'in_progress' | 'completed';
+
+export type ToothSurface = 'M' | 'O' | 'D' | 'B' | 'L' | 'I';
+
+export type ProcedureCategory =
+  | 'diagnostic'
+  | 'preventive'
+  | 'restorative'
+  | 'endodontics'
+  | 'periodontics'
+  | 'prosthodontics'
+  | 'oral_surgery'
+  | 'orthodontics'
+  | 'implants'
+  | 'cosmetic'
+  | 'other';
+
+export type TaxClass = 'exempt' | 'reduced' | 'standard';
+
+export interface Procedure {
+  _id: string;
+  code: string;
+  name: string;
+  category: ProcedureCategory;
+  defaultDuration: number;
+  defaultFee: number;
+  taxClass: TaxClass;
+  aliases: string[];
+  // Supplies taken out of stock each time the procedure is recorded
+  materials: { itemId: string; quantity: number }[];
+  isActive: boolean;
+  // Price on the fee schedule the catalog was loaded for, and the tax class's rate
+  fee?: number;
+  taxRate?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProcedureQuery {
+  search?: string;
+  category?: ProcedureCategory;
+  includeInactive?: boolean;
+  // Prices each procedure on this schedule
+  feeScheduleId?: string;
+}
+
+export type FeeScheduleType = 'standard' | 'insurance' | 'staff_discount' | 'other';
+
+export interface FeeSchedule {
+  _id: string;
+  name: string;
+  type: FeeScheduleType;
+  providerId?: Pick<InsuranceProvider, '_id' | 'name'> | string;
+  discountPercent: number;
+  fees: { procedureId: string; fee: number }[];
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Supplier {
+  _id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type InventoryCategory = 'anesthetic' | 'restorative' | 'consumable' | 'instrument' | 'ppe' | 'medication' | 'other';
+
+export interface InventoryItem {
+  _id: string;
+  name: string;
+  sku?: string;
+  category: InventoryCategory;
+  unit: string;
+  quantityOnHand: number;
+  reorderLevel: number;
+  reorderQuantity?: number;
+  unitCost?: number;
+  supplierId?: Pick<Supplier, '_id' | 'name'> | string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InventoryItemQuery {
+  search?: string;
+  category?: InventoryCategory;
+  lowStock?: boolean;
+  includeInactive?: boolean;
+}
+
+export interface InventoryBatch {
+  _id: string;
+  itemId: Pick<InventoryItem, '_id' | 'name' | 'unit'> | string;
+  batchNumber?: string;
+  expiryDate?: string;
+  quantityReceived: number;
+  quantityRemaining: number;
+  unitCost?: number;
+  receivedAt: string;
+  supplierId?: Pick<Supplier, '_id' | 'name'> | string;
+  purchaseOrderId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type StockMovementType = 'receipt' | 'usage' | 'usage_reversal' | 'adjustment' | 'disposal';
+
+export interface StockMovement {
+  _id: string;
+  itemId: string;
+  batchId?: Pick<InventoryBatch, '_id' | 'batchNumber'> | string;
+  type: StockMovementType;
+  quantity: number;
+  treatmentId?: string;
+  purchaseOrderId?: string;
+  reason?: string;
+  createdBy?: Pick<User, '_id' | 'name'> | string;
+  createdAt: string;
+}
+
+export interface InventoryItemDetail {
+  item: InventoryItem;
+  batches: InventoryBatch[];
+  movements: StockMovement[];
+}
+
+export interface InventoryAlerts {
+  lowStock: InventoryItem[];
+  expiringSoon: InventoryBatch[];
+  expiryWarningDays: number;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderQuery extends PageQuery {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+}
+
+export interface PurchaseOrderLine {
+  _id: string;
+  itemId: Pick<InventoryItem, '_id' | 'name' | 'sku' | 'unit'> | string;
+  quantity: number;
+  unitCost: number;
+  receivedQuantity: number;
+}
+
+export interface PurchaseOrder {
+  _id: string;
+  orderNumber: string;
+  supplierId: Pick<Supplier, '_id' | 'name' | 'contactName' | 'phone' | 'email'> | string;
+  lines: PurchaseOrderLine[];
+  totalAmount: number;
+  status: PurchaseOrderStatus;
+  orderedAt?: string;
+  expectedAt?: string;
+  receivedAt?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ToothConditionType =
+  | 'caries'
+  | 'filling'
+  | 'crown'
+  | 'bridge'
+  | 'root_canal'
+  | 'implant'
+  | 'veneer'
+  | 'sealant'
+  | 'fracture'
+  | 'missing'
+  | 'extraction'
+  | 'watch'
+  | 'other';
+
+export interface ToothCondition {
+  _id: string;
+  patientId: string;
+  toothNumber: string;
+  surfaces: ToothSurface[];
+  condition: ToothConditionType;
+  status: 'existing' | 'planned' | 'completed';
+  treatmentId?: string;
+  notes?: string;
+  recordedBy?: User | string;
+  recordedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DentalChart {
+  conditions: ToothCondition[];
+  treatments: Treatment[];
+}
+
+export type SoapField = 'subjective' | 'objective' | 'assessment' | 'plan';
+
+export interface ClinicalNoteVersion {
+  version: number;
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
+  editedBy: Pick<User, '_id' | 'name'> | string;
+  editedAt: string;
+}
+
+export interface ClinicalNoteAddendum {
+  _id: string;
+  text: string;
+  authorId: Pick<User, '_id' | 'name'> | string;
+  createdAt: string;
+}
+
+export interface ClinicalNote {
+  _id: string;
+  patientId: string;
+  appointmentId?: Pick<Appointment, '_id' | 'startTime' | 'status'> | string;
+  treatmentId?: Pick<Treatment, '_id' | 'treatmentType' | 'treatmentDate' | 'toothNumber'> | string;
+  authorId: Pick<User, '_id' | 'name'> | string;
+  visitDate: string;
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
+  status: 'draft' | 'signed';
+  signedAt?: string;
+  versions: ClinicalNoteVersion[];
+  addenda: ClinicalNoteAddendum[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClinicalNoteInput {
+  appointmentId?: string;
+  treatmentId?: string;
+  visitDate?: string;
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
+}
+
+export type VitalField =
+  | 'systolic'
+  | 'diastolic'
+  | 'pulse'
+  | 'spo2'
+  | 'temperature'
+  | 'weight'
+  | 'height'
+  | 'bloodSugar';
+
+export type BloodSugarContext = 'fasting' | 'random' | 'post_meal';
+
+export interface VitalFlag {
+  field: VitalField;
+  value: number;
+  level: 'low' | 'high';
+  critical: boolean;
+  message: string;
+}
+
+export interface VitalsRecord {
+  _id: string;
+  patientId: string;
+  appointmentId?: { _id: string; startTime: string } | string;
+  recordedBy?: { _id: string; name: string } | string;
+  recordedAt: string;
+  systolic?: number;
+  diastolic?: number;
+  pulse?: number;
+  spo2?: number;
+  temperature?: number;
+  weight?: number;
+  height?: number;
+  bloodSugar?: number;
+  bloodSugarContext: BloodSugarContext;
+  notes?: string;
+  flags: VitalFlag[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VitalsInput = Partial<Record<VitalField, number | null>> & {
+  appointmentId?: string;
+  recordedAt?: string;
+  bloodSugarContext?: BloodSugarContext;
+  notes?: string;
+};
+
+export interface ConsentTemplate {
+  _id: string;
+  name: string;
+  procedureIds: Pick<Procedure, '_id' | 'code' | 'name'>[];
+  body: string;
+  isMandatory: boolean;
+  isActive: boolean;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConsentTemplateInput {
+  name?: string;
+  procedureIds?: string[];
+  body?: string;
+  isMandatory?: boolean;
+  isActive?: boolean;
+}
+
+export type SignerRelationship = 'patient' | 'parent' | 'guardian' | 'other';
+
+export interface Consent {
+  _id: string;
+  patientId: { _id: string; name: string } | string;
+  templateId: { _id: string; name: string; isMandatory: boolean } | string;
+  templateVersion: number;
+  procedureId?: string;
+  treatmentId?: { _id: string; treatmentType: string; treatmentDate: string; toothNumber?: string; status: TreatmentStatus } | string;
+  title: string;
+  body: string;
+  signerName: string;
+  signerRelationship: SignerRelationship;
+  signedAt: string;
+  witnessedBy: { _id: string; name: string } | string;
+  fileId?: string;
+  createdAt: string;
+}
+
+export interface ConsentPreview {
+  title: string;
+  body: string;
+  templateVersion: number;
+}
+
+export interface ConsentInput {
+  templateId: string;
+  treatmentId?: string;
+  signerName: string;
+  signerRelationship: SignerRelationship;
+  signature: string;
+}
+
+export type DrugForm =
+  | 'tablet'
+  | 'capsule'
+  | 'syrup'
+  | 'suspension'
+  | 'injection'
+  | 'gel'
+  | 'ointment'
+  | 'mouthwash'
+  | 'toothpaste'
+  | 'drops'
+  | 'other';
+
+export interface Drug {
+  _id: string;
+  name: string;
+  genericName?: string;
+  drugClass?: string;
+  strength?: string;
+  form: DrugForm;
+  defaultDosage?: string;
+  defaultFrequency?: string;
+  defaultDuration?: string;
+  defaultInstructions?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DrugInput = Partial<Omit<Drug, '_id' | 'createdAt' | 'updatedAt'>>;
+
+export interface PrescriptionItem {
+  drugId?: string;
+  name: string;
+  strength?: string;
+  form: DrugForm;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  instructions?: string;
+}
+
+export interface Prescription {
+  _id: string;
+  rxNumber: string;
+  patientId: { _id: string; name: string } | string;
+  doctorId: { _id: string; name: string; registrationNumber?: string } | string;
+  treatmentId?: { _id: string; treatmentType: string; treatmentDate: string; toothNumber?: string } | string;
+  items: PrescriptionItem[];
+  notes?: string;
+  acknowledgedAlerts: string[];
+  fileId?: string;
+  createdAt: string;
+}
+
+export interface PrescriptionInput {
+  treatmentId?: string;
+  doctorId?: string;
+  items: PrescriptionItem[];
+  notes?: string;
+  acknowledgeAlerts?: boolean;
+}
+
+export interface DentalLab {
+  _id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  turnaroundDays: number;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LabCaseType =
+  | 'crown'
+  | 'bridge'
+  | 'veneer'
+  | 'inlay_onlay'
+  | 'implant_crown'
+  | 'denture'
+  | 'aligner'
+  | 'night_guard'
+  | 'other';
+
+export type LabCaseStatus = 'sent' | 'in_progress' | 'received' | 'fitted' | 'remake';
+
+export interface LabCaseStatusChange {
+  status: LabCaseStatus;
+  changedBy?: { _id: string; name: string } | string;
+  changedAt: string;
+  note?: string;
+}
+
+export interface LabCase {
+  _id: string;
+  caseNumber: string;
+  patientId: { _id: string; name: string; contact?: string } | string;
+  treatmentId: { _id: string; treatmentType: string; treatmentDate: string; toothNumber?: string } | string;
+  doctorId: { _id: string; name: string } | string;
+  labId: Pick<DentalLab, '_id' | 'name' | 'phone' | 'email' | 'turnaroundDays'> | string;
+  caseType: LabCaseType;
+  toothNumbers: string[];
+  shade?: string;
+  material?: string;
+  instructions?: string;
+  attachments: Pick<FileMetadata, '_id' | 'fileName' | 'fileType' | 'mimeType'>[];
+  labFee?: number;
+  status: LabCaseStatus;
+  sentDate: string;
+  expectedReturnDate: string;
+  receivedDate?: string;
+  fittedDate?: string;
+  remakeCount: number;
+  statusHistory: LabCaseStatusChange[];
+  fittingAppointment: { _id: string; startTime: string; status: string } | null;
+  fittingWarning: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LabCaseInput {
+  treatmentId?: string;
+  labId?: string;
+  caseType?: LabCaseType;
+  toothNumbers?: string[];
+  shade?: string;
+  material?: string;
+  instructions?: string;
+  attachments?: string[];
+  labFee?: number;
+  sentDate?: string;
+  expectedReturnDate?: string;
+}
+
+export interface LabCaseQuery extends PageQuery {
+  status?: LabCaseStatus;
+  labId?: string;
+  patientId?: string;
+  treatmentId?: string;
+  overdue?: boolean;
+  open?: boolean;
+}
+
+export type TreatmentPlanStatus = 'proposed' | 'accepted' | 'declined' | 'in_progress' | 'completed';
+
+export interface TreatmentPlanItem {
+  _id: string;
+  procedureId?: string;
+  treatmentType: string;
+  description?: string;
+  toothNumber?: string;
+  surfaces?: ToothSurface[];
+  estimatedCost: number;
+  status: 'planned' | 'scheduled' | 'completed' | 'cancelled';
+  treatmentId?: string;
+  appointmentId?: string;
+}
+
+export interface TreatmentPlanPhase {
+  _id: string;
+  name: string;
+  order: number;
+  items: TreatmentPlanItem[];
+}
+
+// What the client sends for a plan; the server fills in item statuses and the estimate total
+export interface TreatmentPlanInput {
+  patientId: string;
+  doctorId: string;
+  title: string;
+  validUntil?: string;
+  notes?: string;
+  phases: {
+    name: string;
+    order: number;
+    items: Pick<TreatmentPlanItem, 'procedureId' | 'treatmentType' | 'toothNumber' | 'estimatedCost'>[];
+  }[];
+}
+
+export interface TreatmentPlanQuery extends PageQuery {
+  patientId?: string;
+  doctorId?: string;
+  status?: TreatmentPlanStatus;
+}
+
+export interface TreatmentPlan {
+  _id: string;
+  patientId: Patient | string;
+  doctorId: User | string;
+  title: string;
+  status: TreatmentPlanStatus;
+  phases: TreatmentPlanPhase[];
+  estimateTotal: number;
+  validUntil?: string;
+  acceptedAt?: string;
+  declinedAt?: string;
+  declineReason?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InvoiceLineItem {
+  _id: string;
+  treatmentId?: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent: number;
+  taxRate: number;
+  // Computed by the server
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+export type InvoiceLineItemInput = Pick<
+  InvoiceLineItem,
+  'treatmentId' | 'description' | 'quantity' | 'unitPrice' | 'discountPercent' | 'taxRate'
+> & { _id?: string };
+
+export interface TaxSummary {
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
 export interface Invoice {
   _id: string;
   patientId: Patient | string;
   treatmentIds: (Treatment | string)[];
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  taxSummary: TaxSummary[];
   totalAmount: number;
   paidAmount: number;
-  status: 'pending' | 'paid' | 'partial' | 'cancelled';
+  creditedAmount: number;
+  // The insurer's expected share and what is left for the patient
+  insuranceAmount: number;
+  patientAmount: number;
+  status: 'pending' | 'paid' | 'partial' | 'credited' | 'cancelled';
   invoiceNumber: string;
   issueDate: string;
   dueDate?: string;
@@ -69,11 +974,152 @@ export interface Invoice {
   updatedAt: string;
 }
 
+export type PaymentMethod = 'cash' | 'card' | 'upi' | 'insurance' | 'bank_transfer' | 'credit' | 'other';
+
+export interface Payment {
+  _id: string;
+  receiptNumber?: string;
+  invoiceId: string;
+  patientId: string;
+  type: 'payment' | 'refund';
+  // Negative for refunds
+  amount: number;
+  method: PaymentMethod;
+  claimId?: string;
+  reference?: string;
+  paidAt: string;
+  receivedBy?: Pick<User, '_id' | 'name'> | string;
+  reason?: string;
+  notes?: string;
+  voided: boolean;
+  voidedAt?: string;
+  voidedBy?: Pick<User, '_id' | 'name'> | string;
+  voidReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreditNoteLine {
+  _id?: string;
+  lineItemId: string;
+  description?: string;
+  amount: number;
+}
+
+export interface CreditNote {
+  _id: string;
+  creditNoteNumber: string;
+  invoiceId: string;
+  patientId: string;
+  lines: CreditNoteLine[];
+  totalAmount: number;
+  reason: string;
+  issueDate: string;
+  issuedBy?: Pick<User, '_id' | 'name'> | string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PatientCredit {
+  balance: number;
+  entries: (Omit<Payment, 'invoiceId'> & { invoiceId: Pick<Invoice, '_id' | 'invoiceNumber'> | string })[];
+}
+
+export interface InsuranceProvider {
+  _id: string;
+  name: string;
+  payerId?: string;
+  phone?: string;
+  email?: string;
+  claimsAddress?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InsurancePolicy {
+  _id: string;
+  patientId: string;
+  providerId: Pick<InsuranceProvider, '_id' | 'name' | 'payerId'> | string;
+  policyNumber: string;
+  groupNumber?: string;
+  subscriberName?: string;
+  relationship: 'self' | 'spouse' | 'child' | 'other';
+  coveragePercent: number;
+  annualMaximum?: number;
+  validFrom?: string;
+  validTo?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ClaimStatus = 'draft' | 'submitted' | 'approved' | 'partially_approved' | 'rejected' | 'paid';
+
+export interface ClaimQuery extends PageQuery {
+  status?: ClaimStatus;
+  providerId?: string;
+  patientId?: string;
+  invoiceId?: string;
+}
+
+export interface InsuranceClaimLine {
+  _id: string;
+  lineItemId: string;
+  treatmentId?: string;
+  procedureCode: string;
+  description?: string;
+  toothNumber?: string;
+  serviceDate?: string;
+  fee: number;
+  claimedAmount: number;
+  approvedAmount?: number;
+}
+
+// What the client sends for a claim line
+export interface ClaimLineInput {
+  lineItemId: string;
+  procedureCode: string;
+  // Leave out to claim the policy's coverage of the line
+  claimedAmount?: number;
+}
+
+export interface InsuranceClaim {
+  _id: string;
+  claimNumber: string;
+  invoiceId: Pick<Invoice, '_id' | 'invoiceNumber' | 'totalAmount' | 'issueDate'> | string;
+  patientId: Pick<Patient, '_id' | 'name' | 'contact' | 'email'> | string;
+  policyId: InsurancePolicy | string;
+  providerId: InsuranceProvider | string;
+  lines: InsuranceClaimLine[];
+  claimedAmount: number;
+  approvedAmount: number;
+  paidAmount: number;
+  status: ClaimStatus;
+  insurerReference?: string;
+  submittedAt?: string;
+  decidedAt?: string;
+  paidAt?: string;
+  rejectionReason?: string;
+  notes?: string;
+  createdBy?: Pick<User, '_id' | 'name'> | string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClaimSummary {
+  status: ClaimStatus;
+  count: number;
+  claimedAmount: number;
+  approvedAmount: number;
+  paidAmount: number;
+}
+
 export interface FileMetadata {
   _id: string;
   patientId: string;
   fileName: string;
-  fileType: 'prescription' | 'scan' | 'report' | 'other';
+  fileType: 'prescription' | 'scan' | 'report' | 'consent' | 'other';
   mimeType: string;
   fileSize: number;
   s3Key: string;
@@ -97,6 +1143,7 @@ export interface PatientGrowth {
 
 export interface RevenueByTreatment {
   treatmentType: string;
+  procedureCode?: string;
   totalRevenue: number;
   count: number;
 }
@@ -112,6 +1159,29 @@ export interface DiseaseStats {
   count: number;
 }
 
+export interface AgingBuckets {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+  total: number;
+}
+
+export interface AgingRow extends AgingBuckets {
+  patientId: string;
+  name: string;
+  contact?: string;
+  invoiceCount: number;
+  oldestDaysOverdue: number;
+}
+
+export interface AgingReport {
+  asOf: string;
+  totals: AgingBuckets;
+  patients: AgingRow[];
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -121,6 +1191,18 @@ export interface ApiResponse<T> {
   limit?: number;
 }
 
+// Paging for list endpoints; page starts at 1
+export interface PageQuery {
+  page?: number;
+  limit?: number;
+}
+
+// What a failed request rejects with: the error response body, or just { error } when the server could not be reached
+export interface ApiError {
+  success?: false;
+  error?: string;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -0,0 +1,8 @@
+import type { SoapField } from '../types';
+
+export const SOAP_FIELDS: { field: SoapField; label: string; helper: string }[] = [
+  { field: 'subjective', label: 'Subjective', helper: "Chief complaint and history in the patient's words" },
+  { field: 'objective', label: 'Objective', helper: 'Examination findings, radiographs, tests' },
+  { field: 'assessment', label: 'Assessment', helper: 'Diagnosis' },
+  { field: 'plan', label: 'Plan', helper: 'Treatment given or planned, prescriptions, follow-up' },
+];
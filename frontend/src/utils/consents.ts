@@ -0,0 +1,8 @@
+import type { SignerRelationship } from '../types';
+
+export const SIGNER_RELATIONSHIP_LABELS: Record<SignerRelationship, string> = {
+  patient: 'Patient',
+  parent: 'Parent',
+  guardian: 'Guardian',
+  other: 'Other representative',
+};
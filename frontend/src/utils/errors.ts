@@ -0,0 +1,6 @@
+import type { ApiError } from '../types';
+
+/**
+ * The message from a failed request, or the fallback when there is none
+ */
+export const getErrorMessage = (err: unknown, fallback: string) => (err as ApiError | undefined)?.error || fallback;
@@ -0,0 +1,35 @@
+import type { InventoryCategory, PurchaseOrderStatus, StockMovementType } from '../types';
+
+export const INVENTORY_CATEGORY_LABELS: Record<InventoryCategory, string> = {
+  anesthetic: 'Anesthetic',
+  restorative: 'Restorative',
+  consumable: 'Consumable',
+  instrument: 'Instrument',
+  ppe: 'PPE',
+  medication: 'Medication',
+  other: 'Other',
+};
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Received',
+  usage: 'Used',
+  usage_reversal: 'Usage reversed',
+  adjustment: 'Adjusted',
+  disposal: 'Disposed',
+};
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+  draft: 'default',
+  ordered: 'info',
+  partially_received: 'warning',
+  received: 'success',
+  cancelled: 'error',
+};
@@ -0,0 +1,18 @@
+import type { Invoice } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether an invoice is past its due date with money still owed
+ * The API works this out the same way; it is never stored as a status
+ */
+export const isOverdue = (invoice: Pick<Invoice, 'status' | 'dueDate'>, now = new Date()) =>
+  (invoice.status === 'pending' || invoice.status === 'partial') &&
+  !!invoice.dueDate &&
+  new Date(invoice.dueDate) < now;
+
+/**
+ * Whole days an invoice is past its due date
+ */
+export const getDaysOverdue = (invoice: Pick<Invoice, 'status' | 'dueDate'>, now = new Date()) =>
+  isOverdue(invoice, now) ? Math.floor((now.getTime() - new Date(invoice.dueDate!).getTime()) / DAY_MS) : 0;
@@ -0,0 +1,60 @@
+import type { LabCase, LabCaseStatus, LabCaseType } from '../types';
+
+export const LAB_CASE_TYPE_LABELS: Record<LabCaseType, string> = {
+  crown: 'Crown',
+  bridge: 'Bridge',
+  veneer: 'Veneer',
+  inlay_onlay: 'Inlay / Onlay',
+  implant_crown: 'Implant Crown',
+  denture: 'Denture',
+  aligner: 'Aligners',
+  night_guard: 'Night Guard',
+  other: 'Other',
+};
+
+export const LAB_CASE_STATUS_LABELS: Record<LabCaseStatus, string> = {
+  sent: 'Sent',
+  in_progress: 'In Progress',
+  received: 'Received',
+  fitted: 'Fitted',
+  remake: 'Remake',
+};
+
+export const LAB_CASE_STATUS_COLORS: Record<LabCaseStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+  sent: 'info',
+  in_progress: 'info',
+  received: 'success',
+  fitted: 'default',
+  remake: 'error',
+};
+
+// Mirrors the transitions the backend allows
+export const LAB_CASE_NEXT_STATUSES: Record<LabCaseStatus, LabCaseStatus[]> = {
+  sent: ['in_progress', 'received'],
+  in_progress: ['received'],
+  received: ['fitted', 'remake'],
+  fitted: ['remake'],
+  remake: ['in_progress', 'received'],
+};
+
+const AT_LAB: LabCaseStatus[] = ['sent', 'in_progress', 'remake'];
+
+export const isLabCaseOverdue = (labCase: Pick<LabCase, 'status' | 'expectedReturnDate'>) =>
+  AT_LAB.includes(labCase.status) && new Date(labCase.expectedReturnDate) < new Date();
+
+/**
+ * Warning for a fitting booked before the lab work is expected back, or null
+ * The expected day itself is fine - the case may arrive that morning
+ */
+export const getFittingWarning = (
+  labCase: Pick<LabCase, 'caseNumber' | 'status' | 'expectedReturnDate'> | undefined,
+  startTime: string
+) => {
+  if (!labCase || !startTime || !AT_LAB.includes(labCase.status)) return null;
+
+  const expected = new Date(labCase.expectedReturnDate);
+  expected.setHours(0, 0, 0, 0);
+  if (new Date(startTime) >= expected) return null;
+
+  return `This fitting is before ${labCase.caseNumber} is expected back from the lab (${expected.toLocaleDateString()}).`;
+};
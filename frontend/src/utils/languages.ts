@@ -0,0 +1,12 @@
+/**
+ * Languages patients can receive notifications in
+ * Templates fall back to English when a language has none of its own
+ */
+export const LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+];
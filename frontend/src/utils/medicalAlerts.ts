@@ -0,0 +1,58 @@
+import type { AllergySeverity, MedicalCondition, MedicationClass, Patient } from '../types';
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+  life_threatening: 'Life-threatening',
+};
+
+export const MEDICATION_CLASS_LABELS: Record<MedicationClass, string> = {
+  anticoagulant: 'Anticoagulant',
+  antiplatelet: 'Antiplatelet',
+  bisphosphonate: 'Bisphosphonate',
+  insulin: 'Insulin',
+  antihypertensive: 'Antihypertensive',
+  steroid: 'Steroid',
+  other: 'Other',
+};
+
+export const MEDICAL_CONDITION_LABELS: Record<MedicalCondition, string> = {
+  diabetes: 'Diabetes',
+  hypertension: 'Hypertension',
+  pregnancy: 'Pregnancy',
+  cardiac: 'Cardiac condition',
+  bleeding_disorder: 'Bleeding disorder',
+  asthma: 'Asthma',
+  epilepsy: 'Epilepsy',
+  immunocompromised: 'Immunocompromised',
+  other: 'Other',
+};
+
+// Medication classes worth flagging on every visit; the rest are listed with the history
+const ALERT_MEDICATION_CLASSES: MedicationClass[] = ['anticoagulant', 'antiplatelet', 'bisphosphonate', 'insulin', 'steroid'];
+
+/**
+ * What staff should see before touching the patient: every allergy, the medications that
+ * change treatment, and recorded conditions
+ */
+export const getMedicalAlerts = (patient?: Pick<Patient, 'allergies' | 'medications' | 'conditions'> | null) => {
+  if (!patient) return [];
+
+  return [
+    ...(patient.allergies || []).map((allergy) => ({
+      label: `Allergy: ${allergy.substance}${allergy.reaction ? ` (${allergy.reaction})` : ''}`,
+      severe: allergy.severity === 'severe' || allergy.severity === 'life_threatening',
+    })),
+    ...(patient.medications || [])
+      .filter((medication) => ALERT_MEDICATION_CLASSES.includes(medication.medicationClass))
+      .map((medication) => ({
+        label: `${MEDICATION_CLASS_LABELS[medication.medicationClass]}: ${medication.name}`,
+        severe: medication.medicationClass === 'anticoagulant' || medication.medicationClass === 'antiplatelet',
+      })),
+    ...(patient.conditions || []).map((entry) => ({
+      label: entry.condition === 'other' && entry.notes ? entry.notes : MEDICAL_CONDITION_LABELS[entry.condition],
+      severe: entry.condition === 'bleeding_disorder' || entry.condition === 'pregnancy',
+    })),
+  ];
+};
@@ -0,0 +1,27 @@
+import type { DrugForm } from '../types';
+
+export const DRUG_FORM_LABELS: Record<DrugForm, string> = {
+  tablet: 'Tablet',
+  capsule: 'Capsule',
+  syrup: 'Syrup',
+  suspension: 'Suspension',
+  injection: 'Injection',
+  gel: 'Gel',
+  ointment: 'Ointment',
+  mouthwash: 'Mouthwash',
+  toothpaste: 'Toothpaste',
+  drops: 'Drops',
+  other: 'Other',
+};
+
+// Offered as suggestions; anything else can still be typed
+export const FREQUENCY_OPTIONS = [
+  'Once a day',
+  'Twice a day',
+  'Three times a day',
+  'Four times a day',
+  'At bedtime',
+  'When required for pain',
+];
+
+export const DURATION_OPTIONS = ['1 day', '3 days', '5 days', '7 days', '10 days', '2 weeks', '1 month'];
@@ -0,0 +1,28 @@
+import type { FeeScheduleType, ProcedureCategory, TaxClass } from '../types';
+
+export const PROCEDURE_CATEGORY_LABELS: Record<ProcedureCategory, string> = {
+  diagnostic: 'Diagnostic',
+  preventive: 'Preventive',
+  restorative: 'Restorative',
+  endodontics: 'Endodontics',
+  periodontics: 'Periodontics',
+  prosthodontics: 'Prosthodontics',
+  oral_surgery: 'Oral Surgery',
+  orthodontics: 'Orthodontics',
+  implants: 'Implants',
+  cosmetic: 'Cosmetic',
+  other: 'Other',
+};
+
+export const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  exempt: 'Exempt',
+  reduced: 'Reduced rate',
+  standard: 'Standard rate',
+};
+
+export const FEE_SCHEDULE_TYPE_LABELS: Record<FeeScheduleType, string> = {
+  standard: 'Standard',
+  insurance: 'Insurance',
+  staff_discount: 'Staff discount',
+  other: 'Other',
+};
@@ -0,0 +1,32 @@
+import type { RecurrenceRule, Weekday } from '../types';
+
+export interface RecurrenceFormState {
+  enabled: boolean;
+  frequency: RecurrenceRule['frequency'];
+  interval: string;
+  byWeekday: Weekday[];
+  ends: 'count' | 'until';
+  count: string;
+  until: string;
+}
+
+export const defaultRecurrence = (): RecurrenceFormState => ({
+  enabled: false,
+  frequency: 'weekly',
+  interval: '1',
+  byWeekday: [],
+  ends: 'count',
+  count: '6',
+  until: '',
+});
+
+/**
+ * Convert the form state into the rule the API expects
+ */
+export const toRecurrenceRule = (state: RecurrenceFormState): RecurrenceRule => ({
+  frequency: state.frequency,
+  interval: parseInt(state.interval, 10) || 1,
+  count: state.ends === 'count' ? parseInt(state.count, 10) || undefined : undefined,
+  until: state.ends === 'until' && state.until ? state.until : undefined,
+  byWeekday: state.frequency === 'weekly' && state.byWeekday.length > 0 ? state.byWeekday : undefined,
+});
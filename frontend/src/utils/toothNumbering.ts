@@ -0,0 +1,45 @@
+import type { ToothSurface } from '../types';
+
+export type NumberingSystem = 'fdi' | 'universal';
+
+export const SURFACES: ToothSurface[] = ['M', 'O', 'D', 'B', 'L', 'I'];
+
+// Chart layout in FDI notation, as seen facing the patient
+export const PERMANENT_UPPER = ['18', '17', '16', '15', '14', '13', '12', '11', '21', '22', '23', '24', '25', '26', '27', '28'];
+export const PERMANENT_LOWER = ['48', '47', '46', '45', '44', '43', '42', '41', '31', '32', '33', '34', '35', '36', '37', '38'];
+export const PRIMARY_UPPER = ['55', '54', '53', '52', '51', '61', '62', '63', '64', '65'];
+export const PRIMARY_LOWER = ['85', '84', '83', '82', '81', '71', '72', '73', '74', '75'];
+
+export const ALL_TEETH = [...PERMANENT_UPPER, ...PERMANENT_LOWER, ...PRIMARY_UPPER, ...PRIMARY_LOWER];
+
+// Universal numbers follow the arch clockwise from the upper right
+const UNIVERSAL_PERMANENT = [...PERMANENT_UPPER, ...[...PERMANENT_LOWER].reverse()];
+const UNIVERSAL_PRIMARY = [...PRIMARY_UPPER, ...[...PRIMARY_LOWER].reverse()];
+
+export const toDisplayNumber = (fdi: string, system: NumberingSystem): string => {
+  if (system === 'fdi') return fdi;
+
+  const permanentIndex = UNIVERSAL_PERMANENT.indexOf(fdi);
+  if (permanentIndex >= 0) return String(permanentIndex + 1);
+
+  const primaryIndex = UNIVERSAL_PRIMARY.indexOf(fdi);
+  if (primaryIndex >= 0) return String.fromCharCode(65 + primaryIndex);
+
+  return fdi;
+};
+
+export const isAnterior = (fdi: string) => ['1', '2', '3'].includes(fdi[1]);
+
+export const isUpper = (fdi: string) => ['1', '2', '5', '6'].includes(fdi[0]);
+
+// Mesial faces the midline: right side of the chart for quadrants 1/4/5/8
+export const isPatientRight = (fdi: string) => ['1', '4', '5', '8'].includes(fdi[0]);
+
+export const SURFACE_LABELS: Record<ToothSurface, string> = {
+  M: 'Mesial',
+  O: 'Occlusal',
+  D: 'Distal',
+  B: 'Buccal',
+  L: 'Lingual',
+  I: 'Incisal',
+};
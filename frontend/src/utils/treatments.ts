@@ -0,0 +1,6 @@
+import type { TreatmentStatus } from '../types';
+
+export const TREATMENT_STATUS_LABELS: Record<TreatmentStatus, string> = {
+  in_progress: 'In Progress',
+  completed: 'Completed',
+};
@@ -0,0 +1,31 @@
+import type { BloodSugarContext, VitalField, VitalsRecord } from '../types';
+
+export const VITAL_FIELDS: { field: VitalField; label: string; unit: string; step: number }[] = [
+  { field: 'systolic', label: 'Systolic', unit: 'mmHg', step: 1 },
+  { field: 'diastolic', label: 'Diastolic', unit: 'mmHg', step: 1 },
+  { field: 'pulse', label: 'Pulse', unit: 'bpm', step: 1 },
+  { field: 'spo2', label: 'SpO2', unit: '%', step: 1 },
+  { field: 'temperature', label: 'Temperature', unit: '°C', step: 0.1 },
+  { field: 'weight', label: 'Weight', unit: 'kg', step: 0.1 },
+  { field: 'height', label: 'Height', unit: 'cm', step: 1 },
+  { field: 'bloodSugar', label: 'Blood Sugar', unit: 'mg/dL', step: 1 },
+];
+
+export const BLOOD_SUGAR_CONTEXT_LABELS: Record<BloodSugarContext, string> = {
+  fasting: 'Fasting',
+  random: 'Random',
+  post_meal: 'After meal',
+};
+
+// What each trend chart plots; blood pressure draws systolic and diastolic together
+export const VITAL_TRENDS: { key: string; label: string; unit: string; fields: VitalField[] }[] = [
+  { key: 'bloodPressure', label: 'Blood Pressure', unit: 'mmHg', fields: ['systolic', 'diastolic'] },
+  { key: 'pulse', label: 'Pulse', unit: 'bpm', fields: ['pulse'] },
+  { key: 'spo2', label: 'SpO2', unit: '%', fields: ['spo2'] },
+  { key: 'temperature', label: 'Temperature', unit: '°C', fields: ['temperature'] },
+  { key: 'weight', label: 'Weight', unit: 'kg', fields: ['weight'] },
+  { key: 'bloodSugar', label: 'Blood Sugar', unit: 'mg/dL', fields: ['bloodSugar'] },
+];
+
+export const formatBloodPressure = (record: Pick<VitalsRecord, 'systolic' | 'diastolic'>) =>
+  record.systolic && record.diastolic ? `${record.systolic}/${record.diastolic}` : '';